@@ -1,18 +1,32 @@
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
-import { render } from "@testing-library/react-native";
+import { act, fireEvent, waitFor } from "@testing-library/react-native";
 import React from "react";
 
 import Home, { getPreview } from "../index";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockPush = jest.fn();
+let mockScreenOptions: any = null;
+const mockSearchChats = jest.fn((_db: unknown, _query: string): unknown[] => []);
 
 jest.mock("expo-router", () => ({
   Stack: {
-    Screen: () => null,
+    Screen: ({ options }: any) => {
+      mockScreenOptions = options;
+      return null;
+    },
   },
   useRouter: () => ({
-    push: jest.fn(),
+    push: mockPush,
   }),
 }));
 
+jest.mock("@/lib/chat-search", () => ({
+  ...jest.requireActual<typeof import("@/lib/chat-search")>("@/lib/chat-search"),
+  removeChatFromIndex: jest.fn(),
+  searchChats: (db: unknown, query: string) => mockSearchChats(db, query),
+}));
+
 jest.mock("@react-navigation/native", () => ({
   useIsFocused: () => true,
 }));
@@ -57,6 +71,9 @@ jest.mock("@/hooks/useDatabase", () => ({
 jest.mock("drizzle-orm", () => ({
   eq: jest.fn(),
   desc: jest.fn((column) => column),
+  sql: jest.fn(() => ({
+    mapWith: jest.fn(() => ({})),
+  })),
 }));
 
 jest.mock("drizzle-orm/expo-sqlite", () => ({
@@ -87,25 +104,18 @@ describe("getPreview", () => {
   it("returns null for invalid values", () => {
     expect(getPreview(undefined)).toBeNull();
     expect(getPreview(null)).toBeNull();
-    expect(getPreview([])).toBeNull();
-    expect(getPreview("not an array" as unknown)).toBeNull();
+    expect(getPreview("")).toBeNull();
   });
 
-  it("returns the last message preview", () => {
-    const messages = [
-      { role: "user", content: "First message" },
-      { role: "assistant", content: "Second message" },
-      { role: "user", content: "Last message" },
-    ];
-
-    expect(getPreview(messages)).toBe("Last message");
+  it("returns the preview of the last message content", () => {
+    expect(getPreview("Last message")).toBe("Last message");
+    expect(getPreview([{ type: "text", text: "Multipart message" }])).toBe("Multipart message");
   });
 
   it("truncates long previews to 80 characters", () => {
     const longText = "This is a very long message that exceeds the eighty character limit for the preview text";
-    const messages = [{ role: "user", content: longText }];
 
-    expect(getPreview(messages)).toBe(
+    expect(getPreview(longText)).toBe(
       "This is a very long message that exceeds the eighty character limit for the prev...",
     );
   });
@@ -117,14 +127,42 @@ describe("Home", () => {
   });
 
   it("renders without crashing", () => {
-    render(<Home />);
+    renderWithQueryClient(<Home />);
     expect(true).toBe(true);
   });
 
   it("shows the empty-state copy when there are no chats", () => {
-    const { getByText } = render(<Home />);
+    const { getByText } = renderWithQueryClient(<Home />);
 
     expect(getByText("Ready for a first conversation")).toBeTruthy();
     expect(getByText("Start chat")).toBeTruthy();
   });
+
+  it("searches chats from the header search bar and opens the matching message", async () => {
+    mockSearchChats.mockReturnValue([
+      {
+        chatId: 9,
+        messageIndex: 3,
+        title: "Zig server",
+        snippet: "use \u0002zig\u0003 std.net",
+      },
+    ]);
+
+    const { getByTestId, getByText } = renderWithQueryClient(<Home />);
+
+    act(() => {
+      mockScreenOptions.headerSearchBarOptions.onChangeText({ nativeEvent: { text: "zig" } });
+    });
+
+    await waitFor(() => {
+      expect(getByTestId("chat-search-result-9-3")).toBeTruthy();
+    });
+
+    expect(mockSearchChats).toHaveBeenCalledWith(expect.anything(), "zig");
+    expect(getByText("zig")).toBeTruthy();
+
+    fireEvent.press(getByTestId("chat-search-result-9-3"));
+
+    expect(mockPush).toHaveBeenCalledWith("/chat/9?messageIndex=3");
+  });
 });
@@ -76,6 +76,18 @@ function NavigationContent() {
               presentation: "card",
             }}
           />
+          <Stack.Screen
+            name="settings/anthropic"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/gemini"
+            options={{
+              presentation: "card",
+            }}
+          />
           <Stack.Screen
             name="settings/openrouter"
             options={{
@@ -112,6 +124,72 @@ function NavigationContent() {
               presentation: "card",
             }}
           />
+          <Stack.Screen
+            name="settings/personas"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/persona"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/documents"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/endpoints"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/endpoint"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/model"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/usage"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/fallback"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/network"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/mcp"
+            options={{
+              presentation: "card",
+            }}
+          />
+          <Stack.Screen
+            name="settings/mcp-server"
+            options={{
+              presentation: "card",
+            }}
+          />
         </Stack>
       </ThemeContext>
     </KeyboardProvider>
@@ -1,8 +1,13 @@
 import { RenameChatModal } from "@/components/chat/RenameChatModal";
+import { SystemPromptModal } from "@/components/chat/SystemPromptModal";
 import useChat from "@/hooks/chat/useChat";
+import { MIN_COMPARE_LANES, useChatCompare } from "@/hooks/chat/useChatCompare";
+import { useChatDocumentSearch } from "@/hooks/chat/useChatDocumentSearch";
 import { useChatHydration } from "@/hooks/chat/useChatHydration";
 import { useChatMediaPicker } from "@/hooks/chat/useChatMediaPicker";
+import { useChatPersona } from "@/hooks/chat/useChatPersona";
 import useDatabase from "@/hooks/useDatabase";
+import { useModelCapabilities } from "@/hooks/useModelCapabilities";
 import { useChatState } from "@/hooks/useChatState";
 import { useAuthStore } from "@/stores";
 import { useSettingsStore } from "@/stores/useSettingsStore";
@@ -14,6 +19,9 @@ import { KeyboardAvoidingView, KeyboardStickyView, useReanimatedKeyboardAnimatio
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import Animated, { useAnimatedStyle, interpolate } from "react-native-reanimated";
 import { ChatContextMenu } from "@/components/chat/ChatContextMenu";
+import { getProviderName } from "@/components/chat/context-menu/utils";
+import { CompareResponses } from "@/components/chat/CompareResponses";
+import { ContextUsageIndicator } from "@/components/chat/ContextUsageIndicator";
 import { MessageInput } from "@/components/chat/MessageInput";
 import { MessageList } from "@/components/chat/MessageList";
 import { RetrievalRecoveryView } from "@/components/chat/RetrievalRecoveryView";
@@ -22,8 +30,30 @@ import { SaveErrorBanner } from "@/components/chat/SaveErrorBanner";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { getMessagePreviewText } from "@/lib/chat-content-parts";
 import { createIdempotencyKey } from "@/lib/concurrency";
+import { planContextWindow } from "@/lib/context-budget";
+import { formatUsageTotals, recordUsage, sumMessageUsage } from "@/lib/usage-report";
+import { resolveSearchBackendChain } from "@/lib/search-backends";
 import { DEFAULT_CHAT_TITLE, getChatTitleForDisplay } from "@/lib/chat-title";
-import type { ChatSendInput } from "@/types/chat.types";
+import {
+    DEFAULT_CHAT_SETTINGS,
+    formatBlockedDomainsInput,
+    formatTemperatureInput,
+    normalizeSystemPrompt,
+    parseBlockedDomainsInput,
+    parseTemperatureInput,
+} from "@/lib/chat-settings";
+import type {
+    ChatContextSummary,
+    ChatSendInput,
+    ChatSettings,
+    ChatUsageAnnotation,
+    ContextStrategy,
+    FallbackPolicy,
+    TurnModelSelection,
+    UsageSource,
+} from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+import type { McpToolKey } from "@/types/mcp.types";
 
 const AUTO_TITLE_MAX_ATTEMPTS = 3;
 
@@ -33,12 +63,38 @@ export default function Chat() {
     const thinkingEnabled = useSettingsStore((state) => state.thinkingEnabled);
     const thinkingLevel = useSettingsStore((state) => state.thinkingLevel);
     const webSearchEnabled = useSettingsStore((state) => state.webSearchEnabled);
+    const toolApprovalPolicies = useSettingsStore((state) => state.toolApprovalPolicies);
+    const primarySearchBackend = useSettingsStore((state) => state.searchBackend);
+    const searchFallbackBackend = useSettingsStore((state) => state.searchFallbackBackend);
     const searxngUrl = useAuthStore((state) => state.searxngUrl);
-    const params = useLocalSearchParams<{ id?: string | string[] }>();
+    const storedSearchBackends = useAuthStore((state) => state.searchBackends);
+    const searchBackends = useMemo(() => resolveSearchBackendChain({
+        primary: primarySearchBackend,
+        fallback: searchFallbackBackend,
+        searxngUrl,
+        storedBackends: storedSearchBackends,
+    }), [primarySearchBackend, searchFallbackBackend, searxngUrl, storedSearchBackends]);
+    const customEndpoints = useAuthStore((state) => state.customEndpoints);
+    const mcpServers = useAuthStore((state) => state.mcpServers);
+    const params = useLocalSearchParams<{
+        id?: string | string[];
+        messageIndex?: string | string[];
+        personaId?: string | string[];
+    }>();
     
     // Get chat ID from params (or "new" for new chats)
     const rawChatId = Array.isArray(params.id) ? params.id[0] : params.id;
     const chatIdParam = rawChatId || "new";
+
+    // Message to scroll to when opened from a search result
+    const rawMessageIndex = Array.isArray(params.messageIndex) ? params.messageIndex[0] : params.messageIndex;
+    const parsedMessageIndex = rawMessageIndex !== undefined ? Number(rawMessageIndex) : NaN;
+    const focusMessageIndex = Number.isInteger(parsedMessageIndex) ? parsedMessageIndex : null;
+
+    // Persona to start from when opened from the persona list
+    const rawPersonaId = Array.isArray(params.personaId) ? params.personaId[0] : params.personaId;
+    const parsedPersonaId = rawPersonaId !== undefined ? Number(rawPersonaId) : NaN;
+    const launchPersonaId = Number.isInteger(parsedPersonaId) ? parsedPersonaId : null;
     
     const isIos = Platform.OS === "ios";
     const insets = useSafeAreaInsets();
@@ -54,10 +110,50 @@ export default function Chat() {
     const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
     const [isRenameModalVisible, setIsRenameModalVisible] = useState(false);
     const [renameTitleDraft, setRenameTitleDraft] = useState("");
+    const [regenerateMessageIndex, setRegenerateMessageIndex] = useState<number | null>(null);
+    const [compareSelections, setCompareSelections] = useState<TurnModelSelection[]>([]);
+    const [chatSettings, setChatSettings] = useState<ChatSettings>(DEFAULT_CHAT_SETTINGS);
+    const [isSystemPromptModalVisible, setIsSystemPromptModalVisible] = useState(false);
+    const [systemPromptDraft, setSystemPromptDraft] = useState("");
+    const [temperatureDraft, setTemperatureDraft] = useState("");
+    const [contextStrategyDraft, setContextStrategyDraft] = useState<ContextStrategy>(
+        DEFAULT_CHAT_SETTINGS.contextStrategy,
+    );
+    const [fallbackPolicyDraft, setFallbackPolicyDraft] = useState<FallbackPolicy>(
+        DEFAULT_CHAT_SETTINGS.fallbackPolicy,
+    );
+    const [disabledToolsDraft, setDisabledToolsDraft] = useState<McpToolKey[]>(
+        DEFAULT_CHAT_SETTINGS.disabledTools,
+    );
+    const [blockedDomainsDraft, setBlockedDomainsDraft] = useState("");
+    const [documentCollectionsDraft, setDocumentCollectionsDraft] = useState<number[]>(
+        DEFAULT_CHAT_SETTINGS.documentCollections,
+    );
+    const [systemPromptError, setSystemPromptError] = useState<string | null>(null);
     const autoTitleAttemptCountRef = useRef(0);
     const isAutoTitleGenerationInFlightRef = useRef(false);
     const autoTitleSucceededRef = useRef(false);
     const lastAutoTitleTriggerSignatureRef = useRef<string | null>(null);
+
+    const { collections: documentCollections, documentSearch } = useChatDocumentSearch({
+        db,
+        collectionIds: chatSettings.documentCollections,
+    });
+
+    const handleContextSummaryChange = useCallback((contextSummary: ChatContextSummary) => {
+        setChatSettings((current) => ({ ...current, contextSummary }));
+    }, []);
+
+    // Hydration learns the chat's id after the chat hooks are set up, so the
+    // ledger reads it from a ref; unsaved chats record null.
+    const usageChatIdRef = useRef<number | null>(null);
+    const handleUsage = useCallback((usage: ChatUsageAnnotation, source: UsageSource) => {
+        try {
+            recordUsage(db, usage, { chatId: usageChatIdRef.current, source });
+        } catch (error) {
+            console.warn("[Chat] Failed to record usage:", error);
+        }
+    }, [db]);
     
     // Initialize useChat with chatId for unified state management
     const {
@@ -73,6 +169,13 @@ export default function Chat() {
         streamState,
         setMessages,
         setThinkingOutput,
+        branches,
+        setBranches,
+        editMessage,
+        regenerateMessage,
+        switchBranch,
+        adoptComparedReplies,
+        togglePinnedMessage,
         generateTitle,
         setTitle,
         title,
@@ -81,20 +184,67 @@ export default function Chat() {
         retryLastMessage,
         canRetry,
         errorMessage,
+        rateLimitWait,
+        retryWithFallback,
+        pendingToolApprovals,
+        resolveToolApproval,
         cancel,
     } = useChat({ 
         chatId: chatIdParam,
         enableThinking: thinkingEnabled,
         thinkingLevel,
         enableWebSearch: webSearchEnabled,
-        searxngUrl,
+        searchBackends,
+        mcpServers,
+        disabledTools: chatSettings.disabledTools,
+        blockedDomains: chatSettings.blockedDomains,
+        documentSearch,
+        toolApprovalPolicies,
+        systemPrompt: chatSettings.systemPrompt,
+        temperature: chatSettings.temperature,
+        contextStrategy: chatSettings.contextStrategy,
+        contextSummary: chatSettings.contextSummary,
+        onContextSummaryChange: handleContextSummaryChange,
+        onUsage: handleUsage,
+        enableFallback: chatSettings.fallbackPolicy !== "never",
         onFallback: (from, to, reason) => {
         },
         onError: (error) => {
         },
     });
 
-    const isInputLocked = streamState === "streaming" || streamState === "completing";
+    const compare = useChatCompare({
+        enableThinking: thinkingEnabled,
+        thinkingLevel,
+        systemPrompt: chatSettings.systemPrompt,
+        temperature: chatSettings.temperature,
+        contextStrategy: chatSettings.contextStrategy,
+        contextSummary: chatSettings.contextSummary,
+        onUsage: handleUsage,
+    });
+    const isCompareMode = compareSelections.length >= MIN_COMPARE_LANES;
+    const modelCapabilities = useModelCapabilities(currentProvider, currentModel);
+    // Mirrors the budget the next send will apply, so the header shows what
+    // the model will actually receive rather than the whole history.
+    const contextUsage = useMemo(() => planContextWindow({
+        messages,
+        strategy: chatSettings.contextStrategy,
+        contextTokens: modelCapabilities.contextTokens,
+        systemPrompt: chatSettings.systemPrompt ?? undefined,
+        summary: chatSettings.contextSummary,
+    }), [
+        chatSettings.contextStrategy,
+        chatSettings.contextSummary,
+        chatSettings.systemPrompt,
+        messages,
+        modelCapabilities.contextTokens,
+    ]);
+    // A pending comparison holds the next turn, so the chat stays locked until
+    // one answer is kept or all are discarded.
+    const hasPendingComparison = compare.lanes.length > 0;
+    const isInputLocked = streamState === "streaming"
+        || streamState === "completing"
+        || hasPendingComparison;
     const messageListBottomInset = isIos && isKeyboardVisible ? composerHeight : 0;
     const resetAutoTitleState = useCallback(() => {
         autoTitleAttemptCountRef.current = 0;
@@ -114,8 +264,11 @@ export default function Chat() {
         handleRemoveAttachment,
         handleTakePhoto,
         handleChooseFromLibrary,
+        handleChooseDocument,
     } = useChatMediaPicker({
         isInputLocked,
+        acceptsImages: modelCapabilities.vision,
+        acceptsVideos: modelCapabilities.video,
     });
 
     const {
@@ -131,13 +284,24 @@ export default function Chat() {
         syncFromDatabase,
         setMessages,
         setThinkingOutput,
+        setBranches,
         setTitle,
+        setChatSettings,
         setText,
         clearPendingAttachments,
         resetAutoTitleState,
         syncAutoTitleState,
     });
 
+    const { activePersona } = useChatPersona({
+        chatIdParam,
+        launchPersonaId,
+        activePersonaId: chatSettings.personaId,
+        db,
+        isInitializing,
+        setChatSettings,
+    });
+
     useEffect(() => {
         const showSubscription = Keyboard.addListener(
             isIos ? "keyboardWillShow" : "keyboardDidShow",
@@ -217,9 +381,11 @@ export default function Chat() {
         chatIdParam,
         messages,
         thinkingOutput,
+        branches,
         providerId: currentProvider,
         modelId: currentModel,
         title,
+        settings: chatSettings,
         onSaveComplete: (savedChatId) => {
             setChatID((current) => (current === 0 ? savedChatId : current));
         },
@@ -231,12 +397,13 @@ export default function Chat() {
 
     const handleReset = useCallback(() => {
         reset();
+        compare.clear();
         clearPendingAttachments();
         setIsRenameModalVisible(false);
         setRenameTitleDraft("");
         clearOverride();
         resetAutoTitleState();
-    }, [clearOverride, clearPendingAttachments, reset, resetAutoTitleState]);
+    }, [clearOverride, clearPendingAttachments, compare, reset, resetAutoTitleState]);
 
     const handleOpenRenameModal = useCallback(() => {
         const currentTitle = title.trim() === DEFAULT_CHAT_TITLE ? "" : title.trim();
@@ -268,10 +435,117 @@ export default function Chat() {
         handleCloseRenameModal();
     }, [handleCloseRenameModal, renameTitleDraft, setTitle, title]);
 
+    const handleOpenSystemPromptModal = useCallback(() => {
+        setSystemPromptDraft(chatSettings.systemPrompt ?? "");
+        setTemperatureDraft(formatTemperatureInput(chatSettings.temperature));
+        setContextStrategyDraft(chatSettings.contextStrategy);
+        setFallbackPolicyDraft(chatSettings.fallbackPolicy);
+        setDisabledToolsDraft(chatSettings.disabledTools);
+        setBlockedDomainsDraft(formatBlockedDomainsInput(chatSettings.blockedDomains));
+        setDocumentCollectionsDraft(chatSettings.documentCollections);
+        setSystemPromptError(null);
+        setIsSystemPromptModalVisible(true);
+    }, [
+        chatSettings.blockedDomains,
+        chatSettings.contextStrategy,
+        chatSettings.disabledTools,
+        chatSettings.documentCollections,
+        chatSettings.fallbackPolicy,
+        chatSettings.systemPrompt,
+        chatSettings.temperature,
+    ]);
+
+    const handleCloseSystemPromptModal = useCallback(() => {
+        setIsSystemPromptModalVisible(false);
+        setSystemPromptError(null);
+    }, []);
+
+    const handleSystemPromptSubmit = useCallback(() => {
+        const { temperature, error } = parseTemperatureInput(temperatureDraft);
+        if (error) {
+            setSystemPromptError(error);
+            return;
+        }
+
+        setChatSettings((current) => ({
+            ...current,
+            systemPrompt: normalizeSystemPrompt(systemPromptDraft),
+            temperature,
+            contextStrategy: contextStrategyDraft,
+            fallbackPolicy: fallbackPolicyDraft,
+            disabledTools: disabledToolsDraft,
+            blockedDomains: parseBlockedDomainsInput(blockedDomainsDraft),
+            documentCollections: documentCollectionsDraft,
+        }));
+        handleCloseSystemPromptModal();
+    }, [
+        blockedDomainsDraft,
+        contextStrategyDraft,
+        disabledToolsDraft,
+        documentCollectionsDraft,
+        fallbackPolicyDraft,
+        handleCloseSystemPromptModal,
+        systemPromptDraft,
+        temperatureDraft,
+    ]);
+
+    const systemPromptSummary = activePersona?.name ?? chatSettings.systemPrompt ?? "None";
+    const usageSummary = useMemo(() => formatUsageTotals(sumMessageUsage(messages)), [messages]);
+
     const sendChatMessages = useCallback(async (input?: ChatSendInput) => {
+        if (isCompareMode) {
+            const didSend = await compare.send({
+                input,
+                text,
+                history: messages,
+                selections: compareSelections,
+            });
+            if (didSend) {
+                setText("");
+                clearPendingAttachments();
+            }
+            return;
+        }
+
         await sendMessage(input);
         clearPendingAttachments();
-    }, [clearPendingAttachments, sendMessage]);
+    }, [
+        clearPendingAttachments,
+        compare,
+        compareSelections,
+        isCompareMode,
+        messages,
+        sendMessage,
+        setText,
+        text,
+    ]);
+
+    const handlePickComparedReply = useCallback((laneIndex: number) => {
+        const result = compare.pick(laneIndex);
+        if (!result) {
+            return;
+        }
+
+        adoptComparedReplies(result.prompt, result.replies, result.chosenIndex);
+        compare.clear();
+    }, [adoptComparedReplies, compare]);
+
+    const handleEditMessage = useCallback((messageIndex: number, nextText: string) => {
+        void editMessage(messageIndex, nextText);
+    }, [editMessage]);
+
+    const handleRegenerateSelect = useCallback((providerId: ProviderId, modelId: string) => {
+        if (regenerateMessageIndex === null) {
+            return;
+        }
+
+        setRegenerateMessageIndex(null);
+        void regenerateMessage(regenerateMessageIndex, { providerId, modelId });
+    }, [regenerateMessage, regenerateMessageIndex]);
+
+    const handleRegenerateDismiss = useCallback(() => {
+        setRegenerateMessageIndex(null);
+    }, []);
 
     const handleComposerLayout = useCallback((event: LayoutChangeEvent) => {
         const nextComposerHeight = Math.ceil(event.nativeEvent.layout.height);
@@ -287,6 +561,10 @@ export default function Chat() {
         }
     }, [chatID, lastSavedChatId, setChatID]);
 
+    useEffect(() => {
+        usageChatIdRef.current = chatID > 0 ? chatID : null;
+    }, [chatID]);
+
     useEffect(() => {
         if (isInitializing) {
             return;
@@ -331,6 +609,13 @@ export default function Chat() {
                       headerTitle: getChatTitleForDisplay(title),
                       headerTransparent: true,
                       headerTintColor: theme.colors.text,
+                      headerRight: () => (
+                          <ContextUsageIndicator
+                              usedTokens={contextUsage.usedTokens}
+                              contextTokens={contextUsage.contextTokens}
+                              omittedCount={contextUsage.omittedCount}
+                          />
+                      ),
                   }}
               />
              
@@ -359,6 +644,21 @@ export default function Chat() {
                           isThinking={isThinking}
                           isStreaming={isStreaming}
                          bottomInset={messageListBottomInset}
+                          focusMessageIndex={focusMessageIndex}
+                          branches={branches}
+                          onEditMessage={isInputLocked ? undefined : handleEditMessage}
+                          onSwitchBranch={switchBranch}
+                          onRegenerateMessage={isInputLocked ? undefined : setRegenerateMessageIndex}
+                          onTogglePin={chatSettings.contextStrategy === "keep-pinned" ? togglePinnedMessage : undefined}
+                          pendingToolApprovals={pendingToolApprovals}
+                          onResolveToolApproval={resolveToolApproval}
+                          footer={hasPendingComparison ? (
+                              <CompareResponses
+                                  lanes={compare.lanes}
+                                  onPick={handlePickComparedReply}
+                                  onDiscard={compare.clear}
+                              />
+                          ) : null}
                        />
 
                       <RetrievalRecoveryView
@@ -376,6 +676,12 @@ export default function Chat() {
                            canRetry={canRetry}
                            onRetry={retryLastMessage}
                            errorMessage={errorMessage}
+                           retryAt={rateLimitWait?.retryAt}
+                           isRetrying={isStreaming}
+                           fallbackLabel={rateLimitWait?.fallback
+                               ? getProviderName(rateLimitWait.fallback.providerId, customEndpoints)
+                               : null}
+                           onFallback={retryWithFallback}
                        />
 
                      {/* ================================================================== */}
@@ -409,14 +715,25 @@ export default function Chat() {
                                  attachments={pendingAttachments}
                                  onTakePhoto={handleTakePhoto}
                                  onChooseFromLibrary={handleChooseFromLibrary}
+                                 onChooseDocument={handleChooseDocument}
                                  onRemoveAttachment={handleRemoveAttachment}
+                                 canAttachImages={modelCapabilities.vision}
+                                 canAttachVideos={modelCapabilities.video}
                                 disabled={isInputLocked}
-                                isStreaming={isStreaming}
-                                onCancel={cancel}
+                                isStreaming={isStreaming || compare.isComparing}
+                                onCancel={compare.isComparing ? compare.cancelAll : cancel}
                                 toolbar={
                                     <ChatContextMenu
                                         onReset={handleReset}
                                         onRename={handleOpenRenameModal}
+                                        onEditSystemPrompt={handleOpenSystemPromptModal}
+                                        systemPromptSummary={systemPromptSummary}
+                                        usageSummary={usageSummary}
+                                        regenerateMessageIndex={regenerateMessageIndex}
+                                        onRegenerateSelect={handleRegenerateSelect}
+                                        onRegenerateDismiss={handleRegenerateDismiss}
+                                        compareSelections={compareSelections}
+                                        onCompareSelectionsChange={setCompareSelections}
                                     />
                                 }
                             />
@@ -432,14 +749,25 @@ export default function Chat() {
                              attachments={pendingAttachments}
                              onTakePhoto={handleTakePhoto}
                              onChooseFromLibrary={handleChooseFromLibrary}
+                             onChooseDocument={handleChooseDocument}
                              onRemoveAttachment={handleRemoveAttachment}
+                             canAttachImages={modelCapabilities.vision}
+                             canAttachVideos={modelCapabilities.video}
                             disabled={isInputLocked}
-                            isStreaming={isStreaming}
-                            onCancel={cancel}
+                            isStreaming={isStreaming || compare.isComparing}
+                            onCancel={compare.isComparing ? compare.cancelAll : cancel}
                             toolbar={
                                 <ChatContextMenu
                                     onReset={handleReset}
                                     onRename={handleOpenRenameModal}
+                                    onEditSystemPrompt={handleOpenSystemPromptModal}
+                                    systemPromptSummary={systemPromptSummary}
+                                    usageSummary={usageSummary}
+                                    regenerateMessageIndex={regenerateMessageIndex}
+                                    onRegenerateSelect={handleRegenerateSelect}
+                                    onRegenerateDismiss={handleRegenerateDismiss}
+                                    compareSelections={compareSelections}
+                                    onCompareSelectionsChange={setCompareSelections}
                                 />
                             }
                          />
@@ -453,6 +781,30 @@ export default function Chat() {
                      onClose={handleCloseRenameModal}
                      onSubmit={handleRenameSubmit}
                  />
+
+                 <SystemPromptModal
+                     visible={isSystemPromptModalVisible}
+                     personaName={activePersona?.name ?? null}
+                     prompt={systemPromptDraft}
+                     onChangePrompt={setSystemPromptDraft}
+                     temperature={temperatureDraft}
+                     onChangeTemperature={setTemperatureDraft}
+                     contextStrategy={contextStrategyDraft}
+                     onChangeContextStrategy={setContextStrategyDraft}
+                     fallbackPolicy={fallbackPolicyDraft}
+                     onChangeFallbackPolicy={setFallbackPolicyDraft}
+                     mcpServers={mcpServers}
+                     disabledTools={disabledToolsDraft}
+                     onChangeDisabledTools={setDisabledToolsDraft}
+                     blockedDomains={blockedDomainsDraft}
+                     onChangeBlockedDomains={setBlockedDomainsDraft}
+                     collections={documentCollections}
+                     documentCollections={documentCollectionsDraft}
+                     onChangeDocumentCollections={setDocumentCollectionsDraft}
+                     error={systemPromptError}
+                     onClose={handleCloseSystemPromptModal}
+                     onSubmit={handleSystemPromptSubmit}
+                 />
              </View>
          </>
      );
@@ -116,6 +116,19 @@ jest.mock('@/hooks/chat/useChatHydration', () => ({
   }),
 }));
 
+jest.mock('@/hooks/chat/useChatPersona', () => ({
+  useChatPersona: () => ({
+    activePersona: null,
+  }),
+}));
+
+jest.mock('@/hooks/chat/useChatDocumentSearch', () => ({
+  useChatDocumentSearch: () => ({
+    collections: [],
+    documentSearch: null,
+  }),
+}));
+
 // Mock useChat hook
 jest.mock('@/hooks/chat/useChat', () => ({
   __esModule: true,
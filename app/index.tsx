@@ -3,10 +3,12 @@ import * as React from "react";
 import { FlatList, Pressable, View, Text } from "react-native";
 import { useLiveQuery } from "drizzle-orm/expo-sqlite";
 import { useIsFocused } from "@react-navigation/native";
+import { useQuery } from "@tanstack/react-query";
 import useDatabase from "@/hooks/useDatabase";
-import { chat } from "@/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { chat, message, messageBranch } from "@/db/schema";
+import { eq, desc, sql } from "drizzle-orm";
 import { ChatListItem } from "@/components/chat/ChatListItem";
+import { ChatSearchResultItem } from "@/components/chat/ChatSearchResultItem";
 import { IconButton } from "@/components/ui/IconButton";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { normalizeTitleForPersistence } from "@/lib/chat-title";
@@ -19,6 +21,8 @@ import {
 import Animated, { FadeIn } from "react-native-reanimated";
 import { SymbolView } from "expo-symbols";
 import { getMessagePreviewText } from "@/lib/chat-content-parts";
+import { removeChatFromIndex, searchChats, type ChatSearchResult } from "@/lib/chat-search";
+import { chatQueryKeys } from "@/lib/query-client";
 import {
   failPersistenceOperation,
   startPersistenceOperation,
@@ -36,22 +40,39 @@ interface ChatListRow {
 const REFRESH_ERROR_MESSAGE =
   "Couldn't refresh chats right now. Pull to retry.";
 const PARTIAL_ROW_MESSAGE = "Some chats could not be displayed.";
+const SEARCH_ERROR_MESSAGE = "Search is unavailable right now.";
+const SEARCH_DEBOUNCE_MS = 200;
 
-export const getPreview = (messages: unknown): string | null => {
+/**
+ * Builds the list preview from the content of a chat's last message only,
+ * so rendering the list never parses whole conversations.
+ */
+export const getPreview = (lastMessageContent: unknown): string | null => {
   try {
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
-      return null;
-    }
+    if (!lastMessageContent) return null;
 
-    const lastMessage = messages[messages.length - 1] as { content?: unknown };
-    if (!lastMessage?.content) return null;
-
-    return getMessagePreviewText(lastMessage.content);
+    return getMessagePreviewText(lastMessageContent);
   } catch {
     return null;
   }
 };
 
+const selectChatListRows = (db: ReturnType<typeof useDatabase>) =>
+  db
+    .select({
+      id: chat.id,
+      title: chat.title,
+      updatedAt: chat.updatedAt,
+      lastMessageContent: sql<unknown>`(
+        select ${message.content} from ${message}
+        where ${message.chatId} = ${chat.id}
+        order by ${message.ordinal} desc
+        limit 1
+      )`.mapWith(message.content),
+    })
+    .from(chat)
+    .orderBy(desc(chat.updatedAt));
+
 const coerceTimestamp = (value: unknown): Date | null => {
   if (value instanceof Date && !Number.isNaN(value.getTime())) {
     return value;
@@ -88,7 +109,7 @@ const normalizeChatRow = (row: unknown): ChatListRow | null => {
       typeof record.title === "string"
         ? normalizeTitleForPersistence(record.title)
         : null,
-    preview: getPreview(record.messages),
+    preview: getPreview(record.lastMessageContent),
     timestamp: coerceTimestamp(record.updatedAt),
   };
 };
@@ -163,6 +184,7 @@ const EmptyState = ({ onStartChat }: { onStartChat: () => void }) => {
  * - Header with navigation buttons (settings + new chat)
  * - Scrollable list of chats or empty state message
  * - Swipe-to-delete functionality on chat items
+ * - Header search bar backed by the full-text chat index
  */
 export default function Home() {
   // Database hook for direct access to SQLite
@@ -178,15 +200,14 @@ export default function Home() {
   const [isRefreshing, setIsRefreshing] = React.useState(false);
   const [refreshError, setRefreshError] = React.useState<string | null>(null);
   const [deletingIds, setDeletingIds] = React.useState<Set<number>>(new Set());
+  const [searchText, setSearchText] = React.useState("");
+  const [debouncedSearchText, setDebouncedSearchText] = React.useState("");
   const listQueryOperationRef =
     React.useRef<PersistenceOperationContext | null>(null);
 
   // Live query: Fetches all chats ordered by most recently updated
   // Automatically re-renders when chat data changes
-  const chatsQuery = useLiveQuery(
-    db.select().from(chat).orderBy(desc(chat.updatedAt)),
-    [refreshNonce],
-  );
+  const chatsQuery = useLiveQuery(selectChatListRows(db), [refreshNonce]);
 
   // Delete handler: Removes a chat from database by ID
   const deleteChat = React.useCallback(
@@ -207,7 +228,14 @@ export default function Home() {
           await runChatOperation(
             String(id),
             async () => {
-              await db.delete(chat).where(eq(chat.id, id));
+              await db.transaction((tx) => {
+                // Foreign keys are not enforced on this connection, so the
+                // message and branch rows are cleared explicitly alongside the chat.
+                removeChatFromIndex(tx, id);
+                tx.delete(message).where(eq(message.chatId, id)).run();
+                tx.delete(messageBranch).where(eq(messageBranch.chatId, id)).run();
+                tx.delete(chat).where(eq(chat.id, id)).run();
+              });
             },
             "list",
           );
@@ -239,6 +267,39 @@ export default function Home() {
     [router],
   );
 
+  const openSearchResult = React.useCallback(
+    (result: ChatSearchResult) => {
+      if (isChatDeleteLocked(result.chatId)) {
+        return;
+      }
+
+      router.push(
+        result.messageIndex === null
+          ? `/chat/${result.chatId}`
+          : `/chat/${result.chatId}?messageIndex=${result.messageIndex}`,
+      );
+    },
+    [router],
+  );
+
+  // Debounce keystrokes so the index is queried once typing settles
+  React.useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setDebouncedSearchText(searchText.trim());
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchText]);
+
+  const isSearchActive = debouncedSearchText.length > 0;
+  const searchQuery = useQuery({
+    queryKey: chatQueryKeys.search(debouncedSearchText),
+    enabled: isSearchActive,
+    retry: false,
+    refetchOnWindowFocus: false,
+    queryFn: async () => searchChats(db, debouncedSearchText),
+  });
+
   const openNewChat = React.useCallback(() => {
     router.push("/chat/new");
   }, [router]);
@@ -306,7 +367,7 @@ export default function Home() {
     try {
       await runListOperation(async () => {
         setRefreshNonce((current) => current + 1);
-        await db.select().from(chat).orderBy(desc(chat.updatedAt));
+        await selectChatListRows(db);
       });
     } catch {
       setRefreshError(REFRESH_ERROR_MESSAGE);
@@ -316,6 +377,7 @@ export default function Home() {
   }, [db]);
 
   const bannerMessage =
+    (isSearchActive && searchQuery.error ? SEARCH_ERROR_MESSAGE : null) ||
     refreshError ||
     (chatsQuery.error ? REFRESH_ERROR_MESSAGE : null) ||
     (droppedRowCount > 0 ? PARTIAL_ROW_MESSAGE : null);
@@ -332,6 +394,12 @@ export default function Home() {
           title: "Chats",
           headerTransparent: true,
           headerTintColor: theme.colors.text,
+          // Search bar: Full-text search across titles, messages and sources
+          headerSearchBarOptions: {
+            placeholder: "Search chats",
+            onChangeText: (event) => setSearchText(event.nativeEvent.text),
+            onCancelButtonPress: () => setSearchText(""),
+          },
           // Right button: "+" icon to create new chat
           headerRight: () => (
             <IconButton
@@ -366,29 +434,53 @@ export default function Home() {
           </View>
         ) : null}
 
-        <FlatList
-          className="flex-1"
-          contentContainerClassName="flex-grow pt-[125px] pb-5"
-          data={chatRows}
-          keyExtractor={(item) => item.id.toString()}
-          onRefresh={handleRefresh}
-          refreshing={isRefreshing}
-          // Each list item: Chat preview with delete capability
-          renderItem={({ item }) => (
-            <ChatListItem
-              id={item.id}
-              title={item.title}
-              preview={item.preview}
-              timestamp={item.timestamp}
-              onDelete={deleteChat}
-              onOpen={openChat}
-              isDeleting={deletingIds.has(item.id)}
-              isScreenFocused={isScreenFocused}
-            />
-          )}
-          ListEmptyComponent={<EmptyState onStartChat={openNewChat} />}
-          showsVerticalScrollIndicator={false}
-        />
+        {isSearchActive ? (
+          <FlatList
+            className="flex-1"
+            contentContainerClassName="flex-grow pt-[125px] pb-5"
+            data={searchQuery.data ?? []}
+            keyExtractor={(item) => `${item.chatId}-${item.messageIndex ?? "title"}`}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <ChatSearchResultItem result={item} onOpen={openSearchResult} />
+            )}
+            ListEmptyComponent={
+              searchQuery.isFetching ? null : (
+                <Text
+                  className="text-[15px] text-center px-10 pt-10"
+                  style={{ color: theme.colors.textSecondary }}
+                >
+                  No chats match “{debouncedSearchText}”
+                </Text>
+              )
+            }
+            showsVerticalScrollIndicator={false}
+          />
+        ) : (
+          <FlatList
+            className="flex-1"
+            contentContainerClassName="flex-grow pt-[125px] pb-5"
+            data={chatRows}
+            keyExtractor={(item) => item.id.toString()}
+            onRefresh={handleRefresh}
+            refreshing={isRefreshing}
+            // Each list item: Chat preview with delete capability
+            renderItem={({ item }) => (
+              <ChatListItem
+                id={item.id}
+                title={item.title}
+                preview={item.preview}
+                timestamp={item.timestamp}
+                onDelete={deleteChat}
+                onOpen={openChat}
+                isDeleting={deletingIds.has(item.id)}
+                isScreenFocused={isScreenFocused}
+              />
+            )}
+            ListEmptyComponent={<EmptyState onStartChat={openNewChat} />}
+            showsVerticalScrollIndicator={false}
+          />
+        )}
       </View>
     </View>
   );
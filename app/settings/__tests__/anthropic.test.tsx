@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import AnthropicSettings from "../anthropic";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockSetSelectedModel = jest.fn();
+const mockSetAnthropicApiKey = jest.fn();
+const mockProviderSettingsScreen = jest.fn();
+
+jest.mock("react-native", () => {
+  const actual = jest.requireActual("react-native");
+  return actual;
+});
+
+jest.mock("@/components/settings/ProviderSettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text, TextInput, View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    ProviderSettingsScreen: (props: any) => {
+      mockProviderSettingsScreen(props);
+      return (
+        <View>
+          <TextInput testID="provider-input" value={props.inputValue} onChangeText={props.onChangeText} />
+          {props.actions.map((action: any) => (
+            <Pressable key={action.title} testID={`action-${action.title}`} onPress={action.onPress}>
+              <Text>{action.title}</Text>
+            </Pressable>
+          ))}
+          {props.status ? <Text>{props.status.message}</Text> : null}
+        </View>
+      );
+    },
+  };
+});
+
+jest.mock("@/stores", () => ({
+  useProviderStore: () => ({
+    selectedModel: "claude-sonnet-4-5",
+    setSelectedModel: mockSetSelectedModel,
+  }),
+  useAuthStore: () => ({
+    anthropicApiKey: "sk-ant-test-key",
+    setAnthropicApiKey: mockSetAnthropicApiKey,
+  }),
+}));
+
+const mockTestProviderConnection = jest.fn();
+
+jest.mock("@/providers/provider-factory", () => ({
+  testProviderConnection: (...args: any[]) => mockTestProviderConnection(...args),
+}));
+
+jest.mock("@/types/provider.types", () => ({
+  ANTHROPIC_MODELS: ["claude-sonnet-4-5", "claude-haiku-4-5"],
+}));
+
+describe("AnthropicSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockTestProviderConnection as any).mockResolvedValue(true);
+  });
+
+  it("passes the expected screen props to the shared provider settings screen", () => {
+    renderWithQueryClient(<AnthropicSettings />);
+
+    expect(mockProviderSettingsScreen).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: "Anthropic",
+        providerId: "anthropic",
+        inputLabel: "API Key",
+        inputPlaceholder: "sk-ant-...",
+        selectedModel: "claude-sonnet-4-5",
+      }),
+    );
+  });
+
+  it("saves the API key and updates the success state", async () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<AnthropicSettings />);
+
+    fireEvent.changeText(getByTestId("provider-input"), "sk-ant-updated");
+    fireEvent.press(getByTestId("action-Save Settings"));
+
+    await waitFor(() => {
+      expect(mockSetAnthropicApiKey).toHaveBeenCalledWith("sk-ant-updated");
+      expect(mockTestProviderConnection).toHaveBeenCalledWith("anthropic", { apiKey: "sk-ant-updated" });
+      expect(getByText("Connected successfully!")).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import DocumentSettings from "../documents";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockListCollections = jest.fn();
+const mockListDocuments = jest.fn();
+const mockImportDocument = jest.fn<(...args: any[]) => Promise<number>>();
+const mockCreateEmbedder = jest.fn();
+const mockGetDocumentAsync = jest.fn<(...args: any[]) => Promise<unknown>>();
+const mockSetEmbeddingSettings = jest.fn();
+const mockEmbeddingSettings = { providerId: "ollama", modelId: "nomic-embed-text" };
+const mockEmbedder = { key: "ollama:nomic-embed-text", embed: jest.fn() };
+
+jest.mock("expo-symbols", () => ({
+  SymbolView: () => null,
+}));
+
+jest.mock("expo-document-picker", () => ({
+  getDocumentAsync: (...args: any[]) => mockGetDocumentAsync(...args),
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+        error: "#ff453a",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/settings/SettingInput", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { TextInput } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingInput: ({ value, onChangeText, testID }: any) => React.createElement(TextInput, {
+      testID,
+      value,
+      onChangeText,
+    }),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, disabled, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress, disabled },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/components/settings/SettingsStatusBanner", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsStatusBanner: ({ status }: any) => status ? React.createElement(Text, null, status.message) : null,
+  };
+});
+
+jest.mock("@/hooks/useDatabase", () => ({
+  __esModule: true,
+  default: () => ({}),
+}));
+
+jest.mock("@/lib/document-library", () => ({
+  listCollections: (...args: any[]) => mockListCollections(...args),
+  listDocuments: (...args: any[]) => mockListDocuments(...args),
+  importDocument: (...args: any[]) => mockImportDocument(...args),
+  createCollection: jest.fn(),
+  deleteCollection: jest.fn(),
+  deleteDocument: jest.fn(),
+  reindexDocument: jest.fn(),
+  mapDocumentLibraryErrorToMessage: () => "Could not search the document library.",
+}));
+
+jest.mock("@/lib/document-embeddings", () => ({
+  ...jest.requireActual<typeof import("@/lib/document-embeddings")>("@/lib/document-embeddings"),
+  createEmbedder: (...args: any[]) => mockCreateEmbedder(...args),
+}));
+
+jest.mock("@/stores/useSettingsStore", () => ({
+  useSettingsStore: (selector: any) => selector({
+    embeddingSettings: mockEmbeddingSettings,
+    setEmbeddingSettings: mockSetEmbeddingSettings,
+  }),
+}));
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+describe("DocumentSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateEmbedder.mockReturnValue(mockEmbedder);
+    mockListCollections.mockReturnValue([
+      { id: 3, name: "Boat", documentCount: 1, createdAt: now, updatedAt: now },
+    ]);
+    mockListDocuments.mockReturnValue([
+      {
+        id: 9,
+        collectionId: 3,
+        name: "Manual.pdf",
+        mediaType: "application/pdf",
+        pageCount: 40,
+        charCount: 90000,
+        chunkCount: 80,
+        embeddingModel: "openai:text-embedding-3-small",
+        status: "ready",
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+  });
+
+  it("lists a collection's documents and flags ones indexed with another model", async () => {
+    const { findByTestId, findByText, getByText } = renderWithQueryClient(<DocumentSettings />);
+
+    fireEvent.press(await findByTestId("document-collection-3"));
+
+    expect(await findByText("Manual.pdf")).toBeTruthy();
+    expect(getByText("PDF · 40 pages · 80 passages")).toBeTruthy();
+    expect(getByText("Indexed with OpenAI · text-embedding-3-small; re-index to search it.")).toBeTruthy();
+    expect(mockListDocuments).toHaveBeenCalledWith({}, 3);
+  });
+
+  it("suggests a model for the picked provider and saves it", async () => {
+    const { getByTestId, findByText } = renderWithQueryClient(<DocumentSettings />);
+
+    fireEvent.press(getByTestId("embedding-provider-openai"));
+    expect(getByTestId("embedding-model-input").props.value).toBe("text-embedding-3-small");
+
+    fireEvent.press(getByTestId("save-embedding-model"));
+
+    expect(mockSetEmbeddingSettings).toHaveBeenCalledWith({
+      providerId: "openai",
+      modelId: "text-embedding-3-small",
+    });
+    expect(await findByText(
+      "Embedding model saved. Re-index documents indexed with the previous model to keep them searchable.",
+    )).toBeTruthy();
+  });
+
+  it("imports picked files into the open collection", async () => {
+    mockGetDocumentAsync.mockResolvedValue({
+      canceled: false,
+      assets: [
+        { uri: "file:///cache/tides.pdf", name: "tides.pdf", mimeType: "application/pdf" },
+        { uri: "file:///cache/photo.heic", name: "photo.heic", mimeType: "image/heic" },
+      ],
+    });
+    mockImportDocument.mockResolvedValue(10);
+
+    const { findByTestId, findByText } = renderWithQueryClient(<DocumentSettings />);
+
+    fireEvent.press(await findByTestId("document-collection-3"));
+    fireEvent.press(await findByTestId("document-collection-add-3"));
+
+    expect(await findByText("Added 1 of 2 files. The rest are not a supported type.")).toBeTruthy();
+    await waitFor(() => {
+      expect(mockImportDocument).toHaveBeenCalledWith(
+        {},
+        3,
+        { uri: "file:///cache/tides.pdf", name: "tides.pdf", mediaType: "application/pdf" },
+        mockEmbedder,
+        expect.any(Object),
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import CustomEndpointSettings from "../endpoint";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockBack = jest.fn();
+const mockSaveCustomEndpoint = jest.fn();
+const mockRemoveCustomEndpoint = jest.fn();
+const mockSetAvailableModels = jest.fn();
+const mockRemoveProviderModels = jest.fn();
+const mockInvalidateProvider = jest.fn();
+const mockTestConnection = jest.fn();
+const mockFetchModels = jest.fn();
+
+let mockParams: { id?: string } = {};
+
+const labEndpoint = {
+  id: "custom:lab-vllm",
+  name: "Lab vLLM",
+  baseUrl: "http://10.0.0.5:8000/v1",
+  apiKey: null,
+  headers: {},
+};
+
+jest.mock("expo-router", () => ({
+  router: {
+    back: () => mockBack(),
+  },
+  useLocalSearchParams: () => mockParams,
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/settings/SettingInput", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { TextInput } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingInput: ({ testID, value, onChangeText }: any) => React.createElement(
+      TextInput,
+      { testID, value, onChangeText },
+    ),
+  };
+});
+
+jest.mock("@/components/settings/SettingsStatusBanner", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsStatusBanner: ({ status }: any) => (status ? React.createElement(Text, null, status.message) : null),
+  };
+});
+
+jest.mock("@/components/settings/ModelListManager", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    ModelListManager: ({ providerId }: any) => React.createElement(Text, null, `models for ${providerId}`),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/providers/custom-endpoint-provider", () => ({
+  testCustomEndpointConnection: (...args: any[]) => mockTestConnection(...args),
+  fetchCustomEndpointModels: (...args: any[]) => mockFetchModels(...args),
+}));
+
+jest.mock("@/providers/provider-factory", () => ({
+  invalidateProvider: (...args: any[]) => mockInvalidateProvider(...args),
+}));
+
+jest.mock("@/stores", () => ({
+  useProviderStore: () => ({
+    selectedProvider: "apple",
+    selectedModel: "system-default",
+    setSelectedProvider: jest.fn(),
+    setSelectedModel: jest.fn(),
+    availableModels: {},
+    setAvailableModels: mockSetAvailableModels,
+    removeProviderModels: mockRemoveProviderModels,
+  }),
+  useAuthStore: () => ({
+    customEndpoints: [labEndpoint],
+    saveCustomEndpoint: mockSaveCustomEndpoint,
+    removeCustomEndpoint: mockRemoveCustomEndpoint,
+  }),
+}));
+
+describe("CustomEndpointSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockParams = {};
+    (mockTestConnection as any).mockResolvedValue(true);
+    (mockFetchModels as any).mockResolvedValue(["qwen3-32b", "llama-3.3-70b"]);
+  });
+
+  it("validates the form before saving", () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<CustomEndpointSettings />);
+
+    fireEvent.press(getByTestId("save-endpoint"));
+
+    expect(getByText("Give the endpoint a name.")).toBeTruthy();
+    expect(mockSaveCustomEndpoint).not.toHaveBeenCalled();
+  });
+
+  it("creates a new endpoint with a fresh id and tests it", async () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<CustomEndpointSettings />);
+
+    fireEvent.changeText(getByTestId("endpoint-name-input"), "Lab vLLM");
+    fireEvent.changeText(getByTestId("endpoint-url-input"), "http://10.0.0.6:8000");
+    fireEvent.changeText(getByTestId("endpoint-headers-input"), "X-Team: ml");
+    fireEvent.press(getByTestId("save-endpoint"));
+
+    const savedEndpoint = {
+      id: "custom:lab-vllm-2",
+      name: "Lab vLLM",
+      baseUrl: "http://10.0.0.6:8000/v1",
+      apiKey: null,
+      headers: { "X-Team": "ml" },
+    };
+
+    await waitFor(() => {
+      expect(getByText("Connected successfully!")).toBeTruthy();
+    });
+    expect(mockSaveCustomEndpoint).toHaveBeenCalledWith(savedEndpoint);
+    expect(mockTestConnection).toHaveBeenCalledWith(savedEndpoint);
+    expect(getByText("models for custom:lab-vllm-2")).toBeTruthy();
+  });
+
+  it("loads models for an existing endpoint into the provider store", async () => {
+    mockParams = { id: "custom:lab-vllm" };
+    const { getByTestId, getByText } = renderWithQueryClient(<CustomEndpointSettings />);
+
+    expect(getByTestId("endpoint-name-input").props.value).toBe("Lab vLLM");
+
+    fireEvent.press(getByTestId("load-endpoint-models"));
+
+    await waitFor(() => {
+      expect(getByText("Loaded 2 models from Lab vLLM.")).toBeTruthy();
+    });
+    expect(mockSetAvailableModels).toHaveBeenCalledWith("custom:lab-vllm", ["qwen3-32b", "llama-3.3-70b"]);
+  });
+
+  it("deletes the endpoint together with its models", () => {
+    mockParams = { id: "custom:lab-vllm" };
+    const { getByTestId } = renderWithQueryClient(<CustomEndpointSettings />);
+
+    fireEvent.press(getByTestId("delete-endpoint"));
+
+    expect(mockRemoveCustomEndpoint).toHaveBeenCalledWith("custom:lab-vllm");
+    expect(mockRemoveProviderModels).toHaveBeenCalledWith("custom:lab-vllm");
+    expect(mockInvalidateProvider).toHaveBeenCalledWith("custom:lab-vllm");
+    expect(mockBack).toHaveBeenCalled();
+  });
+});
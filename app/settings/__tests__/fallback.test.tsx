@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, render } from "@testing-library/react-native";
+import React from "react";
+
+import FallbackSettings from "../fallback";
+
+const mockSetFallbackChain = jest.fn();
+const mockSetFallbackTriggers = jest.fn();
+const mockSetRateLimitWaitLimit = jest.fn();
+const mockGetFallbackChain = jest.fn();
+
+let mockProviderState: Record<string, unknown> = {};
+
+jest.mock("expo-symbols", () => ({
+  SymbolView: () => null,
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/settings/SettingsStatusBanner", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsStatusBanner: ({ status }: any) => (status ? React.createElement(Text, null, status.message) : null),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/providers/fallback-chain", () => ({
+  DEFAULT_FALLBACK_TRIGGERS: [
+    "configuration",
+    "authentication",
+    "rate_limit",
+    "server_error",
+    "network",
+    "timeout",
+    "model_not_found",
+    "unknown",
+  ],
+  getFallbackChain: () => mockGetFallbackChain(),
+}));
+
+jest.mock("@/stores", () => ({
+  useAuthStore: (selector: (state: Record<string, unknown>) => unknown) => selector({ customEndpoints: [] }),
+  useProviderStore: (selector: (state: Record<string, unknown>) => unknown) => selector(mockProviderState),
+}));
+
+describe("FallbackSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetFallbackChain.mockReturnValue([
+      { providerId: "openai", modelId: null },
+      { providerId: "openrouter", modelId: null },
+      { providerId: "ollama", modelId: null },
+    ]);
+    mockProviderState = {
+      availableModels: { ollama: ["llama3.2", "qwen2.5"] },
+      customModels: {},
+      hiddenModels: {},
+      modelCatalogs: {},
+      fallbackTriggers: null,
+      rateLimitWaitLimitMs: null,
+      setFallbackChain: mockSetFallbackChain,
+      setFallbackTriggers: mockSetFallbackTriggers,
+      setRateLimitWaitLimit: mockSetRateLimitWaitLimit,
+    };
+  });
+
+  it("reorders, trims and pins the chain before saving", () => {
+    const { getByTestId, getByText } = render(<FallbackSettings />);
+
+    expect(getByText("1. OpenAI")).toBeTruthy();
+    fireEvent.press(getByTestId("fallback-remove-openai"));
+    fireEvent.press(getByTestId("fallback-step-ollama"));
+    fireEvent.press(getByTestId("fallback-model-ollama-qwen2.5"));
+    fireEvent.press(getByTestId("fallback-move-up-ollama"));
+    fireEvent.press(getByTestId("fallback-trigger-unknown"));
+    fireEvent.press(getByTestId("fallback-trigger-context_length"));
+    fireEvent.press(getByTestId("fallback-rate-limit-wait-60000"));
+    fireEvent.press(getByTestId("fallback-save"));
+
+    expect(getByText("1. Ollama")).toBeTruthy();
+    expect(getByTestId("fallback-add-openai")).toBeTruthy();
+    expect(mockSetFallbackChain).toHaveBeenCalledWith([
+      { providerId: "ollama", modelId: "qwen2.5" },
+      { providerId: "openrouter", modelId: null },
+    ]);
+    expect(mockSetFallbackTriggers).toHaveBeenCalledWith([
+      "configuration",
+      "authentication",
+      "rate_limit",
+      "server_error",
+      "network",
+      "timeout",
+      "model_not_found",
+      "context_length",
+    ]);
+    expect(mockSetRateLimitWaitLimit).toHaveBeenCalledWith(60_000);
+    expect(getByText("Fallback settings saved.")).toBeTruthy();
+  });
+
+  it("starts from saved triggers and restores the built-in behavior", () => {
+    mockProviderState.fallbackTriggers = ["rate_limit"];
+    mockProviderState.rateLimitWaitLimitMs = 0;
+    const { getByTestId, getByText } = render(<FallbackSettings />);
+
+    expect(getByTestId("fallback-trigger-rate_limit").props.accessibilityState).toEqual({ selected: true });
+    expect(getByTestId("fallback-trigger-network").props.accessibilityState).toEqual({ selected: false });
+    expect(getByTestId("fallback-rate-limit-wait-0").props.accessibilityState).toEqual({ selected: true });
+
+    fireEvent.press(getByTestId("fallback-use-defaults"));
+
+    expect(mockSetFallbackChain).toHaveBeenCalledWith(null);
+    expect(mockSetFallbackTriggers).toHaveBeenCalledWith(null);
+    expect(mockSetRateLimitWaitLimit).toHaveBeenCalledWith(null);
+    expect(getByTestId("fallback-trigger-network").props.accessibilityState).toEqual({ selected: true });
+    expect(getByTestId("fallback-rate-limit-wait-30000").props.accessibilityState).toEqual({ selected: true });
+    expect(getByText("Using the built-in fallback order.")).toBeTruthy();
+  });
+});
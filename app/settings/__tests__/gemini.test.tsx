@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import GeminiSettings from "../gemini";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockSetSelectedModel = jest.fn();
+const mockSetAvailableModels = jest.fn();
+const mockSetGeminiApiKey = jest.fn();
+const mockProviderSettingsScreen = jest.fn();
+
+jest.mock("react-native", () => {
+  const actual = jest.requireActual("react-native");
+  return actual;
+});
+
+jest.mock("@/components/settings/ProviderSettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text, TextInput, View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    ProviderSettingsScreen: (props: any) => {
+      mockProviderSettingsScreen(props);
+      return (
+        <View>
+          <TextInput testID="provider-input" value={props.inputValue} onChangeText={props.onChangeText} />
+          {props.actions.map((action: any) => (
+            <Pressable key={action.title} testID={`action-${action.title}`} onPress={action.onPress}>
+              <Text>{action.title}</Text>
+            </Pressable>
+          ))}
+          {props.status ? <Text>{props.status.message}</Text> : null}
+        </View>
+      );
+    },
+  };
+});
+
+jest.mock("@/stores", () => ({
+  useProviderStore: () => ({
+    selectedModel: "gemini-2.5-flash",
+    setSelectedModel: mockSetSelectedModel,
+    availableModels: { gemini: ["gemini-2.5-pro"] },
+    setAvailableModels: mockSetAvailableModels,
+  }),
+  useAuthStore: () => ({
+    geminiApiKey: "AIza-test-key",
+    setGeminiApiKey: mockSetGeminiApiKey,
+  }),
+}));
+
+const mockTestProviderConnection = jest.fn();
+const mockFetchGeminiModels = jest.fn();
+
+jest.mock("@/providers/provider-factory", () => ({
+  testProviderConnection: (...args: any[]) => mockTestProviderConnection(...args),
+}));
+
+jest.mock("@/providers/gemini-provider", () => ({
+  fetchGeminiModels: (...args: any[]) => mockFetchGeminiModels(...args),
+}));
+
+jest.mock("@/types/provider.types", () => ({
+  GEMINI_MODELS: ["gemini-2.5-flash", "gemini-2.5-pro"],
+}));
+
+describe("GeminiSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockTestProviderConnection as any).mockResolvedValue(true);
+    (mockFetchGeminiModels as any).mockResolvedValue(["gemini-2.5-pro", "gemini-2.5-flash"]);
+  });
+
+  it("passes the expected screen props to the shared provider settings screen", () => {
+    renderWithQueryClient(<GeminiSettings />);
+
+    expect(mockProviderSettingsScreen).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: "Google Gemini",
+        providerId: "gemini",
+        inputLabel: "API Key",
+        inputPlaceholder: "AIza...",
+        dynamicModels: ["gemini-2.5-pro"],
+        selectedModel: "gemini-2.5-flash",
+      }),
+    );
+  });
+
+  it("saves the API key and updates the success state", async () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<GeminiSettings />);
+
+    fireEvent.changeText(getByTestId("provider-input"), "AIza-updated");
+    fireEvent.press(getByTestId("action-Save & Test"));
+
+    await waitFor(() => {
+      expect(mockSetGeminiApiKey).toHaveBeenCalledWith("AIza-updated");
+      expect(mockTestProviderConnection).toHaveBeenCalledWith("gemini", { apiKey: "AIza-updated" });
+      expect(getByText("Connected successfully!")).toBeTruthy();
+    });
+  });
+
+  it("loads models from Google into the provider store", async () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<GeminiSettings />);
+
+    fireEvent.press(getByTestId("action-Load Models"));
+
+    await waitFor(() => {
+      expect(mockFetchGeminiModels).toHaveBeenCalledWith("AIza-test-key");
+      expect(mockSetAvailableModels).toHaveBeenCalledWith("gemini", ["gemini-2.5-pro", "gemini-2.5-flash"]);
+      expect(getByText("Loaded 2 models from Google.")).toBeTruthy();
+    });
+  });
+
+  it("keeps the current list when Google returns no models", async () => {
+    (mockFetchGeminiModels as any).mockResolvedValue([]);
+    const { getByTestId, getByText } = renderWithQueryClient(<GeminiSettings />);
+
+    fireEvent.press(getByTestId("action-Load Models"));
+
+    await waitFor(() => {
+      expect(getByText("No models were returned. Check your API key.")).toBeTruthy();
+    });
+    expect(mockSetAvailableModels).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,10 @@
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
-import { render } from "@testing-library/react-native";
+import { act, fireEvent, render } from "@testing-library/react-native";
+import { router } from "expo-router";
 import React from "react";
 
 import SettingsIndex from "../index";
+import { recordProviderFailure, resetProviderHealth } from "@/providers/provider-health";
 
 jest.mock("expo-router", () => ({
   router: {
@@ -40,8 +42,20 @@ jest.mock("@/components/ui/ProviderIcons", () => ({
 
 jest.mock("@/stores", () => ({
   isProviderConfigured: jest.fn((providerId: string) => providerId === "apple" || providerId === "openai"),
-  useAuthStore: (selector: (state: { searxngUrl: string | null }) => unknown) =>
-    selector({ searxngUrl: "https://search.example.com" }),
+  useAuthStore: (selector: (state: {
+    searxngUrl: string | null;
+    searchBackends: unknown[];
+    customEndpoints: unknown[];
+    mcpServers: unknown[];
+  }) => unknown) =>
+    selector({
+      searxngUrl: "https://search.example.com",
+      searchBackends: [],
+      customEndpoints: [
+        { id: "custom:lm-studio", name: "LM Studio", baseUrl: "http://10.0.0.2:1234/v1", apiKey: null, headers: {} },
+      ],
+      mcpServers: [],
+    }),
   useProviderStore: () => ({
     selectedProvider: "openai",
     selectedModel: "gpt-4o",
@@ -49,13 +63,14 @@ jest.mock("@/stores", () => ({
 }));
 
 jest.mock("@/stores/useSettingsStore", () => ({
-  useSettingsStore: (selector: (state: { webSearchEnabled: boolean }) => unknown) =>
-    selector({ webSearchEnabled: true }),
+  useSettingsStore: (selector: (state: { webSearchEnabled: boolean; searchBackend: string }) => unknown) =>
+    selector({ webSearchEnabled: true, searchBackend: "searxng" }),
 }));
 
 describe("SettingsIndex", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    resetProviderHealth();
   });
 
   it("renders the general, providers, and about sections", () => {
@@ -64,6 +79,7 @@ describe("SettingsIndex", () => {
     expect(getByText("General")).toBeTruthy();
     expect(getByText("Providers")).toBeTruthy();
     expect(getByText("About")).toBeTruthy();
+    expect(getByText("Enabled app-wide with SearXNG")).toBeTruthy();
   });
 
   it("renders the provider rows and descriptions", () => {
@@ -77,8 +93,35 @@ describe("SettingsIndex", () => {
     expect(getByText("ChatGPT and other OpenAI models")).toBeTruthy();
   });
 
+  it("lists custom endpoints with the providers and opens their editor", () => {
+    const { getByText } = render(<SettingsIndex />);
+
+    expect(getByText("Custom Endpoints")).toBeTruthy();
+    expect(getByText("http://10.0.0.2:1234/v1")).toBeTruthy();
+
+    fireEvent.press(getByText("LM Studio"));
+
+    expect(router.push).toHaveBeenCalledWith("/settings/endpoint?id=custom%3Alm-studio");
+  });
+
   it("shows the selected model for the active provider", () => {
     const { getByText } = render(<SettingsIndex />);
     expect(getByText("gpt-4o")).toBeTruthy();
   });
+
+  it("shows live health for providers that stopped answering", () => {
+    const { getByTestId, queryByTestId } = render(<SettingsIndex />);
+
+    expect(queryByTestId("provider-health-ollama")).toBeNull();
+
+    act(() => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        recordProviderFailure("ollama", "timeout");
+      }
+      recordProviderFailure("openai", "server_error");
+    });
+
+    expect(getByTestId("provider-health-ollama")).toHaveTextContent("Not responding · skipped for now");
+    expect(getByTestId("provider-health-openai")).toHaveTextContent("1 recent failure");
+  });
 });
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import McpServerSettings from "../mcp-server";
+import { McpClientError } from "@/lib/mcp-client";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockBack = jest.fn();
+const mockSaveMcpServer = jest.fn();
+const mockRemoveMcpServer = jest.fn();
+const mockSetToolApprovalPolicy = jest.fn();
+const mockListTools = jest.fn<() => Promise<unknown>>();
+const mockCreateMcpClient = jest.fn((_options: unknown) => ({ listTools: mockListTools }));
+
+let mockParams: { id?: string } = {};
+
+const docsServer = {
+  id: "docs",
+  name: "Docs",
+  url: "https://docs.example.com/mcp",
+  token: "secret",
+  enabled: true,
+  tools: [{ name: "search_docs", description: "Search the docs", inputSchema: { type: "object" } }],
+};
+
+jest.mock("expo-router", () => ({
+  router: {
+    back: () => mockBack(),
+  },
+  useLocalSearchParams: () => mockParams,
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/settings/SettingInput", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { TextInput } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingInput: ({ testID, value, onChangeText }: any) => React.createElement(
+      TextInput,
+      { testID, value, onChangeText },
+    ),
+  };
+});
+
+jest.mock("@/components/settings/SettingsStatusBanner", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsStatusBanner: ({ status }: any) => (status ? React.createElement(Text, null, status.message) : null),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/lib/mcp-client", () => ({
+  ...jest.requireActual<typeof import("@/lib/mcp-client")>("@/lib/mcp-client"),
+  createMcpClient: (options: unknown) => mockCreateMcpClient(options),
+}));
+
+jest.mock("@/stores", () => ({
+  useAuthStore: () => ({
+    mcpServers: [docsServer],
+    saveMcpServer: mockSaveMcpServer,
+    removeMcpServer: mockRemoveMcpServer,
+  }),
+}));
+
+jest.mock("@/stores/useSettingsStore", () => ({
+  useSettingsStore: (selector: any) => selector({
+    toolApprovalPolicies: { "docs/search_docs": "deny" },
+    setToolApprovalPolicy: mockSetToolApprovalPolicy,
+  }),
+}));
+
+describe("McpServerSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockParams = {};
+    mockListTools.mockResolvedValue([
+      { name: "read_page", description: null, inputSchema: { type: "object" } },
+    ]);
+  });
+
+  it("validates the form before saving", () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<McpServerSettings />);
+
+    fireEvent.changeText(getByTestId("mcp-server-name-input"), "Docs");
+    fireEvent.changeText(getByTestId("mcp-server-url-input"), "docs.example.com");
+    fireEvent.press(getByTestId("save-mcp-server"));
+
+    expect(getByText("Enter a server URL starting with http:// or https://.")).toBeTruthy();
+    expect(mockSaveMcpServer).not.toHaveBeenCalled();
+  });
+
+  it("saves a new server under a fresh id and stores the tools it lists", async () => {
+    const { getByTestId, getByText } = renderWithQueryClient(<McpServerSettings />);
+
+    fireEvent.changeText(getByTestId("mcp-server-name-input"), "Docs");
+    fireEvent.changeText(getByTestId("mcp-server-url-input"), "https://wiki.example.com/mcp/");
+    fireEvent.press(getByTestId("save-mcp-server"));
+
+    await waitFor(() => {
+      expect(getByText("Loaded 1 tool from Docs.")).toBeTruthy();
+    });
+    const savedServer = {
+      id: "docs-2",
+      name: "Docs",
+      url: "https://wiki.example.com/mcp",
+      token: null,
+      enabled: true,
+      tools: [],
+    };
+    expect(mockSaveMcpServer).toHaveBeenNthCalledWith(1, savedServer);
+    expect(mockCreateMcpClient).toHaveBeenCalledWith({ url: "https://wiki.example.com/mcp", token: null });
+    expect(mockSaveMcpServer).toHaveBeenNthCalledWith(2, {
+      ...savedServer,
+      tools: [{ name: "read_page", description: null, inputSchema: { type: "object" } }],
+    });
+  });
+
+  it("keeps an existing server's tools and can switch it off", async () => {
+    mockParams = { id: "docs" };
+    mockListTools.mockRejectedValue(new McpClientError("The MCP server rejected the request.", "unauthorized", 401));
+    const { getByTestId, getByText } = renderWithQueryClient(<McpServerSettings />);
+
+    expect(getByTestId("mcp-server-token-input").props.value).toBe("secret");
+    expect(getByText("search_docs")).toBeTruthy();
+
+    fireEvent.press(getByTestId("mcp-server-disabled"));
+    fireEvent.press(getByTestId("save-mcp-server"));
+
+    await waitFor(() => {
+      expect(getByText("The MCP server rejected the token. Check it in Settings.")).toBeTruthy();
+    });
+    expect(mockSaveMcpServer).toHaveBeenCalledWith({ ...docsServer, enabled: false });
+  });
+
+  it("sets whether each tool runs automatically, asks first or never runs", () => {
+    mockParams = { id: "docs" };
+    const { getByTestId } = renderWithQueryClient(<McpServerSettings />);
+
+    expect(getByTestId("mcp-tool-policy-search_docs-deny").props.accessibilityState).toEqual({ selected: true });
+
+    fireEvent.press(getByTestId("mcp-tool-policy-search_docs-auto"));
+
+    expect(mockSetToolApprovalPolicy).toHaveBeenCalledWith("docs/search_docs", "auto");
+  });
+
+  it("deletes the server", () => {
+    mockParams = { id: "docs" };
+    const { getByTestId } = renderWithQueryClient(<McpServerSettings />);
+
+    fireEvent.press(getByTestId("delete-mcp-server"));
+
+    expect(mockRemoveMcpServer).toHaveBeenCalledWith("docs");
+    expect(mockBack).toHaveBeenCalled();
+  });
+});
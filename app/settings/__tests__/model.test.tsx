@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, render } from "@testing-library/react-native";
+import React from "react";
+
+import ModelCapabilitiesSettings from "../model";
+
+const mockBack = jest.fn();
+const mockSetModelCapabilityOverride = jest.fn();
+const mockSetModelPricingOverride = jest.fn();
+
+let mockParams: { provider?: string; model?: string } = {};
+let mockProviderState: Record<string, unknown> = {};
+
+jest.mock("expo-router", () => ({
+  router: {
+    back: () => mockBack(),
+  },
+  useLocalSearchParams: () => mockParams,
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/settings/SettingInput", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { TextInput } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingInput: ({ testID, value, onChangeText, placeholder }: any) => React.createElement(
+      TextInput,
+      { testID, value, onChangeText, placeholder },
+    ),
+  };
+});
+
+jest.mock("@/components/settings/SettingsStatusBanner", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsStatusBanner: ({ status }: any) => (status ? React.createElement(Text, null, status.message) : null),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/stores", () => ({
+  useProviderStore: (selector: (state: Record<string, unknown>) => unknown) => selector(mockProviderState),
+}));
+
+describe("ModelCapabilitiesSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockParams = { provider: "openrouter", model: "acme/text-1" };
+    mockProviderState = {
+      catalogCapabilities: {
+        openrouter: { "acme/text-1": { vision: false, tools: true, contextTokens: 32000 } },
+      },
+      capabilityOverrides: {},
+      setModelCapabilityOverride: mockSetModelCapabilityOverride,
+      catalogPricing: {
+        openrouter: { "acme/text-1": { input: 3, output: 15 } },
+      },
+      pricingOverrides: {},
+      setModelPricingOverride: mockSetModelPricingOverride,
+    };
+  });
+
+  it("shows the detected values next to the auto choice", () => {
+    const { getByText, getByTestId } = render(<ModelCapabilitiesSettings />);
+
+    expect(getByTestId("capability-vision-auto")).toHaveTextContent("Auto (Off)");
+    expect(getByTestId("capability-tools-auto")).toHaveTextContent("Auto (On)");
+    expect(getByTestId("capability-context-input").props.placeholder).toBe("32000");
+    expect(getByText("Video input")).toBeTruthy();
+  });
+
+  it("saves only the fields the user changed", () => {
+    const { getByTestId } = render(<ModelCapabilitiesSettings />);
+
+    fireEvent.press(getByTestId("capability-vision-on"));
+    fireEvent.changeText(getByTestId("capability-context-input"), "65536");
+    fireEvent.press(getByTestId("save-capabilities"));
+
+    expect(mockSetModelCapabilityOverride).toHaveBeenCalledWith("openrouter", "acme/text-1", {
+      vision: true,
+      contextTokens: 65536,
+    });
+    expect(mockBack).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a context window that is not a number", () => {
+    const { getByTestId, getByText } = render(<ModelCapabilitiesSettings />);
+
+    fireEvent.changeText(getByTestId("capability-context-input"), "big");
+    fireEvent.press(getByTestId("save-capabilities"));
+
+    expect(getByText("Context window must be a whole number of tokens.")).toBeTruthy();
+    expect(mockSetModelCapabilityOverride).not.toHaveBeenCalled();
+  });
+
+  it("clears an existing override and hides video for providers that cannot send it", () => {
+    mockParams = { provider: "openai", model: "gpt-4o" };
+    mockProviderState.capabilityOverrides = { openai: { "gpt-4o": { tools: false } } };
+
+    const { getByTestId, queryByText } = render(<ModelCapabilitiesSettings />);
+
+    expect(getByTestId("capability-tools-off").props.accessibilityState).toMatchObject({ selected: true });
+    expect(queryByText("Video input")).toBeNull();
+
+    fireEvent.press(getByTestId("reset-capabilities"));
+
+    expect(mockSetModelCapabilityOverride).toHaveBeenCalledWith("openai", "gpt-4o", null);
+    expect(mockSetModelPricingOverride).toHaveBeenCalledWith("openai", "gpt-4o", null);
+    expect(getByTestId("capability-tools-auto").props.accessibilityState).toMatchObject({ selected: true });
+  });
+
+  it("shows catalog prices as placeholders and saves an entered price", () => {
+    const { getByTestId } = render(<ModelCapabilitiesSettings />);
+
+    expect(getByTestId("pricing-input-input").props.placeholder).toBe("3");
+    expect(getByTestId("pricing-cached-input").props.placeholder).toBe("3");
+
+    fireEvent.changeText(getByTestId("pricing-input-input"), "$2.5");
+    fireEvent.changeText(getByTestId("pricing-output-input"), "10");
+    fireEvent.press(getByTestId("save-capabilities"));
+
+    expect(mockSetModelCapabilityOverride).toHaveBeenCalledWith("openrouter", "acme/text-1", null);
+    expect(mockSetModelPricingOverride).toHaveBeenCalledWith("openrouter", "acme/text-1", {
+      input: 2.5,
+      output: 10,
+    });
+  });
+
+  it("requires an output price alongside the input price", () => {
+    const { getByTestId, getByText } = render(<ModelCapabilitiesSettings />);
+
+    fireEvent.changeText(getByTestId("pricing-input-input"), "1");
+    fireEvent.press(getByTestId("save-capabilities"));
+
+    expect(getByText("Enter both the input and the output price.")).toBeTruthy();
+    expect(mockSetModelPricingOverride).not.toHaveBeenCalled();
+    expect(mockBack).not.toHaveBeenCalled();
+  });
+});
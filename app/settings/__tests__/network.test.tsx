@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { act, fireEvent, render } from "@testing-library/react-native";
+import React from "react";
+import { Share } from "react-native";
+
+import NetworkInspectorSettings from "../network";
+import {
+  clearNetworkInspector,
+  setNetworkInspectorEnabled,
+  useNetworkInspectorStore,
+  type InspectedRequest,
+} from "@/lib/network-inspector";
+
+jest.mock("expo/fetch", () => ({
+  fetch: jest.fn(),
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+        error: "#ff453a",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress, testID }: any) => React.createElement(
+      Pressable,
+      { testID, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+const request: InspectedRequest = {
+  id: "req-1",
+  method: "POST",
+  url: "https://api.openai.com/v1/responses",
+  requestHeaders: { authorization: "[redacted]", "content-type": "application/json" },
+  requestBody: "{\"model\":\"gpt-5\"}",
+  state: "done",
+  startedAt: 1_750_000_000_000,
+  status: 429,
+  statusText: "Too Many Requests",
+  responseHeaders: { "retry-after": "12" },
+  headersMs: 320,
+  durationMs: 1480,
+  events: [],
+  responseBody: "{\"error\":\"rate limited\"}",
+  truncated: false,
+  error: null,
+};
+
+describe("NetworkInspectorSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearNetworkInspector();
+    setNetworkInspectorEnabled(false);
+  });
+
+  it("turns recording on and off", () => {
+    const { getByTestId, getByText } = render(<NetworkInspectorSettings />);
+
+    expect(getByText("Turn recording on, then reproduce the problem.")).toBeTruthy();
+
+    fireEvent.press(getByTestId("network-inspector-on"));
+    expect(useNetworkInspectorStore.getState().enabled).toBe(true);
+    expect(getByText("No requests yet. Send a message to see it here.")).toBeTruthy();
+
+    fireEvent.press(getByTestId("network-inspector-off"));
+    expect(useNetworkInspectorStore.getState().enabled).toBe(false);
+  });
+
+  it("lists requests and expands one into its details and cURL command", () => {
+    act(() => {
+      useNetworkInspectorStore.setState({ requests: [request] });
+    });
+    const shareSpy = jest.spyOn(Share, "share").mockResolvedValue({ action: "sharedAction" } as any);
+    const { getByTestId, getByText, queryByTestId } = render(<NetworkInspectorSettings />);
+
+    expect(getByText("POST /v1/responses")).toBeTruthy();
+    expect(getByText("429 Too Many Requests · first byte 320 ms · total 1.5 s")).toBeTruthy();
+    expect(queryByTestId("network-request-details-req-1")).toBeNull();
+
+    fireEvent.press(getByTestId("network-request-req-1"));
+
+    expect(getByText("retry-after: 12")).toBeTruthy();
+    expect(getByText("{\"error\":\"rate limited\"}")).toBeTruthy();
+
+    fireEvent.press(getByTestId("network-request-curl-req-1"));
+    expect(shareSpy).toHaveBeenCalledWith({
+      message: expect.stringContaining("curl -X POST 'https://api.openai.com/v1/responses'"),
+    });
+  });
+
+  it("shares a finished request as a replay fixture", () => {
+    act(() => {
+      useNetworkInspectorStore.setState({ requests: [request] });
+    });
+    const shareSpy = jest.spyOn(Share, "share").mockResolvedValue({ action: "sharedAction" } as any);
+    const { getByTestId } = render(<NetworkInspectorSettings />);
+
+    fireEvent.press(getByTestId("network-request-req-1"));
+    fireEvent.press(getByTestId("network-request-fixture-req-1"));
+
+    const { message } = shareSpy.mock.calls[0][0] as { message: string };
+    expect(JSON.parse(message)).toEqual({
+      request: { method: "POST", url: "https://api.openai.com/v1/responses" },
+      response: {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: { "retry-after": "12" },
+        events: [],
+        body: "{\"error\":\"rate limited\"}",
+      },
+    });
+  });
+
+  it("offers no fixture for a request the inspector cut short", () => {
+    act(() => {
+      useNetworkInspectorStore.setState({ requests: [{ ...request, truncated: true }] });
+    });
+    const { getByTestId, queryByTestId } = render(<NetworkInspectorSettings />);
+
+    fireEvent.press(getByTestId("network-request-req-1"));
+
+    expect(getByTestId("network-request-curl-req-1")).toBeTruthy();
+    expect(queryByTestId("network-request-fixture-req-1")).toBeNull();
+  });
+
+  it("clears the log", () => {
+    act(() => {
+      useNetworkInspectorStore.setState({ requests: [request] });
+    });
+    const { getByTestId, queryByTestId } = render(<NetworkInspectorSettings />);
+
+    fireEvent.press(getByTestId("network-inspector-clear"));
+
+    expect(useNetworkInspectorStore.getState().requests).toEqual([]);
+    expect(queryByTestId("network-request-req-1")).toBeNull();
+  });
+});
@@ -49,6 +49,13 @@ jest.mock("@/stores", () => ({
 
 const mockTestProviderConnection = jest.fn();
 
+const mockRefreshCatalog = jest.fn();
+const mockUseModelCatalog = jest.fn();
+
+jest.mock("@/hooks/useModelCatalog", () => ({
+  useModelCatalog: (...args: any[]) => mockUseModelCatalog(...args),
+}));
+
 jest.mock("@/providers/provider-factory", () => ({
   testProviderConnection: (...args: any[]) => mockTestProviderConnection(...args),
 }));
@@ -61,6 +68,14 @@ describe("OpenAISettings", () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (mockTestProviderConnection as any).mockResolvedValue(true);
+    mockUseModelCatalog.mockReturnValue({
+      fetchedAt: null,
+      addedModels: [],
+      removedModels: [],
+      isRefreshing: false,
+      error: null,
+      refresh: mockRefreshCatalog,
+    });
   });
 
   it("passes the expected screen props to the shared provider settings screen", () => {
@@ -88,5 +103,18 @@ describe("OpenAISettings", () => {
       expect(mockTestProviderConnection).toHaveBeenCalledWith("openai", { apiKey: "sk-updated" });
       expect(getByText("Connected successfully!")).toBeTruthy();
     });
+    expect(mockRefreshCatalog).toHaveBeenCalled();
+  });
+
+  it("keeps the bundled list until the live catalog has been fetched", () => {
+    renderWithQueryClient(<OpenAISettings />);
+
+    expect(mockUseModelCatalog).toHaveBeenCalledWith("openai", expect.any(String));
+    expect(mockProviderSettingsScreen).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        dynamicModels: undefined,
+        modelCatalog: expect.objectContaining({ fetchedAt: null }),
+      }),
+    );
   });
 });
@@ -43,6 +43,13 @@ jest.mock("@/stores", () => ({
   }),
 }));
 
+const mockRefreshCatalog = jest.fn();
+const mockUseModelCatalog = jest.fn();
+
+jest.mock("@/hooks/useModelCatalog", () => ({
+  useModelCatalog: (...args: any[]) => mockUseModelCatalog(...args),
+}));
+
 jest.mock("@/providers/provider-factory", () => ({
   testProviderConnection: (...args: any[]) => mockTestProviderConnection(...args),
 }));
@@ -55,6 +62,14 @@ describe("OpenRouterSettings", () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (mockTestProviderConnection as any).mockResolvedValue(true);
+    mockUseModelCatalog.mockReturnValue({
+      fetchedAt: null,
+      addedModels: [],
+      removedModels: [],
+      isRefreshing: false,
+      error: null,
+      refresh: mockRefreshCatalog,
+    });
   });
 
   it("passes the expected screen props to the shared provider settings screen", () => {
@@ -82,5 +97,18 @@ describe("OpenRouterSettings", () => {
       expect(mockTestProviderConnection).toHaveBeenCalledWith("openrouter", { apiKey: "sk-or-updated" });
       expect(getByText("Connected successfully!")).toBeTruthy();
     });
+    expect(mockRefreshCatalog).toHaveBeenCalled();
+  });
+
+  it("keeps the bundled list until the live catalog has been fetched", () => {
+    renderWithQueryClient(<OpenRouterSettings />);
+
+    expect(mockUseModelCatalog).toHaveBeenCalledWith("openrouter", expect.any(String));
+    expect(mockProviderSettingsScreen).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        dynamicModels: undefined,
+        modelCatalog: expect.objectContaining({ fetchedAt: null }),
+      }),
+    );
   });
 });
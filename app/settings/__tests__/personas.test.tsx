@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import PersonasSettings from "../personas";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockPush = jest.fn();
+const mockListPersonas = jest.fn();
+
+jest.mock("expo-router", () => ({
+  router: {
+    push: (...args: any[]) => mockPush(...args),
+  },
+}));
+
+jest.mock("expo-symbols", () => ({
+  SymbolView: () => null,
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/components/ui/SaveButton", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { Pressable, Text } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SaveButton: ({ title, onPress }: any) => React.createElement(
+      Pressable,
+      { testID: `button-${title}`, onPress },
+      React.createElement(Text, null, title),
+    ),
+  };
+});
+
+jest.mock("@/hooks/useDatabase", () => ({
+  __esModule: true,
+  default: () => ({}),
+}));
+
+jest.mock("@/lib/personas", () => ({
+  listPersonas: (...args: any[]) => mockListPersonas(...args),
+}));
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+describe("PersonasSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListPersonas.mockReturnValue([
+      {
+        id: 2,
+        name: "Reviewer",
+        systemPrompt: "Review the code carefully.",
+        providerId: "openai",
+        modelId: "gpt-5",
+        thinkingLevel: "high",
+        webSearchEnabled: null,
+        temperature: 0.2,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+  });
+
+  it("lists personas with a summary of their defaults", async () => {
+    const { findByText, getByText } = renderWithQueryClient(<PersonasSettings />);
+
+    expect(await findByText("Reviewer")).toBeTruthy();
+    expect(getByText("Review the code carefully.")).toBeTruthy();
+    expect(getByText("OpenAI · gpt-5 · Thinking high · Temp 0.2")).toBeTruthy();
+  });
+
+  it("starts a chat from a persona and opens the editor", async () => {
+    const { findByTestId, getByTestId } = renderWithQueryClient(<PersonasSettings />);
+
+    fireEvent.press(await findByTestId("persona-start-2"));
+    fireEvent.press(getByTestId("persona-row-2"));
+    fireEvent.press(getByTestId("button-New Persona"));
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenNthCalledWith(1, "/chat/new?personaId=2");
+      expect(mockPush).toHaveBeenNthCalledWith(2, "/settings/persona?id=2");
+      expect(mockPush).toHaveBeenNthCalledWith(3, "/settings/persona");
+    });
+  });
+});
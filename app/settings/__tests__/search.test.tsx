@@ -7,11 +7,23 @@ import { renderWithQueryClient } from "@/test/renderWithQueryClient";
 
 const mockSetSearxngUrl = jest.fn();
 const mockSetWebSearchEnabled = jest.fn();
+const mockSetToolApprovalPolicy = jest.fn();
 const mockTestSearxngConnection = jest.fn();
+const mockSaveSearchBackend = jest.fn();
+const mockRemoveSearchBackend = jest.fn();
+const mockSetSearchBackend = jest.fn();
+const mockSetSearchFallbackBackend = jest.fn();
 
 let mockSearxngUrl: string | null = "https://search.example.com";
+let mockSearchBackends: any[] = [];
+let mockSearchBackend = "searxng";
+let mockSearchFallbackBackend: string | null = null;
 let mockWebSearchEnabled = false;
 
+jest.mock("expo/fetch", () => ({
+  fetch: jest.fn(),
+}));
+
 jest.mock("expo-symbols", () => ({
   SymbolView: () => null,
 }));
@@ -48,8 +60,8 @@ jest.mock("@/components/settings/SettingInput", () => {
   const { TextInput } = jest.requireActual<typeof import("react-native")>("react-native");
 
   return {
-    SettingInput: ({ value, onChangeText }: any) => React.createElement(TextInput, {
-      testID: "search-input",
+    SettingInput: ({ value, onChangeText, testID }: any) => React.createElement(TextInput, {
+      testID,
       value,
       onChangeText,
     }),
@@ -79,6 +91,7 @@ jest.mock("@/components/settings/SettingsStatusBanner", () => {
 });
 
 jest.mock("@/lib/searxng-client", () => ({
+  ...jest.requireActual<typeof import("@/lib/searxng-client")>("@/lib/searxng-client"),
   normalizeSearxngUrl: (value: string) => value.replace(/\/$/, ""),
   testSearxngConnection: (...args: any[]) => mockTestSearxngConnection(...args),
 }));
@@ -87,13 +100,22 @@ jest.mock("@/stores", () => ({
   useAuthStore: (selector: any) => selector({
     searxngUrl: mockSearxngUrl,
     setSearxngUrl: mockSetSearxngUrl,
+    searchBackends: mockSearchBackends,
+    saveSearchBackend: mockSaveSearchBackend,
+    removeSearchBackend: mockRemoveSearchBackend,
   }),
 }));
 
 jest.mock("@/stores/useSettingsStore", () => ({
   useSettingsStore: (selector: any) => selector({
+    searchBackend: mockSearchBackend,
+    setSearchBackend: mockSetSearchBackend,
+    searchFallbackBackend: mockSearchFallbackBackend,
+    setSearchFallbackBackend: mockSetSearchFallbackBackend,
     webSearchEnabled: mockWebSearchEnabled,
     setWebSearchEnabled: mockSetWebSearchEnabled,
+    toolApprovalPolicies: {},
+    setToolApprovalPolicy: mockSetToolApprovalPolicy,
   }),
 }));
 
@@ -101,6 +123,9 @@ describe("SearchSettings", () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockSearxngUrl = "https://search.example.com";
+    mockSearchBackends = [];
+    mockSearchBackend = "searxng";
+    mockSearchFallbackBackend = null;
     mockWebSearchEnabled = false;
     (mockTestSearxngConnection as any).mockResolvedValue({
       success: true,
@@ -111,20 +136,89 @@ describe("SearchSettings", () => {
   it("saves the normalized URL and web search preference", async () => {
     const { getByTestId, getByText } = renderWithQueryClient(<SearchSettings />);
 
-    fireEvent.changeText(getByTestId("search-input"), "https://search.example.com/");
+    fireEvent.changeText(getByTestId("search-backend-searxng-url"), "https://search.example.com/");
     fireEvent.press(getByTestId("button-Save Settings"));
 
     await waitFor(() => {
       expect(mockSetSearxngUrl).toHaveBeenCalledWith("https://search.example.com");
       expect(mockSetWebSearchEnabled).toHaveBeenCalledWith(false);
+      expect(mockSetSearchBackend).toHaveBeenCalledWith("searxng");
+      expect(mockSetSearchFallbackBackend).toHaveBeenCalledWith(null);
       expect(getByText("Web search settings saved.")).toBeTruthy();
     });
   });
 
+  it("switches to Brave Search and keeps SearXNG as the fallback", async () => {
+    const { getByTestId, getByText, queryByTestId } = renderWithQueryClient(<SearchSettings />);
+
+    fireEvent.press(getByTestId("search-backend-brave"));
+    expect(queryByTestId("search-backend-searxng-url")).toBeNull();
+
+    fireEvent.changeText(getByTestId("search-backend-brave-apiKey"), " BSA-key ");
+    fireEvent.press(getByTestId("search-fallback-searxng"));
+    expect(getByTestId("search-backend-searxng-url").props.value).toBe("https://search.example.com");
+
+    fireEvent.press(getByTestId("button-Save Settings"));
+
+    await waitFor(() => {
+      expect(mockSaveSearchBackend).toHaveBeenCalledWith({ id: "brave", apiKey: "BSA-key" });
+      expect(mockSetSearxngUrl).toHaveBeenCalledWith("https://search.example.com");
+      expect(mockSetSearchBackend).toHaveBeenCalledWith("brave");
+      expect(mockSetSearchFallbackBackend).toHaveBeenCalledWith("searxng");
+      expect(getByText("Web search settings saved.")).toBeTruthy();
+    });
+  });
+
+  it("forgets a backend whose settings were cleared", async () => {
+    mockSearchBackend = "kagi";
+    mockSearchBackends = [{ id: "kagi", apiKey: "old-token" }];
+    const { getByTestId, getByText } = renderWithQueryClient(<SearchSettings />);
+
+    expect(getByTestId("search-backend-kagi-apiKey").props.value).toBe("old-token");
+    fireEvent.changeText(getByTestId("search-backend-kagi-apiKey"), "");
+    fireEvent.press(getByTestId("button-Save Settings"));
+
+    await waitFor(() => {
+      expect(mockRemoveSearchBackend).toHaveBeenCalledWith("kagi");
+      expect(getByText("Web search preference saved. Add your Kagi settings whenever you're ready.")).toBeTruthy();
+    });
+  });
+
+  it("reports incomplete JSON endpoint mappings instead of saving", async () => {
+    mockSearchBackend = "json";
+    const { getByTestId, getByText } = renderWithQueryClient(<SearchSettings />);
+
+    fireEvent.changeText(getByTestId("search-backend-json-url"), "https://api.example.com/search");
+    fireEvent.changeText(getByTestId("search-backend-json-title"), "");
+    fireEvent.press(getByTestId("button-Save Settings"));
+
+    await waitFor(() => {
+      expect(getByText("Enter the title field for JSON endpoint.")).toBeTruthy();
+    });
+    expect(mockSaveSearchBackend).not.toHaveBeenCalled();
+    expect(mockSetSearchBackend).not.toHaveBeenCalled();
+  });
+
+  it("saves whether searches and page reads need approval", async () => {
+    const { getByTestId } = renderWithQueryClient(<SearchSettings />);
+
+    expect(getByTestId("search-approval-auto").props.accessibilityState).toEqual({ selected: true });
+    expect(getByTestId("read-approval-auto").props.accessibilityState).toEqual({ selected: true });
+
+    fireEvent.press(getByTestId("search-approval-ask"));
+    fireEvent.press(getByTestId("read-approval-deny"));
+    fireEvent.press(getByTestId("button-Save Settings"));
+
+    await waitFor(() => {
+      expect(mockSetToolApprovalPolicy).toHaveBeenCalledWith("builtin:web/searchWeb", "ask");
+      expect(mockSetToolApprovalPolicy).toHaveBeenCalledWith("builtin:web/readUrl", "deny");
+    });
+  });
+
   it("tests the current SearXNG connection", async () => {
     const { getByTestId, getByText } = renderWithQueryClient(<SearchSettings />);
 
-    fireEvent.changeText(getByTestId("search-input"), "https://custom.example.com");
+    fireEvent.changeText(getByTestId("search-backend-searxng-url"), "https://custom.example.com");
     fireEvent.press(getByTestId("button-Test Connection"));
 
     await waitFor(() => {
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { fireEvent, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import UsageSettings from "../usage";
+import { renderWithQueryClient } from "@/test/renderWithQueryClient";
+
+const mockPush = jest.fn();
+const mockListUsageRecords = jest.fn();
+
+jest.mock("expo-router", () => ({
+  router: {
+    push: (...args: any[]) => mockPush(...args),
+  },
+}));
+
+jest.mock("expo-symbols", () => ({
+  SymbolView: () => null,
+}));
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      isDark: true,
+      colors: {
+        background: "#000000",
+        surface: "#111111",
+        border: "#222222",
+        text: "#ffffff",
+        textSecondary: "#cccccc",
+        accent: "#4f9cf7",
+      },
+    },
+  }),
+}));
+
+jest.mock("@/components/settings/SettingsScreen", () => {
+  const React = jest.requireActual<typeof import("react")>("react");
+  const { View } = jest.requireActual<typeof import("react-native")>("react-native");
+
+  return {
+    SettingsScreen: ({ children }: any) => React.createElement(View, null, children),
+  };
+});
+
+jest.mock("@/hooks/useDatabase", () => ({
+  __esModule: true,
+  default: () => ({}),
+}));
+
+jest.mock("@/stores", () => ({
+  useAuthStore: (selector: (state: Record<string, unknown>) => unknown) => selector({ customEndpoints: [] }),
+}));
+
+jest.mock("@/lib/usage-report", () => ({
+  ...jest.requireActual<typeof import("@/lib/usage-report")>("@/lib/usage-report"),
+  listUsageRecords: (...args: any[]) => mockListUsageRecords(...args),
+}));
+
+const usage = {
+  inputTokens: 20_000,
+  outputTokens: 4_000,
+  reasoningTokens: 0,
+  cachedInputTokens: 0,
+};
+
+describe("UsageSettings", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListUsageRecords.mockReturnValue([
+      { ...usage, providerId: "anthropic", modelId: "claude-sonnet-4-5", createdAt: new Date(2026, 2, 10, 9), cost: 0.12 },
+      { ...usage, providerId: "gemini", modelId: "gemini-2.5-pro", createdAt: new Date(2026, 2, 9, 18), cost: null },
+    ]);
+  });
+
+  it("shows totals by day, provider and model", async () => {
+    const { findByTestId, getByTestId, getByText } = renderWithQueryClient(<UsageSettings />);
+
+    expect(await findByTestId("usage-total")).toHaveTextContent(/^Total\$0.1240.0K in · 8.0K out/);
+    expect(getByTestId("usage-unpriced-note")).toHaveTextContent("1 reply has no price and is not in the total.");
+    expect(getByTestId("usage-day-2026-03-10")).toBeTruthy();
+    expect(getByTestId("usage-day-2026-03-09")).toHaveTextContent(/No price$/);
+    expect(getByText("Anthropic")).toBeTruthy();
+    expect(getByText("Google Gemini · gemini-2.5-pro")).toBeTruthy();
+  });
+
+  it("reloads for a new period and opens a model's price editor", async () => {
+    const { findByTestId, getByTestId } = renderWithQueryClient(<UsageSettings />);
+
+    fireEvent.press(await findByTestId("usage-model-gemini-gemini-2.5-pro"));
+    fireEvent.press(getByTestId("usage-range-all"));
+
+    await waitFor(() => {
+      expect(mockListUsageRecords).toHaveBeenLastCalledWith({}, null);
+    });
+    expect(mockPush).toHaveBeenCalledWith("/settings/model?provider=gemini&model=gemini-2.5-pro");
+  });
+});
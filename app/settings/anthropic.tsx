@@ -0,0 +1,78 @@
+/**
+ * @file app/settings/anthropic.tsx
+ * @purpose Anthropic provider configuration — API key, model selection, connection test.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import type { SettingsStatus } from "@/components/settings/SettingsStatusBanner";
+import { ProviderSettingsScreen } from "@/components/settings/ProviderSettingsScreen";
+import { useProviderStore, useAuthStore } from "@/stores";
+import { testProviderConnection } from "@/providers/provider-factory";
+import { ANTHROPIC_MODELS } from "@/types/provider.types";
+
+export default function AnthropicSettings() {
+  const { selectedModel, setSelectedModel } = useProviderStore();
+  const { anthropicApiKey, setAnthropicApiKey } = useAuthStore();
+
+  const [apiKey, setApiKeyState] = useState(anthropicApiKey || "");
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  useEffect(() => {
+    setApiKeyState(anthropicApiKey || "");
+  }, [anthropicApiKey]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (): Promise<SettingsStatus | null> => {
+      setAnthropicApiKey(apiKey || null);
+
+      if (!apiKey) {
+        return null;
+      }
+
+      const success = await testProviderConnection("anthropic", { apiKey });
+      return {
+        success,
+        message: success ? "Connected successfully!" : "Connection failed. Check your API key.",
+      };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not save Anthropic settings.",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    setStatus(null);
+    saveSettingsMutation.mutate();
+  };
+
+  return (
+    <ProviderSettingsScreen
+      title="Anthropic"
+      providerId="anthropic"
+      inputLabel="API Key"
+      inputValue={apiKey}
+      onChangeText={setApiKeyState}
+      inputPlaceholder="sk-ant-..."
+      inputSecureTextEntry
+      predefinedModels={ANTHROPIC_MODELS}
+      selectedModel={selectedModel}
+      onModelSelect={setSelectedModel}
+      status={status}
+      actions={[
+        {
+          title: "Save Settings",
+          onPress: handleSave,
+          loading: saveSettingsMutation.isPending,
+        },
+      ]}
+    />
+  );
+}
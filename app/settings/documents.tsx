@@ -0,0 +1,511 @@
+/**
+ * @file app/settings/documents.tsx
+ * @purpose The document library: the embedding model that indexes it, its
+ * collections, and the files in each. Chats attach collections from their
+ * system prompt sheet and search them with the searchDocuments tool.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Alert, Pressable, StyleSheet, Text, View } from "react-native";
+import { SymbolView } from "expo-symbols";
+import * as DocumentPicker from "expo-document-picker";
+
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingInput } from "@/components/settings/SettingInput";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import useDatabase from "@/hooks/useDatabase";
+import {
+  DOCUMENT_PICKER_TYPES,
+  formatDocumentDetails,
+  resolveDocumentMediaType,
+} from "@/lib/chat-attachments";
+import {
+  createCollection,
+  deleteCollection,
+  deleteDocument,
+  type DocumentFile,
+  importDocument,
+  listCollections,
+  listDocuments,
+  type LibraryDocument,
+  mapDocumentLibraryErrorToMessage,
+  reindexDocument,
+} from "@/lib/document-library";
+import {
+  createEmbedder,
+  DEFAULT_EMBEDDING_MODELS,
+  EMBEDDING_PROVIDER_LABELS,
+  EMBEDDING_PROVIDERS,
+  formatEmbeddingKey,
+  getEmbeddingKey,
+} from "@/lib/document-embeddings";
+import { documentLibraryQueryKeys } from "@/lib/query-client";
+import { useSettingsStore } from "@/stores/useSettingsStore";
+import type { EmbeddingProviderId } from "@/types/document.types";
+
+interface IndexingProgress {
+  name: string;
+  embedded: number;
+  total: number;
+}
+
+const MISSING_EMBEDDER_MESSAGE =
+  "Save an embedding model first, and make sure its provider has a server URL or API key.";
+
+const describeDocument = (document: LibraryDocument): string => {
+  const parts = [
+    formatDocumentDetails({
+      mediaType: document.mediaType,
+      fileName: document.name,
+      pageCount: document.pageCount ?? undefined,
+    }),
+    `${document.chunkCount} ${document.chunkCount === 1 ? "passage" : "passages"}`,
+  ];
+
+  if (document.status === "indexing") {
+    parts.push("Indexing…");
+  }
+  return parts.join(" · ");
+};
+
+export default function DocumentSettings() {
+  const { theme } = useTheme();
+  const db = useDatabase();
+  const queryClient = useQueryClient();
+  const embeddingSettings = useSettingsStore((state) => state.embeddingSettings);
+  const setEmbeddingSettings = useSettingsStore((state) => state.setEmbeddingSettings);
+
+  const [draftProvider, setDraftProvider] = useState(embeddingSettings.providerId);
+  const [draftModel, setDraftModel] = useState(embeddingSettings.modelId);
+  const [collectionName, setCollectionName] = useState("");
+  const [openCollectionId, setOpenCollectionId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<IndexingProgress | null>(null);
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  useEffect(() => {
+    setDraftProvider(embeddingSettings.providerId);
+    setDraftModel(embeddingSettings.modelId);
+  }, [embeddingSettings]);
+
+  const currentKey = getEmbeddingKey(embeddingSettings);
+
+  const collectionsQuery = useQuery({
+    queryKey: documentLibraryQueryKeys.collections(),
+    queryFn: async () => listCollections(db),
+  });
+  const collections = collectionsQuery.data ?? [];
+
+  const documentsQuery = useQuery({
+    queryKey: documentLibraryQueryKeys.documents(openCollectionId ?? 0),
+    queryFn: async () => listDocuments(db, openCollectionId!),
+    enabled: openCollectionId !== null,
+  });
+  const documents = documentsQuery.data ?? [];
+
+  const invalidateLibrary = () => queryClient.invalidateQueries({ queryKey: documentLibraryQueryKeys.all });
+
+  const handleSelectProvider = (providerId: EmbeddingProviderId) => {
+    setDraftProvider(providerId);
+    // Model names do not carry over between providers
+    if (providerId !== draftProvider) {
+      setDraftModel(DEFAULT_EMBEDDING_MODELS[providerId]);
+    }
+  };
+
+  const handleSaveModel = () => {
+    const modelId = draftModel.trim();
+    if (!modelId) {
+      setStatus({ success: false, message: "Enter an embedding model name." });
+      return;
+    }
+
+    setEmbeddingSettings({ providerId: draftProvider, modelId });
+    setStatus({
+      success: true,
+      message: getEmbeddingKey({ providerId: draftProvider, modelId }) === currentKey
+        ? "Embedding model saved."
+        : "Embedding model saved. Re-index documents indexed with the previous model to keep them searchable.",
+    });
+  };
+
+  const createCollectionMutation = useMutation({
+    mutationFn: async (name: string) => createCollection(db, name),
+    onSuccess: async (id) => {
+      setCollectionName("");
+      setOpenCollectionId(id);
+      await invalidateLibrary();
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not create the collection.",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (collectionId: number): Promise<SettingsStatus | null> => {
+      const embedder = createEmbedder(embeddingSettings);
+      if (!embedder) {
+        return { success: false, message: MISSING_EMBEDDER_MESSAGE };
+      }
+
+      const result = await DocumentPicker.getDocumentAsync({
+        type: DOCUMENT_PICKER_TYPES,
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) {
+        return null;
+      }
+
+      const files: DocumentFile[] = [];
+      for (const asset of result.assets) {
+        const mediaType = resolveDocumentMediaType(asset.name, asset.mimeType);
+        if (mediaType) {
+          files.push({ uri: asset.uri, name: asset.name, mediaType });
+        }
+      }
+
+      const failures: string[] = [];
+      for (const file of files) {
+        setProgress({ name: file.name, embedded: 0, total: 0 });
+        try {
+          await importDocument(db, collectionId, file, embedder, {
+            onProgress: (embedded, total) => setProgress({ name: file.name, embedded, total }),
+          });
+        } catch (error) {
+          failures.push(`${file.name}: ${mapDocumentLibraryErrorToMessage(error)}`);
+        }
+        await invalidateLibrary();
+      }
+      setProgress(null);
+
+      const skipped = result.assets.length - files.length;
+      if (failures.length > 0) {
+        return { success: false, message: failures.join("\n") };
+      }
+      return {
+        success: true,
+        message: skipped > 0
+          ? `Added ${files.length} of ${result.assets.length} files. The rest are not a supported type.`
+          : `Added ${files.length} ${files.length === 1 ? "document" : "documents"}.`,
+      };
+    },
+    onSuccess: (nextStatus) => {
+      if (nextStatus) {
+        setStatus(nextStatus);
+      }
+    },
+    onError: (error) => {
+      setProgress(null);
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not add documents.",
+      });
+    },
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async (document: LibraryDocument): Promise<SettingsStatus> => {
+      const embedder = createEmbedder(embeddingSettings);
+      if (!embedder) {
+        return { success: false, message: MISSING_EMBEDDER_MESSAGE };
+      }
+
+      setProgress({ name: document.name, embedded: 0, total: document.chunkCount });
+      try {
+        await reindexDocument(db, document.id, embedder, {
+          onProgress: (embedded, total) => setProgress({ name: document.name, embedded, total }),
+        });
+        return { success: true, message: `Re-indexed ${document.name}.` };
+      } catch (error) {
+        return { success: false, message: mapDocumentLibraryErrorToMessage(error) };
+      } finally {
+        setProgress(null);
+        await invalidateLibrary();
+      }
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+  });
+
+  const isIndexing = importMutation.isPending || reindexMutation.isPending;
+
+  const handleCreateCollection = () => {
+    const name = collectionName.trim();
+    if (!name) {
+      return;
+    }
+    setStatus(null);
+    createCollectionMutation.mutate(name);
+  };
+
+  const handleDeleteCollection = (id: number, name: string) => {
+    Alert.alert(
+      `Delete "${name}"?`,
+      "Its documents are removed from the library. Chats that searched it keep their earlier replies.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            deleteCollection(db, id);
+            setOpenCollectionId((current) => (current === id ? null : current));
+            void invalidateLibrary();
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDeleteDocument = (document: LibraryDocument) => {
+    Alert.alert(`Remove "${document.name}"?`, undefined, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => {
+          deleteDocument(db, document.id);
+          void invalidateLibrary();
+        },
+      },
+    ]);
+  };
+
+  const renderDocument = (document: LibraryDocument, index: number) => {
+    const isStale = document.status === "ready" && document.embeddingModel !== currentKey;
+    const note = document.status === "error"
+      ? document.error ?? "Indexing failed."
+      : isStale
+        ? `Indexed with ${formatEmbeddingKey(document.embeddingModel)}; re-index to search it.`
+        : null;
+
+    return (
+      <View
+        key={document.id}
+        testID={`library-document-${document.id}`}
+        className="flex-row items-center py-2.5"
+        style={{
+          borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+          borderTopColor: theme.colors.border,
+        }}
+      >
+        <View className="flex-1 pr-3">
+          <Text className="text-[14px] font-medium" numberOfLines={1} style={{ color: theme.colors.text }}>
+            {document.name}
+          </Text>
+          <Text className="mt-0.5 text-[12px]" style={{ color: theme.colors.textSecondary }}>
+            {describeDocument(document)}
+          </Text>
+          {note ? (
+            <Text
+              className="mt-0.5 text-[12px]"
+              style={{ color: document.status === "error" ? theme.colors.error : theme.colors.accent }}
+            >
+              {note}
+            </Text>
+          ) : null}
+        </View>
+
+        {document.status !== "indexing" && (note || document.status === "error") ? (
+          <Pressable
+            testID={`library-document-reindex-${document.id}`}
+            accessibilityLabel={`Re-index ${document.name}`}
+            onPress={() => {
+              setStatus(null);
+              reindexMutation.mutate(document);
+            }}
+            disabled={isIndexing}
+            hitSlop={8}
+            className="mr-2 h-[32px] w-[32px] items-center justify-center rounded-full"
+            style={{ backgroundColor: theme.colors.background, opacity: isIndexing ? 0.5 : 1 }}
+          >
+            <SymbolView name="arrow.clockwise" size={15} tintColor={theme.colors.accent} />
+          </Pressable>
+        ) : null}
+        <Pressable
+          testID={`library-document-delete-${document.id}`}
+          accessibilityLabel={`Remove ${document.name}`}
+          onPress={() => handleDeleteDocument(document)}
+          disabled={isIndexing}
+          hitSlop={8}
+          className="h-[32px] w-[32px] items-center justify-center rounded-full"
+          style={{ backgroundColor: theme.colors.background, opacity: isIndexing ? 0.5 : 1 }}
+        >
+          <SymbolView name="trash" size={15} tintColor={theme.colors.error} />
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <SettingsScreen
+      title="Documents"
+      contentContainerClassName="flex-grow gap-5 pt-5"
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Files added here are split into passages and embedded on your chosen model, then stored on this device. Attach a collection to a chat from its system prompt, and the model can search it and cite the passages it uses.
+      </Text>
+
+      <ChoiceGroup title="Embed With">
+        {EMBEDDING_PROVIDERS.map((providerId) => (
+          <ChoiceChip
+            key={providerId}
+            label={EMBEDDING_PROVIDER_LABELS[providerId]}
+            selected={draftProvider === providerId}
+            onPress={() => handleSelectProvider(providerId)}
+            testID={`embedding-provider-${providerId}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      <SettingInput
+        label="Embedding Model"
+        value={draftModel}
+        onChangeText={setDraftModel}
+        placeholder={DEFAULT_EMBEDDING_MODELS[draftProvider]}
+        autoCapitalize="none"
+        testID="embedding-model-input"
+      />
+
+      <View className="px-4">
+        <SaveButton title="Save Model" onPress={handleSaveModel} testID="save-embedding-model" />
+      </View>
+
+      {collections.length > 0 ? (
+        <View className="mx-4 overflow-hidden rounded-xl" style={{ backgroundColor: theme.colors.surface }}>
+          {collections.map((collection, index) => {
+            const isOpen = openCollectionId === collection.id;
+
+            return (
+              <View
+                key={collection.id}
+                style={{
+                  borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                  borderTopColor: theme.colors.border,
+                }}
+              >
+                <Pressable
+                  testID={`document-collection-${collection.id}`}
+                  onPress={() => setOpenCollectionId(isOpen ? null : collection.id)}
+                  className="flex-row items-center px-4 py-3.5"
+                >
+                  <SymbolView
+                    name={isOpen ? "folder.fill" : "folder"}
+                    size={20}
+                    tintColor={theme.colors.accent}
+                  />
+                  <View className="flex-1 px-3">
+                    <Text className="text-[16px] font-semibold" style={{ color: theme.colors.text }}>
+                      {collection.name}
+                    </Text>
+                    <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+                      {collection.documentCount} {collection.documentCount === 1 ? "document" : "documents"}
+                    </Text>
+                  </View>
+                  <SymbolView
+                    name={isOpen ? "chevron.up" : "chevron.down"}
+                    size={16}
+                    tintColor={theme.colors.textSecondary}
+                  />
+                </Pressable>
+
+                {isOpen ? (
+                  <View className="px-4 pb-3">
+                    {documents.map(renderDocument)}
+                    {documents.length === 0 && !documentsQuery.isLoading ? (
+                      <Text className="pb-2 text-[13px]" style={{ color: theme.colors.textSecondary }}>
+                        No documents yet.
+                      </Text>
+                    ) : null}
+
+                    <View className="mt-2 flex-row gap-2">
+                      <View className="flex-1">
+                        <SaveButton
+                          title="Add Documents"
+                          onPress={() => {
+                            setStatus(null);
+                            importMutation.mutate(collection.id);
+                          }}
+                          loading={importMutation.isPending}
+                          disabled={isIndexing}
+                          testID={`document-collection-add-${collection.id}`}
+                        />
+                      </View>
+                      <Pressable
+                        testID={`document-collection-delete-${collection.id}`}
+                        accessibilityLabel={`Delete ${collection.name}`}
+                        onPress={() => handleDeleteCollection(collection.id, collection.name)}
+                        disabled={isIndexing}
+                        className="w-[48px] items-center justify-center rounded-2xl"
+                        style={{ backgroundColor: theme.colors.background, opacity: isIndexing ? 0.5 : 1 }}
+                      >
+                        <SymbolView name="trash" size={18} tintColor={theme.colors.error} />
+                      </Pressable>
+                    </View>
+                  </View>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      ) : (
+        <View className="mx-4 rounded-2xl px-4 py-3" style={{ backgroundColor: theme.colors.surface }}>
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            {collectionsQuery.isLoading ? "Loading collections…" : "No collections yet."}
+          </Text>
+        </View>
+      )}
+
+      {progress ? (
+        <Text
+          testID="document-indexing-progress"
+          className="mx-4 text-[13px]"
+          style={{ color: theme.colors.textSecondary }}
+        >
+          {progress.total > 0
+            ? `Indexing ${progress.name} · ${progress.embedded} of ${progress.total} passages`
+            : `Reading ${progress.name}…`}
+        </Text>
+      ) : null}
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <SettingInput
+        label="New Collection"
+        value={collectionName}
+        onChangeText={setCollectionName}
+        placeholder="e.g. Boat manuals"
+        testID="new-collection-name"
+      />
+
+      <View className="px-4">
+        <SaveButton
+          title="Create Collection"
+          onPress={handleCreateCollection}
+          loading={createCollectionMutation.isPending}
+          disabled={collectionName.trim().length === 0}
+          testID="create-document-collection"
+        />
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
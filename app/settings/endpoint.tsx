@@ -0,0 +1,258 @@
+/**
+ * @file app/settings/endpoint.tsx
+ * @purpose Creates or edits a single OpenAI-compatible endpoint; opened with `?id=` to edit an existing one.
+ */
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { router, useLocalSearchParams } from "expo-router";
+import { View } from "react-native";
+
+import { ModelListManager } from "@/components/settings/ModelListManager";
+import { SettingInput } from "@/components/settings/SettingInput";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import {
+  createCustomProviderId,
+  type CustomEndpointDraft,
+  customEndpointFromDraft,
+  draftFromCustomEndpoint,
+  EMPTY_CUSTOM_ENDPOINT_DRAFT,
+  validateCustomEndpointDraft,
+} from "@/lib/custom-endpoints";
+import {
+  fetchCustomEndpointModels,
+  testCustomEndpointConnection,
+} from "@/providers/custom-endpoint-provider";
+import { invalidateProvider } from "@/providers/provider-factory";
+import { useAuthStore, useProviderStore } from "@/stores";
+import { type CustomEndpoint, isCustomProviderId } from "@/types/provider.types";
+
+export default function CustomEndpointSettings() {
+  const {
+    selectedProvider,
+    selectedModel,
+    setSelectedProvider,
+    setSelectedModel,
+    availableModels,
+    setAvailableModels,
+    removeProviderModels,
+  } = useProviderStore();
+  const { customEndpoints, saveCustomEndpoint, removeCustomEndpoint } = useAuthStore();
+
+  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const rawId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const existingEndpoint = rawId && isCustomProviderId(rawId)
+    ? customEndpoints.find((endpoint) => endpoint.id === rawId) ?? null
+    : null;
+
+  const [endpointId, setEndpointId] = useState(existingEndpoint?.id ?? null);
+  const [draft, setDraft] = useState<CustomEndpointDraft>(
+    existingEndpoint ? draftFromCustomEndpoint(existingEndpoint) : EMPTY_CUSTOM_ENDPOINT_DRAFT,
+  );
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  const updateDraft = (patch: Partial<CustomEndpointDraft>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+  };
+
+  /** Stores the draft, assigning a new id the first time it is saved. */
+  const persistDraft = (): CustomEndpoint | null => {
+    const validationError = validateCustomEndpointDraft(draft);
+    if (validationError) {
+      setStatus({ success: false, message: validationError });
+      return null;
+    }
+
+    const id = endpointId ?? createCustomProviderId(
+      draft.name,
+      customEndpoints.map((endpoint) => endpoint.id),
+    );
+    const endpoint = customEndpointFromDraft(draft, id);
+
+    saveCustomEndpoint(endpoint);
+    invalidateProvider(id);
+    setEndpointId(id);
+    return endpoint;
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (endpoint: CustomEndpoint): Promise<SettingsStatus> => {
+      const success = await testCustomEndpointConnection(endpoint);
+      return {
+        success,
+        message: success
+          ? "Connected successfully!"
+          : "Saved, but the endpoint did not answer /models. Check the URL and server.",
+      };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not save endpoint.",
+      });
+    },
+  });
+
+  const loadModelsMutation = useMutation({
+    mutationFn: async (endpoint: CustomEndpoint): Promise<SettingsStatus> => {
+      const models = await fetchCustomEndpointModels(endpoint);
+      if (models.length === 0) {
+        return {
+          success: false,
+          message: "No models were returned. Check the URL, API key and headers.",
+        };
+      }
+
+      setAvailableModels(endpoint.id, models);
+      return {
+        success: true,
+        message: `Loaded ${models.length} ${models.length === 1 ? "model" : "models"} from ${endpoint.name}.`,
+      };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: () => {
+      setStatus({ success: false, message: "Failed to load models." });
+    },
+  });
+
+  const handleSave = () => {
+    setStatus(null);
+    const endpoint = persistDraft();
+    if (endpoint) {
+      saveSettingsMutation.mutate(endpoint);
+    }
+  };
+
+  const handleLoadModels = () => {
+    setStatus(null);
+    const endpoint = persistDraft();
+    if (endpoint) {
+      loadModelsMutation.mutate(endpoint);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!endpointId) {
+      return;
+    }
+
+    removeCustomEndpoint(endpointId);
+    removeProviderModels(endpointId);
+    invalidateProvider(endpointId);
+    router.back();
+  };
+
+  const handleModelSelect = (model: string) => {
+    if (!endpointId) {
+      return;
+    }
+
+    if (selectedProvider !== endpointId) {
+      setSelectedProvider(endpointId);
+    }
+    setSelectedModel(model);
+  };
+
+  return (
+    <SettingsScreen
+      title={existingEndpoint ? existingEndpoint.name : "New Endpoint"}
+      contentContainerClassName="flex-grow gap-5 pt-5"
+      keyboardShouldPersistTaps="handled"
+    >
+      <SettingInput
+        label="Name"
+        value={draft.name}
+        onChangeText={(name) => updateDraft({ name })}
+        placeholder="LM Studio"
+        autoCapitalize="words"
+        testID="endpoint-name-input"
+      />
+
+      <SettingInput
+        label="Base URL"
+        value={draft.baseUrl}
+        onChangeText={(baseUrl) => updateDraft({ baseUrl })}
+        placeholder="http://192.168.1.20:1234/v1"
+        autoCapitalize="none"
+        testID="endpoint-url-input"
+      />
+
+      <SettingInput
+        label="API Key"
+        value={draft.apiKey}
+        onChangeText={(apiKey) => updateDraft({ apiKey })}
+        placeholder="Optional"
+        secureTextEntry
+        autoCapitalize="none"
+        testID="endpoint-key-input"
+      />
+
+      <SettingInput
+        label="Headers"
+        value={draft.headersText}
+        onChangeText={(headersText) => updateDraft({ headersText })}
+        placeholder="X-Api-Version: 2"
+        autoCapitalize="none"
+        multiline
+        testID="endpoint-headers-input"
+      />
+
+      {endpointId ? (
+        <View className="mt-4">
+          <ModelListManager
+            providerId={endpointId}
+            predefinedModels={[]}
+            dynamicModels={availableModels[endpointId]}
+            selectedModel={selectedProvider === endpointId ? selectedModel : ""}
+            onModelSelect={handleModelSelect}
+          />
+        </View>
+      ) : null}
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <View className="flex-row gap-2 px-4">
+        <View className="flex-1">
+          <SaveButton
+            title="Save & Test"
+            onPress={handleSave}
+            loading={saveSettingsMutation.isPending}
+            testID="save-endpoint"
+          />
+        </View>
+        <View className="flex-1">
+          <SaveButton
+            title="Load Models"
+            onPress={handleLoadModels}
+            loading={loadModelsMutation.isPending}
+            testID="load-endpoint-models"
+          />
+        </View>
+      </View>
+
+      {endpointId ? (
+        <View className="px-4">
+          <SaveButton
+            title="Delete Endpoint"
+            onPress={handleDelete}
+            testID="delete-endpoint"
+          />
+        </View>
+      ) : null}
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
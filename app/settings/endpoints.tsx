@@ -0,0 +1,119 @@
+/**
+ * @file app/settings/endpoints.tsx
+ * @purpose Lists user-defined OpenAI-compatible endpoints such as LM Studio, vLLM or llama.cpp.
+ */
+
+import { router } from "expo-router";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { SymbolView } from "expo-symbols";
+
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { ProviderIcon } from "@/components/ui/ProviderIcons";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { useAuthStore, useProviderStore } from "@/stores";
+import type { CustomProviderId } from "@/types/provider.types";
+
+export default function CustomEndpointsSettings() {
+  const { theme } = useTheme();
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+  const availableModels = useProviderStore((state) => state.availableModels);
+
+  const handleCreate = () => {
+    router.push("/settings/endpoint" as any);
+  };
+
+  const handleEdit = (id: CustomProviderId) => {
+    router.push(`/settings/endpoint?id=${encodeURIComponent(id)}` as any);
+  };
+
+  return (
+    <SettingsScreen title="Custom Endpoints" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Any server that speaks the OpenAI chat API can be added here. Each endpoint shows up as its own provider in the model picker and fallback order.
+      </Text>
+
+      {customEndpoints.length > 0 ? (
+        <View
+          className="mx-4 overflow-hidden rounded-xl"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          {customEndpoints.map((endpoint, index) => {
+            const modelCount = availableModels[endpoint.id]?.length ?? 0;
+
+            return (
+              <Pressable
+                key={endpoint.id}
+                testID={`endpoint-row-${endpoint.id}`}
+                onPress={() => handleEdit(endpoint.id)}
+                className="flex-row items-center px-4 py-3.5"
+                style={({ pressed }) => ({
+                  backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+                  borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                  borderTopColor: theme.colors.border,
+                })}
+              >
+                <View
+                  className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+                  style={{ backgroundColor: theme.colors.background }}
+                >
+                  <ProviderIcon providerId={endpoint.id} size={24} color={theme.colors.accent} />
+                </View>
+                <View className="flex-1 pr-3">
+                  <Text
+                    className="mb-0.5 text-[16px] font-semibold"
+                    style={{ color: theme.colors.text }}
+                  >
+                    {endpoint.name}
+                  </Text>
+                  <Text
+                    className="text-[13px]"
+                    numberOfLines={1}
+                    style={{ color: theme.colors.textSecondary }}
+                  >
+                    {endpoint.baseUrl}
+                  </Text>
+                  <Text
+                    className="mt-0.5 text-[12px]"
+                    style={{ color: theme.colors.accent }}
+                  >
+                    {modelCount === 1 ? "1 model" : `${modelCount} models`}
+                  </Text>
+                </View>
+                <SymbolView
+                  name="chevron.right"
+                  size={18}
+                  tintColor={theme.colors.textSecondary}
+                />
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : (
+        <View
+          className="mx-4 rounded-2xl px-4 py-3"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            No custom endpoints yet.
+          </Text>
+        </View>
+      )}
+
+      <View className="min-h-2 flex-1" />
+
+      <View className="px-4">
+        <SaveButton
+          title="New Endpoint"
+          onPress={handleCreate}
+          testID="create-endpoint"
+        />
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
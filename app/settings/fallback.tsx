@@ -0,0 +1,358 @@
+/**
+ * @file app/settings/fallback.tsx
+ * @purpose Orders the providers a failed reply falls back to, pins their models, picks which errors trigger it
+ * and how long a rate limit is waited out first.
+ */
+
+import { useState } from "react";
+import { SymbolView } from "expo-symbols";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import {
+  getProviderIds,
+  getProviderName,
+  getSelectableModelsForProvider,
+  getStoredModelValue,
+} from "@/components/chat/context-menu/utils";
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { ERROR_CATEGORY_LABELS } from "@/lib/chat-fallback-annotations";
+import { DEFAULT_FALLBACK_TRIGGERS, getFallbackChain } from "@/providers/fallback-chain";
+import { DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS } from "@/providers/rate-limit";
+import { useAuthStore, useProviderStore } from "@/stores";
+import {
+  ERROR_CATEGORIES,
+  type ErrorCategory,
+  type FallbackChainEntry,
+  type ProviderId,
+} from "@/types/provider.types";
+
+const RATE_LIMIT_WAIT_CHOICES: { label: string; value: number }[] = [
+  { label: "Don't Wait", value: 0 },
+  { label: "10 Seconds", value: 10_000 },
+  { label: "30 Seconds", value: 30_000 },
+  { label: "1 Minute", value: 60_000 },
+  { label: "5 Minutes", value: 5 * 60_000 },
+];
+
+const formatTriggerLabel = (category: ErrorCategory): string => {
+  const label = ERROR_CATEGORY_LABELS[category];
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+interface ChainIconButtonProps {
+  icon: string;
+  label: string;
+  disabled?: boolean;
+  onPress: () => void;
+  testID: string;
+}
+
+function ChainIconButton({ icon, label, disabled = false, onPress, testID }: ChainIconButtonProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      testID={testID}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityLabel={label}
+      hitSlop={6}
+      className="h-8 w-8 items-center justify-center"
+      style={{ opacity: disabled ? 0.3 : 1 }}
+    >
+      <SymbolView name={icon as any} size={16} tintColor={theme.colors.textSecondary} />
+    </Pressable>
+  );
+}
+
+export default function FallbackSettings() {
+  const { theme } = useTheme();
+  const availableModels = useProviderStore((state) => state.availableModels);
+  const customModels = useProviderStore((state) => state.customModels);
+  const hiddenModels = useProviderStore((state) => state.hiddenModels);
+  const modelCatalogs = useProviderStore((state) => state.modelCatalogs);
+  const fallbackTriggers = useProviderStore((state) => state.fallbackTriggers);
+  const setFallbackChain = useProviderStore((state) => state.setFallbackChain);
+  const setFallbackTriggers = useProviderStore((state) => state.setFallbackTriggers);
+  const rateLimitWaitLimitMs = useProviderStore((state) => state.rateLimitWaitLimitMs);
+  const setRateLimitWaitLimit = useProviderStore((state) => state.setRateLimitWaitLimit);
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+
+  const [chainDraft, setChainDraft] = useState<FallbackChainEntry[]>(() => getFallbackChain());
+  const [triggersDraft, setTriggersDraft] = useState<ErrorCategory[]>(
+    () => fallbackTriggers ?? DEFAULT_FALLBACK_TRIGGERS,
+  );
+  const [waitLimitDraft, setWaitLimitDraft] = useState<number>(
+    () => rateLimitWaitLimitMs ?? DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS,
+  );
+  const [expandedProvider, setExpandedProvider] = useState<ProviderId | null>(null);
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  const missingProviders = getProviderIds(customEndpoints).filter(
+    (providerId) => !chainDraft.some((entry) => entry.providerId === providerId),
+  );
+
+  const updateChain = (update: (chain: FallbackChainEntry[]) => FallbackChainEntry[]) => {
+    setStatus(null);
+    setChainDraft(update);
+  };
+
+  const moveEntry = (index: number, offset: -1 | 1) => {
+    updateChain((chain) => {
+      const next = [...chain];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeEntry = (providerId: ProviderId) => {
+    updateChain((chain) => chain.filter((entry) => entry.providerId !== providerId));
+    if (expandedProvider === providerId) {
+      setExpandedProvider(null);
+    }
+  };
+
+  const addEntry = (providerId: ProviderId) => {
+    updateChain((chain) => [...chain, { providerId, modelId: null }]);
+  };
+
+  const pinModel = (providerId: ProviderId, modelId: string | null) => {
+    updateChain((chain) => chain.map((entry) => (
+      entry.providerId === providerId ? { ...entry, modelId } : entry
+    )));
+  };
+
+  const toggleTrigger = (category: ErrorCategory) => {
+    setStatus(null);
+    setTriggersDraft((current) => (
+      current.includes(category)
+        ? current.filter((candidate) => candidate !== category)
+        : ERROR_CATEGORIES.filter((candidate) => candidate === category || current.includes(candidate))
+    ));
+  };
+
+  const handleSave = () => {
+    setFallbackChain(chainDraft);
+    setFallbackTriggers(triggersDraft);
+    setRateLimitWaitLimit(waitLimitDraft);
+    setStatus({
+      success: true,
+      message: chainDraft.length > 0 && triggersDraft.length > 0
+        ? "Fallback settings saved."
+        : "Saved. Replies will not fall back to another provider.",
+    });
+  };
+
+  const handleUseDefaults = () => {
+    setFallbackChain(null);
+    setFallbackTriggers(null);
+    setRateLimitWaitLimit(null);
+    setChainDraft(getFallbackChain());
+    setTriggersDraft(DEFAULT_FALLBACK_TRIGGERS);
+    setWaitLimitDraft(DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS);
+    setExpandedProvider(null);
+    setStatus({ success: true, message: "Using the built-in fallback order." });
+  };
+
+  return (
+    <SettingsScreen title="Fallback" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        When a reply fails, Seabreeze tries the next configured provider in this order. Providers left out are never used as a fallback. Tap a step to pin the model it uses; chats can opt out in their settings.
+      </Text>
+
+      <View className="mx-4">
+        <Text
+          className="mb-2 px-1 text-[11px] font-semibold uppercase tracking-widest"
+          style={{ color: theme.colors.textSecondary }}
+        >
+          Order
+        </Text>
+        <View
+          className="overflow-hidden rounded-xl"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          {chainDraft.length === 0 ? (
+            <Text
+              testID="fallback-chain-empty"
+              className="px-4 py-3 text-[13px]"
+              style={{ color: theme.colors.textSecondary }}
+            >
+              No providers. Replies will not fall back.
+            </Text>
+          ) : null}
+          {chainDraft.map((entry, index) => {
+            const isExpanded = expandedProvider === entry.providerId;
+            const canPinModel = entry.providerId !== "apple";
+            const modelChoices = isExpanded
+              ? getSelectableModelsForProvider(entry.providerId, {
+                availableModels,
+                customModels,
+                hiddenModels,
+                modelCatalogs,
+              })
+              : [];
+
+            return (
+              <View
+                key={entry.providerId}
+                style={{
+                  borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                  borderTopColor: theme.colors.border,
+                }}
+              >
+                <View className="flex-row items-center py-2 pl-4 pr-2">
+                  <Pressable
+                    testID={`fallback-step-${entry.providerId}`}
+                    onPress={() => setExpandedProvider(isExpanded ? null : entry.providerId)}
+                    disabled={!canPinModel}
+                    className="flex-1 pr-2"
+                  >
+                    <Text
+                      className="text-[15px] font-semibold"
+                      numberOfLines={1}
+                      style={{ color: theme.colors.text }}
+                    >
+                      {`${index + 1}. ${getProviderName(entry.providerId, customEndpoints)}`}
+                    </Text>
+                    <Text
+                      className="text-[12px]"
+                      numberOfLines={1}
+                      style={{ color: theme.colors.textSecondary }}
+                    >
+                      {entry.modelId ?? "Default model"}
+                    </Text>
+                  </Pressable>
+                  <ChainIconButton
+                    icon="chevron.up"
+                    label="Move up"
+                    disabled={index === 0}
+                    onPress={() => moveEntry(index, -1)}
+                    testID={`fallback-move-up-${entry.providerId}`}
+                  />
+                  <ChainIconButton
+                    icon="chevron.down"
+                    label="Move down"
+                    disabled={index === chainDraft.length - 1}
+                    onPress={() => moveEntry(index, 1)}
+                    testID={`fallback-move-down-${entry.providerId}`}
+                  />
+                  <ChainIconButton
+                    icon="xmark"
+                    label="Remove"
+                    onPress={() => removeEntry(entry.providerId)}
+                    testID={`fallback-remove-${entry.providerId}`}
+                  />
+                </View>
+                {isExpanded ? (
+                  <View className="flex-row flex-wrap gap-2 px-4 pb-3">
+                    <ChoiceChip
+                      label="Default"
+                      selected={entry.modelId === null}
+                      onPress={() => pinModel(entry.providerId, null)}
+                      testID={`fallback-model-${entry.providerId}-default`}
+                    />
+                    {modelChoices.map((model) => {
+                      const storedModel = getStoredModelValue(entry.providerId, model);
+
+                      return (
+                        <ChoiceChip
+                          key={model}
+                          label={model}
+                          selected={entry.modelId === storedModel}
+                          onPress={() => pinModel(entry.providerId, storedModel)}
+                          testID={`fallback-model-${entry.providerId}-${model}`}
+                        />
+                      );
+                    })}
+                  </View>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      </View>
+
+      {missingProviders.length > 0 ? (
+        <ChoiceGroup title="Add to Order">
+          {missingProviders.map((providerId) => (
+            <ChoiceChip
+              key={providerId}
+              label={getProviderName(providerId, customEndpoints)}
+              selected={false}
+              onPress={() => addEntry(providerId)}
+              testID={`fallback-add-${providerId}`}
+            />
+          ))}
+        </ChoiceGroup>
+      ) : null}
+
+      <ChoiceGroup title="Fall Back On">
+        {ERROR_CATEGORIES.map((category) => (
+          <ChoiceChip
+            key={category}
+            label={formatTriggerLabel(category)}
+            selected={triggersDraft.includes(category)}
+            onPress={() => toggleTrigger(category)}
+            testID={`fallback-trigger-${category}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      <View className="gap-2">
+        <ChoiceGroup title="Wait Out Rate Limits">
+          {RATE_LIMIT_WAIT_CHOICES.map((choice) => (
+            <ChoiceChip
+              key={choice.value}
+              label={choice.label}
+              selected={waitLimitDraft === choice.value}
+              onPress={() => {
+                setStatus(null);
+                setWaitLimitDraft(choice.value);
+              }}
+              testID={`fallback-rate-limit-wait-${choice.value}`}
+            />
+          ))}
+        </ChoiceGroup>
+        <Text
+          className="mx-4 text-[12px] leading-[17px]"
+          style={{ color: theme.colors.textSecondary }}
+        >
+          When a provider says when its rate limit resets, the reply waits up to this long and retries. A longer wait falls back right away, or offers the next provider when rate limits are not a fallback trigger.
+        </Text>
+      </View>
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <View className="flex-row gap-2 px-4">
+        <View className="flex-1">
+          <SaveButton
+            title="Use Defaults"
+            onPress={handleUseDefaults}
+            testID="fallback-use-defaults"
+          />
+        </View>
+        <View className="flex-1">
+          <SaveButton
+            title="Save"
+            onPress={handleSave}
+            testID="fallback-save"
+          />
+        </View>
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * @file app/settings/gemini.tsx
+ * @purpose Gemini provider configuration — API key, connection test, model discovery.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import type { SettingsStatus } from "@/components/settings/SettingsStatusBanner";
+import { ProviderSettingsScreen } from "@/components/settings/ProviderSettingsScreen";
+import { useProviderStore, useAuthStore } from "@/stores";
+import { testProviderConnection } from "@/providers/provider-factory";
+import { fetchGeminiModels } from "@/providers/gemini-provider";
+import { GEMINI_MODELS } from "@/types/provider.types";
+
+export default function GeminiSettings() {
+  const { selectedModel, setSelectedModel, availableModels, setAvailableModels } = useProviderStore();
+  const { geminiApiKey, setGeminiApiKey } = useAuthStore();
+
+  const [apiKey, setApiKeyState] = useState(geminiApiKey || "");
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  useEffect(() => {
+    setApiKeyState(geminiApiKey || "");
+  }, [geminiApiKey]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (): Promise<SettingsStatus | null> => {
+      setGeminiApiKey(apiKey || null);
+
+      if (!apiKey) {
+        return null;
+      }
+
+      const success = await testProviderConnection("gemini", { apiKey });
+      return {
+        success,
+        message: success ? "Connected successfully!" : "Connection failed. Check your API key.",
+      };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not save Gemini settings.",
+      });
+    },
+  });
+
+  const loadModelsMutation = useMutation({
+    mutationFn: async (): Promise<SettingsStatus> => {
+      const trimmedApiKey = apiKey.trim();
+      if (!trimmedApiKey) {
+        return {
+          success: false,
+          message: "Please enter a Gemini API key before loading models.",
+        };
+      }
+
+      const models = await fetchGeminiModels(trimmedApiKey);
+      if (models.length === 0) {
+        return {
+          success: false,
+          message: "No models were returned. Check your API key.",
+        };
+      }
+
+      setAvailableModels("gemini", models);
+      return {
+        success: true,
+        message: `Loaded ${models.length} models from Google.`,
+      };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: () => {
+      setStatus({ success: false, message: "Failed to load models." });
+    },
+  });
+
+  const handleSave = () => {
+    setStatus(null);
+    saveSettingsMutation.mutate();
+  };
+
+  const handleFetchModels = () => {
+    setStatus(null);
+    loadModelsMutation.mutate();
+  };
+
+  return (
+    <ProviderSettingsScreen
+      title="Google Gemini"
+      providerId="gemini"
+      inputLabel="API Key"
+      inputValue={apiKey}
+      onChangeText={setApiKeyState}
+      inputPlaceholder="AIza..."
+      inputSecureTextEntry
+      predefinedModels={GEMINI_MODELS}
+      dynamicModels={availableModels.gemini}
+      selectedModel={selectedModel}
+      onModelSelect={setSelectedModel}
+      status={status}
+      actions={[
+        {
+          title: "Save & Test",
+          onPress: handleSave,
+          loading: saveSettingsMutation.isPending,
+        },
+        {
+          title: "Load Models",
+          onPress: handleFetchModels,
+          loading: loadModelsMutation.isPending,
+        },
+      ]}
+    />
+  );
+}
@@ -4,10 +4,13 @@ import { View, Text, Pressable, StyleSheet } from "react-native";
 import { SettingsScreen } from "@/components/settings/SettingsScreen";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { ProviderIcon } from "@/components/ui/ProviderIcons";
+import { useNetworkInspectorStore } from "@/lib/network-inspector";
+import { SEARCH_BACKEND_LABELS } from "@/lib/search-backends";
+import { describeProviderHealth, useProviderHealthStore } from "@/providers/provider-health";
 import { isProviderConfigured, useAuthStore, useProviderStore } from "@/stores";
 import { useSettingsStore } from "@/stores/useSettingsStore";
 import { SymbolView } from "expo-symbols";
-import type { ProviderId } from "@/types/provider.types";
+import { isCustomProviderId, type ProviderId } from "@/types/provider.types";
 
 interface ProviderListItemProps {
   providerId: ProviderId;
@@ -16,6 +19,7 @@ interface ProviderListItemProps {
   isConfigured: boolean;
   isLast?: boolean;
   selectedModel?: string;
+  healthLabel?: string | null;
   onPress: () => void;
 }
 
@@ -27,6 +31,7 @@ const ProviderListItem: React.FC<ProviderListItemProps> = ({
   isConfigured,
   isLast,
   selectedModel,
+  healthLabel,
   onPress,
 }) => {
   const { theme } = useTheme();
@@ -78,6 +83,15 @@ const ProviderListItem: React.FC<ProviderListItemProps> = ({
               {selectedModel}
             </Text>
           )}
+          {healthLabel && (
+            <Text
+              testID={`provider-health-${providerId}`}
+              className="text-[12px] mt-0.5"
+              style={{ color: theme.colors.error }}
+            >
+              {healthLabel}
+            </Text>
+          )}
         </View>
       </View>
 
@@ -97,8 +111,17 @@ const ProviderListItem: React.FC<ProviderListItemProps> = ({
 export default function SettingsIndex() {
   const { theme } = useTheme();
   const { selectedProvider, selectedModel } = useProviderStore();
+  const providerHealth = useProviderHealthStore((state) => state.health);
   const webSearchEnabled = useSettingsStore((state) => state.webSearchEnabled);
-  const searxngUrl = useAuthStore((state) => state.searxngUrl);
+  const searchBackend = useSettingsStore((state) => state.searchBackend);
+  const isSearchBackendConfigured = useAuthStore((state) => (
+    searchBackend === "searxng"
+      ? Boolean(state.searxngUrl)
+      : state.searchBackends.some((config) => config.id === searchBackend)
+  ));
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+  const mcpServers = useAuthStore((state) => state.mcpServers);
+  const networkInspectorEnabled = useNetworkInspectorStore((state) => state.enabled);
 
   const navigateToProvider = (providerId: string) => {
     router.push(`/settings/${providerId}` as any);
@@ -112,6 +135,38 @@ export default function SettingsIndex() {
     router.push("/settings/search" as any);
   };
 
+  const navigateToPersonas = () => {
+    router.push("/settings/personas" as any);
+  };
+
+  const navigateToDocuments = () => {
+    router.push("/settings/documents" as any);
+  };
+
+  const navigateToUsage = () => {
+    router.push("/settings/usage" as any);
+  };
+
+  const navigateToFallback = () => {
+    router.push("/settings/fallback" as any);
+  };
+
+  const navigateToNetworkInspector = () => {
+    router.push("/settings/network" as any);
+  };
+
+  const navigateToEndpoints = () => {
+    router.push("/settings/endpoints" as any);
+  };
+
+  const navigateToMcpServers = () => {
+    router.push("/settings/mcp" as any);
+  };
+
+  const navigateToEndpoint = (endpointId: string) => {
+    router.push(`/settings/endpoint?id=${encodeURIComponent(endpointId)}` as any);
+  };
+
   const providers: { id: ProviderId; name: string; description: string }[] = [
     {
       id: "apple",
@@ -128,6 +183,16 @@ export default function SettingsIndex() {
       name: "OpenAI Codex",
       description: "ChatGPT subscription models through Codex OAuth",
     },
+    {
+      id: "anthropic",
+      name: "Anthropic",
+      description: "Claude models with extended thinking",
+    },
+    {
+      id: "gemini",
+      name: "Google Gemini",
+      description: "Gemini models with video and PDF input",
+    },
     {
       id: "openrouter",
       name: "OpenRouter",
@@ -139,6 +204,11 @@ export default function SettingsIndex() {
       description: "OpenCode Go curated coding models",
     },
     { id: "ollama", name: "Ollama", description: "Local AI models via Ollama" },
+    ...customEndpoints.map((endpoint) => ({
+      id: endpoint.id,
+      name: endpoint.name,
+      description: endpoint.baseUrl,
+    })),
   ];
 
   return (
@@ -236,10 +306,298 @@ export default function SettingsIndex() {
                 style={{ color: theme.colors.textSecondary }}
               >
                 {webSearchEnabled
-                  ? searxngUrl
-                    ? "Enabled app-wide with your SearXNG instance"
-                    : "Enabled app-wide, but SearXNG is not configured yet"
-                  : "Configure SearXNG and app-wide search behavior"}
+                  ? isSearchBackendConfigured
+                    ? `Enabled app-wide with ${SEARCH_BACKEND_LABELS[searchBackend]}`
+                    : `Enabled app-wide, but ${SEARCH_BACKEND_LABELS[searchBackend]} is not configured yet`
+                  : "Choose a search service and app-wide search behavior"}
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToPersonas}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="person.text.rectangle"
+                size={22}
+                tintColor={theme.colors.accent}
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Personas
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                Reusable system prompts and chat defaults
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToDocuments}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="books.vertical"
+                size={22}
+                tintColor={theme.colors.accent}
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Documents
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                Your files, searchable from any chat
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToUsage}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="chart.bar"
+                size={22}
+                tintColor={theme.colors.accent}
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Usage
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                Tokens and spend by day, provider and model
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToFallback}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="arrow.triangle.branch"
+                size={22}
+                tintColor={theme.colors.accent}
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Fallback
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                Provider order, pinned models and triggers
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToEndpoints}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="server.rack"
+                size={22}
+                tintColor={
+                  customEndpoints.length > 0
+                    ? theme.colors.accent
+                    : theme.colors.textSecondary
+                }
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Custom Endpoints
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                {customEndpoints.length > 0
+                  ? `${customEndpoints.length} OpenAI-compatible ${customEndpoints.length === 1 ? "server" : "servers"}`
+                  : "LM Studio, vLLM, llama.cpp and other OpenAI-compatible servers"}
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+
+        <Pressable
+          onPress={navigateToMcpServers}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+            borderTopWidth: StyleSheet.hairlineWidth,
+            borderTopColor: theme.colors.border,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="wrench.and.screwdriver"
+                size={22}
+                tintColor={
+                  mcpServers.length > 0
+                    ? theme.colors.accent
+                    : theme.colors.textSecondary
+                }
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                MCP Servers
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                {mcpServers.length > 0
+                  ? `${mcpServers.length} tool ${mcpServers.length === 1 ? "server" : "servers"}`
+                  : "Remote tools over the Model Context Protocol"}
               </Text>
             </View>
           </View>
@@ -277,11 +635,78 @@ export default function SettingsIndex() {
                 ? (selectedModel ?? undefined)
                 : undefined
             }
-            onPress={() => navigateToProvider(provider.id)}
+            healthLabel={describeProviderHealth(providerHealth[provider.id])}
+            onPress={() =>
+              isCustomProviderId(provider.id)
+                ? navigateToEndpoint(provider.id)
+                : navigateToProvider(provider.id)
+            }
           />
         ))}
       </View>
 
+      <Text
+        className="mb-2 px-1 text-[11px] font-semibold uppercase tracking-widest"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Developer
+      </Text>
+
+      <View
+        className="mb-6 overflow-hidden rounded-xl"
+        style={{ backgroundColor: theme.colors.surface }}
+      >
+        <Pressable
+          onPress={navigateToNetworkInspector}
+          className="flex-row items-center justify-between px-4 py-3.5"
+          style={({ pressed }) => ({
+            backgroundColor: pressed
+              ? theme.colors.border
+              : theme.colors.surface,
+          })}
+        >
+          <View className="flex-1 flex-row items-center">
+            <View
+              className="mr-3 h-[40px] w-[40px] items-center justify-center rounded-xl"
+              style={{ backgroundColor: theme.colors.background }}
+            >
+              <SymbolView
+                name="network"
+                size={22}
+                tintColor={
+                  networkInspectorEnabled
+                    ? theme.colors.accent
+                    : theme.colors.textSecondary
+                }
+              />
+            </View>
+            <View className="flex-1">
+              <Text
+                className="mb-0.5 text-[16px] font-semibold"
+                style={{ color: theme.colors.text }}
+              >
+                Network Inspector
+              </Text>
+              <Text
+                className="text-[13px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                {networkInspectorEnabled
+                  ? "Recording provider requests"
+                  : "Record provider requests to debug failures"}
+              </Text>
+            </View>
+          </View>
+          <View className="ml-2">
+            <SymbolView
+              name="chevron.right"
+              size={18}
+              tintColor={theme.colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+      </View>
+
       <View
         className="rounded-xl p-4"
         style={{ backgroundColor: theme.colors.surface }}
@@ -0,0 +1,242 @@
+/**
+ * @file app/settings/mcp-server.tsx
+ * @purpose Creates or edits a single MCP server and loads its tool list; opened with `?id=` to edit an existing one.
+ */
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { router, useLocalSearchParams } from "expo-router";
+import { StyleSheet, Text, View } from "react-native";
+
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingInput } from "@/components/settings/SettingInput";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { createMcpClient, mapMcpErrorToMessage } from "@/lib/mcp-client";
+import {
+  createMcpServerId,
+  draftFromMcpServer,
+  EMPTY_MCP_SERVER_DRAFT,
+  getMcpToolKey,
+  mcpServerFromDraft,
+  type McpServerDraft,
+  validateMcpServerDraft,
+} from "@/lib/mcp-servers";
+import {
+  resolveToolApprovalPolicy,
+  TOOL_APPROVAL_POLICY_OPTIONS,
+} from "@/lib/tool-call-recorder";
+import { useAuthStore } from "@/stores";
+import { useSettingsStore } from "@/stores/useSettingsStore";
+import type { McpServer } from "@/types/mcp.types";
+
+export default function McpServerSettings() {
+  const { theme } = useTheme();
+  const { mcpServers, saveMcpServer, removeMcpServer } = useAuthStore();
+  const toolApprovalPolicies = useSettingsStore((state) => state.toolApprovalPolicies);
+  const setToolApprovalPolicy = useSettingsStore((state) => state.setToolApprovalPolicy);
+
+  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const rawId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const existingServer = rawId
+    ? mcpServers.find((server) => server.id === rawId) ?? null
+    : null;
+
+  const [serverId, setServerId] = useState(existingServer?.id ?? null);
+  const [draft, setDraft] = useState<McpServerDraft>(
+    existingServer ? draftFromMcpServer(existingServer) : EMPTY_MCP_SERVER_DRAFT,
+  );
+  const [enabled, setEnabled] = useState(existingServer?.enabled ?? true);
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+  const storedServer = serverId ? mcpServers.find((server) => server.id === serverId) ?? null : null;
+  const tools = storedServer?.tools ?? [];
+
+  const updateDraft = (patch: Partial<McpServerDraft>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+  };
+
+  /** Stores the draft, assigning a new id the first time it is saved. */
+  const persistDraft = (): McpServer | null => {
+    const validationError = validateMcpServerDraft(draft);
+    if (validationError) {
+      setStatus({ success: false, message: validationError });
+      return null;
+    }
+
+    const id = serverId ?? createMcpServerId(
+      draft.name,
+      mcpServers.map((server) => server.id),
+    );
+    const server = { ...mcpServerFromDraft(draft, id, storedServer ?? undefined), enabled };
+
+    saveMcpServer(server);
+    setServerId(id);
+    return server;
+  };
+
+  const loadToolsMutation = useMutation({
+    mutationFn: async (server: McpServer): Promise<SettingsStatus> => {
+      const loadedTools = await createMcpClient({ url: server.url, token: server.token }).listTools();
+      saveMcpServer({ ...server, tools: loadedTools });
+
+      return loadedTools.length === 0
+        ? { success: false, message: `Connected, but ${server.name} offers no tools.` }
+        : {
+          success: true,
+          message: `Loaded ${loadedTools.length} ${loadedTools.length === 1 ? "tool" : "tools"} from ${server.name}.`,
+        };
+    },
+    onSuccess: (nextStatus) => {
+      setStatus(nextStatus);
+    },
+    onError: (error) => {
+      setStatus({ success: false, message: mapMcpErrorToMessage(error) });
+    },
+  });
+
+  const handleSave = () => {
+    setStatus(null);
+    const server = persistDraft();
+    if (server) {
+      loadToolsMutation.mutate(server);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!serverId) {
+      return;
+    }
+
+    removeMcpServer(serverId);
+    router.back();
+  };
+
+  return (
+    <SettingsScreen
+      title={existingServer ? existingServer.name : "New Server"}
+      contentContainerClassName="flex-grow gap-5 pt-5"
+      keyboardShouldPersistTaps="handled"
+    >
+      <SettingInput
+        label="Name"
+        value={draft.name}
+        onChangeText={(name) => updateDraft({ name })}
+        placeholder="Docs"
+        autoCapitalize="words"
+        testID="mcp-server-name-input"
+      />
+
+      <SettingInput
+        label="URL"
+        value={draft.url}
+        onChangeText={(url) => updateDraft({ url })}
+        placeholder="https://tools.example.com/mcp"
+        autoCapitalize="none"
+        testID="mcp-server-url-input"
+      />
+
+      <SettingInput
+        label="Bearer Token"
+        value={draft.token}
+        onChangeText={(token) => updateDraft({ token })}
+        placeholder="Optional"
+        secureTextEntry
+        autoCapitalize="none"
+        testID="mcp-server-token-input"
+      />
+
+      <ChoiceGroup title="Tools in Chats">
+        <ChoiceChip
+          label="On"
+          selected={enabled}
+          onPress={() => setEnabled(true)}
+          testID="mcp-server-enabled"
+        />
+        <ChoiceChip
+          label="Off"
+          selected={!enabled}
+          onPress={() => setEnabled(false)}
+          testID="mcp-server-disabled"
+        />
+      </ChoiceGroup>
+
+      {storedServer && tools.length > 0 ? (
+        <View
+          className="mx-4 overflow-hidden rounded-xl"
+          style={{ backgroundColor: theme.colors.surface }}
+          testID="mcp-server-tools"
+        >
+          {tools.map((tool, index) => {
+            const toolKey = getMcpToolKey(storedServer.id, tool.name);
+            const policy = resolveToolApprovalPolicy(toolApprovalPolicies, toolKey);
+
+            return (
+              <View
+                key={tool.name}
+                className="px-4 py-3"
+                style={{
+                  borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                  borderTopColor: theme.colors.border,
+                }}
+              >
+                <Text className="text-[15px] font-semibold" style={{ color: theme.colors.text }}>
+                  {tool.name}
+                </Text>
+                {tool.description ? (
+                  <Text
+                    className="mt-0.5 text-[13px]"
+                    numberOfLines={2}
+                    style={{ color: theme.colors.textSecondary }}
+                  >
+                    {tool.description}
+                  </Text>
+                ) : null}
+                <View className="mt-2 flex-row gap-2">
+                  {TOOL_APPROVAL_POLICY_OPTIONS.map((option) => (
+                    <ChoiceChip
+                      key={option.policy}
+                      label={option.label}
+                      selected={policy === option.policy}
+                      onPress={() => setToolApprovalPolicy(toolKey, option.policy)}
+                      testID={`mcp-tool-policy-${tool.name}-${option.policy}`}
+                    />
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <View className="px-4">
+        <SaveButton
+          title="Save & Load Tools"
+          onPress={handleSave}
+          loading={loadToolsMutation.isPending}
+          testID="save-mcp-server"
+        />
+      </View>
+
+      {serverId ? (
+        <View className="px-4">
+          <SaveButton
+            title="Delete Server"
+            onPress={handleDelete}
+            testID="delete-mcp-server"
+          />
+        </View>
+      ) : null}
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * @file app/settings/mcp.tsx
+ * @purpose Lists remote Model Context Protocol servers whose tools chats can call.
+ */
+
+import { router } from "expo-router";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { SymbolView } from "expo-symbols";
+
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { useAuthStore } from "@/stores";
+
+export default function McpServersSettings() {
+  const { theme } = useTheme();
+  const mcpServers = useAuthStore((state) => state.mcpServers);
+
+  const handleCreate = () => {
+    router.push("/settings/mcp-server" as any);
+  };
+
+  const handleEdit = (id: string) => {
+    router.push(`/settings/mcp-server?id=${encodeURIComponent(id)}` as any);
+  };
+
+  return (
+    <SettingsScreen title="MCP Servers" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Tools from these servers are offered to models that can call tools. Each tool asks before it runs unless you set it to Auto or Deny on its server page. Individual tools can be switched off per chat from the system prompt sheet.
+      </Text>
+
+      {mcpServers.length > 0 ? (
+        <View
+          className="mx-4 overflow-hidden rounded-xl"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          {mcpServers.map((server, index) => (
+            <Pressable
+              key={server.id}
+              testID={`mcp-server-row-${server.id}`}
+              onPress={() => handleEdit(server.id)}
+              className="flex-row items-center px-4 py-3.5"
+              style={({ pressed }) => ({
+                backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+                borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                borderTopColor: theme.colors.border,
+              })}
+            >
+              <View className="flex-1 pr-3">
+                <Text
+                  className="mb-0.5 text-[16px] font-semibold"
+                  style={{ color: theme.colors.text }}
+                >
+                  {server.name}
+                </Text>
+                <Text
+                  className="text-[13px]"
+                  numberOfLines={1}
+                  style={{ color: theme.colors.textSecondary }}
+                >
+                  {server.url}
+                </Text>
+                <Text
+                  className="mt-0.5 text-[12px]"
+                  style={{ color: server.enabled ? theme.colors.accent : theme.colors.textSecondary }}
+                >
+                  {server.enabled
+                    ? (server.tools.length === 1 ? "1 tool" : `${server.tools.length} tools`)
+                    : "Off"}
+                </Text>
+              </View>
+              <SymbolView
+                name="chevron.right"
+                size={18}
+                tintColor={theme.colors.textSecondary}
+              />
+            </Pressable>
+          ))}
+        </View>
+      ) : (
+        <View
+          className="mx-4 rounded-2xl px-4 py-3"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            No MCP servers yet.
+          </Text>
+        </View>
+      )}
+
+      <View className="min-h-2 flex-1" />
+
+      <View className="px-4">
+        <SaveButton
+          title="New Server"
+          onPress={handleCreate}
+          testID="create-mcp-server"
+        />
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * @file app/settings/model.tsx
+ * @purpose Shows what a model can do and what it costs, and lets the user override
+ * both; opened with `?provider=&model=`.
+ */
+
+import { useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import { Text, View } from "react-native";
+
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingInput } from "@/components/settings/SettingInput";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import {
+  capabilityOverrideFromDraft,
+  draftFromCapabilityOverride,
+  type ModelCapabilityDraft,
+  resolveModelCapabilities,
+  supportsVideoInput,
+} from "@/lib/model-capabilities";
+import {
+  draftFromPricingOverride,
+  type ModelPricingDraft,
+  pricingOverrideFromDraft,
+  resolveModelPricing,
+} from "@/lib/model-pricing";
+import { useProviderStore } from "@/stores";
+import {
+  isCustomProviderId,
+  MODEL_CAPABILITY_FLAGS,
+  type ModelCapabilityFlag,
+  PROVIDERS,
+  type ProviderId,
+} from "@/types/provider.types";
+
+const CAPABILITY_LABELS: Record<ModelCapabilityFlag, string> = {
+  vision: "Image input",
+  video: "Video input",
+  tools: "Tool calls (web search)",
+  reasoning: "Reasoning level",
+};
+
+const readParam = (value: string | string[] | undefined): string => {
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+};
+
+const isKnownProviderId = (value: string): value is ProviderId => {
+  return isCustomProviderId(value) || value in PROVIDERS;
+};
+
+export default function ModelCapabilitiesSettings() {
+  const { theme } = useTheme();
+  const params = useLocalSearchParams<{ provider?: string | string[]; model?: string | string[] }>();
+  const rawProvider = readParam(params.provider);
+  const modelId = readParam(params.model);
+  const providerId: ProviderId = isKnownProviderId(rawProvider) ? rawProvider : "ollama";
+
+  const catalog = useProviderStore((state) => state.catalogCapabilities?.[providerId]?.[modelId]);
+  const override = useProviderStore((state) => state.capabilityOverrides?.[providerId]?.[modelId]);
+  const setModelCapabilityOverride = useProviderStore((state) => state.setModelCapabilityOverride);
+  const catalogPrice = useProviderStore((state) => state.catalogPricing?.[providerId]?.[modelId]);
+  const priceOverride = useProviderStore((state) => state.pricingOverrides?.[providerId]?.[modelId]);
+  const setModelPricingOverride = useProviderStore((state) => state.setModelPricingOverride);
+
+  const [draft, setDraft] = useState<ModelCapabilityDraft>(() => draftFromCapabilityOverride(override));
+  const [priceDraft, setPriceDraft] = useState<ModelPricingDraft>(() => draftFromPricingOverride(priceOverride));
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  const detected = resolveModelCapabilities(providerId, modelId, { catalog });
+  const detectedPrice = resolveModelPricing(providerId, { catalog: catalogPrice });
+  const pricePlaceholder = (value: number | undefined) => {
+    return value === undefined ? "Not set" : String(value);
+  };
+  const flags = MODEL_CAPABILITY_FLAGS.filter(
+    (flag) => flag !== "video" || supportsVideoInput(providerId),
+  );
+
+  const updateFlag = (flag: ModelCapabilityFlag, value: boolean | null) => {
+    setStatus(null);
+    setDraft((current) => ({ ...current, flags: { ...current.flags, [flag]: value } }));
+  };
+
+  const updatePrice = (field: keyof ModelPricingDraft, value: string) => {
+    setStatus(null);
+    setPriceDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = () => {
+    const { override: nextOverride, error } = capabilityOverrideFromDraft(draft);
+    const { override: nextPrice, error: priceError } = pricingOverrideFromDraft(priceDraft);
+    if (error || priceError) {
+      setStatus({ success: false, message: (error ?? priceError) as string });
+      return;
+    }
+
+    setModelCapabilityOverride(providerId, modelId, nextOverride);
+    setModelPricingOverride(providerId, modelId, nextPrice);
+    router.back();
+  };
+
+  const handleReset = () => {
+    setModelCapabilityOverride(providerId, modelId, null);
+    setModelPricingOverride(providerId, modelId, null);
+    setDraft(draftFromCapabilityOverride());
+    setPriceDraft(draftFromPricingOverride());
+    setStatus({ success: true, message: "Using detected capabilities and prices." });
+  };
+
+  return (
+    <SettingsScreen
+      title={modelId || "Model"}
+      contentContainerClassName="flex-grow gap-5 pt-5"
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Chat features are switched on or off based on what this model supports. Auto uses built-in data and the provider&apos;s catalog; pick On or Off if detection is wrong.
+      </Text>
+
+      {flags.map((flag) => (
+        <ChoiceGroup key={flag} title={CAPABILITY_LABELS[flag]}>
+          <ChoiceChip
+            label={`Auto (${detected[flag] ? "On" : "Off"})`}
+            selected={draft.flags[flag] === null}
+            onPress={() => updateFlag(flag, null)}
+            testID={`capability-${flag}-auto`}
+          />
+          <ChoiceChip
+            label="On"
+            selected={draft.flags[flag] === true}
+            onPress={() => updateFlag(flag, true)}
+            testID={`capability-${flag}-on`}
+          />
+          <ChoiceChip
+            label="Off"
+            selected={draft.flags[flag] === false}
+            onPress={() => updateFlag(flag, false)}
+            testID={`capability-${flag}-off`}
+          />
+        </ChoiceGroup>
+      ))}
+
+      <SettingInput
+        label="Context Window (tokens)"
+        value={draft.contextTokens}
+        onChangeText={(contextTokens) => {
+          setStatus(null);
+          setDraft((current) => ({ ...current, contextTokens }));
+        }}
+        placeholder={detected.contextTokens ? String(detected.contextTokens) : "Unknown"}
+        autoCapitalize="none"
+        testID="capability-context-input"
+      />
+
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Prices are US dollars per million tokens and are used to work out what each reply cost. Leave them blank to use the provider&apos;s catalog price.
+      </Text>
+
+      <SettingInput
+        label="Input Price ($ / 1M tokens)"
+        value={priceDraft.input}
+        onChangeText={(value) => updatePrice("input", value)}
+        placeholder={pricePlaceholder(detectedPrice?.input)}
+        autoCapitalize="none"
+        testID="pricing-input-input"
+      />
+
+      <SettingInput
+        label="Output Price ($ / 1M tokens)"
+        value={priceDraft.output}
+        onChangeText={(value) => updatePrice("output", value)}
+        placeholder={pricePlaceholder(detectedPrice?.output)}
+        autoCapitalize="none"
+        testID="pricing-output-input"
+      />
+
+      <SettingInput
+        label="Cached Input Price ($ / 1M tokens)"
+        value={priceDraft.cachedInput}
+        onChangeText={(value) => updatePrice("cachedInput", value)}
+        placeholder={pricePlaceholder(detectedPrice?.cachedInput ?? detectedPrice?.input)}
+        autoCapitalize="none"
+        testID="pricing-cached-input"
+      />
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <View className="flex-row gap-2 px-4">
+        <View className="flex-1">
+          <SaveButton title="Save" onPress={handleSave} testID="save-capabilities" />
+        </View>
+        <View className="flex-1">
+          <SaveButton title="Use Detected" onPress={handleReset} testID="reset-capabilities" />
+        </View>
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * @file app/settings/network.tsx
+ * @purpose Developer view of recorded provider traffic, each request
+ * expandable to its headers, body and stream events and shareable as cURL
+ * or as a replayable test fixture.
+ */
+
+import { useState } from "react";
+import { Platform, Pressable, Share, StyleSheet, Text, View } from "react-native";
+
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import {
+  clearNetworkInspector,
+  NETWORK_INSPECTOR_CAPACITY,
+  setNetworkInspectorEnabled,
+  toCurlCommand,
+  useNetworkInspectorStore,
+  type InspectedRequest,
+} from "@/lib/network-inspector";
+import { serializeSseFixture, toSseFixture } from "@/lib/sse-fixtures";
+
+const MONOSPACE_FONT = Platform.select({ ios: "Menlo", default: "monospace" });
+
+const formatDuration = (ms: number): string => (
+  ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+);
+
+const describeStatus = (request: InspectedRequest): string => {
+  if (request.state === "error" && request.status === null) {
+    return "Failed";
+  }
+  if (request.status === null) {
+    return "Waiting…";
+  }
+  return request.statusText ? `${request.status} ${request.statusText}` : String(request.status);
+};
+
+const describeSummary = (request: InspectedRequest): string => {
+  const parts = [describeStatus(request)];
+  if (request.headersMs !== null) {
+    parts.push(`first byte ${formatDuration(request.headersMs)}`);
+  }
+  if (request.durationMs !== null) {
+    parts.push(`total ${formatDuration(request.durationMs)}`);
+  } else if (request.state === "streaming") {
+    parts.push("receiving…");
+  }
+  if (request.events.length > 0) {
+    parts.push(`${request.events.length} ${request.events.length === 1 ? "event" : "events"}`);
+  }
+  return parts.join(" · ");
+};
+
+const splitUrl = (url: string): { host: string; path: string } => {
+  try {
+    const parsed = new URL(url);
+    return { host: parsed.host, path: `${parsed.pathname}${parsed.search}` };
+  } catch {
+    return { host: "", path: url };
+  }
+};
+
+const formatHeaders = (headers: Record<string, string>): string => (
+  Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join("\n")
+);
+
+function DetailBlock({ title, text }: { title: string; text: string }) {
+  const { theme } = useTheme();
+
+  return (
+    <View className="gap-1">
+      <Text
+        className="text-[11px] font-semibold uppercase tracking-widest"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        {title}
+      </Text>
+      <Text
+        selectable
+        className="rounded-lg px-3 py-2 text-[12px] leading-[17px]"
+        style={{
+          color: theme.colors.text,
+          backgroundColor: theme.colors.background,
+          fontFamily: MONOSPACE_FONT,
+        }}
+      >
+        {text}
+      </Text>
+    </View>
+  );
+}
+
+interface RequestRowProps {
+  request: InspectedRequest;
+  isFirst: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function RequestRow({ request, isFirst, expanded, onToggle }: RequestRowProps) {
+  const { theme } = useTheme();
+  const { host, path } = splitUrl(request.url);
+  const failed = request.state === "error" || (request.status !== null && request.status >= 400);
+
+  const shareCurl = () => {
+    void Share.share({ message: toCurlCommand(request) });
+  };
+
+  const shareFixture = () => {
+    void Share.share({ message: serializeSseFixture(toSseFixture(request)) });
+  };
+
+  return (
+    <View
+      style={{
+        borderTopWidth: isFirst ? 0 : StyleSheet.hairlineWidth,
+        borderTopColor: theme.colors.border,
+      }}
+    >
+      <Pressable
+        testID={`network-request-${request.id}`}
+        onPress={onToggle}
+        className="px-4 py-3"
+        style={({ pressed }) => ({
+          backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+        })}
+      >
+        <Text
+          className="mb-0.5 text-[14px] font-semibold"
+          numberOfLines={1}
+          style={{ color: theme.colors.text }}
+        >
+          {`${request.method} ${path}`}
+        </Text>
+        <Text className="text-[12px]" numberOfLines={1} style={{ color: theme.colors.textSecondary }}>
+          {host}
+        </Text>
+        <Text
+          className="mt-0.5 text-[12px]"
+          style={{ color: failed ? theme.colors.error : theme.colors.textSecondary }}
+        >
+          {describeSummary(request)}
+        </Text>
+      </Pressable>
+
+      {expanded ? (
+        <View testID={`network-request-details-${request.id}`} className="gap-3 px-4 pb-4">
+          {request.error ? <DetailBlock title="Error" text={request.error} /> : null}
+          <DetailBlock title="Request Headers" text={formatHeaders(request.requestHeaders) || "None"} />
+          {request.requestBody !== null ? <DetailBlock title="Request Body" text={request.requestBody} /> : null}
+          {request.status !== null ? (
+            <DetailBlock title="Response Headers" text={formatHeaders(request.responseHeaders) || "None"} />
+          ) : null}
+          {request.events.length > 0 ? (
+            <DetailBlock title={`Stream Events (${request.events.length})`} text={request.events.join("\n\n")} />
+          ) : null}
+          {request.responseBody !== null ? <DetailBlock title="Response Body" text={request.responseBody} /> : null}
+          <DetailBlock title="cURL" text={toCurlCommand(request)} />
+          <SaveButton
+            title="Share as cURL"
+            onPress={shareCurl}
+            testID={`network-request-curl-${request.id}`}
+          />
+          {request.state === "done" && request.status !== null && !request.truncated ? (
+            <SaveButton
+              title="Share as Fixture"
+              onPress={shareFixture}
+              testID={`network-request-fixture-${request.id}`}
+            />
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+export default function NetworkInspectorSettings() {
+  const { theme } = useTheme();
+  const enabled = useNetworkInspectorStore((state) => state.enabled);
+  const requests = useNetworkInspectorStore((state) => state.requests);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <SettingsScreen title="Network Inspector" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        {`Records requests to providers and SearXNG while on: headers, bodies, timing and streamed events. API keys and tokens are masked. The last ${NETWORK_INSPECTOR_CAPACITY} requests are kept in memory only and are gone when the app restarts.`}
+      </Text>
+
+      <ChoiceGroup title="Recording">
+        <ChoiceChip
+          label="Off"
+          selected={!enabled}
+          onPress={() => setNetworkInspectorEnabled(false)}
+          testID="network-inspector-off"
+        />
+        <ChoiceChip
+          label="On"
+          selected={enabled}
+          onPress={() => setNetworkInspectorEnabled(true)}
+          testID="network-inspector-on"
+        />
+      </ChoiceGroup>
+
+      {requests.length > 0 ? (
+        <View className="mx-4">
+          <Text
+            className="mb-2 px-1 text-[11px] font-semibold uppercase tracking-widest"
+            style={{ color: theme.colors.textSecondary }}
+          >
+            Requests
+          </Text>
+          <View
+            className="overflow-hidden rounded-xl"
+            style={{ backgroundColor: theme.colors.surface }}
+          >
+            {requests.map((request, index) => (
+              <RequestRow
+                key={request.id}
+                request={request}
+                isFirst={index === 0}
+                expanded={expandedId === request.id}
+                onToggle={() => setExpandedId((current) => (current === request.id ? null : request.id))}
+              />
+            ))}
+          </View>
+        </View>
+      ) : (
+        <View
+          className="mx-4 rounded-2xl px-4 py-3"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            {enabled ? "No requests yet. Send a message to see it here." : "Turn recording on, then reproduce the problem."}
+          </Text>
+        </View>
+      )}
+
+      <View className="mx-4">
+        <SaveButton
+          title="Clear"
+          onPress={clearNetworkInspector}
+          disabled={requests.length === 0}
+          testID="network-inspector-clear"
+        />
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
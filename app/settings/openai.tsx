@@ -11,11 +11,14 @@ import { ProviderSettingsScreen } from "@/components/settings/ProviderSettingsSc
 import { OPENAI_MODELS } from "@/types/provider.types";
 import { useProviderStore, useAuthStore } from "@/stores";
 import { testProviderConnection } from "@/providers/provider-factory";
+import { useModelCatalog } from "@/hooks/useModelCatalog";
 
 export default function OpenAISettings() {
-  const { selectedModel, setSelectedModel } = useProviderStore();
+  const { selectedModel, setSelectedModel, availableModels } = useProviderStore();
   const { openaiApiKey, setOpenAIApiKey } = useAuthStore();
 
+  const modelCatalog = useModelCatalog("openai", openaiApiKey);
+
   const [apiKey, setApiKeyState] = useState(openaiApiKey || "");
   const [status, setStatus] = useState<SettingsStatus | null>(null);
 
@@ -39,6 +42,9 @@ export default function OpenAISettings() {
     },
     onSuccess: (nextStatus) => {
       setStatus(nextStatus);
+      if (nextStatus?.success) {
+        modelCatalog.refresh();
+      }
     },
     onError: (error) => {
       setStatus({
@@ -63,8 +69,10 @@ export default function OpenAISettings() {
       inputPlaceholder="sk-..."
       inputSecureTextEntry
       predefinedModels={OPENAI_MODELS}
+      dynamicModels={modelCatalog.fetchedAt !== null ? availableModels.openai : undefined}
       selectedModel={selectedModel}
       onModelSelect={setSelectedModel}
+      modelCatalog={modelCatalog}
       status={status}
       actions={[
         {
@@ -10,12 +10,15 @@ import type { SettingsStatus } from "@/components/settings/SettingsStatusBanner"
 import { ProviderSettingsScreen } from "@/components/settings/ProviderSettingsScreen";
 import { useProviderStore, useAuthStore } from "@/stores";
 import { testProviderConnection } from "@/providers/provider-factory";
+import { useModelCatalog } from "@/hooks/useModelCatalog";
 import { OPENCODE_MODELS } from "@/types/provider.types";
 
 export default function OpencodeSettings() {
-  const { selectedModel, setSelectedModel } = useProviderStore();
+  const { selectedModel, setSelectedModel, availableModels } = useProviderStore();
   const { opencodeApiKey, setOpencodeApiKey } = useAuthStore();
 
+  const modelCatalog = useModelCatalog("opencode", opencodeApiKey);
+
   const [apiKey, setApiKeyState] = useState(opencodeApiKey || "");
   const [status, setStatus] = useState<SettingsStatus | null>(null);
 
@@ -39,6 +42,9 @@ export default function OpencodeSettings() {
     },
     onSuccess: (nextStatus) => {
       setStatus(nextStatus);
+      if (nextStatus?.success) {
+        modelCatalog.refresh();
+      }
     },
     onError: (error) => {
       setStatus({
@@ -63,8 +69,10 @@ export default function OpencodeSettings() {
       inputPlaceholder="opencode..."
       inputSecureTextEntry
       predefinedModels={OPENCODE_MODELS}
+      dynamicModels={modelCatalog.fetchedAt !== null ? availableModels.opencode : undefined}
       selectedModel={selectedModel}
       onModelSelect={setSelectedModel}
+      modelCatalog={modelCatalog}
       status={status}
       actions={[
         {
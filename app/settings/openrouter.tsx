@@ -10,12 +10,15 @@ import type { SettingsStatus } from "@/components/settings/SettingsStatusBanner"
 import { ProviderSettingsScreen } from "@/components/settings/ProviderSettingsScreen";
 import { useProviderStore, useAuthStore } from "@/stores";
 import { testProviderConnection } from "@/providers/provider-factory";
+import { useModelCatalog } from "@/hooks/useModelCatalog";
 import { OPENROUTER_MODELS } from "@/types/provider.types";
 
 export default function OpenRouterSettings() {
-  const { selectedModel, setSelectedModel } = useProviderStore();
+  const { selectedModel, setSelectedModel, availableModels } = useProviderStore();
   const { openrouterApiKey, setOpenRouterApiKey } = useAuthStore();
 
+  const modelCatalog = useModelCatalog("openrouter", openrouterApiKey);
+
   const [apiKey, setApiKeyState] = useState(openrouterApiKey || "");
   const [status, setStatus] = useState<SettingsStatus | null>(null);
 
@@ -39,6 +42,9 @@ export default function OpenRouterSettings() {
     },
     onSuccess: (nextStatus) => {
       setStatus(nextStatus);
+      if (nextStatus?.success) {
+        modelCatalog.refresh();
+      }
     },
     onError: (error) => {
       setStatus({
@@ -63,8 +69,10 @@ export default function OpenRouterSettings() {
       inputPlaceholder="sk-or-..."
       inputSecureTextEntry
       predefinedModels={OPENROUTER_MODELS}
+      dynamicModels={modelCatalog.fetchedAt !== null ? availableModels.openrouter : undefined}
       selectedModel={selectedModel}
       onModelSelect={setSelectedModel}
+      modelCatalog={modelCatalog}
       status={status}
       actions={[
         {
@@ -0,0 +1,297 @@
+/**
+ * @file app/settings/persona.tsx
+ * @purpose Creates or edits a single persona; opened with `?id=` to edit an existing one.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { router, useLocalSearchParams } from "expo-router";
+import { Text, View } from "react-native";
+
+import {
+  getProviderIds,
+  getProviderName,
+  getSelectableModelsForProvider,
+  getStoredModelValue,
+} from "@/components/chat/context-menu/utils";
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingInput } from "@/components/settings/SettingInput";
+import {
+  type SettingsStatus,
+  SettingsStatusBanner,
+} from "@/components/settings/SettingsStatusBanner";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import useDatabase from "@/hooks/useDatabase";
+import { formatTemperatureInput, parseTemperatureInput } from "@/lib/chat-settings";
+import {
+  deletePersona,
+  draftFromPersona,
+  EMPTY_PERSONA_DRAFT,
+  getPersona,
+  type PersonaDraft,
+  savePersona,
+  validatePersonaDraft,
+} from "@/lib/personas";
+import { personaQueryKeys } from "@/lib/query-client";
+import { useAuthStore, useProviderStore } from "@/stores";
+import type { ThinkingLevel } from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+const THINKING_CHOICES: { label: string; value: ThinkingLevel | null }[] = [
+  { label: "Keep current", value: null },
+  { label: "Low", value: "low" },
+  { label: "Medium", value: "medium" },
+  { label: "High", value: "high" },
+];
+
+const WEB_SEARCH_CHOICES: { label: string; value: boolean | null }[] = [
+  { label: "Keep current", value: null },
+  { label: "On", value: true },
+  { label: "Off", value: false },
+];
+
+export default function PersonaSettings() {
+  const { theme } = useTheme();
+  const db = useDatabase();
+  const queryClient = useQueryClient();
+  const { availableModels, customModels, hiddenModels, modelCatalogs } = useProviderStore();
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+
+  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const rawId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const parsedId = rawId !== undefined ? Number(rawId) : NaN;
+  const personaId = Number.isInteger(parsedId) ? parsedId : null;
+
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_PERSONA_DRAFT);
+  const [temperatureInput, setTemperatureInput] = useState("");
+  const [status, setStatus] = useState<SettingsStatus | null>(null);
+
+  const personaQuery = useQuery({
+    queryKey: personaQueryKeys.detail(personaId ?? 0),
+    enabled: personaId !== null,
+    queryFn: async () => getPersona(db, personaId as number),
+  });
+  const existingPersona = personaQuery.data ?? null;
+
+  useEffect(() => {
+    if (!existingPersona) {
+      return;
+    }
+
+    setDraft(draftFromPersona(existingPersona));
+    setTemperatureInput(formatTemperatureInput(existingPersona.temperature));
+  }, [existingPersona]);
+
+  const modelChoices = useMemo(() => {
+    if (!draft.providerId) {
+      return [];
+    }
+
+    return getSelectableModelsForProvider(draft.providerId, {
+      availableModels,
+      customModels,
+      hiddenModels,
+      modelCatalogs,
+    });
+  }, [availableModels, customModels, draft.providerId, hiddenModels, modelCatalogs]);
+
+  const updateDraft = (patch: Partial<PersonaDraft>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+  };
+
+  const handleSelectProvider = (providerId: ProviderId | null) => {
+    updateDraft({
+      providerId,
+      modelId: providerId === "apple" ? getStoredModelValue("apple", "") : null,
+    });
+  };
+
+  const invalidatePersonas = () => queryClient.invalidateQueries({ queryKey: personaQueryKeys.all });
+
+  const saveMutation = useMutation({
+    mutationFn: async (nextDraft: PersonaDraft): Promise<number> => {
+      return savePersona(db, nextDraft, personaId);
+    },
+    onSuccess: async () => {
+      await invalidatePersonas();
+      router.back();
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not save persona.",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number): Promise<void> => {
+      deletePersona(db, id);
+    },
+    onSuccess: async () => {
+      await invalidatePersonas();
+      router.back();
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: error instanceof Error ? error.message : "Could not delete persona.",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    setStatus(null);
+
+    const { temperature, error: temperatureError } = parseTemperatureInput(temperatureInput);
+    if (temperatureError) {
+      setStatus({ success: false, message: temperatureError });
+      return;
+    }
+
+    const nextDraft = { ...draft, temperature };
+    const validationError = validatePersonaDraft(nextDraft);
+    if (validationError) {
+      setStatus({ success: false, message: validationError });
+      return;
+    }
+
+    saveMutation.mutate(nextDraft);
+  };
+
+  const handleDelete = () => {
+    if (personaId === null) {
+      return;
+    }
+
+    setStatus(null);
+    deleteMutation.mutate(personaId);
+  };
+
+  return (
+    <SettingsScreen
+      title={personaId === null ? "New Persona" : "Edit Persona"}
+      contentContainerClassName="flex-grow gap-5 pt-5"
+      keyboardShouldPersistTaps="handled"
+    >
+      <SettingInput
+        label="Name"
+        value={draft.name}
+        onChangeText={(name) => updateDraft({ name })}
+        placeholder="Code reviewer"
+        autoCapitalize="words"
+        testID="persona-name-input"
+      />
+
+      <SettingInput
+        label="System Prompt"
+        value={draft.systemPrompt}
+        onChangeText={(systemPrompt) => updateDraft({ systemPrompt })}
+        placeholder="You are a careful reviewer…"
+        autoCapitalize="sentences"
+        multiline
+        testID="persona-prompt-input"
+      />
+
+      <ChoiceGroup title="Provider">
+        <ChoiceChip
+          label="Keep current"
+          selected={draft.providerId === null}
+          onPress={() => handleSelectProvider(null)}
+          testID="persona-provider-none"
+        />
+        {getProviderIds(customEndpoints).map((providerId) => (
+          <ChoiceChip
+            key={providerId}
+            label={getProviderName(providerId, customEndpoints)}
+            selected={draft.providerId === providerId}
+            onPress={() => handleSelectProvider(providerId)}
+            testID={`persona-provider-${providerId}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      {draft.providerId && draft.providerId !== "apple" ? (
+        <ChoiceGroup title="Model">
+          {modelChoices.length > 0 ? (
+            modelChoices.map((model) => (
+              <ChoiceChip
+                key={model}
+                label={model}
+                selected={draft.modelId === model}
+                onPress={() => updateDraft({ modelId: getStoredModelValue(draft.providerId as ProviderId, model) })}
+                testID={`persona-model-${model}`}
+              />
+            ))
+          ) : (
+            <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+              No models available for this provider yet.
+            </Text>
+          )}
+        </ChoiceGroup>
+      ) : null}
+
+      <ChoiceGroup title="Thinking">
+        {THINKING_CHOICES.map((choice) => (
+          <ChoiceChip
+            key={choice.label}
+            label={choice.label}
+            selected={draft.thinkingLevel === choice.value}
+            onPress={() => updateDraft({ thinkingLevel: choice.value })}
+            testID={`persona-thinking-${choice.value ?? "none"}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      <ChoiceGroup title="Web Search">
+        {WEB_SEARCH_CHOICES.map((choice) => (
+          <ChoiceChip
+            key={choice.label}
+            label={choice.label}
+            selected={draft.webSearchEnabled === choice.value}
+            onPress={() => updateDraft({ webSearchEnabled: choice.value })}
+            testID={`persona-web-search-${choice.value === null ? "none" : choice.value ? "on" : "off"}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      <SettingInput
+        label="Temperature"
+        value={temperatureInput}
+        onChangeText={setTemperatureInput}
+        placeholder="Model default"
+        autoCapitalize="none"
+        testID="persona-temperature-input"
+      />
+
+      <View className="min-h-2 flex-1" />
+
+      <SettingsStatusBanner status={status} />
+
+      <View className="flex-row gap-2 px-4">
+        {personaId !== null ? (
+          <View className="flex-1">
+            <SaveButton
+              title="Delete"
+              onPress={handleDelete}
+              loading={deleteMutation.isPending}
+              testID="delete-persona"
+            />
+          </View>
+        ) : null}
+        <View className="flex-1">
+          <SaveButton
+            title="Save Persona"
+            onPress={handleSave}
+            loading={saveMutation.isPending}
+            testID="save-persona"
+          />
+        </View>
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
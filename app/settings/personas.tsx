@@ -0,0 +1,157 @@
+/**
+ * @file app/settings/personas.tsx
+ * @purpose Lists saved personas and starts new chats from them.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { router } from "expo-router";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { SymbolView } from "expo-symbols";
+
+import { getProviderName } from "@/components/chat/context-menu/utils";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { SaveButton } from "@/components/ui/SaveButton";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import useDatabase from "@/hooks/useDatabase";
+import { listPersonas, type Persona } from "@/lib/personas";
+import { personaQueryKeys } from "@/lib/query-client";
+import { useAuthStore } from "@/stores";
+import { type CustomEndpoint } from "@/types/provider.types";
+
+const describePersonaDefaults = (entry: Persona, customEndpoints: CustomEndpoint[]): string => {
+  const parts: string[] = [];
+
+  if (entry.providerId && entry.modelId) {
+    parts.push(
+      entry.providerId === "apple"
+        ? getProviderName("apple")
+        : `${getProviderName(entry.providerId, customEndpoints)} · ${entry.modelId}`,
+    );
+  }
+  if (entry.thinkingLevel) {
+    parts.push(`Thinking ${entry.thinkingLevel}`);
+  }
+  if (entry.webSearchEnabled !== null) {
+    parts.push(entry.webSearchEnabled ? "Web search on" : "Web search off");
+  }
+  if (entry.temperature !== null) {
+    parts.push(`Temp ${entry.temperature}`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "Uses the current model and settings";
+};
+
+export default function PersonasSettings() {
+  const { theme } = useTheme();
+  const db = useDatabase();
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+
+  const personasQuery = useQuery({
+    queryKey: personaQueryKeys.list(),
+    queryFn: async () => listPersonas(db),
+  });
+  const personas = personasQuery.data ?? [];
+
+  const handleCreate = () => {
+    router.push("/settings/persona" as any);
+  };
+
+  const handleEdit = (id: number) => {
+    router.push(`/settings/persona?id=${id}` as any);
+  };
+
+  const handleStartChat = (id: number) => {
+    router.push(`/chat/new?personaId=${id}` as any);
+  };
+
+  return (
+    <SettingsScreen title="Personas" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        A persona bundles a system prompt with model, thinking, web search and temperature defaults. Chats copy the prompt when they start, so later edits only affect new chats.
+      </Text>
+
+      {personas.length > 0 ? (
+        <View
+          className="mx-4 overflow-hidden rounded-xl"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          {personas.map((entry, index) => (
+            <Pressable
+              key={entry.id}
+              testID={`persona-row-${entry.id}`}
+              onPress={() => handleEdit(entry.id)}
+              className="flex-row items-center px-4 py-3.5"
+              style={({ pressed }) => ({
+                backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+                borderTopWidth: index === 0 ? 0 : StyleSheet.hairlineWidth,
+                borderTopColor: theme.colors.border,
+              })}
+            >
+              <View className="flex-1 pr-3">
+                <Text
+                  className="mb-0.5 text-[16px] font-semibold"
+                  style={{ color: theme.colors.text }}
+                >
+                  {entry.name}
+                </Text>
+                {entry.systemPrompt ? (
+                  <Text
+                    className="text-[13px]"
+                    numberOfLines={2}
+                    style={{ color: theme.colors.textSecondary }}
+                  >
+                    {entry.systemPrompt}
+                  </Text>
+                ) : null}
+                <Text
+                  className="mt-0.5 text-[12px]"
+                  style={{ color: theme.colors.accent }}
+                >
+                  {describePersonaDefaults(entry, customEndpoints)}
+                </Text>
+              </View>
+
+              <Pressable
+                testID={`persona-start-${entry.id}`}
+                onPress={() => handleStartChat(entry.id)}
+                hitSlop={8}
+                className="h-[36px] w-[36px] items-center justify-center rounded-full"
+                style={{ backgroundColor: theme.colors.background }}
+              >
+                <SymbolView
+                  name="square.and.pencil"
+                  size={18}
+                  tintColor={theme.colors.accent}
+                />
+              </Pressable>
+            </Pressable>
+          ))}
+        </View>
+      ) : (
+        <View
+          className="mx-4 rounded-2xl px-4 py-3"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            {personasQuery.isLoading ? "Loading personas…" : "No personas yet."}
+          </Text>
+        </View>
+      )}
+
+      <View className="min-h-2 flex-1" />
+
+      <View className="px-4">
+        <SaveButton
+          title="New Persona"
+          onPress={handleCreate}
+          testID="create-persona"
+        />
+      </View>
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
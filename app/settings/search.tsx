@@ -3,6 +3,7 @@ import { useMutation } from "@tanstack/react-query";
 import { Pressable, Text, View } from "react-native";
 import { SymbolView } from "expo-symbols";
 
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
 import { SettingInput } from "@/components/settings/SettingInput";
 import {
   type SettingsStatus,
@@ -11,42 +12,120 @@ import {
 import { SettingsScreen } from "@/components/settings/SettingsScreen";
 import { SaveButton } from "@/components/ui/SaveButton";
 import { useTheme } from "@/components/ui/ThemeProvider";
-import { normalizeSearxngUrl, testSearxngConnection } from "@/lib/searxng-client";
+import {
+  getSearchBackendFieldValues,
+  hasSearchBackendFields,
+  parseSearchBackendFields,
+  SEARCH_BACKEND_FIELDS,
+  SEARCH_BACKEND_IDS,
+  SEARCH_BACKEND_LABELS,
+  type SearchBackendFieldValues,
+  testSearchBackend,
+} from "@/lib/search-backends";
+import { WEB_READ_TOOL_KEY, WEB_SEARCH_TOOL_KEY } from "@/lib/web-search-tool";
+import {
+  resolveToolApprovalPolicy,
+  TOOL_APPROVAL_POLICY_OPTIONS,
+} from "@/lib/tool-call-recorder";
 import { useAuthStore } from "@/stores";
 import { useSettingsStore } from "@/stores/useSettingsStore";
+import type { SearchBackendId, StoredSearchBackendConfig } from "@/types/search.types";
+
+type SearchBackendDrafts = Record<SearchBackendId, SearchBackendFieldValues>;
+
+const createBackendDrafts = (
+  searxngUrl: string | null,
+  storedBackends: readonly StoredSearchBackendConfig[],
+): SearchBackendDrafts => {
+  const drafts = {} as SearchBackendDrafts;
+  for (const id of SEARCH_BACKEND_IDS) {
+    const stored = id === "searxng"
+      ? (searxngUrl ? { id, url: searxngUrl } : null)
+      : storedBackends.find((config) => config.id === id) ?? null;
+    drafts[id] = getSearchBackendFieldValues(id, stored);
+  }
+  return drafts;
+};
 
 export default function SearchSettings() {
   const { theme } = useTheme();
   const searxngUrl = useAuthStore((state) => state.searxngUrl);
   const setSearxngUrl = useAuthStore((state) => state.setSearxngUrl);
+  const storedBackends = useAuthStore((state) => state.searchBackends);
+  const saveSearchBackend = useAuthStore((state) => state.saveSearchBackend);
+  const removeSearchBackend = useAuthStore((state) => state.removeSearchBackend);
+  const searchBackend = useSettingsStore((state) => state.searchBackend);
+  const setSearchBackend = useSettingsStore((state) => state.setSearchBackend);
+  const searchFallbackBackend = useSettingsStore((state) => state.searchFallbackBackend);
+  const setSearchFallbackBackend = useSettingsStore((state) => state.setSearchFallbackBackend);
   const webSearchEnabled = useSettingsStore((state) => state.webSearchEnabled);
   const setWebSearchEnabled = useSettingsStore((state) => state.setWebSearchEnabled);
+  const searchPolicy = useSettingsStore(
+    (state) => resolveToolApprovalPolicy(state.toolApprovalPolicies, WEB_SEARCH_TOOL_KEY),
+  );
+  const readPolicy = useSettingsStore(
+    (state) => resolveToolApprovalPolicy(state.toolApprovalPolicies, WEB_READ_TOOL_KEY),
+  );
+  const setToolApprovalPolicy = useSettingsStore((state) => state.setToolApprovalPolicy);
 
-  const [draftUrl, setDraftUrl] = useState(searxngUrl ?? "");
+  const [draftBackends, setDraftBackends] = useState(() => createBackendDrafts(searxngUrl, storedBackends));
+  const [draftBackend, setDraftBackend] = useState(searchBackend);
+  const [draftFallback, setDraftFallback] = useState(searchFallbackBackend);
   const [draftEnabled, setDraftEnabled] = useState(webSearchEnabled);
+  const [draftPolicy, setDraftPolicy] = useState(searchPolicy);
+  const [draftReadPolicy, setDraftReadPolicy] = useState(readPolicy);
   const [status, setStatus] = useState<SettingsStatus | null>(null);
 
   useEffect(() => {
-    setDraftUrl(searxngUrl ?? "");
-  }, [searxngUrl]);
+    setDraftBackends(createBackendDrafts(searxngUrl, storedBackends));
+  }, [searxngUrl, storedBackends]);
+
+  useEffect(() => {
+    setDraftBackend(searchBackend);
+  }, [searchBackend]);
+
+  useEffect(() => {
+    setDraftFallback(searchFallbackBackend);
+  }, [searchFallbackBackend]);
 
   useEffect(() => {
     setDraftEnabled(webSearchEnabled);
   }, [webSearchEnabled]);
 
-  const hasUrl = draftUrl.trim().length > 0;
+  useEffect(() => {
+    setDraftPolicy(searchPolicy);
+  }, [searchPolicy]);
+
+  useEffect(() => {
+    setDraftReadPolicy(readPolicy);
+  }, [readPolicy]);
+
+  const backendLabel = SEARCH_BACKEND_LABELS[draftBackend];
+  const isBackendFilled = hasSearchBackendFields(draftBackend, draftBackends[draftBackend]);
+  // The fallback can be switched to "none" or to any backend other than the primary one
+  const activeFallback = draftFallback !== draftBackend ? draftFallback : null;
+  const chainIds = activeFallback ? [draftBackend, activeFallback] : [draftBackend];
 
   const helperCopy = useMemo(() => {
     if (!draftEnabled) {
       return "Search stays off across the app until you enable it here or from the chat menu.";
     }
 
-    if (!hasUrl) {
-      return "Web search is enabled app-wide, but you still need to add your SearXNG URL.";
+    if (!isBackendFilled) {
+      return draftBackend === "searxng"
+        ? "Web search is enabled app-wide, but you still need to add your SearXNG URL."
+        : `Web search is enabled app-wide, but you still need to add your ${backendLabel} settings.`;
     }
 
-    return "Seabreeze will let supported models decide when to search the web and cite sources from your instance.";
-  }, [draftEnabled, hasUrl]);
+    return `Seabreeze will let supported models decide when to search the web and cite sources from ${backendLabel}.`;
+  }, [backendLabel, draftBackend, draftEnabled, isBackendFilled]);
+
+  const handleChangeField = (id: SearchBackendId, key: string, value: string) => {
+    setDraftBackends((current) => ({
+      ...current,
+      [id]: { ...current[id], [key]: value },
+    }));
+  };
 
   const handleToggleEnabled = () => {
     setDraftEnabled((current) => !current);
@@ -54,17 +133,35 @@ export default function SearchSettings() {
 
   const saveSettingsMutation = useMutation({
     mutationFn: async (): Promise<SettingsStatus> => {
-      const trimmedUrl = draftUrl.trim();
-      const normalizedUrl = trimmedUrl ? normalizeSearxngUrl(trimmedUrl) : null;
+      // Parse every form first so an invalid fallback does not leave a half-saved chain
+      const configs = chainIds.map((id) => ({ id, config: parseSearchBackendFields(id, draftBackends[id]) }));
+
+      for (const { id, config } of configs) {
+        if (config?.id === "searxng") {
+          setSearxngUrl(config.url);
+        } else if (config) {
+          saveSearchBackend(config);
+        } else if (id === "searxng") {
+          setSearxngUrl(null);
+        } else {
+          removeSearchBackend(id);
+        }
+      }
 
-      setSearxngUrl(normalizedUrl);
+      setSearchBackend(draftBackend);
+      setSearchFallbackBackend(activeFallback);
       setWebSearchEnabled(draftEnabled);
+      setToolApprovalPolicy(WEB_SEARCH_TOOL_KEY, draftPolicy);
+      setToolApprovalPolicy(WEB_READ_TOOL_KEY, draftReadPolicy);
 
+      if (configs[0].config) {
+        return { success: true, message: "Web search settings saved." };
+      }
       return {
         success: true,
-        message: normalizedUrl
-          ? "Web search settings saved."
-          : "Web search preference saved. Add a SearXNG URL whenever you're ready.",
+        message: draftBackend === "searxng"
+          ? "Web search preference saved. Add a SearXNG URL whenever you're ready."
+          : `Web search preference saved. Add your ${backendLabel} settings whenever you're ready.`,
       };
     },
     onSuccess: (nextStatus) => {
@@ -80,7 +177,23 @@ export default function SearchSettings() {
 
   const testConnectionMutation = useMutation({
     mutationFn: async (): Promise<SettingsStatus> => {
-      return testSearxngConnection(draftUrl.trim());
+      const results: SettingsStatus[] = [];
+      for (const id of chainIds) {
+        const config = parseSearchBackendFields(id, draftBackends[id]);
+        results.push(config
+          ? await testSearchBackend(config)
+          : { success: false, message: `${SEARCH_BACKEND_LABELS[id]} is not set up yet.` });
+      }
+
+      if (results.length === 1) {
+        return results[0];
+      }
+      return {
+        success: results.every((result) => result.success),
+        message: results
+          .map((result, index) => `${SEARCH_BACKEND_LABELS[chainIds[index]]}: ${result.message}`)
+          .join("\n"),
+      };
     },
     onSuccess: (nextStatus) => {
       setStatus(nextStatus);
@@ -175,20 +288,96 @@ export default function SearchSettings() {
         </Pressable>
       </View>
 
-      <SettingInput
-        label="SearXNG URL"
-        value={draftUrl}
-        onChangeText={setDraftUrl}
-        placeholder="https://search.example.com"
-        autoCapitalize="none"
-      />
+      <ChoiceGroup title="Search With">
+        {SEARCH_BACKEND_IDS.map((id) => (
+          <ChoiceChip
+            key={id}
+            label={SEARCH_BACKEND_LABELS[id]}
+            selected={draftBackend === id}
+            onPress={() => setDraftBackend(id)}
+            testID={`search-backend-${id}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      {SEARCH_BACKEND_FIELDS[draftBackend].map((field) => (
+        <SettingInput
+          key={`${draftBackend}-${field.key}`}
+          label={field.label}
+          value={draftBackends[draftBackend][field.key] ?? ""}
+          onChangeText={(value) => handleChangeField(draftBackend, field.key, value)}
+          placeholder={field.placeholder}
+          secureTextEntry={field.secure}
+          autoCapitalize="none"
+          testID={`search-backend-${draftBackend}-${field.key}`}
+        />
+      ))}
+
+      <ChoiceGroup title={`If ${backendLabel} Fails`}>
+        <ChoiceChip
+          label="Stop"
+          selected={activeFallback === null}
+          onPress={() => setDraftFallback(null)}
+          testID="search-fallback-none"
+        />
+        {SEARCH_BACKEND_IDS.filter((id) => id !== draftBackend).map((id) => (
+          <ChoiceChip
+            key={id}
+            label={`Try ${SEARCH_BACKEND_LABELS[id]}`}
+            selected={activeFallback === id}
+            onPress={() => setDraftFallback(id)}
+            testID={`search-fallback-${id}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      {activeFallback ? SEARCH_BACKEND_FIELDS[activeFallback].map((field) => (
+        <SettingInput
+          key={`${activeFallback}-${field.key}`}
+          label={`${SEARCH_BACKEND_LABELS[activeFallback]} · ${field.label}`}
+          value={draftBackends[activeFallback][field.key] ?? ""}
+          onChangeText={(value) => handleChangeField(activeFallback, field.key, value)}
+          placeholder={field.placeholder}
+          secureTextEntry={field.secure}
+          autoCapitalize="none"
+          testID={`search-backend-${activeFallback}-${field.key}`}
+        />
+      )) : null}
+
+      <ChoiceGroup title="Before Each Search">
+        {TOOL_APPROVAL_POLICY_OPTIONS.map(({ policy, label }) => (
+          <ChoiceChip
+            key={policy}
+            label={label}
+            selected={draftPolicy === policy}
+            onPress={() => setDraftPolicy(policy)}
+            testID={`search-approval-${policy}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      <ChoiceGroup title="Before Opening a Page">
+        {TOOL_APPROVAL_POLICY_OPTIONS.map(({ policy, label }) => (
+          <ChoiceChip
+            key={policy}
+            label={label}
+            selected={draftReadPolicy === policy}
+            onPress={() => setDraftReadPolicy(policy)}
+            testID={`read-approval-${policy}`}
+          />
+        ))}
+      </ChoiceGroup>
 
       <View className="mx-4 rounded-2xl px-4 py-3" style={{ backgroundColor: theme.colors.surface }}>
         <Text className="text-[13px] font-semibold uppercase tracking-wide" style={{ color: theme.colors.textSecondary }}>
           Notes
         </Text>
         <Text className="mt-2 text-[13px] leading-[20px]" style={{ color: theme.colors.textSecondary }}>
-          Use the base instance URL and make sure JSON search responses are enabled. On web, your instance also needs CORS support.
+          {draftBackend === "searxng"
+            ? "Use the base instance URL and make sure JSON search responses are enabled. On web, your instance also needs CORS support."
+            : draftBackend === "json"
+              ? "Put {query} in the URL where the search terms go, or leave it out to send them as ?q=. Paths like data.items reach into nested fields."
+              : `Searches are sent straight to ${backendLabel} with your key and count against its plan.`}
         </Text>
       </View>
 
@@ -210,7 +399,7 @@ export default function SearchSettings() {
             title="Test Connection"
             onPress={handleTest}
             loading={testConnectionMutation.isPending}
-            disabled={!hasUrl}
+            disabled={!isBackendFilled}
             testID="test-search-connection"
           />
         </View>
@@ -0,0 +1,258 @@
+/**
+ * @file app/settings/usage.tsx
+ * @purpose Token usage and cost totals by day, provider and model.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { router } from "expo-router";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { getProviderName } from "@/components/chat/context-menu/utils";
+import { ChoiceChip, ChoiceGroup } from "@/components/settings/ChoiceChip";
+import { SettingsScreen } from "@/components/settings/SettingsScreen";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import useDatabase from "@/hooks/useDatabase";
+import { formatTokenTotal, formatUsageCost } from "@/lib/model-pricing";
+import { usageQueryKeys } from "@/lib/query-client";
+import {
+  buildUsageReport,
+  getUsageRangeStart,
+  listUsageRecords,
+  type UsageRange,
+  type UsageTotals,
+} from "@/lib/usage-report";
+import { useAuthStore } from "@/stores";
+
+const RANGE_LABELS: Record<UsageRange, string> = {
+  "7d": "7 days",
+  "30d": "30 days",
+  all: "All time",
+};
+
+const RANGES: UsageRange[] = ["7d", "30d", "all"];
+
+const formatDayLabel = (day: string): string => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const describeTokens = (totals: UsageTotals): string => {
+  const parts = [
+    `${formatTokenTotal(totals.inputTokens)} in`,
+    `${formatTokenTotal(totals.outputTokens)} out`,
+  ];
+  if (totals.reasoningTokens > 0) {
+    parts.push(`${formatTokenTotal(totals.reasoningTokens)} reasoning`);
+  }
+  if (totals.cachedInputTokens > 0) {
+    parts.push(`${formatTokenTotal(totals.cachedInputTokens)} cached`);
+  }
+
+  return parts.join(" · ");
+};
+
+const describeCost = (totals: UsageTotals): string => {
+  if (totals.unpricedReplies === totals.replies) {
+    return "No price";
+  }
+
+  return totals.unpricedReplies > 0 ? `${formatUsageCost(totals.cost)}+` : formatUsageCost(totals.cost);
+};
+
+interface UsageRowProps {
+  title: string;
+  totals: UsageTotals;
+  isFirst: boolean;
+  testID: string;
+  onPress?: () => void;
+}
+
+function UsageRow({ title, totals, isFirst, testID, onPress }: UsageRowProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      testID={testID}
+      onPress={onPress}
+      disabled={!onPress}
+      className="flex-row items-center px-4 py-3"
+      style={({ pressed }) => ({
+        backgroundColor: pressed ? theme.colors.border : theme.colors.surface,
+        borderTopWidth: isFirst ? 0 : StyleSheet.hairlineWidth,
+        borderTopColor: theme.colors.border,
+      })}
+    >
+      <View className="flex-1 pr-3">
+        <Text
+          className="mb-0.5 text-[15px] font-semibold"
+          numberOfLines={1}
+          style={{ color: theme.colors.text }}
+        >
+          {title}
+        </Text>
+        <Text className="text-[12px]" style={{ color: theme.colors.textSecondary }}>
+          {`${describeTokens(totals)} · ${totals.replies} ${totals.replies === 1 ? "reply" : "replies"}`}
+        </Text>
+      </View>
+      <Text
+        className="text-[15px] font-semibold"
+        style={{ color: theme.colors.text, fontVariant: ["tabular-nums"] }}
+      >
+        {describeCost(totals)}
+      </Text>
+    </Pressable>
+  );
+}
+
+function UsageSection({ title, children }: { title: string; children: React.ReactNode }) {
+  const { theme } = useTheme();
+
+  return (
+    <View className="mx-4">
+      <Text
+        className="mb-2 px-1 text-[11px] font-semibold uppercase tracking-widest"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        {title}
+      </Text>
+      <View
+        className="overflow-hidden rounded-xl"
+        style={{ backgroundColor: theme.colors.surface }}
+      >
+        {children}
+      </View>
+    </View>
+  );
+}
+
+export default function UsageSettings() {
+  const { theme } = useTheme();
+  const db = useDatabase();
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
+  const [range, setRange] = useState<UsageRange>("30d");
+
+  const usageQuery = useQuery({
+    queryKey: usageQueryKeys.report(range),
+    queryFn: async () => buildUsageReport(listUsageRecords(db, getUsageRangeStart(range))),
+  });
+  const report = usageQuery.data;
+
+  const openModelPricing = (providerId: string, modelId: string) => {
+    router.push(
+      `/settings/model?provider=${encodeURIComponent(providerId)}&model=${encodeURIComponent(modelId)}` as any,
+    );
+  };
+
+  return (
+    <SettingsScreen title="Usage" contentContainerClassName="flex-grow gap-5 pt-5">
+      <Text
+        className="mx-4 text-[13px] leading-[19px]"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        Tokens are counted from what each provider reports. Costs use catalog prices where the provider publishes them; tap a model to enter its price. Every billed call counts, including compare columns you did not pick, context summaries and replies from deleted chats.
+      </Text>
+
+      <ChoiceGroup title="Period">
+        {RANGES.map((option) => (
+          <ChoiceChip
+            key={option}
+            label={RANGE_LABELS[option]}
+            selected={range === option}
+            onPress={() => setRange(option)}
+            testID={`usage-range-${option}`}
+          />
+        ))}
+      </ChoiceGroup>
+
+      {report && report.total.replies > 0 ? (
+        <>
+          <View
+            testID="usage-total"
+            className="mx-4 rounded-xl px-4 py-4"
+            style={{ backgroundColor: theme.colors.surface }}
+          >
+            <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+              Total
+            </Text>
+            <Text
+              className="mt-1 text-[28px] font-semibold"
+              style={{ color: theme.colors.text, fontVariant: ["tabular-nums"] }}
+            >
+              {formatUsageCost(report.total.cost)}
+            </Text>
+            <Text className="mt-1 text-[13px]" style={{ color: theme.colors.textSecondary }}>
+              {describeTokens(report.total)}
+            </Text>
+            {report.total.unpricedReplies > 0 ? (
+              <Text
+                testID="usage-unpriced-note"
+                className="mt-1 text-[12px]"
+                style={{ color: theme.colors.textSecondary }}
+              >
+                {`${report.total.unpricedReplies} ${report.total.unpricedReplies === 1 ? "reply has" : "replies have"} no price and ${report.total.unpricedReplies === 1 ? "is" : "are"} not in the total.`}
+              </Text>
+            ) : null}
+          </View>
+
+          <UsageSection title="By Day">
+            {report.byDay.map((entry, index) => (
+              <UsageRow
+                key={entry.day}
+                testID={`usage-day-${entry.day}`}
+                title={formatDayLabel(entry.day)}
+                totals={entry}
+                isFirst={index === 0}
+              />
+            ))}
+          </UsageSection>
+
+          <UsageSection title="By Provider">
+            {report.byProvider.map((entry, index) => (
+              <UsageRow
+                key={entry.providerId ?? "unknown"}
+                testID={`usage-provider-${entry.providerId ?? "unknown"}`}
+                title={entry.providerId ? getProviderName(entry.providerId, customEndpoints) : "Unknown"}
+                totals={entry}
+                isFirst={index === 0}
+              />
+            ))}
+          </UsageSection>
+
+          <UsageSection title="By Model">
+            {report.byModel.map((entry, index) => {
+              const { providerId, modelId } = entry;
+              const providerName = providerId ? getProviderName(providerId, customEndpoints) : "Unknown";
+
+              return (
+                <UsageRow
+                  key={`${providerId}:${modelId}`}
+                  testID={`usage-model-${providerId}-${modelId}`}
+                  title={modelId ? `${providerName} · ${modelId}` : providerName}
+                  totals={entry}
+                  isFirst={index === 0}
+                  onPress={providerId && modelId ? () => openModelPricing(providerId, modelId) : undefined}
+                />
+              );
+            })}
+          </UsageSection>
+        </>
+      ) : (
+        <View
+          className="mx-4 rounded-2xl px-4 py-3"
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Text className="text-[13px]" style={{ color: theme.colors.textSecondary }}>
+            {usageQuery.isLoading ? "Loading usage…" : "No replies with usage data in this period."}
+          </Text>
+        </View>
+      )}
+
+      <View className="h-2" />
+    </SettingsScreen>
+  );
+}
@@ -29,35 +29,70 @@ import {
 } from "react-native-gesture-handler";
 import { SymbolView } from "expo-symbols";
 import { useTheme } from "@/components/ui/ThemeProvider";
-import { useProviderStore, isProviderConfigured } from "@/stores";
+import { useAuthStore, useProviderStore, isProviderConfigured } from "@/stores";
 import { useSettingsStore } from "@/stores/useSettingsStore";
-import type { ThinkingLevel } from "@/types/chat.types";
+import type { ThinkingLevel, TurnModelSelection } from "@/types/chat.types";
 import {
   ProviderId,
-  PROVIDERS,
   isOllamaThinkingHintModel,
-  isThinkingCapableModel,
 } from "@/types/provider.types";
+import {
+  resolveModelCapabilities,
+  selectModelCapabilitySources,
+} from "@/lib/model-capabilities";
 import useHapticFeedback from "@/hooks/useHapticFeedback";
-import { getVisibleModelNames } from "@/lib/model-utils";
 import { ChatToolbarSheet } from "@/components/chat/context-menu/ChatToolbarSheet";
 import { ModelSelectionSheet } from "@/components/chat/context-menu/ModelSelectionSheet";
 import { OptionsSheet } from "@/components/chat/context-menu/OptionsSheet";
 import {
-  getDefaultModelsForProvider,
   getModelLabel,
+  getProviderName,
+  getSelectableModelsForProvider,
   getStoredModelValue,
 } from "@/components/chat/context-menu/utils";
 
 interface ChatContextMenuProps {
   onReset: () => void;
   onRename?: () => void;
+  /** Opens the per-chat system prompt editor from the options sheet */
+  onEditSystemPrompt?: () => void;
+  /** Subtitle for the system prompt row, e.g. the persona name */
+  systemPromptSummary?: string;
+  /** Running token and cost total for the chat, shown in the options sheet */
+  usageSummary?: string;
+  /** When set, the model sheet opens to pick a model for regenerating this message */
+  regenerateMessageIndex?: number | null;
+  onRegenerateSelect?: (providerId: ProviderId, modelId: string) => void;
+  /** Called whenever the regenerate picker closes, whether or not a model was chosen */
+  onRegenerateDismiss?: () => void;
+  /** Models picked for compare mode; the compare chip is hidden without a change handler */
+  compareSelections?: TurnModelSelection[];
+  onCompareSelectionsChange?: (selections: TurnModelSelection[]) => void;
+  /** Upper bound on compare selections */
+  maxCompareSelections?: number;
 }
 
 type ActiveSheet = "models" | "options" | null;
+/** What picking a model in the model sheet does */
+type ModelSheetMode = "select" | "regenerate" | "compare";
+
+const NO_COMPARE_SELECTIONS: TurnModelSelection[] = [];
+const DEFAULT_MAX_COMPARE_SELECTIONS = 4;
 
 // ─── Main component ───────────────────────────────────────────────────────────
-export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
+export function ChatContextMenu({
+  onReset,
+  onRename,
+  onEditSystemPrompt,
+  systemPromptSummary,
+  usageSummary,
+  regenerateMessageIndex = null,
+  onRegenerateSelect,
+  onRegenerateDismiss,
+  compareSelections = NO_COMPARE_SELECTIONS,
+  onCompareSelectionsChange,
+  maxCompareSelections = DEFAULT_MAX_COMPARE_SELECTIONS,
+}: ChatContextMenuProps) {
   const { theme } = useTheme();
   const { triggerPress } = useHapticFeedback();
 
@@ -67,9 +102,13 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
     customModels,
     hiddenModels,
     availableModels,
+    modelCatalogs,
+    catalogCapabilities,
+    capabilityOverrides,
     setSelectedProvider,
     setSelectedModel,
   } = useProviderStore();
+  const customEndpoints = useAuthStore((state) => state.customEndpoints);
 
   const thinkingEnabled = useSettingsStore((s) => s.thinkingEnabled);
   const setThinkingEnabled = useSettingsStore((s) => s.setThinkingEnabled);
@@ -83,7 +122,10 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
   const [modalMounted, setModalMounted] = useState(false);
   const [sheetProvider, setSheetProvider] =
     useState<ProviderId>(selectedProvider);
+  const [modelSheetMode, setModelSheetMode] = useState<ModelSheetMode>("select");
   const pendingCloseActionRef = useRef<(() => void) | null>(null);
+  const modelSheetModeRef = useRef<ModelSheetMode>("select");
+  const onRegenerateDismissRef = useRef(onRegenerateDismiss);
   const closeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Single shared value: 0 = fully open, positive = offset downward (closing/dragging)
@@ -99,25 +141,22 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
     opacity: interpolate(sheetY.value, [0, 300], [1, 0], Extrapolation.CLAMP),
   }));
 
+  useEffect(() => {
+    onRegenerateDismissRef.current = onRegenerateDismiss;
+  }, [onRegenerateDismiss]);
+
   useEffect(() => {
     if (activeSheet !== "models") setSheetProvider(selectedProvider);
   }, [activeSheet, selectedProvider]);
 
   const getModelsForProvider = useMemo(() => {
-    return (providerId: ProviderId): string[] => {
-      const defaultModels = getDefaultModelsForProvider(providerId);
-      const hidden = hiddenModels[providerId] || [];
-      const custom = customModels[providerId] || [];
-      const available = availableModels[providerId] || [];
-      if (providerId === "apple") return defaultModels;
-      const baseModels = providerId === "ollama" ? available : defaultModels;
-      return getVisibleModelNames({
-        baseModels,
-        customModels: custom,
-        hiddenModels: hidden,
-      });
-    };
-  }, [availableModels, customModels, hiddenModels]);
+    return (providerId: ProviderId): string[] => getSelectableModelsForProvider(providerId, {
+      availableModels,
+      customModels,
+      hiddenModels,
+      modelCatalogs,
+    });
+  }, [availableModels, customModels, hiddenModels, modelCatalogs]);
 
   const onDismissed = useCallback(() => {
     if (closeTimeoutRef.current) {
@@ -131,6 +170,13 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
     const action = pendingCloseActionRef.current;
     pendingCloseActionRef.current = null;
     action?.();
+
+    const closedMode = modelSheetModeRef.current;
+    modelSheetModeRef.current = "select";
+    setModelSheetMode("select");
+    if (closedMode === "regenerate") {
+      onRegenerateDismissRef.current?.();
+    }
   }, []);
 
   const closeSheet = useCallback(
@@ -193,16 +239,54 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
     [sheetY, triggerPress],
   );
 
-  const openModelSheet = () => {
-    setSheetProvider(selectedProvider);
-    openSheet("models");
-  };
+  const openModelSheetInMode = useCallback(
+    (mode: ModelSheetMode) => {
+      modelSheetModeRef.current = mode;
+      setModelSheetMode(mode);
+      setSheetProvider(selectedProvider);
+      openSheet("models");
+    },
+    [openSheet, selectedProvider],
+  );
+
+  const openModelSheet = () => openModelSheetInMode("select");
+  const openCompareSheet = () => openModelSheetInMode("compare");
+
+  useEffect(() => {
+    if (regenerateMessageIndex === null || modelSheetModeRef.current === "regenerate") {
+      return;
+    }
+
+    openModelSheetInMode("regenerate");
+  }, [openModelSheetInMode, regenerateMessageIndex]);
   const openOptionsSheet = () => openSheet("options");
 
   const handleModelSelect = (providerId: ProviderId, model: string) => {
     triggerPress("light");
+    const modelId = getStoredModelValue(providerId, model);
+    if (modelSheetModeRef.current === "regenerate") {
+      // Regenerating is a one-off: leave the chat's own model selection alone.
+      closeSheet(() => onRegenerateSelect?.(providerId, modelId));
+      return;
+    }
+
+    if (modelSheetModeRef.current === "compare") {
+      // Compare picks toggle in place so several models can be chosen in one visit.
+      const isPicked = compareSelections.some(
+        (entry) => entry.providerId === providerId && entry.modelId === modelId,
+      );
+      if (isPicked) {
+        onCompareSelectionsChange?.(compareSelections.filter(
+          (entry) => entry.providerId !== providerId || entry.modelId !== modelId,
+        ));
+      } else if (compareSelections.length < maxCompareSelections) {
+        onCompareSelectionsChange?.([...compareSelections, { providerId, modelId }]);
+      }
+      return;
+    }
+
     setSelectedProvider(providerId);
-    setSelectedModel(getStoredModelValue(providerId, model));
+    setSelectedModel(modelId);
     closeSheet();
   };
 
@@ -220,6 +304,10 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
     triggerPress("light");
     closeSheet(onRename);
   };
+  const handleEditSystemPrompt = () => {
+    triggerPress("light");
+    closeSheet(onEditSystemPrompt);
+  };
 
   const handleThinkingToggle = (value: boolean) => {
     triggerPress("light");
@@ -234,27 +322,49 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
   };
 
   const handleWebSearchToggle = () => {
+    if (!modelCapabilities.tools) return;
     triggerPress("light");
     setWebSearchEnabled(!webSearchEnabled);
   };
 
   const isModelSelected = (providerId: ProviderId, model: string): boolean => {
+    if (modelSheetMode === "compare") {
+      const modelId = getStoredModelValue(providerId, model);
+      return compareSelections.some(
+        (entry) => entry.providerId === providerId && entry.modelId === modelId,
+      );
+    }
     if (selectedProvider !== providerId) return false;
     if (providerId === "apple") return selectedModel === "system-default";
     return selectedModel === model;
   };
 
-  const modelLabel = getModelLabel(selectedProvider, selectedModel);
-  const providerLabel = PROVIDERS[selectedProvider]?.name ?? selectedProvider;
+  const modelLabel = getModelLabel(selectedProvider, selectedModel, customEndpoints);
+  const providerLabel = getProviderName(selectedProvider, customEndpoints);
   const activeModelLabel = providerLabel === modelLabel
     ? providerLabel
     : `${providerLabel} · ${modelLabel}`;
   const visibleModels = getModelsForProvider(sheetProvider);
+  const isCompareActive = compareSelections.length >= 2;
+  const modelSheetTitle = modelSheetMode === "regenerate"
+    ? "Regenerate With"
+    : modelSheetMode === "compare"
+      ? `Compare Models (${compareSelections.length}/${maxCompareSelections})`
+      : undefined;
   const providerConfigured = isProviderConfigured(sheetProvider);
-  const isThinkingLevelAvailable = isThinkingCapableModel(
+  const modelCapabilities = resolveModelCapabilities(
     selectedProvider,
     selectedModel ?? "",
+    selectModelCapabilitySources(
+      selectedProvider,
+      selectedModel ?? "",
+      catalogCapabilities,
+      capabilityOverrides,
+    ),
   );
+  const isThinkingLevelAvailable = modelCapabilities.reasoning;
+  // Web search runs as a tool call, so models without tool support can't use it.
+  const isWebSearchActive = webSearchEnabled && modelCapabilities.tools;
   const showOllamaThinkingHint =
     selectedProvider === "ollama" &&
     isOllamaThinkingHintModel(selectedModel ?? "");
@@ -334,19 +444,28 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
         <TouchableOpacity
           testID="chat-toolbar-web-toggle"
           onPress={handleWebSearchToggle}
+          disabled={!modelCapabilities.tools}
           activeOpacity={0.65}
-          style={webSearchEnabled ? activeChip : inactiveChip}
+          style={[
+            isWebSearchActive ? activeChip : inactiveChip,
+            !modelCapabilities.tools && { opacity: 0.45 },
+          ]}
           accessibilityRole="button"
           accessibilityLabel={
-            webSearchEnabled ? "Disable web search" : "Enable web search"
+            !modelCapabilities.tools
+              ? "Web search is unavailable because this model does not support tools"
+              : webSearchEnabled ? "Disable web search" : "Enable web search"
           }
-          accessibilityState={{ selected: webSearchEnabled }}
+          accessibilityState={{
+            selected: isWebSearchActive,
+            disabled: !modelCapabilities.tools,
+          }}
         >
           <SymbolView
             name="globe"
             size={14}
             tintColor={
-              webSearchEnabled
+              isWebSearchActive
                 ? theme.colors.accent
                 : theme.colors.textSecondary
             }
@@ -355,7 +474,7 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
             style={[
               chipLabel,
               {
-                color: webSearchEnabled
+                color: isWebSearchActive
                   ? theme.colors.accent
                   : theme.colors.textSecondary,
               },
@@ -365,6 +484,38 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
           </Text>
         </TouchableOpacity>
 
+        {/* Compare chip — picks 2+ models to answer the next message side by side */}
+        {onCompareSelectionsChange ? (
+          <TouchableOpacity
+            testID="chat-toolbar-compare-trigger"
+            onPress={openCompareSheet}
+            activeOpacity={0.65}
+            style={isCompareActive ? activeChip : inactiveChip}
+            accessibilityRole="button"
+            accessibilityLabel={
+              isCompareActive
+                ? `Compare mode: ${compareSelections.length} models. Tap to change.`
+                : "Compare models side by side"
+            }
+            accessibilityState={{ selected: isCompareActive }}
+          >
+            <SymbolView
+              name="rectangle.split.2x1"
+              size={14}
+              tintColor={
+                isCompareActive
+                  ? theme.colors.accent
+                  : theme.colors.textSecondary
+              }
+            />
+            {isCompareActive ? (
+              <Text style={[chipLabel, { color: theme.colors.accent }]}>
+                {compareSelections.length}
+              </Text>
+            ) : null}
+          </TouchableOpacity>
+        ) : null}
+
         {/* Thinking level chip — only visible when model supports it */}
         {isThinkingLevelAvailable ? (
           <TouchableOpacity
@@ -416,7 +567,9 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
         >
           {activeSheet === "models" ? (
             <ModelSelectionSheet
+              title={modelSheetTitle}
               sheetProvider={sheetProvider}
+              customEndpoints={customEndpoints}
               visibleModels={visibleModels}
               providerConfigured={providerConfigured}
               onProviderBrowse={handleProviderBrowse}
@@ -429,6 +582,9 @@ export function ChatContextMenu({ onReset, onRename }: ChatContextMenuProps) {
               thinkingEnabled={thinkingEnabled}
               showOllamaThinkingHint={showOllamaThinkingHint}
               onRename={handleRename}
+              onEditSystemPrompt={onEditSystemPrompt ? handleEditSystemPrompt : undefined}
+              systemPromptSummary={systemPromptSummary}
+              usageSummary={usageSummary}
               onReset={handleReset}
               onThinkingToggle={handleThinkingToggle}
               dividerColor={dividerColor}
@@ -0,0 +1,87 @@
+/**
+ * @file ChatSearchResultItem.tsx
+ * @purpose Renders a single full-text search hit in the chat list with its
+ * chat title and a snippet whose matched terms are highlighted.
+ */
+
+import React from "react";
+import { Pressable, Text, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { getChatTitleForDisplay } from "@/lib/chat-title";
+import { splitHighlightedSnippet, type ChatSearchResult } from "@/lib/chat-search";
+
+interface ChatSearchResultItemProps {
+    result: ChatSearchResult;
+    onOpen: (result: ChatSearchResult) => void;
+}
+
+export const ChatSearchResultItem: React.FC<ChatSearchResultItemProps> = ({
+    result,
+    onOpen,
+}) => {
+    const { theme } = useTheme();
+    const displayTitle = getChatTitleForDisplay(result.title);
+    const segments = splitHighlightedSnippet(result.snippet);
+    const matchLabel = result.messageIndex === null ? "Title" : `Message ${result.messageIndex + 1}`;
+
+    return (
+        <Pressable
+            testID={`chat-search-result-${result.chatId}-${result.messageIndex ?? "title"}`}
+            onPress={() => onOpen(result)}
+            accessibilityRole="button"
+            accessibilityLabel={`Open search result in ${displayTitle}`}
+            style={({ pressed }) => ({
+                opacity: pressed ? 0.6 : 1,
+                paddingHorizontal: 20,
+                paddingVertical: 6,
+            })}
+        >
+            {/* ROW BACKGROUND - Matches the chat list row container */}
+            <View
+                className="rounded-lg justify-center border"
+                style={{
+                    borderColor: theme.colors.border,
+                    backgroundColor: theme.colors.surface,
+                    paddingHorizontal: 20,
+                    paddingVertical: 14,
+                }}
+            >
+                {/* HEADER SECTION - Chat title and where the match was found */}
+                <View className="flex-row justify-between items-center mb-1.5">
+                    <Text
+                        className="text-[15px] font-bold flex-1 mr-2 tracking-tight"
+                        style={{ color: theme.colors.text }}
+                        numberOfLines={1}
+                    >
+                        {displayTitle}
+                    </Text>
+                    <Text
+                        className="text-[11px] font-medium"
+                        style={{ color: theme.colors.textSecondary }}
+                    >
+                        {matchLabel}
+                    </Text>
+                </View>
+
+                {/* SNIPPET SECTION - Matched terms rendered in the accent color */}
+                <Text
+                    className="text-[14px] leading-[18px]"
+                    style={{ color: theme.colors.textSecondary }}
+                    numberOfLines={3}
+                >
+                    {segments.map((segment, index) => (
+                        <Text
+                            key={index}
+                            style={segment.highlighted
+                                ? { color: theme.colors.accent, fontWeight: "600" }
+                                : undefined}
+                        >
+                            {segment.text}
+                        </Text>
+                    ))}
+                </Text>
+            </View>
+        </Pressable>
+    );
+};
@@ -0,0 +1,182 @@
+/**
+ * @file CitationPreviewSheet.tsx
+ * @purpose Bottom sheet shown when a [n] citation chip is tapped: the cited
+ * source's title, snippet, engine and date, or a warning when the number
+ * matches nothing web search returned. Document library passages have no
+ * page to open, so they show their collection and position instead.
+ */
+
+import React from "react";
+import { Linking, Modal, Pressable, Text, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import type { ChatWebSearchSource } from "@/types/chat.types";
+
+interface CitationPreviewSheetProps {
+    /** Number on the tapped chip; null hides the sheet */
+    citationNumber: number | null;
+    /** Null when the citation points at nothing */
+    source: ChatWebSearchSource | null;
+    onClose: () => void;
+}
+
+const formatSourceDetails = (source: ChatWebSearchSource): string | null => {
+    const details = [source.byline, source.engine, source.publishedDate].filter(
+        (detail): detail is string => !!detail,
+    );
+    return details.length > 0 ? details.join(" · ") : null;
+};
+
+export function CitationPreviewSheet({
+    citationNumber,
+    source,
+    onClose,
+}: CitationPreviewSheetProps) {
+    const { theme } = useTheme();
+    const errorColor = theme.colors.error;
+    const details = source ? formatSourceDetails(source) : null;
+
+    const handleOpen = () => {
+        if (!source) {
+            return;
+        }
+
+        onClose();
+        void Linking.openURL(source.url).catch(() => undefined);
+    };
+
+    return (
+        <Modal
+            animationType="slide"
+            transparent
+            visible={citationNumber !== null}
+            onRequestClose={onClose}
+        >
+            <View
+                className="flex-1 justify-end"
+                style={{ backgroundColor: "rgba(0, 0, 0, 0.35)" }}
+            >
+                <Pressable
+                    style={{
+                        position: "absolute",
+                        top: 0,
+                        left: 0,
+                        right: 0,
+                        bottom: 0,
+                    }}
+                    onPress={onClose}
+                    accessibilityLabel="Close source preview"
+                />
+
+                <View
+                    testID="citation-preview-sheet"
+                    style={{
+                        backgroundColor: theme.colors.surface,
+                        borderColor: theme.colors.border,
+                        borderWidth: 1,
+                        borderTopLeftRadius: 20,
+                        borderTopRightRadius: 20,
+                        paddingHorizontal: 20,
+                        paddingTop: 16,
+                        paddingBottom: 36,
+                    }}
+                >
+                    <Text
+                        style={{
+                            color: source ? theme.colors.textSecondary : errorColor,
+                            fontSize: 12,
+                            fontWeight: "600",
+                            textTransform: "uppercase",
+                            letterSpacing: 0.3,
+                        }}
+                    >
+                        {source ? `Source ${citationNumber}` : `Unknown source ${citationNumber}`}
+                    </Text>
+
+                    {source ? (
+                        <>
+                            <Text
+                                style={{
+                                    color: theme.colors.text,
+                                    fontSize: 18,
+                                    fontWeight: "600",
+                                    marginTop: 6,
+                                }}
+                            >
+                                {source.title}
+                            </Text>
+                            {details ? (
+                                <Text
+                                    testID="citation-preview-details"
+                                    style={{
+                                        color: theme.colors.textSecondary,
+                                        fontSize: 12,
+                                        marginTop: 4,
+                                    }}
+                                >
+                                    {details}
+                                </Text>
+                            ) : null}
+                            {source.snippet ? (
+                                <Text
+                                    style={{
+                                        color: theme.colors.text,
+                                        fontSize: 14,
+                                        lineHeight: 20,
+                                        marginTop: 12,
+                                    }}
+                                    numberOfLines={6}
+                                >
+                                    {source.snippet}
+                                </Text>
+                            ) : null}
+                            {source.documentId === undefined ? (
+                                <>
+                                    <Text
+                                        style={{
+                                            color: theme.colors.textSecondary,
+                                            fontSize: 12,
+                                            marginTop: 12,
+                                        }}
+                                        numberOfLines={1}
+                                    >
+                                        {source.url}
+                                    </Text>
+                                    <Pressable
+                                        testID="citation-preview-open"
+                                        accessibilityRole="link"
+                                        onPress={handleOpen}
+                                        className="mt-4 items-center rounded-xl py-3"
+                                        style={{ backgroundColor: theme.colors.accent }}
+                                    >
+                                        <Text
+                                            style={{
+                                                color: theme.isDark ? theme.colors.overlayForeground : theme.colors.surface,
+                                                fontSize: 15,
+                                                fontWeight: "600",
+                                            }}
+                                        >
+                                            Open Page
+                                        </Text>
+                                    </Pressable>
+                                </>
+                            ) : null}
+                        </>
+                    ) : (
+                        <Text
+                            style={{
+                                color: theme.colors.text,
+                                fontSize: 14,
+                                lineHeight: 20,
+                                marginTop: 8,
+                            }}
+                        >
+                            No search or page read in this reply returned a source with this number, so the
+                            model may have made this reference up.
+                        </Text>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+}
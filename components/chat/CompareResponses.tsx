@@ -0,0 +1,179 @@
+/**
+ * @file CompareResponses.tsx
+ * @purpose Swipeable cards showing each compare-mode answer as it streams, with
+ * per-card cancel and a button to keep one answer as the chat's reply.
+ */
+
+import React from "react";
+import {
+    ScrollView,
+    Text,
+    TouchableOpacity,
+    View,
+    useWindowDimensions,
+} from "react-native";
+import { MessageBubble } from "./MessageBubble";
+import { useTheme } from "@/components/ui/ThemeProvider";
+import type { CompareLane } from "@/hooks/chat/useChatCompare";
+import {
+    createModelAnnotation,
+    formatModelAnnotationLabel,
+} from "@/lib/chat-model-annotations";
+import type { StreamState } from "@/hooks/chat/useStreamLifecycle";
+import { useAuthStore } from "@/stores";
+
+interface CompareResponsesProps {
+    /** One entry per model being compared */
+    lanes: CompareLane[];
+    /** Keep the answer of the lane at this index and continue the chat from it */
+    onPick: (laneIndex: number) => void;
+    /** Throw every answer away without adding the turn to the chat */
+    onDiscard: () => void;
+}
+
+const CARD_GUTTER = 12;
+
+const STATUS_LABELS: Record<StreamState, string> = {
+    idle: "Waiting",
+    streaming: "Streaming",
+    completing: "Finishing",
+    completed: "Done",
+    error: "Failed",
+    cancelled: "Stopped",
+};
+
+const isLaneActive = (lane: CompareLane): boolean => (
+    lane.streamState === "streaming" || lane.streamState === "completing"
+);
+
+/**
+ * CompareResponses Component
+ *
+ * Renders below the conversation while a compare-mode turn is pending. Cards
+ * page horizontally so each answer gets the full width of a phone screen.
+ */
+export const CompareResponses: React.FC<CompareResponsesProps> = ({
+    lanes,
+    onPick,
+    onDiscard,
+}) => {
+    const { theme } = useTheme();
+    const { width } = useWindowDimensions();
+    const customEndpoints = useAuthStore((state) => state.customEndpoints);
+    const cardWidth = Math.max(240, width - CARD_GUTTER * 4);
+    const secondaryColor = theme.colors.textSecondary ?? theme.colors.text;
+
+    if (lanes.length === 0) {
+        return null;
+    }
+
+    return (
+        <View className="mb-2" testID="compare-responses">
+            <View
+                className="flex-row items-center justify-between"
+                style={{ paddingHorizontal: CARD_GUTTER * 2, marginBottom: 8 }}
+            >
+                <Text style={{ color: secondaryColor, fontSize: 13, fontWeight: "600" }}>
+                    {`Comparing ${lanes.length} models`}
+                </Text>
+                <TouchableOpacity
+                    onPress={onDiscard}
+                    accessibilityRole="button"
+                    accessibilityLabel="Discard compared answers"
+                    testID="compare-discard"
+                >
+                    <Text style={{ color: secondaryColor, fontSize: 13 }}>
+                        Discard
+                    </Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                snapToInterval={cardWidth + CARD_GUTTER}
+                decelerationRate="fast"
+                contentContainerStyle={{ paddingHorizontal: CARD_GUTTER * 2, gap: CARD_GUTTER }}
+            >
+                {lanes.map((lane, index) => {
+                    const isActive = isLaneActive(lane);
+                    const modelLabel = formatModelAnnotationLabel(
+                        createModelAnnotation(lane.selection.providerId, lane.selection.modelId),
+                        customEndpoints,
+                    );
+
+                    return (
+                        <View
+                            key={`${lane.selection.providerId}-${lane.selection.modelId}-${index}`}
+                            style={{
+                                width: cardWidth,
+                                borderRadius: theme.borderRadius.lg,
+                                borderWidth: 1,
+                                borderColor: lane.isError ? theme.colors.error : theme.colors.border,
+                                backgroundColor: theme.colors.surface,
+                                paddingVertical: 10,
+                            }}
+                            testID={`compare-lane-${index}`}
+                        >
+                            <View className="flex-row items-center justify-between px-3 mb-1">
+                                <Text
+                                    numberOfLines={1}
+                                    style={{ color: theme.colors.text, fontSize: 14, fontWeight: "600", flexShrink: 1 }}
+                                >
+                                    {modelLabel}
+                                </Text>
+                                <View className="flex-row items-center">
+                                    <Text
+                                        style={{ color: lane.isError ? theme.colors.error : secondaryColor, fontSize: 12 }}
+                                        testID={`compare-lane-status-${index}`}
+                                    >
+                                        {STATUS_LABELS[lane.streamState]}
+                                    </Text>
+                                    {isActive ? (
+                                        <TouchableOpacity
+                                            onPress={lane.cancel}
+                                            accessibilityRole="button"
+                                            accessibilityLabel={`Stop ${modelLabel}`}
+                                            className="ml-3"
+                                            testID={`compare-lane-cancel-${index}`}
+                                        >
+                                            <Text style={{ color: theme.colors.accent, fontSize: 12, fontWeight: "600" }}>
+                                                Stop
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ) : null}
+                                </View>
+                            </View>
+
+                            <MessageBubble
+                                content={lane.reply.content}
+                                isUser={false}
+                                isStreaming={isActive}
+                                thinkingOutput={lane.thinkingOutput}
+                                isError={lane.isError}
+                            />
+
+                            <TouchableOpacity
+                                onPress={() => onPick(index)}
+                                disabled={isActive}
+                                accessibilityRole="button"
+                                accessibilityLabel={`Use the answer from ${modelLabel}`}
+                                accessibilityState={{ disabled: isActive }}
+                                className="mx-3 mt-2 items-center rounded-lg py-2"
+                                style={{
+                                    backgroundColor: theme.colors.accent,
+                                    opacity: isActive ? 0.4 : 1,
+                                }}
+                                testID={`compare-lane-pick-${index}`}
+                            >
+                                <Text style={{ color: "#ffffff", fontSize: 14, fontWeight: "600" }}>
+                                    Use this answer
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </View>
+    );
+};
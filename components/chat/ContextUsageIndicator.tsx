@@ -0,0 +1,78 @@
+/**
+ * @file ContextUsageIndicator.tsx
+ * @purpose Header badge showing how much of the model's context window the next request will fill.
+ */
+
+import React from "react";
+import { Text, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { withAlpha } from "@/lib/color-utils";
+
+interface ContextUsageIndicatorProps {
+  usedTokens: number;
+  /** Model context size; the badge is hidden when it is unknown */
+  contextTokens: number | null;
+  /** Messages the budgeter currently leaves out of the request */
+  omittedCount?: number;
+}
+
+/** Share of the window at which the badge switches to the warning colour */
+const HIGH_USAGE_RATIO = 0.8;
+
+const formatTokenCount = (tokens: number): string => {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}K` : String(tokens);
+};
+
+export function ContextUsageIndicator({
+  usedTokens,
+  contextTokens,
+  omittedCount = 0,
+}: ContextUsageIndicatorProps) {
+  const { theme } = useTheme();
+
+  if (!contextTokens || contextTokens <= 0) {
+    return null;
+  }
+
+  const ratio = Math.min(1, usedTokens / contextTokens);
+  const percent = Math.round(ratio * 100);
+  const color = ratio >= HIGH_USAGE_RATIO
+    ? theme.colors.error
+    : theme.colors.textSecondary ?? theme.colors.text;
+  const omittedLabel = omittedCount > 0
+    ? `, ${omittedCount} older message${omittedCount === 1 ? "" : "s"} left out`
+    : "";
+
+  return (
+    <View
+      testID="chat-context-usage"
+      accessible
+      accessibilityLabel={`Context ${percent}% full, about ${formatTokenCount(usedTokens)} of ${formatTokenCount(contextTokens)} tokens${omittedLabel}`}
+      className="flex-row items-center rounded-full px-2 py-0.5"
+      style={{
+        borderWidth: 1,
+        borderColor: withAlpha(color, 0.5, color),
+      }}
+    >
+      <Text
+        style={{
+          color,
+          fontSize: 12,
+          fontWeight: "600",
+          fontVariant: ["tabular-nums"],
+        }}
+      >
+        {`${percent}%`}
+      </Text>
+      {omittedCount > 0 ? (
+        <Text
+          testID="chat-context-usage-trimmed"
+          style={{ color, fontSize: 11, marginLeft: 4 }}
+        >
+          {`−${omittedCount}`}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
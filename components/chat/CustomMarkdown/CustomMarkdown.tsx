@@ -1,14 +1,22 @@
-import React, { useCallback, useMemo } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { Linking, StyleSheet, Text, View, type ViewStyle } from "react-native";
 import { EnrichedMarkdownText } from "react-native-enriched-markdown";
+import { CitationPreviewSheet } from "@/components/chat/CitationPreviewSheet";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { coerceMessageContentToString } from "@/lib/chat-message-normalization";
+import { linkifyCitations, parseCitationLink } from "@/lib/citations";
+import type { ChatWebSearchSource } from "@/types/chat.types";
 import { createMarkdownStyles } from "./styles/markdownStyles";
 
 interface CustomMarkdownProps {
     content: unknown;
     style?: ViewStyle;
     isUser?: boolean;
+    /**
+     * Web search sources by citation number. When set, [n] markers render as
+     * chips that open a preview of the source.
+     */
+    citationSources?: ReadonlyMap<number, ChatWebSearchSource>;
 }
 
 interface MarkdownErrorBoundaryState {
@@ -57,16 +65,28 @@ const CustomMarkdownInner: React.FC<CustomMarkdownProps> = ({
     content,
     style,
     isUser = false,
+    citationSources,
 }) => {
     const { theme } = useTheme();
     const normalizedContent = content as string;
     const markdownStyles = useMemo(() => createMarkdownStyles(theme), [theme]);
+    const [activeCitation, setActiveCitation] = useState<number | null>(null);
+    const markdown = useMemo(
+        () => (citationSources ? linkifyCitations(normalizedContent, citationSources) : normalizedContent),
+        [citationSources, normalizedContent]
+    );
 
     const handleLinkPress = useCallback(async ({ url }: { url: string }) => {
         if (!url) {
             return;
         }
 
+        const citationNumber = parseCitationLink(url);
+        if (citationNumber !== null) {
+            setActiveCitation(citationNumber);
+            return;
+        }
+
         try {
             const canOpenUrl = await Linking.canOpenURL(url);
             if (canOpenUrl) {
@@ -83,13 +103,20 @@ const CustomMarkdownInner: React.FC<CustomMarkdownProps> = ({
             style={[styles.container, isUser ? styles.containerUser : null, style]}
         >
             <EnrichedMarkdownText
-                markdown={normalizedContent}
+                markdown={markdown}
                 flavor="github"
                 markdownStyle={markdownStyles}
                 onLinkPress={handleLinkPress}
                 allowTrailingMargin={false}
                 containerStyle={isUser ? styles.markdownLayerUser : styles.markdownLayerAssistant}
             />
+            {citationSources ? (
+                <CitationPreviewSheet
+                    citationNumber={activeCitation}
+                    source={activeCitation !== null ? citationSources.get(activeCitation) ?? null : null}
+                    onClose={() => setActiveCitation(null)}
+                />
+            ) : null}
         </View>
     );
 };
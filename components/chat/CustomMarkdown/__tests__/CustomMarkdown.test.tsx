@@ -1,5 +1,5 @@
 import React from "react";
-import { render } from "@testing-library/react-native";
+import { act, render } from "@testing-library/react-native";
 import { StyleSheet } from "react-native";
 import { CustomMarkdown } from "../CustomMarkdown";
 
@@ -79,4 +79,46 @@ describe("CustomMarkdown", () => {
     const latestCall = mockEnrichedMarkdown.mock.calls.at(-1);
     expect(latestCall?.[0].markdown).toBe("Object content");
   });
+
+  it("renders citations as chips that open a preview of the source", () => {
+    const citationSources = new Map([
+      [1, {
+        title: "Tide tables",
+        url: "https://tides.example.com",
+        snippet: "High water at 06:12.",
+        engine: "brave",
+        publishedDate: "2026-03-01",
+        citationNumber: 1,
+      }],
+    ]);
+
+    const { getByText, getByTestId } = render(
+      <CustomMarkdown content="High tide is at six [1], see `data[1]`." citationSources={citationSources} />
+    );
+
+    const props = mockEnrichedMarkdown.mock.calls.at(-1)?.[0];
+    expect(props.markdown).toBe("High tide is at six [`1`](seabreeze-citation:1), see `data[1]`.");
+
+    act(() => {
+      props.onLinkPress({ url: "seabreeze-citation:1" });
+    });
+
+    expect(getByText("Source 1")).toBeTruthy();
+    expect(getByText("Tide tables")).toBeTruthy();
+    expect(getByText("High water at 06:12.")).toBeTruthy();
+    expect(getByTestId("citation-preview-details").props.children).toBe("brave · 2026-03-01");
+  });
+
+  it("flags citations that point at no source", () => {
+    const { getByText } = render(<CustomMarkdown content="Made up [7]." citationSources={new Map()} />);
+
+    const props = mockEnrichedMarkdown.mock.calls.at(-1)?.[0];
+    expect(props.markdown).toBe("Made up [`7?`](seabreeze-citation:7).");
+
+    act(() => {
+      props.onLinkPress({ url: "seabreeze-citation:7" });
+    });
+
+    expect(getByText("Unknown source 7")).toBeTruthy();
+  });
 });
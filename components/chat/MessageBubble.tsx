@@ -4,17 +4,28 @@
  * Handles both user and AI messages with different styling, streaming states, and markdown rendering.
  */
 
-import React, { memo, useCallback, useEffect, useState } from "react";
-import { ActivityIndicator, Linking, Pressable, Text, View, ViewStyle } from "react-native";
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Linking, Pressable, Text, TextInput, View, ViewStyle } from "react-native";
 import { Image } from "expo-image";
 import type { ModelMessage } from "ai";
 
 import { CustomMarkdown } from "./CustomMarkdown/CustomMarkdown";
+import { ToolCallsCard } from "./ToolCallsCard";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { parseMessageContent } from "@/lib/chat-content-parts";
-import { isImageMediaType, isVideoMediaType } from "@/lib/chat-attachments";
+import {
+  formatDocumentDetails,
+  isDocumentMediaType,
+  isImageMediaType,
+  isVideoMediaType,
+} from "@/lib/chat-attachments";
+import { collectCitationSources, findUnmatchedCitations } from "@/lib/citations";
 import { withAlpha } from "@/lib/color-utils";
-import type { ChatWebSearchAnnotation } from "@/types/chat.types";
+import type {
+  ChatToolCallAnnotation,
+  ChatWebSearchAnnotation,
+  ChatWebSearchQueryRun,
+} from "@/types/chat.types";
 
 /**
  * Props interface for MessageBubble component
@@ -23,6 +34,17 @@ import type { ChatWebSearchAnnotation } from "@/types/chat.types";
  * @property {boolean} isUser - Flag indicating if the message is from the user (true) or AI assistant (false)
  * @property {boolean} [isStreaming=false] - Optional flag indicating if the message is currently streaming
  * @property {ViewStyle} [style] - Optional additional styles to apply to the container
+ * @property {number} [messageIndex] - Position of the message, passed back to the edit/branch callbacks
+ * @property {Function} [onEditMessage] - Enables inline editing of a user message; called with the new text
+ * @property {number} [branchIndex] - Zero-based variant shown when this message is a fork point
+ * @property {number} [branchCount] - Number of variants at this fork point (pager shows when > 1)
+ * @property {Function} [onSwitchBranch] - Called with the variant to show when paging between branches
+ * @property {ChatToolCallAnnotation|null} [toolCalls] - Audit record of the tool calls made while producing the reply
+ * @property {string|null} [modelLabel] - Provider and model a regenerated reply came from
+ * @property {string|null} [fallbackLabel] - Providers the reply fell back from, and why
+ * @property {Function} [onRegenerateMessage] - Enables "Regenerate with…" on an assistant message
+ * @property {boolean} [isPinned=false] - Whether the message is kept when older turns are trimmed
+ * @property {Function} [onTogglePin] - Enables the Pin/Unpin action
  */
 interface MessageBubbleProps {
   content: ModelMessage["content"];
@@ -30,8 +52,19 @@ interface MessageBubbleProps {
   isStreaming?: boolean;
   thinkingOutput?: string;
   webSearch?: ChatWebSearchAnnotation | null;
+  toolCalls?: ChatToolCallAnnotation | null;
   isError?: boolean;
   style?: ViewStyle;
+  messageIndex?: number;
+  onEditMessage?: (messageIndex: number, text: string) => void;
+  branchIndex?: number;
+  branchCount?: number;
+  onSwitchBranch?: (messageIndex: number, variantIndex: number) => void;
+  modelLabel?: string | null;
+  fallbackLabel?: string | null;
+  onRegenerateMessage?: (messageIndex: number) => void;
+  isPinned?: boolean;
+  onTogglePin?: (messageIndex: number) => void;
 }
 
 const formatSearchSummary = (webSearch: ChatWebSearchAnnotation): string => {
@@ -39,14 +72,65 @@ const formatSearchSummary = (webSearch: ChatWebSearchAnnotation): string => {
     return "Searching the web";
   }
 
-  const queryLabel = webSearch.queries.length === 1 ? "query" : "queries";
-  const sourceLabel = webSearch.totalSources === 1 ? "source" : "sources";
+  const searches = webSearch.queries.filter((queryRun) => !queryRun.kind || queryRun.kind === "search");
+  const reads = webSearch.queries.filter((queryRun) => queryRun.kind === "read");
+  const documentRuns = webSearch.queries.filter((queryRun) => queryRun.kind === "documents");
+  const passages = documentRuns.reduce((total, queryRun) => total + queryRun.sources.length, 0);
+  const documentSummary = documentRuns.length === 0
+    ? null
+    : `${passages} ${passages === 1 ? "passage" : "passages"} from your documents`;
+  const pagesRead = reads.filter((queryRun) => queryRun.status === "success").length;
+  const readSummary = reads.length === 0
+    ? null
+    : pagesRead === 0
+      ? `${reads.length} ${reads.length === 1 ? "page" : "pages"} not read`
+      : `${pagesRead} ${pagesRead === 1 ? "page" : "pages"} read`;
 
-  if (webSearch.status === "error" && webSearch.totalSources === 0) {
-    return `${webSearch.queries.length} ${queryLabel} attempted`;
+  if (searches.length === 0) {
+    return [documentSummary, readSummary].filter(Boolean).join(", ");
   }
 
-  return `${webSearch.totalSources} ${sourceLabel} from ${webSearch.queries.length} ${queryLabel}`;
+  const searchSources = searches.reduce((total, queryRun) => total + queryRun.sources.length, 0);
+  const queryLabel = searches.length === 1 ? "query" : "queries";
+  const sourceLabel = searchSources === 1 ? "source" : "sources";
+  const searchSummary = webSearch.status === "error" && searchSources === 0
+    ? `${searches.length} ${queryLabel} attempted`
+    : `${searchSources} ${sourceLabel} from ${searches.length} ${queryLabel}`;
+
+  return [searchSummary, documentSummary, readSummary].filter(Boolean).join(", ");
+};
+
+/** "Documents" when only the library was searched, "Sources" when it was mixed with the web */
+const formatSearchPanelTitle = (webSearch: ChatWebSearchAnnotation): string => {
+  const documentRuns = webSearch.queries.filter((queryRun) => queryRun.kind === "documents").length;
+  if (documentRuns === 0) {
+    return "Web Search";
+  }
+  return documentRuns === webSearch.queries.length ? "Documents" : "Sources";
+};
+
+/** Section label for one run: the query, or the page a readUrl call opened */
+const formatQueryRunLabel = (queryRun: ChatWebSearchQueryRun): string => {
+  switch (queryRun.kind) {
+    case "read":
+      return `Read · ${queryRun.query}`;
+    case "documents":
+      return `Documents · ${queryRun.query}`;
+    default:
+      return queryRun.query;
+  }
+};
+
+/** What the collapsed header shows while a run is still going */
+const formatRunningQueryLabel = (queryRun: ChatWebSearchQueryRun): string => {
+  switch (queryRun.kind) {
+    case "read":
+      return `Reading ${queryRun.query}`;
+    case "documents":
+      return `Searching documents for ${queryRun.query}`;
+    default:
+      return queryRun.query;
+  }
 };
 
 /**
@@ -63,7 +147,26 @@ const formatSearchSummary = (webSearch: ChatWebSearchAnnotation): string => {
  * - Theme-aware styling with responsive width constraints
  */
 export const MessageBubble: React.FC<MessageBubbleProps> = memo(
-  ({ content, isUser, isStreaming = false, thinkingOutput, webSearch = null, isError = false, style }) => {
+  ({
+    content,
+    isUser,
+    isStreaming = false,
+    thinkingOutput,
+    webSearch = null,
+    toolCalls = null,
+    isError = false,
+    style,
+    messageIndex = 0,
+    onEditMessage,
+    branchIndex = 0,
+    branchCount = 1,
+    onSwitchBranch,
+    modelLabel = null,
+    fallbackLabel = null,
+    onRegenerateMessage,
+    isPinned = false,
+    onTogglePin,
+  }) => {
     // ========== Hooks Section ==========
     // Retrieve theme colors and spacing values for consistent styling across the app
     const { theme } = useTheme();
@@ -72,6 +175,8 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
     const [hasAutoExpandedThinking, setHasAutoExpandedThinking] = useState(false);
     const [isWebSearchExpanded, setIsWebSearchExpanded] = useState(false);
     const [hasAutoExpandedWebSearch, setHasAutoExpandedWebSearch] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editDraft, setEditDraft] = useState("");
     const parsedContent = parseMessageContent(content);
     const mediaImageParts = [
       ...parsedContent.images,
@@ -95,6 +200,21 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
     const errorBackgroundColor = withAlpha(errorColor, 0.14, "rgba(220, 38, 38, 0.14)");
     const latestSearchQuery = hasWebSearch ? webSearch.queries[webSearch.queries.length - 1] : null;
     const isSearchRunning = webSearch?.status === "searching";
+    // Replies without web search keep [n] as plain text; it may be an array index or a footnote
+    const citationSources = useMemo(
+      () => (hasWebSearch ? collectCitationSources(webSearch) : undefined),
+      [hasWebSearch, webSearch],
+    );
+    const unmatchedCitations = useMemo(
+      () => (citationSources && !isStreaming ? findUnmatchedCitations(normalizedContent, citationSources) : []),
+      [citationSources, isStreaming, normalizedContent],
+    );
+    const canEdit = isUser && onEditMessage !== undefined;
+    const hasBranches = branchCount > 1 && onSwitchBranch !== undefined;
+    const canRegenerate = !isUser && !isStreaming && onRegenerateMessage !== undefined;
+    const hasModelLabel = !isUser && modelLabel !== null && modelLabel.length > 0;
+    const canPin = !isStreaming && !isEditing && onTogglePin !== undefined;
+    const canSubmitEdit = editDraft.trim().length > 0 && editDraft.trim() !== normalizedContent.trim();
 
     const toggleThinkingOutput = useCallback(() => {
       setIsThinkingExpanded((prev) => !prev);
@@ -108,6 +228,52 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
       void Linking.openURL(url).catch(() => undefined);
     }, []);
 
+    const startEditing = useCallback(() => {
+      setEditDraft(normalizedContent);
+      setIsEditing(true);
+    }, [normalizedContent]);
+
+    const cancelEditing = useCallback(() => {
+      setIsEditing(false);
+      setEditDraft("");
+    }, []);
+
+    const submitEdit = useCallback(() => {
+      if (!onEditMessage || !canSubmitEdit) {
+        return;
+      }
+
+      setIsEditing(false);
+      onEditMessage(messageIndex, editDraft);
+    }, [canSubmitEdit, editDraft, messageIndex, onEditMessage]);
+
+    const showPreviousBranch = useCallback(() => {
+      if (branchIndex > 0) {
+        onSwitchBranch?.(messageIndex, branchIndex - 1);
+      }
+    }, [branchIndex, messageIndex, onSwitchBranch]);
+
+    const showNextBranch = useCallback(() => {
+      if (branchIndex < branchCount - 1) {
+        onSwitchBranch?.(messageIndex, branchIndex + 1);
+      }
+    }, [branchCount, branchIndex, messageIndex, onSwitchBranch]);
+
+    const handleRegenerate = useCallback(() => {
+      onRegenerateMessage?.(messageIndex);
+    }, [messageIndex, onRegenerateMessage]);
+
+    const handleTogglePin = useCallback(() => {
+      onTogglePin?.(messageIndex);
+    }, [messageIndex, onTogglePin]);
+
+    useEffect(() => {
+      // Editing is withdrawn while a reply streams or when the parent disables it.
+      if (!canEdit && isEditing) {
+        cancelEditing();
+      }
+    }, [canEdit, cancelEditing, isEditing]);
+
     useEffect(() => {
       if (!isUser && isStreaming && hasThinkingOutput && !hasAutoExpandedThinking) {
         setIsThinkingExpanded(true);
@@ -177,7 +343,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                   textTransform: "uppercase",
                 }}
               >
-                Web Search
+                {formatSearchPanelTitle(webSearch)}
               </Text>
               <Text
                 className="ml-2 flex-1"
@@ -188,7 +354,9 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                 numberOfLines={1}
               >
                 {isSearchRunning
-                  ? (latestSearchQuery ? `· ${latestSearchQuery.query}` : "· Searching...")
+                  ? (latestSearchQuery
+                    ? `· ${formatRunningQueryLabel(latestSearchQuery)}`
+                    : "· Searching...")
                   : `· ${formatSearchSummary(webSearch)}`}
               </Text>
               <Text
@@ -226,7 +394,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                         }}
                         numberOfLines={1}
                       >
-                        {queryRun.query}
+                        {formatQueryRunLabel(queryRun)}
                       </Text>
                       {queryRun.status === "error" ? (
                         <Text
@@ -255,9 +423,10 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                     {queryRun.sources.map((source, sourceIndex) => (
                       <Pressable
                         key={`${source.url}-${sourceIndex}`}
-                        onPress={() => handleOpenSource(source.url)}
+                        // Library passages have no page to open
+                        onPress={source.documentId === undefined ? () => handleOpenSource(source.url) : undefined}
                         className="py-1.5 pl-3"
-                        accessibilityRole="link"
+                        accessibilityRole={source.documentId === undefined ? "link" : "text"}
                       >
                         <Text
                           style={{
@@ -267,7 +436,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                           }}
                           numberOfLines={1}
                         >
-                          {source.title}
+                          {source.citationNumber !== undefined ? `[${source.citationNumber}] ${source.title}` : source.title}
                         </Text>
                         <Text
                           style={{
@@ -276,8 +445,23 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                           }}
                           numberOfLines={1}
                         >
-                          {source.url}
+                          {source.documentId !== undefined
+                            ? source.byline
+                            : source.byline ? `${source.byline} · ${source.url}` : source.url}
                         </Text>
+                        {source.documentId !== undefined && source.snippet ? (
+                          <Text
+                            testID="message-bubble-passage-snippet"
+                            style={{
+                              color: theme.colors.textSecondary ?? theme.colors.text,
+                              fontSize: 12,
+                              marginTop: 2,
+                            }}
+                            numberOfLines={2}
+                          >
+                            {source.snippet}
+                          </Text>
+                        ) : null}
                       </Pressable>
                     ))}
                   </View>
@@ -286,6 +470,9 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
             ) : null}
           </View>
         ) : null}
+        {!isUser && toolCalls && toolCalls.calls.length > 0 ? (
+          <ToolCallsCard toolCalls={toolCalls} />
+        ) : null}
         {hasThinkingOutput && (
           <View className="mb-2">
             <Pressable
@@ -358,7 +545,23 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
         >
           {/* ========== Content Rendering Section ========== */}
           {/* CustomMarkdown component handles rendering markdown content with syntax highlighting */}
-          {normalizedContent.length > 0 || !hasStructuredMedia ? (
+          {isEditing ? (
+            <TextInput
+              testID="message-bubble-edit-input"
+              value={editDraft}
+              onChangeText={setEditDraft}
+              multiline
+              autoFocus
+              accessibilityLabel="Edit message"
+              style={{
+                color: theme.colors.text,
+                fontSize: 16,
+                lineHeight: 24,
+                minWidth: 200,
+                padding: 0,
+              }}
+            />
+          ) : normalizedContent.length > 0 || !hasStructuredMedia ? (
             isUser ? (
               <Text
                 selectable
@@ -374,10 +577,21 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
               <CustomMarkdown
                 content={normalizedContent}
                 isUser={isUser}
+                citationSources={citationSources}
               />
             )
           ) : null}
 
+          {unmatchedCitations.length > 0 && !isEditing ? (
+            <Text
+              testID="unmatched-citations-warning"
+              className="mt-1"
+              style={{ color: errorColor, fontSize: 12 }}
+            >
+              {`Cites ${unmatchedCitations.map((value) => `[${value}]`).join(", ")}, which no web search in this reply returned.`}
+            </Text>
+          ) : null}
+
           {mediaImageParts.length > 0 ? (
             <View className="mt-2">
               {mediaImageParts.map((imagePart, index) => (
@@ -419,28 +633,218 @@ export const MessageBubble: React.FC<MessageBubbleProps> = memo(
                   }}
                 >
                   <Text
+                    numberOfLines={1}
                     style={{
                       color: theme.colors.text,
                       fontSize: 12,
                       fontWeight: "600",
                     }}
                   >
-                    {isVideoMediaType(filePart.mediaType) ? "Video attachment" : "File attachment"}
+                    {isDocumentMediaType(filePart.mediaType)
+                      ? filePart.filename ?? "Document"
+                      : isVideoMediaType(filePart.mediaType) ? "Video attachment" : "File attachment"}
                   </Text>
                   <Text
+                    testID="message-bubble-file-details"
                     style={{
                       color: theme.colors.textSecondary ?? theme.colors.text,
                       fontSize: 11,
                       marginTop: 2,
                     }}
                   >
-                    {filePart.filename ?? filePart.mediaType}
+                    {isDocumentMediaType(filePart.mediaType)
+                      ? formatDocumentDetails({
+                        mediaType: filePart.mediaType,
+                        fileName: filePart.filename,
+                        pageCount: filePart.pageCount,
+                      })
+                      : filePart.filename ?? filePart.mediaType}
                   </Text>
                 </View>
               ))}
             </View>
           ) : null}
         </View>
+
+        {!isUser && fallbackLabel ? (
+          <Text
+            numberOfLines={2}
+            style={{
+              color: theme.colors.textSecondary ?? theme.colors.text,
+              fontSize: 12,
+              marginTop: 4,
+            }}
+            testID="message-bubble-fallback-label"
+          >
+            {fallbackLabel}
+          </Text>
+        ) : null}
+
+        {/* ========== Actions Section ========== */}
+        {/* Edit/regenerate/pin controls and the pager for sibling branches */}
+        {canEdit || hasBranches || canRegenerate || hasModelLabel || canPin || isPinned ? (
+          <View
+            className="flex-row items-center mt-1"
+            style={{ alignSelf: isUser ? "flex-end" : "flex-start" }}
+          >
+            {hasBranches ? (
+              <View className="flex-row items-center mr-2" testID="message-bubble-branch-pager">
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="Show previous branch"
+                  disabled={branchIndex === 0}
+                  onPress={showPreviousBranch}
+                  className="px-2 py-1"
+                  testID="message-bubble-branch-previous"
+                >
+                  <Text
+                    style={{
+                      color: theme.colors.textSecondary ?? theme.colors.text,
+                      opacity: branchIndex === 0 ? 0.4 : 1,
+                      fontSize: 13,
+                      fontWeight: "600",
+                    }}
+                  >
+                    ‹
+                  </Text>
+                </Pressable>
+                <Text
+                  style={{
+                    color: theme.colors.textSecondary ?? theme.colors.text,
+                    fontSize: 12,
+                    fontVariant: ["tabular-nums"],
+                  }}
+                >
+                  {`${branchIndex + 1}/${branchCount}`}
+                </Text>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="Show next branch"
+                  disabled={branchIndex >= branchCount - 1}
+                  onPress={showNextBranch}
+                  className="px-2 py-1"
+                  testID="message-bubble-branch-next"
+                >
+                  <Text
+                    style={{
+                      color: theme.colors.textSecondary ?? theme.colors.text,
+                      opacity: branchIndex >= branchCount - 1 ? 0.4 : 1,
+                      fontSize: 13,
+                      fontWeight: "600",
+                    }}
+                  >
+                    ›
+                  </Text>
+                </Pressable>
+              </View>
+            ) : null}
+
+            {canEdit && isEditing ? (
+              <>
+                <Pressable
+                  accessibilityRole="button"
+                  onPress={cancelEditing}
+                  className="px-2 py-1"
+                  testID="message-bubble-edit-cancel"
+                >
+                  <Text style={{ color: theme.colors.textSecondary ?? theme.colors.text, fontSize: 12 }}>
+                    Cancel
+                  </Text>
+                </Pressable>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="Save edit and regenerate"
+                  disabled={!canSubmitEdit}
+                  onPress={submitEdit}
+                  className="px-2 py-1"
+                  testID="message-bubble-edit-submit"
+                >
+                  <Text
+                    style={{
+                      color: theme.colors.accent,
+                      opacity: canSubmitEdit ? 1 : 0.4,
+                      fontSize: 12,
+                      fontWeight: "600",
+                    }}
+                  >
+                    Save & Regenerate
+                  </Text>
+                </Pressable>
+              </>
+            ) : null}
+
+            {hasModelLabel ? (
+              <Text
+                numberOfLines={1}
+                style={{
+                  color: theme.colors.textSecondary ?? theme.colors.text,
+                  fontSize: 12,
+                  flexShrink: 1,
+                }}
+                testID="message-bubble-model-label"
+              >
+                {modelLabel}
+              </Text>
+            ) : null}
+
+            {canRegenerate ? (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Regenerate with another model"
+                onPress={handleRegenerate}
+                className="px-2 py-1"
+                testID="message-bubble-regenerate"
+              >
+                <Text style={{ color: theme.colors.textSecondary ?? theme.colors.text, fontSize: 12 }}>
+                  Regenerate with…
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {canEdit && !isEditing ? (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="Edit message"
+                onPress={startEditing}
+                className="px-2 py-1"
+                testID="message-bubble-edit"
+              >
+                <Text style={{ color: theme.colors.textSecondary ?? theme.colors.text, fontSize: 12 }}>
+                  Edit
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {canPin ? (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel={isPinned ? "Unpin message" : "Pin message"}
+                accessibilityState={{ selected: isPinned }}
+                onPress={handleTogglePin}
+                className="px-2 py-1"
+                testID="message-bubble-pin"
+              >
+                <Text
+                  style={{
+                    color: isPinned ? theme.colors.accent : theme.colors.textSecondary ?? theme.colors.text,
+                    fontSize: 12,
+                    fontWeight: isPinned ? "600" : "400",
+                  }}
+                >
+                  {isPinned ? "Pinned" : "Pin"}
+                </Text>
+              </Pressable>
+            ) : isPinned ? (
+              <Text
+                style={{ color: theme.colors.accent, fontSize: 12, fontWeight: "600" }}
+                className="px-2 py-1"
+                testID="message-bubble-pinned-label"
+              >
+                Pinned
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
       </View>
     );
   },
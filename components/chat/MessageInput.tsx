@@ -38,6 +38,9 @@ import type { ChatAttachment, ChatSendInput } from "@/types/chat.types";
  * @property {boolean} [disabled] - Whether the input field and send button are disabled
  * @property {boolean} [isStreaming] - Whether a response is currently streaming
  * @property {function} [onCancel] - Callback fired when the stop button is pressed during streaming
+ * @property {boolean} [canAttachImages] - Whether the active model accepts photos; hides the camera when false
+ * @property {boolean} [canAttachVideos] - Whether the active model accepts videos
+ * @property {function} [onChooseDocument] - Callback fired when "Choose File" is pressed; documents work with every model
  * @property {ViewStyle} [style] - Optional custom styles to merge with the input container
  */
 interface MessageInputProps {
@@ -47,7 +50,10 @@ interface MessageInputProps {
     attachments?: ChatAttachment[];
     onTakePhoto?: () => void;
     onChooseFromLibrary?: () => void;
+    onChooseDocument?: () => void;
     onRemoveAttachment?: (attachmentId: string) => void;
+    canAttachImages?: boolean;
+    canAttachVideos?: boolean;
     placeholder?: string;
     disabled?: boolean;
     isStreaming?: boolean;
@@ -78,7 +84,10 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     attachments = [],
     onTakePhoto,
     onChooseFromLibrary,
+    onChooseDocument,
     onRemoveAttachment,
+    canAttachImages = true,
+    canAttachVideos = true,
     placeholder = "Message...",
     disabled = false,
     isStreaming = false,
@@ -96,7 +105,20 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
     // Media menu popover state
     const [showMediaMenu, setShowMediaMenu] = useState(false);
-    const hasMediaCallbacks = !!(onTakePhoto || onChooseFromLibrary);
+    const showTakePhoto = Boolean(onTakePhoto) && canAttachImages;
+    const showChooseFromLibrary = Boolean(onChooseFromLibrary) && (canAttachImages || canAttachVideos);
+    const showChooseDocument = Boolean(onChooseDocument);
+    const hasMediaCallbacks = showTakePhoto || showChooseFromLibrary || showChooseDocument;
+    const attachableKinds = [
+        ...(canAttachImages ? ["photos"] : []),
+        ...(canAttachVideos ? ["videos"] : []),
+        ...(showChooseDocument ? ["files"] : []),
+    ];
+    const addAttachmentHint = attachableKinds.length > 0
+        ? `Add ${attachableKinds.length > 1
+            ? `${attachableKinds.slice(0, -1).join(", ")} or ${attachableKinds[attachableKinds.length - 1]}`
+            : attachableKinds[0]}`
+        : "The selected model does not accept photos or videos";
 
     const pendingMediaActionRef = useRef<(() => void) | null>(null);
 
@@ -209,6 +231,11 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         closeMediaMenuAndRun(onChooseFromLibrary);
     };
 
+    const handleChooseDocumentPress = () => {
+        triggerPress("light");
+        closeMediaMenuAndRun(onChooseDocument);
+    };
+
     const handleRemoveAttachment = (attachmentId: string) => {
         triggerPress("light");
         onRemoveAttachment?.(attachmentId);
@@ -246,7 +273,9 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                             }}
                         >
                             <SymbolView
-                                name={attachment.kind === "video" ? "video" : "photo"}
+                                name={attachment.kind === "document"
+                                    ? "doc"
+                                    : attachment.kind === "video" ? "video" : "photo"}
                                 size={12}
                                 tintColor={theme.colors.textSecondary}
                             />
@@ -302,7 +331,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                         hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
                         accessibilityRole="button"
                         accessibilityLabel={showMediaMenu ? "Close attachment menu" : "Add attachment"}
-                        accessibilityHint="Add photos or videos"
+                        accessibilityHint={addAttachmentHint}
                         accessibilityState={{ disabled: disabled || !hasMediaCallbacks }}
                         className="w-11 h-11 rounded-full justify-center items-center"
                         style={{ backgroundColor: theme.colors.surface }}
@@ -340,7 +369,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                                 zIndex: 20,
                             }}
                         >
-                            {onTakePhoto ? (
+                            {showTakePhoto ? (
                                 <TouchableOpacity
                                     testID="media-menu-take-photo"
                                     onPress={handleTakePhotoPress}
@@ -361,7 +390,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                                 </TouchableOpacity>
                             ) : null}
 
-                            {onTakePhoto && onChooseFromLibrary ? (
+                            {showTakePhoto && showChooseFromLibrary ? (
                                 <View
                                     style={{
                                         height: 1,
@@ -371,7 +400,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                                 />
                             ) : null}
 
-                            {onChooseFromLibrary ? (
+                            {showChooseFromLibrary ? (
                                 <TouchableOpacity
                                     testID="media-menu-choose-library"
                                     onPress={handleChooseFromLibraryPress}
@@ -391,6 +420,37 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                                     </Text>
                                 </TouchableOpacity>
                             ) : null}
+
+                            {showChooseDocument && (showTakePhoto || showChooseFromLibrary) ? (
+                                <View
+                                    style={{
+                                        height: 1,
+                                        backgroundColor: theme.colors.border ?? theme.colors.surface,
+                                        marginHorizontal: 16,
+                                    }}
+                                />
+                            ) : null}
+
+                            {showChooseDocument ? (
+                                <TouchableOpacity
+                                    testID="media-menu-choose-file"
+                                    onPress={handleChooseDocumentPress}
+                                    activeOpacity={0.6}
+                                    className="flex-row items-center px-4 py-3"
+                                >
+                                    <SymbolView
+                                        name="doc"
+                                        size={20}
+                                        tintColor={theme.colors.text}
+                                    />
+                                    <Text
+                                        className="ml-3 text-base font-medium"
+                                        style={{ color: theme.colors.text }}
+                                    >
+                                        Choose File
+                                    </Text>
+                                </TouchableOpacity>
+                            ) : null}
                         </Animated.View>
                     ) : null}
                 </View>
@@ -17,10 +17,25 @@ import {
 } from "react-native";
 import { ModelMessage } from "ai";
 import { MessageBubble } from "./MessageBubble";
+import { ToolApprovalCard } from "./ToolApprovalCard";
 import { useTheme } from "@/components/ui/ThemeProvider";
+import { getBranchPosition } from "@/lib/chat-branches";
 import { getErrorAnnotation } from "@/lib/chat-error-annotations";
+import { formatFallbackAnnotationLabel, getFallbackAnnotation } from "@/lib/chat-fallback-annotations";
+import {
+    formatModelAnnotationLabel,
+    getModelAnnotation,
+} from "@/lib/chat-model-annotations";
+import { isMessagePinned } from "@/lib/chat-pin-annotations";
 import { getWebSearchAnnotation } from "@/lib/chat-web-search-annotations";
-import type { ChatActiveWebSearchState } from "@/types/chat.types";
+import { getToolCallAnnotation } from "@/lib/chat-tool-call-annotations";
+import { useAuthStore } from "@/stores";
+import type {
+    ChatActiveWebSearchState,
+    ChatBranchFork,
+    ChatPendingToolApproval,
+    ToolApprovalDecision,
+} from "@/types/chat.types";
 
 const serializeMessageContent = (content: ModelMessage["content"] | undefined): string => {
     if (typeof content === "string") {
@@ -40,6 +55,15 @@ const serializeMessageContent = (content: ModelMessage["content"] | undefined):
  * @property style - Optional style applied to the FlashList container
  * @property contentContainerStyle - Optional style for the list content container
  * @property isStreaming - Flag indicating if a response is currently being streamed
+ * @property focusMessageIndex - Message to scroll to once it is loaded (e.g. a search hit)
+ * @property branches - Fork points on the active path, used to render the branch pager
+ * @property onEditMessage - Edits a user message and regenerates from it (omit to disable editing)
+ * @property onSwitchBranch - Shows another variant at a fork point
+ * @property onRegenerateMessage - Asks for a model to regenerate an assistant reply with (omit to disable)
+ * @property onTogglePin - Pins or unpins a message against context trimming (omit to hide the action)
+ * @property pendingToolApprovals - Tool calls waiting on the user, shown under the reply that made them
+ * @property onResolveToolApproval - Runs or denies a waiting tool call
+ * @property footer - Content rendered after the last message, e.g. pending compare-mode answers
  */
 interface MessageListProps {
     messages: ModelMessage[];
@@ -50,12 +74,24 @@ interface MessageListProps {
     isStreaming?: boolean;
     isThinking?: boolean;
     bottomInset?: number;
+    focusMessageIndex?: number | null;
+    branches?: ChatBranchFork[];
+    onEditMessage?: (messageIndex: number, text: string) => void;
+    onSwitchBranch?: (ordinal: number, variantIndex: number) => void;
+    onRegenerateMessage?: (messageIndex: number) => void;
+    onTogglePin?: (messageIndex: number) => void;
+    pendingToolApprovals?: ChatPendingToolApproval[];
+    onResolveToolApproval?: (id: string, decision: ToolApprovalDecision) => void;
+    footer?: React.ReactElement | null;
 }
 
+const EMPTY_TOOL_APPROVALS: ChatPendingToolApproval[] = [];
 const NEAR_BOTTOM_THRESHOLD_PX = 100;
 const AUTO_SCROLL_THROTTLE_MS = 100;
 const TERMINAL_SETTLE_WINDOW_MS = 500;
 const TERMINAL_SETTLE_DELAY_MS = 120;
+/** Places the focused message a little below the header instead of flush with the top */
+const FOCUS_VIEW_POSITION = 0.2;
 
 /**
  * MessageList Component
@@ -76,12 +112,22 @@ export const MessageList: React.FC<MessageListProps> = ({
     isStreaming = false,
     isThinking = false,
     bottomInset = 0,
+    focusMessageIndex = null,
+    branches = [],
+    onEditMessage,
+    onSwitchBranch,
+    onRegenerateMessage,
+    onTogglePin,
+    pendingToolApprovals = EMPTY_TOOL_APPROVALS,
+    onResolveToolApproval,
+    footer = null,
 }) => {
     // ============================================================================
     // STATE & REFS SECTION
     // ============================================================================
     // Reference to the FlashList component for potential scroll interactions
     const flashListRef = useRef<FlashListRef<ModelMessage>>(null);
+    const customEndpoints = useAuthStore((state) => state.customEndpoints);
     const isNearBottomRef = useRef(true);
     const shouldAutoFollowRef = useRef(true);
     const isUserInteractingRef = useRef(false);
@@ -93,6 +139,7 @@ export const MessageList: React.FC<MessageListProps> = ({
     const previousWasStreamingRef = useRef(isStreaming);
     const terminalSettleUntilRef = useRef(0);
     const terminalSettleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const pendingFocusIndexRef = useRef<number | null>(focusMessageIndex);
     // Theme object containing spacing, colors, and other design tokens
     const { theme } = useTheme();
     const emptyStateColor = theme.colors.textSecondary ?? theme.colors.text;
@@ -123,18 +170,65 @@ export const MessageList: React.FC<MessageListProps> = ({
                 ? activeWebSearchState.annotation
                 : getWebSearchAnnotation(item))
             : null;
-
-        return (
+        const branchPosition = getBranchPosition(branches, index);
+        const modelAnnotation = item.role === "assistant" ? getModelAnnotation(item) : null;
+        const fallbackAnnotation = item.role === "assistant" ? getFallbackAnnotation(item) : null;
+        const messageToolApprovals = onResolveToolApproval
+            ? pendingToolApprovals.filter((approval) => approval.messageIndex === index)
+            : EMPTY_TOOL_APPROVALS;
+
+        const bubble = (
             <MessageBubble
                 content={item.content}
                 isUser={item.role === "user"}
                 isStreaming={isStreamingThisMessage}
                 thinkingOutput={messageThinkingOutput}
                 webSearch={webSearchAnnotation}
+                toolCalls={item.role === "assistant" ? getToolCallAnnotation(item) : null}
                 isError={isError}
+                messageIndex={index}
+                onEditMessage={isStreaming ? undefined : onEditMessage}
+                branchIndex={branchPosition?.index}
+                branchCount={branchPosition?.count}
+                onSwitchBranch={onSwitchBranch}
+                modelLabel={modelAnnotation ? formatModelAnnotationLabel(modelAnnotation, customEndpoints) : null}
+                fallbackLabel={fallbackAnnotation ? formatFallbackAnnotationLabel(fallbackAnnotation, customEndpoints) : null}
+                onRegenerateMessage={isStreaming ? undefined : onRegenerateMessage}
+                isPinned={onTogglePin !== undefined && isMessagePinned(item)}
+                onTogglePin={isStreaming ? undefined : onTogglePin}
             />
         );
-    }, [activeWebSearchState, messages.length, isStreaming, thinkingOutput]);
+
+        if (messageToolApprovals.length === 0 || !onResolveToolApproval) {
+            return bubble;
+        }
+
+        return (
+            <View>
+                {bubble}
+                {messageToolApprovals.map((approval) => (
+                    <ToolApprovalCard
+                        key={approval.id}
+                        approval={approval}
+                        onResolve={onResolveToolApproval}
+                    />
+                ))}
+            </View>
+        );
+    }, [
+        activeWebSearchState,
+        branches,
+        customEndpoints,
+        messages.length,
+        isStreaming,
+        onEditMessage,
+        onRegenerateMessage,
+        onResolveToolApproval,
+        onSwitchBranch,
+        onTogglePin,
+        pendingToolApprovals,
+        thinkingOutput,
+    ]);
 
     const scrollToBottom = useCallback((force = false, animated = true, bypassThrottle = false) => {
         if (!force && !shouldAutoFollowRef.current) {
@@ -224,6 +318,10 @@ export const MessageList: React.FC<MessageListProps> = ({
         scrollToBottom(false, false, true);
     }, [isStreaming, scrollToBottom]);
 
+    useEffect(() => {
+        pendingFocusIndexRef.current = focusMessageIndex;
+    }, [focusMessageIndex]);
+
     useEffect(() => {
         const lastMessage = messages[messages.length - 1];
         const lastMessageContent = serializeMessageContent(lastMessage?.content);
@@ -240,7 +338,24 @@ export const MessageList: React.FC<MessageListProps> = ({
             && lastMessageContent !== previousLastMessageContent;
         const didStreamingEnd = previousWasStreaming && !isStreaming;
 
-        if (didStreamingStart) {
+        const pendingFocusIndex = pendingFocusIndexRef.current;
+        const canFocusMessage = pendingFocusIndex !== null
+            && pendingFocusIndex >= 0
+            && pendingFocusIndex < messages.length;
+
+        if (canFocusMessage) {
+            // Jump to the requested message instead of the bottom, and stop
+            // following new content until the user scrolls back down.
+            pendingFocusIndexRef.current = null;
+            shouldAutoFollowRef.current = false;
+            requestAnimationFrame(() => {
+                flashListRef.current?.scrollToIndex({
+                    index: pendingFocusIndex,
+                    animated: false,
+                    viewPosition: FOCUS_VIEW_POSITION,
+                });
+            });
+        } else if (didStreamingStart) {
             shouldAutoFollowRef.current = true;
             scrollToBottom(true, false, true);
         } else if (isNewUserMessage) {
@@ -380,7 +495,8 @@ export const MessageList: React.FC<MessageListProps> = ({
             extraData={isStreaming}
             renderItem={renderItem}
             keyExtractor={keyExtractor}
-            ListEmptyComponent={listEmptyComponent}
+            ListEmptyComponent={footer ? null : listEmptyComponent}
+            ListFooterComponent={footer}
             contentContainerStyle={[
                 { paddingTop: 125, paddingBottom: theme.spacing.sm },
                 contentContainerStyle,
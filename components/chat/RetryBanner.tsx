@@ -2,9 +2,11 @@
  * @file RetryBanner.tsx
  * @purpose Displays a retry button when the last message fails to send.
  * Shows error message details and allows the user to retry the failed message.
+ * When a provider reported when its rate limit resets, counts down to it and
+ * can offer another provider instead of waiting.
  */
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { View, Text, TouchableOpacity } from "react-native";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { SymbolView } from "expo-symbols";
@@ -16,8 +18,55 @@ interface RetryBannerProps {
     onRetry: () => void;
     /** Error message to display (optional) */
     errorMessage?: string | null;
+    /** When the provider's rate limit lifts (ms since epoch); retrying waits until then */
+    retryAt?: number | null;
+    /** Whether the reply is still being retried automatically at retryAt */
+    isRetrying?: boolean;
+    /** Name of the provider offered instead of waiting out the rate limit */
+    fallbackLabel?: string | null;
+    /** Callback when the user takes the offered provider */
+    onFallback?: () => void;
 }
 
+/** "42s", "3:05" or "2h 10m" */
+export const formatCountdown = (totalSeconds: number): string => {
+    if (totalSeconds < 60) {
+        return `${totalSeconds}s`;
+    }
+
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    if (hours > 0) {
+        return `${hours}h ${minutes}m`;
+    }
+
+    return `${minutes}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
+/** Whole seconds left until the given time, ticking once a second */
+const useSecondsUntil = (target: number | null | undefined): number => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        setNow(Date.now());
+        if (!target || target <= Date.now()) {
+            return;
+        }
+
+        const interval = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (current >= target) {
+                clearInterval(interval);
+            }
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, [target]);
+
+    return target ? Math.max(0, Math.ceil((target - now) / 1000)) : 0;
+};
+
 /**
  * RetryBanner Component
  *
@@ -26,9 +75,11 @@ interface RetryBannerProps {
  * - Visual error indication with warning icon
  * - Optional error message details
  * - Retry button to re-send the failed message
+ * - A countdown to a reported rate-limit reset, holding the retry button
+ *   until then, and an optional button to switch providers instead
  *
- * The banner only renders when canRetry is true, keeping the UI clean
- * during normal operation.
+ * The banner renders when canRetry is true, or while an automatic retry is
+ * waiting out a rate limit, keeping the UI clean during normal operation.
  *
  * @example
  * ```tsx
@@ -43,14 +94,23 @@ export const RetryBanner: React.FC<RetryBannerProps> = ({
     canRetry,
     onRetry,
     errorMessage,
+    retryAt,
+    isRetrying = false,
+    fallbackLabel,
+    onFallback,
 }) => {
     const { theme } = useTheme();
+    const secondsLeft = useSecondsUntil(retryAt);
+    const isWaitingAutomatically = isRetrying && secondsLeft > 0;
 
     // Don't render anything if retry is not available
-    if (!canRetry) {
+    if (!canRetry && !isWaitingAutomatically) {
         return null;
     }
 
+    const isRetryHeld = canRetry && secondsLeft > 0;
+    const showFallback = canRetry && !!fallbackLabel && !!onFallback;
+
     return (
         <View
             className="flex-row items-center justify-between px-4 py-3 mx-4 mb-2 rounded-lg"
@@ -72,9 +132,9 @@ export const RetryBanner: React.FC<RetryBannerProps> = ({
                 {/* Text section: error description */}
                 <View className="flex-1">
                     <Text style={{ color: theme.colors.text }}>
-                        Message failed to send
+                        {canRetry ? "Message failed to send" : "Rate limited"}
                     </Text>
-                    {errorMessage && (
+                    {errorMessage && canRetry && (
                         <Text
                             style={{
                                 color: theme.colors.textSecondary,
@@ -87,33 +147,78 @@ export const RetryBanner: React.FC<RetryBannerProps> = ({
                             {errorMessage}
                         </Text>
                     )}
+                    {secondsLeft > 0 && (
+                        <Text
+                            style={{
+                                color: theme.colors.textSecondary,
+                                fontSize: 12,
+                                marginTop: 2,
+                            }}
+                            testID="retry-countdown"
+                        >
+                            {canRetry
+                                ? `Limit resets in ${formatCountdown(secondsLeft)}`
+                                : `Retrying in ${formatCountdown(secondsLeft)}`}
+                        </Text>
+                    )}
                 </View>
             </View>
 
-            {/* Retry button */}
-            <TouchableOpacity
-                onPress={onRetry}
-                className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-md"
-                style={{
-                    backgroundColor: theme.colors.error + "25",
-                }}
-                testID="retry-button"
-            >
-                <SymbolView
-                    name="arrow.clockwise"
-                    size={14}
-                    tintColor={theme.colors.error}
-                />
-                <Text
-                    style={{
-                        color: theme.colors.error,
-                        fontWeight: "600",
-                        fontSize: 14,
-                    }}
-                >
-                    Retry
-                </Text>
-            </TouchableOpacity>
+            {canRetry && (
+                <View className="items-end gap-1.5">
+                    {/* Retry button */}
+                    <TouchableOpacity
+                        onPress={onRetry}
+                        disabled={isRetryHeld}
+                        className="flex-row items-center gap-1.5 px-3 py-1.5 rounded-md"
+                        style={{
+                            backgroundColor: theme.colors.error + "25",
+                            opacity: isRetryHeld ? 0.5 : 1,
+                        }}
+                        accessibilityState={{ disabled: isRetryHeld }}
+                        testID="retry-button"
+                    >
+                        <SymbolView
+                            name="arrow.clockwise"
+                            size={14}
+                            tintColor={theme.colors.error}
+                        />
+                        <Text
+                            style={{
+                                color: theme.colors.error,
+                                fontWeight: "600",
+                                fontSize: 14,
+                            }}
+                        >
+                            Retry
+                        </Text>
+                    </TouchableOpacity>
+
+                    {/* Offered provider, for a wait longer than the user will sit through */}
+                    {showFallback && (
+                        <TouchableOpacity
+                            onPress={onFallback}
+                            className="px-3 py-1.5 rounded-md"
+                            style={{
+                                borderWidth: 1,
+                                borderColor: theme.colors.error + "30",
+                            }}
+                            testID="retry-fallback-button"
+                        >
+                            <Text
+                                style={{
+                                    color: theme.colors.text,
+                                    fontWeight: "600",
+                                    fontSize: 13,
+                                }}
+                                numberOfLines={1}
+                            >
+                                {`Use ${fallbackLabel}`}
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
         </View>
     );
 };
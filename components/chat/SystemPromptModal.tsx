@@ -0,0 +1,468 @@
+import React from "react";
+import {
+    Modal,
+    Platform,
+    Pressable,
+    ScrollView,
+    Switch,
+    Text,
+    TextInput,
+    View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { CONTEXT_STRATEGIES, MAX_TEMPERATURE, MIN_TEMPERATURE } from "@/lib/chat-settings";
+import type { DocumentCollectionSummary } from "@/lib/document-library";
+import { getEnabledMcpTools } from "@/lib/mcp-servers";
+import type { ContextStrategy, FallbackPolicy } from "@/types/chat.types";
+import type { McpServer, McpToolKey } from "@/types/mcp.types";
+
+const NO_MCP_SERVERS: McpServer[] = [];
+const NO_DISABLED_TOOLS: McpToolKey[] = [];
+const NO_COLLECTIONS: DocumentCollectionSummary[] = [];
+const NO_ATTACHED_COLLECTIONS: number[] = [];
+
+const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, string> = {
+    "drop-oldest": "Drop oldest",
+    "keep-pinned": "Keep pinned",
+    summarize: "Summarize",
+};
+
+const CONTEXT_STRATEGY_DESCRIPTIONS: Record<ContextStrategy, string> = {
+    "drop-oldest": "The oldest turns are left out once the model's context is full.",
+    "keep-pinned": "The oldest turns are left out, except turns with a pinned message.",
+    summarize: "The oldest turns are replaced with a running summary written by a small model.",
+};
+
+interface SystemPromptModalProps {
+    visible: boolean;
+    /** Name of the persona the chat started from, shown for context */
+    personaName?: string | null;
+    prompt: string;
+    onChangePrompt: (value: string) => void;
+    temperature: string;
+    onChangeTemperature: (value: string) => void;
+    /** What happens to older turns when the conversation outgrows the model */
+    contextStrategy: ContextStrategy;
+    onChangeContextStrategy: (value: ContextStrategy) => void;
+    /** Whether a failed reply may be retried on another provider */
+    fallbackPolicy: FallbackPolicy;
+    onChangeFallbackPolicy: (value: FallbackPolicy) => void;
+    /** Registered MCP servers; tools of enabled servers get a switch each */
+    mcpServers?: McpServer[];
+    disabledTools?: McpToolKey[];
+    onChangeDisabledTools?: (value: McpToolKey[]) => void;
+    /** Domains web search and readUrl skip, as typed: one per line or comma separated */
+    blockedDomains?: string;
+    onChangeBlockedDomains?: (value: string) => void;
+    /** Library collections; each gets a switch that lets searchDocuments read it */
+    collections?: DocumentCollectionSummary[];
+    documentCollections?: number[];
+    onChangeDocumentCollections?: (value: number[]) => void;
+    /** Validation message shown above the actions */
+    error?: string | null;
+    onClose: () => void;
+    onSubmit: () => void;
+}
+
+export function SystemPromptModal({
+    visible,
+    personaName,
+    prompt,
+    onChangePrompt,
+    temperature,
+    onChangeTemperature,
+    contextStrategy,
+    onChangeContextStrategy,
+    fallbackPolicy,
+    onChangeFallbackPolicy,
+    mcpServers = NO_MCP_SERVERS,
+    disabledTools = NO_DISABLED_TOOLS,
+    onChangeDisabledTools,
+    blockedDomains = "",
+    onChangeBlockedDomains,
+    collections = NO_COLLECTIONS,
+    documentCollections = NO_ATTACHED_COLLECTIONS,
+    onChangeDocumentCollections,
+    error,
+    onClose,
+    onSubmit,
+}: SystemPromptModalProps) {
+    const { theme } = useTheme();
+    const isIos = Platform.OS === "ios";
+    const availableTools = React.useMemo(() => getEnabledMcpTools(mcpServers, []), [mcpServers]);
+
+    const handleToggleTool = (key: McpToolKey, enabled: boolean) => {
+        const remaining = disabledTools.filter((candidate) => candidate !== key);
+        onChangeDisabledTools?.(enabled ? remaining : [...remaining, key]);
+    };
+
+    const handleToggleCollection = (id: number, attached: boolean) => {
+        const remaining = documentCollections.filter((candidate) => candidate !== id);
+        onChangeDocumentCollections?.(attached ? [...remaining, id] : remaining);
+    };
+
+    const inputStyle = {
+        borderColor: theme.colors.border,
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: isIos ? 10 : 8,
+        color: theme.colors.text,
+        backgroundColor: theme.colors.background,
+    };
+
+    return (
+        <Modal
+            animationType="fade"
+            transparent
+            visible={visible}
+            onRequestClose={onClose}
+        >
+            <KeyboardAvoidingView
+                behavior={isIos ? "translate-with-padding" : "padding"}
+                keyboardVerticalOffset={isIos ? -10 : 0}
+                className="flex-1"
+            >
+                <View
+                    className="flex-1 justify-center px-6"
+                    style={{ backgroundColor: "rgba(0, 0, 0, 0.35)" }}
+                >
+                    <Pressable
+                        style={{
+                            position: "absolute",
+                            top: 0,
+                            left: 0,
+                            right: 0,
+                            bottom: 0,
+                        }}
+                        onPress={onClose}
+                    />
+
+                    <View
+                        style={{
+                            backgroundColor: theme.colors.surface,
+                            borderColor: theme.colors.border,
+                            borderWidth: 1,
+                            borderRadius: 16,
+                            padding: 16,
+                        }}
+                    >
+                        <Text
+                            style={{
+                                color: theme.colors.text,
+                                fontSize: 18,
+                                fontWeight: "600",
+                            }}
+                        >
+                            System Prompt
+                        </Text>
+
+                        <Text
+                            style={{
+                                color: theme.colors.textSecondary,
+                                fontSize: 14,
+                                marginTop: 6,
+                                marginBottom: 12,
+                            }}
+                        >
+                            {personaName
+                                ? `Started from ${personaName}. Changes apply to this chat only.`
+                                : "Instructions sent with every message in this chat."}
+                        </Text>
+
+                        <TextInput
+                            testID="system-prompt-input"
+                            value={prompt}
+                            onChangeText={onChangePrompt}
+                            placeholder="You are a helpful assistant…"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            multiline
+                            autoFocus
+                            style={[inputStyle, { minHeight: 120, maxHeight: 240, textAlignVertical: "top" }]}
+                        />
+
+                        <Text
+                            style={{
+                                color: theme.colors.textSecondary,
+                                fontSize: 13,
+                                marginTop: 12,
+                                marginBottom: 6,
+                            }}
+                        >
+                            {`Temperature (${MIN_TEMPERATURE}–${MAX_TEMPERATURE}, blank for model default)`}
+                        </Text>
+
+                        <TextInput
+                            testID="system-prompt-temperature-input"
+                            value={temperature}
+                            onChangeText={onChangeTemperature}
+                            placeholder="Default"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            keyboardType="decimal-pad"
+                            style={inputStyle}
+                            maxLength={4}
+                        />
+
+                        <Text
+                            style={{
+                                color: theme.colors.textSecondary,
+                                fontSize: 13,
+                                marginTop: 12,
+                                marginBottom: 6,
+                            }}
+                        >
+                            When the chat outgrows the model
+                        </Text>
+
+                        <View style={{ flexDirection: "row", gap: 8 }}>
+                            {CONTEXT_STRATEGIES.map((strategy) => {
+                                const selected = strategy === contextStrategy;
+                                return (
+                                    <Pressable
+                                        key={strategy}
+                                        testID={`context-strategy-${strategy}`}
+                                        onPress={() => onChangeContextStrategy(strategy)}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        style={{
+                                            borderColor: selected ? theme.colors.accent : theme.colors.border,
+                                            backgroundColor: selected ? theme.colors.accent : "transparent",
+                                            borderWidth: 1,
+                                            borderRadius: 10,
+                                            paddingHorizontal: 10,
+                                            paddingVertical: 6,
+                                        }}
+                                    >
+                                        <Text
+                                            style={{
+                                                color: selected ? theme.colors.surface : theme.colors.text,
+                                                fontSize: 13,
+                                            }}
+                                        >
+                                            {CONTEXT_STRATEGY_LABELS[strategy]}
+                                        </Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+
+                        <Text
+                            testID="context-strategy-description"
+                            style={{
+                                color: theme.colors.textSecondary,
+                                fontSize: 12,
+                                marginTop: 6,
+                            }}
+                        >
+                            {CONTEXT_STRATEGY_DESCRIPTIONS[contextStrategy]}
+                        </Text>
+
+                        <View
+                            style={{
+                                flexDirection: "row",
+                                alignItems: "center",
+                                justifyContent: "space-between",
+                                marginTop: 12,
+                                gap: 12,
+                            }}
+                        >
+                            <View style={{ flex: 1 }}>
+                                <Text style={{ color: theme.colors.text, fontSize: 14 }}>
+                                    Never fall back
+                                </Text>
+                                <Text
+                                    style={{
+                                        color: theme.colors.textSecondary,
+                                        fontSize: 12,
+                                        marginTop: 2,
+                                    }}
+                                >
+                                    Keep every reply on this chat&apos;s provider, even when it fails.
+                                </Text>
+                            </View>
+                            <Switch
+                                testID="fallback-policy-switch"
+                                value={fallbackPolicy === "never"}
+                                onValueChange={(value) => onChangeFallbackPolicy(value ? "never" : "allow")}
+                                trackColor={{ false: theme.colors.border, true: theme.colors.accent }}
+                            />
+                        </View>
+
+                        {onChangeBlockedDomains ? (
+                            <>
+                                <Text
+                                    style={{
+                                        color: theme.colors.textSecondary,
+                                        fontSize: 13,
+                                        marginTop: 12,
+                                        marginBottom: 6,
+                                    }}
+                                >
+                                    Blocked domains (web search skips these and their subdomains)
+                                </Text>
+
+                                <TextInput
+                                    testID="blocked-domains-input"
+                                    value={blockedDomains}
+                                    onChangeText={onChangeBlockedDomains}
+                                    placeholder="example.com"
+                                    placeholderTextColor={theme.colors.textSecondary}
+                                    multiline
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    keyboardType="url"
+                                    style={[inputStyle, { maxHeight: 96, textAlignVertical: "top" }]}
+                                />
+                            </>
+                        ) : null}
+
+                        {availableTools.length > 0 ? (
+                            <>
+                                <Text
+                                    style={{
+                                        color: theme.colors.textSecondary,
+                                        fontSize: 13,
+                                        marginTop: 12,
+                                        marginBottom: 6,
+                                    }}
+                                >
+                                    Tools
+                                </Text>
+
+                                <ScrollView style={{ maxHeight: 180 }}>
+                                    {availableTools.map(({ key, server, tool }) => (
+                                        <View
+                                            key={key}
+                                            style={{
+                                                flexDirection: "row",
+                                                alignItems: "center",
+                                                justifyContent: "space-between",
+                                                paddingVertical: 4,
+                                                gap: 12,
+                                            }}
+                                        >
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={{ color: theme.colors.text, fontSize: 14 }}>
+                                                    {tool.name}
+                                                </Text>
+                                                <Text
+                                                    numberOfLines={1}
+                                                    style={{ color: theme.colors.textSecondary, fontSize: 12 }}
+                                                >
+                                                    {tool.description ? `${server.name} · ${tool.description}` : server.name}
+                                                </Text>
+                                            </View>
+                                            <Switch
+                                                testID={`mcp-tool-switch-${key}`}
+                                                value={!disabledTools.includes(key)}
+                                                onValueChange={(value) => handleToggleTool(key, value)}
+                                                trackColor={{ false: theme.colors.border, true: theme.colors.accent }}
+                                            />
+                                        </View>
+                                    ))}
+                                </ScrollView>
+                            </>
+                        ) : null}
+
+                        {collections.length > 0 ? (
+                            <>
+                                <Text
+                                    style={{
+                                        color: theme.colors.textSecondary,
+                                        fontSize: 13,
+                                        marginTop: 12,
+                                        marginBottom: 6,
+                                    }}
+                                >
+                                    Documents (searchable from this chat)
+                                </Text>
+
+                                <ScrollView style={{ maxHeight: 180 }}>
+                                    {collections.map((collection) => (
+                                        <View
+                                            key={collection.id}
+                                            style={{
+                                                flexDirection: "row",
+                                                alignItems: "center",
+                                                justifyContent: "space-between",
+                                                paddingVertical: 4,
+                                                gap: 12,
+                                            }}
+                                        >
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={{ color: theme.colors.text, fontSize: 14 }}>
+                                                    {collection.name}
+                                                </Text>
+                                                <Text style={{ color: theme.colors.textSecondary, fontSize: 12 }}>
+                                                    {collection.documentCount} {collection.documentCount === 1 ? "document" : "documents"}
+                                                </Text>
+                                            </View>
+                                            <Switch
+                                                testID={`document-collection-switch-${collection.id}`}
+                                                value={documentCollections.includes(collection.id)}
+                                                onValueChange={(value) => handleToggleCollection(collection.id, value)}
+                                                trackColor={{ false: theme.colors.border, true: theme.colors.accent }}
+                                            />
+                                        </View>
+                                    ))}
+                                </ScrollView>
+                            </>
+                        ) : null}
+
+                        {error ? (
+                            <Text
+                                testID="system-prompt-error"
+                                style={{
+                                    color: theme.colors.error,
+                                    fontSize: 13,
+                                    marginTop: 10,
+                                }}
+                            >
+                                {error}
+                            </Text>
+                        ) : null}
+
+                        <View
+                            style={{
+                                flexDirection: "row",
+                                justifyContent: "flex-end",
+                                marginTop: 14,
+                            }}
+                        >
+                            <Pressable
+                                onPress={onClose}
+                                style={{
+                                    borderColor: theme.colors.border,
+                                    borderWidth: 1,
+                                    borderRadius: 10,
+                                    paddingHorizontal: 12,
+                                    paddingVertical: 8,
+                                }}
+                            >
+                                <Text style={{ color: theme.colors.text }}>Cancel</Text>
+                            </Pressable>
+
+                            <Pressable
+                                testID="system-prompt-save"
+                                onPress={onSubmit}
+                                style={{
+                                    marginLeft: 10,
+                                    borderColor: theme.colors.accent,
+                                    backgroundColor: theme.colors.accent,
+                                    borderWidth: 1,
+                                    borderRadius: 10,
+                                    paddingHorizontal: 12,
+                                    paddingVertical: 8,
+                                }}
+                            >
+                                <Text style={{ color: theme.colors.surface }}>Save</Text>
+                            </Pressable>
+                        </View>
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
@@ -0,0 +1,118 @@
+/**
+ * @file ToolApprovalCard.tsx
+ * @purpose Inline prompt under a streaming reply for a tool call set to "ask".
+ * The arguments can be edited before the call runs; the reply waits until
+ * the user runs or denies it.
+ */
+
+import React, { memo, useState } from "react";
+import { Pressable, Text, TextInput, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import { parseToolArguments } from "@/lib/tool-call-recorder";
+import type { ChatPendingToolApproval, ToolApprovalDecision } from "@/types/chat.types";
+
+interface ToolApprovalCardProps {
+  approval: ChatPendingToolApproval;
+  onResolve: (id: string, decision: ToolApprovalDecision) => void;
+}
+
+export const ToolApprovalCard: React.FC<ToolApprovalCardProps> = memo(({ approval, onResolve }) => {
+  const { theme } = useTheme();
+  const [argumentsText, setArgumentsText] = useState(approval.input);
+  const [argumentsError, setArgumentsError] = useState<string | null>(null);
+  const errorColor = theme.colors.error ?? "#dc2626";
+  const secondaryColor = theme.colors.textSecondary ?? theme.colors.text;
+
+  const handleChangeArguments = (text: string) => {
+    setArgumentsText(text);
+    setArgumentsError(null);
+  };
+
+  const handleRun = () => {
+    const parsed = parseToolArguments(argumentsText);
+    if ("error" in parsed) {
+      setArgumentsError(parsed.error);
+      return;
+    }
+
+    onResolve(approval.id, { approved: true, input: parsed.input });
+  };
+
+  return (
+    <View
+      className="mx-4 mb-3 rounded-xl px-3 py-3"
+      style={{
+        backgroundColor: theme.colors.surface,
+        borderWidth: 1,
+        borderColor: theme.colors.accent,
+      }}
+      testID={`tool-approval-card-${approval.id}`}
+    >
+      <Text style={{ color: theme.colors.text, fontSize: 14, fontWeight: "600" }}>
+        {`Run ${approval.toolName}?`}
+      </Text>
+      <Text className="mt-0.5" style={{ color: secondaryColor, fontSize: 12 }}>
+        {approval.source}
+      </Text>
+
+      <Text
+        className="mt-3 mb-1"
+        style={{
+          color: secondaryColor,
+          fontSize: 11,
+          fontWeight: "600",
+          letterSpacing: 0.3,
+          textTransform: "uppercase",
+        }}
+      >
+        Arguments
+      </Text>
+      <TextInput
+        value={argumentsText}
+        onChangeText={handleChangeArguments}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel={`Arguments for ${approval.toolName}`}
+        className="rounded-lg px-2.5 py-2"
+        style={{
+          color: theme.colors.text,
+          fontSize: 12,
+          maxHeight: 160,
+          borderWidth: 1,
+          borderColor: argumentsError ? errorColor : theme.colors.border ?? secondaryColor,
+        }}
+        testID={`tool-approval-input-${approval.id}`}
+      />
+      {argumentsError ? (
+        <Text className="mt-1" style={{ color: errorColor, fontSize: 12 }}>
+          {argumentsError}
+        </Text>
+      ) : null}
+
+      <View className="mt-3 flex-row justify-end gap-2">
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => onResolve(approval.id, { approved: false })}
+          className="rounded-md px-3 py-1.5"
+          style={{ backgroundColor: errorColor + "20" }}
+          testID={`tool-approval-deny-${approval.id}`}
+        >
+          <Text style={{ color: errorColor, fontSize: 14, fontWeight: "600" }}>Deny</Text>
+        </Pressable>
+        <Pressable
+          accessibilityRole="button"
+          onPress={handleRun}
+          className="rounded-md px-3 py-1.5"
+          style={{ backgroundColor: theme.colors.accent }}
+          testID={`tool-approval-run-${approval.id}`}
+        >
+          <Text style={{ color: "#ffffff", fontSize: 14, fontWeight: "600" }}>Run</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+ToolApprovalCard.displayName = "ToolApprovalCard";
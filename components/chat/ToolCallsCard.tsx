@@ -0,0 +1,171 @@
+/**
+ * @file ToolCallsCard.tsx
+ * @purpose Collapsible audit trail of the tool calls behind an assistant reply:
+ * arguments, approval, outcome and timing, styled like the web search header.
+ */
+
+import React, { memo, useState } from "react";
+import { ActivityIndicator, Pressable, Text, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+import type { ChatToolCallAnnotation, ChatToolCallRun } from "@/types/chat.types";
+
+interface ToolCallsCardProps {
+  toolCalls: ChatToolCallAnnotation;
+}
+
+const formatToolCallSummary = (toolCalls: ChatToolCallAnnotation): string => {
+  const waiting = toolCalls.calls.filter((call) => call.status === "awaiting-approval");
+  if (waiting.length > 0) {
+    return `Waiting for approval of ${waiting[waiting.length - 1].toolName}`;
+  }
+
+  const running = toolCalls.calls.filter((call) => call.status === "running");
+  if (running.length > 0) {
+    return `Running ${running[running.length - 1].toolName}`;
+  }
+
+  const callLabel = toolCalls.calls.length === 1 ? "call" : "calls";
+  const details = [
+    ["failed", toolCalls.calls.filter((call) => call.status === "error").length],
+    ["denied", toolCalls.calls.filter((call) => call.status === "denied").length],
+  ] as const;
+  return [
+    `${toolCalls.calls.length} ${callLabel}`,
+    ...details.filter(([, count]) => count > 0).map(([label, count]) => `${count} ${label}`),
+  ].join(", ");
+};
+
+const APPROVAL_LABELS: Record<NonNullable<ChatToolCallRun["approval"]>, string> = {
+  auto: "Auto-approved",
+  approved: "Approved",
+  edited: "Approved with edits",
+  denied: "Denied",
+};
+
+/** "Approved · 1.2s" */
+const formatCallDetails = (call: ChatToolCallRun): string | null => {
+  const parts: string[] = [];
+  if (call.approval) {
+    parts.push(APPROVAL_LABELS[call.approval]);
+  }
+  if (call.durationMs !== undefined) {
+    parts.push(call.durationMs < 1000 ? `${call.durationMs}ms` : `${(call.durationMs / 1000).toFixed(1)}s`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+};
+
+export const ToolCallsCard: React.FC<ToolCallsCardProps> = memo(({ toolCalls }) => {
+  const { theme } = useTheme();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isRunning = toolCalls.status === "running" || toolCalls.status === "awaiting-approval";
+  const errorColor = theme.colors.error ?? "#dc2626";
+  const secondaryColor = theme.colors.textSecondary ?? theme.colors.text;
+  const headerColor = toolCalls.status === "error" ? errorColor : theme.colors.accent;
+
+  return (
+    <View className="mb-2">
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={isExpanded ? "Hide tool call details" : "Show tool call details"}
+        onPress={() => setIsExpanded((prev) => !prev)}
+        className="flex-row items-center py-1"
+        testID="tool-calls-card-toggle"
+      >
+        <View style={{ width: 18, alignItems: "center", justifyContent: "center", marginRight: 6 }}>
+          {isRunning ? (
+            <ActivityIndicator size="small" color={theme.colors.accent} testID="tool-calls-card-spinner" />
+          ) : (
+            <View style={{ width: 6, height: 6, borderRadius: 3, backgroundColor: headerColor }} />
+          )}
+        </View>
+        <Text
+          style={{
+            color: headerColor,
+            fontSize: 12,
+            fontWeight: "700",
+            letterSpacing: 0.3,
+            textTransform: "uppercase",
+          }}
+        >
+          Tools
+        </Text>
+        <Text className="ml-2 flex-1" style={{ color: secondaryColor, fontSize: 12 }} numberOfLines={1}>
+          {`· ${formatToolCallSummary(toolCalls)}`}
+        </Text>
+        <Text style={{ color: secondaryColor, fontSize: 11, fontWeight: "600" }}>
+          {isExpanded ? "▲" : "▼"}
+        </Text>
+      </Pressable>
+
+      {isExpanded ? (
+        <View className="mt-1" testID="tool-calls-card-content">
+          {toolCalls.calls.map((call, callIndex) => {
+            const callDetails = formatCallDetails(call);
+            return (
+              <View key={`${call.source}-${call.toolName}-${callIndex}`} className="mb-3">
+                <View
+                  className="flex-row items-center justify-between pb-1 mb-1"
+                  style={{ borderBottomWidth: 1, borderBottomColor: theme.colors.border ?? secondaryColor }}
+                >
+                  <Text
+                    className="flex-1 mr-2"
+                    style={{
+                      color: secondaryColor,
+                      fontSize: 11,
+                      fontWeight: "600",
+                      textTransform: "uppercase",
+                      letterSpacing: 0.3,
+                    }}
+                    numberOfLines={1}
+                  >
+                    {`${call.toolName} · ${call.source}`}
+                  </Text>
+                  {call.status === "error" || call.status === "denied" ? (
+                    <Text style={{ color: errorColor, fontSize: 10, fontWeight: "600", textTransform: "uppercase" }}>
+                      {call.status === "error" ? "Error" : "Denied"}
+                    </Text>
+                  ) : null}
+                </View>
+
+                {callDetails ? (
+                  <Text className="pl-3 mb-0.5" style={{ color: secondaryColor, fontSize: 11 }}>
+                    {callDetails}
+                  </Text>
+                ) : null}
+
+                {call.proposedInput ? (
+                  <Text
+                    className="pl-3"
+                    style={{ color: secondaryColor, fontSize: 11, textDecorationLine: "line-through" }}
+                    numberOfLines={3}
+                  >
+                    {call.proposedInput}
+                  </Text>
+                ) : null}
+
+                <Text className="pl-3" style={{ color: secondaryColor, fontSize: 11 }} numberOfLines={3}>
+                  {call.input}
+                </Text>
+
+                {call.error ? (
+                  <Text className="mt-1 pl-3" style={{ color: errorColor, fontSize: 12 }}>
+                    {call.error}
+                  </Text>
+                ) : null}
+
+                {call.output ? (
+                  <Text className="mt-1 pl-3" style={{ color: theme.colors.text, fontSize: 12 }} numberOfLines={8}>
+                    {call.output}
+                  </Text>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+    </View>
+  );
+});
+
+ToolCallsCard.displayName = "ToolCallsCard";
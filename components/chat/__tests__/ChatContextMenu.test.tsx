@@ -11,12 +11,13 @@ import {
   waitFor,
 } from "@testing-library/react-native";
 import { ChatContextMenu } from "../ChatContextMenu";
-import { useProviderStore, isProviderConfigured } from "@/stores";
+import { useAuthStore, useProviderStore, isProviderConfigured } from "@/stores";
 import useHapticFeedback from "@/hooks/useHapticFeedback";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { useSettingsStore } from "@/stores/useSettingsStore";
 
 jest.mock("@/stores", () => ({
+  useAuthStore: jest.fn(),
   useProviderStore: jest.fn(),
   isProviderConfigured: jest.fn(),
 }));
@@ -88,6 +89,10 @@ describe("ChatContextMenu", () => {
     setSelectedModel: mockSetSelectedModel,
   };
 
+  const authStore: any = {
+    customEndpoints: [],
+  };
+
   const settingsStore: any = {
     thinkingEnabled: true,
     setThinkingEnabled: mockSetThinkingEnabled,
@@ -105,6 +110,10 @@ describe("ChatContextMenu", () => {
     providerStore.customModels = {};
     providerStore.hiddenModels = {};
     providerStore.availableModels = {};
+    providerStore.catalogCapabilities = {};
+    providerStore.capabilityOverrides = {};
+
+    authStore.customEndpoints = [];
 
     settingsStore.thinkingEnabled = true;
     settingsStore.thinkingLevel = "medium";
@@ -116,6 +125,9 @@ describe("ChatContextMenu", () => {
 
     (useTheme as jest.Mock).mockReturnValue({ theme: mockTheme });
     (useProviderStore as unknown as jest.Mock).mockReturnValue(providerStore);
+    (useAuthStore as unknown as jest.Mock).mockImplementation((selector: (state: typeof authStore) => unknown) => {
+      return selector(authStore);
+    });
     (useSettingsStore as unknown as jest.Mock).mockImplementation((selector: (state: typeof settingsStore) => unknown) => {
       return selector(settingsStore);
     });
@@ -176,6 +188,22 @@ describe("ChatContextMenu", () => {
     expect(screen.getAllByText("Apple Intelligence").length).toBeGreaterThan(0);
   });
 
+  it("lists each custom endpoint as its own provider with its fetched models", () => {
+    authStore.customEndpoints = [
+      { id: "custom:lab-vllm", name: "Lab vLLM", baseUrl: "http://10.0.0.5:8000/v1", apiKey: null, headers: {} },
+    ];
+    providerStore.availableModels = { "custom:lab-vllm": ["qwen3-32b"] };
+
+    render(<ChatContextMenu onReset={mockOnReset} />);
+
+    fireEvent.press(screen.getByTestId("chat-toolbar-model-trigger"));
+    fireEvent.press(screen.getByTestId("chat-toolbar-provider-custom:lab-vllm"));
+    fireEvent.press(screen.getByTestId("chat-model-option-qwen3-32b"));
+
+    expect(mockSetSelectedProvider).toHaveBeenCalledWith("custom:lab-vllm");
+    expect(mockSetSelectedModel).toHaveBeenCalledWith("qwen3-32b");
+  });
+
   it("shows an empty-state message when a provider has no available models", () => {
     providerStore.availableModels = { ollama: [] };
 
@@ -187,6 +215,68 @@ describe("ChatContextMenu", () => {
     expect(screen.getByTestId("chat-model-empty-state")).toBeTruthy();
   });
 
+  it("picks a model for regenerating without changing the chat's selection", async () => {
+    const onRegenerateSelect = jest.fn();
+    const onRegenerateDismiss = jest.fn();
+
+    render(
+      <ChatContextMenu
+        onReset={mockOnReset}
+        regenerateMessageIndex={3}
+        onRegenerateSelect={onRegenerateSelect}
+        onRegenerateDismiss={onRegenerateDismiss}
+      />,
+    );
+
+    expect(screen.getByText("Regenerate With")).toBeTruthy();
+    fireEvent.press(screen.getByTestId("chat-toolbar-provider-openai"));
+    fireEvent.press(screen.getByTestId("chat-model-option-gpt-5"));
+
+    await waitFor(() => {
+      expect(onRegenerateSelect).toHaveBeenCalledWith("openai", "gpt-5");
+    });
+
+    expect(onRegenerateDismiss).toHaveBeenCalledTimes(1);
+    expect(mockSetSelectedProvider).not.toHaveBeenCalled();
+    expect(mockSetSelectedModel).not.toHaveBeenCalled();
+  });
+
+  it("toggles compare selections in the model sheet up to the limit", () => {
+    const onCompareSelectionsChange = jest.fn();
+    const { rerender } = render(
+      <ChatContextMenu
+        onReset={mockOnReset}
+        compareSelections={[{ providerId: "openai", modelId: "gpt-5" }]}
+        onCompareSelectionsChange={onCompareSelectionsChange}
+        maxCompareSelections={2}
+      />,
+    );
+
+    fireEvent.press(screen.getByTestId("chat-toolbar-compare-trigger"));
+    expect(screen.getByText("Compare Models (1/2)")).toBeTruthy();
+
+    fireEvent.press(screen.getByTestId("chat-toolbar-provider-openai"));
+    fireEvent.press(screen.getByTestId("chat-model-option-gpt-5"));
+    expect(onCompareSelectionsChange).toHaveBeenLastCalledWith([]);
+
+    rerender(
+      <ChatContextMenu
+        onReset={mockOnReset}
+        compareSelections={[
+          { providerId: "openai", modelId: "gpt-5" },
+          { providerId: "openai", modelId: "gpt-5-mini" },
+        ]}
+        onCompareSelectionsChange={onCompareSelectionsChange}
+        maxCompareSelections={2}
+      />,
+    );
+    onCompareSelectionsChange.mockClear();
+    fireEvent.press(screen.getByTestId("chat-model-option-gpt-4-1"));
+
+    expect(onCompareSelectionsChange).not.toHaveBeenCalled();
+    expect(mockSetSelectedModel).not.toHaveBeenCalled();
+  });
+
   it("opens the options sheet and triggers rename", async () => {
     render(<ChatContextMenu onReset={mockOnReset} onRename={mockOnRename} />);
 
@@ -200,6 +290,25 @@ describe("ChatContextMenu", () => {
     expect(mockTriggerPress).toHaveBeenCalledWith("light");
   });
 
+  it("shows the system prompt summary and opens the editor", async () => {
+    const onEditSystemPrompt = jest.fn();
+    render(
+      <ChatContextMenu
+        onReset={mockOnReset}
+        onEditSystemPrompt={onEditSystemPrompt}
+        systemPromptSummary="Pirate"
+      />,
+    );
+
+    fireEvent.press(screen.getByTestId("chat-toolbar-options-trigger"));
+    expect(screen.getByTestId("chat-toolbar-system-prompt-summary").props.children).toBe("Pirate");
+    fireEvent.press(screen.getByTestId("chat-toolbar-system-prompt-action"));
+
+    await waitFor(() => {
+      expect(onEditSystemPrompt).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it("opens the options sheet and triggers reset", () => {
     render(<ChatContextMenu onReset={mockOnReset} />);
 
@@ -243,6 +352,37 @@ describe("ChatContextMenu", () => {
     expect(mockSetThinkingLevel).toHaveBeenCalledWith("medium");
   });
 
+  it("disables web search for models without tool support", () => {
+    providerStore.selectedProvider = "openai";
+    providerStore.selectedModel = "o1-mini";
+    settingsStore.webSearchEnabled = true;
+
+    render(<ChatContextMenu onReset={mockOnReset} />);
+
+    const toggle = screen.getByTestId("chat-toolbar-web-toggle");
+    expect(toggle.props.accessibilityState).toMatchObject({ selected: false, disabled: true });
+
+    fireEvent.press(toggle);
+    expect(mockSetWebSearchEnabled).not.toHaveBeenCalled();
+  });
+
+  it("follows catalog capabilities and user overrides for the thinking chip", () => {
+    providerStore.selectedProvider = "openrouter";
+    providerStore.selectedModel = "acme/reasoner";
+    providerStore.catalogCapabilities = {
+      openrouter: { "acme/reasoner": { reasoning: true } },
+    };
+
+    const { rerender } = render(<ChatContextMenu onReset={mockOnReset} />);
+    expect(screen.getByTestId("chat-toolbar-thinking-level-chip")).toBeTruthy();
+
+    providerStore.capabilityOverrides = {
+      openrouter: { "acme/reasoner": { reasoning: false } },
+    };
+    rerender(<ChatContextMenu onReset={mockOnReset} />);
+    expect(screen.queryByTestId("chat-toolbar-thinking-level-chip")).toBeNull();
+  });
+
   it("hides the thinking level chip for non-reasoning models", () => {
     providerStore.selectedProvider = "apple";
     providerStore.selectedModel = "system-default";
@@ -0,0 +1,101 @@
+/**
+ * @file CompareResponses.test.tsx
+ * @purpose Tests for the compare-mode answer cards
+ */
+
+import React from "react";
+import { fireEvent, render } from "@testing-library/react-native";
+import { CompareResponses } from "../CompareResponses";
+import type { CompareLane } from "@/hooks/chat/useChatCompare";
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      colors: {
+        text: "#000000",
+        textSecondary: "#666666",
+        accent: "#007AFF",
+        surface: "#FFFFFF",
+        border: "#E5E5EA",
+        error: "#FF3B30",
+      },
+      borderRadius: { lg: 16 },
+    },
+  }),
+}));
+
+jest.mock("../MessageBubble", () => {
+  const { Text } = jest.requireActual("react-native");
+  return {
+    MessageBubble: ({ content }: { content: string }) => <Text>{content}</Text>,
+  };
+});
+
+const createLane = (overrides: Partial<CompareLane>): CompareLane => ({
+  selection: { providerId: "openai", modelId: "gpt-5" },
+  reply: { role: "assistant", content: "Answer" },
+  thinkingOutput: "",
+  streamState: "completed",
+  isError: false,
+  cancel: jest.fn(),
+  ...overrides,
+});
+
+describe("CompareResponses", () => {
+  it("renders a card per lane and picks a finished answer", () => {
+    const onPick = jest.fn();
+    const { getByText, getByTestId } = render(
+      <CompareResponses
+        lanes={[
+          createLane({}),
+          createLane({
+            selection: { providerId: "ollama", modelId: "llama3.2" },
+            reply: { role: "assistant", content: "Other answer" },
+          }),
+        ]}
+        onPick={onPick}
+        onDiscard={jest.fn()}
+      />
+    );
+
+    expect(getByText("Comparing 2 models")).toBeTruthy();
+    expect(getByText("OpenAI · gpt-5")).toBeTruthy();
+    expect(getByText("Other answer")).toBeTruthy();
+
+    fireEvent.press(getByTestId("compare-lane-pick-1"));
+    expect(onPick).toHaveBeenCalledWith(1);
+  });
+
+  it("lets a streaming lane be stopped but not picked", () => {
+    const cancel = jest.fn();
+    const onPick = jest.fn();
+    const { getByTestId } = render(
+      <CompareResponses
+        lanes={[createLane({ streamState: "streaming", cancel })]}
+        onPick={onPick}
+        onDiscard={jest.fn()}
+      />
+    );
+
+    fireEvent.press(getByTestId("compare-lane-cancel-0"));
+    fireEvent.press(getByTestId("compare-lane-pick-0"));
+
+    expect(cancel).toHaveBeenCalledTimes(1);
+    expect(onPick).not.toHaveBeenCalled();
+  });
+
+  it("shows failed lanes and discards the comparison", () => {
+    const onDiscard = jest.fn();
+    const { getByTestId } = render(
+      <CompareResponses
+        lanes={[createLane({ streamState: "error", isError: true })]}
+        onPick={jest.fn()}
+        onDiscard={onDiscard}
+      />
+    );
+
+    expect(getByTestId("compare-lane-status-0")).toHaveTextContent("Failed");
+    fireEvent.press(getByTestId("compare-discard"));
+    expect(onDiscard).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @file ContextUsageIndicator.test.tsx
+ * @purpose Tests for ContextUsageIndicator covering unknown context sizes, fill level and trimmed turns
+ */
+
+import React from "react";
+import { render } from "@testing-library/react-native";
+import { ContextUsageIndicator } from "../ContextUsageIndicator";
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      colors: {
+        error: "#ff0000",
+        text: "#000000",
+        textSecondary: "#666666",
+      },
+    },
+  }),
+}));
+
+describe("ContextUsageIndicator Component", () => {
+  /**
+   * Test: Nothing is shown when the model's context size is unknown
+   */
+  it("renders nothing without a context size", () => {
+    const { queryByTestId } = render(
+      <ContextUsageIndicator usedTokens={1200} contextTokens={null} />
+    );
+
+    expect(queryByTestId("chat-context-usage")).toBeNull();
+  });
+
+  /**
+   * Test: The badge reports the fill level in its text and accessibility label
+   */
+  it("shows how full the context window is", () => {
+    const { getByTestId, getByText, queryByTestId } = render(
+      <ContextUsageIndicator usedTokens={32000} contextTokens={128000} />
+    );
+
+    expect(getByText("25%")).toBeTruthy();
+    expect(getByTestId("chat-context-usage").props.accessibilityLabel).toBe(
+      "Context 25% full, about 32K of 128K tokens"
+    );
+    expect(queryByTestId("chat-context-usage-trimmed")).toBeNull();
+  });
+
+  /**
+   * Test: A nearly full window is highlighted and trimmed messages are counted
+   */
+  it("highlights a nearly full window and counts left-out messages", () => {
+    const { getByTestId, getByText } = render(
+      <ContextUsageIndicator usedTokens={3500} contextTokens={4096} omittedCount={6} />
+    );
+
+    expect(getByText("85%").props.style).toMatchObject({ color: "#ff0000" });
+    expect(getByTestId("chat-context-usage-trimmed")).toBeTruthy();
+    expect(getByTestId("chat-context-usage").props.accessibilityLabel).toContain(
+      "6 older messages left out"
+    );
+  });
+});
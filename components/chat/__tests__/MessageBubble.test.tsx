@@ -443,4 +443,285 @@ describe("MessageBubble Component", () => {
       expect.objectContaining({ content: "Second AI response", isUser: false })
     );
   });
+
+  /**
+   * Test: Editing a user message submits the new text with its position
+   */
+  it("edits a user message inline and submits the new text", () => {
+    const onEditMessage = jest.fn();
+    const { getByTestId, queryByTestId } = render(
+      <MessageBubble
+        content="Original question"
+        isUser={true}
+        messageIndex={2}
+        onEditMessage={onEditMessage}
+      />
+    );
+
+    fireEvent.press(getByTestId("message-bubble-edit"));
+    fireEvent.changeText(getByTestId("message-bubble-edit-input"), "Better question");
+    fireEvent.press(getByTestId("message-bubble-edit-submit"));
+
+    expect(onEditMessage).toHaveBeenCalledWith(2, "Better question");
+    expect(queryByTestId("message-bubble-edit-input")).toBeNull();
+  });
+
+  /**
+   * Test: Edit controls only appear when editing is enabled for user messages
+   */
+  it("hides the edit action for assistant messages and when editing is disabled", () => {
+    const { queryByTestId, rerender } = render(
+      <MessageBubble content="Reply" isUser={false} onEditMessage={jest.fn()} />
+    );
+
+    expect(queryByTestId("message-bubble-edit")).toBeNull();
+
+    rerender(<MessageBubble content="Question" isUser={true} />);
+
+    expect(queryByTestId("message-bubble-edit")).toBeNull();
+  });
+
+  /**
+   * Test: Branch pager shows the position and pages between variants
+   */
+  it("renders a branch pager and requests neighbouring variants", () => {
+    const onSwitchBranch = jest.fn();
+    const { getByText, getByTestId } = render(
+      <MessageBubble
+        content="Question"
+        isUser={true}
+        messageIndex={4}
+        branchIndex={1}
+        branchCount={3}
+        onSwitchBranch={onSwitchBranch}
+      />
+    );
+
+    expect(getByText("2/3")).toBeTruthy();
+
+    fireEvent.press(getByTestId("message-bubble-branch-previous"));
+    fireEvent.press(getByTestId("message-bubble-branch-next"));
+
+    expect(onSwitchBranch).toHaveBeenNthCalledWith(1, 4, 0);
+    expect(onSwitchBranch).toHaveBeenNthCalledWith(2, 4, 2);
+  });
+
+  /**
+   * Test: Assistant replies offer "Regenerate with…" and show the model that made them
+   */
+  it("requests a regenerate for assistant replies and shows the model label", () => {
+    const onRegenerateMessage = jest.fn();
+    const { getByTestId, getByText, queryByTestId, rerender } = render(
+      <MessageBubble
+        content="Reply"
+        isUser={false}
+        messageIndex={3}
+        modelLabel="Ollama · llama3.2"
+        onRegenerateMessage={onRegenerateMessage}
+      />
+    );
+
+    expect(getByText("Ollama · llama3.2")).toBeTruthy();
+    fireEvent.press(getByTestId("message-bubble-regenerate"));
+    expect(onRegenerateMessage).toHaveBeenCalledWith(3);
+
+    rerender(
+      <MessageBubble
+        content="Reply"
+        isUser={false}
+        isStreaming={true}
+        onRegenerateMessage={onRegenerateMessage}
+      />
+    );
+
+    expect(queryByTestId("message-bubble-regenerate")).toBeNull();
+    expect(queryByTestId("message-bubble-model-label")).toBeNull();
+  });
+
+  /**
+   * Test: Replies that fell back show which providers failed first
+   */
+  it("shows the fallback hops on assistant replies only", () => {
+    const { getByTestId, queryByTestId, rerender } = render(
+      <MessageBubble
+        content="Reply"
+        isUser={false}
+        fallbackLabel="Fell back from OpenAI (rate limited)"
+      />
+    );
+
+    expect(getByTestId("message-bubble-fallback-label")).toHaveTextContent("Fell back from OpenAI (rate limited)");
+
+    rerender(
+      <MessageBubble
+        content="Question"
+        isUser={true}
+        fallbackLabel="Fell back from OpenAI (rate limited)"
+      />
+    );
+
+    expect(queryByTestId("message-bubble-fallback-label")).toBeNull();
+  });
+
+  /**
+   * Test: Pinning is offered when the chat keeps pinned messages and reflects the current state
+   */
+  it("toggles the pin on a message and shows pinned state while streaming", () => {
+    const onTogglePin = jest.fn();
+    const { getByTestId, getByText, queryByTestId, rerender } = render(
+      <MessageBubble
+        content="Remember the budget is 400 euros"
+        isUser={true}
+        messageIndex={2}
+        onTogglePin={onTogglePin}
+      />
+    );
+
+    expect(getByText("Pin")).toBeTruthy();
+    fireEvent.press(getByTestId("message-bubble-pin"));
+    expect(onTogglePin).toHaveBeenCalledWith(2);
+
+    rerender(
+      <MessageBubble
+        content="Remember the budget is 400 euros"
+        isUser={true}
+        isPinned={true}
+        isStreaming={true}
+        messageIndex={2}
+      />
+    );
+
+    expect(queryByTestId("message-bubble-pin")).toBeNull();
+    expect(getByTestId("message-bubble-pinned-label")).toBeTruthy();
+  });
+
+  /**
+   * Test: Assistant replies with web search get numbered sources and a warning for made-up citations
+   */
+  it("passes numbered sources to the markdown and flags citations with no source", () => {
+    const webSearch = {
+      type: "web-search" as const,
+      status: "success" as const,
+      totalSources: 1,
+      queries: [
+        {
+          query: "tide times",
+          provider: "openai" as const,
+          status: "success" as const,
+          resultCount: 1,
+          startedAt: 1,
+          sources: [{ title: "Tide tables", url: "https://tides.example.com", citationNumber: 1 }],
+        },
+      ],
+    };
+
+    const { getByTestId, getByText, queryByTestId, rerender } = render(
+      <MessageBubble
+        content="High tide is at six [1] and low tide at noon [4]."
+        isUser={false}
+        webSearch={webSearch}
+      />
+    );
+
+    const citationSources = mockCustomMarkdown.mock.calls.at(-1)?.[0].citationSources;
+    expect(citationSources.get(1)).toMatchObject({ title: "Tide tables" });
+    expect(getByTestId("unmatched-citations-warning").props.children).toBe(
+      "Cites [4], which no web search in this reply returned."
+    );
+
+    fireEvent.press(getByTestId("web-search-card-toggle"));
+    expect(getByText("[1] Tide tables")).toBeTruthy();
+
+    rerender(
+      <MessageBubble
+        content="High tide is at six [1] and low tide at noon [4]."
+        isUser={false}
+        isStreaming={true}
+        webSearch={webSearch}
+      />
+    );
+    expect(queryByTestId("unmatched-citations-warning")).toBeNull();
+  });
+
+  /**
+   * Test: Bracketed numbers stay plain text when the reply did not search
+   */
+  it("leaves citation rendering off for replies without web search", () => {
+    render(
+      <MessageBubble
+        content="See step [2]."
+        isUser={false}
+      />
+    );
+
+    expect(mockCustomMarkdown.mock.calls.at(-1)?.[0].citationSources).toBeUndefined();
+  });
+
+  it("shows file cards with the document name and page count", () => {
+    const { getAllByTestId, getByText } = render(
+      <MessageBubble
+        content={[
+          { type: "text", text: "Compare these" },
+          {
+            type: "file",
+            data: "file:///cache/tides.pdf",
+            mediaType: "application/pdf",
+            filename: "tides.pdf",
+            providerOptions: { seabreeze: { pageCount: 12 } },
+          },
+          { type: "file", data: "file:///cache/harbour.csv", mediaType: "text/csv", filename: "harbour.csv" },
+        ]}
+        isUser={true}
+      />
+    );
+
+    expect(getByText("tides.pdf")).toBeTruthy();
+    expect(getByText("harbour.csv")).toBeTruthy();
+    expect(getAllByTestId("message-bubble-file-details").map((node) => node.props.children)).toEqual([
+      "PDF · 12 pages",
+      "CSV",
+    ]);
+  });
+
+  it("labels document passages by collection and does not open them as links", () => {
+    const webSearch = {
+      type: "web-search" as const,
+      status: "success" as const,
+      totalSources: 1,
+      queries: [
+        {
+          kind: "documents" as const,
+          query: "mooring lines",
+          provider: "ollama" as const,
+          status: "success" as const,
+          resultCount: 1,
+          startedAt: 1,
+          sources: [
+            {
+              title: "Boat manual.pdf",
+              url: "seabreeze-document:4#12",
+              snippet: "Double the bow line in strong winds.",
+              byline: "Boat · Passage 12 of 80",
+              citationNumber: 1,
+              documentId: 4,
+            },
+          ],
+        },
+      ],
+    };
+
+    const { getByTestId, getByText } = render(
+      <MessageBubble content="Double the bow line [1]." isUser={false} webSearch={webSearch} />
+    );
+
+    expect(getByText("Documents")).toBeTruthy();
+    expect(getByText("· 1 passage from your documents")).toBeTruthy();
+
+    fireEvent.press(getByTestId("web-search-card-toggle"));
+    expect(getByText("Documents · mooring lines")).toBeTruthy();
+    expect(getByText("Boat · Passage 12 of 80")).toBeTruthy();
+    expect(getByTestId("message-bubble-passage-snippet").props.children).toBe(
+      "Double the bow line in strong winds."
+    );
+  });
 });
@@ -56,6 +56,7 @@ describe("MessageInput", () => {
   const mockOnSend = jest.fn();
   const mockOnTakePhoto = jest.fn();
   const mockOnChooseFromLibrary = jest.fn();
+  const mockOnChooseDocument = jest.fn();
   const mockOnRemoveAttachment = jest.fn();
   const mockOnCancel = jest.fn();
   const mockOnLayout = jest.fn();
@@ -294,6 +295,85 @@ describe("MessageInput", () => {
     expect(mockOnSend).not.toHaveBeenCalled();
   });
 
+  it("hides the camera when the model only reads video", () => {
+    const { getByTestId, queryByTestId } = render(
+      <MessageInput
+        value=""
+        onChangeText={mockOnChangeText}
+        onSend={mockOnSend}
+        onTakePhoto={mockOnTakePhoto}
+        onChooseFromLibrary={mockOnChooseFromLibrary}
+        canAttachImages={false}
+      />,
+    );
+
+    fireEvent.press(getByTestId("message-input-add"));
+
+    expect(queryByTestId("media-menu-take-photo")).toBeNull();
+    expect(getByTestId("media-menu-choose-library")).toBeTruthy();
+  });
+
+  it("disables the add button when the model accepts no media", () => {
+    const { getByTestId, queryByTestId } = render(
+      <MessageInput
+        value=""
+        onChangeText={mockOnChangeText}
+        onSend={mockOnSend}
+        onTakePhoto={mockOnTakePhoto}
+        onChooseFromLibrary={mockOnChooseFromLibrary}
+        canAttachImages={false}
+        canAttachVideos={false}
+      />,
+    );
+
+    const addButton = getByTestId("message-input-add");
+    expect(addButton.props.accessibilityState?.disabled).toBe(true);
+    expect(addButton.props.accessibilityHint).toBe("The selected model does not accept photos or videos");
+
+    fireEvent.press(addButton);
+    expect(queryByTestId("media-menu-popover")).toBeNull();
+  });
+
+  it("offers files even when the model reads neither photos nor videos", async () => {
+    const { getByTestId, queryByTestId } = render(
+      <MessageInput
+        value=""
+        onChangeText={mockOnChangeText}
+        onSend={mockOnSend}
+        onTakePhoto={mockOnTakePhoto}
+        onChooseFromLibrary={mockOnChooseFromLibrary}
+        onChooseDocument={mockOnChooseDocument}
+        canAttachImages={false}
+        canAttachVideos={false}
+      />,
+    );
+
+    const addButton = getByTestId("message-input-add");
+    expect(addButton.props.accessibilityHint).toBe("Add files");
+
+    fireEvent.press(addButton);
+    expect(queryByTestId("media-menu-choose-library")).toBeNull();
+    fireEvent.press(getByTestId("media-menu-choose-file"));
+
+    await waitFor(() => {
+      expect(mockOnChooseDocument).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("lists every attachable kind in the add button hint", () => {
+    const { getByTestId } = render(
+      <MessageInput
+        value=""
+        onChangeText={mockOnChangeText}
+        onSend={mockOnSend}
+        onChooseFromLibrary={mockOnChooseFromLibrary}
+        onChooseDocument={mockOnChooseDocument}
+      />,
+    );
+
+    expect(getByTestId("message-input-add").props.accessibilityHint).toBe("Add photos, videos or files");
+  });
+
   it("forwards wrapper layout changes", () => {
     const { getByTestId } = render(
       <MessageInput
@@ -4,11 +4,12 @@
  */
 
 import React from "react";
-import { render, act } from "@testing-library/react-native";
+import { render, act, waitFor } from "@testing-library/react-native";
 import type { ModelMessage } from "ai";
 import { MessageList } from "../MessageList";
 
 const mockScrollToEnd = jest.fn();
+const mockScrollToIndex = jest.fn();
 let latestFlashListProps: any = null;
 
 // Mock FlashList component
@@ -21,6 +22,7 @@ jest.mock("@shopify/flash-list", () => {
 
     React.useImperativeHandle(ref, () => ({
       scrollToEnd: mockScrollToEnd,
+      scrollToIndex: mockScrollToIndex,
     }));
 
     if (!data || data.length === 0) {
@@ -54,6 +56,7 @@ jest.mock("../MessageBubble", () => {
       isUser,
       isStreaming,
       isError,
+      fallbackLabel,
     }: any) {
       const renderContent = (): string => {
         if (typeof content === "string") {
@@ -96,6 +99,7 @@ jest.mock("../MessageBubble", () => {
           {renderContent()}
           {isError && " (error)"}
           {isStreaming && " (streaming)"}
+          {fallbackLabel && ` [${fallbackLabel}]`}
         </Text>
       );
     },
@@ -137,9 +141,27 @@ describe("MessageList Component", () => {
 
   beforeEach(() => {
     mockScrollToEnd.mockClear();
+    mockScrollToIndex.mockClear();
     latestFlashListProps = null;
   });
 
+  it("scrolls to the focused message once hydrated messages arrive", async () => {
+    const { rerender } = render(
+      <MessageList messages={[]} focusMessageIndex={2} />
+    );
+
+    expect(mockScrollToIndex).not.toHaveBeenCalled();
+
+    rerender(<MessageList messages={mockMessages} focusMessageIndex={2} />);
+
+    await waitFor(() => {
+      expect(mockScrollToIndex).toHaveBeenCalledWith(
+        expect.objectContaining({ index: 2, animated: false })
+      );
+    });
+    expect(mockScrollToEnd).not.toHaveBeenCalled();
+  });
+
   /**
    * Test: Component renders with messages
    */
@@ -305,6 +327,30 @@ describe("MessageList Component", () => {
     expect(getByText("Generation failed (error)")).toBeDefined();
   });
 
+  it("labels replies that fell back with each failed provider and reason", () => {
+    const fallbackMessages: ModelMessage[] = [
+      {
+        role: "assistant",
+        content: "Answer",
+        annotations: [
+          {
+            type: "fallback",
+            hops: [
+              { fromProvider: "openai", fromModel: "gpt-4o", toProvider: "anthropic", toModel: "claude-sonnet-4-5", category: "rate_limit" },
+              { fromProvider: "anthropic", fromModel: "claude-sonnet-4-5", toProvider: "ollama", toModel: "qwen2.5", category: "server_error" },
+            ],
+          },
+        ],
+      } as unknown as ModelMessage,
+    ];
+
+    const { getByText } = render(
+      <MessageList messages={fallbackMessages} isStreaming={false} />
+    );
+
+    expect(getByText("Answer [Fell back from OpenAI (rate limited) → Anthropic (server error)]")).toBeDefined();
+  });
+
   /**
    * Test: Mixed user and assistant messages render correctly
    */
@@ -4,8 +4,8 @@
  */
 
 import React from "react";
-import { render, fireEvent } from "@testing-library/react-native";
-import { RetryBanner } from "../RetryBanner";
+import { act, render, fireEvent } from "@testing-library/react-native";
+import { formatCountdown, RetryBanner } from "../RetryBanner";
 
 // Mock useTheme hook to provide required theme colors
 jest.mock("@/components/ui/ThemeProvider", () => ({
@@ -298,4 +298,86 @@ describe("RetryBanner Component", () => {
     );
     expect(queryByText2("Retry")).toBeNull();
   });
+
+  /**
+   * Test: Rate-limit countdown holds the retry button until the reset
+   */
+  it("counts down to a rate-limit reset before allowing a retry", () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(1_000_000);
+    const mockOnRetry = jest.fn();
+
+    try {
+      const { getByTestId, getByText } = render(
+        <RetryBanner
+          canRetry={true}
+          onRetry={mockOnRetry}
+          errorMessage="Rate limit exceeded"
+          retryAt={1_003_000}
+        />
+      );
+
+      expect(getByText("Limit resets in 3s")).toBeDefined();
+      fireEvent.press(getByTestId("retry-button"));
+      expect(mockOnRetry).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(3_000);
+      });
+
+      expect(() => getByTestId("retry-countdown")).toThrow();
+      fireEvent.press(getByTestId("retry-button"));
+      expect(mockOnRetry).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  /**
+   * Test: Automatic rate-limit retries show their countdown without a retry button
+   */
+  it("shows an automatic retry countdown while the reply waits", () => {
+    const { getByText, queryByText } = render(
+      <RetryBanner
+        canRetry={false}
+        onRetry={jest.fn()}
+        retryAt={Date.now() + 12_000}
+        isRetrying={true}
+      />
+    );
+
+    expect(getByText("Rate limited")).toBeDefined();
+    expect(getByText("Retrying in 12s")).toBeDefined();
+    expect(queryByText("Retry")).toBeNull();
+  });
+
+  /**
+   * Test: Offered fallback provider
+   */
+  it("offers another provider instead of a long wait", () => {
+    const mockOnFallback = jest.fn();
+    const { getByText } = render(
+      <RetryBanner
+        canRetry={true}
+        onRetry={jest.fn()}
+        errorMessage="Rate limit exceeded"
+        retryAt={Date.now() + 3_600_000}
+        fallbackLabel="OpenRouter"
+        onFallback={mockOnFallback}
+      />
+    );
+
+    expect(getByText("Limit resets in 1h 0m")).toBeDefined();
+    fireEvent.press(getByText("Use OpenRouter"));
+    expect(mockOnFallback).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Countdown formatting for seconds, minutes and hours
+   */
+  it("formats countdowns by magnitude", () => {
+    expect(formatCountdown(42)).toBe("42s");
+    expect(formatCountdown(185)).toBe("3:05");
+    expect(formatCountdown(7_800)).toBe("2h 10m");
+  });
 });
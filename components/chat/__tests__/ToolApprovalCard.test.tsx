@@ -0,0 +1,85 @@
+/**
+ * @file ToolApprovalCard.test.tsx
+ * @purpose Tests for ToolApprovalCard covering running, editing and denying a waiting tool call
+ */
+
+import React from "react";
+import { fireEvent, render } from "@testing-library/react-native";
+import { ToolApprovalCard } from "../ToolApprovalCard";
+
+jest.mock("@/components/ui/ThemeProvider", () => ({
+  useTheme: () => ({
+    theme: {
+      colors: {
+        error: "#ff0000",
+        accent: "#007AFF",
+        text: "#000000",
+        textSecondary: "#666666",
+        surface: "#ffffff",
+        border: "#dddddd",
+      },
+    },
+  }),
+}));
+
+const approval = {
+  id: "tool-approval-1",
+  messageIndex: 1,
+  toolName: "delete_page",
+  source: "Docs",
+  input: "{\n  \"page\": \"tides\"\n}",
+};
+
+describe("ToolApprovalCard Component", () => {
+  /**
+   * Test: The proposed call is shown and runs unchanged
+   */
+  it("runs the call with the proposed arguments", () => {
+    const onResolve = jest.fn();
+    const { getByTestId, getByText } = render(
+      <ToolApprovalCard approval={approval} onResolve={onResolve} />
+    );
+
+    expect(getByText("Run delete_page?")).toBeTruthy();
+    expect(getByTestId("tool-approval-input-tool-approval-1").props.value).toBe(approval.input);
+
+    fireEvent.press(getByTestId("tool-approval-run-tool-approval-1"));
+
+    expect(onResolve).toHaveBeenCalledWith("tool-approval-1", { approved: true, input: { page: "tides" } });
+  });
+
+  /**
+   * Test: Edited arguments must parse before the call can run
+   */
+  it("keeps invalid edits from running", () => {
+    const onResolve = jest.fn();
+    const { getByTestId, getByText } = render(
+      <ToolApprovalCard approval={approval} onResolve={onResolve} />
+    );
+
+    fireEvent.changeText(getByTestId("tool-approval-input-tool-approval-1"), "{\"page\": ");
+    fireEvent.press(getByTestId("tool-approval-run-tool-approval-1"));
+
+    expect(getByText("Arguments must be valid JSON.")).toBeTruthy();
+    expect(onResolve).not.toHaveBeenCalled();
+
+    fireEvent.changeText(getByTestId("tool-approval-input-tool-approval-1"), "{\"page\": \"moons\"}");
+    fireEvent.press(getByTestId("tool-approval-run-tool-approval-1"));
+
+    expect(onResolve).toHaveBeenCalledWith("tool-approval-1", { approved: true, input: { page: "moons" } });
+  });
+
+  /**
+   * Test: Deny answers the call without running it
+   */
+  it("denies the call", () => {
+    const onResolve = jest.fn();
+    const { getByTestId } = render(
+      <ToolApprovalCard approval={approval} onResolve={onResolve} />
+    );
+
+    fireEvent.press(getByTestId("tool-approval-deny-tool-approval-1"));
+
+    expect(onResolve).toHaveBeenCalledWith("tool-approval-1", { approved: false });
+  });
+});
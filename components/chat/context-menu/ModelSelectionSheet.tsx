@@ -4,11 +4,15 @@ import { ProviderIcon } from "@/components/ui/ProviderIcons";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { SymbolView } from "expo-symbols";
 
-import { PROVIDER_IDS, toTestIdFragment } from "./utils";
-import { PROVIDERS, type ProviderId } from "@/types/provider.types";
+import { getProviderIds, toTestIdFragment } from "./utils";
+import { resolveProviderInfo, type CustomEndpoint, type ProviderId } from "@/types/provider.types";
 
 interface ModelSelectionSheetProps {
+  /** Sheet heading; defaults to "Choose Model" */
+  title?: string;
   sheetProvider: ProviderId;
+  /** User-defined endpoints, each listed as its own provider after the built-in ones */
+  customEndpoints?: CustomEndpoint[];
   visibleModels: string[];
   providerConfigured: boolean;
   onProviderBrowse: (providerId: ProviderId) => void;
@@ -18,7 +22,9 @@ interface ModelSelectionSheetProps {
 }
 
 export function ModelSelectionSheet({
+  title = "Choose Model",
   sheetProvider,
+  customEndpoints = [],
   visibleModels,
   providerConfigured,
   onProviderBrowse,
@@ -27,7 +33,7 @@ export function ModelSelectionSheet({
   dividerColor,
 }: ModelSelectionSheetProps) {
   const { theme } = useTheme();
-  const visibleProvider = PROVIDERS[sheetProvider];
+  const visibleProvider = resolveProviderInfo(sheetProvider, customEndpoints);
   const unconfiguredMessage = visibleProvider
     ? `${visibleProvider.name} is not configured. Go to Settings to ${
         visibleProvider.requiresApiKey ? "add your API key" : "finish setup"
@@ -45,7 +51,7 @@ export function ModelSelectionSheet({
             letterSpacing: -0.3,
           }}
         >
-          Choose Model
+          {title}
         </Text>
       </View>
 
@@ -62,9 +68,9 @@ export function ModelSelectionSheet({
             borderRightColor: dividerColor,
           }}
         >
-          {PROVIDER_IDS.map((providerId) => {
+          {getProviderIds(customEndpoints).map((providerId) => {
             const isSelected = sheetProvider === providerId;
-            const provider = PROVIDERS[providerId];
+            const providerName = resolveProviderInfo(providerId, customEndpoints)?.name ?? providerId;
             return (
               <TouchableOpacity
                 key={providerId}
@@ -72,7 +78,7 @@ export function ModelSelectionSheet({
                 onPress={() => onProviderBrowse(providerId)}
                 activeOpacity={0.7}
                 accessibilityRole="button"
-                accessibilityLabel={provider.name}
+                accessibilityLabel={providerName}
                 accessibilityState={{ selected: isSelected }}
                 style={{
                   width: 44,
@@ -9,6 +9,12 @@ interface OptionsSheetProps {
   thinkingEnabled: boolean;
   showOllamaThinkingHint: boolean;
   onRename: () => void;
+  /** Opens the system prompt editor; the row is hidden without it */
+  onEditSystemPrompt?: () => void;
+  /** Short description of the chat's current prompt or persona */
+  systemPromptSummary?: string;
+  /** Tokens and cost spent in this chat so far; the row is hidden without it */
+  usageSummary?: string;
   onReset: () => void;
   onThinkingToggle: (value: boolean) => void;
   dividerColor: string;
@@ -18,6 +24,9 @@ export function OptionsSheet({
   thinkingEnabled,
   showOllamaThinkingHint,
   onRename,
+  onEditSystemPrompt,
+  systemPromptSummary,
+  usageSummary,
   onReset,
   onThinkingToggle,
   dividerColor,
@@ -91,6 +100,128 @@ export function OptionsSheet({
         />
       </TouchableOpacity>
 
+      {onEditSystemPrompt ? (
+        <>
+          <SheetDivider color={dividerColor} />
+
+          <TouchableOpacity
+            testID="chat-toolbar-system-prompt-action"
+            onPress={onEditSystemPrompt}
+            activeOpacity={0.6}
+            style={{
+              flexDirection: "row",
+              alignItems: "center",
+              justifyContent: "space-between",
+              paddingHorizontal: 16,
+              paddingVertical: 14,
+            }}
+            accessibilityRole="button"
+          >
+            <View
+              style={{
+                flex: 1,
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 12,
+              }}
+            >
+              <View
+                style={{
+                  width: 30,
+                  height: 30,
+                  borderRadius: 8,
+                  backgroundColor: "#34a853",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+              >
+                <SymbolView name="text.bubble" size={14} tintColor="#fff" />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text
+                  style={{
+                    fontSize: 16,
+                    fontWeight: "400",
+                    color: theme.colors.text,
+                  }}
+                >
+                  System Prompt
+                </Text>
+                {systemPromptSummary ? (
+                  <Text
+                    testID="chat-toolbar-system-prompt-summary"
+                    numberOfLines={1}
+                    style={{
+                      color: theme.colors.textSecondary,
+                      fontSize: 12,
+                      marginTop: 1,
+                    }}
+                  >
+                    {systemPromptSummary}
+                  </Text>
+                ) : null}
+              </View>
+            </View>
+            <SymbolView
+              name="chevron.right"
+              size={11}
+              tintColor={dividerColor}
+            />
+          </TouchableOpacity>
+        </>
+      ) : null}
+
+      {usageSummary ? (
+        <>
+          <SheetDivider color={dividerColor} />
+
+          <View
+            style={{
+              flexDirection: "row",
+              alignItems: "center",
+              gap: 12,
+              paddingHorizontal: 16,
+              paddingVertical: 14,
+            }}
+          >
+            <View
+              style={{
+                width: 30,
+                height: 30,
+                borderRadius: 8,
+                backgroundColor: "#8e8e93",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <SymbolView name="chart.bar" size={14} tintColor="#fff" />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text
+                style={{
+                  fontSize: 16,
+                  fontWeight: "400",
+                  color: theme.colors.text,
+                }}
+              >
+                Usage
+              </Text>
+              <Text
+                testID="chat-toolbar-usage-summary"
+                numberOfLines={1}
+                style={{
+                  color: theme.colors.textSecondary,
+                  fontSize: 12,
+                  marginTop: 1,
+                }}
+              >
+                {usageSummary}
+              </Text>
+            </View>
+          </View>
+        </>
+      ) : null}
+
       <SheetDivider color={dividerColor} />
 
       <TouchableOpacity
@@ -1,14 +1,46 @@
 import {
+  ANTHROPIC_MODELS,
+  GEMINI_MODELS,
   OLLAMA_MODELS,
+  MOCK_MODELS,
   OPENCODE_MODELS,
   OPENAI_CODEX_MODELS,
   OPENAI_MODELS,
   OPENROUTER_MODELS,
-  PROVIDERS,
+  isCustomProviderId,
+  resolveProviderInfo,
+  type BuiltInProviderId,
+  isModelCatalogProvider,
+  type CustomEndpoint,
+  type ModelCatalogState,
   type ProviderId,
 } from "@/types/provider.types";
+import { getVisibleModelNames } from "@/lib/model-utils";
+import { isMockProviderEnabled } from "@/providers/mock-provider";
 
-export const PROVIDER_IDS: ProviderId[] = ["apple", "openai", "openai-codex", "openrouter", "opencode", "ollama"];
+type ModelListsByProvider = Partial<Record<ProviderId, string[]>>;
+
+interface ProviderModelLists {
+  availableModels: ModelListsByProvider;
+  customModels: ModelListsByProvider;
+  hiddenModels: ModelListsByProvider;
+  modelCatalogs?: Partial<Record<ProviderId, ModelCatalogState>>;
+}
+
+export const PROVIDER_IDS: BuiltInProviderId[] = ["apple", "openai", "openai-codex", "anthropic", "gemini", "openrouter", "opencode", "ollama"];
+
+/** Built-in providers, the mock provider in dev builds, then the user's custom endpoints */
+export const getProviderIds = (customEndpoints: CustomEndpoint[] = []): ProviderId[] => {
+  const builtIn: ProviderId[] = isMockProviderEnabled() ? [...PROVIDER_IDS, "mock"] : PROVIDER_IDS;
+  return [...builtIn, ...customEndpoints.map((endpoint) => endpoint.id)];
+};
+
+export const getProviderName = (
+  providerId: ProviderId,
+  customEndpoints: CustomEndpoint[] = [],
+): string => {
+  return resolveProviderInfo(providerId, customEndpoints)?.name ?? providerId;
+};
 
 const getDefaultModelsForProvider = (providerId: ProviderId): string[] => {
   switch (providerId) {
@@ -18,17 +50,50 @@ const getDefaultModelsForProvider = (providerId: ProviderId): string[] => {
       return OPENAI_MODELS;
     case "openai-codex":
       return OPENAI_CODEX_MODELS;
+    case "anthropic":
+      return ANTHROPIC_MODELS;
+    case "gemini":
+      return GEMINI_MODELS;
     case "openrouter":
       return OPENROUTER_MODELS;
     case "opencode":
       return OPENCODE_MODELS;
     case "ollama":
       return OLLAMA_MODELS;
+    case "mock":
+      return MOCK_MODELS;
     default:
       return [];
   }
 };
 
+/**
+ * Models offered for a provider in pickers: Ollama and custom endpoints list
+ * what the server reported, providers with a live catalog list it once it has
+ * been fetched, and the rest their bundled list, all adjusted by the user's
+ * custom and hidden entries.
+ */
+export const getSelectableModelsForProvider = (
+  providerId: ProviderId,
+  { availableModels, customModels, hiddenModels, modelCatalogs = {} }: ProviderModelLists,
+): string[] => {
+  const defaultModels = getDefaultModelsForProvider(providerId);
+  if (providerId === "apple") return defaultModels;
+  const fetchedModels = availableModels[providerId] || [];
+  const hasFetchedCatalog = isModelCatalogProvider(providerId) && Boolean(modelCatalogs[providerId]);
+  const baseModels =
+    isCustomProviderId(providerId)
+    || providerId === "ollama"
+    || ((providerId === "gemini" || hasFetchedCatalog) && fetchedModels.length > 0)
+      ? fetchedModels
+      : defaultModels;
+  return getVisibleModelNames({
+    baseModels,
+    customModels: customModels[providerId] || [],
+    hiddenModels: hiddenModels[providerId] || [],
+  });
+};
+
 export const getStoredModelValue = (
   providerId: ProviderId,
   displayModel: string,
@@ -37,18 +102,25 @@ export const getStoredModelValue = (
   return displayModel;
 };
 
-export const getModelLabel = (provider: ProviderId, model: string | null): string => {
+export const getModelLabel = (
+  provider: ProviderId,
+  model: string | null,
+  customEndpoints: CustomEndpoint[] = [],
+): string => {
   if (provider === "apple") return "Apple Intelligence";
-  if (!model || model === "system-default") return PROVIDERS[provider].name;
+  if (!model || model === "system-default") return getProviderName(provider, customEndpoints);
   const maxLength = 22;
   return model.length > maxLength
     ? `${model.slice(0, maxLength - 3)}...`
     : model;
 };
 
-export const getProviderSheetLabel = (provider: ProviderId): string => {
+export const getProviderSheetLabel = (
+  provider: ProviderId,
+  customEndpoints: CustomEndpoint[] = [],
+): string => {
   if (provider === "apple") return "Apple";
-  return PROVIDERS[provider].name;
+  return getProviderName(provider, customEndpoints);
 };
 
 export const toTestIdFragment = (value: string): string => {
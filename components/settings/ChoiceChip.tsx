@@ -0,0 +1,61 @@
+/**
+ * @file ChoiceChip.tsx
+ * @purpose Pill-shaped single-choice buttons and their titled group, used by settings forms.
+ */
+
+import React from "react";
+import { Pressable, Text, View } from "react-native";
+
+import { useTheme } from "@/components/ui/ThemeProvider";
+
+interface ChoiceChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  testID?: string;
+}
+
+export const ChoiceChip: React.FC<ChoiceChipProps> = ({ label, selected, onPress, testID }) => {
+  const { theme } = useTheme();
+
+  return (
+    <Pressable
+      testID={testID}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+      className="rounded-full px-3 py-1.5"
+      style={{
+        backgroundColor: selected ? theme.colors.accent : theme.colors.background,
+        borderColor: selected ? theme.colors.accent : theme.colors.border,
+        borderWidth: 1,
+      }}
+    >
+      <Text
+        className="text-[13px] font-semibold"
+        style={{
+          color: selected
+            ? (theme.isDark ? theme.colors.overlayForeground : theme.colors.surface)
+            : theme.colors.text,
+        }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+};
+
+export const ChoiceGroup: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => {
+  const { theme } = useTheme();
+
+  return (
+    <View className="mx-4">
+      <Text
+        className="mb-2 px-1 text-[11px] font-semibold uppercase tracking-widest"
+        style={{ color: theme.colors.textSecondary }}
+      >
+        {title}
+      </Text>
+      <View className="flex-row flex-wrap gap-2">{children}</View>
+    </View>
+  );
+};
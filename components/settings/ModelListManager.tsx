@@ -10,11 +10,15 @@ import {
     TextInput,
     Alert,
     StyleSheet,
+    ActivityIndicator,
 } from "react-native";
 import { SymbolView } from "expo-symbols";
+import { router } from "expo-router";
 import { useTheme } from "@/components/ui/ThemeProvider";
 import { ProviderId } from "@/types/provider.types";
 import { getVisibleModelNames } from "@/lib/model-utils";
+import { formatCatalogFetchedAt } from "@/lib/model-catalog";
+import type { ModelCatalogStatus } from "@/hooks/useModelCatalog";
 import { useProviderStore } from "@/stores";
 import { ModelRow } from "./ModelRow";
 
@@ -25,6 +29,8 @@ interface ModelListManagerProps {
     selectedModel: string;
     onModelSelect: (model: string) => void;
     disabled?: boolean;
+    /** Live catalog state for providers that fetch their model list */
+    catalog?: ModelCatalogStatus;
 }
 
 export function ModelListManager({
@@ -34,6 +40,7 @@ export function ModelListManager({
     selectedModel,
     onModelSelect,
     disabled = false,
+    catalog,
 }: ModelListManagerProps) {
     // ========================================
     // HOOKS AND STATE MANAGEMENT
@@ -107,6 +114,31 @@ export function ModelListManager({
         return allModels.filter((model) => model.toLowerCase().includes(query));
     }, [allModels, searchQuery]);
 
+    // Catalog badges: models new since the previous fetch, and dropped ones kept visible until the next
+    const addedModelSet = useMemo(
+        () => new Set(catalog?.addedModels ?? []),
+        [catalog?.addedModels]
+    );
+    const removedModels = useMemo(() => {
+        const query = searchQuery.trim().toLowerCase();
+        return (catalog?.removedModels ?? []).filter(
+            (model) => !allModels.includes(model) && (!query || model.toLowerCase().includes(query))
+        );
+    }, [catalog?.removedModels, allModels, searchQuery]);
+
+    const catalogSummary = useMemo(() => {
+        if (!catalog) return null;
+        if (catalog.error) return catalog.error;
+        if (catalog.fetchedAt === null) {
+            return catalog.isRefreshing ? "Fetching the latest models…" : "Showing the bundled model list";
+        }
+
+        const parts = [formatCatalogFetchedAt(catalog.fetchedAt)];
+        if (catalog.addedModels.length > 0) parts.push(`${catalog.addedModels.length} new`);
+        if (catalog.removedModels.length > 0) parts.push(`${catalog.removedModels.length} removed`);
+        return parts.join(" · ");
+    }, [catalog]);
+
     // UI logic flags
     const hasModels = allModels.length > 0;                        // Whether any models exist
     const showSearch = allModels.length > 5;                       // Only show search if many models
@@ -179,6 +211,16 @@ export function ModelListManager({
         [deleteModel, providerId, allModels.length]
     );
 
+    // Open the capability screen, where detection can be overridden per model
+    const handleShowCapabilities = useCallback(
+        (model: string) => {
+            router.push(
+                `/settings/model?provider=${encodeURIComponent(providerId)}&model=${encodeURIComponent(model)}` as any
+            );
+        },
+        [providerId]
+    );
+
     // Cancel adding new model and reset state
     const handleCancelAdd = useCallback(() => {
         setIsAdding(false);
@@ -211,6 +253,29 @@ export function ModelListManager({
                     Models
                 </Text>
                 <View className="flex-row items-center gap-3">
+                    {catalog && !isAdding && !editingModel && !isEditMode && (
+                        catalog.isRefreshing ? (
+                            <ActivityIndicator
+                                testID="model-catalog-refreshing"
+                                size="small"
+                                color={theme.colors.accent}
+                            />
+                        ) : (
+                            <Pressable
+                                testID="model-catalog-refresh"
+                                onPress={catalog.refresh}
+                                disabled={disabled}
+                                className="p-1"
+                                style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+                            >
+                                <SymbolView
+                                    name="arrow.clockwise"
+                                    size={18}
+                                    tintColor={theme.colors.accent}
+                                />
+                            </Pressable>
+                        )
+                    )}
                     {hasModels && !isAdding && !editingModel && (
                         <Pressable
                             onPress={toggleEditMode}
@@ -243,6 +308,16 @@ export function ModelListManager({
                 </View>
             </View>
 
+            {catalogSummary && (
+                <Text
+                    testID="model-catalog-summary"
+                    className="px-4 text-[12px]"
+                    style={{ color: catalog?.error ? theme.colors.error : theme.colors.textSecondary }}
+                >
+                    {catalogSummary}
+                </Text>
+            )}
+
             {/* ========================================
                  SECTION: ADD MODEL INPUT
                  ========================================
@@ -438,7 +513,8 @@ export function ModelListManager({
                     // Populated list: Display filtered models
                     filteredModels.map((model, index) => {
                         const isCustom = providerCustomModels.includes(model);
-                        const isLast = index === filteredModels.length - 1;
+                        const isLast = index === filteredModels.length - 1
+                            && (isEditMode || removedModels.length === 0);
 
                         return (
                             <View
@@ -455,9 +531,11 @@ export function ModelListManager({
                                     isSelected={selectedModel === model}
                                     isCustom={isCustom}
                                     isEditMode={isEditMode}
+                                    catalogBadge={addedModelSet.has(model) ? "new" : undefined}
                                     onSelect={() => onModelSelect(model)}
                                     onEdit={() => handleStartEdit(model)}
                                     onDelete={() => handleDelete(model)}
+                                    onShowCapabilities={() => handleShowCapabilities(model)}
                                     theme={theme}
                                     disabled={disabled}
                                 />
@@ -465,6 +543,31 @@ export function ModelListManager({
                         );
                     })
                 )}
+                {/* Models dropped from the latest catalog, listed until the next fetch */}
+                {filteredModels.length > 0 && !isEditMode && removedModels.map((model, index) => (
+                    <View
+                        key={`removed-${model}`}
+                        style={[
+                            index < removedModels.length - 1 && {
+                                borderBottomWidth: StyleSheet.hairlineWidth,
+                                borderBottomColor: theme.colors.border,
+                            },
+                        ]}
+                    >
+                        <ModelRow
+                            model={model}
+                            isSelected={false}
+                            isCustom={false}
+                            isEditMode={false}
+                            catalogBadge="removed"
+                            onSelect={() => undefined}
+                            onEdit={() => undefined}
+                            onDelete={() => undefined}
+                            theme={theme}
+                            disabled
+                        />
+                    </View>
+                ))}
             </View>
         </View>
     );
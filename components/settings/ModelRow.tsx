@@ -15,9 +15,13 @@ interface ModelRowProps {
     isSelected: boolean;
     isCustom: boolean;
     isEditMode: boolean;
+    /** Catalog change since the previous fetch; removed models are shown but not selectable */
+    catalogBadge?: "new" | "removed";
     onSelect: () => void;
     onEdit: () => void;
     onDelete: () => void;
+    /** Opens the capability details for this model; the info button is hidden without it */
+    onShowCapabilities?: () => void;
     theme: Theme;
     disabled?: boolean;
 }
@@ -27,18 +31,22 @@ export function ModelRow({
     isSelected,
     isCustom,
     isEditMode,
+    catalogBadge,
     onSelect,
     onEdit,
     onDelete,
+    onShowCapabilities,
     theme,
     disabled,
 }: ModelRowProps) {
+    const isRemoved = catalogBadge === "removed";
+
     return (
         // Main pressable container for the model row
         // Handles selection interaction and visual feedback
         <Pressable
             onPress={onSelect}
-            disabled={disabled || isEditMode}
+            disabled={disabled || isEditMode || isRemoved}
             className="flex-row items-center justify-between py-3 px-4 min-h-[44px]"
             style={({ pressed }) => ({
                 backgroundColor: pressed && !isEditMode
@@ -51,11 +59,28 @@ export function ModelRow({
                 {/* Model name display with text styling */}
                 <Text
                     className="text-[16px] flex-shrink-0"
-                    style={{ color: theme.colors.text }}
+                    style={{
+                        color: isRemoved ? theme.colors.textSecondary : theme.colors.text,
+                        textDecorationLine: isRemoved ? "line-through" : "none",
+                    }}
                     numberOfLines={1}
                 >
                     {model}
                 </Text>
+                {/* Catalog badge - flags models added to or dropped from the provider's list */}
+                {catalogBadge && !isEditMode && (
+                    <View
+                        className="px-1.5 py-0.5 rounded"
+                        style={{ backgroundColor: isRemoved ? theme.colors.surface : theme.colors.accent }}
+                    >
+                        <Text
+                            className="text-[10px] font-bold uppercase"
+                            style={{ color: isRemoved ? theme.colors.textSecondary : theme.colors.surface }}
+                        >
+                            {isRemoved ? "Removed" : "New"}
+                        </Text>
+                    </View>
+                )}
                 {/* Custom model indicator badge - shown only for custom models when not in edit mode */}
                 {isCustom && !isEditMode && (
                     <View
@@ -107,7 +132,7 @@ export function ModelRow({
                     </Pressable>
                 </View>
             ) : (
-                <>
+                <View className="flex-row items-center gap-3">
                     {/* Selection checkmark - shown when model is selected and not in edit mode */}
                     {isSelected && (
                         <SymbolView
@@ -116,7 +141,19 @@ export function ModelRow({
                             tintColor={theme.colors.accent}
                         />
                     )}
-                </>
+                    {/* Info button - opens what the model can do and its overrides */}
+                    {onShowCapabilities && !isRemoved && (
+                        <Pressable
+                            onPress={onShowCapabilities}
+                            hitSlop={8}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Capabilities of ${model}`}
+                            style={({ pressed }) => ({ opacity: pressed ? 0.5 : 1 })}
+                        >
+                            <SymbolView name="info.circle" size={18} tintColor={theme.colors.textSecondary} />
+                        </Pressable>
+                    )}
+                </View>
             )}
         </Pressable>
     );
@@ -5,6 +5,7 @@ import { SettingsScreen } from "@/components/settings/SettingsScreen";
 import { ModelListManager } from "@/components/settings/ModelListManager";
 import { SettingInput } from "@/components/settings/SettingInput";
 import { SaveButton } from "@/components/ui/SaveButton";
+import type { ModelCatalogStatus } from "@/hooks/useModelCatalog";
 import type { ProviderId } from "@/types/provider.types";
 
 interface ProviderSettingsAction {
@@ -26,6 +27,7 @@ interface ProviderSettingsScreenProps {
   dynamicModels?: string[];
   selectedModel: string;
   onModelSelect: (model: string) => void;
+  modelCatalog?: ModelCatalogStatus;
   status: SettingsStatus | null;
   actions: ProviderSettingsAction[];
 }
@@ -43,6 +45,7 @@ export function ProviderSettingsScreen({
   dynamicModels,
   selectedModel,
   onModelSelect,
+  modelCatalog,
   status,
   actions,
 }: ProviderSettingsScreenProps) {
@@ -68,6 +71,7 @@ export function ProviderSettingsScreen({
           dynamicModels={dynamicModels}
           selectedModel={selectedModel}
           onModelSelect={onModelSelect}
+          catalog={modelCatalog}
         />
       </View>
 
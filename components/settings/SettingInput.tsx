@@ -20,6 +20,10 @@ interface SettingInputProps {
     secureTextEntry?: boolean;
     /** Text capitalization behavior for the input */
     autoCapitalize?: "none" | "sentences" | "words" | "characters";
+    /** Whether the field accepts several lines, e.g. prompts */
+    multiline?: boolean;
+    /** Test identifier forwarded to the input */
+    testID?: string;
     /** Additional styles applied to the container view */
     style?: ViewStyle;
 }
@@ -31,6 +35,8 @@ export const SettingInput: React.FC<SettingInputProps> = ({
     placeholder,
     secureTextEntry = false,
     autoCapitalize,
+    multiline = false,
+    testID,
     style,
 }) => {
     // Get the current theme context for styling
@@ -64,6 +70,8 @@ export const SettingInput: React.FC<SettingInputProps> = ({
                 placeholder={placeholder}
                 secureTextEntry={secureTextEntry}
                 autoCapitalize={autoCapitalize}
+                multiline={multiline}
+                testID={testID}
             />
         </View>
     );
@@ -38,7 +38,7 @@ jest.mock('../ModelRow', () => {
     const { Pressable, Text, View } = jest.requireActual<typeof import('react-native')>('react-native');
 
     return {
-        ModelRow: ({ model, isSelected, isCustom, isEditMode, onSelect, onEdit, onDelete, disabled }: any) => {
+        ModelRow: ({ model, isSelected, isCustom, isEditMode, onSelect, onEdit, onDelete, disabled, catalogBadge }: any) => {
             return (
                 <Pressable
                     testID={`model-row-${model}`}
@@ -58,6 +58,7 @@ jest.mock('../ModelRow', () => {
                         </View>
                     )}
                     {isSelected && !isEditMode && <Text testID="selected-indicator">✓</Text>}
+                    {catalogBadge && <Text testID={`catalog-badge-${model}`}>{catalogBadge}</Text>}
                 </Pressable>
             );
         },
@@ -568,6 +569,78 @@ describe('ModelListManager', () => {
         });
     });
 
+    describe('Model Catalog', () => {
+        const catalog = {
+            fetchedAt: Date.now(),
+            addedModels: ['gpt-5'],
+            removedModels: ['gpt-4-turbo'],
+            isRefreshing: false,
+            error: null,
+            refresh: jest.fn(),
+        };
+
+        it('should badge new and removed models and summarize the last fetch', () => {
+            render(
+                <TestWrapper>
+                    <ModelListManager
+                        {...defaultProps}
+                        dynamicModels={['gpt-5', 'gpt-4']}
+                        catalog={catalog}
+                    />
+                </TestWrapper>
+            );
+
+            expect(screen.getByTestId('model-catalog-summary')).toHaveTextContent(
+                'Updated just now · 1 new · 1 removed'
+            );
+            expect(screen.getByTestId('catalog-badge-gpt-5')).toHaveTextContent('new');
+            expect(screen.getByTestId('catalog-badge-gpt-4-turbo')).toHaveTextContent('removed');
+            expect(screen.queryByTestId('catalog-badge-gpt-4')).toBeNull();
+        });
+
+        it('should refresh the catalog from the header', () => {
+            render(
+                <TestWrapper>
+                    <ModelListManager {...defaultProps} catalog={catalog} />
+                </TestWrapper>
+            );
+
+            fireEvent.press(screen.getByTestId('model-catalog-refresh'));
+
+            expect(catalog.refresh).toHaveBeenCalledTimes(1);
+        });
+
+        it('should show progress and errors instead of the refresh button', () => {
+            const { rerender } = render(
+                <TestWrapper>
+                    <ModelListManager
+                        {...defaultProps}
+                        catalog={{ ...catalog, fetchedAt: null, isRefreshing: true }}
+                    />
+                </TestWrapper>
+            );
+
+            expect(screen.getByTestId('model-catalog-refreshing')).toBeTruthy();
+            expect(screen.queryByTestId('model-catalog-refresh')).toBeNull();
+            expect(screen.getByTestId('model-catalog-summary')).toHaveTextContent(
+                'Fetching the latest models…'
+            );
+
+            rerender(
+                <TestWrapper>
+                    <ModelListManager
+                        {...defaultProps}
+                        catalog={{ ...catalog, error: 'No models were returned. Check your API key.' }}
+                    />
+                </TestWrapper>
+            );
+
+            expect(screen.getByTestId('model-catalog-summary')).toHaveTextContent(
+                'No models were returned. Check your API key.'
+            );
+        });
+    });
+
     describe('Disabled State', () => {
         it('should disable all interactions when disabled prop is true', () => {
             render(
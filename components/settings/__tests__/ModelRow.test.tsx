@@ -242,6 +242,32 @@ describe('ModelRow', () => {
         });
     });
 
+    describe('Capabilities Button', () => {
+        it('should open capabilities from the info button outside edit mode', () => {
+            const onShowCapabilities = jest.fn();
+            render(
+                <TestWrapper>
+                    <ModelRow {...defaultProps} onShowCapabilities={onShowCapabilities} />
+                </TestWrapper>
+            );
+
+            fireEvent.press(screen.getByLabelText('Capabilities of test-model'));
+
+            expect(onShowCapabilities).toHaveBeenCalledTimes(1);
+            expect(defaultProps.onSelect).not.toHaveBeenCalled();
+        });
+
+        it('should hide the info button in edit mode', () => {
+            render(
+                <TestWrapper>
+                    <ModelRow {...defaultProps} isEditMode={true} onShowCapabilities={jest.fn()} />
+                </TestWrapper>
+            );
+
+            expect(screen.queryByLabelText('Capabilities of test-model')).toBeNull();
+        });
+    });
+
     describe('Edit Mode Buttons', () => {
         it('should show edit button when model is custom and in edit mode', () => {
             render(
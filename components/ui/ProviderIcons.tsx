@@ -7,7 +7,7 @@
 import React from "react";
 import { Image } from "react-native";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { ProviderId } from "@/types/provider.types";
+import { BuiltInProviderId, isCustomProviderId, ProviderId } from "@/types/provider.types";
 import AntDesign from "@expo/vector-icons/AntDesign";
 import { useTheme } from "./ThemeProvider";
 
@@ -33,7 +33,7 @@ export interface ProviderIconProps {
  * Registry of icon components for each AI provider.
  * Apple and OpenAI use vector icons; OpenRouter and Ollama use PNG brand assets.
  */
-export const PROVIDER_ICONS: Record<ProviderId, React.FC<ProviderIconProps>> = {
+export const PROVIDER_ICONS: Record<BuiltInProviderId, React.FC<ProviderIconProps>> = {
   // Apple Intelligence: Uses apple icon from MaterialCommunityIcons
   apple: ({ size = 24, color }) => (
     <MaterialCommunityIcons name="apple" size={size} color={color} />
@@ -49,6 +49,16 @@ export const PROVIDER_ICONS: Record<ProviderId, React.FC<ProviderIconProps>> = {
     <MaterialCommunityIcons name="console-line" size={size} color={color} />
   ),
 
+  // Anthropic: Asterisk mark echoing the Claude starburst
+  anthropic: ({ size = 24, color }) => (
+    <MaterialCommunityIcons name="asterisk" size={size} color={color} />
+  ),
+
+  // Gemini: Google mark from MaterialCommunityIcons
+  gemini: ({ size = 24, color }) => (
+    <MaterialCommunityIcons name="google" size={size} color={color} />
+  ),
+
   // OpenRouter: Brand PNG asset tinted with theme color for consistency
   openrouter: ({ size = 24, color }) => (
     <Image
@@ -71,8 +81,18 @@ export const PROVIDER_ICONS: Record<ProviderId, React.FC<ProviderIconProps>> = {
       resizeMode="contain"
     />
   ),
+
+  // Mock: Test tube for the development-only scripted provider
+  mock: ({ size = 24, color }) => (
+    <MaterialCommunityIcons name="test-tube" size={size} color={color} />
+  ),
 };
 
+/** Shared icon for every user-defined OpenAI-compatible endpoint */
+export const CustomEndpointIcon: React.FC<ProviderIconProps> = ({ size = 24, color }) => (
+  <MaterialCommunityIcons name="server-network" size={size} color={color} />
+);
+
 // ============================================================================
 // MAIN PROVIDER ICON COMPONENT SECTION
 // ============================================================================
@@ -98,7 +118,9 @@ export function ProviderIcon({
   const defaultColor = color ?? theme.colors.text;
 
   // Get the appropriate icon component from the registry
-  const IconComponent = PROVIDER_ICONS[providerId];
+  const IconComponent = isCustomProviderId(providerId)
+    ? CustomEndpointIcon
+    : PROVIDER_ICONS[providerId];
 
   // Render the icon with computed styling
   return <IconComponent size={size} color={defaultColor} />;
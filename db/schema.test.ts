@@ -1,5 +1,5 @@
 import { describe, it, expect } from "@jest/globals";
-import { chat } from "./schema";
+import { chat, message, messageBranch } from "./schema";
 
 /**
  * Database schema tests
@@ -45,6 +45,35 @@ describe("Database Schema - Unit Tests", () => {
         });
     });
 
+    describe("message table structure", () => {
+        it("should expose the normalized message columns", () => {
+            expect(message.id.primary).toBe(true);
+            expect(message.chatId.notNull).toBe(true);
+            expect(message.ordinal.notNull).toBe(true);
+            expect(message.role.notNull).toBe(true);
+            expect(message.content.notNull).toBe(true);
+            expect(message.createdAt.notNull).toBe(true);
+            expect(message.updatedAt.notNull).toBe(true);
+        });
+
+        it("should allow optional reasoning, annotations and model attribution", () => {
+            expect(message.reasoning.notNull).toBe(false);
+            expect(message.annotations.notNull).toBe(false);
+            expect(message.providerId.notNull).toBe(false);
+            expect(message.modelId.notNull).toBe(false);
+        });
+    });
+
+    describe("message_branch table structure", () => {
+        it("should require the fork position, active variant and stored variants", () => {
+            expect(messageBranch.id.primary).toBe(true);
+            expect(messageBranch.chatId.notNull).toBe(true);
+            expect(messageBranch.ordinal.notNull).toBe(true);
+            expect(messageBranch.activeIndex.notNull).toBe(true);
+            expect(messageBranch.variants.notNull).toBe(true);
+        });
+    });
+
     describe("data validation", () => {
         it("should accept valid provider IDs", () => {
             const validProviders = ["apple", "openai", "openrouter", "ollama"] as const;
@@ -99,6 +128,11 @@ describe("Database Schema - Unit Tests", () => {
             expect(chat.providerId).toBeDefined();
             expect(typeof chat.providerId).toBe('object');
         });
+
+        it("should leave providerId open for custom endpoint ids", () => {
+            expect(chat.providerId.enumValues).toBeUndefined();
+            expect(chat.providerId.columnType).toBe("SQLiteText");
+        });
     });
 
     describe("query structure validation", () => {
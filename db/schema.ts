@@ -3,8 +3,19 @@
  * @purpose Database schema definitions for Seabreeze chat application using Drizzle ORM and SQLite.
  */
 
-import { index, int, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { customType, index, int, real, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { ProviderId } from "@/types/provider.types";
+import type {
+  ChatBranchTail,
+  ChatContextSummary,
+  ChatMessageAnnotation,
+  ContextStrategy,
+  FallbackPolicy,
+  ThinkingLevel,
+  UsageSource,
+} from "@/types/chat.types";
+import type { LibraryDocumentStatus } from "@/types/document.types";
+import type { McpToolKey } from "@/types/mcp.types";
 
 /**
  * =============================================================================
@@ -14,7 +25,16 @@ import { ProviderId } from "@/types/provider.types";
  * This schema defines the core data structure for the Seabreeze chat application.
  * 
  * Tables:
- * └── chat: Stores individual chat conversations and their metadata
+ * ├── chat: Stores individual chat conversations and their metadata
+ * ├── message: Stores one row per message on the active branch, ordered within its chat
+ * ├── message_branch: Stores inactive continuations at each fork point
+ * ├── persona: Stores reusable assistant personas (system prompt and defaults)
+ * ├── document_collection: Named groups of library documents chats can attach
+ * ├── library_document: One imported file per row, with its indexing state
+ * ├── document_chunk: Passages of a document with their embedding vectors
+ * ├── usage_event: Append-only ledger of every billed model call
+ * └── chat_search: FTS5 index over titles, messages and web-search sources
+ *     (virtual table created by migration; maintained in lib/chat-search.ts)
  * 
  * Data Storage:
  * - SQLite as the primary database engine via expo-sqlite
@@ -24,11 +44,40 @@ import { ProviderId } from "@/types/provider.types";
  * 
  * Key Relationships:
  * - Each chat is associated with exactly one AI provider
- * - Messages are stored as a JSON array within each chat record
+ * - Each chat owns an ordered list of message rows (chat.id → message.chatId)
+ * - Edited or regenerated turns keep their previous continuations as
+ *   message_branch rows keyed by the ordinal where they diverge
+ * - A chat started from a persona records chat.personaId and copies the
+ *   persona's system prompt and temperature so later persona edits do not
+ *   rewrite existing conversations
+ * - Chats using the summarize context strategy keep the rolling summary of
+ *   their trimmed turns on the chat row; pins are message annotations
+ * - A chat set to never fall back keeps every reply on its own provider;
+ *   when a reply does fall back, its hops are a message annotation
+ * - Chats attach library collections through chat.documentCollections; each
+ *   document belongs to one collection and owns its chunks, which are
+ *   searched by brute-force vector similarity in lib/document-library.ts
+ * - Token spend is written to usage_event when a call finishes and is never
+ *   updated or deleted, so the usage screen still counts replies that later
+ *   moved to a branch, unpicked compare lanes, summaries and deleted chats
+ * - The legacy chat.messages/thinkingOutput JSON arrays are kept for rollback
+ *   safety but are no longer written with conversation content, and neither
+ *   are the legacy token and cost columns on message
  * - Provider-specific metadata is stored as JSON for flexibility
  * =============================================================================
  */
 
+/**
+ * Embedding vectors stored as little-endian float32 bytes, a quarter of the
+ * size of a JSON array and readable without parsing.
+ */
+const float32Vector = customType<{ data: Float32Array; driverData: Uint8Array }>({
+  dataType: () => "blob",
+  toDriver: (value) => new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+  // Copying realigns the bytes; a Float32Array view needs a 4-byte aligned offset
+  fromDriver: (value) => new Float32Array(Uint8Array.from(value).buffer),
+});
+
 /**
  * Chat table - Core storage for user conversations
  * 
@@ -40,7 +89,8 @@ import { ProviderId } from "@/types/provider.types";
  * - Consider adding indexes on providerId for provider-based queries
  * 
  * Data Notes:
- * - messages stored as JSON array of message objects with role/content structure
+ * - messages/thinkingOutput are legacy JSON arrays; new writes store empty arrays
+ *   and the conversation lives in the message table
  * - providerMetadata stores provider-specific configuration (tokens, settings, etc.)
  * - thinkingOutput stores model reasoning output when available
  * - Timestamps use Unix epoch format for SQLite compatibility
@@ -54,14 +104,17 @@ export const chat = sqliteTable(
     /** User-facing title - Displayed in chat list, can be null initially */
     title: text(),
 
-    /** Message history - JSON array containing all messages in the conversation */
+    /** Legacy message history - JSON array superseded by the message table */
     messages: text({ mode: "json" }).notNull(),
 
-    /** Model thinking output - JSON array of reasoning chunks aligned with messages */
+    /** Legacy thinking output - JSON array superseded by message.reasoning */
     thinkingOutput: text({ mode: "json" }).notNull(),
 
-    /** AI provider used - Enum constraint ensures valid provider selection */
-    providerId: text({ enum: ["apple", "openai", "openai-codex", "openrouter", "opencode", "ollama"] })
+    /**
+     * AI provider used - a built-in id or a "custom:<slug>" endpoint id, so the
+     * set is open-ended and checked only at the type level
+     */
+    providerId: text()
       .$type<ProviderId>()
       .notNull(),
 
@@ -71,6 +124,33 @@ export const chat = sqliteTable(
     /** Provider-specific data - JSON object with provider configuration and metadata */
     providerMetadata: text({ mode: "json" }).notNull(),
 
+    /** Persona the chat was started from - Null for chats started without one */
+    personaId: int(),
+
+    /** Chat-level system prompt - Combined with tool prompts on every send */
+    systemPrompt: text(),
+
+    /** Sampling temperature - Null leaves the provider default in place */
+    temperature: real(),
+
+    /** How older turns are trimmed to fit the context window - Null means drop-oldest */
+    contextStrategy: text({ enum: ["drop-oldest", "keep-pinned", "summarize"] }).$type<ContextStrategy>(),
+
+    /** Rolling summary of the trimmed turns - JSON, only written by the summarize strategy */
+    contextSummary: text({ mode: "json" }).$type<ChatContextSummary>(),
+
+    /** Whether replies may move to another provider on failure - Null means allow */
+    fallbackPolicy: text({ enum: ["allow", "never"] }).$type<FallbackPolicy>(),
+
+    /** MCP tools switched off for this chat - JSON array of "server/tool" keys, null means none */
+    disabledTools: text({ mode: "json" }).$type<McpToolKey[]>(),
+
+    /** Hostnames web tools skip in this chat - JSON array, null means none */
+    blockedDomains: text({ mode: "json" }).$type<string[]>(),
+
+    /** Library collections searchDocuments reads in this chat - JSON array of ids, null means none */
+    documentCollections: text({ mode: "json" }).$type<number[]>(),
+
     /** Creation timestamp - When the chat was first created (Unix epoch) */
     createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
 
@@ -82,3 +162,335 @@ export const chat = sqliteTable(
     providerIdIdx: index("chat_provider_id_idx").on(table.providerId),
   }),
 );
+
+/**
+ * Message table - One row per chat message
+ *
+ * Purpose: Stores conversation history normalized out of the chat row so that
+ * saves only touch the messages that actually changed.
+ *
+ * Index Strategy:
+ * - Unique index on (chatId, ordinal) keeps message order stable and lets
+ *   writes upsert by position
+ *
+ * Data Notes:
+ * - content stores the ModelMessage content (string or content-part array) as JSON
+ * - reasoning holds the thinking output aligned with this message, if any
+ * - providerId/modelId record which model produced assistant messages
+ * - Token counts and cost are legacy: they were the usage screen's source
+ *   until usage_event took over and now only seeded its backfill. They are no
+ *   longer written; usage_event is the source of truth for spend
+ */
+export const message = sqliteTable(
+  "message",
+  {
+    /** Primary identifier - Auto-incrementing integer for unique message records */
+    id: int().primaryKey({ autoIncrement: true }),
+
+    /** Owning chat - Rows are removed together with their chat */
+    chatId: int()
+      .notNull()
+      .references(() => chat.id, { onDelete: "cascade" }),
+
+    /** Zero-based position of the message within its chat */
+    ordinal: int().notNull(),
+
+    /** Message author role as understood by the AI SDK */
+    role: text({ enum: ["system", "user", "assistant", "tool"] }).notNull(),
+
+    /** Message content - string or array of content parts */
+    content: text({ mode: "json" }).notNull(),
+
+    /** Model reasoning output streamed alongside this message */
+    reasoning: text(),
+
+    /** Error and web-search annotations attached to the message */
+    annotations: text({ mode: "json" }).$type<ChatMessageAnnotation[]>(),
+
+    /** Provider that generated the message (assistant messages only) */
+    providerId: text().$type<ProviderId>(),
+
+    /** Model that generated the message (assistant messages only) */
+    modelId: text(),
+
+    /** Legacy - Prompt tokens billed for the reply, see usageEvent */
+    inputTokens: int(),
+
+    /** Legacy - Completion tokens billed for the reply, see usageEvent */
+    outputTokens: int(),
+
+    /** Legacy - Share of outputTokens spent on reasoning, see usageEvent */
+    reasoningTokens: int(),
+
+    /** Legacy - Share of inputTokens read from the prompt cache, see usageEvent */
+    cachedInputTokens: int(),
+
+    /** Legacy - Cost in US dollars when the reply finished, see usageEvent */
+    cost: real(),
+
+    /** Creation timestamp - When the message was first persisted (Unix epoch) */
+    createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+
+    /** Last update timestamp - When the message was last rewritten (Unix epoch) */
+    updatedAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  },
+  (table) => ({
+    chatOrdinalIdx: uniqueIndex("message_chat_ordinal_idx").on(table.chatId, table.ordinal),
+  }),
+);
+
+/**
+ * Message branch table - One row per fork point in a chat
+ *
+ * Purpose: Keeps the continuations that are not currently shown when a user
+ * edits an earlier message or regenerates a reply. The active continuation
+ * stays in the message table so hydration, search and diffing only ever deal
+ * with a linear list.
+ *
+ * Index Strategy:
+ * - Unique index on (chatId, ordinal) since a position can only fork once
+ *
+ * Data Notes:
+ * - variants holds every continuation as JSON; the slot at activeIndex is null
+ *   because that branch lives in the message table
+ * - Nested forks inside an inactive variant are stored inside its JSON
+ */
+export const messageBranch = sqliteTable(
+  "message_branch",
+  {
+    /** Primary identifier - Auto-incrementing integer for unique fork records */
+    id: int().primaryKey({ autoIncrement: true }),
+
+    /** Owning chat - Rows are removed together with their chat */
+    chatId: int()
+      .notNull()
+      .references(() => chat.id, { onDelete: "cascade" }),
+
+    /** Ordinal of the first message that differs between the variants */
+    ordinal: int().notNull(),
+
+    /** Index of the variant currently stored in the message table */
+    activeIndex: int().notNull(),
+
+    /** Every continuation from this ordinal onward; null marks the active one */
+    variants: text({ mode: "json" }).$type<(ChatBranchTail | null)[]>().notNull(),
+
+    /** Creation timestamp - When the fork was first persisted (Unix epoch) */
+    createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+
+    /** Last update timestamp - When a variant was last switched or added (Unix epoch) */
+    updatedAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  },
+  (table) => ({
+    chatOrdinalIdx: uniqueIndex("message_branch_chat_ordinal_idx").on(table.chatId, table.ordinal),
+  }),
+);
+
+/**
+ * Persona table - Reusable assistant configurations
+ *
+ * Purpose: Lets users save a system prompt together with the model and
+ * generation defaults they like to pair with it, then start chats from it.
+ *
+ * Data Notes:
+ * - providerId/modelId are applied together; both null keeps the current model
+ * - thinkingLevel, webSearchEnabled and temperature are null when the persona
+ *   should leave the app-wide setting untouched
+ */
+export const persona = sqliteTable("persona", {
+  /** Primary identifier - Auto-incrementing integer for unique persona records */
+  id: int().primaryKey({ autoIncrement: true }),
+
+  /** User-facing name - Shown in the persona list and chat options */
+  name: text().notNull(),
+
+  /** System prompt copied into chats started from this persona */
+  systemPrompt: text().notNull(),
+
+  /** Default provider - Null keeps whichever provider is selected */
+  providerId: text().$type<ProviderId>(),
+
+  /** Default model within providerId */
+  modelId: text(),
+
+  /** Default reasoning effort for thinking-capable models */
+  thinkingLevel: text({ enum: ["low", "medium", "high"] }).$type<ThinkingLevel>(),
+
+  /** Whether chats from this persona start with web search on or off */
+  webSearchEnabled: int({ mode: "boolean" }),
+
+  /** Default sampling temperature */
+  temperature: real(),
+
+  /** Creation timestamp - When the persona was created (Unix epoch) */
+  createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+
+  /** Last update timestamp - When the persona was last edited (Unix epoch) */
+  updatedAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+});
+
+/**
+ * Document collection table - Named groups of library documents
+ *
+ * Purpose: The unit a chat attaches, so a thread can search "Contracts"
+ * without also seeing "Recipes".
+ */
+export const documentCollection = sqliteTable("document_collection", {
+  /** Primary identifier - Auto-incrementing integer for unique collection records */
+  id: int().primaryKey({ autoIncrement: true }),
+
+  /** User-facing name - Shown in the library and the chat options */
+  name: text().notNull(),
+
+  /** Creation timestamp - When the collection was created (Unix epoch) */
+  createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+
+  /** Last update timestamp - When a document was last added or removed (Unix epoch) */
+  updatedAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+});
+
+/**
+ * Library document table - One imported file per row
+ *
+ * Purpose: Tracks what was imported and how it was indexed. The file itself
+ * is not kept; its text lives on in the document's chunks.
+ *
+ * Data Notes:
+ * - embeddingModel is "provider:model"; search skips documents indexed with
+ *   a different model because their vectors are not comparable
+ * - status stays "indexing" while chunks are embedded and becomes "error"
+ *   with a message when extraction or embedding fails
+ */
+export const libraryDocument = sqliteTable(
+  "library_document",
+  {
+    /** Primary identifier - Auto-incrementing integer for unique document records */
+    id: int().primaryKey({ autoIncrement: true }),
+
+    /** Owning collection - Documents are removed together with their collection */
+    collectionId: int()
+      .notNull()
+      .references(() => documentCollection.id, { onDelete: "cascade" }),
+
+    /** File name as picked, shown as the citation title */
+    name: text().notNull(),
+
+    /** Media type the text was extracted as */
+    mediaType: text().notNull(),
+
+    /** Pages in a PDF - Null for other files */
+    pageCount: int(),
+
+    /** Characters of extracted text */
+    charCount: int().notNull(),
+
+    /** Number of rows in document_chunk */
+    chunkCount: int().notNull(),
+
+    /** Embedding model the chunks were indexed with, as "provider:model" */
+    embeddingModel: text().notNull(),
+
+    /** Indexing state */
+    status: text({ enum: ["indexing", "ready", "error"] }).$type<LibraryDocumentStatus>().notNull(),
+
+    /** Why indexing failed - Null unless status is "error" */
+    error: text(),
+
+    /** Creation timestamp - When the file was imported (Unix epoch) */
+    createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+
+    /** Last update timestamp - When the document was last indexed (Unix epoch) */
+    updatedAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  },
+  (table) => ({
+    collectionIdx: index("library_document_collection_idx").on(table.collectionId),
+  }),
+);
+
+/**
+ * Document chunk table - Passages of a library document
+ *
+ * Index Strategy:
+ * - Unique index on (documentId, ordinal) keeps passages in reading order and
+ *   lets a search load every chunk of the attached documents in one pass
+ */
+export const documentChunk = sqliteTable(
+  "document_chunk",
+  {
+    /** Primary identifier - Auto-incrementing integer for unique chunk records */
+    id: int().primaryKey({ autoIncrement: true }),
+
+    /** Owning document - Rows are removed together with their document */
+    documentId: int()
+      .notNull()
+      .references(() => libraryDocument.id, { onDelete: "cascade" }),
+
+    /** Zero-based position of the passage within its document */
+    ordinal: int().notNull(),
+
+    /** Passage text sent to the model when it matches */
+    text: text().notNull(),
+
+    /** Embedding of text as float32 bytes - Null until the passage is embedded */
+    embedding: float32Vector(),
+  },
+  (table) => ({
+    documentOrdinalIdx: uniqueIndex("document_chunk_document_ordinal_idx").on(table.documentId, table.ordinal),
+  }),
+);
+
+/**
+ * Usage event table - Append-only ledger of token spend
+ *
+ * Purpose: One row per model call that reported usage: chat replies (edits and
+ * regenerations included), every compare lane and context summaries. Rows are
+ * only ever inserted, so spend survives branch switches and deleted chats.
+ *
+ * Index Strategy:
+ * - Index on createdAt for the usage screen's date ranges
+ *
+ * Data Notes:
+ * - chatId is kept for reference only; it may point at a deleted chat, and is
+ *   null when the chat had not been saved yet
+ * - cost is priced when the call finished - Null when the model had no price
+ */
+export const usageEvent = sqliteTable(
+  "usage_event",
+  {
+    /** Primary identifier - Auto-incrementing integer for unique ledger records */
+    id: int().primaryKey({ autoIncrement: true }),
+
+    /** Chat the call was made for - Not a foreign key so rows outlive their chat */
+    chatId: int(),
+
+    /** What the call was for: a reply, a compare lane or a context summary */
+    source: text({ enum: ["reply", "compare", "summary"] }).$type<UsageSource>().notNull(),
+
+    /** Provider that answered the call */
+    providerId: text().$type<ProviderId>().notNull(),
+
+    /** Model that answered the call */
+    modelId: text().notNull(),
+
+    /** Prompt tokens billed, cached ones included */
+    inputTokens: int().notNull(),
+
+    /** Completion tokens billed, reasoning included */
+    outputTokens: int().notNull(),
+
+    /** Share of outputTokens spent on reasoning */
+    reasoningTokens: int().notNull(),
+
+    /** Share of inputTokens read from the provider's prompt cache */
+    cachedInputTokens: int().notNull(),
+
+    /** Cost in US dollars when the call finished - Null when the model had no price */
+    cost: real(),
+
+    /** When the call finished (Unix epoch) */
+    createdAt: int({ mode: "timestamp" }).$defaultFn(() => new Date()).notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index("usage_event_created_at_idx").on(table.createdAt),
+  }),
+);
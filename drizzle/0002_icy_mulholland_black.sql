@@ -0,0 +1,36 @@
+CREATE TABLE `message` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chatId` integer NOT NULL,
+	`ordinal` integer NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`reasoning` text,
+	`annotations` text,
+	`providerId` text,
+	`modelId` text,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`chatId`) REFERENCES `chat`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_chat_ordinal_idx` ON `message` (`chatId`,`ordinal`);--> statement-breakpoint
+INSERT INTO `message` (`chatId`, `ordinal`, `role`, `content`, `reasoning`, `annotations`, `providerId`, `modelId`, `createdAt`, `updatedAt`)
+SELECT
+	`c`.`id`,
+	ROW_NUMBER() OVER (PARTITION BY `c`.`id` ORDER BY `m`.`key`) - 1,
+	json_extract(`m`.`value`, '$.role'),
+	COALESCE(`m`.`value` -> '$.content', `m`.`value` -> '$.parts'),
+	CASE
+		WHEN json_valid(`c`.`thinkingOutput`) AND json_type(`c`.`thinkingOutput`, '$[' || `m`.`key` || ']') = 'text'
+		THEN NULLIF(json_extract(`c`.`thinkingOutput`, '$[' || `m`.`key` || ']'), '')
+	END,
+	CASE WHEN json_type(`m`.`value`, '$.annotations') = 'array' THEN `m`.`value` -> '$.annotations' END,
+	CASE WHEN json_extract(`m`.`value`, '$.role') = 'assistant' THEN `c`.`providerId` END,
+	CASE WHEN json_extract(`m`.`value`, '$.role') = 'assistant' THEN `c`.`modelId` END,
+	`c`.`createdAt`,
+	`c`.`updatedAt`
+FROM `chat` AS `c`,
+	json_each(CASE WHEN json_valid(`c`.`messages`) AND json_type(`c`.`messages`) = 'array' THEN `c`.`messages` ELSE '[]' END) AS `m`
+WHERE json_type(`m`.`value`) = 'object'
+	AND json_extract(`m`.`value`, '$.role') IN ('system', 'user', 'assistant', 'tool')
+	AND COALESCE(`m`.`value` -> '$.content', `m`.`value` -> '$.parts') IS NOT NULL;
\ No newline at end of file
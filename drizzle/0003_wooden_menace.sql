@@ -0,0 +1,29 @@
+CREATE VIRTUAL TABLE `chat_search` USING fts5(`content`, `sources`, tokenize = 'unicode61 remove_diacritics 2');--> statement-breakpoint
+INSERT INTO `chat_search` (`rowid`, `content`, `sources`)
+SELECT
+	`m`.`id`,
+	CASE json_type(`m`.`content`)
+		WHEN 'text' THEN json_extract(`m`.`content`, '$')
+		WHEN 'array' THEN (
+			SELECT COALESCE(group_concat(json_extract(`p`.`value`, '$.text'), ''), '')
+			FROM json_each(`m`.`content`) AS `p`
+			WHERE json_extract(`p`.`value`, '$.type') = 'text'
+		)
+		ELSE ''
+	END,
+	COALESCE((
+		SELECT group_concat(
+			COALESCE(json_extract(`s`.`value`, '$.title'), '') || ' '
+				|| COALESCE(json_extract(`s`.`value`, '$.url'), '') || ' '
+				|| COALESCE(json_extract(`s`.`value`, '$.snippet'), ''),
+			' '
+		)
+		FROM json_each(CASE WHEN json_valid(`m`.`annotations`) THEN `m`.`annotations` ELSE '[]' END) AS `a`,
+			json_each(`a`.`value`, '$.queries') AS `q`,
+			json_each(`q`.`value`, '$.sources') AS `s`
+	), '')
+FROM `message` AS `m`;--> statement-breakpoint
+INSERT INTO `chat_search` (`rowid`, `content`, `sources`)
+SELECT -`c`.`id`, `c`.`title`, ''
+FROM `chat` AS `c`
+WHERE `c`.`title` IS NOT NULL AND trim(`c`.`title`) <> '';
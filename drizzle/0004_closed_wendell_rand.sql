@@ -0,0 +1,12 @@
+CREATE TABLE `message_branch` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chatId` integer NOT NULL,
+	`ordinal` integer NOT NULL,
+	`activeIndex` integer NOT NULL,
+	`variants` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`chatId`) REFERENCES `chat`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_branch_chat_ordinal_idx` ON `message_branch` (`chatId`,`ordinal`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `persona` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`systemPrompt` text NOT NULL,
+	`providerId` text,
+	`modelId` text,
+	`thinkingLevel` text,
+	`webSearchEnabled` integer,
+	`temperature` real,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `chat` ADD COLUMN `personaId` integer;--> statement-breakpoint
+ALTER TABLE `chat` ADD COLUMN `systemPrompt` text;--> statement-breakpoint
+ALTER TABLE `chat` ADD COLUMN `temperature` real;
\ No newline at end of file
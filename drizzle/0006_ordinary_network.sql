@@ -0,0 +1,2 @@
+ALTER TABLE `chat` ADD COLUMN `contextStrategy` text;--> statement-breakpoint
+ALTER TABLE `chat` ADD COLUMN `contextSummary` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `message` ADD COLUMN `inputTokens` integer;--> statement-breakpoint
+ALTER TABLE `message` ADD COLUMN `outputTokens` integer;--> statement-breakpoint
+ALTER TABLE `message` ADD COLUMN `reasoningTokens` integer;--> statement-breakpoint
+ALTER TABLE `message` ADD COLUMN `cachedInputTokens` integer;--> statement-breakpoint
+ALTER TABLE `message` ADD COLUMN `cost` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `chat` ADD COLUMN `fallbackPolicy` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `chat` ADD COLUMN `disabledTools` text;
\ No newline at end of file
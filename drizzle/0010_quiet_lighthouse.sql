@@ -0,0 +1 @@
+ALTER TABLE `chat` ADD COLUMN `blockedDomains` text;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE `document_chunk` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`documentId` integer NOT NULL,
+	`ordinal` integer NOT NULL,
+	`text` text NOT NULL,
+	`embedding` blob,
+	FOREIGN KEY (`documentId`) REFERENCES `library_document`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `document_chunk_document_ordinal_idx` ON `document_chunk` (`documentId`,`ordinal`);--> statement-breakpoint
+CREATE TABLE `document_collection` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `library_document` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`collectionId` integer NOT NULL,
+	`name` text NOT NULL,
+	`mediaType` text NOT NULL,
+	`pageCount` integer,
+	`charCount` integer NOT NULL,
+	`chunkCount` integer NOT NULL,
+	`embeddingModel` text NOT NULL,
+	`status` text NOT NULL,
+	`error` text,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`collectionId`) REFERENCES `document_collection`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `library_document_collection_idx` ON `library_document` (`collectionId`);--> statement-breakpoint
+ALTER TABLE `chat` ADD COLUMN `documentCollections` text;
\ No newline at end of file
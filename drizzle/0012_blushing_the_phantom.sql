@@ -0,0 +1,51 @@
+CREATE TABLE `usage_event` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chatId` integer,
+	`source` text NOT NULL,
+	`providerId` text NOT NULL,
+	`modelId` text NOT NULL,
+	`inputTokens` integer NOT NULL,
+	`outputTokens` integer NOT NULL,
+	`reasoningTokens` integer NOT NULL,
+	`cachedInputTokens` integer NOT NULL,
+	`cost` real,
+	`createdAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `usage_event_created_at_idx` ON `usage_event` (`createdAt`);--> statement-breakpoint
+INSERT INTO `usage_event` (`chatId`, `source`, `providerId`, `modelId`, `inputTokens`, `outputTokens`, `reasoningTokens`, `cachedInputTokens`, `cost`, `createdAt`)
+SELECT
+	`m`.`chatId`,
+	'reply',
+	`m`.`providerId`,
+	`m`.`modelId`,
+	`m`.`inputTokens`,
+	COALESCE(`m`.`outputTokens`, 0),
+	COALESCE(`m`.`reasoningTokens`, 0),
+	COALESCE(`m`.`cachedInputTokens`, 0),
+	`m`.`cost`,
+	`m`.`createdAt`
+FROM `message` AS `m`
+WHERE `m`.`role` = 'assistant'
+	AND `m`.`inputTokens` IS NOT NULL
+	AND `m`.`providerId` IS NOT NULL
+	AND `m`.`modelId` IS NOT NULL
+ORDER BY `m`.`createdAt`, `m`.`id`;--> statement-breakpoint
+INSERT INTO `usage_event` (`chatId`, `source`, `providerId`, `modelId`, `inputTokens`, `outputTokens`, `reasoningTokens`, `cachedInputTokens`, `cost`, `createdAt`)
+SELECT
+	`b`.`chatId`,
+	'reply',
+	json_extract(`t`.`value`, '$.provider'),
+	json_extract(`t`.`value`, '$.modelId'),
+	COALESCE(json_extract(`t`.`value`, '$.inputTokens'), 0),
+	COALESCE(json_extract(`t`.`value`, '$.outputTokens'), 0),
+	COALESCE(json_extract(`t`.`value`, '$.reasoningTokens'), 0),
+	COALESCE(json_extract(`t`.`value`, '$.cachedInputTokens'), 0),
+	json_extract(`t`.`value`, '$.cost'),
+	`b`.`createdAt`
+FROM `message_branch` AS `b`, json_tree(`b`.`variants`) AS `t`
+WHERE json_valid(`b`.`variants`)
+	AND `t`.`type` = 'object'
+	AND json_extract(`t`.`value`, '$.type') = 'usage'
+	AND json_extract(`t`.`value`, '$.provider') IS NOT NULL
+	AND json_extract(`t`.`value`, '$.modelId') IS NOT NULL;
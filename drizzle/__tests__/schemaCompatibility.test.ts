@@ -37,9 +37,12 @@ const destructivePatterns = [
 
 const additivePatterns = [
   /^CREATE\s+TABLE\b/i,
+  /^CREATE\s+VIRTUAL\s+TABLE\b/i,
   /^CREATE\s+(UNIQUE\s+)?INDEX\b/i,
   /^ALTER\s+TABLE\b.*\bADD\s+COLUMN\b/i,
   /^PRAGMA\b/i,
+  // Backfills copy legacy data into new tables without touching the source rows.
+  /^INSERT\s+INTO\s+`?\w+`?\s*\([^)]*\)\s*SELECT\b/i,
 ];
 
 function readJsonFile<T>(filePath: string): T {
@@ -71,8 +74,10 @@ describe("schema compatibility migrations", () => {
   });
 
   it("preserves legacy chat columns and supports post-upgrade reads", () => {
+    const journal = readJsonFile<MigrationJournal>(path.resolve(metaDir, "_journal.json"));
+    const latestIdx = String(journal.entries.length - 1).padStart(4, "0");
     const legacySnapshotPath = path.resolve(metaDir, "0000_snapshot.json");
-    const currentSnapshotPath = path.resolve(metaDir, "0001_snapshot.json");
+    const currentSnapshotPath = path.resolve(metaDir, `${latestIdx}_snapshot.json`);
 
     const legacySnapshot = readJsonFile<SchemaSnapshot>(legacySnapshotPath);
     const currentSnapshot = readJsonFile<SchemaSnapshot>(currentSnapshotPath);
@@ -99,4 +104,11 @@ describe("schema compatibility migrations", () => {
     expect(currentChat.indexes.chat_updated_at_idx.columns).toEqual(["updatedAt"]);
     expect(currentChat.indexes.chat_provider_id_idx.columns).toEqual(["providerId"]);
   });
+
+  it("backfills the message table from legacy chat payloads", () => {
+    const sql = fs.readFileSync(path.resolve(drizzleDir, "0002_icy_mulholland_black.sql"), "utf8");
+
+    expect(sql).toMatch(/CREATE TABLE `message`/);
+    expect(sql).toMatch(/INSERT INTO `message`[\s\S]*FROM `chat`[\s\S]*json_each/);
+  });
 });
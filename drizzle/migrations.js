@@ -3,11 +3,33 @@
 import journal from './meta/_journal.json';
 import m0000 from './0000_medical_paper_doll.sql';
 import m0001 from './0001_boring_sabretooth.sql';
+import m0002 from './0002_icy_mulholland_black.sql';
+import m0003 from './0003_wooden_menace.sql';
+import m0004 from './0004_closed_wendell_rand.sql';
+import m0005 from './0005_slippery_captain_stacy.sql';
+import m0006 from './0006_ordinary_network.sql';
+import m0007 from './0007_fancy_gravity.sql';
+import m0008 from './0008_keen_maddog.sql';
+import m0009 from './0009_brisk_tempest.sql';
+import m0010 from './0010_quiet_lighthouse.sql';
+import m0011 from './0011_fixed_steve_rogers.sql';
+import m0012 from './0012_blushing_the_phantom.sql';
 
 export default {
   journal,
   migrations: {
     m0000,
     m0001,
+    m0002,
+    m0003,
+    m0004,
+    m0005,
+    m0006,
+    m0007,
+    m0008,
+    m0009,
+    m0010,
+    m0011,
+    m0012,
   },
 };
@@ -168,6 +168,58 @@ describe("useErrorRecovery", () => {
       expect(result.shouldFallback).toBe(true);
       expect(mockOperation).toHaveBeenCalledTimes(3);
     });
+
+    it("should wait exactly until a reported rate-limit reset", async () => {
+      jest.setSystemTime(1_000_000);
+      const mockOperation = jest
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error("Too many requests"))
+        .mockResolvedValue("success");
+      (classifyError as jest.Mock).mockReturnValue({
+        category: "rate_limit",
+        isRetryable: true,
+        shouldFallback: true,
+        message: "Rate limit exceeded",
+        rateLimit: { resetAt: 1_012_000, remaining: 0, limit: 60, limitKind: "requests" },
+      });
+
+      const onRetry = jest.fn();
+      const promise = executeWithRetry(mockOperation, DEFAULT_RETRY_CONFIG, onRetry);
+
+      await jest.advanceTimersByTimeAsync(11_999);
+      expect(mockOperation).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      const result = await promise;
+
+      expect(onRetry).toHaveBeenCalledWith(1, 12_000, expect.objectContaining({ category: "rate_limit" }));
+      expect(result.success).toBe(true);
+      expect(mockOperation).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up at once when the rate limit outlasts the wait limit", async () => {
+      jest.setSystemTime(1_000_000);
+      const mockOperation = jest.fn<() => Promise<string>>().mockRejectedValue(new Error("Too many requests"));
+      (classifyError as jest.Mock).mockReturnValue({
+        category: "rate_limit",
+        isRetryable: true,
+        shouldFallback: true,
+        message: "Rate limit exceeded",
+        rateLimit: { resetAt: 1_000_000 + 5 * 60_000, remaining: 0, limit: 50, limitKind: "requests" },
+      });
+
+      const onRetry = jest.fn();
+      const result = await executeWithRetry(
+        mockOperation,
+        { ...DEFAULT_RETRY_CONFIG, maxRateLimitWaitMs: 60_000 },
+        onRetry,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toBe(1);
+      expect(result.shouldFallback).toBe(true);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
   });
 
   // ============================================================================
@@ -477,6 +529,23 @@ describe("useErrorRecovery", () => {
       expect(selectRetryAfterMs(rateLimitedSnapshot, config)).not.toBeNull();
       expect(selectRetryAfterMs(inFlightSnapshot, config)).toBeNull();
     });
+
+    it("selectRetryAfterMs counts down to a reported reset", () => {
+      const snapshot: RetryState = {
+        attemptNumber: 1,
+        isRetrying: false,
+        nextRetryIn: null,
+        lastError: {
+          category: "rate_limit",
+          isRetryable: true,
+          shouldFallback: true,
+          message: "Rate limit",
+          rateLimit: { resetAt: 50_000, remaining: 0, limit: 10, limitKind: "tokens" },
+        },
+      };
+
+      expect(selectRetryAfterMs(snapshot, config, 20_000)).toBe(30_000);
+    });
   });
 
   // ============================================================================
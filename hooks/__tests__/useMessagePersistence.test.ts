@@ -5,6 +5,8 @@ import { useMessagePersistence } from "../useMessagePersistence";
 import useDatabase from "../useDatabase";
 import { executeWithRetry } from "../useErrorRecovery";
 import { acquireChatDeleteLock } from "@/lib/chat-persistence-coordinator";
+import { chat, message, messageBranch } from "@/db/schema";
+import type { ChatBranchFork } from "@/types/chat.types";
 
 jest.mock("../useDatabase", () => ({
   __esModule: true,
@@ -56,22 +58,67 @@ function createDeferred<T>(): Deferred<T> {
 
 describe("useMessagePersistence", () => {
   const insertRunMock = jest.fn();
-  const insertValuesMock = jest.fn(() => ({ run: insertRunMock }));
-  const insertMock = jest.fn(() => ({ values: insertValuesMock }));
-
-  const updateWhereMock = jest.fn(async () => undefined);
+  const upsertRunMock = jest.fn();
+  const onConflictDoUpdateMock = jest.fn(() => ({ run: upsertRunMock }));
+  const insertValuesMock = jest.fn(() => ({
+    run: insertRunMock,
+    onConflictDoUpdate: onConflictDoUpdateMock,
+  }));
+  const insertMock = jest.fn((_table: unknown) => ({ values: insertValuesMock }));
+
+  const updateRunMock = jest.fn();
+  const updateWhereMock = jest.fn(() => ({ run: updateRunMock }));
   const updateSetMock = jest.fn(() => ({ where: updateWhereMock }));
   const updateMock = jest.fn(() => ({ set: updateSetMock }));
+
+  const deleteRunMock = jest.fn();
+  const deleteWhereMock = jest.fn(() => ({ run: deleteRunMock }));
+  const deleteMock = jest.fn(() => ({ where: deleteWhereMock }));
+
+  const selectAllMock = jest.fn(() => [] as unknown[]);
+  const selectBranchAllMock = jest.fn(() => [] as unknown[]);
+  const selectMock = jest.fn(() => ({
+    from: (table: unknown) => ({
+      where: () => ({ all: table === messageBranch ? selectBranchAllMock : selectAllMock }),
+    }),
+  }));
+
+  const txRunMock = jest.fn();
+  const txMock = {
+    run: txRunMock,
+    insert: insertMock,
+    update: updateMock,
+    delete: deleteMock,
+    select: selectMock,
+  };
+  const transactionMock = jest.fn(async (callback: (tx: typeof txMock) => unknown) => callback(txMock));
   const executeWithRetryMock = executeWithRetry as unknown as jest.Mock;
 
+  const chatInsertCount = () => insertMock.mock.calls.filter(([table]) => table === chat).length;
+  const upsertedOrdinals = () => insertMock.mock.calls
+    .map(([table], index) => (table === message
+      ? (insertValuesMock.mock.calls[index] as unknown as [{ ordinal: number }])[0].ordinal
+      : null))
+    .filter((ordinal): ordinal is number => ordinal !== null);
+
+  function deferNextTransaction(): Deferred<void> {
+    const deferred = createDeferred<void>();
+    transactionMock.mockImplementationOnce(async (callback) => {
+      await deferred.promise;
+      return callback(txMock);
+    });
+    return deferred;
+  }
+
   beforeEach(() => {
     jest.clearAllMocks();
 
-    insertRunMock.mockResolvedValue({ lastInsertRowId: 101 });
+    insertRunMock.mockReturnValue({ lastInsertRowId: 101 });
+    selectAllMock.mockReturnValue([]);
+    selectBranchAllMock.mockReturnValue([]);
 
     (useDatabase as jest.Mock).mockReturnValue({
-      insert: insertMock,
-      update: updateMock,
+      transaction: transactionMock,
     });
 
     executeWithRetryMock.mockImplementation(async (runner: () => Promise<unknown>) => {
@@ -100,8 +147,8 @@ describe("useMessagePersistence", () => {
   });
 
   it("deduplicates concurrent identical saves at the persistence boundary", async () => {
-    const deferredInsert = createDeferred<{ lastInsertRowId: number }>();
-    insertRunMock.mockReturnValue(deferredInsert.promise);
+    const deferredTransaction = deferNextTransaction();
+    insertRunMock.mockReturnValue({ lastInsertRowId: 777 });
 
     const { result } = renderHook(() =>
       useMessagePersistence({
@@ -125,23 +172,28 @@ describe("useMessagePersistence", () => {
     });
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect(transactionMock).toHaveBeenCalledTimes(1);
     });
 
-    deferredInsert.resolve({ lastInsertRowId: 777 });
+    deferredTransaction.resolve();
 
     await act(async () => {
       await Promise.all([firstSave, secondSave]);
     });
 
-    expect(insertMock).toHaveBeenCalledTimes(1);
+    expect(transactionMock).toHaveBeenCalledTimes(1);
+    expect(chatInsertCount()).toBe(1);
+    expect(insertValuesMock).toHaveBeenCalledWith(
+      expect.objectContaining({ messages: [], thinkingOutput: [] }),
+    );
+    expect(upsertedOrdinals()).toEqual([0]);
     expect(updateMock).not.toHaveBeenCalled();
     expect(result.current.lastSavedChatId).toBe(777);
   });
 
   it("serializes superseding writes and upgrades follow-up save to update", async () => {
-    const deferredInsert = createDeferred<{ lastInsertRowId: number }>();
-    insertRunMock.mockReturnValue(deferredInsert.promise);
+    const deferredTransaction = deferNextTransaction();
+    insertRunMock.mockReturnValue({ lastInsertRowId: 314 });
 
     const baseProps = {
       streamState: "idle" as const,
@@ -177,23 +229,27 @@ describe("useMessagePersistence", () => {
     });
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
-      expect(updateMock).toHaveBeenCalledTimes(0);
+      expect(transactionMock).toHaveBeenCalledTimes(1);
+      expect(chatInsertCount()).toBe(0);
     });
 
-    deferredInsert.resolve({ lastInsertRowId: 314 });
+    deferredTransaction.resolve();
 
     await act(async () => {
       await Promise.all([firstSave, secondSave]);
     });
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect(chatInsertCount()).toBe(1);
       expect(updateMock).toHaveBeenCalledTimes(1);
       expect(updateSetMock).toHaveBeenCalledWith(
         expect.objectContaining({
           title: "My Chat",
-          messages: [{ role: "user", content: "second" }],
+        })
+      );
+      expect(onConflictDoUpdateMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          set: expect.objectContaining({ content: "second" }),
         })
       );
     });
@@ -220,14 +276,14 @@ describe("useMessagePersistence", () => {
     );
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(0);
+      expect(chatInsertCount()).toBe(0);
     });
 
     streamState = "completed";
     rerender(undefined);
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect(chatInsertCount()).toBe(1);
     });
   });
 
@@ -297,14 +353,14 @@ describe("useMessagePersistence", () => {
     );
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(0);
+      expect(chatInsertCount()).toBe(0);
     });
 
     streamState = "error";
     rerender(undefined);
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect(chatInsertCount()).toBe(1);
     });
   });
 
@@ -338,7 +394,7 @@ describe("useMessagePersistence", () => {
 
     await new Promise((resolve) => setTimeout(resolve, 150));
 
-    expect(insertMock).toHaveBeenCalledTimes(0);
+    expect(chatInsertCount()).toBe(0);
     expect(updateMock).toHaveBeenCalledTimes(0);
   });
 
@@ -372,13 +428,13 @@ describe("useMessagePersistence", () => {
 
     await new Promise((resolve) => setTimeout(resolve, 150));
 
-    expect(insertMock).toHaveBeenCalledTimes(0);
+    expect(chatInsertCount()).toBe(0);
     expect(updateMock).toHaveBeenCalledTimes(0);
   });
 
   it("ignores stale save completion after chat scope changes", async () => {
-    const deferredInsert = createDeferred<{ lastInsertRowId: number }>();
-    insertRunMock.mockReturnValue(deferredInsert.promise);
+    const deferredTransaction = deferNextTransaction();
+    insertRunMock.mockReturnValue({ lastInsertRowId: 777 });
 
     const baseProps = {
       streamState: "idle" as const,
@@ -406,14 +462,14 @@ describe("useMessagePersistence", () => {
     });
 
     await waitFor(() => {
-      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect(transactionMock).toHaveBeenCalledTimes(1);
     });
 
     chatIdParam = "42";
     messages = [{ role: "user", content: "loaded chat" }];
     rerender(undefined);
 
-    deferredInsert.resolve({ lastInsertRowId: 777 });
+    deferredTransaction.resolve();
 
     await act(async () => {
       await oldSave;
@@ -542,4 +598,147 @@ describe("useMessagePersistence", () => {
       releaseDeleteLock();
     }
   });
+
+  it("writes only message rows that differ from what is already stored", async () => {
+    selectAllMock.mockReturnValue([
+      { ordinal: 0, role: "user", content: "hello", reasoning: null, annotations: null },
+      { ordinal: 1, role: "assistant", content: "hi", reasoning: null, annotations: null },
+    ]);
+
+    let messages: ModelMessage[] = [
+      { role: "user", content: "hello" },
+      { role: "assistant", content: "hi" },
+    ];
+
+    const { result, rerender } = renderHook(() =>
+      useMessagePersistence({
+        streamState: "idle",
+        chatIdParam: "42",
+        messages,
+        thinkingOutput: [],
+        providerId: "apple",
+        modelId: "apple.on.device",
+        title: "Chat",
+        enabled: true,
+      })
+    );
+
+    await act(async () => {
+      await result.current.triggerSave();
+    });
+
+    // One read each for message and branch rows, only on the first save
+    expect(selectMock).toHaveBeenCalledTimes(2);
+    expect(upsertedOrdinals()).toEqual([]);
+
+    messages = [...messages, { role: "user", content: "again" }, { role: "assistant", content: "sure" }];
+    rerender(undefined);
+
+    await act(async () => {
+      await result.current.triggerSave();
+    });
+
+    expect(selectMock).toHaveBeenCalledTimes(2);
+    expect(upsertedOrdinals()).toEqual([2, 3]);
+    expect(insertValuesMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        chatId: 42,
+        ordinal: 3,
+        role: "assistant",
+        providerId: "apple",
+        modelId: "apple.on.device",
+      })
+    );
+    expect(deleteMock).not.toHaveBeenCalled();
+  });
+
+  it("deletes trailing message rows when the conversation shrinks", async () => {
+    selectAllMock.mockReturnValue([
+      { ordinal: 0, role: "user", content: "hello", reasoning: null, annotations: null },
+      { ordinal: 1, role: "assistant", content: "hi", reasoning: null, annotations: null },
+      { ordinal: 2, role: "user", content: "retry me", reasoning: null, annotations: null },
+    ]);
+
+    const { result } = renderHook(() =>
+      useMessagePersistence({
+        streamState: "idle",
+        chatIdParam: "42",
+        messages: [
+          { role: "user", content: "hello" },
+          { role: "assistant", content: "hi" },
+        ],
+        thinkingOutput: [],
+        providerId: "apple",
+        modelId: "apple.on.device",
+        title: "Chat",
+        enabled: true,
+      })
+    );
+
+    await act(async () => {
+      await result.current.triggerSave();
+    });
+
+    expect(upsertedOrdinals()).toEqual([]);
+    expect(deleteMock).toHaveBeenCalledWith(message);
+    expect(updateMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes changed forks and removes forks that no longer exist", async () => {
+    const staleFork = {
+      ordinal: 2,
+      activeIndex: 0,
+      variants: [null, { messages: [], thinkingOutput: [], forks: [] }],
+    };
+    selectAllMock.mockReturnValue([
+      { ordinal: 0, role: "user", content: "edited", reasoning: null, annotations: null },
+      { ordinal: 1, role: "assistant", content: "new answer", reasoning: null, annotations: null },
+    ]);
+    selectBranchAllMock.mockReturnValue([staleFork]);
+
+    const fork: ChatBranchFork = {
+      ordinal: 0,
+      activeIndex: 1,
+      variants: [
+        {
+          messages: [
+            { role: "user", content: "original" },
+            { role: "assistant", content: "old answer" },
+          ],
+          thinkingOutput: ["", ""],
+          forks: [],
+        },
+        null,
+      ],
+    };
+
+    const { result } = renderHook(() =>
+      useMessagePersistence({
+        streamState: "idle",
+        chatIdParam: "42",
+        messages: [
+          { role: "user", content: "edited" },
+          { role: "assistant", content: "new answer" },
+        ],
+        thinkingOutput: [],
+        branches: [fork],
+        providerId: "apple",
+        modelId: "apple.on.device",
+        title: "Chat",
+        enabled: true,
+      })
+    );
+
+    await act(async () => {
+      await result.current.triggerSave();
+    });
+
+    expect(upsertedOrdinals()).toEqual([]);
+    expect(insertMock).toHaveBeenCalledWith(messageBranch);
+    expect(insertValuesMock).toHaveBeenCalledWith(
+      expect.objectContaining({ chatId: 42, ordinal: 0, activeIndex: 1, variants: fork.variants })
+    );
+    expect(deleteMock).toHaveBeenCalledWith(messageBranch);
+    expect(updateMock).toHaveBeenCalledTimes(1);
+  });
 });
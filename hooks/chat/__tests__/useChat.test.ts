@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { renderHook, act } from '@testing-library/react-native';
 import useChat from '../useChat';
+import { useProviderStore } from '@/stores';
 
 const mockExecuteStreaming = jest.fn();
+const mockSummarizeContext = jest.fn();
 
 interface Deferred<T> {
   promise: Promise<T>;
@@ -53,6 +55,11 @@ jest.mock('../useChatStreaming', () => ({
   })),
 }));
 
+jest.mock('@/lib/context-summary', () => ({
+  ...(jest.requireActual('@/lib/context-summary') as object),
+  summarizeContext: (...args: any[]) => mockSummarizeContext(...args),
+}));
+
 jest.mock('@/providers/provider-cache', () => ({
   getCachedModel: jest.fn(() => ({
     provider: 'openai',
@@ -166,7 +173,7 @@ describe('useChat', () => {
     it('passes web search tools into streaming when enabled', async () => {
       const { result } = renderHook(() => useChat({
         enableWebSearch: true,
-        searxngUrl: 'https://search.example.com',
+        searchBackends: [{ id: 'searxng', url: 'https://search.example.com' }],
       }));
 
       act(() => {
@@ -189,6 +196,34 @@ describe('useChat', () => {
       expect(options.tools?.searchWeb).toBeDefined();
     });
 
+    it('puts the chat system prompt ahead of tool instructions and forwards temperature', async () => {
+      const { result } = renderHook(() => useChat({
+        enableWebSearch: true,
+        searchBackends: [{ id: 'searxng', url: 'https://search.example.com' }],
+        systemPrompt: 'Answer like a pirate.',
+        temperature: 0.3,
+      }));
+
+      act(() => {
+        result.current.setText('Where is the treasure?');
+      });
+
+      await act(async () => {
+        await result.current.sendMessage();
+      });
+
+      const [options] = mockExecuteStreaming.mock.calls[0] as [
+        {
+          systemPrompt?: string;
+          temperature?: number;
+        },
+      ];
+
+      expect(options.systemPrompt?.startsWith('Answer like a pirate.\n\n')).toBe(true);
+      expect(options.systemPrompt).toContain('searchWeb');
+      expect(options.temperature).toBe(0.3);
+    });
+
     it('marks stream lifecycle as completed when streaming succeeds', async () => {
       const { result } = renderHook(() => useChat({}));
 
@@ -425,7 +460,7 @@ describe('useChat', () => {
           source: 'compatibility',
         }),
       ]);
-      expect(result.current.errorMessage).toContain('Video messages require OpenRouter');
+      expect(result.current.errorMessage).toContain('Video messages require Gemini or OpenRouter');
       expect(onError).toHaveBeenCalledTimes(1);
     });
 
@@ -467,7 +502,36 @@ describe('useChat', () => {
           source: 'compatibility',
         }),
       ]);
-      expect(result.current.errorMessage).toContain('Video messages require OpenRouter');
+      expect(result.current.errorMessage).toContain('Video messages require Gemini or OpenRouter');
+    });
+
+    it('blocks image sends when the selected model cannot read images', async () => {
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'o3-mini',
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage({
+          text: 'What is in this photo?',
+          attachments: [
+            {
+              id: 'image-1',
+              kind: 'image',
+              uri: 'data:image/jpeg;base64,Zm9v',
+              mediaType: 'image/jpeg',
+            },
+          ],
+        });
+      });
+
+      expect(mockExecuteStreaming).not.toHaveBeenCalled();
+      const compatibilityMessage = result.current.messages[0] as { role: string; content: string };
+      expect(compatibilityMessage.role).toBe('assistant');
+      expect(compatibilityMessage.content).toContain('**Images Not Supported**');
+      expect(result.current.errorMessage).toBe(
+        "o3-mini can't read images. Switch to a vision-capable model and resend.",
+      );
     });
 
     it('allows video sends on video-capable OpenRouter models and keeps fallback disabled', async () => {
@@ -550,7 +614,7 @@ describe('useChat', () => {
         providerId: 'openrouter' as any,
         modelId: 'google/gemini-2.5-flash',
         enableWebSearch: true,
-        searxngUrl: 'https://search.example.com',
+        searchBackends: [{ id: 'searxng', url: 'https://search.example.com' }],
       }));
 
       await act(async () => {
@@ -607,6 +671,226 @@ describe('useChat', () => {
     });
   });
 
+  describe('branching', () => {
+    it('regenerates from an edited message and keeps the original as a sibling branch', async () => {
+      const { result } = renderHook(() => useChat({}));
+
+      await act(async () => {
+        await result.current.sendMessage('first question');
+      });
+      await act(async () => {
+        await result.current.sendMessage('follow up');
+      });
+
+      act(() => {
+        result.current.setText('unsent draft');
+      });
+
+      await act(async () => {
+        await result.current.editMessage(2, 'follow up, rephrased');
+      });
+
+      expect(result.current.messages).toEqual([
+        { role: 'user', content: 'first question' },
+        { role: 'assistant', content: '...' },
+        { role: 'user', content: 'follow up, rephrased' },
+        { role: 'assistant', content: '...' },
+      ]);
+      expect(result.current.text).toBe('unsent draft');
+      expect(result.current.branches).toHaveLength(1);
+      expect(result.current.branches[0]).toMatchObject({ ordinal: 2, activeIndex: 1 });
+
+      const lastCall = mockExecuteStreaming.mock.calls[mockExecuteStreaming.mock.calls.length - 1];
+      const providerMessages = lastCall[1] as { content: unknown }[];
+      expect(providerMessages.map((entry) => entry.content)).toEqual([
+        'first question',
+        '...',
+        'follow up, rephrased',
+      ]);
+
+      act(() => {
+        result.current.switchBranch(2, 0);
+      });
+
+      expect(result.current.messages[2]).toEqual({ role: 'user', content: 'follow up' });
+      expect(result.current.messages).toHaveLength(4);
+      expect(result.current.branches[0]).toMatchObject({ ordinal: 2, activeIndex: 0 });
+    });
+
+    it('ignores edits that target assistant messages or leave the text unchanged', async () => {
+      const { result } = renderHook(() => useChat({}));
+
+      await act(async () => {
+        await result.current.sendMessage('hello');
+      });
+      mockExecuteStreaming.mockClear();
+
+      await act(async () => {
+        await result.current.editMessage(1, 'rewrite the reply');
+        await result.current.editMessage(0, '  hello  ');
+      });
+
+      expect(mockExecuteStreaming).not.toHaveBeenCalled();
+      expect(result.current.branches).toEqual([]);
+    });
+
+    it('regenerates an assistant reply with another model and tags it', async () => {
+      const { result } = renderHook(() => useChat({}));
+
+      await act(async () => {
+        await result.current.sendMessage('explain monads');
+      });
+      mockExecuteStreaming.mockClear();
+
+      await act(async () => {
+        await result.current.regenerateMessage(1, { providerId: 'openrouter', modelId: 'google/gemini-2.5-pro' });
+      });
+
+      const [options, providerMessages] = mockExecuteStreaming.mock.calls[0] as [any, unknown];
+      expect(options.activeProvider).toBe('openrouter');
+      expect(options.model.modelId).toBe('google/gemini-2.5-pro');
+      expect((providerMessages as { content: unknown }[]).map((entry) => entry.content)).toEqual([
+        'explain monads',
+      ]);
+
+      expect(result.current.messages).toHaveLength(2);
+      expect(result.current.messages[1]).toMatchObject({
+        role: 'assistant',
+        annotations: [{ type: 'model', provider: 'openrouter', modelId: 'google/gemini-2.5-pro' }],
+      });
+      expect(result.current.branches[0]).toMatchObject({ ordinal: 1, activeIndex: 1 });
+      expect(result.current.currentProvider).toBe('ollama');
+
+      act(() => {
+        result.current.switchBranch(1, 0);
+      });
+
+      expect(result.current.messages[1]).toEqual({ role: 'assistant', content: '...' });
+    });
+  });
+
+  describe('compare mode', () => {
+    it('adopts the picked reply and keeps the others as branches', () => {
+      const { result } = renderHook(() => useChat({}));
+
+      act(() => {
+        result.current.adoptComparedReplies(
+          { role: 'user', content: 'which is better?' },
+          [
+            { message: { role: 'assistant', content: 'from openai' }, thinkingOutput: '' },
+            { message: { role: 'assistant', content: 'from ollama' }, thinkingOutput: 'hmm' },
+          ],
+          1,
+        );
+      });
+
+      expect(result.current.messages).toEqual([
+        { role: 'user', content: 'which is better?' },
+        { role: 'assistant', content: 'from ollama' },
+      ]);
+      expect(result.current.thinkingOutput).toEqual(['', 'hmm']);
+      expect(result.current.branches[0]).toMatchObject({ ordinal: 1, activeIndex: 1 });
+      expect(mockExecuteStreaming).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('context budget', () => {
+    const longTurn = (label: string) => [
+      { role: 'user' as const, content: `${label} ${'x'.repeat(6_000)}` },
+      { role: 'assistant' as const, content: `${label} reply ${'x'.repeat(2_000)}` },
+    ];
+
+    beforeEach(() => {
+      useProviderStore.setState({
+        capabilityOverrides: { ollama: { 'gpt-oss:latest': { contextTokens: 4_096 } } },
+      });
+    });
+
+    afterEach(() => {
+      useProviderStore.setState({ capabilityOverrides: {} });
+    });
+
+    const sendAndGetProviderMessages = async (result: { current: ReturnType<typeof useChat> }) => {
+      await act(async () => {
+        await result.current.sendMessage('and now?');
+      });
+
+      return mockExecuteStreaming.mock.calls[0][1] as { role: string; content: unknown }[];
+    };
+
+    it('drops the oldest turns that no longer fit but keeps them in the chat', async () => {
+      const { result } = renderHook(() => useChat({
+        initialMessages: [...longTurn('first'), ...longTurn('second')],
+      }));
+
+      const providerMessages = await sendAndGetProviderMessages(result);
+
+      expect(providerMessages[0].content).toMatch(/^second/);
+      expect(providerMessages[providerMessages.length - 1]).toEqual({ role: 'user', content: 'and now?' });
+      expect(result.current.messages[0].content).toMatch(/^first/);
+    });
+
+    it('keeps pinned turns under the keep-pinned strategy', async () => {
+      const { result } = renderHook(() => useChat({
+        initialMessages: [...longTurn('first'), ...longTurn('second')],
+        contextStrategy: 'keep-pinned',
+      }));
+
+      act(() => {
+        result.current.togglePinnedMessage(0);
+      });
+
+      const providerMessages = await sendAndGetProviderMessages(result);
+
+      expect(providerMessages.map((message) => String(message.content).split(' ')[0])).toEqual([
+        'first',
+        'first',
+        'and',
+      ]);
+    });
+
+    it('summarizes trimmed turns and sends the summary with the system prompt', async () => {
+      const onContextSummaryChange = jest.fn();
+      mockSummarizeContext.mockImplementation(async (options: any) => ({
+        text: 'They compared two itineraries.',
+        coveredCount: options.coveredCount,
+        signature: 'sig',
+      }));
+      const { result } = renderHook(() => useChat({
+        initialMessages: [...longTurn('first'), ...longTurn('second')],
+        contextStrategy: 'summarize',
+        onContextSummaryChange,
+      }));
+
+      await sendAndGetProviderMessages(result);
+
+      const [options] = mockExecuteStreaming.mock.calls[0] as [{ systemPrompt?: string }];
+      expect(mockSummarizeContext).toHaveBeenCalledWith(expect.objectContaining({ coveredCount: 4 }));
+      expect(onContextSummaryChange).toHaveBeenCalledWith(expect.objectContaining({ coveredCount: 4 }));
+      expect(options.systemPrompt).toContain('They compared two itineraries.');
+    });
+
+    it('reports what the summary call used', async () => {
+      const onUsage = jest.fn();
+      mockSummarizeContext.mockImplementation(async (options: any) => {
+        options.onUsage?.({ inputTokens: 3_000, outputTokens: 80, reasoningTokens: 0, cachedInputTokens: 0 });
+        return { text: 'They compared two itineraries.', coveredCount: options.coveredCount, signature: 'sig' };
+      });
+      const { result } = renderHook(() => useChat({
+        initialMessages: [...longTurn('first'), ...longTurn('second')],
+        contextStrategy: 'summarize',
+        onUsage,
+      }));
+
+      await sendAndGetProviderMessages(result);
+
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'usage', inputTokens: 3_000, outputTokens: 80 }),
+        'summary',
+      );
+    });
+  });
+
   describe('provider configuration', () => {
     it('should use legacy provider when no chatId provided', () => {
       const { result } = renderHook(() => useChat({
@@ -1021,5 +1305,223 @@ describe('useChat', () => {
       });
       expect(result.current.isStreaming).toBe(false);
     });
+
+    it('records each fallback hop on the reply that finally answered', async () => {
+      mockExecuteStreaming
+        .mockImplementationOnce(async () => ({
+          success: false,
+          shouldRetryWithFallback: true,
+          accumulated: '',
+          nextProvider: 'anthropic',
+          nextModel: 'claude-sonnet-4-5',
+          fallbackCategory: 'rate_limit',
+        }))
+        .mockImplementationOnce(async () => ({
+          success: true,
+          shouldRetryWithFallback: false,
+          accumulated: 'fallback success',
+        }));
+
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'gpt-5',
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage('fallback me');
+      });
+
+      expect((result.current.messages[1] as any).annotations).toEqual([
+        { type: 'model', provider: 'anthropic', modelId: 'claude-sonnet-4-5' },
+        {
+          type: 'fallback',
+          hops: [{
+            fromProvider: 'openai',
+            fromModel: 'gpt-5',
+            toProvider: 'anthropic',
+            toModel: 'claude-sonnet-4-5',
+            category: 'rate_limit',
+          }],
+        },
+      ]);
+    });
+
+    it('reports the usage of every attempt, including one a fallback replaced', async () => {
+      const usage = { inputTokens: 1_000, outputTokens: 200, reasoningTokens: 0, cachedInputTokens: 0 };
+      mockExecuteStreaming
+        .mockImplementationOnce(async () => ({
+          success: false,
+          shouldRetryWithFallback: true,
+          accumulated: 'partial',
+          usage: { ...usage, outputTokens: 20 },
+          nextProvider: 'anthropic',
+          nextModel: 'claude-sonnet-4-5',
+          fallbackCategory: 'server_error',
+        }))
+        .mockImplementationOnce(async () => ({
+          success: true,
+          shouldRetryWithFallback: false,
+          accumulated: 'fallback success',
+          usage,
+        }));
+      const onUsage = jest.fn();
+
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'gpt-5',
+        onUsage,
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage('fallback me');
+      });
+
+      expect(onUsage.mock.calls).toEqual([
+        [expect.objectContaining({ provider: 'openai', modelId: 'gpt-5', outputTokens: 20 }), 'reply'],
+        [expect.objectContaining({ provider: 'anthropic', modelId: 'claude-sonnet-4-5', outputTokens: 200 }), 'reply'],
+      ]);
+      expect(result.current.messages[1]).toMatchObject({
+        annotations: expect.arrayContaining([
+          expect.objectContaining({ type: 'usage', provider: 'anthropic', outputTokens: 200 }),
+        ]),
+      });
+    });
+
+    it('sends extracted PDF text after falling back to a provider without PDF input', async () => {
+      mockExecuteStreaming
+        .mockImplementationOnce(async () => ({
+          success: false,
+          shouldRetryWithFallback: true,
+          accumulated: '',
+          nextProvider: 'ollama',
+          nextModel: 'llama3.2',
+          fallbackCategory: 'server_error',
+        }))
+        .mockImplementationOnce(async () => ({
+          success: true,
+          shouldRetryWithFallback: false,
+          accumulated: 'read it',
+        }));
+
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'gpt-5',
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage({
+          text: 'Summarize this',
+          attachments: [
+            {
+              id: 'pdf-1',
+              kind: 'document',
+              uri: 'data:application/pdf;base64,Zm9v',
+              mediaType: 'application/pdf',
+              fileName: 'tides.pdf',
+            },
+          ],
+        });
+      });
+
+      expect(mockExecuteStreaming).toHaveBeenCalledTimes(2);
+      const partsSentTo = (call: number) => {
+        const messages = mockExecuteStreaming.mock.calls[call][1] as any[];
+        return messages[messages.length - 1].content as any[];
+      };
+      expect(partsSentTo(0)).toContainEqual(expect.objectContaining({ type: 'file', data: 'Zm9v' }));
+      expect(partsSentTo(1).some((part) => part.type === 'file')).toBe(false);
+      expect(partsSentTo(1)).toContainEqual({
+        type: 'text',
+        text: expect.stringContaining('<document name="tides.pdf">'),
+      });
+    });
+
+    it('sends extracted PDF text to a model that cannot read images', async () => {
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'o3-mini',
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage({
+          text: 'Summarize this',
+          attachments: [
+            {
+              id: 'pdf-1',
+              kind: 'document',
+              uri: 'data:application/pdf;base64,Zm9v',
+              mediaType: 'application/pdf',
+              fileName: 'tides.pdf',
+            },
+          ],
+        });
+      });
+
+      const messages = mockExecuteStreaming.mock.calls[0][1] as any[];
+      const parts = messages[messages.length - 1].content as any[];
+      expect(parts.some((part) => part.type === 'file')).toBe(false);
+      expect(parts).toContainEqual({
+        type: 'text',
+        text: expect.stringContaining('<document name="tides.pdf">'),
+      });
+    });
+
+    it('counts down a reported rate limit and offers the next provider for a long wait', async () => {
+      const retryAt = Date.now() + 10 * 60_000;
+      mockExecuteStreaming
+        .mockImplementationOnce(async (options: any) => {
+          options?.onRetryScheduled?.(5_000, {
+            category: 'rate_limit',
+            isRetryable: true,
+            shouldFallback: true,
+            message: 'Rate limit exceeded - please wait or try another provider',
+            rateLimit: { resetAt: Date.now() + 5_000, remaining: 0, limit: 20, limitKind: 'requests' },
+          });
+          options?.onError?.({
+            category: 'rate_limit',
+            isRetryable: true,
+            shouldFallback: true,
+            message: 'Rate limit exceeded - please wait or try another provider',
+            rateLimit: { resetAt: retryAt, remaining: 0, limit: 20, limitKind: 'requests' },
+          });
+          return {
+            success: false,
+            shouldRetryWithFallback: false,
+            accumulated: '',
+          };
+        })
+        .mockImplementationOnce(async () => ({
+          success: true,
+          shouldRetryWithFallback: false,
+          accumulated: 'answered elsewhere',
+        }));
+
+      const { result } = renderHook(() => useChat({
+        providerId: 'openai' as any,
+        modelId: 'gpt-5',
+        enableFallback: false,
+      }));
+
+      await act(async () => {
+        await result.current.sendMessage('wait for me');
+      });
+
+      expect(result.current.canRetry).toBe(true);
+      expect(result.current.errorMessage).toBe('Rate limit exceeded - please wait or try another provider');
+      expect(result.current.rateLimitWait).toEqual({
+        retryAt: expect.any(Number),
+        fallback: { providerId: 'apple', modelId: expect.any(String) },
+      });
+      expect(result.current.rateLimitWait!.retryAt).toBeGreaterThan(Date.now() + 9 * 60_000);
+
+      await act(async () => {
+        await result.current.retryWithFallback();
+      });
+
+      expect(mockExecuteStreaming).toHaveBeenCalledTimes(2);
+      expect(mockExecuteStreaming.mock.calls[1][0]).toMatchObject({ activeProvider: 'apple' });
+      expect(result.current.rateLimitWait).toBeNull();
+      expect(result.current.messages).toHaveLength(2);
+    });
   });
 });
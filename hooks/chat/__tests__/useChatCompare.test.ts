@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { renderHook, act } from '@testing-library/react-native';
+import type { ModelMessage } from 'ai';
+
+import { useChatCompare } from '../useChatCompare';
+import { useProviderStore } from '@/stores';
+
+const mockExecuteStreaming = jest.fn();
+
+jest.mock('../useChatStreaming', () => ({
+  useChatStreaming: jest.fn(() => ({
+    executeStreaming: (...args: any[]) => mockExecuteStreaming(...args),
+    handleStreamingError: jest.fn(),
+  })),
+}));
+
+jest.mock('@/providers/provider-cache', () => ({
+  getCachedModel: jest.fn((provider: string, modelId: string) => ({ provider, modelId })),
+}));
+
+jest.mock('@/providers/provider-factory', () => ({
+  getProviderModel: jest.fn(),
+}));
+
+type SetMessages = (updater: (prev: ModelMessage[]) => ModelMessage[]) => void;
+
+const selections = [
+  { providerId: 'openai' as const, modelId: 'gpt-5' },
+  { providerId: 'ollama' as const, modelId: 'llama3.2' },
+];
+
+describe('useChatCompare', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExecuteStreaming.mockImplementation(async (...args: any[]) => {
+      const [options, , setMessages, assistantIndex] = args as [any, ModelMessage[], SetMessages, number];
+      options.onChunkReceived?.();
+      setMessages((prev) => {
+        const next = [...prev];
+        next[assistantIndex] = { role: 'assistant', content: `answer from ${options.activeProvider}` };
+        return next;
+      });
+      options.onDoneSignalReceived?.();
+      options.onStreamCompleted?.();
+      return { success: true, shouldRetryWithFallback: false, accumulated: '', wasCancelled: false };
+    });
+  });
+
+  it('streams one prompt into a lane per selected model without fallback', async () => {
+    const { result } = renderHook(() => useChatCompare());
+    const history: ModelMessage[] = [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+    ];
+
+    await act(async () => {
+      await result.current.send({ input: 'compare this', text: '', history, selections });
+    });
+
+    expect(mockExecuteStreaming).toHaveBeenCalledTimes(2);
+    mockExecuteStreaming.mock.calls.forEach((call) => {
+      const [options, providerMessages] = call as [any, ModelMessage[]];
+      expect(options.enableFallback).toBe(false);
+      expect(providerMessages.map((entry) => entry.content)).toEqual(['hi', 'hello', 'compare this']);
+    });
+
+    expect(result.current.prompt).toEqual({ role: 'user', content: 'compare this' });
+    expect(result.current.lanes.map((lane) => lane.reply.content)).toEqual([
+      'answer from openai',
+      'answer from ollama',
+    ]);
+    expect(result.current.lanes.map((lane) => lane.streamState)).toEqual(['completed', 'completed']);
+    expect(result.current.isComparing).toBe(false);
+  });
+
+  it('fits the history to each lane\'s own context window', async () => {
+    useProviderStore.setState({
+      capabilityOverrides: { ollama: { 'llama3.2': { contextTokens: 4_096 } } },
+    });
+    const history: ModelMessage[] = ['first', 'second'].flatMap((label) => [
+      { role: 'user' as const, content: `${label} ${'x'.repeat(6_000)}` },
+      { role: 'assistant' as const, content: `${label} reply ${'x'.repeat(2_000)}` },
+    ]);
+    const { result } = renderHook(() => useChatCompare());
+
+    try {
+      await act(async () => {
+        await result.current.send({ input: 'and now?', text: '', history, selections });
+      });
+    } finally {
+      useProviderStore.setState({ capabilityOverrides: {} });
+    }
+
+    const sentBy = (provider: string) => {
+      const call = mockExecuteStreaming.mock.calls.find(([options]) => (options as any).activeProvider === provider);
+      return (call![1] as ModelMessage[]).map((entry) => String(entry.content).split(' ')[0]);
+    };
+    expect(sentBy('openai')).toEqual(['first', 'first', 'second', 'second', 'and']);
+    expect(sentBy('ollama')).toEqual(['second', 'second', 'and']);
+  });
+
+  it('reports every lane\'s usage, picked or not', async () => {
+    const usage = { inputTokens: 500, outputTokens: 100, reasoningTokens: 0, cachedInputTokens: 0 };
+    const streamReply = mockExecuteStreaming.getMockImplementation()!;
+    mockExecuteStreaming.mockImplementation(async (...args: any[]) => ({ ...(await streamReply(...args) as object), usage }));
+    const onUsage = jest.fn();
+    const { result } = renderHook(() => useChatCompare({ onUsage }));
+
+    await act(async () => {
+      await result.current.send({ input: 'compare this', text: '', history: [], selections });
+    });
+
+    expect(onUsage).toHaveBeenCalledTimes(2);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai', modelId: 'gpt-5' }), 'compare');
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: 'ollama', modelId: 'llama3.2' }), 'compare');
+  });
+
+  it('refuses to compare fewer than two models', async () => {
+    const { result } = renderHook(() => useChatCompare());
+    let didSend = true;
+
+    await act(async () => {
+      didSend = await result.current.send({ input: 'solo', text: '', history: [], selections: selections.slice(0, 1) });
+    });
+
+    expect(didSend).toBe(false);
+    expect(mockExecuteStreaming).not.toHaveBeenCalled();
+    expect(result.current.lanes).toEqual([]);
+  });
+
+  it('marks a failing lane as an error while the other lane completes', async () => {
+    mockExecuteStreaming.mockImplementationOnce(async (...args: any[]) => {
+      const [options, , setMessages] = args as [any, ModelMessage[], SetMessages];
+      options.onError?.(new Error('401 Unauthorized'));
+      setMessages(() => [{
+        role: 'assistant',
+        content: 'Invalid API key',
+        annotations: [{ type: 'error', error: '401 Unauthorized', fixes: [], source: 'streaming', provider: 'openai' }],
+      } as ModelMessage]);
+      return { success: true, shouldRetryWithFallback: false, accumulated: '', wasCancelled: false };
+    });
+    const { result } = renderHook(() => useChatCompare());
+
+    await act(async () => {
+      await result.current.send({ input: 'compare this', text: '', history: [], selections });
+    });
+
+    expect(result.current.lanes[0]).toMatchObject({ streamState: 'error', isError: true });
+    expect(result.current.lanes[1]).toMatchObject({ streamState: 'completed', isError: false });
+  });
+
+  it('hands back every reply tagged with its model when one is picked', async () => {
+    const { result } = renderHook(() => useChatCompare());
+
+    await act(async () => {
+      await result.current.send({ input: 'compare this', text: '', history: [], selections });
+    });
+
+    const picked = result.current.pick(1);
+
+    expect(picked?.chosenIndex).toBe(1);
+    expect(picked?.prompt).toEqual({ role: 'user', content: 'compare this' });
+    expect(picked?.replies.map((reply) => reply.message)).toEqual([
+      {
+        role: 'assistant',
+        content: 'answer from openai',
+        annotations: [{ type: 'model', provider: 'openai', modelId: 'gpt-5' }],
+      },
+      {
+        role: 'assistant',
+        content: 'answer from ollama',
+        annotations: [{ type: 'model', provider: 'ollama', modelId: 'llama3.2' }],
+      },
+    ]);
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(result.current.lanes).toEqual([]);
+    expect(result.current.prompt).toBeNull();
+  });
+});
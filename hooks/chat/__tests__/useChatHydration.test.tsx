@@ -7,8 +7,10 @@ import { useChatHydration } from "../useChatHydration";
 import { createTestQueryClient } from "@/test/renderWithQueryClient";
 
 const mockGet: any = jest.fn();
+const mockOrderBy: any = jest.fn();
 const mockWhere = jest.fn(() => ({
   get: mockGet,
+  orderBy: mockOrderBy,
 }));
 const mockFrom = jest.fn(() => ({
   where: mockWhere,
@@ -16,17 +18,11 @@ const mockFrom = jest.fn(() => ({
 const mockSelect = jest.fn(() => ({
   from: mockFrom,
 }));
-const mockUpdateWhere = jest.fn(() => Promise.resolve());
-const mockUpdateSet = jest.fn(() => ({
-  where: mockUpdateWhere,
-}));
-const mockUpdate = jest.fn(() => ({
-  set: mockUpdateSet,
-}));
+const mockTransaction: any = jest.fn();
 
 const mockDb = {
   select: mockSelect,
-  update: mockUpdate,
+  transaction: mockTransaction,
 };
 
 jest.mock("@/hooks/useDatabase", () => ({
@@ -35,7 +31,11 @@ jest.mock("@/hooks/useDatabase", () => ({
 }));
 
 jest.mock("drizzle-orm", () => ({
+  and: jest.fn((...conditions) => conditions),
+  asc: jest.fn((column) => column),
   eq: jest.fn((column, value) => ({ column, value })),
+  gte: jest.fn((column, value) => ({ column, value })),
+  sql: jest.fn(() => ({})),
 }));
 
 function createWrapper() {
@@ -58,7 +58,9 @@ describe("useChatHydration", () => {
   it("hydrates an existing chat from the database", async () => {
     const setMessages = jest.fn();
     const setThinkingOutput = jest.fn();
+    const setBranches = jest.fn();
     const setTitle = jest.fn();
+    const setChatSettings = jest.fn();
     const setText = jest.fn();
     const clearPendingAttachments = jest.fn();
     const clearOverride = jest.fn();
@@ -67,14 +69,39 @@ describe("useChatHydration", () => {
     const syncFromDatabase = jest.fn();
 
     mockGet.mockResolvedValue({
-      id: 42,
-      messages: [{ role: "user", content: "Hello" }],
-      thinkingOutput: ["thinking"],
       title: "Loaded chat",
       providerId: "openai",
       modelId: "gpt-4o",
+      personaId: 3,
+      systemPrompt: "  Answer like a pirate.  ",
+      temperature: 0.4,
+      contextStrategy: "summarize",
+      contextSummary: { text: "They met at the harbour.", coveredCount: 2, signature: "2:abc" },
+      fallbackPolicy: "never",
+      disabledTools: ["docs/search"],
+      blockedDomains: ["pinterest.com"],
+      documentCollections: [4, 4, -1],
       updatedAt: new Date("2025-01-01T00:00:00.000Z"),
     });
+    const storedFork = {
+      ordinal: 0,
+      activeIndex: 1,
+      variants: [
+        { messages: [{ role: "user", content: "Hi" }], thinkingOutput: [""], forks: [] },
+        null,
+      ],
+    };
+    mockOrderBy
+      .mockResolvedValueOnce([
+        {
+          ordinal: 0,
+          role: "user",
+          content: "Hello",
+          reasoning: "thinking",
+          annotations: null,
+        },
+      ])
+      .mockResolvedValueOnce([storedFork]);
 
     const { result } = renderHook(
       () => useChatHydration({
@@ -84,7 +111,9 @@ describe("useChatHydration", () => {
         syncFromDatabase,
         setMessages,
         setThinkingOutput,
+        setBranches,
         setTitle,
+        setChatSettings,
         setText,
         clearPendingAttachments,
         resetAutoTitleState,
@@ -99,10 +128,92 @@ describe("useChatHydration", () => {
 
     expect(setMessages).toHaveBeenLastCalledWith([{ role: "user", content: "Hello" }]);
     expect(setThinkingOutput).toHaveBeenLastCalledWith(["thinking"]);
+    expect(setBranches).toHaveBeenLastCalledWith([storedFork]);
     expect(setTitle).toHaveBeenLastCalledWith("Loaded chat");
+    expect(setChatSettings).toHaveBeenLastCalledWith({
+      personaId: 3,
+      systemPrompt: "Answer like a pirate.",
+      temperature: 0.4,
+      contextStrategy: "summarize",
+      contextSummary: { text: "They met at the harbour.", coveredCount: 2, signature: "2:abc" },
+      fallbackPolicy: "never",
+      disabledTools: ["docs/search"],
+      blockedDomains: ["pinterest.com"],
+      documentCollections: [4],
+    });
     expect(syncAutoTitleState).toHaveBeenCalledWith("Loaded chat");
     expect(syncFromDatabase).toHaveBeenCalledWith("openai", "gpt-4o");
     expect(result.current.hydrationError).toBeNull();
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the legacy chat payload and backfills message rows", async () => {
+    const setMessages = jest.fn();
+    const setThinkingOutput = jest.fn();
+    const txRun = jest.fn();
+    const tx = {
+      run: txRun,
+      delete: jest.fn(() => ({ where: jest.fn(() => ({ run: txRun })) })),
+      insert: jest.fn(() => ({
+        values: jest.fn(() => ({
+          onConflictDoUpdate: jest.fn(() => ({ run: txRun })),
+        })),
+      })),
+    };
+    mockTransaction.mockImplementation((callback: (handle: typeof tx) => void) => callback(tx));
+
+    mockGet
+      .mockResolvedValueOnce({
+        title: "Legacy chat",
+        providerId: "openai",
+        modelId: "gpt-4o",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      })
+      .mockResolvedValueOnce({
+        messages: [
+          { role: "user", content: "Hi" },
+          { role: "assistant", content: "Hello there" },
+        ],
+        thinkingOutput: ["", "pondering"],
+      });
+    mockOrderBy.mockResolvedValue([]);
+
+    const { result } = renderHook(
+      () => useChatHydration({
+        chatIdParam: "7",
+        db: mockDb as any,
+        clearOverride: jest.fn(),
+        syncFromDatabase: jest.fn(),
+        setMessages,
+        setThinkingOutput,
+        setBranches: jest.fn(),
+        setTitle: jest.fn(),
+        setChatSettings: jest.fn(),
+        setText: jest.fn(),
+        clearPendingAttachments: jest.fn(),
+        resetAutoTitleState: jest.fn(),
+        syncAutoTitleState: jest.fn(),
+      }),
+      { wrapper: createWrapper() },
+    );
+
+    await waitFor(() => {
+      expect(result.current.chatID).toBe(7);
+    });
+
+    expect(setMessages).toHaveBeenLastCalledWith([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello there" },
+    ]);
+    expect(setThinkingOutput).toHaveBeenLastCalledWith(["", "pondering"]);
+
+    await waitFor(() => {
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+    });
+    expect(tx.delete).toHaveBeenCalledTimes(1);
+    expect(tx.insert).toHaveBeenCalledTimes(2);
+    // Index purge + row delete, then per message: upsert, index delete, index insert
+    expect(txRun).toHaveBeenCalledTimes(2 + 2 * 3);
   });
 
   it("surfaces an invalid chat id as a hydration error", async () => {
@@ -114,7 +225,9 @@ describe("useChatHydration", () => {
         syncFromDatabase: jest.fn(),
         setMessages: jest.fn(),
         setThinkingOutput: jest.fn(),
+        setBranches: jest.fn(),
         setTitle: jest.fn(),
+        setChatSettings: jest.fn(),
         setText: jest.fn(),
         clearPendingAttachments: jest.fn(),
         resetAutoTitleState: jest.fn(),
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { renderHook, waitFor } from '@testing-library/react-native';
+import React, { type ReactNode } from 'react';
+
+import { useChatPersona } from '../useChatPersona';
+import { createTestQueryClient } from '@/test/renderWithQueryClient';
+import type { Persona } from '@/lib/personas';
+
+const mockGetPersona = jest.fn();
+const mockSetSelectedProvider = jest.fn();
+const mockSetSelectedModel = jest.fn();
+const mockSetThinkingLevel = jest.fn();
+const mockSetWebSearchEnabled = jest.fn();
+
+jest.mock('@/lib/personas', () => ({
+  ...jest.requireActual<typeof import('@/lib/personas')>('@/lib/personas'),
+  getPersona: (...args: any[]) => mockGetPersona(...args),
+}));
+
+jest.mock('@/stores', () => ({
+  useProviderStore: {
+    getState: () => ({
+      setSelectedProvider: mockSetSelectedProvider,
+      setSelectedModel: mockSetSelectedModel,
+    }),
+  },
+}));
+
+jest.mock('@/stores/useSettingsStore', () => ({
+  useSettingsStore: {
+    getState: () => ({
+      setThinkingLevel: mockSetThinkingLevel,
+      setWebSearchEnabled: mockSetWebSearchEnabled,
+    }),
+  },
+}));
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+const pirate: Persona = {
+  id: 3,
+  name: 'Pirate',
+  systemPrompt: 'Answer like a pirate.',
+  providerId: 'ollama',
+  modelId: 'llama3.2',
+  thinkingLevel: 'low',
+  webSearchEnabled: true,
+  temperature: 1.1,
+  createdAt: now,
+  updatedAt: now,
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={createTestQueryClient()}>{children}</QueryClientProvider>
+);
+
+describe('useChatPersona', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPersona.mockReturnValue(pirate);
+  });
+
+  it('applies the launch persona to a new chat once', async () => {
+    const setChatSettings = jest.fn();
+    const { rerender } = renderHook(
+      ({ activePersonaId }: { activePersonaId: number | null }) => useChatPersona({
+        chatIdParam: 'new',
+        launchPersonaId: 3,
+        activePersonaId,
+        db: {} as any,
+        isInitializing: false,
+        setChatSettings,
+      }),
+      { wrapper, initialProps: { activePersonaId: null } },
+    );
+
+    expect(mockSetSelectedProvider).toHaveBeenCalledWith('ollama');
+    expect(mockSetSelectedModel).toHaveBeenCalledWith('llama3.2');
+    expect(mockSetThinkingLevel).toHaveBeenCalledWith('low');
+    expect(mockSetWebSearchEnabled).toHaveBeenCalledWith(true);
+    expect(setChatSettings).toHaveBeenCalledWith({
+      personaId: 3,
+      systemPrompt: 'Answer like a pirate.',
+      temperature: 1.1,
+      contextStrategy: 'drop-oldest',
+      contextSummary: null,
+      fallbackPolicy: 'allow',
+      disabledTools: [],
+      blockedDomains: [],
+      documentCollections: [],
+    });
+
+    rerender({ activePersonaId: 3 });
+
+    expect(setChatSettings).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves existing chats and unset defaults alone', () => {
+    mockGetPersona.mockReturnValue({
+      ...pirate,
+      providerId: null,
+      modelId: null,
+      thinkingLevel: null,
+      webSearchEnabled: null,
+    });
+    const setChatSettings = jest.fn();
+
+    renderHook(() => useChatPersona({
+      chatIdParam: '12',
+      launchPersonaId: 3,
+      activePersonaId: null,
+      db: {} as any,
+      isInitializing: false,
+      setChatSettings,
+    }), { wrapper });
+
+    expect(setChatSettings).not.toHaveBeenCalled();
+    expect(mockSetSelectedProvider).not.toHaveBeenCalled();
+  });
+
+  it('exposes the persona the chat was started from', async () => {
+    const { result } = renderHook(() => useChatPersona({
+      chatIdParam: '12',
+      launchPersonaId: null,
+      activePersonaId: 3,
+      db: {} as any,
+      isInitializing: false,
+      setChatSettings: jest.fn(),
+    }), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.activePersona?.name).toBe('Pirate');
+    });
+  });
+});
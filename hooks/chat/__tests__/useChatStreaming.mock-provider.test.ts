@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import type { ModelMessage } from 'ai';
+
+import { useChatStreaming, type StreamingOptions } from '../useChatStreaming';
+import { useStreamLifecycle } from '../useStreamLifecycle';
+import { createMockModel, type MockFixture } from '@/providers/mock-provider';
+import { getNextFallbackProvider } from '@/providers/fallback-chain';
+import { resetProviderHealth } from '@/providers/provider-health';
+import type { ProviderId } from '@/types/provider.types';
+
+// Only configuration lookups are stubbed; streamText, retry, error
+// classification and formatting all run for real against the mock model
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+jest.mock('@/stores', () => ({
+  getProviderAuth: jest.fn(() => ({})),
+  getModelCapabilities: jest.fn((providerId: string, modelId: string) => (
+    jest.requireActual<typeof import('@/lib/model-capabilities')>('@/lib/model-capabilities')
+      .resolveModelCapabilities(providerId as any, modelId)
+  )),
+}));
+jest.mock('@/providers/fallback-chain', () => ({
+  ...jest.requireActual<typeof import('@/providers/fallback-chain')>('@/providers/fallback-chain'),
+  getNextFallbackProvider: jest.fn(),
+  shouldFallbackOnError: jest.fn(() => true),
+  getRateLimitWaitLimitMs: jest.fn(() => 30_000),
+}));
+
+const mockGetNextFallbackProvider = getNextFallbackProvider as jest.MockedFunction<typeof getNextFallbackProvider>;
+
+const messages: ModelMessage[] = [{ role: 'user', content: 'Tell me about tides' }];
+
+const createOptions = (fixture: MockFixture, overrides: Partial<StreamingOptions> = {}): StreamingOptions => ({
+  model: {
+    model: createMockModel(fixture),
+    provider: 'mock' as ProviderId,
+    modelId: 'mock-text',
+    isOriginal: true,
+    attemptedProviders: [],
+  },
+  enableRetry: true,
+  retryConfig: { maxRetries: 0 },
+  enableFallback: true,
+  activeProvider: 'mock',
+  effectiveProviderId: 'mock',
+  ...overrides,
+});
+
+const runStream = async (options: StreamingOptions) => {
+  const { result } = renderHook(() => useChatStreaming());
+  let conversation: ModelMessage[] = [...messages, { role: 'assistant', content: '' }];
+  const setMessages = (update: ModelMessage[] | ((prev: ModelMessage[]) => ModelMessage[])) => {
+    conversation = typeof update === 'function' ? update(conversation) : update;
+  };
+
+  // Not wrapped in act: the lifecycle aborts from a state update, which act
+  // would hold back until the stream it is meant to stop had finished
+  const outcome = await result.current.executeStreaming(options, messages, setMessages as any, 1, { current: [] });
+
+  return { outcome, assistant: conversation[1] };
+};
+
+describe('useChatStreaming with the mock provider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetProviderHealth();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('streams a scripted reply into the assistant message with its usage', async () => {
+    const onChunk = jest.fn();
+    const onStreamCompleted = jest.fn();
+
+    const { outcome, assistant } = await runStream(createOptions({
+      turns: [[
+        { type: 'text', text: 'Tides follow ' },
+        { type: 'delay', ms: 5 },
+        { type: 'text', text: 'the moon.' },
+        { type: 'usage', inputTokens: 12, outputTokens: 4 },
+      ]],
+    }, { onChunk, onStreamCompleted }));
+
+    expect(outcome).toMatchObject({ success: true, accumulated: 'Tides follow the moon.', wasCancelled: false });
+    expect(outcome.usage).toMatchObject({ inputTokens: 12, outputTokens: 4 });
+    expect(assistant).toEqual({ role: 'assistant', content: 'Tides follow the moon.' });
+    expect(onChunk).toHaveBeenCalled();
+    expect(onStreamCompleted).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back when the provider breaks off mid-stream', async () => {
+    mockGetNextFallbackProvider.mockReturnValue({ provider: 'openai', model: 'gpt-5' });
+    const onFallback = jest.fn();
+
+    const { outcome } = await runStream(createOptions({
+      turns: [[
+        { type: 'text', text: 'Tides ' },
+        { type: 'error', message: 'Upstream connection reset', statusCode: 502 },
+      ]],
+    }, { onFallback }));
+
+    expect(outcome).toMatchObject({
+      success: false,
+      shouldRetryWithFallback: true,
+      nextProvider: 'openai',
+      nextModel: 'gpt-5',
+      fallbackCategory: 'server_error',
+    });
+    expect(onFallback).toHaveBeenCalledWith('mock', 'openai', expect.any(String));
+  });
+
+  it('keeps partial output and shows the error when nothing is left to fall back to', async () => {
+    mockGetNextFallbackProvider.mockReturnValue(null);
+
+    const { outcome, assistant } = await runStream(createOptions({
+      turns: [[
+        { type: 'text', text: 'Tides ' },
+        { type: 'error', message: 'Upstream connection reset', statusCode: 502 },
+      ]],
+    }));
+
+    expect(outcome.shouldRetryWithFallback).toBe(false);
+    expect(assistant.content).toMatch(/^Tides \n\n---\n\n\*\*Error:\*\* /);
+    expect((assistant as any).annotations).toEqual([
+      expect.objectContaining({ type: 'error', source: 'streaming', provider: 'mock' }),
+    ]);
+  });
+
+  it('stops a stalled stream when the lifecycle inactivity timeout fires', async () => {
+    const onTimeout = jest.fn();
+    const { result: lifecycle } = renderHook(() => useStreamLifecycle({ timeoutMs: 100, onError: onTimeout }));
+    let controller!: AbortController;
+    act(() => {
+      controller = lifecycle.current.initializeStream();
+    });
+
+    const { outcome, assistant } = await runStream(createOptions({
+      turns: [[
+        { type: 'text', text: 'Tides ' },
+        { type: 'delay', ms: 60_000 },
+        { type: 'text', text: 'never arrives' },
+      ]],
+    }, {
+      abortSignal: controller.signal,
+      onChunkReceived: () => lifecycle.current.markChunkReceived(),
+    }));
+
+    expect(onTimeout).toHaveBeenCalledWith(expect.objectContaining({
+      message: expect.stringContaining('Stream timed out while waiting for data'),
+    }));
+    await waitFor(() => {
+      expect(lifecycle.current.streamState).toBe('error');
+    });
+    expect(outcome).toMatchObject({ accumulated: 'Tides ', wasCancelled: true });
+    expect(assistant.content).toBe('Tides ');
+  });
+});
@@ -1,8 +1,14 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { renderHook, act } from '@testing-library/react-native';
 import { useChatStreaming } from '../useChatStreaming';
-import { classifyError, getNextFallbackProvider } from '@/providers/fallback-chain';
+import {
+  classifyError,
+  getNextFallbackProvider,
+  getRateLimitWaitLimitMs,
+  shouldFallbackOnError,
+} from '@/providers/fallback-chain';
 import { executeWithRetry } from '@/hooks/useErrorRecovery';
+import { getProviderHealth, recordProviderFailure, resetProviderHealth } from '@/providers/provider-health';
 import { formatErrorForChat, getErrorFixes, getProviderErrorHint } from '@/lib/error-messages';
 import { generateText, streamText } from 'ai';
 import type { ModelMessage } from 'ai';
@@ -20,11 +26,17 @@ jest.mock('expo/fetch', () => ({
 }));
 jest.mock('@/stores', () => ({
   getProviderAuth: jest.fn(),
+  getModelCapabilities: jest.fn((providerId: string, modelId: string) => (
+    jest.requireActual<typeof import('@/lib/model-capabilities')>('@/lib/model-capabilities')
+      .resolveModelCapabilities(providerId as any, modelId)
+  )),
 }));
 
 describe('useChatStreaming', () => {
   const mockClassifyError = classifyError as jest.MockedFunction<typeof classifyError>;
   const mockGetNextFallbackProvider = getNextFallbackProvider as jest.MockedFunction<typeof getNextFallbackProvider>;
+  const mockShouldFallbackOnError = shouldFallbackOnError as jest.MockedFunction<typeof shouldFallbackOnError>;
+  const mockGetRateLimitWaitLimitMs = getRateLimitWaitLimitMs as jest.MockedFunction<typeof getRateLimitWaitLimitMs>;
   const mockExecuteWithRetry = executeWithRetry as jest.MockedFunction<typeof executeWithRetry>;
   const mockFormatErrorForChat = formatErrorForChat as jest.MockedFunction<typeof formatErrorForChat>;
   const mockGetErrorFixes = getErrorFixes as jest.MockedFunction<typeof getErrorFixes>;
@@ -55,6 +67,7 @@ describe('useChatStreaming', () => {
     
     setMessagesMock = jest.fn();
     failedProvidersRef = { current: [] };
+    resetProviderHealth();
 
     // Default mock implementations
     mockClassifyError.mockReturnValue({
@@ -63,6 +76,7 @@ describe('useChatStreaming', () => {
       shouldFallback: true,
       message: 'Server error occurred',
     });
+    mockShouldFallbackOnError.mockImplementation((error) => mockClassifyError(error).shouldFallback);
 
     mockExecuteWithRetry.mockResolvedValue({
       success: true,
@@ -305,6 +319,47 @@ describe('useChatStreaming', () => {
       expect(setMessagesMock).toHaveBeenCalledTimes(2);
     });
 
+    it('returns the token usage reported on the finish part', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+
+      const mockFullStream = {
+        [Symbol.asyncIterator]: async function* () {
+          yield { type: 'text-delta', text: 'Hi' };
+          yield {
+            type: 'finish',
+            totalUsage: {
+              inputTokens: 1200,
+              outputTokens: 300,
+              totalTokens: 1500,
+              inputTokenDetails: { noCacheTokens: 200, cacheReadTokens: 1000, cacheWriteTokens: undefined },
+              outputTokenDetails: { textTokens: 100, reasoningTokens: 200 },
+            },
+          };
+        },
+      };
+
+      mockStreamText.mockReturnValue({
+        fullStream: mockFullStream,
+      } as any);
+
+      const streamingResult = await act(async () => {
+        return await result.current.executeStreaming(
+          defaultOptions,
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef,
+        );
+      });
+
+      expect(streamingResult.usage).toEqual({
+        inputTokens: 1200,
+        outputTokens: 300,
+        reasoningTokens: 200,
+        cachedInputTokens: 1000,
+      });
+    });
+
     it('preserves existing assistant annotations while streaming updates', async () => {
       const { result } = renderHook(() => useChatStreaming());
 
@@ -468,6 +523,84 @@ describe('useChatStreaming', () => {
       );
     });
 
+    it('should map the thinking level to an Anthropic thinking budget', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+      const mockOnThinkingChunk = jest.fn();
+
+      await act(async () => {
+        return await result.current.executeStreaming(
+          {
+            ...defaultOptions,
+            model: {
+              ...mockModel,
+              provider: 'anthropic' as ProviderId,
+              modelId: 'claude-sonnet-4-5',
+            },
+            activeProvider: 'anthropic' as ProviderId,
+            effectiveProviderId: 'anthropic' as ProviderId,
+            thinkingLevel: 'low',
+            onThinkingChunk: mockOnThinkingChunk,
+          },
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(mockStreamText).toHaveBeenCalledWith(
+        expect.objectContaining({
+          providerOptions: {
+            anthropic: {
+              thinking: {
+                type: 'enabled',
+                budgetTokens: 1024,
+              },
+            },
+          },
+        })
+      );
+    });
+
+    it('should map the thinking level to a Gemini thinking budget', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+      const mockOnThinkingChunk = jest.fn();
+
+      await act(async () => {
+        return await result.current.executeStreaming(
+          {
+            ...defaultOptions,
+            model: {
+              ...mockModel,
+              provider: 'gemini' as ProviderId,
+              modelId: 'gemini-2.5-flash',
+            },
+            activeProvider: 'gemini' as ProviderId,
+            effectiveProviderId: 'gemini' as ProviderId,
+            thinkingLevel: 'high',
+            onThinkingChunk: mockOnThinkingChunk,
+          },
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(mockStreamText).toHaveBeenCalledWith(
+        expect.objectContaining({
+          providerOptions: {
+            google: {
+              thinkingConfig: {
+                thinkingBudget: 24576,
+                includeThoughts: true,
+              },
+            },
+          },
+        })
+      );
+    });
+
     it('uses OpenRouter video transport for video file messages', async () => {
       const { result } = renderHook(() => useChatStreaming());
       const mockOnChunk = jest.fn();
@@ -711,6 +844,7 @@ describe('useChatStreaming', () => {
       expect(streamingResult.shouldRetryWithFallback).toBe(true);
       expect(streamingResult.nextProvider).toBe('apple');
       expect(streamingResult.nextModel).toBe('gpt-4');
+      expect(streamingResult.fallbackCategory).toBe('server_error');
       expect(failedProvidersRef.current).toContain('openai');
       expect(mockOnProviderChange).toHaveBeenCalledWith('apple', 'gpt-4', true);
       expect(mockOnFallback).toHaveBeenCalledWith('openai', 'apple', 'Server error occurred');
@@ -976,8 +1110,127 @@ describe('useChatStreaming', () => {
         expect.objectContaining({
           maxRetries: 5,
           baseDelayMs: 2000,
-        })
+        }),
+        expect.any(Function)
+      );
+    });
+
+    it('counts each failed attempt towards the provider circuit', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+
+      mockExecuteWithRetry.mockImplementation(async (_operation, _config, onRetry) => {
+        const attemptError = {
+          category: 'timeout' as const,
+          isRetryable: true,
+          shouldFallback: true,
+          message: 'Request timed out',
+        };
+        onRetry?.(1, 1000, attemptError);
+        onRetry?.(2, 2000, attemptError);
+        return { success: false, attempts: 3, shouldFallback: true, error: attemptError };
+      });
+
+      await act(async () => {
+        return await result.current.executeStreaming(
+          { ...defaultOptions, enableRetry: true },
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(getProviderHealth('openai')).toMatchObject({ circuit: 'open', consecutiveFailures: 3 });
+    });
+
+    it('passes the user\'s rate-limit wait and reports scheduled retries', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+      const mockOnRetryScheduled = jest.fn();
+      const rateLimitError = {
+        category: 'rate_limit' as const,
+        isRetryable: true,
+        shouldFallback: true,
+        message: 'Rate limit exceeded',
+        rateLimit: { resetAt: Date.now() + 8_000, remaining: 0, limit: 20, limitKind: 'requests' as const },
+      };
+
+      mockGetRateLimitWaitLimitMs.mockReturnValue(45_000);
+      mockExecuteWithRetry.mockImplementation(async (_operation, _config, onRetry) => {
+        onRetry?.(1, 8_000, rateLimitError);
+        return { success: true, attempts: 2, shouldFallback: false };
+      });
+
+      await act(async () => {
+        return await result.current.executeStreaming(
+          { ...defaultOptions, enableRetry: true, onRetryScheduled: mockOnRetryScheduled },
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(mockExecuteWithRetry).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ maxRateLimitWaitMs: 45_000 }),
+        expect.any(Function)
       );
+      expect(mockOnRetryScheduled).toHaveBeenCalledWith(8_000, rateLimitError);
+    });
+
+    it('skips a provider with an open circuit without streaming from it', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+      const mockOnFallback = jest.fn();
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        recordProviderFailure('openai', 'network', 'fetch failed');
+      }
+      mockGetNextFallbackProvider.mockReturnValue({
+        provider: 'ollama' as ProviderId,
+        model: 'llama3.2',
+      });
+
+      const streamingResult = await act(async () => {
+        return await result.current.executeStreaming(
+          { ...defaultOptions, enableFallback: true, onFallback: mockOnFallback },
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(mockStreamText).not.toHaveBeenCalled();
+      expect(streamingResult).toMatchObject({
+        shouldRetryWithFallback: true,
+        nextProvider: 'ollama',
+        nextModel: 'llama3.2',
+        fallbackCategory: 'network',
+      });
+      expect(failedProvidersRef.current).toEqual(['openai']);
+      expect(mockOnFallback).toHaveBeenCalledWith('openai', 'ollama', expect.stringContaining('not responding'));
+    });
+
+    it('still tries a provider with an open circuit when fallback is off', async () => {
+      const { result } = renderHook(() => useChatStreaming());
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        recordProviderFailure('openai', 'network', 'fetch failed');
+      }
+
+      const streamingResult = await act(async () => {
+        return await result.current.executeStreaming(
+          defaultOptions,
+          mockMessages,
+          setMessagesMock,
+          0,
+          failedProvidersRef
+        );
+      });
+
+      expect(mockStreamText).toHaveBeenCalled();
+      expect(streamingResult.success).toBe(true);
+      expect(getProviderHealth('openai').circuit).toBe('closed');
     });
 
     it('should not modify failed providers when fallback succeeds with new provider', async () => {
@@ -104,4 +104,45 @@ describe("useStreamLifecycle", () => {
     });
     expect(onComplete).toHaveBeenCalledTimes(1);
   });
+
+  it("keeps the inactivity timeout off while every pause is outstanding", async () => {
+    jest.useFakeTimers();
+
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useStreamLifecycle({
+        timeoutMs: 1000,
+        completionGraceMs: 8000,
+        onError,
+      })
+    );
+
+    act(() => {
+      result.current.initializeStream();
+      result.current.pauseTimeouts();
+      result.current.pauseTimeouts();
+    });
+
+    await act(async () => {
+      jest.advanceTimersByTime(5000);
+      result.current.resumeTimeouts();
+      result.current.markChunkReceived();
+      jest.advanceTimersByTime(5000);
+      await Promise.resolve();
+    });
+
+    expect(result.current.streamState).toBe("streaming");
+    expect(onError).not.toHaveBeenCalled();
+
+    await act(async () => {
+      result.current.resumeTimeouts();
+      jest.advanceTimersByTime(1001);
+      await Promise.resolve();
+    });
+
+    await waitFor(() => {
+      expect(result.current.streamState).toBe("error");
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderHook, act } from '@testing-library/react-native';
+
+import { useToolApprovals } from '../useToolApprovals';
+
+const request = {
+  toolName: 'delete_page',
+  source: 'Docs',
+  input: '{\n  "page": "tides"\n}',
+  messageIndex: 3,
+};
+
+describe('useToolApprovals', () => {
+  it('queues a call until the user answers it', async () => {
+    const { result } = renderHook(() => useToolApprovals());
+
+    let decision: Promise<unknown> = Promise.resolve();
+    act(() => {
+      decision = result.current.requestToolApproval(request);
+    });
+
+    expect(result.current.pendingToolApprovals).toEqual([{ ...request, id: 'tool-approval-1' }]);
+
+    act(() => {
+      result.current.resolveToolApproval('tool-approval-1', { approved: true, input: { page: 'moons' } });
+    });
+
+    await expect(decision).resolves.toEqual({ approved: true, input: { page: 'moons' } });
+    expect(result.current.pendingToolApprovals).toEqual([]);
+  });
+
+  it('denies waiting calls when the stream is aborted or the approvals are cleared', async () => {
+    const { result } = renderHook(() => useToolApprovals());
+    const controller = new AbortController();
+
+    let aborted: Promise<unknown> = Promise.resolve();
+    let cleared: Promise<unknown> = Promise.resolve();
+    act(() => {
+      aborted = result.current.requestToolApproval(request, controller.signal);
+      cleared = result.current.requestToolApproval({ ...request, toolName: 'rename_page' });
+    });
+    expect(result.current.pendingToolApprovals).toHaveLength(2);
+
+    act(() => {
+      controller.abort();
+    });
+    await expect(aborted).resolves.toEqual({ approved: false });
+    expect(result.current.pendingToolApprovals.map((approval) => approval.toolName)).toEqual(['rename_page']);
+
+    act(() => {
+      result.current.clearToolApprovals();
+    });
+    await expect(cleared).resolves.toEqual({ approved: false });
+    expect(result.current.pendingToolApprovals).toEqual([]);
+  });
+});
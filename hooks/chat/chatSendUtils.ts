@@ -1,17 +1,22 @@
 import type { ModelMessage } from "ai";
 
 import { createIdempotencyKey } from "@/lib/concurrency";
-import { isVideoMediaType } from "@/lib/chat-attachments";
+import { attachmentKindForMediaType, isImageMediaType, isVideoMediaType } from "@/lib/chat-attachments";
+import { parseMessageContent } from "@/lib/chat-content-parts";
 import type {
     ChatAttachment,
     ChatSendInput,
     ChatSendPayload,
+    TurnModelSelection,
 } from "@/types/chat.types";
 
 export interface RetryableOperation {
     operationKey: string;
     payload: ChatSendPayload;
     messageSignature: string;
+    modelSelection?: TurnModelSelection;
+    /** Provider offered instead of waiting out a long rate limit */
+    fallbackSelection?: TurnModelSelection;
 }
 
 type UserMessage = Extract<ModelMessage, { role: "user" }>;
@@ -163,18 +168,59 @@ export const createUserMessageContent = (
             data: attachment.uri,
             mediaType: attachment.mediaType,
             filename: attachment.fileName,
+            // Kept with the message so its file card can show the page count
+            ...(attachment.pageCount
+                ? { providerOptions: { seabreeze: { pageCount: attachment.pageCount } } }
+                : {}),
         });
     });
 
     return parts as unknown as UserMessageContent;
 };
 
+/**
+ * Rebuild a send payload from an earlier user message with new text so an
+ * edited turn is re-sent with the attachments it originally carried.
+ */
+export const createEditedSendPayload = (
+    content: ModelMessage["content"],
+    text: string,
+): Pick<ResolvedSendPayload, "text" | "attachments"> => {
+    const parsed = parseMessageContent(content);
+    const imageAttachments: ChatAttachment[] = parsed.images.map((image, index) => ({
+        id: `edited-image-${index}`,
+        uri: image.uri,
+        kind: "image",
+        mediaType: image.mediaType,
+    }));
+    const fileAttachments: ChatAttachment[] = parsed.files.map((file, index) => ({
+        id: `edited-file-${index}`,
+        uri: file.uri,
+        kind: attachmentKindForMediaType(file.mediaType),
+        mediaType: file.mediaType,
+        fileName: file.filename,
+        pageCount: file.pageCount,
+    }));
+
+    return {
+        text: text.trim(),
+        attachments: [...imageAttachments, ...fileAttachments],
+    };
+};
+
 export const hasSendableContent = (
     payload: Pick<ResolvedSendPayload, "text" | "attachments">,
 ): boolean => {
     return payload.text.length > 0 || payload.attachments.length > 0;
 };
 
+export const hasImageAttachment = (attachments: ChatAttachment[]): boolean => {
+    return attachments.some((attachment) => (
+        attachment.kind === "image"
+        || isImageMediaType(attachment.mediaType)
+    ));
+};
+
 export const hasVideoAttachment = (attachments: ChatAttachment[]): boolean => {
     return attachments.some((attachment) => (
         attachment.kind === "video"
@@ -204,3 +250,19 @@ export const conversationHasVideoContent = (messages: ModelMessage[]): boolean =
         message.role === "user" && contentHasVideoPart(message.content)
     ));
 };
+
+/**
+ * Joins the chat's own system prompt with the instructions of whichever tools
+ * are enabled for this attempt. The chat prompt leads so persona instructions
+ * frame the tool guidance rather than the other way round.
+ */
+export const composeSystemPrompt = (
+    chatPrompt: string | null | undefined,
+    ...toolPrompts: (string | undefined)[]
+): string | undefined => {
+    const sections = [chatPrompt, ...toolPrompts]
+        .map((section) => section?.trim() ?? "")
+        .filter((section) => section.length > 0);
+
+    return sections.length > 0 ? sections.join("\n\n") : undefined;
+};
@@ -50,19 +50,31 @@ import { useTitleGeneration } from "./useTitleGeneration";
 import { useChatStreaming } from "./useChatStreaming";
 import { useStreamLifecycle } from "./useStreamLifecycle";
 import { useChatSendFlow } from "./useChatSendFlow";
+import { useToolApprovals } from "./useToolApprovals";
 import type {
     ChatActiveWebSearchState,
+    ChatBranchFork,
+    ChatPendingToolApproval,
+    ChatRateLimitWait,
     ChatSendInput,
     ChatSendPayload,
     UseChatOptions,
     StreamState,
+    ToolApprovalDecision,
+    TurnModelSelection,
 } from "@/types/chat.types";
 import {
     createIdempotencyKey,
     createIdempotencyRegistry,
     createSequenceGuard,
 } from "@/lib/concurrency";
+import {
+    appendTurnWithAlternatives,
+    switchConversationBranch,
+    type ChatBranchReply,
+} from "@/lib/chat-branches";
 import { coerceMessageContentToString } from "@/lib/chat-message-normalization";
+import { isMessagePinned, withPinAnnotation } from "@/lib/chat-pin-annotations";
 import { withWebSearchAnnotation } from "@/lib/chat-web-search-annotations";
 import {
     buildMessageSignature,
@@ -100,6 +112,10 @@ export interface UseChatReturn {
     thinkingOutput: string[];
     /** Function to update the thinking output array */
     setThinkingOutput: React.Dispatch<React.SetStateAction<string[]>>;
+    /** Alternative continuations at each fork point on the active path */
+    branches: ChatBranchFork[];
+    /** Function to replace the stored branches (used when hydrating a chat) */
+    setBranches: React.Dispatch<React.SetStateAction<ChatBranchFork[]>>;
     /** Active or most recent web-search state for the currently streaming assistant turn */
     activeWebSearchState: ChatActiveWebSearchState | null;
     /** Whether the AI is currently streaming reasoning text */
@@ -132,6 +148,24 @@ export interface UseChatReturn {
     canRetry: boolean;
     /** Error message for display when stream fails */
     errorMessage: string | null;
+    /** Rate limit the reply is waiting out, or the wait a failed reply reported */
+    rateLimitWait: ChatRateLimitWait | null;
+    /** Resend the failed message to the provider offered instead of a long rate-limit wait */
+    retryWithFallback: () => Promise<void>;
+    /** Replace an earlier user message and regenerate from it on a new branch */
+    editMessage: (messageIndex: number, text: string) => Promise<void>;
+    /** Re-run an assistant turn on another provider/model, keeping the original as a branch */
+    regenerateMessage: (messageIndex: number, selection: TurnModelSelection) => Promise<void>;
+    /** Show another variant of the fork at the given message position */
+    switchBranch: (ordinal: number, variantIndex: number) => void;
+    /** Append a compare-mode turn, keeping the replies that were not picked as branches */
+    adoptComparedReplies: (prompt: ModelMessage, replies: ChatBranchReply[], chosenIndex: number) => void;
+    /** Pin or unpin a message so the keep-pinned strategy never trims its turn */
+    togglePinnedMessage: (messageIndex: number) => void;
+    /** Tool calls the streaming reply is waiting on the user to approve */
+    pendingToolApprovals: ChatPendingToolApproval[];
+    /** Run (optionally with edited arguments) or deny a pending tool call */
+    resolveToolApproval: (id: string, decision: ToolApprovalDecision) => void;
 }
 
 // =============================================================================
@@ -169,7 +203,18 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         enableThinking = true,            // Enable thinking output updates
         thinkingLevel,                    // Control reasoning effort when supported
         enableWebSearch = false,          // Enable app-wide web search tools
-        searxngUrl = null,                // Configured SearXNG instance URL
+        searchBackends,                   // Web search backends, fallbacks after the first
+        mcpServers,                       // Registered MCP tool servers
+        disabledTools,                    // MCP tools switched off for this chat
+        blockedDomains,                   // Hostnames web tools skip in this chat
+        documentSearch = null,            // Library search over attached collections
+        toolApprovalPolicies,             // Auto / ask / deny per tool
+        systemPrompt = null,              // Chat-level system prompt
+        temperature = null,               // Sampling temperature override
+        contextStrategy = "drop-oldest",  // How to trim turns that outgrow the context
+        contextSummary = null,            // Rolling summary of trimmed turns
+        onContextSummaryChange,           // Summary refreshed by the summarize strategy
+        onUsage,                          // Billed calls for the usage ledger
         onError,                          // Error handling callback
         onComplete,                       // Completion callback
         onFallback,                       // Provider fallback notification
@@ -208,6 +253,7 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
     const [thinkingOutput, setThinkingOutput] = useState<string[]>(
         () => initialMessages.map(() => "")
     );
+    const [branches, setBranches] = useState<ChatBranchFork[]>([]);
     const [activeWebSearchState, setActiveWebSearchState] = useState<ChatActiveWebSearchState | null>(null);
     const [isThinking, setIsThinking] = useState<boolean>(false);
     const [isStreaming, setIsStreaming] = useState<boolean>(false);  // Streaming status
@@ -236,8 +282,11 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
     const lastUserMessageRef = useRef<ChatSendPayload | null>(null); // Store last user message for retry
     const [canRetry, setCanRetry] = useState<boolean>(false); // Whether retry is available
     const [errorMessage, setErrorMessage] = useState<string | null>(null); // Error message for display
+    const [rateLimitWait, setRateLimitWait] = useState<ChatRateLimitWait | null>(null); // Reported rate-limit reset
     const canceledRef = useRef<boolean>(false);             // Track if streaming was canceled
     const messagesRef = useRef<ModelMessage[]>(initialMessages);
+    const thinkingOutputRef = useRef<string[]>(thinkingOutput);
+    const branchesRef = useRef<ChatBranchFork[]>(branches);
     const attachmentDataCacheRef = useRef<Map<string, string>>(new Map());
     const sendSequenceGuardRef = useRef(createSequenceGuard(`chat-send-${chatId ?? "default"}`));
     const retryOperationRegistryRef = useRef(createIdempotencyRegistry<void>());
@@ -247,6 +296,14 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         messagesRef.current = messages;
     }, [messages]);
 
+    useEffect(() => {
+        thinkingOutputRef.current = thinkingOutput;
+    }, [thinkingOutput]);
+
+    useEffect(() => {
+        branchesRef.current = branches;
+    }, [branches]);
+
     // =============================================================================
     // CONFIGURATION MERGING
     // =============================================================================
@@ -325,6 +382,13 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
     
     const { executeStreaming } = useChatStreaming();
 
+    const {
+        pendingToolApprovals,
+        requestToolApproval,
+        resolveToolApproval,
+        clearToolApprovals,
+    } = useToolApprovals();
+
     // =============================================================================
     // STREAM LIFECYCLE MANAGEMENT
     // =============================================================================
@@ -342,6 +406,8 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         markCompleted,
         markError,
         cancelStream,
+        pauseTimeouts,
+        resumeTimeouts,
     } = useStreamLifecycle({
         timeoutMs: 30000, // 30 second inactivity timeout
         backgroundBehavior: "cancel",
@@ -428,6 +494,7 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         setText("");                              // Clear input field
         setMessages([]);                          // Clear message history
         setThinkingOutput([]);                    // Clear reasoning output
+        setBranches([]);                          // Clear alternative branches
         setActiveWebSearchState(null);            // Clear live web search state
         setIsThinking(false);                     // Clear thinking state
         setTitle("Chat");                         // Reset to default title
@@ -439,6 +506,7 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         attachmentDataCacheRef.current.clear();
         setCanRetry(false);                      // Disable retry capability
         setErrorMessage(null);                   // Clear error message
+        setRateLimitWait(null);                  // Clear rate-limit countdown
         lastRetryableOperationRef.current = null;
         retryOperationRegistryRef.current.clear();
     }, [effectiveProviderId, effectiveModelId, setTitle]);
@@ -478,10 +546,101 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         sendSequenceGuardRef.current.next();
         setIsStreaming(false);
         setIsThinking(false);
+        clearToolApprovals();
         cancelStream(); // Use stream lifecycle cancel for comprehensive cancellation
-    }, [cancelStream]);
+    }, [cancelStream, clearToolApprovals]);
 
-    const { sendMessage, retryLastMessage } = useChatSendFlow({
+    /**
+     * Swap the active continuation at a fork point for one of its siblings.
+     * Ignored mid-stream so a reply cannot land on a branch that is hidden.
+     */
+    const switchBranch = useCallback((ordinal: number, variantIndex: number) => {
+        if (isStreaming) {
+            return;
+        }
+
+        const switched = switchConversationBranch(
+            {
+                messages: messagesRef.current,
+                thinkingOutput: thinkingOutputRef.current,
+                forks: branchesRef.current,
+            },
+            ordinal,
+            variantIndex,
+        );
+
+        if (switched.forks === branchesRef.current) {
+            return;
+        }
+
+        messagesRef.current = switched.messages;
+        thinkingOutputRef.current = switched.thinkingOutput;
+        branchesRef.current = switched.forks;
+        setMessages(switched.messages);
+        setThinkingOutput(switched.thinkingOutput);
+        setBranches(switched.forks);
+        setActiveWebSearchState(null);
+        setCanRetry(false);
+        setErrorMessage(null);
+        lastRetryableOperationRef.current = null;
+    }, [isStreaming]);
+
+    /**
+     * Commit a turn answered in compare mode. The picked reply continues the
+     * conversation and the other candidates become sibling branches of it.
+     */
+    const adoptComparedReplies = useCallback((
+        prompt: ModelMessage,
+        replies: ChatBranchReply[],
+        chosenIndex: number,
+    ) => {
+        const chosen = replies[chosenIndex];
+        if (isStreaming || !chosen) {
+            return;
+        }
+
+        const next = appendTurnWithAlternatives(
+            {
+                messages: messagesRef.current,
+                thinkingOutput: thinkingOutputRef.current,
+                forks: branchesRef.current,
+            },
+            prompt,
+            chosen,
+            replies.filter((_, index) => index !== chosenIndex),
+        );
+
+        messagesRef.current = next.messages;
+        thinkingOutputRef.current = next.thinkingOutput;
+        branchesRef.current = next.forks;
+        setMessages(next.messages);
+        setThinkingOutput(next.thinkingOutput);
+        setBranches(next.forks);
+        setActiveWebSearchState(null);
+        setCanRetry(false);
+        setErrorMessage(null);
+        lastRetryableOperationRef.current = null;
+    }, [isStreaming]);
+
+    const togglePinnedMessage = useCallback((messageIndex: number) => {
+        const target = messagesRef.current[messageIndex];
+        if (!target) {
+            return;
+        }
+
+        const next = [...messagesRef.current];
+        next[messageIndex] = withPinAnnotation(target, !isMessagePinned(target));
+        messagesRef.current = next;
+        setMessages(next);
+    }, []);
+
+    const {
+        sendMessage,
+        retryLastMessage,
+        retryWithFallback,
+        editMessage,
+        regenerateMessage,
+    } = useChatSendFlow({
         text,
         chatId,
         placeholderText,
@@ -495,7 +654,18 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         enableThinking,
         enableWebSearch,
         thinkingLevel,
-        searxngUrl,
+        searchBackends,
+        mcpServers,
+        disabledTools,
+        blockedDomains,
+        documentSearch,
+        toolApprovalPolicies,
+        systemPrompt,
+        temperature,
+        contextStrategy,
+        contextSummary,
+        onContextSummaryChange,
+        onUsage,
         onChunk,
         onThinkingChunk,
         onComplete,
@@ -504,15 +674,19 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         setText,
         setMessages,
         setThinkingOutput,
+        setBranches,
         setActiveWebSearchState,
         setIsThinking,
         setIsStreaming,
         setCanRetry,
         setErrorMessage,
+        setRateLimitWait,
         setActiveProvider,
         setActiveModel,
         setIsUsingFallback,
         messagesRef,
+        thinkingOutputRef,
+        branchesRef,
         failedProvidersRef,
         lastUserMessageRef,
         attachmentDataCacheRef,
@@ -526,6 +700,9 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         markCompleting,
         markCompleted,
         markError,
+        pauseTimeouts,
+        resumeTimeouts,
+        requestToolApproval,
         commitWebSearchAnnotation,
         resolveModelForSelection,
         executeStreaming,
@@ -549,6 +726,8 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         setMessages,                    // Update message history
         thinkingOutput,                 // Reasoning output
         setThinkingOutput,              // Update reasoning output
+        branches,                       // Alternative continuations
+        setBranches,                    // Replace branches (hydration)
         activeWebSearchState,           // Active or most recent web search state
         isThinking,                     // Thinking status
         isStreaming,                    // Streaming status
@@ -581,6 +760,23 @@ export default function useChat(options: UseChatOptions = {}): UseChatReturn {
         retryLastMessage,               // Retry last message
         canRetry,                       // Whether retry is available
         errorMessage,                   // Error message for display
+        rateLimitWait,                  // Rate-limit reset to count down to
+        retryWithFallback,              // Retry on the offered fallback provider
+
+        // ────────────────────────────────────────────────────────────────
+        // BRANCHING
+        // ────────────────────────────────────────────────────────────────
+        editMessage,                    // Edit a user turn and regenerate
+        regenerateMessage,              // Regenerate a reply with another model
+        switchBranch,                   // Page between sibling branches
+        adoptComparedReplies,           // Keep one compare-mode reply, branch the rest
+        togglePinnedMessage,            // Pin a message against context trimming
+
+        // ────────────────────────────────────────────────────────────────
+        // TOOL APPROVALS
+        // ────────────────────────────────────────────────────────────────
+        pendingToolApprovals,           // Tool calls waiting on the user
+        resolveToolApproval,            // Run or deny a waiting call
     };
 }
 
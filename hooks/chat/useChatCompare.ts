@@ -0,0 +1,573 @@
+/**
+ * @file useChatCompare.ts
+ * @purpose Compare mode: send one prompt to several provider/model pairs at once
+ * and stream every answer into its own lane until one is picked.
+ * @connects-to useChatStreaming, useStreamLifecycle, provider-cache, useChat
+ *
+ * Each lane owns a full stream lifecycle (timeouts, cancellation, error state)
+ * and streams through the regular `executeStreaming` path with fallback
+ * disabled, so an answer always comes from the model it is labelled with.
+ * Every lane fits the history to its own model's context window and prepares
+ * attachments for its own provider.
+ * Lanes are ephemeral; only the picked reply and its siblings reach the chat.
+ */
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import type { LanguageModel, ModelMessage } from "ai";
+
+import type { FallbackResult } from "@/providers/fallback-chain";
+import { getCachedModel } from "@/providers/provider-cache";
+import { getProviderModel } from "@/providers/provider-factory";
+import {
+    createErrorAnnotation,
+    getErrorAnnotation,
+    withErrorAnnotation,
+} from "@/lib/chat-error-annotations";
+import type { ChatBranchReply } from "@/lib/chat-branches";
+import {
+    createModelAnnotation,
+    withModelAnnotation,
+} from "@/lib/chat-model-annotations";
+import { createUsageAnnotation, withUsageAnnotation } from "@/lib/chat-usage-annotations";
+import { computeUsageCost } from "@/lib/model-pricing";
+import { supportsPdfInput } from "@/lib/model-capabilities";
+import {
+    needsProviderMessagePreparation,
+    prepareMessagesForProvider,
+} from "@/lib/chat-provider-message-preparation";
+import { createSequenceGuard } from "@/lib/concurrency";
+import { planContextWindow } from "@/lib/context-budget";
+import { formatSummaryForSystemPrompt } from "@/lib/context-summary";
+import type {
+    ChatContextSummary,
+    ChatSendInput,
+    ChatUsageAnnotation,
+    ContextStrategy,
+    ThinkingLevel,
+    TurnModelSelection,
+    UsageSource,
+} from "@/types/chat.types";
+import { getModelCapabilities, getModelPricing } from "@/stores";
+import type { ProviderId } from "@/types/provider.types";
+
+import { useChatStreaming } from "./useChatStreaming";
+import { useStreamLifecycle, type StreamState } from "./useStreamLifecycle";
+import {
+    composeSystemPrompt,
+    conversationHasVideoContent,
+    createUserMessageContent,
+    formatAnnotatedErrorContent,
+    getErrorMessageText,
+    hasSendableContent,
+    resolveSendPayload,
+} from "./chatSendUtils";
+
+export const MIN_COMPARE_LANES = 2;
+export const MAX_COMPARE_LANES = 4;
+
+const LANE_PLACEHOLDER_TEXT = "...";
+
+interface CompareStreamSettings {
+    enableThinking: boolean;
+    thinkingLevel?: ThinkingLevel;
+    enableRetry: boolean;
+    /** Chat-level system prompt shared by every lane */
+    systemPrompt?: string | null;
+    temperature?: number | null;
+    contextStrategy: ContextStrategy;
+    /**
+     * The chat's current summary. Lanes send it but never write one, so turns
+     * trimmed beyond it are left out rather than summarized once per lane.
+     */
+    contextSummary?: ChatContextSummary | null;
+    /** Called with every lane's usage, picked or not, so the usage ledger can record it */
+    onUsage?: (usage: ChatUsageAnnotation, source: UsageSource) => void;
+}
+
+/** Live state of one compare column */
+export interface CompareLane {
+    selection: TurnModelSelection;
+    reply: ModelMessage;
+    thinkingOutput: string;
+    streamState: StreamState;
+    isError: boolean;
+    cancel: () => void;
+}
+
+type LaneFailureSource = "streaming" | "attachment" | "compatibility";
+
+interface LaneHandle {
+    lane: CompareLane | null;
+    start: (selection: TurnModelSelection, conversation: ModelMessage[], includesVideo: boolean) => Promise<void>;
+    cancel: () => void;
+    clear: () => void;
+}
+
+/** Result of picking a lane: everything needed to commit the compared turn */
+export interface CompareResult {
+    prompt: ModelMessage;
+    replies: ChatBranchReply[];
+    chosenIndex: number;
+}
+
+interface UseChatCompareOptions extends Partial<CompareStreamSettings> {
+    /** Injected model used for every lane (tests and special cases) */
+    model?: LanguageModel;
+}
+
+interface CompareSendOptions {
+    input?: ChatSendInput;
+    /** Current composer text, used when the input carries no text of its own */
+    text: string;
+    /** Conversation so far; the prompt is appended to it for every lane */
+    history: ModelMessage[];
+    selections: TurnModelSelection[];
+}
+
+interface UseChatCompareReturn {
+    /** Lanes of the pending comparison, empty when nothing is being compared */
+    lanes: CompareLane[];
+    /** User message the lanes are answering */
+    prompt: ModelMessage | null;
+    /** Whether any lane is still streaming */
+    isComparing: boolean;
+    /** Send one prompt to every selection; returns false when nothing was sent */
+    send: (options: CompareSendOptions) => Promise<boolean>;
+    cancelAll: () => void;
+    /**
+     * Stop every lane and hand back the prompt with each reply tagged by its
+     * model. Lanes cancelled before they produced text are left out.
+     */
+    pick: (laneIndex: number) => CompareResult | null;
+    clear: () => void;
+}
+
+const isLaneActive = (streamState: StreamState): boolean => (
+    streamState === "streaming" || streamState === "completing"
+);
+
+function useCompareLane(
+    settings: CompareStreamSettings,
+    resolveModelForSelection: (providerId: ProviderId, modelId: string) => LanguageModel | null,
+    attachmentDataCache: Map<string, string>,
+): LaneHandle {
+    const {
+        enableThinking,
+        thinkingLevel,
+        enableRetry,
+        systemPrompt,
+        temperature,
+        contextStrategy,
+        contextSummary,
+        onUsage,
+    } = settings;
+    const [selection, setSelection] = useState<TurnModelSelection | null>(null);
+    const [replyMessages, setReplyMessages] = useState<ModelMessage[]>([]);
+    const [thinkingOutput, setThinkingOutput] = useState("");
+    const failedProvidersRef = useRef<ProviderId[]>([]);
+    const canceledRef = useRef(false);
+    const reportedErrorRef = useRef(false);
+    const sequenceGuardRef = useRef(createSequenceGuard("compare-lane"));
+    const { executeStreaming } = useChatStreaming();
+
+    const writeErrorReply = useCallback((
+        title: string,
+        error: Error,
+        fixes: string[],
+        source: LaneFailureSource,
+        provider: ProviderId,
+    ) => {
+        const message = getErrorMessageText(error);
+        setReplyMessages([
+            withErrorAnnotation(
+                {
+                    role: "assistant",
+                    content: formatAnnotatedErrorContent(title, message, fixes),
+                },
+                createErrorAnnotation({ error: message, fixes, source, provider }),
+            ),
+        ]);
+    }, []);
+
+    const {
+        streamState,
+        initializeStream,
+        markChunkReceived,
+        markDoneSignalReceived,
+        markCompleting,
+        markCompleted,
+        markError,
+        cancelStream,
+    } = useStreamLifecycle({
+        timeoutMs: 30000,
+        backgroundBehavior: "cancel",
+        enableLogging: __DEV__,
+        onError: (error) => {
+            // Provider errors are already annotated by executeStreaming; this
+            // covers lifecycle failures such as the inactivity timeout.
+            if (reportedErrorRef.current) {
+                return;
+            }
+
+            reportedErrorRef.current = true;
+            setReplyMessages((prev) => {
+                const current = prev[0];
+                if (current && getErrorAnnotation(current)) {
+                    return prev;
+                }
+
+                // Keep whatever streamed before the lane stopped.
+                const partial = typeof current?.content === "string" && current.content !== LANE_PLACEHOLDER_TEXT
+                    ? current.content
+                    : "";
+                const notice = formatAnnotatedErrorContent("Stream Stopped", error.message, []);
+
+                return [
+                    withErrorAnnotation(
+                        {
+                            role: "assistant",
+                            content: partial ? `${partial}\n\n---\n\n${notice}` : notice,
+                        },
+                        createErrorAnnotation({ error: error.message, fixes: [], source: "streaming" }),
+                    ),
+                ];
+            });
+        },
+    });
+
+    const start = useCallback(async (
+        nextSelection: TurnModelSelection,
+        conversation: ModelMessage[],
+        includesVideo: boolean,
+    ) => {
+        const token = sequenceGuardRef.current.next();
+        const { providerId, modelId } = nextSelection;
+
+        canceledRef.current = false;
+        reportedErrorRef.current = false;
+        failedProvidersRef.current = [];
+        setSelection(nextSelection);
+        setReplyMessages([{ role: "assistant", content: LANE_PLACEHOLDER_TEXT }]);
+        setThinkingOutput("");
+
+        const controller = initializeStream();
+        const canMutate = (): boolean => (
+            sequenceGuardRef.current.isCurrent(token)
+            && !canceledRef.current
+            && !controller.signal.aborted
+        );
+
+        const failBeforeStreaming = (
+            title: string,
+            error: Error,
+            fixes: string[],
+            source: LaneFailureSource,
+        ): void => {
+            reportedErrorRef.current = true;
+            writeErrorReply(title, error, fixes, source, providerId);
+            markError(error);
+        };
+
+        const capabilities = getModelCapabilities(providerId, modelId);
+        if (includesVideo && !capabilities.video) {
+            failBeforeStreaming(
+                "Video Not Supported",
+                new Error("This model cannot read video. Pick a Gemini or video-capable OpenRouter model for this column."),
+                ["Swap this column for a video-capable model such as gemini-2.5-flash."],
+                "compatibility",
+            );
+            return;
+        }
+
+        const resolvedModel = resolveModelForSelection(providerId, modelId);
+        if (!resolvedModel) {
+            failBeforeStreaming(
+                "Setup Required",
+                new Error("This provider is not configured."),
+                ["Add the provider's credentials in Settings, then compare again."],
+                "streaming",
+            );
+            return;
+        }
+
+        const contextPlan = planContextWindow({
+            messages: conversation,
+            strategy: contextStrategy,
+            contextTokens: capabilities.contextTokens,
+            systemPrompt: composeSystemPrompt(systemPrompt),
+            summary: contextSummary,
+        });
+        const summaryPrompt = contextPlan.summary ? formatSummaryForSystemPrompt(contextPlan.summary) : undefined;
+
+        let providerMessages = contextPlan.messages;
+        if (needsProviderMessagePreparation(providerMessages)) {
+            try {
+                providerMessages = await prepareMessagesForProvider(
+                    providerMessages,
+                    attachmentDataCache,
+                    { nativePdf: supportsPdfInput(providerId, capabilities) },
+                );
+            } catch (error) {
+                failBeforeStreaming(
+                    "Attachment Error",
+                    error instanceof Error ? error : new Error("Failed to prepare one or more attachments."),
+                    ["Try selecting the attachment again.", "Make sure the file is still available on this device."],
+                    "attachment",
+                );
+                return;
+            }
+
+            if (!canMutate()) {
+                return;
+            }
+        }
+
+        let streamFailure: Error | null = null;
+        const result = await executeStreaming(
+            {
+                model: {
+                    model: resolvedModel,
+                    provider: providerId,
+                    modelId,
+                    isOriginal: true,
+                    attemptedProviders: [],
+                } as FallbackResult,
+                enableRetry,
+                retryConfig: {},
+                enableFallback: false,
+                activeProvider: providerId,
+                effectiveProviderId: providerId,
+                thinkingLevel,
+                systemPrompt: composeSystemPrompt(systemPrompt, summaryPrompt),
+                temperature: temperature ?? undefined,
+                abortSignal: controller.signal,
+                canMutateState: canMutate,
+                onThinkingChunk: enableThinking
+                    ? (_chunk, accumulated) => {
+                        if (canMutate()) {
+                            setThinkingOutput(accumulated);
+                        }
+                    }
+                    : undefined,
+                onChunkReceived: () => {
+                    if (canMutate()) {
+                        markChunkReceived();
+                    }
+                },
+                onDoneSignalReceived: () => {
+                    if (canMutate()) {
+                        markDoneSignalReceived();
+                    }
+                },
+                onStreamCompleted: () => {
+                    if (canMutate()) {
+                        markCompleting();
+                        markCompleted();
+                    }
+                },
+                onError: (error) => {
+                    streamFailure = error instanceof Error ? error : new Error(String(error));
+                },
+            },
+            providerMessages,
+            setReplyMessages,
+            0,
+            failedProvidersRef,
+        );
+
+        const { usage } = result;
+        if (usage) {
+            // Every lane is billed, so the usage travels with the reply into the chat or its branches.
+            const usageAnnotation = createUsageAnnotation(
+                providerId,
+                modelId,
+                usage,
+                computeUsageCost(usage, getModelPricing(providerId, modelId)),
+            );
+            onUsage?.(usageAnnotation, "compare");
+
+            if (sequenceGuardRef.current.isCurrent(token) && !canceledRef.current) {
+                setReplyMessages((prev) => (
+                    prev[0] ? [withUsageAnnotation(prev[0], usageAnnotation)] : prev
+                ));
+            }
+        }
+
+        // Mark the lane failed only after executeStreaming wrote its annotated
+        // reply; marking earlier aborts the controller and drops that write.
+        if (streamFailure && sequenceGuardRef.current.isCurrent(token) && !canceledRef.current) {
+            reportedErrorRef.current = true;
+            markError(streamFailure);
+        }
+    }, [
+        attachmentDataCache,
+        contextStrategy,
+        contextSummary,
+        enableRetry,
+        enableThinking,
+        executeStreaming,
+        initializeStream,
+        markChunkReceived,
+        markCompleted,
+        markCompleting,
+        markDoneSignalReceived,
+        markError,
+        onUsage,
+        resolveModelForSelection,
+        systemPrompt,
+        temperature,
+        thinkingLevel,
+        writeErrorReply,
+    ]);
+
+    const cancel = useCallback(() => {
+        canceledRef.current = true;
+        sequenceGuardRef.current.next();
+        cancelStream();
+    }, [cancelStream]);
+
+    const clear = useCallback(() => {
+        cancel();
+        setSelection(null);
+        setReplyMessages([]);
+        setThinkingOutput("");
+    }, [cancel]);
+
+    const reply = replyMessages[0];
+    const lane = useMemo((): CompareLane | null => {
+        if (!selection || !reply) {
+            return null;
+        }
+
+        return {
+            selection,
+            reply,
+            thinkingOutput,
+            streamState,
+            isError: getErrorAnnotation(reply) !== null,
+            cancel,
+        };
+    }, [cancel, reply, selection, streamState, thinkingOutput]);
+
+    return useMemo(() => ({ lane, start, cancel, clear }), [cancel, clear, lane, start]);
+}
+
+export function useChatCompare(options: UseChatCompareOptions = {}): UseChatCompareReturn {
+    const {
+        model: providedModel,
+        enableThinking = true,
+        thinkingLevel,
+        enableRetry = true,
+        systemPrompt = null,
+        temperature = null,
+        contextStrategy = "drop-oldest",
+        contextSummary = null,
+        onUsage,
+    } = options;
+    const [prompt, setPrompt] = useState<ModelMessage | null>(null);
+    const attachmentDataCacheRef = useRef<Map<string, string>>(new Map());
+
+    const resolveModelForSelection = useCallback((providerId: ProviderId, modelId: string): LanguageModel | null => {
+        if (providedModel) {
+            return providedModel;
+        }
+
+        return getCachedModel(
+            providerId,
+            modelId,
+            () => getProviderModel(providerId, modelId).model,
+        ) || null;
+    }, [providedModel]);
+
+    const settings: CompareStreamSettings = {
+        enableThinking,
+        thinkingLevel,
+        enableRetry,
+        systemPrompt,
+        temperature,
+        contextStrategy,
+        contextSummary,
+        onUsage,
+    };
+
+    // A fixed number of lane hooks keeps hook order stable; unused lanes stay empty.
+    const attachmentDataCache = attachmentDataCacheRef.current;
+    const laneA = useCompareLane(settings, resolveModelForSelection, attachmentDataCache);
+    const laneB = useCompareLane(settings, resolveModelForSelection, attachmentDataCache);
+    const laneC = useCompareLane(settings, resolveModelForSelection, attachmentDataCache);
+    const laneD = useCompareLane(settings, resolveModelForSelection, attachmentDataCache);
+    const handles = useMemo(() => [laneA, laneB, laneC, laneD], [laneA, laneB, laneC, laneD]);
+
+    const lanes = handles
+        .map((handle) => handle.lane)
+        .filter((lane): lane is CompareLane => lane !== null);
+    const isComparing = lanes.some((lane) => isLaneActive(lane.streamState));
+
+    const clear = useCallback(() => {
+        handles.forEach((handle) => handle.clear());
+        setPrompt(null);
+    }, [handles]);
+
+    const cancelAll = useCallback(() => {
+        handles.forEach((handle) => handle.cancel());
+    }, [handles]);
+
+    const send = useCallback(async ({ input, text, history, selections }: CompareSendOptions): Promise<boolean> => {
+        const payload = resolveSendPayload(input, text);
+        const laneSelections = selections.slice(0, MAX_COMPARE_LANES);
+
+        if (!hasSendableContent(payload) || laneSelections.length < MIN_COMPARE_LANES) {
+            return false;
+        }
+
+        const userMessage: ModelMessage = {
+            role: "user",
+            content: createUserMessageContent(payload),
+        };
+        const conversation = [...history, userMessage];
+
+        handles.forEach((handle) => handle.clear());
+        setPrompt(userMessage);
+
+        const includesVideo = conversationHasVideoContent(conversation);
+        await Promise.all(laneSelections.map((selection, index) => (
+            handles[index].start(selection, conversation, includesVideo)
+        )));
+
+        return true;
+    }, [handles]);
+
+    const pick = useCallback((laneIndex: number): CompareResult | null => {
+        const chosenLane = lanes[laneIndex];
+        if (!prompt || !chosenLane) {
+            return null;
+        }
+
+        const keptLanes = lanes.filter((lane, index) => (
+            index === laneIndex || lane.reply.content !== LANE_PLACEHOLDER_TEXT
+        ));
+
+        cancelAll();
+        return {
+            prompt,
+            replies: keptLanes.map((lane) => ({
+                message: withModelAnnotation(
+                    lane.reply,
+                    createModelAnnotation(lane.selection.providerId, lane.selection.modelId),
+                ),
+                thinkingOutput: lane.thinkingOutput,
+            })),
+            chosenIndex: keptLanes.indexOf(chosenLane),
+        };
+    }, [cancelAll, lanes, prompt]);
+
+    return {
+        lanes,
+        prompt,
+        isComparing,
+        send,
+        cancelAll,
+        pick,
+        clear,
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * @file useChatDocumentSearch.ts
+ * @purpose Loads the document library's collections for the chat settings
+ * sheet and builds the searcher behind searchDocuments for the collections
+ * this chat has attached.
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import useDatabase from "@/hooks/useDatabase";
+import {
+    createDocumentSearcher,
+    listCollections,
+    type DocumentCollectionSummary,
+} from "@/lib/document-library";
+import { documentLibraryQueryKeys } from "@/lib/query-client";
+import { useSettingsStore } from "@/stores/useSettingsStore";
+import type { DocumentSearcher } from "@/types/document.types";
+
+type Database = ReturnType<typeof useDatabase>;
+
+interface UseChatDocumentSearchOptions {
+    db: Database;
+    /** Collection ids from the chat's settings */
+    collectionIds: number[];
+}
+
+interface UseChatDocumentSearchReturn {
+    collections: DocumentCollectionSummary[];
+    /** Null when the chat has no collections attached */
+    documentSearch: DocumentSearcher | null;
+}
+
+const NO_COLLECTIONS: DocumentCollectionSummary[] = [];
+
+export function useChatDocumentSearch(options: UseChatDocumentSearchOptions): UseChatDocumentSearchReturn {
+    const { db, collectionIds } = options;
+    const embeddingSettings = useSettingsStore((state) => state.embeddingSettings);
+
+    const collectionsQuery = useQuery({
+        queryKey: documentLibraryQueryKeys.collections(),
+        queryFn: async () => listCollections(db),
+    });
+
+    // Settings hydration hands back a new array each time, so memoize on the ids themselves
+    const collectionKey = collectionIds.join(",");
+    const documentSearch = useMemo(() => {
+        const ids = collectionKey ? collectionKey.split(",").map(Number) : [];
+        return ids.length > 0 ? createDocumentSearcher(db, ids, embeddingSettings) : null;
+    }, [collectionKey, db, embeddingSettings]);
+
+    return {
+        collections: collectionsQuery.data ?? NO_COLLECTIONS,
+        documentSearch,
+    };
+}
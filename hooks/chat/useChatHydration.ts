@@ -2,16 +2,24 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { unstable_batchedUpdates } from "react-native";
 import { useQuery } from "@tanstack/react-query";
 import type { ModelMessage } from "ai";
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
 
-import { chat } from "@/db/schema";
+import { chat, message, messageBranch } from "@/db/schema";
 import useDatabase from "@/hooks/useDatabase";
+import { forksFromRows } from "@/lib/chat-branches";
 import { normalizePersistedMessages } from "@/lib/chat-message-normalization";
+import {
+  applyMessageRowWritePlan,
+  messagesFromRows,
+  planMessageRowWrites,
+} from "@/lib/chat-message-rows";
+import { removeMessagesFromIndex } from "@/lib/chat-search";
 import {
   isChatDeleteLocked,
   runChatOperation,
 } from "@/lib/chat-persistence-coordinator";
 import { createIdempotencyKey } from "@/lib/concurrency";
+import { chatSettingsFromRow, DEFAULT_CHAT_SETTINGS } from "@/lib/chat-settings";
 import { DEFAULT_CHAT_TITLE } from "@/lib/chat-title";
 import {
   failPersistenceOperation,
@@ -20,6 +28,7 @@ import {
 } from "@/lib/persistence-telemetry";
 import { chatQueryKeys } from "@/lib/query-client";
 import type { ProviderId } from "@/types/provider.types";
+import type { ChatBranchFork, ChatSettings } from "@/types/chat.types";
 
 type Database = ReturnType<typeof useDatabase>;
 
@@ -30,7 +39,9 @@ interface UseChatHydrationOptions {
   syncFromDatabase: (provider: ProviderId | null, model: string | null) => void;
   setMessages: React.Dispatch<React.SetStateAction<ModelMessage[]>>;
   setThinkingOutput: React.Dispatch<React.SetStateAction<string[]>>;
+  setBranches: React.Dispatch<React.SetStateAction<ChatBranchFork[]>>;
   setTitle: (title: string) => void;
+  setChatSettings: (settings: ChatSettings) => void;
   setText: (value: string) => void;
   clearPendingAttachments: () => void;
   resetAutoTitleState: () => void;
@@ -51,11 +62,16 @@ interface HydrationSnapshot {
   chatId: number;
   messages: ModelMessage[];
   thinkingOutput: string[];
+  /** Inactive continuations; the messages above are the active path */
+  branches: ChatBranchFork[];
   title: string;
+  settings: ChatSettings;
   providerId: ProviderId | null;
   modelId: string | null;
   didCoerceContent: boolean;
   droppedMessages: number;
+  /** True when the chat predates the message table and was read from chat.messages */
+  loadedFromLegacyPayload: boolean;
 }
 
 interface ChatHydrationLoadResult {
@@ -81,7 +97,9 @@ export function useChatHydration(
     syncFromDatabase,
     setMessages,
     setThinkingOutput,
+    setBranches,
     setTitle,
+    setChatSettings,
     setText,
     clearPendingAttachments,
     resetAutoTitleState,
@@ -100,7 +118,9 @@ export function useChatHydration(
     unstable_batchedUpdates(() => {
       setMessages([]);
       setThinkingOutput([]);
+      setBranches([]);
       setTitle(DEFAULT_CHAT_TITLE);
+      setChatSettings(DEFAULT_CHAT_SETTINGS);
       setText("");
       setChatID(0);
     });
@@ -114,6 +134,8 @@ export function useChatHydration(
     clearOverride,
     clearPendingAttachments,
     resetAutoTitleState,
+    setBranches,
+    setChatSettings,
     setMessages,
     setText,
     setThinkingOutput,
@@ -128,7 +150,9 @@ export function useChatHydration(
     unstable_batchedUpdates(() => {
       setMessages(snapshot.messages);
       setThinkingOutput(snapshot.thinkingOutput);
+      setBranches(snapshot.branches);
       setTitle(snapshot.title);
+      setChatSettings(snapshot.settings);
       setChatID(snapshot.chatId);
       setHydrationError(null);
     });
@@ -140,7 +164,15 @@ export function useChatHydration(
     if (snapshot.providerId && snapshot.modelId) {
       syncFromDatabase(snapshot.providerId, snapshot.modelId);
     }
-  }, [setMessages, setThinkingOutput, setTitle, syncAutoTitleState, syncFromDatabase]);
+  }, [
+    setBranches,
+    setChatSettings,
+    setMessages,
+    setThinkingOutput,
+    setTitle,
+    syncAutoTitleState,
+    syncFromDatabase,
+  ]);
 
   const hydrationQuery = useQuery<ChatHydrationLoadResult>({
     queryKey: chatQueryKeys.hydration(chatIdParam),
@@ -165,7 +197,21 @@ export function useChatHydration(
 
       try {
         const data = await db
-          .select()
+          .select({
+            title: chat.title,
+            providerId: chat.providerId,
+            modelId: chat.modelId,
+            personaId: chat.personaId,
+            systemPrompt: chat.systemPrompt,
+            temperature: chat.temperature,
+            contextStrategy: chat.contextStrategy,
+            contextSummary: chat.contextSummary,
+            fallbackPolicy: chat.fallbackPolicy,
+            disabledTools: chat.disabledTools,
+            blockedDomains: chat.blockedDomains,
+            documentCollections: chat.documentCollections,
+            updatedAt: chat.updatedAt,
+          })
           .from(chat)
           .where(eq(chat.id, id))
           .get();
@@ -182,15 +228,55 @@ export function useChatHydration(
           };
         }
 
+        const rows = await db
+          .select({
+            ordinal: message.ordinal,
+            role: message.role,
+            content: message.content,
+            reasoning: message.reasoning,
+            annotations: message.annotations,
+          })
+          .from(message)
+          .where(eq(message.chatId, id))
+          .orderBy(asc(message.ordinal));
+
+        // Chats whose legacy JSON could not be migrated still carry their
+        // history on the chat row; read it once and backfill rows below.
+        const loadedFromLegacyPayload = rows.length === 0;
+        const stored = loadedFromLegacyPayload
+          ? await db
+            .select({
+              messages: chat.messages,
+              thinkingOutput: chat.thinkingOutput,
+            })
+            .from(chat)
+            .where(eq(chat.id, id))
+            .get()
+          : messagesFromRows(rows);
+
         const {
           messages,
           didCoerceContent,
           droppedMessages,
-        } = normalizePersistedMessages(data.messages);
-        const thinkingOutput = normalizeThinkingOutput(data.thinkingOutput);
+        } = normalizePersistedMessages(stored?.messages);
+        const thinkingOutput = normalizeThinkingOutput(stored?.thinkingOutput);
+        const branches = loadedFromLegacyPayload
+          ? []
+          : forksFromRows(
+            await db
+              .select({
+                ordinal: messageBranch.ordinal,
+                activeIndex: messageBranch.activeIndex,
+                variants: messageBranch.variants,
+              })
+              .from(messageBranch)
+              .where(eq(messageBranch.chatId, id))
+              .orderBy(asc(messageBranch.ordinal)),
+          );
         const title = typeof data.title === "string" && data.title.trim().length > 0
           ? data.title
           : DEFAULT_CHAT_TITLE;
+        const settings = chatSettingsFromRow(data);
 
         succeedPersistenceOperation(loadOperation, {
           chatId: id,
@@ -207,7 +293,9 @@ export function useChatHydration(
               String(data.updatedAt?.toISOString?.() ?? ""),
               JSON.stringify(messages),
               JSON.stringify(thinkingOutput),
+              JSON.stringify(branches),
               title,
+              JSON.stringify(settings),
               String(data.providerId ?? ""),
               String(data.modelId ?? ""),
             ]),
@@ -215,11 +303,14 @@ export function useChatHydration(
             chatId: id,
             messages,
             thinkingOutput,
+            branches,
             title,
+            settings,
             providerId: (data.providerId as ProviderId | null) ?? null,
             modelId: data.modelId,
             didCoerceContent,
             droppedMessages,
+            loadedFromLegacyPayload: loadedFromLegacyPayload && messages.length > 0,
           },
         };
       } catch (error) {
@@ -263,6 +354,7 @@ export function useChatHydration(
     setHydrationError(null);
     lastHydratedSignatureRef.current = null;
     setThinkingOutput([]);
+    setBranches([]);
     clearPendingAttachments();
     resetAutoTitleState();
     setIsInitializing(false);
@@ -270,6 +362,7 @@ export function useChatHydration(
     chatIdParam,
     clearPendingAttachments,
     resetAutoTitleState,
+    setBranches,
     setThinkingOutput,
   ]);
 
@@ -288,8 +381,11 @@ export function useChatHydration(
     const snapshot = hydrationQuery.data.snapshot;
     applyHydrationSnapshot(snapshot);
 
-    const shouldBackfillLegacyPayload = (snapshot.didCoerceContent || snapshot.droppedMessages > 0)
-      && !backfilledChatIdsRef.current.has(snapshot.chatId);
+    const shouldBackfillLegacyPayload = (
+      snapshot.loadedFromLegacyPayload
+      || snapshot.didCoerceContent
+      || snapshot.droppedMessages > 0
+    ) && !backfilledChatIdsRef.current.has(snapshot.chatId);
 
     if (shouldBackfillLegacyPayload) {
       backfilledChatIdsRef.current.add(snapshot.chatId);
@@ -300,13 +396,23 @@ export function useChatHydration(
           return;
         }
 
-        await db
-          .update(chat)
-          .set({
-            messages: snapshot.messages,
-            thinkingOutput: snapshot.thinkingOutput,
-          })
-          .where(eq(chat.id, snapshot.chatId));
+        await db.transaction((tx) => {
+          // Rewrite the whole conversation so ordinals match the normalized list.
+          removeMessagesFromIndex(tx, snapshot.chatId, 0);
+          tx.delete(message).where(eq(message.chatId, snapshot.chatId)).run();
+          applyMessageRowWritePlan(
+            tx,
+            snapshot.chatId,
+            planMessageRowWrites(
+              [],
+              snapshot.chatId,
+              snapshot.messages,
+              snapshot.thinkingOutput,
+              { providerId: snapshot.providerId, modelId: snapshot.modelId },
+              new Date(),
+            ),
+          );
+        });
       }).catch((error) => {
         backfilledChatIdsRef.current.delete(snapshot.chatId);
         console.warn("[Chat] Failed to backfill legacy chat payload:", error);
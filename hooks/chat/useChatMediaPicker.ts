@@ -1,18 +1,30 @@
 import { useCallback, useState } from "react";
 import { Alert, Linking } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
 import * as ImagePicker from "expo-image-picker";
 
 import {
     asDataUri,
+    decodeBase64,
+    DOCUMENT_PICKER_TYPES,
     isModelSupportedImageType,
+    isPdfMediaType,
     MAX_CHAT_ATTACHMENTS,
     MAX_CHAT_ATTACHMENT_BYTES,
+    normalizeDocumentAsset,
     normalizePickerAsset,
+    resolveDocumentMediaType,
 } from "@/lib/chat-attachments";
+import { countPdfPages } from "@/lib/pdf-text";
 import type { ChatAttachment } from "@/types/chat.types";
 
 interface UseChatMediaPickerOptions {
     isInputLocked: boolean;
+    /** Whether the active model reads images; defaults to true */
+    acceptsImages?: boolean;
+    /** Whether the active model reads video; defaults to true */
+    acceptsVideos?: boolean;
 }
 
 interface UseChatMediaPickerReturn {
@@ -21,6 +33,7 @@ interface UseChatMediaPickerReturn {
     handleRemoveAttachment: (attachmentId: string) => void;
     handleTakePhoto: () => Promise<void>;
     handleChooseFromLibrary: () => Promise<void>;
+    handleChooseDocument: () => Promise<void>;
 }
 
 interface CameraLaunchResolution {
@@ -70,10 +83,23 @@ function mapCameraLaunchError(error: unknown): CameraLaunchResolution {
     };
 }
 
+/** Page count for the file card; a PDF that cannot be read simply shows none */
+async function readPdfPageCount(uri: string): Promise<number | undefined> {
+    try {
+        const base64 = await FileSystem.readAsStringAsync(uri, {
+            encoding: FileSystem.EncodingType.Base64,
+        });
+        return countPdfPages(decodeBase64(base64)) ?? undefined;
+    } catch (error) {
+        console.warn("[Chat] Failed to count PDF pages:", error);
+        return undefined;
+    }
+}
+
 export function useChatMediaPicker(
     options: UseChatMediaPickerOptions,
 ): UseChatMediaPickerReturn {
-    const { isInputLocked } = options;
+    const { isInputLocked, acceptsImages = true, acceptsVideos = true } = options;
     const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
 
     const clearPendingAttachments = useCallback(() => {
@@ -86,6 +112,29 @@ export function useChatMediaPicker(
         ));
     }, []);
 
+    const addAttachments = useCallback((normalized: ChatAttachment[]) => {
+        const acceptedAttachments = normalized.filter((attachment) => (
+            typeof attachment.fileSize !== "number"
+            || attachment.fileSize <= MAX_CHAT_ATTACHMENT_BYTES
+        ));
+
+        if (acceptedAttachments.length < normalized.length) {
+            Alert.alert(
+                "File too large",
+                "Each attachment must be 30 MB or smaller.",
+            );
+        }
+
+        if (acceptedAttachments.length === 0) {
+            return;
+        }
+
+        setPendingAttachments((current) => ([
+            ...current,
+            ...acceptedAttachments,
+        ].slice(0, MAX_CHAT_ATTACHMENTS)));
+    }, []);
+
     const processSelectedAssets = useCallback((assets: ImagePicker.ImagePickerAsset[]) => {
         const skippedUnsupportedImages: string[] = [];
         const normalized = assets.flatMap((asset, index) => {
@@ -116,27 +165,8 @@ export function useChatMediaPicker(
             );
         }
 
-        const acceptedAttachments = normalized.filter((attachment) => (
-            typeof attachment.fileSize !== "number"
-            || attachment.fileSize <= MAX_CHAT_ATTACHMENT_BYTES
-        ));
-
-        if (acceptedAttachments.length < normalized.length) {
-            Alert.alert(
-                "File too large",
-                "Each attachment must be 30 MB or smaller.",
-            );
-        }
-
-        if (acceptedAttachments.length === 0) {
-            return;
-        }
-
-        setPendingAttachments((current) => ([
-            ...current,
-            ...acceptedAttachments,
-        ].slice(0, MAX_CHAT_ATTACHMENTS)));
-    }, []);
+        addAttachments(normalized);
+    }, [addAttachments]);
 
     const openAppSettings = useCallback(() => {
         void Linking.openSettings().catch((error) => {
@@ -155,11 +185,15 @@ export function useChatMediaPicker(
     }, []);
 
     const launchLibraryPicker = useCallback(async (remainingSlots: number) => {
+        const mediaTypes: ImagePicker.MediaType[] = [
+            ...(acceptsImages ? ["images" as const] : []),
+            ...(acceptsVideos ? ["videos" as const] : []),
+        ];
         let result: ImagePicker.ImagePickerResult;
 
         try {
             result = await ImagePicker.launchImageLibraryAsync({
-                mediaTypes: ["images", "videos"] as ImagePicker.MediaType[],
+                mediaTypes,
                 allowsMultipleSelection: true,
                 selectionLimit: remainingSlots,
                 base64: true,
@@ -179,7 +213,7 @@ export function useChatMediaPicker(
         }
 
         processSelectedAssets(result.assets);
-    }, [processSelectedAssets]);
+    }, [acceptsImages, acceptsVideos, processSelectedAssets]);
 
     const launchCameraPicker = useCallback(async (remainingSlots: number) => {
         let permission: Awaited<ReturnType<typeof ImagePicker.getCameraPermissionsAsync>>;
@@ -276,6 +310,14 @@ export function useChatMediaPicker(
             return;
         }
 
+        if (!acceptsImages) {
+            Alert.alert(
+                "Photos not supported",
+                "The selected model can't read images. Switch to a vision-capable model to attach photos.",
+            );
+            return;
+        }
+
         if (pendingAttachments.length >= MAX_CHAT_ATTACHMENTS) {
             Alert.alert(
                 "Attachment limit reached",
@@ -286,13 +328,21 @@ export function useChatMediaPicker(
 
         const remainingSlots = MAX_CHAT_ATTACHMENTS - pendingAttachments.length;
         await launchCameraPicker(remainingSlots);
-    }, [isInputLocked, launchCameraPicker, pendingAttachments.length]);
+    }, [acceptsImages, isInputLocked, launchCameraPicker, pendingAttachments.length]);
 
     const handleChooseFromLibrary = useCallback(async () => {
         if (isInputLocked) {
             return;
         }
 
+        if (!acceptsImages && !acceptsVideos) {
+            Alert.alert(
+                "Attachments not supported",
+                "The selected model only reads text. Switch models to attach photos or videos.",
+            );
+            return;
+        }
+
         if (pendingAttachments.length >= MAX_CHAT_ATTACHMENTS) {
             Alert.alert(
                 "Attachment limit reached",
@@ -303,7 +353,67 @@ export function useChatMediaPicker(
 
         const remainingSlots = MAX_CHAT_ATTACHMENTS - pendingAttachments.length;
         await launchLibraryPicker(remainingSlots);
-    }, [isInputLocked, launchLibraryPicker, pendingAttachments.length]);
+    }, [acceptsImages, acceptsVideos, isInputLocked, launchLibraryPicker, pendingAttachments.length]);
+
+    const handleChooseDocument = useCallback(async () => {
+        if (isInputLocked) {
+            return;
+        }
+
+        if (pendingAttachments.length >= MAX_CHAT_ATTACHMENTS) {
+            Alert.alert(
+                "Attachment limit reached",
+                `You can attach up to ${MAX_CHAT_ATTACHMENTS} items per message.`,
+            );
+            return;
+        }
+
+        let result: DocumentPicker.DocumentPickerResult;
+
+        try {
+            result = await DocumentPicker.getDocumentAsync({
+                type: DOCUMENT_PICKER_TYPES,
+                multiple: true,
+                copyToCacheDirectory: true,
+            });
+        } catch (error) {
+            const message = error instanceof Error
+                ? error.message
+                : "Could not open your files.";
+
+            Alert.alert("Unable to open files", message);
+            return;
+        }
+
+        if (result.canceled || result.assets.length === 0) {
+            return;
+        }
+
+        const remainingSlots = MAX_CHAT_ATTACHMENTS - pendingAttachments.length;
+        const supportedAssets = result.assets.filter((asset) => (
+            resolveDocumentMediaType(asset.name, asset.mimeType) !== null
+        ));
+
+        if (supportedAssets.length < result.assets.length) {
+            Alert.alert(
+                "Unsupported file type",
+                "Some files were skipped. Supported files are PDF, text, Markdown, CSV, JSON and source code.",
+            );
+        }
+
+        // Only files that will be kept are read, and oversized PDFs are not read at all
+        const normalized = await Promise.all(
+            supportedAssets.slice(0, remainingSlots).map(async (asset, index) => {
+                const readable = typeof asset.size !== "number" || asset.size <= MAX_CHAT_ATTACHMENT_BYTES;
+                const pageCount = readable && isPdfMediaType(resolveDocumentMediaType(asset.name, asset.mimeType) ?? "")
+                    ? await readPdfPageCount(asset.uri)
+                    : undefined;
+                return normalizeDocumentAsset(asset, index, pageCount);
+            }),
+        );
+
+        addAttachments(normalized.filter((attachment): attachment is ChatAttachment => attachment !== null));
+    }, [addAttachments, isInputLocked, pendingAttachments.length]);
 
     return {
         pendingAttachments,
@@ -311,5 +421,6 @@ export function useChatMediaPicker(
         handleRemoveAttachment,
         handleTakePhoto,
         handleChooseFromLibrary,
+        handleChooseDocument,
     };
 }
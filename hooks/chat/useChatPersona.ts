@@ -0,0 +1,103 @@
+/**
+ * @file useChatPersona.ts
+ * @purpose Applies a persona when a new chat is opened from one and exposes the
+ * persona the current chat was started from.
+ */
+
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import useDatabase from "@/hooks/useDatabase";
+import {
+    chatSettingsFromPersona,
+    getPersona,
+    type Persona,
+} from "@/lib/personas";
+import { personaQueryKeys } from "@/lib/query-client";
+import { useProviderStore } from "@/stores";
+import { useSettingsStore } from "@/stores/useSettingsStore";
+import type { ChatSettings } from "@/types/chat.types";
+
+type Database = ReturnType<typeof useDatabase>;
+
+interface UseChatPersonaOptions {
+    chatIdParam: string;
+    /** Persona requested through the route when starting a new chat */
+    launchPersonaId: number | null;
+    /** Persona recorded on the chat's current settings */
+    activePersonaId: number | null;
+    db: Database;
+    isInitializing: boolean;
+    setChatSettings: (settings: ChatSettings) => void;
+}
+
+interface UseChatPersonaReturn {
+    activePersona: Persona | null;
+}
+
+/**
+ * Model, thinking level and web search are app-wide selections, the same ones
+ * the chat toolbar edits, so a persona switches them for the chats that follow.
+ */
+export function applyPersonaDefaults(entry: Persona): void {
+    if (entry.providerId && entry.modelId) {
+        const { setSelectedProvider, setSelectedModel } = useProviderStore.getState();
+        setSelectedProvider(entry.providerId);
+        setSelectedModel(entry.modelId);
+    }
+
+    const { setThinkingLevel, setWebSearchEnabled } = useSettingsStore.getState();
+    if (entry.thinkingLevel) {
+        setThinkingLevel(entry.thinkingLevel);
+    }
+    if (entry.webSearchEnabled !== null) {
+        setWebSearchEnabled(entry.webSearchEnabled);
+    }
+}
+
+export function useChatPersona(options: UseChatPersonaOptions): UseChatPersonaReturn {
+    const {
+        chatIdParam,
+        launchPersonaId,
+        activePersonaId,
+        db,
+        isInitializing,
+        setChatSettings,
+    } = options;
+    const appliedLaunchKeyRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (chatIdParam !== "new" || launchPersonaId === null || isInitializing) {
+            return;
+        }
+
+        const launchKey = `${chatIdParam}:${launchPersonaId}`;
+        if (appliedLaunchKeyRef.current === launchKey) {
+            return;
+        }
+        appliedLaunchKeyRef.current = launchKey;
+
+        try {
+            const entry = getPersona(db, launchPersonaId);
+            if (!entry) {
+                return;
+            }
+
+            applyPersonaDefaults(entry);
+            setChatSettings(chatSettingsFromPersona(entry));
+        } catch (error) {
+            console.warn("[Chat] Failed to start chat from persona:", error);
+        }
+    }, [chatIdParam, db, isInitializing, launchPersonaId, setChatSettings]);
+
+    const activePersonaQuery = useQuery({
+        queryKey: personaQueryKeys.detail(activePersonaId ?? 0),
+        enabled: activePersonaId !== null,
+        retry: false,
+        queryFn: async () => getPersona(db, activePersonaId as number),
+    });
+
+    return {
+        activePersona: activePersonaId !== null ? activePersonaQuery.data ?? null : null,
+    };
+}
@@ -2,11 +2,28 @@ import { useCallback } from "react";
 import type { LanguageModel, ModelMessage } from "ai";
 
 import { createAppleModel } from "@/providers/apple-provider";
-import type { FallbackResult } from "@/providers/fallback-chain";
+import {
+    classifyError,
+    findNextFallbackStep,
+    getRateLimitWaitLimitMs,
+    type FallbackResult,
+} from "@/providers/fallback-chain";
+import { getRateLimitWaitMs } from "@/providers/rate-limit";
 import {
     createErrorAnnotation,
     withErrorAnnotation,
 } from "@/lib/chat-error-annotations";
+import { forkConversation } from "@/lib/chat-branches";
+import { createFallbackAnnotation, withFallbackAnnotation } from "@/lib/chat-fallback-annotations";
+import { parseMessageContent } from "@/lib/chat-content-parts";
+import {
+    createModelAnnotation,
+    withModelAnnotation,
+} from "@/lib/chat-model-annotations";
+import { createUsageAnnotation, withUsageAnnotation } from "@/lib/chat-usage-annotations";
+import { withToolCallAnnotation } from "@/lib/chat-tool-call-annotations";
+import { computeUsageCost } from "@/lib/model-pricing";
+import { supportsPdfInput } from "@/lib/model-capabilities";
 import { getErrorFixes } from "@/lib/error-messages";
 import { prepareMessagesForProvider, needsProviderMessagePreparation } from "@/lib/chat-provider-message-preparation";
 import {
@@ -14,17 +31,40 @@ import {
     createIdempotencyRegistry,
     createSequenceGuard,
 } from "@/lib/concurrency";
+import { createSearchBackendChain } from "@/lib/search-backends";
+import {
+    createWebSearchToolRuntime,
+    WEB_SEARCH_TOOL_SOURCES,
+} from "@/lib/web-search-tool";
+import { createMcpToolRuntime } from "@/lib/mcp-tools";
+import { createToolCallRecorder, type ToolApprovalRequest } from "@/lib/tool-call-recorder";
+import { planContextWindow } from "@/lib/context-budget";
 import {
-    createSearxngToolRuntime,
-    WEB_SEARCH_SYSTEM_PROMPT,
-} from "@/lib/searxng-tool";
+    formatSummaryForSystemPrompt,
+    getSummaryModelSelection,
+    summarizeContext,
+} from "@/lib/context-summary";
 import type {
     ChatActiveWebSearchState,
+    ChatBranchFork,
+    ChatContextSummary,
+    ChatFallbackHop,
+    ChatRateLimitWait,
     ChatSendInput,
     ChatSendPayload,
+    ChatUsageAnnotation,
+    ContextStrategy,
     ThinkingLevel,
+    ToolApprovalDecision,
+    ToolApprovalPolicy,
+    TurnModelSelection,
+    UsageSource,
 } from "@/types/chat.types";
-import { isVideoCapableModel, type ProviderId } from "@/types/provider.types";
+import { getModelCapabilities, getModelPricing } from "@/stores";
+import type { ProviderId } from "@/types/provider.types";
+import type { DocumentSearcher } from "@/types/document.types";
+import type { McpServer, McpToolKey } from "@/types/mcp.types";
+import type { SearchBackendConfig } from "@/types/search.types";
 
 import type {
     RetryConfig,
@@ -32,10 +72,13 @@ import type {
 import type { StreamingResult, StreamingOptions } from "./useChatStreaming";
 import {
     buildMessageSignature,
+    composeSystemPrompt,
     conversationHasVideoContent,
+    createEditedSendPayload,
     createUserMessageContent,
     formatAnnotatedErrorContent,
     getErrorMessageText,
+    hasImageAttachment,
     hasSendableContent,
     hasVideoAttachment,
     isSameMessageContent,
@@ -47,6 +90,49 @@ import {
 
 type ChunkHandler = (chunk: string, accumulated: string) => void;
 
+// Stable defaults so the send callback is not rebuilt on every render
+const EMPTY_MCP_SERVERS: McpServer[] = [];
+const EMPTY_DISABLED_TOOLS: McpToolKey[] = [];
+const EMPTY_BLOCKED_DOMAINS: string[] = [];
+const EMPTY_SEARCH_BACKENDS: SearchBackendConfig[] = [];
+const EMPTY_TOOL_APPROVAL_POLICIES: Record<string, ToolApprovalPolicy> = {};
+
+interface SendMessageOptions {
+    /** Leave the composer draft alone (used when re-sending an edited turn) */
+    preserveComposerText?: boolean;
+    /** Answer the trailing user message again instead of appending a new one */
+    replyToExistingMessage?: boolean;
+    /** Run this turn on a specific provider/model and tag the reply with it */
+    modelSelection?: TurnModelSelection;
+}
+
+/**
+ * How long a reply that failed on a rate limit would have to wait, when the
+ * provider said. A wait past the user's limit comes with the next step of the
+ * fallback chain to offer instead - automatic fallback already had its chance.
+ */
+const describeRateLimitWait = (
+    error: unknown,
+    provider: ProviderId,
+    failedProviders: ProviderId[],
+): ChatRateLimitWait | null => {
+    const waitMs = getRateLimitWaitMs(classifyError(error).rateLimit);
+    if (waitMs === null) {
+        return null;
+    }
+
+    const fallbackStep = waitMs > getRateLimitWaitLimitMs()
+        ? findNextFallbackStep(provider, failedProviders)
+        : null;
+
+    return {
+        retryAt: Date.now() + waitMs,
+        fallback: fallbackStep
+            ? { providerId: fallbackStep.provider, modelId: fallbackStep.model }
+            : null,
+    };
+};
+
 interface UseChatSendFlowOptions {
     text: string;
     chatId?: string;
@@ -61,7 +147,27 @@ interface UseChatSendFlowOptions {
     enableThinking: boolean;
     enableWebSearch: boolean;
     thinkingLevel?: ThinkingLevel;
-    searxngUrl: string | null;
+    /** Web search backends, preferred first; empty leaves search off */
+    searchBackends?: SearchBackendConfig[];
+    /** Registered MCP servers; their tools are offered on turns whose model can call tools */
+    mcpServers?: McpServer[];
+    /** MCP tools this chat has switched off */
+    disabledTools?: McpToolKey[];
+    /** Hostnames web search results and readUrl leave out in this chat */
+    blockedDomains?: string[];
+    /** Searches the chat's attached document collections */
+    documentSearch?: DocumentSearcher | null;
+    /** Approval policy overrides by tool key */
+    toolApprovalPolicies?: Record<string, ToolApprovalPolicy>;
+    /** Chat-level system prompt combined with tool instructions on each attempt */
+    systemPrompt?: string | null;
+    temperature?: number | null;
+    /** How older turns are trimmed once the conversation outgrows the model's context */
+    contextStrategy?: ContextStrategy;
+    contextSummary?: ChatContextSummary | null;
+    onContextSummaryChange?: (summary: ChatContextSummary) => void;
+    /** Called for every billed call of a send: each reply attempt and any context summary */
+    onUsage?: (usage: ChatUsageAnnotation, source: UsageSource) => void;
     onChunk?: ChunkHandler;
     onThinkingChunk?: ChunkHandler;
     onComplete?: () => void;
@@ -70,15 +176,19 @@ interface UseChatSendFlowOptions {
     setText: React.Dispatch<React.SetStateAction<string>>;
     setMessages: React.Dispatch<React.SetStateAction<ModelMessage[]>>;
     setThinkingOutput: React.Dispatch<React.SetStateAction<string[]>>;
+    setBranches: React.Dispatch<React.SetStateAction<ChatBranchFork[]>>;
     setActiveWebSearchState: React.Dispatch<React.SetStateAction<ChatActiveWebSearchState | null>>;
     setIsThinking: React.Dispatch<React.SetStateAction<boolean>>;
     setIsStreaming: React.Dispatch<React.SetStateAction<boolean>>;
     setCanRetry: React.Dispatch<React.SetStateAction<boolean>>;
     setErrorMessage: React.Dispatch<React.SetStateAction<string | null>>;
+    setRateLimitWait: React.Dispatch<React.SetStateAction<ChatRateLimitWait | null>>;
     setActiveProvider: React.Dispatch<React.SetStateAction<ProviderId>>;
     setActiveModel: React.Dispatch<React.SetStateAction<string>>;
     setIsUsingFallback: React.Dispatch<React.SetStateAction<boolean>>;
     messagesRef: React.MutableRefObject<ModelMessage[]>;
+    thinkingOutputRef: React.MutableRefObject<string[]>;
+    branchesRef: React.MutableRefObject<ChatBranchFork[]>;
     failedProvidersRef: React.MutableRefObject<ProviderId[]>;
     lastUserMessageRef: React.MutableRefObject<ChatSendPayload | null>;
     attachmentDataCacheRef: React.MutableRefObject<Map<string, string>>;
@@ -92,6 +202,12 @@ interface UseChatSendFlowOptions {
     markCompleting: () => void;
     markCompleted: () => void;
     markError: (error: Error) => void;
+    pauseTimeouts: () => void;
+    resumeTimeouts: () => void;
+    requestToolApproval: (
+        request: ToolApprovalRequest & { messageIndex: number },
+        abortSignal?: AbortSignal,
+    ) => Promise<ToolApprovalDecision>;
     commitWebSearchAnnotation: (
         assistantIndex: number,
         annotation: ChatActiveWebSearchState["annotation"] | null,
@@ -109,6 +225,9 @@ interface UseChatSendFlowOptions {
 interface UseChatSendFlowReturn {
     sendMessage: (input?: ChatSendInput) => Promise<void>;
     retryLastMessage: () => Promise<void>;
+    retryWithFallback: () => Promise<void>;
+    editMessage: (messageIndex: number, text: string) => Promise<void>;
+    regenerateMessage: (messageIndex: number, selection: TurnModelSelection) => Promise<void>;
 }
 
 export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlowReturn {
@@ -126,7 +245,18 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         enableThinking,
         enableWebSearch,
         thinkingLevel,
-        searxngUrl,
+        searchBackends = EMPTY_SEARCH_BACKENDS,
+        mcpServers = EMPTY_MCP_SERVERS,
+        disabledTools = EMPTY_DISABLED_TOOLS,
+        blockedDomains = EMPTY_BLOCKED_DOMAINS,
+        documentSearch = null,
+        toolApprovalPolicies = EMPTY_TOOL_APPROVAL_POLICIES,
+        systemPrompt,
+        temperature,
+        contextStrategy = "drop-oldest",
+        contextSummary = null,
+        onContextSummaryChange,
+        onUsage,
         onChunk,
         onThinkingChunk,
         onComplete,
@@ -135,15 +265,19 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         setText,
         setMessages,
         setThinkingOutput,
+        setBranches,
         setActiveWebSearchState,
         setIsThinking,
         setIsStreaming,
         setCanRetry,
         setErrorMessage,
+        setRateLimitWait,
         setActiveProvider,
         setActiveModel,
         setIsUsingFallback,
         messagesRef,
+        thinkingOutputRef,
+        branchesRef,
         failedProvidersRef,
         lastUserMessageRef,
         attachmentDataCacheRef,
@@ -157,35 +291,41 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         markCompleting,
         markCompleted,
         markError,
+        pauseTimeouts,
+        resumeTimeouts,
+        requestToolApproval,
         commitWebSearchAnnotation,
         resolveModelForSelection,
         executeStreaming,
     } = options;
 
-    const sendMessage = useCallback(async (input?: ChatSendInput) => {
+    const sendMessage = useCallback(async (
+        input?: ChatSendInput,
+        sendOptions: SendMessageOptions = {},
+    ) => {
         const resolvedPayload = resolveSendPayload(input, text);
 
         if (!hasSendableContent(resolvedPayload)) {
             return;
         }
 
+        const { modelSelection } = sendOptions;
+        const turnProvider = modelSelection?.providerId ?? activeProvider;
+        const turnModel = modelSelection?.modelId ?? activeModel;
         const requestIncludesVideo = hasVideoAttachment(resolvedPayload.attachments)
             || conversationHasVideoContent(messagesRef.current);
+        const turnCapabilities = getModelCapabilities(turnProvider, turnModel);
 
-        if (requestIncludesVideo && !isVideoCapableModel(activeProvider, activeModel)) {
-            const compatibilityError = new Error(
-                "Video messages require OpenRouter with a video-capable model (for example google/gemini-2.5-flash or google/gemini-2.5-pro). Switch the model in Settings and resend.",
-            );
-            const compatibilityFixes = [
-                "Switch to OpenRouter with a video-capable model such as google/gemini-2.5-flash.",
-                "Open Settings and confirm the selected model supports video input.",
-                "Remove the video attachment and resend as text-only.",
-            ];
+        const rejectIncompatibleRequest = (
+            title: string,
+            compatibilityError: Error,
+            compatibilityFixes: string[],
+        ): void => {
             const compatibilityMessage = withErrorAnnotation(
                 {
                     role: "assistant",
                     content: formatAnnotatedErrorContent(
-                        "Video Not Supported",
+                        title,
                         compatibilityError.message,
                         compatibilityFixes,
                     ),
@@ -194,7 +334,7 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                     error: compatibilityError.message,
                     fixes: compatibilityFixes,
                     source: "compatibility",
-                    provider: activeProvider,
+                    provider: turnProvider,
                 }),
             );
 
@@ -203,6 +343,35 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
             setErrorMessage(compatibilityError.message);
             setCanRetry(false);
             onError?.(compatibilityError);
+        };
+
+        if (requestIncludesVideo && !turnCapabilities.video) {
+            rejectIncompatibleRequest(
+                "Video Not Supported",
+                new Error(
+                    "Video messages require Gemini or OpenRouter with a video-capable model (for example gemini-2.5-flash or google/gemini-2.5-pro). Switch the model in Settings and resend.",
+                ),
+                [
+                    "Switch to Gemini, or to OpenRouter with a video-capable model such as google/gemini-2.5-flash.",
+                    "Open Settings and confirm the selected model supports video input.",
+                    "Remove the video attachment and resend as text-only.",
+                ],
+            );
+            return;
+        }
+
+        if (hasImageAttachment(resolvedPayload.attachments) && !turnCapabilities.vision) {
+            rejectIncompatibleRequest(
+                "Images Not Supported",
+                new Error(
+                    `${turnModel || "The selected model"} can't read images. Switch to a vision-capable model and resend.`,
+                ),
+                [
+                    "Pick a model with image input, such as gpt-4o, a Claude model or a Gemini model.",
+                    "If this model does read images, turn on Vision for it under Settings → the provider's model list.",
+                    "Remove the photo and resend as text-only.",
+                ],
+            );
             return;
         }
 
@@ -230,6 +399,7 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         setActiveWebSearchState(null);
         canceledRef.current = false;
         setCanRetry(false);
+        setRateLimitWait(null);
         lastRetryableOperationRef.current = null;
 
         const retryPayload: ChatSendPayload = {
@@ -246,15 +416,18 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
             && !abortSignal.aborted
         );
 
-        const userMessage: ModelMessage = {
-            role: "user",
-            content: userMessageContent,
-        };
-        const updatedMessages = [...messagesRef.current, userMessage];
-        setMessages(updatedMessages);
-        setThinkingOutput((prev) => [...prev, ""]);
+        let updatedMessages = messagesRef.current;
+        if (!sendOptions.replyToExistingMessage) {
+            const userMessage: ModelMessage = {
+                role: "user",
+                content: userMessageContent,
+            };
+            updatedMessages = [...messagesRef.current, userMessage];
+            setMessages(updatedMessages);
+            setThinkingOutput((prev) => [...prev, ""]);
+        }
 
-        if (!resolvedPayload.usedOverrideText) {
+        if (!resolvedPayload.usedOverrideText && !sendOptions.preserveComposerText) {
             setText("");
         }
 
@@ -268,13 +441,16 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         ]));
         setThinkingOutput((prev) => [...prev, ""]);
 
-        const webSearchRuntime = enableWebSearch
-            && !requestIncludesVideo
-            && typeof searxngUrl === "string"
-            && searxngUrl.trim().length > 0
-            ? createSearxngToolRuntime({
+        const searchBackend = enableWebSearch && turnCapabilities.tools && !requestIncludesVideo
+            ? createSearchBackendChain(searchBackends)
+            : null;
+        const turnDocumentSearch = turnCapabilities.tools && !requestIncludesVideo ? documentSearch : null;
+        const webSearchRuntime = searchBackend || turnDocumentSearch
+            ? createWebSearchToolRuntime({
                 enabled: true,
-                searxngUrl: searxngUrl.trim(),
+                backend: searchBackend,
+                documents: turnDocumentSearch,
+                blockedDomains,
                 onAnnotationChange: (annotation) => {
                     if (!annotation || !canMutateForCurrentSend()) {
                         return;
@@ -289,65 +465,113 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
             })
             : null;
 
-        let attemptProvider = activeProvider;
-        let attemptModel = activeModel;
+        const mcpToolRuntime = turnCapabilities.tools && !requestIncludesVideo && mcpServers.length > 0
+            ? createMcpToolRuntime({ servers: mcpServers, disabledTools })
+            : null;
+        const activeMcpToolRuntime = mcpToolRuntime?.enabled ? mcpToolRuntime : null;
+
+        const toolCallRecorder = createToolCallRecorder({
+            sources: {
+                ...activeMcpToolRuntime?.toolSources,
+                ...(webSearchRuntime ? WEB_SEARCH_TOOL_SOURCES : undefined),
+            },
+            policies: toolApprovalPolicies,
+            requestApproval: async (request, toolAbortSignal) => {
+                // The wait for the user is not stream inactivity
+                pauseTimeouts();
+                try {
+                    return await requestToolApproval(
+                        { ...request, messageIndex: assistantIndex },
+                        toolAbortSignal ?? abortSignal,
+                    );
+                } finally {
+                    resumeTimeouts();
+                }
+            },
+            onAnnotationChange: (annotation) => {
+                if (!annotation || !canMutateForCurrentSend()) {
+                    return;
+                }
+
+                // A long tool call sends no stream chunks; keep the
+                // inactivity timeout from firing while it runs
+                markChunkReceived();
+                setMessages((prev) => {
+                    const target = prev[assistantIndex];
+                    if (!target || target.role !== "assistant") {
+                        return prev;
+                    }
+
+                    const next = [...prev];
+                    next[assistantIndex] = withToolCallAnnotation(target, annotation);
+                    return next;
+                });
+            },
+        });
+
+        let attemptProvider = turnProvider;
+        let attemptModel = turnModel;
         let attemptResolvedModel = resolveModelForSelection(attemptProvider, attemptModel);
-        let providerMessages = updatedMessages;
-
-        try {
-            if (needsProviderMessagePreparation(updatedMessages)) {
-                providerMessages = await prepareMessagesForProvider(
-                    updatedMessages,
-                    attachmentDataCacheRef.current,
-                );
-            }
-        } catch (error) {
-            const attachmentError = error instanceof Error
-                ? error
-                : new Error("Failed to prepare one or more attachments.");
-            const attachmentErrorMessage = getErrorMessageText(attachmentError);
-            const attachmentFixes = normalizePossibleFixes([
-                ...getErrorFixes(attachmentError, attemptProvider),
-                "Try selecting the attachment again.",
-                "Make sure the file is still available on this device.",
-            ]);
-
-            markError(attachmentError);
-            setErrorMessage(attachmentError.message);
-            setCanRetry(true);
-            lastRetryableOperationRef.current = {
-                operationKey: sendOperationKey,
-                payload: retryPayload,
-                messageSignature,
-            };
-            setMessages((prev) => {
-                const next = [...prev];
-                next[assistantIndex] = withErrorAnnotation(
-                    {
-                        role: "assistant",
-                        content: formatAnnotatedErrorContent(
-                            "Attachment Error",
-                            attachmentErrorMessage,
-                            attachmentFixes,
+
+        // Trim the history to the turn model's context before attachments are
+        // read, so turns that will not be sent are never loaded from disk.
+        const contextPlan = planContextWindow({
+            messages: updatedMessages,
+            strategy: contextStrategy,
+            contextTokens: turnCapabilities.contextTokens,
+            systemPrompt: composeSystemPrompt(
+                systemPrompt,
+                webSearchRuntime?.systemPrompt,
+            ),
+            toolCount: (webSearchRuntime?.toolCount ?? 0) + (activeMcpToolRuntime?.toolCount ?? 0),
+            summary: contextSummary,
+        });
+        let turnSummary = contextPlan.summary;
+
+        if (contextPlan.summarizeRange) {
+            const preferredSummarySelection = getSummaryModelSelection(turnProvider, turnModel);
+            const preferredSummaryModel = resolveModelForSelection(
+                preferredSummarySelection.providerId,
+                preferredSummarySelection.modelId,
+            );
+            const summarySelection = preferredSummaryModel
+                ? preferredSummarySelection
+                : { providerId: turnProvider, modelId: turnModel };
+            const summaryModel = preferredSummaryModel ?? attemptResolvedModel;
+
+            if (summaryModel) {
+                try {
+                    turnSummary = await summarizeContext({
+                        model: summaryModel,
+                        messages: updatedMessages,
+                        coveredCount: contextPlan.summarizeRange.end,
+                        previous: contextPlan.summary,
+                        abortSignal,
+                        onUsage: (usage) => onUsage?.(
+                            createUsageAnnotation(
+                                summarySelection.providerId,
+                                summarySelection.modelId,
+                                usage,
+                                computeUsageCost(
+                                    usage,
+                                    getModelPricing(summarySelection.providerId, summarySelection.modelId),
+                                ),
+                            ),
+                            "summary",
                         ),
-                    },
-                    createErrorAnnotation({
-                        error: attachmentErrorMessage,
-                        fixes: attachmentFixes,
-                        source: "attachment",
-                        provider: attemptProvider,
-                    }),
-                );
-                return next;
-            });
-            onError?.(attachmentError);
-            finalizeCurrentSendState();
-            return;
+                    });
+                    onContextSummaryChange?.(turnSummary);
+                } catch (error) {
+                    // The trimmed turns are still left out; the reply just
+                    // loses their gist until the next summary succeeds.
+                    if (!abortSignal.aborted) {
+                        console.warn("[Chat] Context summary failed:", error);
+                    }
+                }
+            }
         }
 
-        if (!canMutateForCurrentSend()) {
-            return;
-        }
+        const summaryPrompt = turnSummary ? formatSummaryForSystemPrompt(turnSummary) : undefined;
 
         if (!attemptResolvedModel) {
             setMessages((prev) => {
@@ -381,8 +605,82 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
             }
             : undefined;
 
+        let replyUsage: ChatUsageAnnotation | undefined;
+        const fallbackHops: ChatFallbackHop[] = [];
+
         while (true) {
-            const attemptTools = webSearchRuntime?.createTools(attemptProvider);
+            // Prepared per attempt: a fallback from a provider that reads PDFs
+            // natively to one that does not needs the extracted text instead.
+            // Attachment data is cached, so later attempts skip the disk.
+            let providerMessages = contextPlan.messages;
+
+            try {
+                if (needsProviderMessagePreparation(providerMessages)) {
+                    providerMessages = await prepareMessagesForProvider(
+                        providerMessages,
+                        attachmentDataCacheRef.current,
+                        {
+                            nativePdf: supportsPdfInput(
+                                attemptProvider,
+                                getModelCapabilities(attemptProvider, attemptModel),
+                            ),
+                        },
+                    );
+                }
+            } catch (error) {
+                const attachmentError = error instanceof Error
+                    ? error
+                    : new Error("Failed to prepare one or more attachments.");
+                const attachmentErrorMessage = getErrorMessageText(attachmentError);
+                const attachmentFixes = normalizePossibleFixes([
+                    ...getErrorFixes(attachmentError, attemptProvider),
+                    "Try selecting the attachment again.",
+                    "Make sure the file is still available on this device.",
+                ]);
+
+                markError(attachmentError);
+                setErrorMessage(attachmentError.message);
+                setCanRetry(true);
+                lastRetryableOperationRef.current = {
+                    operationKey: sendOperationKey,
+                    payload: retryPayload,
+                    messageSignature,
+                    modelSelection,
+                };
+                setMessages((prev) => {
+                    const next = [...prev];
+                    next[assistantIndex] = withErrorAnnotation(
+                        {
+                            role: "assistant",
+                            content: formatAnnotatedErrorContent(
+                                "Attachment Error",
+                                attachmentErrorMessage,
+                                attachmentFixes,
+                            ),
+                        },
+                        createErrorAnnotation({
+                            error: attachmentErrorMessage,
+                            fixes: attachmentFixes,
+                            source: "attachment",
+                            provider: attemptProvider,
+                        }),
+                    );
+                    return next;
+                });
+                onError?.(attachmentError);
+                finalizeCurrentSendState();
+                return;
+            }
+
+            if (!canMutateForCurrentSend()) {
+                return;
+            }
+
+            const attemptWebSearchTools = webSearchRuntime?.createTools(attemptProvider);
+            const attemptMcpTools = activeMcpToolRuntime?.createTools();
+            const attemptTools = attemptWebSearchTools || attemptMcpTools
+                ? toolCallRecorder.wrapTools({ ...attemptMcpTools, ...attemptWebSearchTools }, attemptProvider)
+                : undefined;
             const attemptStreamingModel = attemptProvider === "apple" && attemptTools
                 ? createAppleModel(attemptTools) as LanguageModel
                 : attemptResolvedModel;
@@ -401,7 +699,12 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                 activeProvider: attemptProvider,
                 effectiveProviderId: attemptProvider,
                 thinkingLevel,
-                systemPrompt: attemptTools ? WEB_SEARCH_SYSTEM_PROMPT : undefined,
+                systemPrompt: composeSystemPrompt(
+                    systemPrompt,
+                    summaryPrompt,
+                    attemptWebSearchTools ? webSearchRuntime?.systemPrompt : undefined,
+                ),
+                temperature: temperature ?? undefined,
                 tools: attemptTools,
                 abortSignal,
                 onChunk,
@@ -434,6 +737,13 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                         return;
                     }
 
+                    const rateLimitWait = describeRateLimitWait(
+                        error,
+                        attemptProvider,
+                        failedProvidersRef.current,
+                    );
+                    setRateLimitWait(rateLimitWait);
+
                     if (error instanceof Error) {
                         markError(error);
                         setErrorMessage(error.message);
@@ -442,12 +752,14 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                             operationKey: sendOperationKey,
                             payload: retryPayload,
                             messageSignature,
+                            modelSelection,
+                            fallbackSelection: rateLimitWait?.fallback ?? undefined,
                         };
                         onError?.(error);
                         return;
                     }
 
-                    const wrappedError = new Error(String(error));
+                    const wrappedError = new Error(getErrorMessageText(error));
                     markError(wrappedError);
                     setErrorMessage(wrappedError.message);
                     setCanRetry(true);
@@ -455,9 +767,18 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                         operationKey: sendOperationKey,
                         payload: retryPayload,
                         messageSignature,
+                        modelSelection,
+                        fallbackSelection: rateLimitWait?.fallback ?? undefined,
                     };
                     onError?.(wrappedError);
                 },
+                onRetryScheduled: (delayMs, error) => {
+                    if (!canMutateForCurrentSend() || !error.rateLimit) {
+                        return;
+                    }
+
+                    setRateLimitWait({ retryAt: Date.now() + delayMs, fallback: null });
+                },
                 onFallback,
                 onProviderChange: (provider: ProviderId, model: string, isFallback: boolean) => {
                     if (!canMutateForCurrentSend()) {
@@ -478,6 +799,20 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                 failedProvidersRef,
             );
 
+            // Priced now so later price edits do not rewrite past spend. Every
+            // attempt is billed, including ones a fallback went on to replace.
+            replyUsage = result.usage
+                ? createUsageAnnotation(
+                    attemptProvider,
+                    attemptModel,
+                    result.usage,
+                    computeUsageCost(result.usage, getModelPricing(attemptProvider, attemptModel)),
+                )
+                : undefined;
+            if (replyUsage) {
+                onUsage?.(replyUsage, "reply");
+            }
+
             if (!sendSequenceGuardRef.current.isCurrent(sendToken)) {
                 return;
             }
@@ -494,6 +829,13 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                     break;
                 }
 
+                fallbackHops.push({
+                    fromProvider: attemptProvider,
+                    fromModel: attemptModel,
+                    toProvider: result.nextProvider,
+                    toModel: result.nextModel,
+                    category: result.fallbackCategory ?? "unknown",
+                });
                 attemptProvider = result.nextProvider;
                 attemptModel = result.nextModel;
                 attemptResolvedModel = fallbackModel;
@@ -508,6 +850,42 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
                 assistantIndex,
                 webSearchRuntime?.getAnnotationSnapshot() ?? null,
             );
+
+            if (modelSelection || fallbackHops.length > 0) {
+                // Record the model that actually answered, which differs from the
+                // selection when a fallback took over.
+                const modelAnnotation = createModelAnnotation(attemptProvider, attemptModel);
+                const fallbackAnnotation = fallbackHops.length > 0
+                    ? createFallbackAnnotation(fallbackHops)
+                    : null;
+                setMessages((prev) => {
+                    const target = prev[assistantIndex];
+                    if (!target || target.role !== "assistant") {
+                        return prev;
+                    }
+
+                    const next = [...prev];
+                    const annotated = withModelAnnotation(target, modelAnnotation);
+                    next[assistantIndex] = fallbackAnnotation
+                        ? withFallbackAnnotation(annotated, fallbackAnnotation)
+                        : annotated;
+                    return next;
+                });
+            }
+
+            if (replyUsage) {
+                const usageAnnotation = replyUsage;
+                setMessages((prev) => {
+                    const target = prev[assistantIndex];
+                    if (!target || target.role !== "assistant") {
+                        return prev;
+                    }
+
+                    const next = [...prev];
+                    next[assistantIndex] = withUsageAnnotation(target, usageAnnotation);
+                    return next;
+                });
+            }
         }
 
         if (
@@ -523,9 +901,14 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         activeModel,
         activeProvider,
         attachmentDataCacheRef,
+        blockedDomains,
         canceledRef,
         chatId,
         commitWebSearchAnnotation,
+        contextStrategy,
+        contextSummary,
+        disabledTools,
+        documentSearch,
         effectiveProviderId,
         enableFallback,
         enableRetry,
@@ -542,16 +925,22 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         markCompleting,
         markDoneSignalReceived,
         markError,
+        mcpServers,
         mergedRetryConfig,
         messagesRef,
         onChunk,
         onComplete,
+        onContextSummaryChange,
         onError,
         onFallback,
         onThinkingChunk,
+        onUsage,
+        pauseTimeouts,
         placeholderText,
+        requestToolApproval,
         resolveModelForSelection,
-        searxngUrl,
+        resumeTimeouts,
+        searchBackends,
         sendSequenceGuardRef,
         setActiveModel,
         setActiveProvider,
@@ -562,13 +951,17 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         setIsThinking,
         setIsUsingFallback,
         setMessages,
+        setRateLimitWait,
         setText,
         setThinkingOutput,
+        systemPrompt,
+        temperature,
         text,
         thinkingLevel,
+        toolApprovalPolicies,
     ]);
 
-    const retryLastMessage = useCallback(async () => {
+    const resendLastOperation = useCallback(async (selectionOverride?: TurnModelSelection) => {
         const retryableOperation = lastRetryableOperationRef.current;
 
         if (!lastUserMessageRef.current || !retryableOperation) {
@@ -611,9 +1004,12 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
 
             setCanRetry(false);
             setErrorMessage(null);
+            setRateLimitWait(null);
             lastRetryableOperationRef.current = null;
 
-            await sendMessage(retryableOperation.payload);
+            await sendMessage(retryableOperation.payload, {
+                modelSelection: selectionOverride ?? retryableOperation.modelSelection,
+            });
         });
     }, [
         lastRetryableOperationRef,
@@ -624,11 +1020,141 @@ export function useChatSendFlow(options: UseChatSendFlowOptions): UseChatSendFlo
         setCanRetry,
         setErrorMessage,
         setMessages,
+        setRateLimitWait,
+        setThinkingOutput,
+    ]);
+
+    const retryLastMessage = useCallback(async () => {
+        await resendLastOperation();
+    }, [resendLastOperation]);
+
+    /** Resends the failed turn to the provider offered instead of a long rate-limit wait */
+    const retryWithFallback = useCallback(async () => {
+        const fallbackSelection = lastRetryableOperationRef.current?.fallbackSelection;
+        if (!fallbackSelection) {
+            return;
+        }
+
+        await resendLastOperation(fallbackSelection);
+    }, [lastRetryableOperationRef, resendLastOperation]);
+
+    const editMessage = useCallback(async (messageIndex: number, nextText: string) => {
+        const target = messagesRef.current[messageIndex];
+
+        if (!target || target.role !== "user") {
+            return;
+        }
+
+        const editedPayload = createEditedSendPayload(target.content, nextText);
+        if (
+            !hasSendableContent(editedPayload)
+            || isSameMessageContent(target.content, createUserMessageContent(editedPayload))
+        ) {
+            return;
+        }
+
+        // Keep the old continuation as a sibling branch and send the edited
+        // turn on a fresh one; only the active path reaches the provider.
+        const forked = forkConversation(
+            {
+                messages: messagesRef.current,
+                thinkingOutput: thinkingOutputRef.current,
+                forks: branchesRef.current,
+            },
+            messageIndex,
+        );
+
+        messagesRef.current = forked.messages;
+        thinkingOutputRef.current = forked.thinkingOutput;
+        branchesRef.current = forked.forks;
+        setMessages(forked.messages);
+        setThinkingOutput(forked.thinkingOutput);
+        setBranches(forked.forks);
+        setActiveWebSearchState(null);
+        setCanRetry(false);
+        setErrorMessage(null);
+        lastRetryableOperationRef.current = null;
+
+        await sendMessage(editedPayload, { preserveComposerText: true });
+    }, [
+        branchesRef,
+        lastRetryableOperationRef,
+        messagesRef,
+        sendMessage,
+        setActiveWebSearchState,
+        setBranches,
+        setCanRetry,
+        setErrorMessage,
+        setMessages,
+        setThinkingOutput,
+        thinkingOutputRef,
+    ]);
+
+    const regenerateMessage = useCallback(async (
+        messageIndex: number,
+        selection: TurnModelSelection,
+    ) => {
+        const target = messagesRef.current[messageIndex];
+        const prompt = messagesRef.current[messageIndex - 1];
+
+        if (!target || target.role !== "assistant" || !prompt || prompt.role !== "user") {
+            return;
+        }
+
+        const promptPayload = createEditedSendPayload(
+            prompt.content,
+            parseMessageContent(prompt.content).text,
+        );
+        if (!hasSendableContent(promptPayload)) {
+            return;
+        }
+
+        // The existing reply becomes a sibling of the regenerated one, so the
+        // pager on the assistant message can flip between models.
+        const forked = forkConversation(
+            {
+                messages: messagesRef.current,
+                thinkingOutput: thinkingOutputRef.current,
+                forks: branchesRef.current,
+            },
+            messageIndex,
+        );
+
+        messagesRef.current = forked.messages;
+        thinkingOutputRef.current = forked.thinkingOutput;
+        branchesRef.current = forked.forks;
+        setMessages(forked.messages);
+        setThinkingOutput(forked.thinkingOutput);
+        setBranches(forked.forks);
+        setActiveWebSearchState(null);
+        setCanRetry(false);
+        setErrorMessage(null);
+        lastRetryableOperationRef.current = null;
+
+        await sendMessage(promptPayload, {
+            preserveComposerText: true,
+            replyToExistingMessage: true,
+            modelSelection: selection,
+        });
+    }, [
+        branchesRef,
+        lastRetryableOperationRef,
+        messagesRef,
+        sendMessage,
+        setActiveWebSearchState,
+        setBranches,
+        setCanRetry,
+        setErrorMessage,
+        setMessages,
         setThinkingOutput,
+        thinkingOutputRef,
     ]);
 
     return {
         sendMessage,
         retryLastMessage,
+        retryWithFallback,
+        editMessage,
+        regenerateMessage,
     };
 }
@@ -43,6 +43,7 @@
  * - **Configurable Behavior**: Retry and fallback can be enabled/disabled per request
  * - **Real-time UI Updates**: Callbacks for chunk-by-chunk response updates
  * - **Comprehensive Callbacks**: Events for errors, fallbacks, and provider changes
+ * - **Usage Reporting**: Returns the token counts from the stream's finish event
  * 
  * Integration Points:
  * -------------------
@@ -104,14 +105,28 @@ import { useCallback } from "react";
 // AI SDK for text generation and type definitions
 import { generateText, stepCountIs, streamText, type ModelMessage, type Tool } from "ai";
 // Provider type definitions for the fallback system
-import { isThinkingCapableModel, type ProviderId } from "@/types/provider.types";
+import type { ErrorCategory, ProviderId } from "@/types/provider.types";
 // Fallback chain utilities for provider switching and error classification
-import { getNextFallbackProvider, classifyError, type FallbackResult } from "@/providers/fallback-chain";
+import {
+    classifyError,
+    getNextFallbackProvider,
+    getRateLimitWaitLimitMs,
+    shouldFallbackOnError,
+    type ErrorClassification,
+    type FallbackResult,
+} from "@/providers/fallback-chain";
+// Shared circuit breaker that remembers which providers stopped answering
+import {
+    getProviderHealth,
+    isProviderCircuitOpen,
+    recordProviderFailure,
+    recordProviderSuccess,
+} from "@/providers/provider-health";
 // Error message formatting utilities for user-friendly error display
 import { formatErrorForChat, getErrorFixes, getProviderErrorHint } from "@/lib/error-messages";
 // Retry mechanism with exponential backoff for handling transient errors
 import { executeWithRetry, DEFAULT_RETRY_CONFIG, type RetryConfig } from "@/hooks/useErrorRecovery";
-import { getProviderAuth } from "@/stores";
+import { getModelCapabilities, getProviderAuth } from "@/stores";
 import { getStreamingProviderOptions } from "@/lib/chat-stream-provider-options";
 import {
     createErrorAnnotation,
@@ -121,7 +136,8 @@ import {
     hasOpenRouterVideoMessageContent,
     streamOpenRouterVideoMessages,
 } from "@/lib/openrouter-chat-transport";
-import type { ChatErrorAnnotation, ThinkingLevel } from "@/types/chat.types";
+import { readTokenUsage } from "@/lib/chat-usage-annotations";
+import type { ChatErrorAnnotation, ChatTokenUsage, ThinkingLevel } from "@/types/chat.types";
 
 /**
  * Configuration options for the streaming operation
@@ -153,10 +169,14 @@ export interface StreamingOptions {
     thinkingLevel?: ThinkingLevel;
     /** Optional system prompt for the generation */
     systemPrompt?: string;
+    /** Sampling temperature; left unset to use the provider default */
+    temperature?: number;
     /** Optional tool set exposed to the model */
     tools?: Record<string, Tool<any, any>>;
     /** Callback fired when an error occurs during streaming */
     onError?: (error: unknown) => void;
+    /** Callback fired before each automatic retry, with how long it will wait */
+    onRetryScheduled?: (delayMs: number, error: ErrorClassification) => void;
     /** Callback fired when falling back to another provider */
     onFallback?: (from: ProviderId, to: ProviderId, reason: string) => void;
     /** Callback fired when the provider changes (due to fallback or explicit change) */
@@ -183,6 +203,10 @@ export interface StreamingResult {
     nextProvider?: ProviderId;
     /** Model selected for the next fallback attempt, if any */
     nextModel?: string;
+    /** Why the active provider is being abandoned, when falling back */
+    fallbackCategory?: ErrorCategory;
+    /** Tokens the provider reported for the completed reply, when it reports any */
+    usage?: ChatTokenUsage;
 }
 
 const getErrorMessageText = (error: unknown): string => {
@@ -255,8 +279,8 @@ export function useChatStreaming() {
         // Classify the error to determine appropriate handling strategy
         const classification = classifyError(error);
 
-        // If fallback is enabled and the error type warrants fallback
-        if (enableFallback && classification.shouldFallback) {
+        // If fallback is enabled and the user's triggers include this error type
+        if (enableFallback && shouldFallbackOnError(error)) {
             // Find the next available provider that hasn't failed yet
             const nextProvider = getNextFallbackProvider(
                 activeProvider,
@@ -322,8 +346,10 @@ export function useChatStreaming() {
             onStreamCompleted,
             thinkingLevel,
             systemPrompt,
+            temperature,
             tools,
             onError,
+            onRetryScheduled,
             onFallback,
             onProviderChange,
             abortSignal,
@@ -373,9 +399,16 @@ export function useChatStreaming() {
         let shouldRetryWithFallback = false;
         let nextProvider: ProviderId | undefined;
         let nextModel: string | undefined;
-
-        // Merge default retry config with any custom overrides
-        const mergedRetryConfig: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+        let fallbackCategory: ErrorCategory | undefined;
+        let usage: ChatTokenUsage | null = null;
+
+        // Merge default retry config with any custom overrides; the user's
+        // rate-limit wait applies unless the caller set its own
+        const mergedRetryConfig: RetryConfig = {
+            maxRateLimitWaitMs: getRateLimitWaitLimitMs(),
+            ...DEFAULT_RETRY_CONFIG,
+            ...retryConfig,
+        };
 
         /**
          * Core streaming operation that handles the AI text generation
@@ -412,10 +445,10 @@ export function useChatStreaming() {
             };
 
             const canModelThink = currentModel.provider === "ollama"
-                || isThinkingCapableModel(
+                || getModelCapabilities(
                     currentModel.provider,
                     currentModel.modelId ?? "",
-                );
+                ).reasoning;
             const thinkingChunkHandler = canModelThink ? onThinkingChunk : undefined;
             const shouldRequestThinking = Boolean(thinkingChunkHandler);
             const effectiveThinkingLevel: ThinkingLevel = thinkingLevel ?? "medium";
@@ -442,6 +475,8 @@ export function useChatStreaming() {
                     apiKey,
                     modelId: currentModel.modelId,
                     messages,
+                    systemPrompt,
+                    temperature,
                     thinkingLevel: effectiveThinkingLevel,
                     shouldRequestThinking,
                     onChunkReceived,
@@ -471,6 +506,7 @@ export function useChatStreaming() {
                     model: currentModel.model!,
                     messages,
                     system: systemPrompt,
+                    temperature,
                     tools,
                     toolChoice,
                     providerOptions,
@@ -481,6 +517,8 @@ export function useChatStreaming() {
                     return;
                 }
 
+                usage = readTokenUsage(generated.totalUsage);
+
                 if (thinkingChunkHandler && generated.reasoningText) {
                     onChunkReceived?.();
                     reasoningAccumulated += generated.reasoningText;
@@ -510,6 +548,7 @@ export function useChatStreaming() {
                 model: currentModel.model!,
                 messages: messages,
                 system: systemPrompt,
+                temperature,
                 tools,
                 toolChoice,
                 stopWhen: tools ? stepCountIs(4) : undefined,
@@ -525,7 +564,15 @@ export function useChatStreaming() {
                             return;
                         }
 
+                        // streamText reports provider failures as a stream
+                        // part rather than throwing; rethrow so retry and
+                        // fallback see them
+                        if (part.type === "error") {
+                            throw part.error;
+                        }
+
                         if (part.type === "finish") {
+                            usage = readTokenUsage(part.totalUsage);
                             signalCompletion();
                             break;
                         }
@@ -615,14 +662,60 @@ export function useChatStreaming() {
             }
         };
 
+        // Another chat already found this provider unreachable: go straight to
+        // the next step of the chain instead of waiting out the same timeout.
+        // With nowhere to fall back to, the provider is still tried.
+        if (enableFallback && isProviderCircuitOpen(activeProvider)) {
+            const circuitError: ErrorClassification = {
+                category: getProviderHealth(activeProvider).lastFailureCategory ?? "network",
+                isRetryable: false,
+                shouldFallback: true,
+                message: "Provider is not responding - skipping it until it recovers",
+            };
+            const circuitFallback = getNextFallbackProvider(
+                activeProvider,
+                failedProvidersRef.current,
+                circuitError,
+            );
+
+            if (circuitFallback) {
+                if (!failedProvidersRef.current.includes(activeProvider)) {
+                    failedProvidersRef.current.push(activeProvider);
+                }
+                onProviderChange?.(circuitFallback.provider, circuitFallback.model, true);
+                onFallback?.(activeProvider, circuitFallback.provider, circuitError.message);
+
+                return {
+                    success: false,
+                    shouldRetryWithFallback: true,
+                    accumulated,
+                    wasCancelled: false,
+                    nextProvider: circuitFallback.provider,
+                    nextModel: circuitFallback.model,
+                    fallbackCategory: circuitError.category,
+                };
+            }
+        }
+
         try {
             // If retry is enabled, wrap the stream operation with retry logic
             if (enableRetry) {
                 const retryResult = await executeWithRetry(
                     streamOperation,
-                    mergedRetryConfig
+                    mergedRetryConfig,
+                    (_attemptNumber, delay, attemptError) => {
+                        // Every failed attempt counts towards the provider's circuit
+                        recordProviderFailure(activeProvider, attemptError.category, attemptError.message);
+                        if (canCommit()) {
+                            onRetryScheduled?.(delay, attemptError);
+                        }
+                    },
                 );
 
+                if (retryResult.success && !abortSignal?.aborted) {
+                    recordProviderSuccess(activeProvider);
+                }
+
                 // If retry failed but we have an error to handle
                 if (!retryResult.success && retryResult.error) {
                     if (!canCommit()) {
@@ -636,6 +729,8 @@ export function useChatStreaming() {
                         };
                     }
 
+                    recordProviderFailure(activeProvider, retryResult.error.category, retryResult.error.message);
+
                     // Log detailed error info for debugging
                     console.error("[useChatStreaming] Streaming error after retries:", {
                         provider: effectiveProviderId,
@@ -666,6 +761,7 @@ export function useChatStreaming() {
                         shouldRetryWithFallback = true;
                         nextProvider = errorResult.nextProvider;
                         nextModel = errorResult.nextModel;
+                        fallbackCategory = retryResult.error.category;
 
                         console.log("[useChatStreaming] Falling back to provider:", {
                             from: activeProvider,
@@ -698,6 +794,9 @@ export function useChatStreaming() {
             } else {
                 // No retry enabled, execute the stream operation directly
                 await streamOperation();
+                if (!abortSignal?.aborted) {
+                    recordProviderSuccess(activeProvider);
+                }
             }
         } catch (err) {
             // Log detailed error info for debugging
@@ -732,6 +831,8 @@ export function useChatStreaming() {
                 };
             }
 
+            recordProviderFailure(activeProvider, classification.category, classification.message);
+
             if (errorResult.shouldRetry && errorResult.nextProvider) {
                 // We have a fallback provider available
                 if (!failedProvidersRef.current.includes(activeProvider)) {
@@ -740,6 +841,7 @@ export function useChatStreaming() {
                 shouldRetryWithFallback = true;
                 nextProvider = errorResult.nextProvider;
                 nextModel = errorResult.nextModel;
+                fallbackCategory = classification.category;
                 
                 console.log("[useChatStreaming] Falling back to provider after error:", {
                     from: activeProvider,
@@ -777,6 +879,8 @@ export function useChatStreaming() {
             wasCancelled: options.abortSignal?.aborted ?? false,
             nextProvider,
             nextModel,
+            fallbackCategory,
+            usage: usage ?? undefined,
         };
     }, [handleStreamingError]);
 
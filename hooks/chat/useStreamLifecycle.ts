@@ -11,6 +11,7 @@
  * - Stream state tracking: idle → streaming → completing → completed | error
  * - Inactivity timeout: errors if no chunks arrive within window (default 30s)
  * - Max duration cap: hard safety limit for runaway streams (5 min)
+ * - Timeout pausing while the stream waits on the user (tool approvals)
  * - Completion grace: forces terminal state after done signal + grace period
  * - App state handling: background/foreground transitions
  * - Graceful cancellation with resource cleanup
@@ -61,6 +62,8 @@ export type StreamLifecycleEvent =
   | "cancelled"
   | "error"
   | "cleanup"
+  | "paused"
+  | "resumed"
   | "app-backgrounded"
   | "app-foregrounded";
 
@@ -125,6 +128,10 @@ export interface UseStreamLifecycleReturn {
   markError: (error: Error) => void;
   /** Cancel the current stream */
   cancelStream: () => void;
+  /** Stop the inactivity and max-duration timers until a matching resume */
+  pauseTimeouts: () => void;
+  /** Undo one pause; timers restart once no pauses remain */
+  resumeTimeouts: () => void;
   /** Get the current abort controller */
   abortController: AbortController | null;
   /** Clear the event log */
@@ -230,6 +237,7 @@ export function useStreamLifecycle(
   const isDoneSignalReceivedRef = useRef<boolean>(false);
   const isMountedRef = useRef<boolean>(true);
   const streamStateRef = useRef<StreamState>("idle");
+  const pauseCountRef = useRef<number>(0);
 
   // ===========================================================================
   // STATE TRANSITION HELPERS
@@ -426,6 +434,7 @@ export function useStreamLifecycle(
 
     clearTimeouts();
     isDoneSignalReceivedRef.current = false;
+    pauseCountRef.current = 0;
     lastChunkTimeRef.current = Date.now();
 
     const newAbortController = new AbortController();
@@ -458,8 +467,8 @@ export function useStreamLifecycle(
       timestamp: lastChunkTimeRef.current,
     });
 
-    // Reset timeout on each chunk
-    if (streamStateRef.current === "streaming") {
+    // Reset timeout on each chunk, unless something is still waiting on the user
+    if (streamStateRef.current === "streaming" && pauseCountRef.current === 0) {
       startTimeout();
     }
   }, [enableLogging, startTimeout]);
@@ -539,6 +548,44 @@ export function useStreamLifecycle(
     setAbortController(null);
   }, [abortController, clearTimeouts, enableLogging, transitionTo]);
 
+  /**
+   * Pause the inactivity and max-duration timers
+   * Pauses nest, so parallel waits keep the timers off until the last resumes
+   */
+  const pauseTimeouts = useCallback(() => {
+    pauseCountRef.current += 1;
+    if (pauseCountRef.current > 1) return;
+
+    logEvent(enableLogging, eventLogRef, "paused");
+
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    if (maxDurationTimeoutRef.current) {
+      clearTimeout(maxDurationTimeoutRef.current);
+      maxDurationTimeoutRef.current = null;
+    }
+  }, [enableLogging]);
+
+  /**
+   * Resume after a pause
+   * Both timers start over, so time spent waiting on the user is not counted
+   */
+  const resumeTimeouts = useCallback(() => {
+    if (pauseCountRef.current === 0) return;
+
+    pauseCountRef.current -= 1;
+    if (pauseCountRef.current > 0 || streamStateRef.current !== "streaming") {
+      return;
+    }
+
+    logEvent(enableLogging, eventLogRef, "resumed");
+    lastChunkTimeRef.current = Date.now();
+    startTimeout();
+    startMaxDurationTimeout();
+  }, [enableLogging, startMaxDurationTimeout, startTimeout]);
+
   /**
    * Clear the event log
    */
@@ -628,6 +675,8 @@ export function useStreamLifecycle(
     markCompleted,
     markError,
     cancelStream,
+    pauseTimeouts,
+    resumeTimeouts,
     abortController,
     clearEventLog,
   };
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { ToolApprovalRequest } from "@/lib/tool-call-recorder";
+import type {
+    ChatPendingToolApproval,
+    ToolApprovalDecision,
+} from "@/types/chat.types";
+
+interface UseToolApprovalsReturn {
+    pendingToolApprovals: ChatPendingToolApproval[];
+    /** Queues a call for the user; settles as denied if the stream is aborted first */
+    requestToolApproval: (
+        request: ToolApprovalRequest & { messageIndex: number },
+        abortSignal?: AbortSignal,
+    ) => Promise<ToolApprovalDecision>;
+    resolveToolApproval: (id: string, decision: ToolApprovalDecision) => void;
+    /** Denies everything still waiting, e.g. when the chat is left */
+    clearToolApprovals: () => void;
+}
+
+const DENIED: ToolApprovalDecision = { approved: false };
+
+/**
+ * Holds tool calls that are waiting on the user. Each request is a promise
+ * the tool's execute awaits, so the stream simply stays open until the
+ * inline card answers it.
+ */
+export function useToolApprovals(): UseToolApprovalsReturn {
+    const [pendingToolApprovals, setPendingToolApprovals] = useState<ChatPendingToolApproval[]>([]);
+    const settlersRef = useRef(new Map<string, (decision: ToolApprovalDecision) => void>());
+    const nextIdRef = useRef(0);
+
+    const requestToolApproval = useCallback((
+        request: ToolApprovalRequest & { messageIndex: number },
+        abortSignal?: AbortSignal,
+    ): Promise<ToolApprovalDecision> => {
+        if (abortSignal?.aborted) {
+            return Promise.resolve(DENIED);
+        }
+
+        nextIdRef.current += 1;
+        const id = `tool-approval-${nextIdRef.current}`;
+
+        return new Promise<ToolApprovalDecision>((resolve) => {
+            const handleAbort = () => settle(DENIED);
+            const settle = (decision: ToolApprovalDecision) => {
+                settlersRef.current.delete(id);
+                abortSignal?.removeEventListener("abort", handleAbort);
+                setPendingToolApprovals((prev) => prev.filter((approval) => approval.id !== id));
+                resolve(decision);
+            };
+
+            settlersRef.current.set(id, settle);
+            abortSignal?.addEventListener("abort", handleAbort);
+            setPendingToolApprovals((prev) => [...prev, { ...request, id }]);
+        });
+    }, []);
+
+    const resolveToolApproval = useCallback((id: string, decision: ToolApprovalDecision) => {
+        settlersRef.current.get(id)?.(decision);
+    }, []);
+
+    const clearToolApprovals = useCallback(() => {
+        for (const settle of [...settlersRef.current.values()]) {
+            settle(DENIED);
+        }
+    }, []);
+
+    useEffect(() => clearToolApprovals, [clearToolApprovals]);
+
+    return {
+        pendingToolApprovals,
+        requestToolApproval,
+        resolveToolApproval,
+        clearToolApprovals,
+    };
+}
@@ -6,6 +6,7 @@
  * 
  * Key Features:
  * - Exponential backoff with jitter to prevent thundering herd problems
+ * - Rate limits that report when they reset are waited out exactly
  * - Configurable retry policies by error category
  * - React state management for real-time retry feedback
  * - Countdown timers and abort capabilities
@@ -14,6 +15,7 @@
 
 import { useCallback, useRef, useState } from "react";
 import { classifyError, ErrorClassification, ErrorCategory } from "@/providers/fallback-chain";
+import { DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS, getRateLimitWaitMs } from "@/providers/rate-limit";
 import { createSequenceGuard } from "@/lib/concurrency";
 import type { RequestToken } from "@/types/concurrency.types";
 
@@ -38,6 +40,11 @@ export interface RetryConfig {
   backoffMultiplier: number;
   /** Array of error categories that are eligible for retry */
   retryableCategories: ErrorCategory[];
+  /**
+   * Longest reported rate-limit reset worth waiting for; a longer one ends the
+   * retries so the caller can fall back. Defaults to DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS.
+   */
+  maxRateLimitWaitMs?: number;
 }
 
 /**
@@ -119,6 +126,7 @@ export function selectCanRetry(retryState: RetryState, config: RetryConfig): boo
 export function selectRetryAfterMs(
   retryState: RetryState,
   config: RetryConfig,
+  now: number = Date.now(),
 ): number | null {
   if (
     retryState.isRetrying ||
@@ -128,7 +136,8 @@ export function selectRetryAfterMs(
     return null;
   }
 
-  return calculateBackoffDelay(retryState.attemptNumber, config);
+  return getRateLimitWaitMs(retryState.lastError.rateLimit, now)
+    ?? calculateBackoffDelay(retryState.attemptNumber, config);
 }
 
 /**
@@ -250,8 +259,24 @@ export async function executeWithRetry<T>(
         };
       }
       
+      // A provider that said when its limit resets is waited for exactly that
+      // long - unless that is longer than the caller will wait, in which case
+      // giving up now lets it fall back instead of stalling the user.
+      const rateLimitWaitMs = getRateLimitWaitMs(lastError.rateLimit);
+      if (
+        rateLimitWaitMs !== null &&
+        rateLimitWaitMs > (config.maxRateLimitWaitMs ?? DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS)
+      ) {
+        return {
+          success: false,
+          error: lastError,
+          attempts: attempt + 1,
+          shouldFallback: true,
+        };
+      }
+
       // Calculate delay and wait before retry
-      const delay = calculateBackoffDelay(attempt, config);
+      const delay = rateLimitWaitMs ?? calculateBackoffDelay(attempt, config);
       onRetry?.(attempt + 1, delay, lastError);
       await sleep(delay);
     }
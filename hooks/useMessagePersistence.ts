@@ -10,6 +10,9 @@
  * Features:
  * - Queue save operation to run only after stream reaches 'completed' state
  * - Atomic 'stream complete → save message' transaction
+ * - Row-level diffing so only changed message rows are written
+ * - Inactive branches (from edits) saved alongside the active path
+ * - Full-text search index updated in the same transaction as each save
  * - 3 retry attempts with exponential backoff on save failures
  * - User-friendly error display when save fails after retries
  * - Partial stream content preservation even if save fails
@@ -26,10 +29,23 @@ import { executeWithRetry, DEFAULT_RETRY_CONFIG } from "./useErrorRecovery";
 import { getHumanReadableError } from "@/lib/error-messages";
 import type { StreamState } from "./chat/useStreamLifecycle";
 import type { ProviderId } from "@/types/provider.types";
+import type { ChatBranchFork, ChatSettings } from "@/types/chat.types";
 import type { ErrorCategory } from "@/providers/fallback-chain";
 import { createIdempotencyKey, createIdempotencyRegistry } from "@/lib/concurrency";
 import { normalizeTitleForPersistence } from "@/lib/chat-title";
-import { chat } from "@/db/schema";
+import { DEFAULT_CHAT_SETTINGS } from "@/lib/chat-settings";
+import {
+  applyMessageRowWritePlan,
+  createSignaturesFromRows,
+  planMessageRowWrites,
+} from "@/lib/chat-message-rows";
+import {
+  applyMessageBranchWritePlan,
+  createBranchSignaturesFromRows,
+  planMessageBranchWrites,
+} from "@/lib/chat-branches";
+import { indexChatTitle } from "@/lib/chat-search";
+import { chat, message, messageBranch } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { isChatDeleteLocked, runChatOperation } from "@/lib/chat-persistence-coordinator";
 import {
@@ -76,12 +92,16 @@ export interface MessagePersistenceOptions {
   messages: ModelMessage[];
   /** Current thinking output to save */
   thinkingOutput: string[];
+  /** Inactive continuations at each fork point (default: none) */
+  branches?: ChatBranchFork[];
   /** Current AI provider */
   providerId: ProviderId;
   /** Current model ID */
   modelId: string;
   /** Current chat title */
   title: string;
+  /** Persona, system prompt and temperature stored on the chat row (default: none) */
+  settings?: ChatSettings;
   /** Callback when save completes successfully */
   onSaveComplete?: (chatId: number) => void;
   /** Callback when save fails after all retries */
@@ -129,6 +149,7 @@ const SAVE_RETRY_CONFIG = {
 
 const LONG_RUNNING_STREAM_CHECKPOINT_INITIAL_DELAY_MS = 15000;
 const LONG_RUNNING_STREAM_CHECKPOINT_INTERVAL_MS = 10000;
+const NO_BRANCHES: ChatBranchFork[] = [];
 
 function hasMeaningfulAssistantContent(messages: ModelMessage[]): boolean {
   const lastAssistantMessage = [...messages]
@@ -175,27 +196,44 @@ interface SaveSnapshot {
   queueScope: string;
   messages: ModelMessage[];
   thinkingOutput: string[];
+  branches: ChatBranchFork[];
   title: string | null;
   providerId: ProviderId;
   modelId: string;
+  settings: ChatSettings;
 }
 
 interface SnapshotSource {
   chatScope: string;
   messages: ModelMessage[];
   thinkingOutput: string[];
+  branches: ChatBranchFork[];
   title: string;
   providerId: ProviderId;
   modelId: string;
+  settings: ChatSettings;
+}
+
+/**
+ * Signatures of the message rows last written for a chat, used to diff the
+ * next save so only changed rows are rewritten.
+ */
+interface PersistedRowsState {
+  chatId: number;
+  signatures: string[];
+  branchSignatures: Record<number, string>;
+  metadataKey: string;
 }
 
 interface LatestPersistenceState {
   chatScope: string;
   messages: ModelMessage[];
   thinkingOutput: string[];
+  branches: ChatBranchFork[];
   title: string;
   providerId: ProviderId;
   modelId: string;
+  settings: ChatSettings;
   streamState: StreamState;
   enabled: boolean;
 }
@@ -223,9 +261,11 @@ export function useMessagePersistence(
     chatIdParam,
     messages,
     thinkingOutput,
+    branches = NO_BRANCHES,
     providerId,
     modelId,
     title,
+    settings = DEFAULT_CHAT_SETTINGS,
     onSaveComplete,
     onSaveError,
     enabled = true,
@@ -249,6 +289,7 @@ export function useMessagePersistence(
   const hasCompletedStreamRef = useRef(false);
   const lastPersistedSnapshotKeyRef = useRef<string | null>(null);
   const activeChatIdRef = useRef<number | null>(null);
+  const persistedRowsRef = useRef<PersistedRowsState | null>(null);
   const activeChatScopeRef = useRef(chatIdParam);
   const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
   const saveRegistryRef = useRef(createIdempotencyRegistry<void>());
@@ -256,9 +297,11 @@ export function useMessagePersistence(
     chatScope: chatIdParam,
     messages,
     thinkingOutput,
+    branches,
     title,
     providerId,
     modelId,
+    settings,
     streamState,
     enabled,
   });
@@ -280,6 +323,8 @@ export function useMessagePersistence(
     const titleForPersistence = normalizeTitleForPersistence(source.title);
     const thinkingJson = JSON.stringify(source.thinkingOutput);
     const messagesJson = JSON.stringify(source.messages);
+    const branchesJson = JSON.stringify(source.branches);
+    const settingsJson = JSON.stringify(source.settings);
     const chatIdentity = activeChatIdRef.current ?? chatIdParam;
     const queueScope = activeChatIdRef.current !== null
       ? String(activeChatIdRef.current)
@@ -293,14 +338,18 @@ export function useMessagePersistence(
         source.modelId,
         messagesJson,
         thinkingJson,
+        branchesJson,
+        settingsJson,
       ]),
       chatScope: source.chatScope,
       queueScope,
       messages: source.messages,
       thinkingOutput: source.thinkingOutput,
+      branches: source.branches,
       title: titleForPersistence,
       providerId: source.providerId,
       modelId: source.modelId,
+      settings: source.settings,
     };
   }, [chatIdParam]);
 
@@ -309,11 +358,13 @@ export function useMessagePersistence(
       chatScope: chatIdParam,
       messages,
       thinkingOutput,
+      branches,
       title,
       providerId,
       modelId,
+      settings,
     });
-  }, [chatIdParam, createSnapshotFromSource, messages, modelId, providerId, thinkingOutput, title]);
+  }, [branches, chatIdParam, createSnapshotFromSource, messages, modelId, providerId, settings, thinkingOutput, title]);
 
   const createSnapshotFromLatest = useCallback((): SaveSnapshot => {
     const latestState = latestPersistenceStateRef.current;
@@ -321,46 +372,83 @@ export function useMessagePersistence(
       chatScope: latestState.chatScope,
       messages: latestState.messages,
       thinkingOutput: latestState.thinkingOutput,
+      branches: latestState.branches,
       title: latestState.title,
       providerId: latestState.providerId,
       modelId: latestState.modelId,
+      settings: latestState.settings,
     });
   }, [createSnapshotFromSource]);
 
   const executeSave = useCallback(async (snapshot: SaveSnapshot): Promise<SaveResult> => {
     const now = new Date();
     const resolvedChatId = activeChatIdRef.current ?? (chatIdParam === "new" ? null : Number(chatIdParam));
+    const author = { providerId: snapshot.providerId, modelId: snapshot.modelId };
+    const metadataKey = JSON.stringify([
+      snapshot.title,
+      snapshot.providerId,
+      snapshot.modelId,
+      snapshot.settings,
+    ]);
 
     // Determine if this is a new chat or an update
     const isNewChat = resolvedChatId === null || Number.isNaN(resolvedChatId);
 
     if (isNewChat) {
-      // Insert new chat
-      const result = await db
-        .insert(chat)
-        .values({
-          messages: snapshot.messages,
-          thinkingOutput: snapshot.thinkingOutput,
-          title: snapshot.title,
-          providerId: snapshot.providerId,
-          modelId: snapshot.modelId,
-          providerMetadata: {},
-          createdAt: now,
-          updatedAt: now,
-        })
-        .run();
-
-      const insertedChatId = Number(result.lastInsertRowId);
-
-      if (!Number.isFinite(insertedChatId) || insertedChatId <= 0) {
-        throw new Error("Failed to insert new chat - invalid insert ID");
-      }
+      // Insert the chat row and every message row together
+      const inserted = await db.transaction((tx) => {
+        const result = tx
+          .insert(chat)
+          .values({
+            messages: [],
+            thinkingOutput: [],
+            title: snapshot.title,
+            providerId: snapshot.providerId,
+            modelId: snapshot.modelId,
+            ...snapshot.settings,
+            providerMetadata: {},
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+
+        const insertedChatId = Number(result.lastInsertRowId);
+
+        if (!Number.isFinite(insertedChatId) || insertedChatId <= 0) {
+          throw new Error("Failed to insert new chat - invalid insert ID");
+        }
+
+        const plan = planMessageRowWrites(
+          [],
+          insertedChatId,
+          snapshot.messages,
+          snapshot.thinkingOutput,
+          author,
+          now,
+        );
+        applyMessageRowWritePlan(tx, insertedChatId, plan);
+        const branchPlan = planMessageBranchWrites({}, insertedChatId, snapshot.branches, now);
+        applyMessageBranchWritePlan(tx, insertedChatId, branchPlan);
+        indexChatTitle(tx, insertedChatId, snapshot.title);
+
+        return {
+          chatId: insertedChatId,
+          signatures: plan.signatures,
+          branchSignatures: branchPlan.signatures,
+        };
+      });
 
-      activeChatIdRef.current = insertedChatId;
+      activeChatIdRef.current = inserted.chatId;
+      persistedRowsRef.current = {
+        chatId: inserted.chatId,
+        signatures: inserted.signatures,
+        branchSignatures: inserted.branchSignatures,
+        metadataKey,
+      };
 
       return {
         success: true,
-        chatId: insertedChatId,
+        chatId: inserted.chatId,
         attempts: 1,
       };
     } else {
@@ -380,17 +468,81 @@ export function useMessagePersistence(
         };
       }
 
-      await db
-        .update(chat)
-        .set({
-          messages: snapshot.messages,
-          thinkingOutput: snapshot.thinkingOutput,
-          title: snapshot.title,
-          providerId: snapshot.providerId,
-          modelId: snapshot.modelId,
-          updatedAt: now,
-        })
-        .where(eq(chat.id, chatId));
+      const baseline = persistedRowsRef.current?.chatId === chatId
+        ? persistedRowsRef.current
+        : null;
+
+      const persisted = await db.transaction((tx) => {
+        // First save after opening a chat: diff against what is on disk.
+        const previousSignatures = baseline?.signatures ?? createSignaturesFromRows(
+          tx
+            .select({
+              ordinal: message.ordinal,
+              role: message.role,
+              content: message.content,
+              reasoning: message.reasoning,
+              annotations: message.annotations,
+            })
+            .from(message)
+            .where(eq(message.chatId, chatId))
+            .all(),
+        );
+
+        const plan = planMessageRowWrites(
+          previousSignatures,
+          chatId,
+          snapshot.messages,
+          snapshot.thinkingOutput,
+          author,
+          now,
+        );
+        applyMessageRowWritePlan(tx, chatId, plan);
+
+        const previousBranchSignatures = baseline?.branchSignatures ?? createBranchSignaturesFromRows(
+          tx
+            .select({
+              ordinal: messageBranch.ordinal,
+              activeIndex: messageBranch.activeIndex,
+              variants: messageBranch.variants,
+            })
+            .from(messageBranch)
+            .where(eq(messageBranch.chatId, chatId))
+            .all(),
+        );
+        const branchPlan = planMessageBranchWrites(
+          previousBranchSignatures,
+          chatId,
+          snapshot.branches,
+          now,
+        );
+        applyMessageBranchWritePlan(tx, chatId, branchPlan);
+
+        const didChangeRows = plan.upserts.length > 0
+          || plan.deleteFromOrdinal !== null
+          || branchPlan.upserts.length > 0
+          || branchPlan.deleteOrdinals.length > 0;
+        if (didChangeRows || baseline?.metadataKey !== metadataKey) {
+          tx
+            .update(chat)
+            .set({
+              title: snapshot.title,
+              providerId: snapshot.providerId,
+              modelId: snapshot.modelId,
+              ...snapshot.settings,
+              updatedAt: now,
+            })
+            .where(eq(chat.id, chatId))
+            .run();
+          indexChatTitle(tx, chatId, snapshot.title);
+        }
+
+        return {
+          signatures: plan.signatures,
+          branchSignatures: branchPlan.signatures,
+        };
+      });
+
+      persistedRowsRef.current = { chatId, ...persisted, metadataKey };
 
       return {
         success: true,
@@ -530,13 +682,15 @@ export function useMessagePersistence(
       chatScope: chatIdParam,
       messages,
       thinkingOutput,
+      branches,
       title,
       providerId,
       modelId,
+      settings,
       streamState,
       enabled,
     };
-  }, [chatIdParam, enabled, messages, modelId, providerId, streamState, thinkingOutput, title]);
+  }, [branches, chatIdParam, enabled, messages, modelId, providerId, settings, streamState, thinkingOutput, title]);
 
   /**
    * Trigger a manual save
@@ -674,12 +828,13 @@ export function useMessagePersistence(
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [messages, thinkingOutput, title, providerId, modelId, streamState, enabled, createSnapshot, runSerializedSave]);
+  }, [messages, thinkingOutput, branches, title, providerId, modelId, settings, streamState, enabled, createSnapshot, runSerializedSave]);
 
   useEffect(() => {
     activeChatScopeRef.current = chatIdParam;
     hasCompletedStreamRef.current = false;
     lastPersistedSnapshotKeyRef.current = null;
+    persistedRowsRef.current = null;
     writeQueueRef.current = Promise.resolve();
     saveRegistryRef.current.clear();
     pendingSaveRef.current = null;
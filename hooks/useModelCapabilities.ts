@@ -0,0 +1,21 @@
+/**
+ * @file useModelCapabilities.ts
+ * @purpose Subscribes to the capability data of one model so chat controls can
+ * switch features on or off before a request is sent.
+ */
+
+import { useMemo } from "react";
+
+import { resolveModelCapabilities } from "@/lib/model-capabilities";
+import { useProviderStore } from "@/stores";
+import type { ModelCapabilities, ProviderId } from "@/types/provider.types";
+
+export function useModelCapabilities(providerId: ProviderId, modelId: string): ModelCapabilities {
+  const catalog = useProviderStore((state) => state.catalogCapabilities?.[providerId]?.[modelId]);
+  const override = useProviderStore((state) => state.capabilityOverrides?.[providerId]?.[modelId]);
+
+  return useMemo(
+    () => resolveModelCapabilities(providerId, modelId, { catalog, override }),
+    [providerId, modelId, catalog, override],
+  );
+}
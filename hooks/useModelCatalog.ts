@@ -0,0 +1,72 @@
+/**
+ * @file useModelCatalog.ts
+ * @purpose Keeps a provider's live model catalog fresh through the app query client
+ * and mirrors each successful fetch into the provider store.
+ */
+
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchModelCatalog, MODEL_CATALOG_TTL_MS, type ModelCatalogSnapshot } from "@/lib/model-catalog";
+import { modelCatalogQueryKeys } from "@/lib/query-client";
+import { useProviderStore } from "@/stores";
+import type { ModelCatalogProviderId } from "@/types/provider.types";
+
+export interface ModelCatalogStatus {
+  /** Epoch milliseconds of the last successful fetch, or null before the first one */
+  fetchedAt: number | null;
+  addedModels: string[];
+  removedModels: string[];
+  isRefreshing: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+const NO_MODELS: string[] = [];
+
+export function useModelCatalog(
+  providerId: ModelCatalogProviderId,
+  apiKey: string | null,
+): ModelCatalogStatus {
+  const { availableModels, modelCatalogs, applyModelCatalog } = useProviderStore();
+  const catalog = modelCatalogs?.[providerId];
+
+  // Seeding from the persisted catalog keeps the TTL across restarts and cache eviction.
+  const catalogQuery = useQuery<ModelCatalogSnapshot>({
+    queryKey: modelCatalogQueryKeys.provider(providerId),
+    enabled: Boolean(apiKey),
+    staleTime: MODEL_CATALOG_TTL_MS,
+    initialData: catalog
+      ? { models: availableModels[providerId] ?? NO_MODELS, fetchedAt: catalog.fetchedAt }
+      : undefined,
+    initialDataUpdatedAt: catalog?.fetchedAt,
+    queryFn: async () => {
+      const snapshot = await fetchModelCatalog(providerId, apiKey as string);
+      applyModelCatalog(
+        providerId,
+        snapshot.models,
+        snapshot.fetchedAt,
+        snapshot.capabilities,
+        snapshot.pricing,
+      );
+      return snapshot;
+    },
+  });
+
+  const { refetch } = catalogQuery;
+  const refresh = useCallback(() => {
+    // refetch() ignores `enabled`, so guard against fetching without a key.
+    if (apiKey) {
+      void refetch();
+    }
+  }, [apiKey, refetch]);
+
+  return {
+    fetchedAt: catalog?.fetchedAt ?? null,
+    addedModels: catalog?.addedModels ?? NO_MODELS,
+    removedModels: catalog?.removedModels ?? NO_MODELS,
+    isRefreshing: catalogQuery.isFetching,
+    error: catalogQuery.error instanceof Error ? catalogQuery.error.message : null,
+    refresh,
+  };
+}
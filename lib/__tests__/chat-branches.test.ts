@@ -0,0 +1,156 @@
+import type { ModelMessage } from "ai";
+
+import {
+  appendTurnWithAlternatives,
+  createBranchSignaturesFromRows,
+  forkConversation,
+  forksFromRows,
+  getBranchPosition,
+  planMessageBranchWrites,
+  switchConversationBranch,
+  type ChatBranchState,
+} from "@/lib/chat-branches";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+const conversation: ModelMessage[] = [
+  { role: "user", content: "first" },
+  { role: "assistant", content: "first reply" },
+  { role: "user", content: "second" },
+  { role: "assistant", content: "second reply" },
+];
+
+const initialState: ChatBranchState = {
+  messages: conversation,
+  thinkingOutput: ["", "thought one", "", "thought two"],
+  forks: [],
+};
+
+describe("chat-branches", () => {
+  it("keeps the original continuation as a sibling when forking", () => {
+    const forked = forkConversation(initialState, 2);
+
+    expect(forked.messages).toEqual(conversation.slice(0, 2));
+    expect(forked.thinkingOutput).toEqual(["", "thought one"]);
+    expect(forked.forks).toEqual([
+      {
+        ordinal: 2,
+        activeIndex: 1,
+        variants: [
+          {
+            messages: conversation.slice(2),
+            thinkingOutput: ["", "thought two"],
+            forks: [],
+          },
+          null,
+        ],
+      },
+    ]);
+  });
+
+  it("adds another variant when the same message is edited again", () => {
+    const first = forkConversation(initialState, 2);
+    const edited = {
+      ...first,
+      messages: [...first.messages, { role: "user", content: "second, edited" } as ModelMessage],
+      thinkingOutput: [...first.thinkingOutput, ""],
+    };
+
+    const second = forkConversation(edited, 2);
+
+    expect(getBranchPosition(second.forks, 2)).toEqual({ index: 2, count: 3 });
+    expect(second.forks[0].variants[1]?.messages).toEqual([{ role: "user", content: "second, edited" }]);
+  });
+
+  it("switches between variants and restores nested forks", () => {
+    const outer = forkConversation(initialState, 0);
+    const rewritten: ChatBranchState = {
+      ...outer,
+      messages: [
+        { role: "user", content: "rewritten" },
+        { role: "assistant", content: "rewritten reply" },
+      ],
+      thinkingOutput: ["", ""],
+    };
+    const nested = forkConversation(rewritten, 1);
+    const withNestedReply: ChatBranchState = {
+      ...nested,
+      messages: [...nested.messages, { role: "assistant", content: "another reply" }],
+      thinkingOutput: [...nested.thinkingOutput, ""],
+    };
+
+    const original = switchConversationBranch(withNestedReply, 0, 0);
+
+    expect(original.messages).toEqual(conversation);
+    expect(original.thinkingOutput).toEqual(initialState.thinkingOutput);
+    expect(original.forks.map((fork) => fork.ordinal)).toEqual([0]);
+
+    const back = switchConversationBranch(original, 0, 1);
+
+    expect(back.messages).toEqual(withNestedReply.messages);
+    expect(back.forks.map((fork) => fork.ordinal)).toEqual([0, 1]);
+    expect(getBranchPosition(back.forks, 1)).toEqual({ index: 1, count: 2 });
+  });
+
+  it("drops an empty continuation instead of keeping a blank page", () => {
+    const forked = forkConversation(initialState, 2);
+
+    const switched = switchConversationBranch(forked, 2, 0);
+
+    expect(switched.messages).toEqual(conversation);
+    expect(switched.forks).toEqual([]);
+  });
+
+  it("ignores switches to unknown forks or the variant already shown", () => {
+    const forked = forkConversation(initialState, 2);
+
+    expect(switchConversationBranch(forked, 3, 0)).toBe(forked);
+    expect(switchConversationBranch(forked, 2, 1)).toBe(forked);
+  });
+
+  it("appends a compared turn and keeps the other replies as siblings", () => {
+    const prompt: ModelMessage = { role: "user", content: "third" };
+    const next = appendTurnWithAlternatives(
+      initialState,
+      prompt,
+      { message: { role: "assistant", content: "picked" }, thinkingOutput: "why" },
+      [{ message: { role: "assistant", content: "other" }, thinkingOutput: "" }],
+    );
+
+    expect(next.messages.slice(4)).toEqual([prompt, { role: "assistant", content: "picked" }]);
+    expect(next.thinkingOutput.slice(4)).toEqual(["", "why"]);
+    expect(getBranchPosition(next.forks, 5)).toEqual({ index: 1, count: 2 });
+
+    const switched = switchConversationBranch(next, 5, 0);
+    expect(switched.messages[5]).toEqual({ role: "assistant", content: "other" });
+  });
+
+  it("plans upserts for changed forks and deletes for removed ones", () => {
+    const forked = forkConversation(initialState, 2);
+    const stored = createBranchSignaturesFromRows([
+      { ordinal: 2, activeIndex: 0, variants: [null, { messages: [], thinkingOutput: [], forks: [] }] },
+      { ordinal: 5, activeIndex: 1, variants: [{ messages: [], thinkingOutput: [], forks: [] }, null] },
+    ]);
+
+    const plan = planMessageBranchWrites(stored, 9, forked.forks, now);
+
+    expect(plan.upserts).toEqual([
+      expect.objectContaining({ chatId: 9, ordinal: 2, activeIndex: 1 }),
+    ]);
+    expect(plan.deleteOrdinals).toEqual([5]);
+
+    const unchanged = planMessageBranchWrites(plan.signatures, 9, forked.forks, now);
+    expect(unchanged.upserts).toEqual([]);
+    expect(unchanged.deleteOrdinals).toEqual([]);
+  });
+
+  it("skips malformed branch rows when rebuilding forks", () => {
+    const forks = forksFromRows([
+      { ordinal: 4, activeIndex: 0, variants: [null, { messages: [], thinkingOutput: [], forks: [] }] },
+      { ordinal: 1, activeIndex: 3, variants: [null, null] },
+      { ordinal: 2, activeIndex: 0, variants: "broken" as never },
+    ]);
+
+    expect(forks.map((fork) => fork.ordinal)).toEqual([4]);
+  });
+});
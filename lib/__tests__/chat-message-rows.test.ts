@@ -0,0 +1,129 @@
+import type { ModelMessage } from "ai";
+
+import {
+  createSignaturesFromRows,
+  messagesFromRows,
+  planMessageRowWrites,
+} from "@/lib/chat-message-rows";
+
+const author = { providerId: "openai" as const, modelId: "gpt-4o" };
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+describe("chat-message-rows", () => {
+  it("plans every row for a chat with no stored history", () => {
+    const messages: ModelMessage[] = [
+      { role: "user", content: "hello" },
+      { role: "assistant", content: "hi" },
+    ];
+
+    const plan = planMessageRowWrites([], 5, messages, ["", "thought"], author, now);
+
+    expect(plan.upserts).toEqual([
+      expect.objectContaining({ chatId: 5, ordinal: 0, role: "user", providerId: null, reasoning: null }),
+      expect.objectContaining({ chatId: 5, ordinal: 1, role: "assistant", providerId: "openai", reasoning: "thought" }),
+    ]);
+    expect(plan.deleteFromOrdinal).toBeNull();
+    expect(plan.signatures).toHaveLength(2);
+  });
+
+  it("skips rows whose stored signature is unchanged", () => {
+    const stored = createSignaturesFromRows([
+      { ordinal: 0, role: "user", content: "hello", reasoning: null, annotations: null },
+      { ordinal: 1, role: "assistant", content: "partial", reasoning: null, annotations: null },
+    ]);
+    const messages: ModelMessage[] = [
+      { role: "user", content: "hello" },
+      { role: "assistant", content: "partial and finished" },
+    ];
+
+    const plan = planMessageRowWrites(stored, 5, messages, [], author, now);
+
+    expect(plan.upserts.map((row) => row.ordinal)).toEqual([1]);
+  });
+
+  it("treats annotation changes as row changes", () => {
+    const messages: ModelMessage[] = [{ role: "assistant", content: "oops" }];
+    const first = planMessageRowWrites([], 5, messages, [], author, now);
+    const annotated = [{
+      ...messages[0],
+      annotations: [{ type: "error", category: "network", message: "Lost connection" }],
+    }] as unknown as ModelMessage[];
+
+    const plan = planMessageRowWrites(first.signatures, 5, annotated, [], author, now);
+
+    expect(plan.upserts).toHaveLength(1);
+  });
+
+  it("records the provider and model a regenerated reply was tagged with", () => {
+    const messages = [
+      { role: "user", content: "hello" },
+      {
+        role: "assistant",
+        content: "hi from ollama",
+        annotations: [{ type: "model", provider: "ollama", modelId: "llama3.2" }],
+      },
+    ] as unknown as ModelMessage[];
+
+    const plan = planMessageRowWrites([], 5, messages, [], author, now);
+
+    expect(plan.upserts[1]).toEqual(
+      expect.objectContaining({ providerId: "ollama", modelId: "llama3.2" }),
+    );
+  });
+
+  it("credits the provider that answered and leaves usage to the ledger", () => {
+    const messages = [
+      { role: "user", content: "hello" },
+      {
+        role: "assistant",
+        content: "hi from the fallback",
+        annotations: [{
+          type: "usage",
+          provider: "anthropic",
+          modelId: "claude-haiku-4-5",
+          inputTokens: 1200,
+          outputTokens: 300,
+          reasoningTokens: 100,
+          cachedInputTokens: 800,
+          cost: 0.0042,
+        }],
+      },
+    ] as unknown as ModelMessage[];
+
+    const plan = planMessageRowWrites([], 5, messages, [], author, now);
+
+    expect(plan.upserts[1]).toEqual(expect.objectContaining({
+      providerId: "anthropic",
+      modelId: "claude-haiku-4-5",
+    }));
+    plan.upserts.forEach((row) => {
+      expect(row).not.toHaveProperty("inputTokens");
+      expect(row).not.toHaveProperty("cost");
+    });
+  });
+
+  it("marks trailing rows for deletion when the conversation shrinks", () => {
+    const stored = createSignaturesFromRows([
+      { ordinal: 0, role: "user", content: "hello", reasoning: null, annotations: null },
+      { ordinal: 1, role: "assistant", content: "hi", reasoning: null, annotations: null },
+    ]);
+
+    const plan = planMessageRowWrites(stored, 5, [{ role: "user", content: "hello" }], [], author, now);
+
+    expect(plan.upserts).toEqual([]);
+    expect(plan.deleteFromOrdinal).toBe(1);
+  });
+
+  it("rebuilds ordered messages and aligned thinking output from rows", () => {
+    const restored = messagesFromRows([
+      { ordinal: 1, role: "assistant", content: "hi", reasoning: "because", annotations: null },
+      { ordinal: 0, role: "user", content: "hello", reasoning: null, annotations: null },
+    ]);
+
+    expect(restored.messages).toEqual([
+      { role: "user", content: "hello" },
+      { role: "assistant", content: "hi" },
+    ]);
+    expect(restored.thinkingOutput).toEqual(["", "because"]);
+  });
+});
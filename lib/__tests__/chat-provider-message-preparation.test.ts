@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { ModelMessage } from "ai";
+import * as FileSystem from "expo-file-system/legacy";
+import { zlibSync } from "fflate";
+
+import {
+  needsProviderMessagePreparation,
+  prepareMessagesForProvider,
+} from "@/lib/chat-provider-message-preparation";
+
+jest.mock("expo-file-system/legacy", () => ({
+  readAsStringAsync: jest.fn(),
+  EncodingType: { Base64: "base64" },
+}));
+
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString("base64");
+
+const createPdf = (content: string): Uint8Array => {
+  const stream = zlibSync(new TextEncoder().encode(content));
+  const head = "%PDF-1.4\n1 0 obj << /Type /Pages /Count 1 /Kids [2 0 R] >> endobj\n"
+    + `2 0 obj << /Type /Page /Contents 3 0 R >> endobj\n3 0 obj << /Length ${stream.length} /Filter /FlateDecode >> stream\n`;
+  const tail = "\nendstream endobj\n%%EOF";
+  return new Uint8Array([...new TextEncoder().encode(head), ...stream, ...new TextEncoder().encode(tail)]);
+};
+
+const mockedReadAsStringAsync = FileSystem.readAsStringAsync as jest.MockedFunction<
+  typeof FileSystem.readAsStringAsync
+>;
+
+describe("prepareMessagesForProvider", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("inlines video and PDF file parts from local URIs", async () => {
+    mockedReadAsStringAsync.mockImplementation(async (uri: string) => `base64:${uri}`);
+
+    const messages: ModelMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Summarise these" },
+          { type: "file", data: "file:///clip.mp4", mediaType: "video/mp4" },
+          { type: "file", data: "file:///paper.pdf", mediaType: "application/pdf" },
+        ],
+      },
+    ];
+
+    expect(needsProviderMessagePreparation(messages)).toBe(true);
+
+    const prepared = await prepareMessagesForProvider(messages, new Map(), { nativePdf: true });
+
+    expect(prepared[0].content).toEqual([
+      { type: "text", text: "Summarise these" },
+      { type: "file", data: "base64:file:///clip.mp4", mediaType: "video/mp4" },
+      { type: "file", data: "base64:file:///paper.pdf", mediaType: "application/pdf" },
+    ]);
+    expect(mockedReadAsStringAsync).toHaveBeenCalledWith("file:///clip.mp4", { encoding: "base64" });
+  });
+
+  it("strips data URI prefixes and reuses cached reads", async () => {
+    const cache = new Map([["file:///photo.jpg", "cached-photo"]]);
+    const messages: ModelMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "image", image: "file:///photo.jpg", mediaType: "image/jpeg" },
+          { type: "file", data: "data:application/pdf;base64,JVBERi0=", mediaType: "application/pdf" },
+        ],
+      },
+    ];
+
+    const prepared = await prepareMessagesForProvider(messages, cache, { nativePdf: true });
+
+    expect(prepared[0].content).toEqual([
+      { type: "image", image: "cached-photo", mediaType: "image/jpeg" },
+      { type: "file", data: "JVBERi0=", mediaType: "application/pdf" },
+    ]);
+    expect(mockedReadAsStringAsync).not.toHaveBeenCalled();
+  });
+
+  it("sends text documents as text parts", async () => {
+    mockedReadAsStringAsync.mockResolvedValue("day,high\nmon,4.2");
+    const cache = new Map<string, string>();
+    const messages: ModelMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "file", data: "file:///tides.csv", mediaType: "text/csv", filename: "tides.csv" },
+          {
+            type: "file",
+            data: `data:application/json;base64,${toBase64(new TextEncoder().encode('{"ok":true}'))}`,
+            mediaType: "application/json",
+            filename: "state.json",
+          },
+        ],
+      },
+    ];
+
+    const prepared = await prepareMessagesForProvider(messages, cache);
+    await prepareMessagesForProvider(messages, cache);
+
+    expect(prepared[0].content).toEqual([
+      { type: "text", text: '<document name="tides.csv">\nday,high\nmon,4.2\n</document>' },
+      { type: "text", text: '<document name="state.json">\n{"ok":true}\n</document>' },
+    ]);
+    expect(mockedReadAsStringAsync).toHaveBeenCalledTimes(1);
+    expect(mockedReadAsStringAsync).toHaveBeenCalledWith("file:///tides.csv");
+  });
+
+  it("extracts PDF text for providers without PDF input", async () => {
+    mockedReadAsStringAsync.mockResolvedValue(toBase64(createPdf("BT (Spring tides) Tj ET")));
+    const messages: ModelMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "file", data: "file:///tides.pdf", mediaType: "application/pdf", filename: "tides.pdf" },
+        ],
+      },
+    ];
+
+    const prepared = await prepareMessagesForProvider(messages, new Map());
+
+    expect(prepared[0].content).toEqual([
+      {
+        type: "text",
+        text: '<document name="tides.pdf">\n[PDF, 1 page, text extracted on the device]\nSpring tides\n</document>',
+      },
+    ]);
+    expect(mockedReadAsStringAsync).toHaveBeenCalledWith("file:///tides.pdf", { encoding: "base64" });
+  });
+});
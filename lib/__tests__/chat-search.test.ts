@@ -0,0 +1,63 @@
+import {
+  buildChatSearchQuery,
+  getSearchableMessageText,
+  getSearchableSourceText,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  splitHighlightedSnippet,
+} from "@/lib/chat-search";
+import type { ChatMessageAnnotation } from "@/types/chat.types";
+
+describe("chat-search", () => {
+  it("builds a prefix query that matches every term", () => {
+    expect(buildChatSearchQuery("  zig   http server ")).toBe('"zig"* "http"* "server"*');
+  });
+
+  it("strips quotes so user input cannot inject FTS syntax", () => {
+    expect(buildChatSearchQuery('say "hello" OR')).toBe('"say"* "hello"* "OR"*');
+    expect(buildChatSearchQuery('  ""  ')).toBeNull();
+  });
+
+  it("splits highlighted snippets into styled segments", () => {
+    const snippet = `use ${SEARCH_HIGHLIGHT_START}zig${SEARCH_HIGHLIGHT_END} for ${SEARCH_HIGHLIGHT_START}servers${SEARCH_HIGHLIGHT_END}`;
+
+    expect(splitHighlightedSnippet(snippet)).toEqual([
+      { text: "use ", highlighted: false },
+      { text: "zig", highlighted: true },
+      { text: " for ", highlighted: false },
+      { text: "servers", highlighted: true },
+    ]);
+  });
+
+  it("extracts text from multipart message content", () => {
+    expect(getSearchableMessageText([
+      { type: "text", text: "look at " },
+      { type: "image", image: "file:///photo.jpg" },
+      { type: "text", text: "this" },
+    ])).toBe("look at this");
+  });
+
+  it("collects web-search source titles, urls and snippets", () => {
+    const annotations: ChatMessageAnnotation[] = [
+      {
+        type: "web-search",
+        status: "success",
+        totalSources: 1,
+        queries: [
+          {
+            query: "zig",
+            provider: "openai",
+            status: "success",
+            resultCount: 1,
+            startedAt: 0,
+            sources: [{ title: "Zig docs", url: "https://ziglang.org", snippet: "allocators" }],
+          },
+        ],
+      },
+      { type: "error", error: "boom", fixes: [], source: "streaming" },
+    ];
+
+    expect(getSearchableSourceText(annotations)).toBe("Zig docs https://ziglang.org allocators");
+    expect(getSearchableSourceText(null)).toBe("");
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  chatSettingsFromRow,
+  formatTemperatureInput,
+  normalizeContextStrategy,
+  normalizeBlockedDomains,
+  normalizeContextSummary,
+  normalizeDisabledTools,
+  normalizeDocumentCollections,
+  normalizeFallbackPolicy,
+  parseBlockedDomainsInput,
+  parseTemperatureInput,
+} from "@/lib/chat-settings";
+
+describe("chat-settings", () => {
+  it("treats a blank temperature field as the model default", () => {
+    expect(parseTemperatureInput("   ")).toEqual({ temperature: null, error: null });
+  });
+
+  it("accepts a comma as the decimal separator", () => {
+    expect(parseTemperatureInput("0,7")).toEqual({ temperature: 0.7, error: null });
+  });
+
+  it("rejects values outside the supported range", () => {
+    expect(parseTemperatureInput("2.5")).toEqual({
+      temperature: null,
+      error: "Temperature must be a number between 0 and 2.",
+    });
+    expect(parseTemperatureInput("warm").error).not.toBeNull();
+  });
+
+  it("round-trips temperatures through the text field", () => {
+    expect(formatTemperatureInput(null)).toBe("");
+    expect(parseTemperatureInput(formatTemperatureInput(1.2)).temperature).toBe(1.2);
+  });
+
+  it("normalizes stored chat rows", () => {
+    expect(chatSettingsFromRow({ personaId: 4, systemPrompt: "   ", temperature: 9, fallbackPolicy: "never" })).toEqual({
+      personaId: 4,
+      systemPrompt: null,
+      temperature: 2,
+      contextStrategy: "drop-oldest",
+      contextSummary: null,
+      fallbackPolicy: "never",
+      disabledTools: [],
+      blockedDomains: [],
+      documentCollections: [],
+    });
+    expect(chatSettingsFromRow({})).toEqual({
+      personaId: null,
+      systemPrompt: null,
+      temperature: null,
+      contextStrategy: "drop-oldest",
+      contextSummary: null,
+      fallbackPolicy: "allow",
+      disabledTools: [],
+      blockedDomains: [],
+      documentCollections: [],
+    });
+  });
+
+  it("falls back to dropping old turns for unknown context strategies", () => {
+    expect(normalizeContextStrategy("summarize")).toBe("summarize");
+    expect(normalizeContextStrategy("truncate-middle")).toBe("drop-oldest");
+    expect(normalizeContextStrategy(null)).toBe("drop-oldest");
+  });
+
+  it("allows fallback unless a chat opted out", () => {
+    expect(normalizeFallbackPolicy("never")).toBe("never");
+    expect(normalizeFallbackPolicy("sometimes")).toBe("allow");
+    expect(normalizeFallbackPolicy(undefined)).toBe("allow");
+  });
+
+  it("keeps only well-formed tool keys, once each", () => {
+    expect(normalizeDisabledTools(["docs/search", "docs/search", "broken", "/x", "y/", 4, "git/log"]))
+      .toEqual(["docs/search", "git/log"]);
+    expect(normalizeDisabledTools(null)).toEqual([]);
+  });
+
+  it("reads blocked domains as bare hostnames, once each", () => {
+    expect(parseBlockedDomainsInput("https://www.Example.com/news?id=1, *.tracker.io\nexample.org:8080\n\ntracker.io"))
+      .toEqual(["www.example.com", "tracker.io", "example.org"]);
+    expect(normalizeBlockedDomains(["bad_domain!", 7, "example.org"])).toEqual(["example.org"]);
+  });
+
+  it("keeps positive collection ids, once each", () => {
+    expect(normalizeDocumentCollections([3, 3, 0, -1, 2.5, "4", 7])).toEqual([3, 7]);
+    expect(normalizeDocumentCollections(undefined)).toEqual([]);
+  });
+
+  it("discards malformed context summaries", () => {
+    const summary = { text: "They chose Lisbon.", coveredCount: 4, signature: "4:abc" };
+
+    expect(normalizeContextSummary(summary)).toEqual(summary);
+    expect(normalizeContextSummary({ ...summary, text: "  " })).toBeNull();
+    expect(normalizeContextSummary({ ...summary, coveredCount: 0 })).toBeNull();
+    expect(normalizeContextSummary("summary")).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  collectCitationSources,
+  findCitationNumbers,
+  findUnmatchedCitations,
+  linkifyCitations,
+  parseCitationLink,
+} from '../citations';
+import type { ChatWebSearchAnnotation } from '@/types/chat.types';
+
+const annotation: ChatWebSearchAnnotation = {
+  type: 'web-search',
+  status: 'success',
+  totalSources: 3,
+  queries: [
+    {
+      query: 'tides',
+      provider: 'openai',
+      status: 'success',
+      resultCount: 2,
+      startedAt: 1,
+      sources: [
+        { title: 'Tables', url: 'https://tides.example.com', citationNumber: 1 },
+        { title: 'Harbour', url: 'https://harbour.example.com', citationNumber: 2 },
+      ],
+    },
+    {
+      kind: 'read',
+      query: 'https://tides.example.com',
+      provider: 'openai',
+      status: 'success',
+      resultCount: 1,
+      startedAt: 2,
+      sources: [{ title: 'Tables (full page)', url: 'https://tides.example.com', citationNumber: 1 }],
+    },
+  ],
+};
+
+describe('citations', () => {
+  it('collects numbered sources, keeping the first source for each number', () => {
+    const sources = collectCitationSources(annotation);
+
+    expect([...sources.keys()]).toEqual([1, 2]);
+    expect(sources.get(1)?.title).toBe('Tables');
+    expect(collectCitationSources(null).size).toBe(0);
+  });
+
+  it('finds citation markers in prose only', () => {
+    const markdown = [
+      'Tides turn twice a day [1][2], mostly [2, 3].',
+      'Index with `items[4]` or items[5] in code.',
+      '```',
+      'const first = list[6];',
+      '```',
+      'A [7](https://example.com) link and a definition:',
+      '[8]: https://example.com',
+    ].join('\n');
+
+    expect(findCitationNumbers(markdown)).toEqual([1, 2, 3]);
+    expect(findUnmatchedCitations(markdown, collectCitationSources(annotation))).toEqual([3]);
+  });
+
+  it('rewrites citations as chip links and marks unmatched ones', () => {
+    const sources = collectCitationSources(annotation);
+
+    expect(linkifyCitations('Spring tides [1, 9]. Keep `a[1]`.', sources)).toBe(
+      'Spring tides [`1`](seabreeze-citation:1) [`9?`](seabreeze-citation:9). Keep `a[1]`.',
+    );
+    expect(linkifyCitations('No citations here.', sources)).toBe('No citations here.');
+  });
+
+  it('leaves an unfinished code fence alone while a reply streams', () => {
+    expect(linkifyCitations('Before [1]\n```\nx[1]', new Map())).toBe(
+      'Before [`1?`](seabreeze-citation:1)\n```\nx[1]',
+    );
+  });
+
+  it('reads the number back from a chip link', () => {
+    expect(parseCitationLink('seabreeze-citation:12')).toBe(12);
+    expect(parseCitationLink('https://example.com/1')).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import type { ModelMessage } from "ai";
+
+import { withPinAnnotation } from "@/lib/chat-pin-annotations";
+import {
+  estimateMessageTokens,
+  isContextSummaryCurrent,
+  planContextWindow,
+  signContextMessages,
+} from "@/lib/context-budget";
+
+/** Roughly `tokens` tokens of text at four characters per token */
+const text = (tokens: number): string => "x".repeat(tokens * 4);
+
+const turn = (tokens: number): ModelMessage[] => [
+  { role: "user", content: text(tokens) },
+  { role: "assistant", content: text(tokens) },
+];
+
+describe("context budget", () => {
+  it("estimates text, attachments and per-message overhead", () => {
+    expect(estimateMessageTokens({ role: "user", content: "abcdefgh" })).toBe(6);
+    expect(estimateMessageTokens({
+      role: "user",
+      content: [
+        { type: "text", text: "abcd" },
+        { type: "image", image: "file:///photo.jpg", mediaType: "image/jpeg" },
+        { type: "file", data: "file:///clip.mp4", mediaType: "video/mp4" },
+      ],
+    })).toBe(4 + 1 + 1_000 + 15_000);
+  });
+
+  it("sends everything when the model's context size is unknown", () => {
+    const messages = [...turn(50_000), ...turn(10)];
+    const plan = planContextWindow({ messages, strategy: "drop-oldest" });
+
+    expect(plan.messages).toEqual(messages);
+    expect(plan.omittedCount).toBe(0);
+    expect(plan.contextTokens).toBeNull();
+  });
+
+  it("drops the oldest turns first and always keeps the latest one", () => {
+    const messages = [...turn(1_000), ...turn(1_000), { role: "user", content: text(500) } as ModelMessage];
+    const plan = planContextWindow({ messages, strategy: "drop-oldest", contextTokens: 4_096 });
+
+    expect(plan.messages).toEqual(messages.slice(2));
+    expect(plan.omittedCount).toBe(2);
+    expect(plan.summarizeRange).toBeNull();
+    expect(plan.usedTokens).toBeLessThanOrEqual(4_096 - 1_024);
+
+    const oversized = planContextWindow({
+      messages: [{ role: "user", content: text(10_000) }],
+      strategy: "drop-oldest",
+      contextTokens: 4_096,
+    });
+    expect(oversized.messages).toHaveLength(1);
+  });
+
+  it("counts the system prompt and tools against the budget", () => {
+    const messages = [...turn(600), { role: "user", content: "hi" } as ModelMessage];
+
+    expect(planContextWindow({ messages, strategy: "drop-oldest", contextTokens: 4_096 }).omittedCount).toBe(0);
+    expect(planContextWindow({
+      messages,
+      strategy: "drop-oldest",
+      contextTokens: 4_096,
+      systemPrompt: text(2_000),
+      toolCount: 1,
+    }).omittedCount).toBe(2);
+  });
+
+  it("keeps turns that hold a pinned message under keep-pinned", () => {
+    const [firstUser, firstReply] = turn(1_000);
+    const messages = [
+      firstUser,
+      withPinAnnotation(firstReply, true),
+      ...turn(1_000),
+      { role: "user", content: text(200) } as ModelMessage,
+    ];
+
+    const pinned = planContextWindow({ messages, strategy: "keep-pinned", contextTokens: 4_096 });
+    expect(pinned.messages).toEqual([messages[0], messages[1], messages[4]]);
+
+    const unpinned = planContextWindow({ messages, strategy: "drop-oldest", contextTokens: 4_096 });
+    expect(unpinned.messages).toEqual(messages.slice(2));
+  });
+
+  it("asks for the trimmed turns to be summarized and reuses a current summary", () => {
+    const messages = [...turn(800), ...turn(800), ...turn(800), { role: "user", content: "next" } as ModelMessage];
+    const plan = planContextWindow({ messages, strategy: "summarize", contextTokens: 4_096 });
+
+    expect(plan.summary).toBeNull();
+    expect(plan.summarizeRange).toEqual({ start: 0, end: 4 });
+    expect(plan.messages).toEqual(messages.slice(4));
+
+    const summary = {
+      text: "They planned a trip.",
+      coveredCount: 4,
+      signature: signContextMessages(messages.slice(0, 4)),
+    };
+    const withSummary = planContextWindow({ messages, strategy: "summarize", contextTokens: 4_096, summary });
+
+    expect(withSummary.summary).toBe(summary);
+    expect(withSummary.summarizeRange).toBeNull();
+    expect(withSummary.messages).toEqual(messages.slice(4));
+  });
+
+  it("ignores a summary once the messages it covers were edited", () => {
+    const messages = [...turn(10), ...turn(10)];
+    const summary = {
+      text: "Earlier turns.",
+      coveredCount: 2,
+      signature: signContextMessages(messages.slice(0, 2)),
+    };
+
+    expect(isContextSummaryCurrent(summary, messages)).toBe(true);
+    expect(isContextSummaryCurrent(summary, [{ role: "user", content: "edited" }, ...messages.slice(1)])).toBe(false);
+    expect(isContextSummaryCurrent(summary, messages.slice(0, 2))).toBe(false);
+  });
+});
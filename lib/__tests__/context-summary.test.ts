@@ -0,0 +1,97 @@
+import type { LanguageModel, ModelMessage } from "ai";
+
+import { isContextSummaryCurrent } from "@/lib/context-budget";
+import {
+  buildSummaryPrompt,
+  getSummaryModelSelection,
+  summarizeContext,
+} from "@/lib/context-summary";
+
+jest.mock("ai", () => ({
+  generateText: jest.fn(),
+}));
+
+const { generateText } = jest.requireMock("ai") as { generateText: jest.Mock };
+
+const model = { modelId: "summary-model" } as unknown as LanguageModel;
+
+const messages: ModelMessage[] = [
+  { role: "user", content: "Plan a weekend in Lisbon for two." },
+  { role: "assistant", content: "Day one: Alfama and the castle." },
+  { role: "user", content: "Keep it under 400 euros." },
+  { role: "assistant", content: "Swap the river cruise for a tram ride." },
+  { role: "user", content: "What about Sunday?" },
+];
+
+describe("context summary", () => {
+  beforeEach(() => {
+    generateText.mockReset();
+  });
+
+  it("uses a small model on the same provider and the chat model elsewhere", () => {
+    expect(getSummaryModelSelection("anthropic", "claude-opus-4-1")).toEqual({
+      providerId: "anthropic",
+      modelId: "claude-haiku-4-5",
+    });
+    expect(getSummaryModelSelection("ollama", "llama3.2")).toEqual({
+      providerId: "ollama",
+      modelId: "llama3.2",
+    });
+  });
+
+  it("folds only the newly trimmed messages into the previous summary", async () => {
+    generateText.mockResolvedValue({ text: "  Lisbon weekend, budget 400 euros.  " });
+    const previous = {
+      text: "They asked for a Lisbon weekend.",
+      coveredCount: 2,
+      signature: "stale",
+    };
+
+    const summary = await summarizeContext({ model, messages, coveredCount: 4, previous });
+
+    const prompt = generateText.mock.calls[0][0].prompt as string;
+    expect(prompt).toContain("They asked for a Lisbon weekend.");
+    expect(prompt).toContain("User: Keep it under 400 euros.");
+    expect(prompt).not.toContain("Alfama");
+    expect(summary.text).toBe("Lisbon weekend, budget 400 euros.");
+    expect(summary.coveredCount).toBe(4);
+    expect(isContextSummaryCurrent(summary, messages)).toBe(true);
+  });
+
+  it("rejects an empty summary", async () => {
+    generateText.mockResolvedValue({ text: "   " });
+
+    await expect(summarizeContext({ model, messages, coveredCount: 2, previous: null }))
+      .rejects.toThrow("empty summary");
+  });
+
+  it("reports what the summary call used, even when it comes back empty", async () => {
+    generateText.mockResolvedValue({ text: "   ", usage: { inputTokens: 900, outputTokens: 40 } });
+    const onUsage = jest.fn();
+
+    await expect(summarizeContext({ model, messages, coveredCount: 2, previous: null, onUsage }))
+      .rejects.toThrow("empty summary");
+    expect(onUsage).toHaveBeenCalledWith({
+      inputTokens: 900,
+      outputTokens: 40,
+      reasoningTokens: 0,
+      cachedInputTokens: 0,
+    });
+  });
+
+  it("notes attachments and shortens long messages in the transcript", () => {
+    const prompt = buildSummaryPrompt(null, [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "y".repeat(3_000) },
+          { type: "image", image: "file:///photo.jpg", mediaType: "image/jpeg" },
+        ],
+      },
+    ]);
+
+    expect(prompt).toContain("User: [1 attachment]");
+    expect(prompt).toContain(`${"y".repeat(2_000)}…`);
+    expect(prompt).not.toContain("y".repeat(2_001));
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  createCustomProviderId,
+  customEndpointFromDraft,
+  draftFromCustomEndpoint,
+  EMPTY_CUSTOM_ENDPOINT_DRAFT,
+  normalizeCustomEndpointUrl,
+  parseHeaderLines,
+  validateCustomEndpointDraft,
+} from "@/lib/custom-endpoints";
+
+describe("custom endpoints", () => {
+  it("adds /v1 to bare hosts and drops trailing slashes", () => {
+    expect(normalizeCustomEndpointUrl(" http://10.0.0.5:1234 ")).toBe("http://10.0.0.5:1234/v1");
+    expect(normalizeCustomEndpointUrl("http://10.0.0.5:1234/v1/")).toBe("http://10.0.0.5:1234/v1");
+    expect(normalizeCustomEndpointUrl("https://gpu.lan/llama/api")).toBe("https://gpu.lan/llama/api");
+    expect(normalizeCustomEndpointUrl("")).toBe("");
+  });
+
+  it("parses one header per line and reports malformed lines", () => {
+    expect(parseHeaderLines("X-Team: ml\n\n  CF-Access-Client-Id : abc:def  ")).toEqual({
+      headers: { "X-Team": "ml", "CF-Access-Client-Id": "abc:def" },
+      error: null,
+    });
+    expect(parseHeaderLines("X-Team ml").error).toBe('"X-Team ml" is not a valid header. Use "Name: value".');
+    expect(parseHeaderLines("Bad Name: value").error).not.toBeNull();
+  });
+
+  it("validates the name, URL and headers", () => {
+    const draft = { ...EMPTY_CUSTOM_ENDPOINT_DRAFT, name: "LM Studio", baseUrl: "http://10.0.0.2:1234" };
+
+    expect(validateCustomEndpointDraft(EMPTY_CUSTOM_ENDPOINT_DRAFT)).toBe("Give the endpoint a name.");
+    expect(validateCustomEndpointDraft({ ...draft, baseUrl: "10.0.0.2:1234" }))
+      .toBe("Enter a base URL starting with http:// or https://.");
+    expect(validateCustomEndpointDraft({ ...draft, headersText: "nope" })).not.toBeNull();
+    expect(validateCustomEndpointDraft(draft)).toBeNull();
+  });
+
+  it("derives unique ids from the endpoint name", () => {
+    expect(createCustomProviderId("LM Studio (desk)", [])).toBe("custom:lm-studio-desk");
+    expect(createCustomProviderId("vLLM", ["custom:vllm", "custom:vllm-2"])).toBe("custom:vllm-3");
+    expect(createCustomProviderId("???", [])).toBe("custom:endpoint");
+  });
+
+  it("round-trips an endpoint through the draft form", () => {
+    const endpoint = customEndpointFromDraft({
+      name: " Lab vLLM ",
+      baseUrl: "http://10.0.0.5:8000/",
+      apiKey: "  ",
+      headersText: "X-Team: ml",
+    }, "custom:lab-vllm");
+
+    expect(endpoint).toEqual({
+      id: "custom:lab-vllm",
+      name: "Lab vLLM",
+      baseUrl: "http://10.0.0.5:8000/v1",
+      apiKey: null,
+      headers: { "X-Team": "ml" },
+    });
+    expect(draftFromCustomEndpoint(endpoint)).toEqual({
+      name: "Lab vLLM",
+      baseUrl: "http://10.0.0.5:8000/v1",
+      apiKey: "",
+      headersText: "X-Team: ml",
+    });
+  });
+});
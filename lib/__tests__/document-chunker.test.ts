@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { chunkDocumentText } from '../document-chunker';
+
+const sentence = (index: number) => `Sentence ${index} talks about the tide tables for the harbour.`;
+
+describe('document-chunker', () => {
+  it('keeps short text in one passage', () => {
+    expect(chunkDocumentText('First paragraph.\r\n\r\nSecond   paragraph.')).toEqual([
+      'First paragraph.\n\nSecond paragraph.',
+    ]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkDocumentText('  \n\n \t ')).toEqual([]);
+  });
+
+  it('splits long text into passages no longer than the chunk size', () => {
+    const text = Array.from({ length: 60 }, (_, index) => sentence(index)).join(' ');
+    const chunks = chunkDocumentText(text, { chunkSize: 300, overlap: 60 });
+
+    expect(chunks.length).toBeGreaterThan(5);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(300));
+    expect(chunks[0].startsWith('Sentence 0 ')).toBe(true);
+    expect(chunks.at(-1)?.endsWith(`${sentence(59)}`)).toBe(true);
+  });
+
+  it('repeats the end of a passage at the start of the next, from a word boundary', () => {
+    const text = Array.from({ length: 20 }, (_, index) => sentence(index)).join(' ');
+    const [first, second] = chunkDocumentText(text, { chunkSize: 200, overlap: 40 });
+
+    const repeated = second.split('\n\n')[0];
+    expect(first.endsWith(repeated)).toBe(true);
+    expect(repeated.length).toBeLessThanOrEqual(40);
+    expect(first[first.length - repeated.length - 1]).toBe(' ');
+  });
+
+  it('cuts a single word longer than the chunk size', () => {
+    const chunks = chunkDocumentText('x'.repeat(250), { chunkSize: 100, overlap: 0 });
+
+    expect(chunks.every((chunk) => chunk.length <= 100)).toBe(true);
+    expect(chunks.join('')).toBe('x'.repeat(250));
+  });
+});
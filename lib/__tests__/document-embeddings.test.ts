@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { cosineSimilarity, formatEmbeddingKey, getEmbeddingKey } from '../document-embeddings';
+
+describe('document-embeddings', () => {
+  it('scores identical directions as 1 and opposite ones as -1', () => {
+    const a = Float32Array.from([1, 2, 3]);
+
+    expect(cosineSimilarity(a, Float32Array.from([2, 4, 6]))).toBeCloseTo(1);
+    expect(cosineSimilarity(a, Float32Array.from([-1, -2, -3]))).toBeCloseTo(-1);
+    expect(cosineSimilarity(Float32Array.from([1, 0]), Float32Array.from([0, 1]))).toBeCloseTo(0);
+  });
+
+  it('scores vectors from different models or with no magnitude as 0', () => {
+    expect(cosineSimilarity(Float32Array.from([1, 2]), Float32Array.from([1, 2, 3]))).toBe(0);
+    expect(cosineSimilarity(Float32Array.from([0, 0]), Float32Array.from([1, 2]))).toBe(0);
+  });
+
+  it('keys embedders by provider and trimmed model name', () => {
+    const key = getEmbeddingKey({ providerId: 'ollama', modelId: ' nomic-embed-text ' });
+
+    expect(key).toBe('ollama:nomic-embed-text');
+    expect(formatEmbeddingKey(key)).toBe('Ollama · nomic-embed-text');
+    expect(formatEmbeddingKey('custom:model')).toBe('custom:model');
+  });
+});
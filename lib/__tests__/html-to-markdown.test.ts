@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { decodeHtmlEntities, extractReadableContent } from '../html-to-markdown';
+
+const articleBody = 'The tide tables are published a year ahead, and every harbour keeps its own copy. '.repeat(4);
+
+describe('html-to-markdown', () => {
+  it('keeps the article and drops page chrome', () => {
+    const html = `
+      <html>
+        <head>
+          <title>Tides | Harbour News</title>
+          <meta property="og:title" content="Reading the tides">
+          <meta name="author" content="Ana Costa">
+          <script>window.track = true;</script>
+          <style>p { color: red; }</style>
+        </head>
+        <body>
+          <nav><a href="/">Home</a><a href="/about">About</a></nav>
+          <article>
+            <h1>Reading the tides</h1>
+            <p>${articleBody}</p>
+            <p>See the <a href="/tables?year=2026">full tables</a> &amp; <strong>plan ahead</strong>.</p>
+            <ul><li>Spring tides</li><li>Neap tides</li></ul>
+            <pre><code>high  06:12
+low   12:30</code></pre>
+          </article>
+          <footer>© Harbour News</footer>
+        </body>
+      </html>`;
+
+    const result = extractReadableContent(html, 'https://news.example.com/tides/today');
+
+    expect(result.title).toBe('Reading the tides');
+    expect(result.byline).toBe('Ana Costa');
+    expect(result.markdown).toContain('# Reading the tides');
+    expect(result.markdown).toContain(
+      'See the [full tables](https://news.example.com/tables?year=2026) & **plan ahead**.',
+    );
+    expect(result.markdown).toContain('- Spring tides\n- Neap tides');
+    expect(result.markdown).toContain('```\nhigh  06:12\nlow   12:30\n```');
+    expect(result.markdown).not.toMatch(/Home|About|window\.track|color: red|© Harbour News/);
+  });
+
+  it('falls back to the body and the title tag for plain pages', () => {
+    const html = '<html><head><title>Notes &#8211; tides</title></head><body><div>Short note.<br>Second line.</div></body></html>';
+
+    expect(extractReadableContent(html, 'https://example.com')).toEqual({
+      title: 'Notes – tides',
+      byline: null,
+      markdown: 'Short note.\nSecond line.',
+    });
+  });
+
+  it('ignores author metadata that is only a profile link', () => {
+    const html = '<meta property="article:author" content="https://example.com/ana"><p>Text</p>';
+
+    expect(extractReadableContent(html, 'https://example.com').byline).toBeNull();
+  });
+
+  it('decodes named and numeric entities once', () => {
+    expect(decodeHtmlEntities('&lt;b&gt; &amp;amp; &#x27;quoted&#39; &bogus;')).toBe('<b> &amp; \'quoted\' &bogus;');
+  });
+});
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { fetch as expoFetch } from 'expo/fetch';
+
+import { createMcpClient, mapMcpErrorToMessage, McpClientError } from '../mcp-client';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const mockExpoFetch = expoFetch as unknown as jest.MockedFunction<(url: string, init: RequestInit) => Promise<Response>>;
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) => new Response(JSON.stringify(body), {
+  status: 200,
+  headers: { 'content-type': 'application/json', ...headers },
+});
+
+const sseResponse = (messages: unknown[]) => new Response(
+  messages.map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`).join(''),
+  { status: 200, headers: { 'content-type': 'text/event-stream' } },
+);
+
+const accepted = () => new Response(null, { status: 202 });
+
+const getSentBody = (callIndex: number) => JSON.parse(mockExpoFetch.mock.calls[callIndex][1].body as string);
+const getSentHeaders = (callIndex: number) => mockExpoFetch.mock.calls[callIndex][1].headers as Record<string, string>;
+
+/** Answers initialize with a session, then the initialized notification */
+const mockHandshake = () => {
+  mockExpoFetch
+    .mockResolvedValueOnce(jsonResponse(
+      { jsonrpc: '2.0', id: 1, result: { protocolVersion: '2025-03-26', capabilities: { tools: {} } } },
+      { 'mcp-session-id': 'session-1' },
+    ))
+    .mockResolvedValueOnce(accepted());
+};
+
+describe('mcp-client', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('initializes a session and lists tools across pages', async () => {
+    mockHandshake();
+    mockExpoFetch
+      .mockResolvedValueOnce(jsonResponse({
+        jsonrpc: '2.0',
+        id: 2,
+        result: {
+          tools: [{ name: 'search_docs', description: 'Search the docs', inputSchema: { type: 'object' } }],
+          nextCursor: 'page-2',
+        },
+      }))
+      .mockResolvedValueOnce(sseResponse([
+        { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } },
+        { jsonrpc: '2.0', id: 3, result: { tools: [{ name: 'read_page' }] } },
+      ]));
+
+    const client = createMcpClient({ url: 'https://tools.example.com/mcp', token: 'secret' });
+    const tools = await client.listTools();
+
+    expect(tools).toEqual([
+      { name: 'search_docs', description: 'Search the docs', inputSchema: { type: 'object' } },
+      { name: 'read_page', description: null, inputSchema: { type: 'object', properties: {} } },
+    ]);
+    expect(getSentBody(0)).toMatchObject({ method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+    expect(getSentHeaders(0)).toMatchObject({
+      Accept: 'application/json, text/event-stream',
+      Authorization: 'Bearer secret',
+    });
+    expect(getSentBody(1)).toEqual({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    expect(getSentBody(3)).toMatchObject({ method: 'tools/list', params: { cursor: 'page-2' } });
+    expect(getSentHeaders(3)).toMatchObject({
+      'Mcp-Session-Id': 'session-1',
+      'MCP-Protocol-Version': '2025-03-26',
+    });
+  });
+
+  it('calls a tool and flattens its content to text', async () => {
+    mockHandshake();
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      jsonrpc: '2.0',
+      id: 2,
+      result: {
+        content: [
+          { type: 'text', text: 'First result' },
+          { type: 'image', data: 'AAAA', mimeType: 'image/png' },
+        ],
+      },
+    }));
+
+    const client = createMcpClient({ url: 'https://tools.example.com/mcp' });
+    const result = await client.callTool('search_docs', { query: 'tides' });
+
+    expect(result).toEqual({ text: 'First result\n\n[image omitted]', isError: false });
+    expect(getSentBody(2)).toMatchObject({
+      method: 'tools/call',
+      params: { name: 'search_docs', arguments: { query: 'tides' } },
+    });
+    expect(getSentHeaders(2).Authorization).toBeUndefined();
+  });
+
+  it('sets the session up again when the server has forgotten it', async () => {
+    mockHandshake();
+    mockExpoFetch.mockResolvedValueOnce(new Response('Session not found', { status: 404 }));
+    mockExpoFetch
+      .mockResolvedValueOnce(jsonResponse(
+        { jsonrpc: '2.0', id: 3, result: { protocolVersion: '2025-06-18' } },
+        { 'mcp-session-id': 'session-2' },
+      ))
+      .mockResolvedValueOnce(accepted())
+      .mockResolvedValueOnce(jsonResponse({ jsonrpc: '2.0', id: 4, result: { content: [{ type: 'text', text: 'ok' }] } }));
+
+    const client = createMcpClient({ url: 'https://tools.example.com/mcp' });
+    const result = await client.callTool('ping', {});
+
+    expect(result.text).toBe('ok');
+    expect(getSentBody(3).method).toBe('initialize');
+    expect(getSentHeaders(5)['Mcp-Session-Id']).toBe('session-2');
+  });
+
+  it('reports rejected tokens and JSON-RPC errors', async () => {
+    mockExpoFetch.mockResolvedValueOnce(new Response('', { status: 401 }));
+    const unauthorized = createMcpClient({ url: 'https://tools.example.com/mcp', token: 'wrong' });
+
+    const error = await unauthorized.listTools().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(McpClientError);
+    expect(mapMcpErrorToMessage(error)).toBe('The MCP server rejected the token. Check it in Settings.');
+
+    mockHandshake();
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      jsonrpc: '2.0',
+      id: 2,
+      error: { code: -32602, message: 'Unknown tool: missing' },
+    }));
+    const client = createMcpClient({ url: 'https://tools.example.com/mcp' });
+
+    await expect(client.callTool('missing', {})).rejects.toMatchObject({
+      code: 'rpc',
+      message: 'The MCP server reported an error: Unknown tool: missing',
+    });
+  });
+
+  it('rejects URLs that are not http or https', () => {
+    expect(() => createMcpClient({ url: 'ftp://tools.example.com' })).toThrow('MCP server URLs must use http or https.');
+  });
+});
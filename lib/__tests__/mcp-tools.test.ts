@@ -0,0 +1,91 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { stepCountIs, streamText } from 'ai';
+
+import { createMcpToolNames, createMcpToolRuntime } from '../mcp-tools';
+import { getEnabledMcpTools } from '../mcp-servers';
+import { McpClientError, type McpClient } from '../mcp-client';
+import { createMockModel } from '@/providers/mock-provider';
+import type { McpServer } from '@/types/mcp.types';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const docsServer: McpServer = {
+  id: 'docs',
+  name: 'Docs',
+  url: 'https://docs.example.com/mcp',
+  token: null,
+  enabled: true,
+  tools: [
+    { name: 'search_docs', description: 'Search the docs', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } },
+    { name: 'read.page', description: null, inputSchema: { type: 'object', properties: {} } },
+  ],
+};
+
+const createFakeClient = (callTool: McpClient['callTool']): McpClient => ({
+  listTools: jest.fn(async () => []),
+  callTool,
+});
+
+describe('mcp-tools', () => {
+  it('offers the tools of enabled servers that the chat has not switched off', () => {
+    const servers = [docsServer, { ...docsServer, id: 'off', enabled: false }];
+
+    expect(getEnabledMcpTools(servers, ['docs/read.page']).map((entry) => entry.key)).toEqual(['docs/search_docs']);
+    expect(createMcpToolRuntime({ servers, disabledTools: ['docs/search_docs', 'docs/read.page'] }).enabled).toBe(false);
+  });
+
+  it('gives every tool a unique provider-safe name', () => {
+    const names = createMcpToolNames([
+      ...getEnabledMcpTools([docsServer], []),
+      ...getEnabledMcpTools([{ ...docsServer, id: 'docs', name: 'Docs mirror' }], []),
+    ]);
+
+    expect([...names.keys()]).toEqual(['docs_search_docs', 'docs_read_page', 'docs_search_docs_2', 'docs_read_page_2']);
+  });
+
+  it('runs a tool the model calls with its own name and arguments', async () => {
+    const callTool = jest.fn<McpClient['callTool']>(async () => ({ text: 'Tides follow the moon.', isError: false }));
+    const runtime = createMcpToolRuntime({
+      servers: [docsServer],
+      disabledTools: [],
+      createClient: () => createFakeClient(callTool),
+    });
+
+    const result = streamText({
+      model: createMockModel({
+        turns: [
+          [{ type: 'tool-call', toolName: 'docs_search_docs', input: { query: 'tides' } }],
+          [{ type: 'text', text: 'The docs say the moon.' }],
+        ],
+      }),
+      prompt: 'Why are there tides?',
+      tools: runtime.createTools(),
+      stopWhen: stepCountIs(2),
+    });
+
+    expect(await result.text).toBe('The docs say the moon.');
+    expect(callTool).toHaveBeenCalledWith('search_docs', { query: 'tides' }, undefined);
+    expect(runtime.toolSources.docs_search_docs).toEqual({
+      key: 'docs/search_docs',
+      toolName: 'search_docs',
+      source: 'Docs',
+    });
+  });
+
+  it('throws server failures and tool errors with a readable message', async () => {
+    const runtime = createMcpToolRuntime({
+      servers: [docsServer],
+      disabledTools: [],
+      createClient: () => createFakeClient(jest.fn<McpClient['callTool']>()
+        .mockRejectedValueOnce(new McpClientError('The MCP server timed out.', 'timeout'))
+        .mockResolvedValueOnce({ text: 'Page not found', isError: true })),
+    });
+    const tools = runtime.createTools()!;
+    const execute = () => tools.docs_read_page.execute!({}, { toolCallId: 'call-1', messages: [] });
+
+    await expect(execute()).rejects.toThrow('The MCP server took too long to respond.');
+    await expect(execute()).rejects.toThrow('Page not found');
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  capabilityOverrideFromDraft,
+  draftFromCapabilityOverride,
+  resolveModelCapabilities,
+  supportsPdfInput,
+} from "@/lib/model-capabilities";
+import { getBuiltInModelCapabilities } from "@/types/provider.types";
+
+describe("model capabilities", () => {
+  it("knows common models without any catalog data", () => {
+    expect(getBuiltInModelCapabilities("openai", "gpt-4o")).toEqual({
+      vision: true,
+      video: false,
+      tools: true,
+      reasoning: false,
+      contextTokens: 128000,
+    });
+    expect(getBuiltInModelCapabilities("openai", "o3-mini")).toMatchObject({ vision: false, reasoning: true });
+    expect(getBuiltInModelCapabilities("openai", "o1-mini")).toMatchObject({ tools: false });
+    expect(getBuiltInModelCapabilities("apple", "system-default")).toMatchObject({ vision: false, tools: true });
+    expect(getBuiltInModelCapabilities("gemini", "gemini-2.5-flash")).toMatchObject({ vision: true, video: true });
+    expect(getBuiltInModelCapabilities("ollama", "gpt-oss:latest")).toMatchObject({ vision: false, tools: true });
+    expect(getBuiltInModelCapabilities("ollama", "gemma3:12b")).toMatchObject({ vision: true });
+    expect(getBuiltInModelCapabilities("openrouter", "openai/o1-mini")).toMatchObject({ vision: false, tools: false });
+    expect(getBuiltInModelCapabilities("custom:lm-studio", "qwen3-8b")).toMatchObject({ vision: true, tools: true });
+  });
+
+  it("knows context windows per model family", () => {
+    const contextOf = (providerId: Parameters<typeof getBuiltInModelCapabilities>[0], modelId: string) => (
+      getBuiltInModelCapabilities(providerId, modelId).contextTokens
+    );
+
+    expect(contextOf("openai", "gpt-4.1-mini")).toBe(1047576);
+    expect(contextOf("openai", "gpt-5")).toBe(400000);
+    expect(contextOf("openai", "gpt-5-chat-latest")).toBe(128000);
+    expect(contextOf("openai", "o1-mini")).toBe(128000);
+    expect(contextOf("openai", "o3")).toBe(200000);
+    expect(contextOf("anthropic", "claude-sonnet-4-5")).toBe(200000);
+    expect(contextOf("gemini", "gemini-1.5-pro-002")).toBe(2097152);
+    expect(contextOf("gemini", "gemini-2.5-flash")).toBe(1048576);
+    expect(contextOf("openrouter", "openai/gpt-4.1")).toBe(1047576);
+    expect(contextOf("openrouter", "google/gemini-2.5-pro")).toBe(1048576);
+    expect(contextOf("openrouter", "mistralai/mistral-small")).toBeUndefined();
+    expect(contextOf("openai", "some-future-model")).toBe(128000);
+    expect(contextOf("apple", "system-default")).toBe(4096);
+  });
+
+  it("sends PDFs natively only to models that read images on providers that take them", () => {
+    expect(supportsPdfInput("openai", getBuiltInModelCapabilities("openai", "gpt-4.1"))).toBe(true);
+    expect(supportsPdfInput("openai", getBuiltInModelCapabilities("openai", "o3-mini"))).toBe(false);
+    expect(supportsPdfInput("openrouter", getBuiltInModelCapabilities("openrouter", "openai/o1-mini"))).toBe(false);
+    expect(supportsPdfInput("ollama", { vision: true })).toBe(false);
+  });
+
+  it("lets catalog data and then user overrides win over built-in data", () => {
+    expect(resolveModelCapabilities("openrouter", "mistralai/mistral-small", {
+      catalog: { vision: false, tools: true, contextTokens: 32000 },
+    })).toMatchObject({ vision: false, tools: true, contextTokens: 32000 });
+
+    expect(resolveModelCapabilities("openrouter", "mistralai/mistral-small", {
+      catalog: { vision: false, tools: true },
+      override: { vision: true, tools: undefined },
+    })).toMatchObject({ vision: true, tools: true });
+  });
+
+  it("keeps video off for providers without a video transport", () => {
+    expect(resolveModelCapabilities("openai", "gpt-4o", { override: { video: true } }).video).toBe(false);
+    expect(resolveModelCapabilities("openrouter", "qwen/qwen3-vl", { catalog: { video: true } }).video).toBe(true);
+  });
+
+  it("round-trips overrides through the editable draft", () => {
+    const draft = draftFromCapabilityOverride({ tools: false, contextTokens: 8192 });
+    expect(draft).toEqual({
+      flags: { vision: null, video: null, tools: false, reasoning: null },
+      contextTokens: "8192",
+    });
+
+    expect(capabilityOverrideFromDraft({
+      ...draft,
+      flags: { ...draft.flags, vision: true },
+      contextTokens: "131,072",
+    })).toEqual({ override: { vision: true, tools: false, contextTokens: 131072 }, error: null });
+
+    expect(capabilityOverrideFromDraft(draftFromCapabilityOverride())).toEqual({ override: null, error: null });
+    expect(capabilityOverrideFromDraft({ ...draft, contextTokens: "lots" }).error).toBe(
+      "Context window must be a whole number of tokens.",
+    );
+  });
+});
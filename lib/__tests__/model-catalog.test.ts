@@ -0,0 +1,73 @@
+import { fetchModelCatalog, formatCatalogFetchedAt } from "@/lib/model-catalog";
+import { diffModelNames } from "@/lib/model-utils";
+import { fetchOpenAIModels } from "@/providers/openai-provider";
+import { fetchOpencodeModels } from "@/providers/opencode-provider";
+import { fetchOpenRouterModelCatalog } from "@/providers/openrouter-provider";
+
+jest.mock("@/providers/openai-provider", () => ({
+  fetchOpenAIModels: jest.fn(),
+}));
+
+jest.mock("@/providers/openrouter-provider", () => ({
+  fetchOpenRouterModelCatalog: jest.fn(),
+}));
+
+jest.mock("@/providers/opencode-provider", () => ({
+  fetchOpencodeModels: jest.fn(),
+}));
+
+const mockedFetchOpenAIModels = fetchOpenAIModels as jest.MockedFunction<typeof fetchOpenAIModels>;
+const mockedFetchOpenRouterModelCatalog = fetchOpenRouterModelCatalog as jest.MockedFunction<typeof fetchOpenRouterModelCatalog>;
+const mockedFetchOpencodeModels = fetchOpencodeModels as jest.MockedFunction<typeof fetchOpencodeModels>;
+
+describe("model catalog", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches from the matching provider and stamps the snapshot", async () => {
+    jest.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    mockedFetchOpenRouterModelCatalog.mockResolvedValue({
+      models: ["openai/gpt-4o", "google/gemini-2.5-pro"],
+      capabilities: { "openai/gpt-4o": { vision: true, tools: true } },
+      pricing: { "openai/gpt-4o": { input: 2.5, output: 10 } },
+    });
+
+    await expect(fetchModelCatalog("openrouter", "sk-or")).resolves.toEqual({
+      models: ["openai/gpt-4o", "google/gemini-2.5-pro"],
+      capabilities: { "openai/gpt-4o": { vision: true, tools: true } },
+      pricing: { "openai/gpt-4o": { input: 2.5, output: 10 } },
+      fetchedAt: 1_700_000_000_000,
+    });
+    expect(mockedFetchOpenRouterModelCatalog).toHaveBeenCalledWith("sk-or");
+    expect(mockedFetchOpenAIModels).not.toHaveBeenCalled();
+    expect(mockedFetchOpencodeModels).not.toHaveBeenCalled();
+
+    jest.restoreAllMocks();
+  });
+
+  it("treats an empty catalog as a failed fetch", async () => {
+    mockedFetchOpenAIModels.mockResolvedValue([]);
+
+    await expect(fetchModelCatalog("openai", "sk-bad")).rejects.toThrow(
+      "No models were returned. Check your API key.",
+    );
+  });
+
+  it("formats the last fetch relative to now", () => {
+    const now = 10 * 24 * 60 * 60 * 1000;
+
+    expect(formatCatalogFetchedAt(now - 20_000, now)).toBe("Updated just now");
+    expect(formatCatalogFetchedAt(now - 5 * 60_000, now)).toBe("Updated 5m ago");
+    expect(formatCatalogFetchedAt(now - 3 * 60 * 60_000, now)).toBe("Updated 3h ago");
+    expect(formatCatalogFetchedAt(now - 2 * 24 * 60 * 60_000, now)).toBe("Updated 2d ago");
+    expect(formatCatalogFetchedAt(now + 60_000, now)).toBe("Updated just now");
+  });
+
+  it("diffs model lists in their original order", () => {
+    expect(diffModelNames(["gpt-4o", "gpt-4", "o3"], ["gpt-5", "gpt-4o", "o3", "o4-mini"])).toEqual({
+      addedModels: ["gpt-5", "o4-mini"],
+      removedModels: ["gpt-4"],
+    });
+  });
+});
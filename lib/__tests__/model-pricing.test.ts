@@ -0,0 +1,74 @@
+import {
+  computeUsageCost,
+  draftFromPricingOverride,
+  formatTokenTotal,
+  formatUsageCost,
+  pricePerMillionFromPerToken,
+  pricingOverrideFromDraft,
+  resolveModelPricing,
+} from "@/lib/model-pricing";
+
+const usage = (inputTokens: number, outputTokens: number, cachedInputTokens = 0) => ({
+  inputTokens,
+  outputTokens,
+  reasoningTokens: 0,
+  cachedInputTokens,
+});
+
+describe("model pricing", () => {
+  it("prefers the user's price, then the catalog, then free local providers", () => {
+    const catalog = { input: 3, output: 15 };
+    const override = { input: 1, output: 2 };
+
+    expect(resolveModelPricing("openrouter", { catalog, override })).toBe(override);
+    expect(resolveModelPricing("openrouter", { catalog })).toBe(catalog);
+    expect(resolveModelPricing("openrouter")).toBeNull();
+    expect(resolveModelPricing("ollama")).toEqual({ input: 0, output: 0 });
+    expect(resolveModelPricing("apple")).toEqual({ input: 0, output: 0 });
+  });
+
+  it("bills cached input at its own rate and falls back to the input rate", () => {
+    expect(computeUsageCost(usage(1_000_000, 100_000), { input: 3, output: 15 })).toBeCloseTo(4.5);
+    expect(computeUsageCost(
+      usage(1_000_000, 0, 400_000),
+      { input: 3, output: 15, cachedInput: 0.3 },
+    )).toBeCloseTo(1.8 + 0.12);
+    expect(computeUsageCost(usage(1_000_000, 0, 400_000), { input: 3, output: 15 })).toBeCloseTo(3);
+    expect(computeUsageCost(usage(10, 10), null)).toBeNull();
+  });
+
+  it("converts OpenRouter per-token prices and ignores variable ones", () => {
+    expect(pricePerMillionFromPerToken("0.000003")).toBe(3);
+    expect(pricePerMillionFromPerToken(0.00000015)).toBe(0.15);
+    expect(pricePerMillionFromPerToken("0")).toBe(0);
+    expect(pricePerMillionFromPerToken("-1")).toBeUndefined();
+    expect(pricePerMillionFromPerToken("abc")).toBeUndefined();
+    expect(pricePerMillionFromPerToken(undefined)).toBeUndefined();
+  });
+
+  it("round-trips overrides through the editable draft", () => {
+    expect(draftFromPricingOverride()).toEqual({ input: "", output: "", cachedInput: "" });
+    expect(pricingOverrideFromDraft(draftFromPricingOverride({ input: 2.5, output: 10, cachedInput: 1.25 })))
+      .toEqual({ override: { input: 2.5, output: 10, cachedInput: 1.25 }, error: null });
+    expect(pricingOverrideFromDraft({ input: " $0,5 ", output: "2", cachedInput: "" }))
+      .toEqual({ override: { input: 0.5, output: 2 }, error: null });
+    expect(pricingOverrideFromDraft({ input: "", output: "", cachedInput: "" }))
+      .toEqual({ override: null, error: null });
+  });
+
+  it("rejects partial or invalid drafts", () => {
+    expect(pricingOverrideFromDraft({ input: "1", output: "", cachedInput: "" }).error)
+      .toBe("Enter both the input and the output price.");
+    expect(pricingOverrideFromDraft({ input: "1", output: "-2", cachedInput: "" }).error)
+      .toBe("Prices must be zero or a positive number of dollars.");
+  });
+
+  it("formats costs and token counts for display", () => {
+    expect(formatUsageCost(0)).toBe("$0.00");
+    expect(formatUsageCost(0.004)).toBe("<$0.01");
+    expect(formatUsageCost(1.234)).toBe("$1.23");
+    expect(formatTokenTotal(950)).toBe("950");
+    expect(formatTokenTotal(12_400)).toBe("12.4K");
+    expect(formatTokenTotal(3_400_000)).toBe("3.4M");
+  });
+});
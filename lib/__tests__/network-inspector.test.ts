@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { fetch as expoFetch } from 'expo/fetch';
+
+import {
+  clearNetworkInspector,
+  createInspectedFetch,
+  inspectedFetch,
+  NETWORK_INSPECTOR_CAPACITY,
+  setNetworkInspectorEnabled,
+  toCurlCommand,
+  useNetworkInspectorStore,
+} from '../network-inspector';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const mockExpoFetch = expoFetch as unknown as jest.MockedFunction<(...args: unknown[]) => Promise<unknown>>;
+
+const streamOf = (chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const fakeResponse = (options: {
+  status?: number;
+  headers?: Record<string, string>;
+  text?: string;
+  body?: ReadableStream<Uint8Array>;
+}) => ({
+  ok: (options.status ?? 200) < 400,
+  status: options.status ?? 200,
+  statusText: '',
+  headers: new Map(Object.entries(options.headers ?? {})),
+  body: options.body ?? null,
+  text: async () => options.text ?? '',
+});
+
+const readAll = async (body: ReadableStream<Uint8Array>): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+};
+
+const recorded = () => useNetworkInspectorStore.getState().requests;
+
+describe('network-inspector', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearNetworkInspector();
+    setNetworkInspectorEnabled(true);
+  });
+
+  it('passes straight through without recording while off', async () => {
+    setNetworkInspectorEnabled(false);
+    const response = fakeResponse({ text: '{}' });
+    mockExpoFetch.mockResolvedValue(response);
+
+    const init = { method: 'GET' };
+    await expect(inspectedFetch('https://api.openai.com/v1/models', init)).resolves.toBe(response);
+    expect(mockExpoFetch).toHaveBeenCalledWith('https://api.openai.com/v1/models', init);
+    expect(recorded()).toEqual([]);
+  });
+
+  it('records a JSON exchange with credentials masked', async () => {
+    mockExpoFetch.mockResolvedValue(fakeResponse({
+      status: 401,
+      headers: { 'Content-Type': 'application/json', 'set-cookie': 'session=abc' },
+      text: '{"error":"invalid key"}',
+    }));
+
+    const response = await inspectedFetch('https://generativelanguage.googleapis.com/v1beta/models?key=secret&pageSize=5', {
+      method: 'post',
+      headers: { Authorization: 'Bearer sk-live', 'x-goog-api-key': 'secret', 'Content-Type': 'application/json' },
+      body: '{"model":"gemini"}',
+    });
+
+    expect(await response.json()).toEqual({ error: 'invalid key' });
+    expect(recorded()).toHaveLength(1);
+    expect(recorded()[0]).toMatchObject({
+      method: 'POST',
+      url: 'https://generativelanguage.googleapis.com/v1beta/models?key=%5Bredacted%5D&pageSize=5',
+      requestHeaders: {
+        authorization: '[redacted]',
+        'x-goog-api-key': '[redacted]',
+        'content-type': 'application/json',
+      },
+      requestBody: '{"model":"gemini"}',
+      state: 'done',
+      status: 401,
+      responseHeaders: { 'content-type': 'application/json', 'set-cookie': '[redacted]' },
+      responseBody: '{"error":"invalid key"}',
+      error: null,
+    });
+    expect(recorded()[0].durationMs).not.toBeNull();
+  });
+
+  it('records every SSE event while handing the stream on unchanged', async () => {
+    const chunks = ['data: {"delta":"Hel', 'lo"}\n\ndata: {"delta":"!"}\n\n', 'data: [DONE]\n\n'];
+    mockExpoFetch.mockResolvedValue(fakeResponse({
+      headers: { 'content-type': 'text/event-stream' },
+      body: streamOf(chunks),
+    }));
+
+    const response = await inspectedFetch('https://openrouter.ai/api/v1/chat/completions', { method: 'POST' });
+
+    expect(recorded()[0].state).toBe('streaming');
+    expect(await readAll(response.body!)).toBe(chunks.join(''));
+    expect(recorded()[0]).toMatchObject({
+      state: 'done',
+      events: ['data: {"delta":"Hello"}', 'data: {"delta":"!"}', 'data: [DONE]'],
+      responseBody: null,
+    });
+  });
+
+  it('marks a record as truncated once a stream or body outgrows it', async () => {
+    const events = Array.from({ length: 501 }, (_, index) => `data: {"delta":"${index}"}`);
+    mockExpoFetch.mockResolvedValueOnce(fakeResponse({
+      headers: { 'content-type': 'text/event-stream' },
+      body: streamOf(events.map((event) => `${event}\n\n`)),
+    }));
+    const streamed = await inspectedFetch('https://openrouter.ai/api/v1/chat/completions', { method: 'POST' });
+    await readAll(streamed.body!);
+
+    expect(recorded()[0].events).toHaveLength(500);
+    expect(recorded()[0].events[499]).toBe('data: {"delta":"499"}');
+    expect(recorded()[0].truncated).toBe(true);
+
+    mockExpoFetch.mockResolvedValueOnce(fakeResponse({ text: 'x'.repeat(20_001) }));
+    await (await inspectedFetch('https://api.openai.com/v1/models')).text();
+
+    expect(recorded()[0].responseBody).toMatch(/… \(1 more characters\)$/);
+    expect(recorded()[0].truncated).toBe(true);
+
+    mockExpoFetch.mockResolvedValueOnce(fakeResponse({ text: 'x'.repeat(20_000) }));
+    await (await inspectedFetch('https://api.openai.com/v1/models')).text();
+
+    expect(recorded()[0].truncated).toBe(false);
+  });
+
+  it('records network failures and rethrows them', async () => {
+    mockExpoFetch.mockRejectedValue(new TypeError('Network request failed'));
+
+    await expect(inspectedFetch('https://search.example.com/search?q=x')).rejects.toThrow('Network request failed');
+    expect(recorded()[0]).toMatchObject({
+      method: 'GET',
+      state: 'error',
+      status: null,
+      error: 'TypeError: Network request failed',
+    });
+  });
+
+  it('keeps only the newest requests', async () => {
+    mockExpoFetch.mockImplementation(async () => fakeResponse({}));
+
+    for (let index = 0; index < NETWORK_INSPECTOR_CAPACITY + 5; index += 1) {
+      await inspectedFetch(`https://example.com/${index}`);
+    }
+
+    expect(recorded()).toHaveLength(NETWORK_INSPECTOR_CAPACITY);
+    expect(recorded()[0].url).toBe(`https://example.com/${NETWORK_INSPECTOR_CAPACITY + 4}`);
+  });
+
+  it('rebuilds a request as a cURL command', async () => {
+    mockExpoFetch.mockResolvedValue(fakeResponse({ headers: { 'content-type': 'text/event-stream' } }));
+
+    await inspectedFetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: { 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' },
+      body: '{"content":"it\'s here"}',
+    });
+
+    expect(toCurlCommand(recorded()[0])).toBe([
+      "curl -N -X POST 'https://api.anthropic.com/v1/messages'",
+      "-H 'x-api-key: [redacted]'",
+      "-H 'anthropic-version: 2023-06-01'",
+      "--data-raw '{\"content\":\"it'\\''s here\"}'",
+    ].join(' \\\n  '));
+  });
+
+  it('masks search API key headers, including a user-configured one', async () => {
+    mockExpoFetch.mockResolvedValue(fakeResponse({ text: '{}' }));
+
+    await inspectedFetch('https://api.search.brave.com/res/v1/web/search?q=tides', {
+      headers: { 'X-Subscription-Token': 'brave-key' },
+    });
+    await createInspectedFetch({ sensitiveHeaders: ['X-Search-Key'] })('https://search.example.com/?q=tides', {
+      headers: { 'X-Search-Key': 'custom-key', Accept: 'application/json' },
+    });
+
+    const [custom, brave] = recorded();
+    expect(brave.requestHeaders).toEqual({ 'x-subscription-token': '[redacted]' });
+    expect(custom.requestHeaders).toEqual({ 'x-search-key': '[redacted]', accept: 'application/json' });
+    expect(toCurlCommand(custom)).not.toContain('custom-key');
+  });
+});
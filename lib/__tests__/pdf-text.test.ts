@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { zlibSync } from 'fflate';
+
+import { countPdfPages, extractPdfText } from '../pdf-text';
+
+const encode = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+/** A minimal PDF: one compressed content stream per page and an uncompressed page tree */
+const createPdf = (pageContents: string[], options: { compressTree?: boolean } = {}): Uint8Array => {
+  const chunks: Uint8Array[] = [encode('%PDF-1.5\n')];
+  const kids = pageContents.map((_, index) => `${index * 2 + 3} 0 R`).join(' ');
+  const tree = `<< /Type /Pages /Count ${pageContents.length} /Kids [${kids}] >>`;
+
+  if (options.compressTree) {
+    const objectStream = zlibSync(encode(`2 0 ${tree}`));
+    chunks.push(encode(`1 0 obj << /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length ${objectStream.length} >> stream\n`));
+    chunks.push(objectStream, encode('\nendstream endobj\n'));
+  } else {
+    chunks.push(encode(`2 0 obj ${tree} endobj\n`));
+  }
+
+  pageContents.forEach((content, index) => {
+    const stream = zlibSync(encode(content));
+    chunks.push(encode(`${index * 2 + 3} 0 obj << /Contents ${index * 2 + 4} 0 R >> endobj\n`));
+    chunks.push(encode(`${index * 2 + 4} 0 obj << /Length ${stream.length} /Filter /FlateDecode >> stream\n`));
+    chunks.push(stream, encode('\nendstream endobj\n'));
+  });
+  chunks.push(encode('%%EOF'));
+
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+describe('pdf-text', () => {
+  it('reads text from compressed content streams page by page', () => {
+    const pdf = createPdf([
+      'BT /F1 12 Tf (Hello \\(PDF\\)) Tj 0 -14 Td [(wor) -20 (ld) -400 (again)] TJ ET',
+      'BT <FEFF0054006900640065> Tj T* (\\124ables) Tj ET',
+    ]);
+
+    expect(extractPdfText(pdf)).toEqual({
+      pageCount: 2,
+      text: 'Hello (PDF)\nworld again\n\nTide\nTables',
+    });
+  });
+
+  it('finds the page count inside object streams', () => {
+    const pdf = createPdf(['BT (One) Tj ET', 'BT (Two) Tj ET', 'BT (Three) Tj ET'], { compressTree: true });
+
+    expect(countPdfPages(pdf)).toBe(3);
+    expect(extractPdfText(pdf).pageCount).toBe(3);
+  });
+
+  it('returns no text for pages without readable strings', () => {
+    const pdf = createPdf(['q 100 0 0 100 0 0 cm /Im1 Do Q', 'BT <0102030405> Tj ET']);
+
+    expect(extractPdfText(pdf)).toEqual({ pageCount: 2, text: '' });
+  });
+
+  it('returns nothing for bytes that are not a PDF', () => {
+    expect(extractPdfText(encode('plain text'))).toEqual({ pageCount: null, text: '' });
+  });
+
+  it('scans page objects with nested dictionaries in linear time', () => {
+    const pageObjects = Array.from({ length: 60 }, (_, index) => (
+      `${index + 100} 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] `
+      + `/Resources << /Font << /F1 5 0 R /F2 6 0 R >> /XObject << /Im1 7 0 R >> /ProcSet [/PDF /Text] >> `
+      + `/Annots [<< /Subtype /Link /Rect [0 0 10 10] /A << /S /URI /URI (https://example.com) >> >>] >> endobj\n`
+    )).join('');
+    const pdf = createPdf(['BT (Nested) Tj ET']);
+    const bytes = new Uint8Array([...encode(pageObjects), ...pdf]);
+
+    const startedAt = Date.now();
+    const result = extractPdfText(bytes);
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(result.text).toBe('Nested');
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  chatSettingsFromPersona,
+  draftFromPersona,
+  EMPTY_PERSONA_DRAFT,
+  type Persona,
+  validatePersonaDraft,
+} from "@/lib/personas";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+const reviewer: Persona = {
+  id: 7,
+  name: "Reviewer",
+  systemPrompt: "  Review the code carefully.  ",
+  providerId: "openai",
+  modelId: "gpt-5",
+  thinkingLevel: "high",
+  webSearchEnabled: false,
+  temperature: 0.2,
+  createdAt: now,
+  updatedAt: now,
+};
+
+describe("personas", () => {
+  it("requires a name", () => {
+    expect(validatePersonaDraft(EMPTY_PERSONA_DRAFT)).toBe("Give the persona a name.");
+    expect(validatePersonaDraft({ ...EMPTY_PERSONA_DRAFT, name: "Tutor" })).toBeNull();
+  });
+
+  it("requires a model once a provider is chosen", () => {
+    expect(validatePersonaDraft({
+      ...EMPTY_PERSONA_DRAFT,
+      name: "Tutor",
+      providerId: "openrouter",
+      modelId: " ",
+    })).toBe("Pick a model for the persona's provider.");
+  });
+
+  it("rejects temperatures outside the supported range", () => {
+    expect(validatePersonaDraft({
+      ...EMPTY_PERSONA_DRAFT,
+      name: "Tutor",
+      temperature: 3,
+    })).toBe("Temperature is outside the supported range.");
+  });
+
+  it("copies the prompt and temperature into new chat settings", () => {
+    expect(chatSettingsFromPersona(reviewer)).toEqual({
+      personaId: 7,
+      systemPrompt: "Review the code carefully.",
+      temperature: 0.2,
+      contextStrategy: "drop-oldest",
+      contextSummary: null,
+      fallbackPolicy: "allow",
+      disabledTools: [],
+      blockedDomains: [],
+      documentCollections: [],
+    });
+    expect(chatSettingsFromPersona({ ...reviewer, systemPrompt: "" }).systemPrompt).toBeNull();
+  });
+
+  it("builds an editable draft from a stored persona", () => {
+    expect(draftFromPersona(reviewer)).toEqual({
+      name: "Reviewer",
+      systemPrompt: "  Review the code carefully.  ",
+      providerId: "openai",
+      modelId: "gpt-5",
+      thinkingLevel: "high",
+      webSearchEnabled: false,
+      temperature: 0.2,
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { fetch as expoFetch } from 'expo/fetch';
+
+import {
+  createSearchBackend,
+  createSearchBackendChain,
+  DEFAULT_JSON_SEARCH_FIELDS,
+  getSearchBackendFieldValues,
+  mapSearchErrorToMessage,
+  parseSearchBackendFields,
+  readJsonPath,
+  resolveSearchBackendChain,
+  SearchBackendError,
+} from '../search-backends';
+import { clearNetworkInspector, setNetworkInspectorEnabled, useNetworkInspectorStore } from '../network-inspector';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const mockExpoFetch = expoFetch as unknown as jest.MockedFunction<(url: string, init: RequestInit) => Promise<Response>>;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'content-type': 'application/json' },
+});
+
+describe('search-backends', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('normalizes Brave results and sends the subscription token', async () => {
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      web: {
+        results: [
+          { title: 'Tide <strong>tables</strong>', url: 'https://tides.example.com', description: 'High &amp; low', page_age: '2026-01-02' },
+          { title: 'Duplicate', url: 'https://TIDES.example.com' },
+          { title: 'No link' },
+        ],
+      },
+    }));
+
+    const result = await createSearchBackend({ id: 'brave', apiKey: 'BSA-key' }).search('tides');
+
+    expect(result).toEqual({
+      query: 'tides',
+      backend: 'brave',
+      sources: [{
+        title: 'Tide tables',
+        url: 'https://tides.example.com',
+        snippet: 'High & low',
+        engine: 'brave',
+        publishedDate: '2026-01-02',
+      }],
+    });
+    const [url, init] = mockExpoFetch.mock.calls[0];
+    expect(url).toBe('https://api.search.brave.com/res/v1/web/search?q=tides&count=5');
+    expect(init.headers).toMatchObject({ 'X-Subscription-Token': 'BSA-key' });
+  });
+
+  it('posts Tavily-style queries with a bearer key', async () => {
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      results: [{ title: 'Harbour', url: 'https://harbour.example.com', content: 'Moorings', published_date: 'Mon' }],
+    }));
+
+    const result = await createSearchBackend({ id: 'tavily', url: 'https://search.internal/api', apiKey: 'tvly-1' })
+      .search('moorings', { maxResults: 3 });
+
+    expect(result.sources).toEqual([{
+      title: 'Harbour',
+      url: 'https://harbour.example.com',
+      snippet: 'Moorings',
+      engine: 'tavily',
+      publishedDate: 'Mon',
+    }]);
+    const [url, init] = mockExpoFetch.mock.calls[0];
+    expect(url).toBe('https://search.internal/api');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer tvly-1' });
+    expect(JSON.parse(init.body as string)).toEqual({ query: 'moorings', max_results: 3, search_depth: 'basic' });
+  });
+
+  it('keeps only Kagi search results, not related searches', async () => {
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      data: [
+        { t: 0, title: 'Lighthouses', url: 'https://lights.example.com', snippet: 'Beams' },
+        { t: 1, list: ['lighthouse keepers'] },
+      ],
+    }));
+
+    const result = await createSearchBackend({ id: 'kagi', apiKey: 'token' }).search('lighthouses');
+
+    expect(result.sources.map((source) => source.url)).toEqual(['https://lights.example.com']);
+    expect(mockExpoFetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bot token' });
+  });
+
+  it('reads a JSON endpoint through its field mapping', async () => {
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({
+      data: { items: [{ name: 'Buoys', link: { href: 'https://buoys.example.com' }, summary: 'Markers' }] },
+    }));
+
+    const result = await createSearchBackend({
+      id: 'json',
+      url: 'https://api.example.com/find/{query}',
+      apiKey: 'secret',
+      apiKeyHeader: 'X-Api-Key',
+      fields: { results: 'data.items', title: 'name', url: 'link.href', snippet: 'summary', publishedDate: '' },
+    }).search('red buoys');
+
+    expect(result.sources).toEqual([{
+      title: 'Buoys',
+      url: 'https://buoys.example.com',
+      snippet: 'Markers',
+      engine: 'api.example.com',
+      publishedDate: undefined,
+    }]);
+    const [url, init] = mockExpoFetch.mock.calls[0];
+    expect(url).toBe('https://api.example.com/find/red%20buoys');
+    expect(init.headers).toMatchObject({ 'X-Api-Key': 'secret' });
+  });
+
+  it('keeps the JSON endpoint key header out of the network inspector', async () => {
+    setNetworkInspectorEnabled(true);
+    mockExpoFetch.mockResolvedValueOnce(jsonResponse({ results: [] }));
+
+    try {
+      await createSearchBackend({
+        id: 'json',
+        url: 'https://api.example.com/find',
+        apiKey: 'secret',
+        apiKeyHeader: 'X-Search-Key',
+        fields: DEFAULT_JSON_SEARCH_FIELDS,
+      }).search('tides');
+
+      expect(useNetworkInspectorStore.getState().requests[0].requestHeaders).toEqual({
+        accept: 'application/json',
+        'x-search-key': '[redacted]',
+      });
+    } finally {
+      setNetworkInspectorEnabled(false);
+      clearNetworkInspector();
+    }
+  });
+
+  it('cancels a SearXNG search with the caller\'s signal', async () => {
+    mockExpoFetch.mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      });
+    }));
+    const controller = new AbortController();
+
+    const search = createSearchBackend({ id: 'searxng', url: 'https://search.example.com' })
+      .search('tides', { signal: controller.signal });
+    controller.abort();
+
+    await expect(search).rejects.toMatchObject({ name: 'AbortError' });
+    expect(mockExpoFetch.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+
+  it('sorts HTTP failures into error codes', async () => {
+    mockExpoFetch
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({}, 429))
+      .mockResolvedValueOnce(new Response('<html>', { status: 200 }));
+    const brave = createSearchBackend({ id: 'brave', apiKey: 'key' });
+
+    await expect(brave.search('a')).rejects.toMatchObject({ code: 'unauthorized', status: 401 });
+    await expect(brave.search('b')).rejects.toMatchObject({ code: 'rate_limited' });
+    await expect(brave.search('c')).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+
+  it('falls back to the next backend and reports every failure when all fail', async () => {
+    const chain = createSearchBackendChain([
+      { id: 'brave', apiKey: 'key' },
+      { id: 'kagi', apiKey: 'token' },
+    ]);
+    mockExpoFetch
+      .mockResolvedValueOnce(jsonResponse({}, 429))
+      .mockResolvedValueOnce(jsonResponse({ data: [{ t: 0, title: 'Kagi hit', url: 'https://hit.example.com' }] }));
+
+    await expect(chain?.search('tides')).resolves.toMatchObject({
+      backend: 'kagi',
+      sources: [{ url: 'https://hit.example.com' }],
+    });
+
+    mockExpoFetch
+      .mockResolvedValueOnce(jsonResponse({}, 500))
+      .mockResolvedValueOnce(jsonResponse({}, 403));
+
+    const failure = await chain?.search('tides').catch((error: unknown) => error);
+    expect(failure).toBeInstanceOf(SearchBackendError);
+    expect(mapSearchErrorToMessage(failure)).toBe(
+      'Brave Search returned HTTP 500. Kagi rejected the API key. Check it in Settings.',
+    );
+    expect(createSearchBackendChain([])).toBeNull();
+  });
+
+  it('resolves the primary and fallback backends that have settings', () => {
+    expect(resolveSearchBackendChain({
+      primary: 'brave',
+      fallback: 'searxng',
+      searxngUrl: 'https://search.example.com',
+      storedBackends: [{ id: 'brave', apiKey: 'key' }],
+    })).toEqual([
+      { id: 'brave', apiKey: 'key' },
+      { id: 'searxng', url: 'https://search.example.com' },
+    ]);
+    expect(resolveSearchBackendChain({
+      primary: 'kagi',
+      fallback: 'searxng',
+      searxngUrl: null,
+      storedBackends: [],
+    })).toEqual([]);
+  });
+
+  it('round-trips settings form values', () => {
+    expect(getSearchBackendFieldValues('tavily', null)).toEqual({ url: 'https://api.tavily.com/search', apiKey: '' });
+    expect(parseSearchBackendFields('brave', { apiKey: '  ' })).toBeNull();
+
+    const values = { ...getSearchBackendFieldValues('json', null), url: 'https://api.example.com/s?term={query}' };
+    const config = parseSearchBackendFields('json', values);
+
+    expect(config).toEqual({
+      id: 'json',
+      url: 'https://api.example.com/s?term={query}',
+      apiKey: null,
+      apiKeyHeader: 'Authorization',
+      fields: DEFAULT_JSON_SEARCH_FIELDS,
+    });
+    expect(getSearchBackendFieldValues('json', config)).toEqual(values);
+    expect(() => parseSearchBackendFields('tavily', { url: 'ftp://x', apiKey: 'k' }))
+      .toThrow('Tavily URLs must use http or https.');
+  });
+
+  it('follows dotted paths through objects and arrays', () => {
+    expect(readJsonPath({ a: { b: [{ c: 1 }] } }, 'a.b.0.c')).toBe(1);
+    expect(readJsonPath({ a: 1 }, 'a.b')).toBeUndefined();
+    expect(readJsonPath({ a: 1 }, '')).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { streamText } from 'ai';
+
+import { createReplayFetch, serializeSseFixture, toSseFixture, type SseFixture } from '../sse-fixtures';
+import type { InspectedRequest } from '../network-inspector';
+import anthropicMessages from '@/test/fixtures/sse/anthropic-messages.json';
+import openaiCompatibleChat from '@/test/fixtures/sse/openai-compatible-chat.json';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const recordedRequest: InspectedRequest = {
+  id: 'req-1',
+  method: 'POST',
+  url: 'https://api.anthropic.com/v1/messages',
+  requestHeaders: { 'x-api-key': '[redacted]' },
+  requestBody: '{"model":"claude-sonnet-4-5"}',
+  state: 'done',
+  startedAt: 1_750_000_000_000,
+  status: 200,
+  statusText: null,
+  responseHeaders: { 'content-type': 'text/event-stream' },
+  headersMs: 200,
+  durationMs: 900,
+  events: ['event: ping\ndata: {"type":"ping"}'],
+  responseBody: null,
+  truncated: false,
+  error: null,
+};
+
+describe('sse-fixtures', () => {
+  it('turns a recorded request into a fixture', () => {
+    const fixture = toSseFixture(recordedRequest);
+
+    expect(fixture).toEqual({
+      request: { method: 'POST', url: 'https://api.anthropic.com/v1/messages' },
+      response: {
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        events: ['event: ping\ndata: {"type":"ping"}'],
+        body: null,
+      },
+    });
+    expect(JSON.parse(serializeSseFixture(fixture))).toEqual(fixture);
+  });
+
+  it('refuses to record a request that never got a response', () => {
+    expect(() => toSseFixture({ ...recordedRequest, status: null, state: 'error' }))
+      .toThrow('This request has no response to record');
+  });
+
+  it('refuses to record a response the inspector cut short', () => {
+    expect(() => toSseFixture({ ...recordedRequest, truncated: true }))
+      .toThrow('This response was too long to record in full');
+  });
+
+  it('replays a recorded Anthropic stream through the real provider', async () => {
+    const anthropic = createAnthropic({
+      apiKey: 'test-key',
+      baseURL: 'https://api.anthropic.com/v1',
+      fetch: createReplayFetch(anthropicMessages as SseFixture),
+    });
+
+    const result = streamText({ model: anthropic('claude-sonnet-4-5'), prompt: 'Why are there tides?' });
+
+    expect(await result.text).toBe('Tides follow the moon.');
+    expect(await result.usage).toMatchObject({ inputTokens: 21, outputTokens: 6 });
+    expect(await result.finishReason).toBe('stop');
+  });
+
+  it('replays an OpenAI-compatible stream with reasoning', async () => {
+    const provider = createOpenAICompatible({
+      name: 'custom',
+      baseURL: 'http://localhost:1234/v1',
+      includeUsage: true,
+      fetch: createReplayFetch(openaiCompatibleChat as SseFixture),
+    });
+
+    const result = streamText({ model: provider.chatModel('qwen3-8b'), prompt: 'Why are there waves?' });
+
+    expect(await result.text).toBe('Waves are wind-driven.');
+    expect(await result.reasoningText).toBe('Short answer.');
+    expect(await result.usage).toMatchObject({ inputTokens: 14, outputTokens: 9 });
+  });
+
+  it('replays an error response as the provider error it was', async () => {
+    const anthropic = createAnthropic({
+      apiKey: 'test-key',
+      baseURL: 'https://api.anthropic.com/v1',
+      fetch: createReplayFetch({
+        request: { method: 'POST', url: 'https://api.anthropic.com/v1/messages' },
+        response: {
+          status: 529,
+          headers: { 'content-type': 'application/json' },
+          events: [],
+          body: '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+        },
+      }),
+    });
+
+    const result = streamText({ model: anthropic('claude-sonnet-4-5'), prompt: 'Hi', maxRetries: 0 });
+    const errors: unknown[] = [];
+    for await (const part of result.fullStream) {
+      if (part.type === 'error') errors.push(part.error);
+    }
+
+    expect(errors[0]).toMatchObject({ statusCode: 529, message: 'Overloaded' });
+  });
+
+  it('fails requests that do not match the next fixture or come after the last one', async () => {
+    const replayFetch = createReplayFetch(anthropicMessages as SseFixture);
+
+    await expect(replayFetch('https://api.anthropic.com/v1/models', { method: 'GET' }))
+      .rejects.toThrow('Expected POST https://api.anthropic.com/v1/messages but the request was GET https://api.anthropic.com/v1/models');
+    await expect(replayFetch('https://api.anthropic.com/v1/messages', { method: 'POST' }))
+      .rejects.toThrow('No recorded response left for POST https://api.anthropic.com/v1/messages');
+  });
+
+  it('spaces events out and stops when the request is aborted', async () => {
+    const controller = new AbortController();
+    const replayFetch = createReplayFetch(anthropicMessages as SseFixture, { eventDelayMs: 20 });
+    const response = await replayFetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toMatch(/^event: message_start\n/);
+
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { jsonSchema, tool } from 'ai';
+
+import {
+  createToolCallRecorder,
+  parseToolArguments,
+  resolveToolApprovalPolicy,
+  type ToolApprovalRequest,
+} from '../tool-call-recorder';
+import type { ToolApprovalDecision } from '@/types/chat.types';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const executionOptions = { toolCallId: 'call-1', messages: [] };
+
+const createTools = (execute: (input: unknown) => Promise<unknown>) => ({
+  docs_delete_page: tool({
+    description: 'Delete a page',
+    inputSchema: jsonSchema<unknown>({ type: 'object' }),
+    execute: async (input: unknown) => execute(input),
+  }),
+});
+
+const sources = {
+  docs_delete_page: { key: 'docs/delete_page', toolName: 'delete_page', source: 'Docs' },
+};
+
+describe('tool-call-recorder', () => {
+  it('lets web search run on its own and asks about everything else by default', () => {
+    expect(resolveToolApprovalPolicy({}, 'builtin:web/searchWeb')).toBe('auto');
+    expect(resolveToolApprovalPolicy({}, 'docs/delete_page')).toBe('ask');
+    expect(resolveToolApprovalPolicy({ 'builtin:web/searchWeb': 'deny' }, 'builtin:web/searchWeb')).toBe('deny');
+  });
+
+  it('runs auto-approved tools and records outcome and duration', async () => {
+    const execute = jest.fn(async () => 'Deleted.');
+    const recorder = createToolCallRecorder({ sources, policies: { 'docs/delete_page': 'auto' } });
+    const tools = recorder.wrapTools(createTools(execute), 'openai');
+
+    await expect(tools.docs_delete_page.execute!({ page: 'tides' }, executionOptions)).resolves.toBe('Deleted.');
+
+    expect(execute).toHaveBeenCalledWith({ page: 'tides' });
+    expect(recorder.getAnnotationSnapshot()).toEqual({
+      type: 'tool-calls',
+      status: 'success',
+      calls: [{
+        toolName: 'delete_page',
+        source: 'Docs',
+        provider: 'openai',
+        status: 'success',
+        approval: 'auto',
+        input: '{"page":"tides"}',
+        output: 'Deleted.',
+        startedAt: expect.any(Number),
+        completedAt: expect.any(Number),
+        durationMs: expect.any(Number),
+      }],
+    });
+  });
+
+  it('waits for approval and runs with the arguments the user edited', async () => {
+    const execute = jest.fn(async () => ({ deleted: true }));
+    const onAnnotationChange = jest.fn();
+    const requestApproval = jest.fn(async (_request: ToolApprovalRequest): Promise<ToolApprovalDecision> => (
+      { approved: true, input: { page: 'moons' } }
+    ));
+    const recorder = createToolCallRecorder({ sources, requestApproval, onAnnotationChange });
+    const tools = recorder.wrapTools(createTools(execute), 'anthropic');
+
+    await tools.docs_delete_page.execute!({ page: 'tides' }, executionOptions);
+
+    expect(requestApproval).toHaveBeenCalledWith(
+      { toolName: 'delete_page', source: 'Docs', input: '{\n  "page": "tides"\n}' },
+      undefined,
+    );
+    expect(execute).toHaveBeenCalledWith({ page: 'moons' });
+    expect(onAnnotationChange.mock.calls.map(([annotation]) => (annotation as { status: string }).status))
+      .toEqual(['awaiting-approval', 'running', 'success']);
+    expect(recorder.getAnnotationSnapshot()?.calls[0]).toMatchObject({
+      approval: 'edited',
+      input: '{"page":"moons"}',
+      proposedInput: '{"page":"tides"}',
+      output: '{"deleted":true}',
+    });
+  });
+
+  it('never runs denied calls and tells the model why', async () => {
+    const execute = jest.fn(async () => 'Deleted.');
+    const declined = createToolCallRecorder({
+      sources,
+      requestApproval: async () => ({ approved: false }),
+    });
+    const blocked = createToolCallRecorder({ sources, policies: { 'docs/delete_page': 'deny' } });
+
+    await expect(declined.wrapTools(createTools(execute), 'openai').docs_delete_page.execute!({}, executionOptions))
+      .resolves.toEqual({ error: 'The user declined this tool call.' });
+    await expect(blocked.wrapTools(createTools(execute), 'openai').docs_delete_page.execute!({}, executionOptions))
+      .resolves.toEqual({ error: 'The user does not allow this tool to run.' });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(declined.getAnnotationSnapshot()?.calls[0]).toMatchObject({ status: 'denied', error: 'Declined.' });
+    expect(blocked.getAnnotationSnapshot()?.calls[0]).toMatchObject({
+      status: 'denied',
+      error: 'Blocked by your tool settings.',
+    });
+  });
+
+  it('records failures and hands them back to the model', async () => {
+    const recorder = createToolCallRecorder({ sources, policies: { 'docs/delete_page': 'auto' } });
+    const tools = recorder.wrapTools(createTools(async () => {
+      throw new Error('The MCP server took too long to respond.');
+    }), 'openai');
+
+    await expect(tools.docs_delete_page.execute!({}, executionOptions))
+      .resolves.toEqual({ error: 'The MCP server took too long to respond.' });
+    expect(recorder.getAnnotationSnapshot()).toMatchObject({
+      status: 'error',
+      calls: [{ status: 'error', error: 'The MCP server took too long to respond.' }],
+    });
+  });
+
+  it('only accepts a JSON object as edited arguments', () => {
+    expect(parseToolArguments('{"page": "tides"}')).toEqual({ input: { page: 'tides' } });
+    expect(parseToolArguments('{page: tides}')).toEqual({ error: 'Arguments must be valid JSON.' });
+    expect(parseToolArguments('["tides"]')).toEqual({ error: 'Arguments must be a JSON object.' });
+  });
+});
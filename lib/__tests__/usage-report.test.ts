@@ -0,0 +1,143 @@
+import type { ModelMessage } from "ai";
+
+import { usageEvent } from "@/db/schema";
+import { createUsageAnnotation, readTokenUsage, withUsageAnnotation } from "@/lib/chat-usage-annotations";
+import {
+  buildUsageReport,
+  formatUsageTotals,
+  getUsageRangeStart,
+  recordUsage,
+  sumMessageUsage,
+  type UsageRecord,
+} from "@/lib/usage-report";
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  providerId: "openrouter",
+  modelId: "acme/text-1",
+  createdAt: new Date(2026, 2, 10, 12),
+  inputTokens: 1_000,
+  outputTokens: 500,
+  reasoningTokens: 0,
+  cachedInputTokens: 0,
+  cost: 0.01,
+  ...overrides,
+});
+
+describe("usage report", () => {
+  it("reads the SDK usage report and skips empty ones", () => {
+    expect(readTokenUsage({
+      inputTokens: 1_200,
+      outputTokens: 300,
+      totalTokens: 1_500,
+      inputTokenDetails: { noCacheTokens: 200, cacheReadTokens: 1_000, cacheWriteTokens: undefined },
+      outputTokenDetails: { textTokens: 100, reasoningTokens: 200 },
+    })).toEqual({ inputTokens: 1_200, outputTokens: 300, reasoningTokens: 200, cachedInputTokens: 1_000 });
+    expect(readTokenUsage({
+      inputTokens: undefined,
+      outputTokens: undefined,
+      totalTokens: undefined,
+      inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: undefined, cacheWriteTokens: undefined },
+      outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+    })).toBeNull();
+    expect(readTokenUsage(undefined)).toBeNull();
+  });
+
+  it("totals assistant replies in a conversation", () => {
+    const usage = { inputTokens: 100, outputTokens: 50, reasoningTokens: 10, cachedInputTokens: 0 };
+    const messages: ModelMessage[] = [
+      { role: "user", content: "Hi" },
+      withUsageAnnotation({ role: "assistant", content: "Hello" }, createUsageAnnotation("openai", "gpt-4o", usage, 0.002)),
+      { role: "user", content: "Again" },
+      withUsageAnnotation({ role: "assistant", content: "Sure" }, createUsageAnnotation("gemini", "gemini-2.5-pro", usage, null)),
+      { role: "assistant", content: "No usage" },
+    ];
+
+    expect(sumMessageUsage(messages)).toEqual({
+      inputTokens: 200,
+      outputTokens: 100,
+      reasoningTokens: 20,
+      cachedInputTokens: 0,
+      cost: 0.002,
+      replies: 2,
+      unpricedReplies: 1,
+    });
+  });
+
+  it("groups records by local day, provider and model", () => {
+    const report = buildUsageReport([
+      record({}),
+      record({ createdAt: new Date(2026, 2, 11, 9), cost: 0.05 }),
+      record({ providerId: "anthropic", modelId: "claude-sonnet-4-5", cost: 0.2 }),
+      record({ providerId: "ollama", modelId: "llama3.2", cost: 0 }),
+      record({ providerId: "gemini", modelId: "gemini-2.5-pro", cost: null }),
+    ]);
+
+    expect(report.total).toMatchObject({ replies: 5, unpricedReplies: 1, inputTokens: 5_000 });
+    expect(report.total.cost).toBeCloseTo(0.26);
+    expect(report.byDay.map((entry) => [entry.day, entry.replies])).toEqual([
+      ["2026-03-11", 1],
+      ["2026-03-10", 4],
+    ]);
+    expect(report.byProvider.map((entry) => entry.providerId)).toEqual([
+      "anthropic",
+      "openrouter",
+      "ollama",
+      "gemini",
+    ]);
+    expect(report.byModel[1]).toMatchObject({ providerId: "openrouter", modelId: "acme/text-1", replies: 2 });
+    expect(report.byModel[1].cost).toBeCloseTo(0.06);
+  });
+
+  it("appends a finished call to the usage ledger", () => {
+    const run = jest.fn();
+    const values = jest.fn(() => ({ run }));
+    const insert = jest.fn(() => ({ values }));
+    const db = { insert } as unknown as Parameters<typeof recordUsage>[0];
+    const finishedAt = new Date(2026, 2, 10, 12);
+
+    recordUsage(
+      db,
+      createUsageAnnotation(
+        "anthropic",
+        "claude-haiku-4-5",
+        { inputTokens: 900, outputTokens: 40, reasoningTokens: 0, cachedInputTokens: 100 },
+        0.002,
+      ),
+      { chatId: null, source: "summary" },
+      finishedAt,
+    );
+
+    expect(insert).toHaveBeenCalledWith(usageEvent);
+    expect(values).toHaveBeenCalledWith({
+      chatId: null,
+      source: "summary",
+      providerId: "anthropic",
+      modelId: "claude-haiku-4-5",
+      inputTokens: 900,
+      outputTokens: 40,
+      reasoningTokens: 0,
+      cachedInputTokens: 100,
+      cost: 0.002,
+      createdAt: finishedAt,
+    });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts ranges at local midnight", () => {
+    const now = new Date(2026, 2, 10, 15, 30);
+
+    expect(getUsageRangeStart("7d", now)).toEqual(new Date(2026, 2, 4));
+    expect(getUsageRangeStart("30d", now)).toEqual(new Date(2026, 1, 9));
+    expect(getUsageRangeStart("all", now)).toBeNull();
+  });
+
+  it("summarizes totals in one line", () => {
+    const totals = buildUsageReport([record({ inputTokens: 10_000, outputTokens: 2_400, cost: 0.03 })]).total;
+
+    expect(formatUsageTotals(buildUsageReport([]).total)).toBe("No usage reported yet");
+    expect(formatUsageTotals(totals)).toBe("12.4K tokens · $0.03");
+    expect(formatUsageTotals({ ...totals, unpricedReplies: 1 })).toBe("12.4K tokens · no price set");
+    expect(formatUsageTotals({ ...totals, replies: 3, unpricedReplies: 2 }))
+      .toBe("12.4K tokens · $0.03 + 2 unpriced");
+  });
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { fetch as expoFetch } from 'expo/fetch';
+
+import {
+  isBlockedDomain,
+  mapWebPageErrorToMessage,
+  readWebPage,
+  WebPageReaderError,
+} from '../web-page-reader';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const mockExpoFetch = expoFetch as unknown as jest.MockedFunction<(url: string, init: RequestInit) => Promise<Response>>;
+
+const htmlResponse = (html: string) => new Response(html, {
+  status: 200,
+  headers: { 'content-type': 'text/html; charset=utf-8' },
+});
+
+const redirect = (location: string) => new Response(null, { status: 301, headers: { location } });
+
+describe('web-page-reader', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('matches blocked domains and their subdomains only', () => {
+    expect(isBlockedDomain('example.com', ['example.com'])).toBe(true);
+    expect(isBlockedDomain('News.Example.com', ['example.com'])).toBe(true);
+    expect(isBlockedDomain('notexample.com', ['example.com'])).toBe(false);
+  });
+
+  it('follows redirects and reports the final URL', async () => {
+    mockExpoFetch
+      .mockResolvedValueOnce(redirect('/tides'))
+      .mockResolvedValueOnce(htmlResponse('<title>Tides</title><meta name="author" content="Ana"><p>High at six.</p>'));
+
+    await expect(readWebPage('https://example.com/old')).resolves.toEqual({
+      url: 'https://example.com/tides',
+      title: 'Tides',
+      byline: 'Ana',
+      content: 'High at six.',
+      truncated: false,
+    });
+    expect(mockExpoFetch.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it('refuses blocked domains, including ones reached through a redirect', async () => {
+    await expect(readWebPage('https://www.pinterest.com/pin/1', { blockedDomains: ['pinterest.com'] }))
+      .rejects.toMatchObject({ code: 'blocked' });
+    expect(mockExpoFetch).not.toHaveBeenCalled();
+
+    mockExpoFetch.mockResolvedValueOnce(redirect('https://pinterest.com/pin/1'));
+
+    await expect(readWebPage('https://pin.it/abc', { blockedDomains: ['pinterest.com'] }))
+      .rejects.toMatchObject({ code: 'blocked' });
+    expect(mockExpoFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after too many redirects', async () => {
+    mockExpoFetch.mockImplementation(async () => redirect('https://example.com/loop'));
+
+    await expect(readWebPage('https://example.com/loop', { maxRedirects: 2 }))
+      .rejects.toMatchObject({ code: 'too_many_redirects' });
+    expect(mockExpoFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps the body and the readable text', async () => {
+    mockExpoFetch.mockResolvedValueOnce(htmlResponse(`<p>${'a'.repeat(500)}</p>`));
+
+    const page = await readWebPage('https://example.com', { maxBytes: 100, maxChars: 50 });
+
+    expect(page.truncated).toBe(true);
+    expect(page.content).toBe(`${'a'.repeat(50)}…`);
+  });
+
+  it('rejects pages that are not text', async () => {
+    mockExpoFetch.mockResolvedValueOnce(new Response('%PDF', {
+      status: 200,
+      headers: { 'content-type': 'application/pdf' },
+    }));
+
+    await expect(readWebPage('https://example.com/report.pdf')).rejects.toMatchObject({
+      code: 'unsupported_content',
+      message: 'This page is application/pdf, not text that can be read.',
+    });
+  });
+
+  it('maps reader errors to messages for the model', () => {
+    expect(mapWebPageErrorToMessage(new WebPageReaderError('Not found', 'http', 404)))
+      .toBe('The page returned HTTP 404.');
+    expect(mapWebPageErrorToMessage(new WebPageReaderError('x', 'timeout'))).toBe('The page took too long to load.');
+    expect(mapWebPageErrorToMessage(new Error('boom'))).toBe('Could not read the page.');
+  });
+});
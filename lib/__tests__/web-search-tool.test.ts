@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { fetch as expoFetch } from 'expo/fetch';
+
+import { createWebSearchToolRuntime } from '../web-search-tool';
+import { createSearchBackend, type SearchBackend } from '../search-backends';
+import type { DocumentSearcher } from '@/types/document.types';
+
+jest.mock('expo/fetch', () => ({
+  fetch: jest.fn(),
+}));
+
+const mockExpoFetch = expoFetch as unknown as jest.MockedFunction<(url: string, init: RequestInit) => Promise<Response>>;
+
+const toolOptions = { toolCallId: 'call-1', messages: [] };
+
+const createBackend = (): SearchBackend => ({
+  id: 'searxng',
+  search: jest.fn(async (query: string) => ({
+    query,
+    backend: 'searxng' as const,
+    sources: query === 'tides'
+      ? [
+        { title: 'Tables', url: 'https://tides.example.com' },
+        { title: 'Harbour', url: 'https://harbour.example.com' },
+      ]
+      : [
+        { title: 'Harbour again', url: 'https://HARBOUR.example.com' },
+        { title: 'Moon', url: 'https://moon.example.com' },
+      ],
+  })),
+});
+
+const createDocuments = (): DocumentSearcher => ({
+  search: jest.fn(async () => [
+    {
+      documentId: 7,
+      documentName: 'Tide tables.pdf',
+      collectionName: 'Sailing',
+      chunkIndex: 2,
+      chunkCount: 40,
+      text: 'High water at the harbour follows the moon by about fifty minutes a day.',
+      score: 0.82,
+    },
+  ]),
+});
+
+describe('web-search-tool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('numbers sources once per URL across searches and page reads', async () => {
+    const runtime = createWebSearchToolRuntime({ backend: createBackend(), enabled: true });
+    const tools = runtime.createTools('openai')!;
+
+    const first = await tools.searchWeb!.execute!({ query: 'tides' }, toolOptions) as any;
+    const second = await tools.searchWeb!.execute!({ query: 'moon pull' }, toolOptions) as any;
+
+    expect(first.sources.map((source: any) => source.citationNumber)).toEqual([1, 2]);
+    expect(second.sources.map((source: any) => source.citationNumber)).toEqual([2, 3]);
+
+    mockExpoFetch.mockResolvedValueOnce(new Response('<title>Moon</title><p>The moon pulls the sea.</p>', {
+      status: 200,
+      headers: { 'content-type': 'text/html' },
+    }));
+    const page = await tools.readUrl!.execute!({ url: 'https://moon.example.com' }, toolOptions) as any;
+
+    expect(page.citationNumber).toBe(3);
+    expect(runtime.getAnnotationSnapshot()?.queries[2].sources[0]).toMatchObject({
+      url: 'https://moon.example.com/',
+      citationNumber: 3,
+    });
+  });
+
+  it('keeps the numbers of a repeated search', async () => {
+    const backend = createBackend();
+    const tools = createWebSearchToolRuntime({ backend, enabled: true }).createTools('openai')!;
+
+    await tools.searchWeb!.execute!({ query: 'tides' }, toolOptions);
+    const repeated = await tools.searchWeb!.execute!({ query: 'Tides ' }, toolOptions) as any;
+
+    expect(backend.search).toHaveBeenCalledTimes(1);
+    expect(repeated.sources.map((source: any) => source.citationNumber)).toEqual([1, 2]);
+  });
+
+  it('numbers document passages alongside web sources', async () => {
+    const runtime = createWebSearchToolRuntime({
+      backend: createBackend(),
+      documents: createDocuments(),
+      enabled: true,
+    });
+    const tools = runtime.createTools('openai')!;
+
+    await tools.searchWeb!.execute!({ query: 'tides' }, toolOptions);
+    const result = await tools.searchDocuments!.execute!({ query: 'harbour high water' }, toolOptions) as any;
+
+    expect(runtime.toolCount).toBe(3);
+    expect(result.passages[0]).toMatchObject({ citationNumber: 3, documentName: 'Tide tables.pdf' });
+    expect(runtime.getAnnotationSnapshot()?.queries[1]).toMatchObject({
+      kind: 'documents',
+      sources: [{ documentId: 7, citationNumber: 3, byline: 'Sailing · Passage 3 of 40' }],
+    });
+  });
+
+  it('offers only document search when web search is off', async () => {
+    const runtime = createWebSearchToolRuntime({ documents: createDocuments(), enabled: true });
+    const tools = runtime.createTools('ollama')!;
+
+    expect(Object.keys(tools)).toEqual(['searchDocuments']);
+    expect(runtime.systemPrompt).toContain('searchDocuments');
+    expect(runtime.systemPrompt).not.toContain('searchWeb');
+  });
+
+  it('reports a failed document search to the model', async () => {
+    const documents: DocumentSearcher = {
+      search: jest.fn(async () => {
+        throw new Error('offline');
+      }),
+    };
+    const tools = createWebSearchToolRuntime({ documents, enabled: true }).createTools('openai')!;
+
+    const result = await tools.searchDocuments!.execute!({ query: 'tides' }, toolOptions) as any;
+
+    expect(result).toMatchObject({ resultCount: 0, error: 'Could not search the document library.' });
+  });
+
+  it('cancels a running web search when the reply is aborted', async () => {
+    mockExpoFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      });
+    }));
+    const backend = createSearchBackend({ id: 'searxng', url: 'https://search.example.com' });
+    const tools = createWebSearchToolRuntime({ backend, enabled: true }).createTools('openai')!;
+    const controller = new AbortController();
+
+    const search = tools.searchWeb!.execute!({ query: 'tides' }, { ...toolOptions, abortSignal: controller.signal });
+    controller.abort();
+
+    expect(await search).toMatchObject({ resultCount: 0, error: expect.any(String) });
+    expect(mockExpoFetch.mock.calls[0][1].signal?.aborted).toBe(true);
+
+    mockExpoFetch.mockResolvedValueOnce(new Response(JSON.stringify({
+      results: [{ title: 'Tables', url: 'https://tides.example.com' }],
+    }), { status: 200, headers: { 'content-type': 'application/json' } }));
+    const retried = await tools.searchWeb!.execute!({ query: 'tides' }, toolOptions) as any;
+
+    expect(retried.resultCount).toBe(1);
+  });
+});
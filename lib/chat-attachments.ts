@@ -1,3 +1,4 @@
+import type { DocumentPickerAsset } from "expo-document-picker";
 import type { ImagePickerAsset } from "expo-image-picker";
 
 import { createIdempotencyKey } from "@/lib/concurrency";
@@ -15,6 +16,32 @@ const MODEL_SUPPORTED_IMAGE_MEDIA_TYPES = new Set([
 
 const DEFAULT_IMAGE_MEDIA_TYPE = "image/jpeg";
 const DEFAULT_VIDEO_MEDIA_TYPE = "video/mp4";
+const PDF_MEDIA_TYPE = "application/pdf";
+
+/**
+ * What the document picker offers. Android often labels source files as
+ * octet-stream, so that is allowed and the extension decides afterwards.
+ */
+export const DOCUMENT_PICKER_TYPES = [PDF_MEDIA_TYPE, "text/*", "application/json", "application/octet-stream"];
+
+const DOCUMENT_EXTENSION_MEDIA_TYPES: Readonly<Record<string, string>> = {
+  pdf: PDF_MEDIA_TYPE,
+  txt: "text/plain",
+  text: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  json: "application/json",
+};
+
+/** Source files are read as plain text; the extension stays in the file name */
+const CODE_EXTENSIONS = new Set([
+  "c", "cc", "cpp", "cs", "css", "dart", "go", "gradle", "h", "hpp", "html", "ini", "java",
+  "js", "jsx", "kt", "kts", "lua", "m", "mjs", "php", "pl", "py", "r", "rb", "rs", "scala",
+  "scss", "sh", "sql", "swift", "toml", "ts", "tsx", "vue", "xml", "yaml", "yml", "zsh",
+]);
 
 export const isImageMediaType = (mediaType: string): boolean => {
   return mediaType.toLowerCase().startsWith("image/");
@@ -24,6 +51,66 @@ export const isVideoMediaType = (mediaType: string): boolean => {
   return mediaType.toLowerCase().startsWith("video/");
 };
 
+export const isPdfMediaType = (mediaType: string): boolean => {
+  return mediaType.toLowerCase() === PDF_MEDIA_TYPE;
+};
+
+/** Documents whose bytes are text the model can read once decoded */
+export const isTextDocumentMediaType = (mediaType: string): boolean => {
+  const normalized = mediaType.toLowerCase();
+  return normalized.startsWith("text/") || normalized === "application/json";
+};
+
+export const isDocumentMediaType = (mediaType: string): boolean => {
+  return isPdfMediaType(mediaType) || isTextDocumentMediaType(mediaType);
+};
+
+export const attachmentKindForMediaType = (mediaType: string): ChatAttachmentKind => {
+  if (isImageMediaType(mediaType)) {
+    return "image";
+  }
+  return isVideoMediaType(mediaType) ? "video" : "document";
+};
+
+const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex === -1 ? "" : fileName.slice(dotIndex + 1).toLowerCase();
+};
+
+/**
+ * The media type a picked document is sent as, or null when it is neither a
+ * PDF nor readable text. The extension wins because pickers mislabel code.
+ */
+export const resolveDocumentMediaType = (fileName: string, mimeType?: string): string | null => {
+  const extension = getFileExtension(fileName);
+  const byExtension = DOCUMENT_EXTENSION_MEDIA_TYPES[extension];
+  if (byExtension) {
+    return byExtension;
+  }
+  if (CODE_EXTENSIONS.has(extension)) {
+    return "text/plain";
+  }
+
+  return mimeType && isDocumentMediaType(mimeType) ? mimeType : null;
+};
+
+/** "PDF · 12 pages", "CSV", "TS" — the second line of a document card */
+export const formatDocumentDetails = (document: {
+  mediaType: string;
+  fileName?: string;
+  pageCount?: number;
+}): string => {
+  if (isPdfMediaType(document.mediaType)) {
+    if (!document.pageCount) {
+      return "PDF";
+    }
+    return `PDF · ${document.pageCount} ${document.pageCount === 1 ? "page" : "pages"}`;
+  }
+
+  const extension = document.fileName ? getFileExtension(document.fileName) : "";
+  return extension ? extension.toUpperCase() : "Text";
+};
+
 export const isModelSupportedImageType = (mediaType: string): boolean => {
   return MODEL_SUPPORTED_IMAGE_MEDIA_TYPES.has(mediaType.toLowerCase());
 };
@@ -36,6 +123,15 @@ export const isLocalAssetUri = (value: string): boolean => {
   return /^(file|content|ph|assets-library):\/\//i.test(value);
 };
 
+export const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
 export const asDataUri = (value: string, mediaType: string): string => {
   if (isDataUri(value)) {
     return value;
@@ -88,6 +184,9 @@ export const attachmentLabel = (attachment: ChatAttachment): string => {
     return attachment.fileName;
   }
 
+  if (attachment.kind === "document") {
+    return "Document";
+  }
   return attachment.kind === "video" ? "Video attachment" : "Image attachment";
 };
 
@@ -114,3 +213,29 @@ export const normalizePickerAsset = (
     durationMs: typeof asset.duration === "number" ? asset.duration : null,
   };
 };
+
+/** Null when the picked file is not a supported document */
+export const normalizeDocumentAsset = (
+  asset: DocumentPickerAsset,
+  index: number,
+  pageCount?: number,
+): ChatAttachment | null => {
+  const mediaType = resolveDocumentMediaType(asset.name, asset.mimeType);
+  if (!mediaType) {
+    return null;
+  }
+
+  return {
+    id: createIdempotencyKey("chat-attachment", [
+      String(Date.now()),
+      String(index),
+      asset.uri,
+    ]),
+    uri: asset.uri,
+    kind: "document",
+    mediaType,
+    fileName: asset.name,
+    fileSize: asset.size,
+    pageCount,
+  };
+};
@@ -0,0 +1,318 @@
+/**
+ * @file chat-branches.ts
+ * @purpose Branching for edited, regenerated and compared turns, plus mapping between
+ * in-memory forks and `message_branch` rows.
+ *
+ * The active path is always the plain `messages` / `thinkingOutput` pair the
+ * rest of the chat stack works with. Forks only remember the continuations
+ * that are not currently shown, so sending, streaming and persistence of the
+ * active path stay linear.
+ */
+
+import type { ModelMessage } from "ai";
+import { and, eq } from "drizzle-orm";
+
+import { messageBranch } from "@/db/schema";
+import type { ChatTransaction } from "@/lib/chat-message-rows";
+import type { ChatBranchFork, ChatBranchTail } from "@/types/chat.types";
+
+export interface ChatBranchState {
+  messages: ModelMessage[];
+  thinkingOutput: string[];
+  forks: ChatBranchFork[];
+}
+
+/** One candidate reply to a turn, e.g. a single column of compare mode */
+export interface ChatBranchReply {
+  message: ModelMessage;
+  thinkingOutput: string;
+}
+
+/** Pager position for the message at a fork point (zero-based index) */
+export interface ChatBranchPosition {
+  index: number;
+  count: number;
+}
+
+export type MessageBranchRowValues = typeof messageBranch.$inferInsert;
+
+type PersistedBranchRow = Pick<
+  typeof messageBranch.$inferSelect,
+  "ordinal" | "activeIndex" | "variants"
+>;
+
+export interface MessageBranchWritePlan {
+  /** Forks that are new or whose variants or selection changed */
+  upserts: MessageBranchRowValues[];
+  /** Fork ordinals that were stored before but no longer exist */
+  deleteOrdinals: number[];
+  /** Signatures of every fork after the plan is applied, keyed by ordinal */
+  signatures: Record<number, string>;
+}
+
+function sortForks(forks: ChatBranchFork[]): ChatBranchFork[] {
+  return [...forks].sort((left, right) => left.ordinal - right.ordinal);
+}
+
+function captureTail(state: ChatBranchState, ordinal: number): ChatBranchTail {
+  return {
+    messages: state.messages.slice(ordinal),
+    thinkingOutput: state.thinkingOutput.slice(ordinal),
+    forks: state.forks.filter((fork) => fork.ordinal > ordinal),
+  };
+}
+
+function alignThinkingOutput(thinkingOutput: string[], length: number): string[] {
+  return Array.from({ length }, (_, index) => thinkingOutput[index] ?? "");
+}
+
+export function findBranchFork(
+  forks: readonly ChatBranchFork[],
+  ordinal: number,
+): ChatBranchFork | null {
+  return forks.find((fork) => fork.ordinal === ordinal) ?? null;
+}
+
+export function getBranchPosition(
+  forks: readonly ChatBranchFork[],
+  ordinal: number,
+): ChatBranchPosition | null {
+  const fork = findBranchFork(forks, ordinal);
+  if (!fork || fork.variants.length < 2) {
+    return null;
+  }
+
+  return { index: fork.activeIndex, count: fork.variants.length };
+}
+
+/**
+ * Start a new, empty continuation at `ordinal`. Everything from that position
+ * onward is kept as a sibling variant and the active path is cut back so the
+ * caller can append the replacement turn.
+ */
+export function forkConversation(state: ChatBranchState, ordinal: number): ChatBranchState {
+  const boundedOrdinal = Math.max(0, Math.min(ordinal, state.messages.length));
+  const existing = findBranchFork(state.forks, boundedOrdinal);
+  const variants = existing ? [...existing.variants] : [];
+  const previousTail = captureTail(state, boundedOrdinal);
+  const thinkingOutput = alignThinkingOutput(state.thinkingOutput, state.messages.length);
+  const earlierForks = state.forks.filter((fork) => fork.ordinal < boundedOrdinal);
+
+  // Nothing to keep: reuse the empty slot rather than stacking blank pages.
+  if (previousTail.messages.length === 0) {
+    return {
+      messages: state.messages.slice(0, boundedOrdinal),
+      thinkingOutput: thinkingOutput.slice(0, boundedOrdinal),
+      forks: existing ? sortForks([...earlierForks, existing]) : earlierForks,
+    };
+  }
+
+  if (existing) {
+    variants[existing.activeIndex] = previousTail;
+  } else {
+    variants.push(previousTail);
+  }
+  variants.push(null);
+
+  return {
+    messages: state.messages.slice(0, boundedOrdinal),
+    thinkingOutput: thinkingOutput.slice(0, boundedOrdinal),
+    forks: sortForks([
+      ...earlierForks,
+      { ordinal: boundedOrdinal, activeIndex: variants.length - 1, variants },
+    ]),
+  };
+}
+
+/**
+ * Make another variant of the fork at `ordinal` the active path. The current
+ * continuation is stored back into its slot first; a continuation with no
+ * messages (for example an edit that was cancelled before anything streamed)
+ * is dropped instead of becoming an empty page.
+ */
+export function switchConversationBranch(
+  state: ChatBranchState,
+  ordinal: number,
+  targetIndex: number,
+): ChatBranchState {
+  const fork = findBranchFork(state.forks, ordinal);
+  if (
+    !fork
+    || targetIndex === fork.activeIndex
+    || targetIndex < 0
+    || targetIndex >= fork.variants.length
+  ) {
+    return state;
+  }
+
+  const target = fork.variants[targetIndex];
+  if (!target) {
+    return state;
+  }
+
+  const currentTail = captureTail(state, ordinal);
+  let variants: (ChatBranchTail | null)[] = [...fork.variants];
+  variants[fork.activeIndex] = currentTail;
+  variants[targetIndex] = null;
+
+  if (currentTail.messages.length === 0) {
+    variants = variants.filter((_, index) => index !== fork.activeIndex);
+  }
+
+  const activeIndex = variants.indexOf(null);
+  const prefixThinking = alignThinkingOutput(state.thinkingOutput, ordinal);
+  const nextForks = state.forks.filter((entry) => entry.ordinal < ordinal);
+
+  if (variants.length > 1) {
+    nextForks.push({ ordinal, activeIndex, variants });
+  }
+
+  return {
+    messages: [...state.messages.slice(0, ordinal), ...target.messages],
+    thinkingOutput: [
+      ...prefixThinking,
+      ...alignThinkingOutput(target.thinkingOutput, target.messages.length),
+    ],
+    forks: sortForks([...nextForks, ...target.forks]),
+  };
+}
+
+/**
+ * Append a user turn whose reply was picked from several candidates. The
+ * chosen reply continues the active path and the rest become sibling variants
+ * at the reply's position, so they stay reachable through the branch pager.
+ */
+export function appendTurnWithAlternatives(
+  state: ChatBranchState,
+  prompt: ModelMessage,
+  chosen: ChatBranchReply,
+  alternatives: readonly ChatBranchReply[],
+): ChatBranchState {
+  const replyOrdinal = state.messages.length + 1;
+  const earlierForks = state.forks.filter((fork) => fork.ordinal < replyOrdinal);
+  const variants: (ChatBranchTail | null)[] = alternatives.map((reply) => ({
+    messages: [reply.message],
+    thinkingOutput: [reply.thinkingOutput],
+    forks: [],
+  }));
+  variants.push(null);
+
+  return {
+    messages: [...state.messages, prompt, chosen.message],
+    thinkingOutput: [
+      ...alignThinkingOutput(state.thinkingOutput, state.messages.length),
+      "",
+      chosen.thinkingOutput,
+    ],
+    forks: variants.length > 1
+      ? sortForks([
+        ...earlierForks,
+        { ordinal: replyOrdinal, activeIndex: variants.length - 1, variants },
+      ])
+      : earlierForks,
+  };
+}
+
+function createBranchSignature(activeIndex: number, variants: unknown): string {
+  return JSON.stringify([activeIndex, variants]);
+}
+
+export function createBranchSignaturesFromRows(
+  rows: readonly PersistedBranchRow[],
+): Record<number, string> {
+  const signatures: Record<number, string> = {};
+
+  rows.forEach((row) => {
+    signatures[row.ordinal] = createBranchSignature(row.activeIndex, row.variants);
+  });
+
+  return signatures;
+}
+
+/**
+ * Diff the in-memory forks against the previously persisted signatures so a
+ * save only rewrites forks that changed.
+ */
+export function planMessageBranchWrites(
+  previousSignatures: Readonly<Record<number, string>>,
+  chatId: number,
+  forks: readonly ChatBranchFork[],
+  now: Date,
+): MessageBranchWritePlan {
+  const upserts: MessageBranchRowValues[] = [];
+  const signatures: Record<number, string> = {};
+
+  forks.forEach((fork) => {
+    const signature = createBranchSignature(fork.activeIndex, fork.variants);
+    signatures[fork.ordinal] = signature;
+
+    if (previousSignatures[fork.ordinal] === signature) {
+      return;
+    }
+
+    upserts.push({
+      chatId,
+      ordinal: fork.ordinal,
+      activeIndex: fork.activeIndex,
+      variants: fork.variants,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  const deleteOrdinals = Object.keys(previousSignatures)
+    .map(Number)
+    .filter((ordinal) => signatures[ordinal] === undefined);
+
+  return { upserts, deleteOrdinals, signatures };
+}
+
+export function applyMessageBranchWritePlan(
+  tx: ChatTransaction,
+  chatId: number,
+  plan: MessageBranchWritePlan,
+): void {
+  plan.upserts.forEach((row) => {
+    tx
+      .insert(messageBranch)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [messageBranch.chatId, messageBranch.ordinal],
+        set: {
+          activeIndex: row.activeIndex,
+          variants: row.variants,
+          updatedAt: row.updatedAt,
+        },
+      })
+      .run();
+  });
+
+  plan.deleteOrdinals.forEach((ordinal) => {
+    tx
+      .delete(messageBranch)
+      .where(and(eq(messageBranch.chatId, chatId), eq(messageBranch.ordinal, ordinal)))
+      .run();
+  });
+}
+
+/**
+ * Rebuild forks from stored rows, skipping any whose shape no longer matches
+ * (for example a hand-edited database) rather than failing hydration.
+ */
+export function forksFromRows(rows: readonly PersistedBranchRow[]): ChatBranchFork[] {
+  return sortForks(
+    rows
+      .filter((row) => (
+        Array.isArray(row.variants)
+        && row.variants.length > 1
+        && row.activeIndex >= 0
+        && row.activeIndex < row.variants.length
+        && row.variants[row.activeIndex] === null
+      ))
+      .map((row) => ({
+        ordinal: row.ordinal,
+        activeIndex: row.activeIndex,
+        variants: row.variants,
+      })),
+  );
+}
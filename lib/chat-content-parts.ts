@@ -14,6 +14,8 @@ export interface ParsedFilePart {
   uri: string;
   mediaType: string;
   filename?: string;
+  /** PDF page count stored with the part when it was attached */
+  pageCount?: number;
 }
 
 export interface ParsedMessageContent {
@@ -25,6 +27,11 @@ export interface ParsedMessageContent {
 const DEFAULT_IMAGE_MEDIA_TYPE = "image/jpeg";
 const DEFAULT_FILE_MEDIA_TYPE = "application/octet-stream";
 
+const readPageCount = (providerOptions: unknown): number | undefined => {
+  const pageCount = (providerOptions as { seabreeze?: { pageCount?: unknown } } | undefined)?.seabreeze?.pageCount;
+  return typeof pageCount === "number" && pageCount > 0 ? pageCount : undefined;
+};
+
 const resolvePartUri = (value: unknown): string | null => {
   if (typeof value === "string" && value.length > 0) {
     return value;
@@ -120,6 +127,7 @@ export const parseMessageContent = (content: unknown): ParsedMessageContent => {
           ? partRecord.mediaType
           : DEFAULT_FILE_MEDIA_TYPE,
         filename: typeof partRecord.filename === "string" ? partRecord.filename : undefined,
+        pageCount: readPageCount(partRecord.providerOptions),
       });
       return;
     }
@@ -0,0 +1,77 @@
+import type { ModelMessage } from "ai";
+
+import { getMessageAnnotations } from "@/lib/chat-error-annotations";
+import type {
+  AnnotatedModelMessage,
+  ChatFallbackAnnotation,
+  ChatFallbackHop,
+  ChatMessageAnnotation,
+} from "@/types/chat.types";
+import {
+  resolveProviderInfo,
+  type CustomEndpoint,
+  type ErrorCategory,
+  type ProviderId,
+} from "@/types/provider.types";
+
+/** Short reason shown next to each hop and in the fallback settings */
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  configuration: "not set up",
+  authentication: "sign-in failed",
+  rate_limit: "rate limited",
+  server_error: "server error",
+  network: "network error",
+  timeout: "timed out",
+  model_not_found: "model not found",
+  context_length: "context too long",
+  unknown: "unexpected error",
+};
+
+export const createFallbackAnnotation = (hops: ChatFallbackHop[]): ChatFallbackAnnotation => {
+  return {
+    type: "fallback",
+    hops,
+  };
+};
+
+export const getFallbackAnnotation = (
+  message: ModelMessage,
+): ChatFallbackAnnotation | null => {
+  const annotation = getMessageAnnotations(message).find(
+    (candidate): candidate is ChatFallbackAnnotation => candidate.type === "fallback",
+  );
+
+  return annotation ?? null;
+};
+
+export const withFallbackAnnotation = (
+  message: ModelMessage,
+  annotation: ChatFallbackAnnotation,
+): AnnotatedModelMessage => {
+  const annotations = getMessageAnnotations(message).filter(
+    (candidate): candidate is ChatMessageAnnotation => candidate.type !== "fallback",
+  );
+
+  return {
+    ...(message as AnnotatedModelMessage),
+    annotations: [...annotations, annotation],
+  };
+};
+
+/**
+ * "Fell back from OpenAI (rate limited) → Anthropic (server error)" for the
+ * providers a reply gave up on before the one that answered.
+ */
+export const formatFallbackAnnotationLabel = (
+  annotation: ChatFallbackAnnotation,
+  customEndpoints: CustomEndpoint[] = [],
+): string => {
+  const providerName = (providerId: ProviderId): string => {
+    return resolveProviderInfo(providerId, customEndpoints)?.name ?? providerId;
+  };
+  const steps = annotation.hops.map(
+    (hop) => `${providerName(hop.fromProvider)} (${ERROR_CATEGORY_LABELS[hop.category]})`,
+  );
+
+  return `Fell back from ${steps.join(" → ")}`;
+};
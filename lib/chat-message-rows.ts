@@ -0,0 +1,191 @@
+/**
+ * @file chat-message-rows.ts
+ * @purpose Mapping between in-memory chat messages and normalized `message` table rows.
+ */
+
+import type { ModelMessage } from "ai";
+import { and, eq, gte } from "drizzle-orm";
+
+import { message } from "@/db/schema";
+import type useDatabase from "@/hooks/useDatabase";
+import { getModelAnnotation } from "@/lib/chat-model-annotations";
+import { getUsageAnnotation } from "@/lib/chat-usage-annotations";
+import { indexMessageRow, removeMessagesFromIndex } from "@/lib/chat-search";
+import type { ChatMessageAnnotation } from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+type ChatDatabase = ReturnType<typeof useDatabase>;
+
+/** Transaction handle passed to `db.transaction` callbacks. */
+export type ChatTransaction = Parameters<Parameters<ChatDatabase["transaction"]>[0]>[0];
+
+export type MessageRowValues = typeof message.$inferInsert;
+
+type PersistedMessageRow = Pick<
+  typeof message.$inferSelect,
+  "ordinal" | "role" | "content" | "reasoning" | "annotations"
+>;
+
+export interface MessageRowAuthor {
+  providerId: ProviderId | null;
+  modelId: string | null;
+}
+
+export interface MessageRowWritePlan {
+  /** Rows whose content differs from what is already stored */
+  upserts: MessageRowValues[];
+  /** First ordinal that no longer exists in memory, or null when nothing shrank */
+  deleteFromOrdinal: number | null;
+  /** Signatures of every row after the plan is applied, indexed by ordinal */
+  signatures: string[];
+}
+
+function readAnnotations(entry: ModelMessage): ChatMessageAnnotation[] | null {
+  const annotations = (entry as { annotations?: unknown }).annotations;
+  return Array.isArray(annotations) && annotations.length > 0
+    ? annotations as ChatMessageAnnotation[]
+    : null;
+}
+
+function readReasoning(thinkingOutput: readonly string[], ordinal: number): string | null {
+  const reasoning = thinkingOutput[ordinal];
+  return typeof reasoning === "string" && reasoning.length > 0 ? reasoning : null;
+}
+
+function createSignature(
+  role: string,
+  content: unknown,
+  reasoning: string | null,
+  annotations: unknown,
+): string {
+  return JSON.stringify([role, content, reasoning, annotations ?? null]);
+}
+
+/**
+ * Rebuild per-ordinal signatures from stored rows so a later save can diff
+ * against them. Missing ordinals stay undefined and are always rewritten.
+ */
+export function createSignaturesFromRows(rows: readonly PersistedMessageRow[]): string[] {
+  const signatures: string[] = [];
+
+  rows.forEach((row) => {
+    signatures[row.ordinal] = createSignature(
+      row.role,
+      row.content,
+      row.reasoning ?? null,
+      row.annotations && row.annotations.length > 0 ? row.annotations : null,
+    );
+  });
+
+  return signatures;
+}
+
+/**
+ * Compare the in-memory conversation with the previously persisted signatures
+ * and return only the rows that need to be written.
+ */
+export function planMessageRowWrites(
+  previousSignatures: readonly (string | undefined)[],
+  chatId: number,
+  messages: readonly ModelMessage[],
+  thinkingOutput: readonly string[],
+  author: MessageRowAuthor,
+  now: Date,
+): MessageRowWritePlan {
+  const upserts: MessageRowValues[] = [];
+  const signatures: string[] = [];
+
+  messages.forEach((entry, ordinal) => {
+    const reasoning = readReasoning(thinkingOutput, ordinal);
+    const annotations = readAnnotations(entry);
+    const signature = createSignature(entry.role, entry.content, reasoning, annotations);
+    signatures.push(signature);
+
+    if (previousSignatures[ordinal] === signature) {
+      return;
+    }
+
+    const isAssistant = entry.role === "assistant";
+    // Regenerated replies carry their own provider/model, which may differ from the chat's,
+    // and so do replies a fallback provider answered.
+    const modelAnnotation = isAssistant ? getModelAnnotation(entry) : null;
+    const usage = isAssistant ? getUsageAnnotation(entry) : null;
+    upserts.push({
+      chatId,
+      ordinal,
+      role: entry.role,
+      content: entry.content,
+      reasoning,
+      annotations,
+      providerId: isAssistant ? modelAnnotation?.provider ?? usage?.provider ?? author.providerId : null,
+      modelId: isAssistant ? modelAnnotation?.modelId ?? usage?.modelId ?? author.modelId : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return {
+    upserts,
+    deleteFromOrdinal: previousSignatures.length > messages.length ? messages.length : null,
+    signatures,
+  };
+}
+
+/**
+ * Apply a write plan inside a transaction. Upserts keep the original
+ * createdAt so a rewritten message still sorts by when it first appeared,
+ * and the search index is updated alongside each row.
+ */
+export function applyMessageRowWritePlan(
+  tx: ChatTransaction,
+  chatId: number,
+  plan: MessageRowWritePlan,
+): void {
+  plan.upserts.forEach((row) => {
+    tx
+      .insert(message)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [message.chatId, message.ordinal],
+        set: {
+          role: row.role,
+          content: row.content,
+          reasoning: row.reasoning,
+          annotations: row.annotations,
+          providerId: row.providerId,
+          modelId: row.modelId,
+          updatedAt: row.updatedAt,
+        },
+      })
+      .run();
+    indexMessageRow(tx, row);
+  });
+
+  if (plan.deleteFromOrdinal !== null) {
+    removeMessagesFromIndex(tx, chatId, plan.deleteFromOrdinal);
+    tx
+      .delete(message)
+      .where(and(eq(message.chatId, chatId), gte(message.ordinal, plan.deleteFromOrdinal)))
+      .run();
+  }
+}
+
+/**
+ * Convert stored rows back into the loose message records and aligned thinking
+ * output that `normalizePersistedMessages` expects.
+ */
+export function messagesFromRows(rows: readonly PersistedMessageRow[]): {
+  messages: Record<string, unknown>[];
+  thinkingOutput: string[];
+} {
+  const ordered = [...rows].sort((left, right) => left.ordinal - right.ordinal);
+
+  return {
+    messages: ordered.map((row) => ({
+      role: row.role,
+      content: row.content,
+      ...(row.annotations && row.annotations.length > 0 ? { annotations: row.annotations } : {}),
+    })),
+    thinkingOutput: ordered.map((row) => row.reasoning ?? ""),
+  };
+}
@@ -0,0 +1,60 @@
+import type { ModelMessage } from "ai";
+
+import { getMessageAnnotations } from "@/lib/chat-error-annotations";
+import type {
+  AnnotatedModelMessage,
+  ChatMessageAnnotation,
+  ChatModelAnnotation,
+} from "@/types/chat.types";
+import { resolveProviderInfo, type CustomEndpoint, type ProviderId } from "@/types/provider.types";
+
+export const createModelAnnotation = (
+  provider: ProviderId,
+  modelId: string,
+): ChatModelAnnotation => {
+  return {
+    type: "model",
+    provider,
+    modelId,
+  };
+};
+
+export const getModelAnnotation = (
+  message: ModelMessage,
+): ChatModelAnnotation | null => {
+  const annotation = getMessageAnnotations(message).find(
+    (candidate): candidate is ChatModelAnnotation => candidate.type === "model",
+  );
+
+  return annotation ?? null;
+};
+
+export const withModelAnnotation = (
+  message: ModelMessage,
+  annotation: ChatModelAnnotation,
+): AnnotatedModelMessage => {
+  const annotations = getMessageAnnotations(message).filter(
+    (candidate): candidate is ChatMessageAnnotation => candidate.type !== "model",
+  );
+
+  return {
+    ...(message as AnnotatedModelMessage),
+    annotations: [...annotations, annotation],
+  };
+};
+
+/**
+ * Short "Provider · model" label shown under a regenerated reply. Pass the
+ * custom endpoints so their user-given names replace the raw instance ids.
+ */
+export const formatModelAnnotationLabel = (
+  annotation: ChatModelAnnotation,
+  customEndpoints: CustomEndpoint[] = [],
+): string => {
+  const providerName = resolveProviderInfo(annotation.provider, customEndpoints)?.name ?? annotation.provider;
+  if (annotation.provider === "apple" || annotation.modelId === "system-default") {
+    return providerName;
+  }
+
+  return `${providerName} · ${annotation.modelId}`;
+};
@@ -0,0 +1,29 @@
+import type { ModelMessage } from "ai";
+
+import { getMessageAnnotations } from "@/lib/chat-error-annotations";
+import type { AnnotatedModelMessage, ChatMessageAnnotation } from "@/types/chat.types";
+
+export const isMessagePinned = (message: ModelMessage): boolean => {
+  return getMessageAnnotations(message).some((candidate) => candidate.type === "pin");
+};
+
+export const withPinAnnotation = (
+  message: ModelMessage,
+  pinned: boolean,
+): AnnotatedModelMessage => {
+  const annotations = getMessageAnnotations(message).filter(
+    (candidate): candidate is ChatMessageAnnotation => candidate.type !== "pin",
+  );
+  const nextAnnotations: ChatMessageAnnotation[] = pinned
+    ? [...annotations, { type: "pin" }]
+    : annotations;
+
+  const next = { ...(message as AnnotatedModelMessage) };
+  if (nextAnnotations.length > 0) {
+    next.annotations = nextAnnotations;
+  } else {
+    delete next.annotations;
+  }
+
+  return next;
+};
@@ -1,9 +1,28 @@
 import * as FileSystem from "expo-file-system/legacy";
 import type { ModelMessage } from "ai";
-
-import { isDataUri, isLocalAssetUri } from "@/lib/chat-attachments";
+import { strFromU8 } from "fflate";
+
+import {
+    decodeBase64,
+    isDataUri,
+    isLocalAssetUri,
+    isPdfMediaType,
+    isTextDocumentMediaType,
+} from "@/lib/chat-attachments";
+import { extractPdfText } from "@/lib/pdf-text";
 import type { UserMessageContent } from "@/hooks/chat/chatSendUtils";
 
+export interface PrepareMessagesOptions {
+    /** Whether the provider reads PDF file parts; otherwise their text is sent */
+    nativePdf?: boolean;
+}
+
+/** Longer documents are cut so one file cannot fill the context window */
+const MAX_DOCUMENT_TEXT_CHARS = 100_000;
+
+/** Cache keys for extracted text, kept apart from the base64 entries */
+const DOCUMENT_TEXT_CACHE_PREFIX = "text:";
+
 const stripDataUriPrefix = (value: string): string => {
     const marker = ";base64,";
     const markerIndex = value.indexOf(marker);
@@ -39,13 +58,30 @@ const messageNeedsPreparation = (message: ModelMessage): boolean => {
     });
 };
 
+const formatDocumentText = (fileName: string, text: string): string => {
+    const truncated = text.length > MAX_DOCUMENT_TEXT_CHARS;
+    const body = truncated ? text.slice(0, MAX_DOCUMENT_TEXT_CHARS) : text;
+    const note = truncated
+        ? `\n[Truncated after ${MAX_DOCUMENT_TEXT_CHARS.toLocaleString("en-US")} characters.]`
+        : "";
+
+    return `<document name="${fileName}">\n${body}${note}\n</document>`;
+};
+
 export const needsProviderMessagePreparation = (messages: ModelMessage[]): boolean => {
     return messages.some(messageNeedsPreparation);
 };
 
+/**
+ * Replaces attachment URIs with raw base64 so providers receive the bytes
+ * inline. Image parts and file parts (video, PDF) are handled alike, which is
+ * what native providers such as Gemini expect; reads are memoised per URI.
+ * Text documents, and PDFs for providers without PDF input, become text parts.
+ */
 export async function prepareMessagesForProvider(
     sourceMessages: ModelMessage[],
     attachmentDataCache: Map<string, string>,
+    options: PrepareMessagesOptions = {},
 ): Promise<ModelMessage[]> {
     const readAttachmentAsBase64 = async (uri: string): Promise<string> => {
         const cached = attachmentDataCache.get(uri);
@@ -61,6 +97,34 @@ export async function prepareMessagesForProvider(
         return base64;
     };
 
+    const readAttachmentBytes = async (data: string): Promise<Uint8Array> => {
+        return decodeBase64(isDataUri(data) ? stripDataUriPrefix(data) : await readAttachmentAsBase64(data));
+    };
+
+    const readDocumentText = async (data: string, mediaType: string): Promise<string> => {
+        const cacheKey = `${DOCUMENT_TEXT_CACHE_PREFIX}${data}`;
+        const cached = attachmentDataCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let text: string;
+        if (isPdfMediaType(mediaType)) {
+            const { pageCount, text: pdfText } = extractPdfText(await readAttachmentBytes(data));
+            const pages = pageCount ? `${pageCount} ${pageCount === 1 ? "page" : "pages"}, ` : "";
+            text = pdfText
+                ? `[PDF, ${pages}text extracted on the device]\n${pdfText}`
+                : `[PDF, ${pages}no readable text was found; it may be scanned images.]`;
+        } else if (isDataUri(data)) {
+            text = strFromU8(decodeBase64(stripDataUriPrefix(data)));
+        } else {
+            text = await FileSystem.readAsStringAsync(data);
+        }
+
+        attachmentDataCache.set(cacheKey, text);
+        return text;
+    };
+
     const preparePart = async (part: unknown): Promise<unknown> => {
         if (!part || typeof part !== "object") {
             return part;
@@ -85,6 +149,18 @@ export async function prepareMessagesForProvider(
         }
 
         if (partRecord.type === "file" && typeof partRecord.data === "string") {
+            const mediaType = typeof partRecord.mediaType === "string" ? partRecord.mediaType : "";
+            const sendsText = isTextDocumentMediaType(mediaType)
+                || (isPdfMediaType(mediaType) && !options.nativePdf);
+
+            if (sendsText && (isDataUri(partRecord.data) || isLocalAssetUri(partRecord.data))) {
+                const fileName = typeof partRecord.filename === "string" ? partRecord.filename : "attachment";
+                return {
+                    type: "text",
+                    text: formatDocumentText(fileName, await readDocumentText(partRecord.data, mediaType)),
+                };
+            }
+
             if (isDataUri(partRecord.data)) {
                 return {
                     ...partRecord,
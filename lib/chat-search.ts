@@ -0,0 +1,188 @@
+/**
+ * @file chat-search.ts
+ * @purpose Full-text search over chat titles, messages and web-search sources.
+ *
+ * The `chat_search` FTS5 table is created in a custom migration because
+ * Drizzle cannot model virtual tables. Message entries use the message row id
+ * as their FTS rowid; title entries use the negated chat id so both kinds can
+ * share one index without colliding.
+ */
+
+import { sql } from "drizzle-orm";
+
+import type useDatabase from "@/hooks/useDatabase";
+import { parseMessageContent } from "@/lib/chat-content-parts";
+import type { ChatTransaction } from "@/lib/chat-message-rows";
+import type { ChatMessageAnnotation } from "@/types/chat.types";
+
+type ChatDatabase = ReturnType<typeof useDatabase>;
+type SearchExecutor = Pick<ChatTransaction, "run">;
+
+/** Markers wrapped around matched terms in search snippets. */
+export const SEARCH_HIGHLIGHT_START = "\u0002";
+export const SEARCH_HIGHLIGHT_END = "\u0003";
+
+const SNIPPET_ELLIPSIS = "…";
+const SNIPPET_TOKEN_COUNT = 12;
+const DEFAULT_RESULT_LIMIT = 50;
+
+export interface ChatSearchResult {
+  chatId: number;
+  /** Position of the matching message, or null when only the title matched */
+  messageIndex: number | null;
+  title: string | null;
+  /** Matching excerpt with highlighted terms wrapped in the highlight markers */
+  snippet: string;
+}
+
+export interface ChatSearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface IndexableMessageRow {
+  chatId: number;
+  ordinal: number;
+  content: unknown;
+  annotations?: ChatMessageAnnotation[] | null;
+}
+
+export function getSearchableMessageText(content: unknown): string {
+  return parseMessageContent(content).text;
+}
+
+export function getSearchableSourceText(
+  annotations: readonly ChatMessageAnnotation[] | null | undefined,
+): string {
+  if (!annotations) {
+    return "";
+  }
+
+  return annotations
+    .flatMap((annotation) => (annotation.type === "web-search" ? annotation.queries : []))
+    .flatMap((queryRun) => queryRun.sources)
+    .map((source) => [source.title, source.url, source.snippet ?? ""].join(" "))
+    .join(" ");
+}
+
+/**
+ * Turn free-form user input into an FTS5 query that matches every term as a
+ * prefix. Quotes are stripped so input can never be parsed as FTS syntax.
+ */
+export function buildChatSearchQuery(input: string): string | null {
+  const terms = input
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter((term) => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+export function splitHighlightedSnippet(snippet: string): ChatSearchSnippetSegment[] {
+  const segments: ChatSearchSnippetSegment[] = [];
+  const pattern = new RegExp(`${SEARCH_HIGHLIGHT_START}([^${SEARCH_HIGHLIGHT_END}]*)${SEARCH_HIGHLIGHT_END}`, "g");
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > cursor) {
+      segments.push({ text: snippet.slice(cursor, match.index), highlighted: false });
+    }
+
+    segments.push({ text: match[1], highlighted: true });
+    cursor = match.index + match[0].length;
+  }
+
+  if (cursor < snippet.length) {
+    segments.push({ text: snippet.slice(cursor), highlighted: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Replace the index entry for a message row. Must run after the row has been
+ * written so its id can be resolved from (chatId, ordinal).
+ */
+export function indexMessageRow(tx: SearchExecutor, row: IndexableMessageRow): void {
+  tx.run(sql`
+    DELETE FROM chat_search
+    WHERE rowid = (SELECT id FROM message WHERE chatId = ${row.chatId} AND ordinal = ${row.ordinal})
+  `);
+  tx.run(sql`
+    INSERT INTO chat_search (rowid, content, sources)
+    SELECT id, ${getSearchableMessageText(row.content)}, ${getSearchableSourceText(row.annotations)}
+    FROM message
+    WHERE chatId = ${row.chatId} AND ordinal = ${row.ordinal}
+  `);
+}
+
+/** Drop index entries for messages at or after `fromOrdinal`. Run before deleting the rows. */
+export function removeMessagesFromIndex(tx: SearchExecutor, chatId: number, fromOrdinal: number): void {
+  tx.run(sql`
+    DELETE FROM chat_search
+    WHERE rowid IN (SELECT id FROM message WHERE chatId = ${chatId} AND ordinal >= ${fromOrdinal})
+  `);
+}
+
+export function indexChatTitle(tx: SearchExecutor, chatId: number, title: string | null): void {
+  tx.run(sql`DELETE FROM chat_search WHERE rowid = ${-chatId}`);
+
+  if (title && title.trim().length > 0) {
+    tx.run(sql`INSERT INTO chat_search (rowid, content, sources) VALUES (${-chatId}, ${title}, '')`);
+  }
+}
+
+/** Drop every index entry for a chat. Run before deleting its message rows. */
+export function removeChatFromIndex(tx: SearchExecutor, chatId: number): void {
+  removeMessagesFromIndex(tx, chatId, 0);
+  tx.run(sql`DELETE FROM chat_search WHERE rowid = ${-chatId}`);
+}
+
+/**
+ * Search titles, message text and web-search sources. Results are ranked by
+ * FTS relevance with one entry per matching message or title.
+ */
+export function searchChats(
+  db: ChatDatabase,
+  input: string,
+  limit = DEFAULT_RESULT_LIMIT,
+): ChatSearchResult[] {
+  const query = buildChatSearchQuery(input);
+  if (!query) {
+    return [];
+  }
+
+  const rows = db.all<{
+    chatId: number;
+    messageIndex: number | null;
+    title: string | null;
+    snippet: string | null;
+  }>(sql`
+    SELECT
+      c.id AS chatId,
+      m.ordinal AS messageIndex,
+      c.title AS title,
+      snippet(chat_search, -1, ${SEARCH_HIGHLIGHT_START}, ${SEARCH_HIGHLIGHT_END}, ${SNIPPET_ELLIPSIS}, ${SNIPPET_TOKEN_COUNT}) AS snippet
+    FROM chat_search AS s
+    LEFT JOIN message AS m ON m.id = s.rowid
+    JOIN chat AS c ON c.id = CASE WHEN s.rowid < 0 THEN -s.rowid ELSE m.chatId END
+    WHERE chat_search MATCH ${query}
+    ORDER BY rank, c.updatedAt DESC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => ({
+    chatId: Number(row.chatId),
+    messageIndex: row.messageIndex === null || row.messageIndex === undefined
+      ? null
+      : Number(row.messageIndex),
+    title: row.title,
+    snippet: row.snippet ?? "",
+  }));
+}
@@ -0,0 +1,192 @@
+/**
+ * @file chat-settings.ts
+ * @purpose Defaults and input normalization for the per-chat system prompt,
+ * temperature, context strategy, fallback policy, MCP tool switches,
+ * blocked web domains and attached document collections.
+ */
+
+import type { ChatContextSummary, ChatSettings, ContextStrategy, FallbackPolicy } from "@/types/chat.types";
+import type { McpToolKey } from "@/types/mcp.types";
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  personaId: null,
+  systemPrompt: null,
+  temperature: null,
+  contextStrategy: "drop-oldest",
+  contextSummary: null,
+  fallbackPolicy: "allow",
+  disabledTools: [],
+  blockedDomains: [],
+  documentCollections: [],
+};
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = ["drop-oldest", "keep-pinned", "summarize"];
+
+export const FALLBACK_POLICIES: FallbackPolicy[] = ["allow", "never"];
+
+export interface TemperatureInputResult {
+  temperature: number | null;
+  error: string | null;
+}
+
+/** Blank prompts are stored as null so "no prompt" has a single representation. */
+export function normalizeSystemPrompt(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+export function normalizeTemperature(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return null;
+  }
+
+  return Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, value));
+}
+
+/**
+ * Parses a temperature text field. An empty field means "use the provider
+ * default"; anything else must be a number inside the supported range.
+ */
+export function parseTemperatureInput(input: string): TemperatureInputResult {
+  const trimmed = input.trim();
+  if (trimmed.length === 0) {
+    return { temperature: null, error: null };
+  }
+
+  const parsed = Number(trimmed.replace(",", "."));
+  if (!Number.isFinite(parsed) || parsed < MIN_TEMPERATURE || parsed > MAX_TEMPERATURE) {
+    return {
+      temperature: null,
+      error: `Temperature must be a number between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}.`,
+    };
+  }
+
+  return { temperature: parsed, error: null };
+}
+
+export function formatTemperatureInput(temperature: number | null): string {
+  return temperature === null ? "" : String(temperature);
+}
+
+export function normalizeContextStrategy(value: unknown): ContextStrategy {
+  return CONTEXT_STRATEGIES.includes(value as ContextStrategy)
+    ? value as ContextStrategy
+    : DEFAULT_CHAT_SETTINGS.contextStrategy;
+}
+
+export function normalizeFallbackPolicy(value: unknown): FallbackPolicy {
+  return FALLBACK_POLICIES.includes(value as FallbackPolicy)
+    ? value as FallbackPolicy
+    : DEFAULT_CHAT_SETTINGS.fallbackPolicy;
+}
+
+/** Keeps well-formed "server/tool" keys, once each, in their stored order. */
+export function normalizeDisabledTools(value: unknown): McpToolKey[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const keys = value.filter((key): key is McpToolKey => (
+    typeof key === "string" && key.indexOf("/") > 0 && key.indexOf("/") < key.length - 1
+  ));
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Reduces a blocklist entry to a bare hostname, so "https://www.example.com/a"
+ * and "*.example.com" are stored the way they are matched.
+ */
+export function normalizeBlockedDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/^\*\./, "")
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, "")
+    .replace(/\.$/, "");
+
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host) ? host : null;
+}
+
+export function normalizeBlockedDomains(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const domains = value
+    .map((domain) => (typeof domain === "string" ? normalizeBlockedDomain(domain) : null))
+    .filter((domain): domain is string => domain !== null);
+  return Array.from(new Set(domains));
+}
+
+/** Reads the blocklist field: one domain per line or comma separated. Unreadable entries are dropped. */
+export function parseBlockedDomainsInput(input: string): string[] {
+  return normalizeBlockedDomains(input.split(/[\s,]+/));
+}
+
+export function formatBlockedDomainsInput(domains: readonly string[]): string {
+  return domains.join("\n");
+}
+
+/** Keeps positive collection ids, once each; deleted collections are skipped when searching */
+export function normalizeDocumentCollections(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const ids = value.filter((id): id is number => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+export function normalizeContextSummary(value: unknown): ChatContextSummary | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { text, coveredCount, signature } = value as Record<string, unknown>;
+  if (
+    typeof text !== "string"
+    || text.trim().length === 0
+    || typeof coveredCount !== "number"
+    || !Number.isInteger(coveredCount)
+    || coveredCount <= 0
+    || typeof signature !== "string"
+  ) {
+    return null;
+  }
+
+  return { text, coveredCount, signature };
+}
+
+/** Builds chat settings from a chat row, tolerating rows written before the columns existed. */
+export function chatSettingsFromRow(row: {
+  personaId?: number | null;
+  systemPrompt?: string | null;
+  temperature?: number | null;
+  contextStrategy?: string | null;
+  contextSummary?: unknown;
+  fallbackPolicy?: string | null;
+  disabledTools?: unknown;
+  blockedDomains?: unknown;
+  documentCollections?: unknown;
+}): ChatSettings {
+  return {
+    personaId: typeof row.personaId === "number" ? row.personaId : null,
+    systemPrompt: normalizeSystemPrompt(row.systemPrompt),
+    temperature: normalizeTemperature(row.temperature),
+    contextStrategy: normalizeContextStrategy(row.contextStrategy),
+    contextSummary: normalizeContextSummary(row.contextSummary),
+    fallbackPolicy: normalizeFallbackPolicy(row.fallbackPolicy),
+    disabledTools: normalizeDisabledTools(row.disabledTools),
+    blockedDomains: normalizeBlockedDomains(row.blockedDomains),
+    documentCollections: normalizeDocumentCollections(row.documentCollections),
+  };
+}
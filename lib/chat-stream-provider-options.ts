@@ -5,6 +5,20 @@ import type { ProviderId } from "@/types/provider.types";
 
 type StreamingProviderOptions = Parameters<typeof streamText>[0]["providerOptions"];
 
+// Claude takes a token budget rather than an effort level; 1024 is its minimum.
+const ANTHROPIC_THINKING_BUDGET_TOKENS: Record<ThinkingLevel, number> = {
+    low: 1024,
+    medium: 4096,
+    high: 16384,
+};
+
+// Gemini 2.5 Flash caps thinking at 24576 tokens; Pro accepts the same range.
+const GEMINI_THINKING_BUDGET_TOKENS: Record<ThinkingLevel, number> = {
+    low: 1024,
+    medium: 8192,
+    high: 24576,
+};
+
 export function getStreamingProviderOptions(
     provider: ProviderId,
     shouldRequestThinking: boolean,
@@ -25,6 +39,28 @@ export function getStreamingProviderOptions(
         };
     }
 
+    if (provider === "anthropic") {
+        return {
+            anthropic: {
+                thinking: {
+                    type: "enabled",
+                    budgetTokens: ANTHROPIC_THINKING_BUDGET_TOKENS[effectiveThinkingLevel],
+                },
+            },
+        };
+    }
+
+    if (provider === "gemini") {
+        return {
+            google: {
+                thinkingConfig: {
+                    thinkingBudget: GEMINI_THINKING_BUDGET_TOKENS[effectiveThinkingLevel],
+                    includeThoughts: true,
+                },
+            },
+        };
+    }
+
     if (provider === "openrouter") {
         return {
             openrouter: {
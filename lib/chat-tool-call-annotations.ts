@@ -0,0 +1,32 @@
+import type { ModelMessage } from "ai";
+
+import { getMessageAnnotations } from "@/lib/chat-error-annotations";
+import type {
+  AnnotatedModelMessage,
+  ChatMessageAnnotation,
+  ChatToolCallAnnotation,
+} from "@/types/chat.types";
+
+export const getToolCallAnnotation = (
+  message: ModelMessage,
+): ChatToolCallAnnotation | null => {
+  const annotation = getMessageAnnotations(message).find(
+    (candidate): candidate is ChatToolCallAnnotation => candidate.type === "tool-calls",
+  );
+
+  return annotation ?? null;
+};
+
+export const withToolCallAnnotation = (
+  message: ModelMessage,
+  annotation: ChatToolCallAnnotation,
+): AnnotatedModelMessage => {
+  const annotations = getMessageAnnotations(message).filter(
+    (candidate): candidate is ChatMessageAnnotation => candidate.type !== "tool-calls",
+  );
+
+  return {
+    ...(message as AnnotatedModelMessage),
+    annotations: [...annotations, annotation],
+  };
+};
@@ -0,0 +1,72 @@
+import type { LanguageModelUsage, ModelMessage } from "ai";
+
+import { getMessageAnnotations } from "@/lib/chat-error-annotations";
+import type {
+  AnnotatedModelMessage,
+  ChatMessageAnnotation,
+  ChatTokenUsage,
+  ChatUsageAnnotation,
+} from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+const readCount = (value: number | undefined): number => {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+};
+
+/**
+ * Normalizes the SDK's usage report. Returns null when the provider reported
+ * nothing, so replies without data are not recorded as free.
+ */
+export const readTokenUsage = (
+  usage: LanguageModelUsage | undefined,
+): ChatTokenUsage | null => {
+  if (!usage || (usage.inputTokens === undefined && usage.outputTokens === undefined)) {
+    return null;
+  }
+
+  return {
+    inputTokens: readCount(usage.inputTokens),
+    outputTokens: readCount(usage.outputTokens),
+    reasoningTokens: readCount(usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens),
+    cachedInputTokens: readCount(usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens),
+  };
+};
+
+export const createUsageAnnotation = (
+  provider: ProviderId,
+  modelId: string,
+  usage: ChatTokenUsage,
+  cost: number | null,
+): ChatUsageAnnotation => {
+  return {
+    type: "usage",
+    provider,
+    modelId,
+    ...usage,
+    cost,
+  };
+};
+
+export const getUsageAnnotation = (
+  message: ModelMessage,
+): ChatUsageAnnotation | null => {
+  const annotation = getMessageAnnotations(message).find(
+    (candidate): candidate is ChatUsageAnnotation => candidate.type === "usage",
+  );
+
+  return annotation ?? null;
+};
+
+export const withUsageAnnotation = (
+  message: ModelMessage,
+  annotation: ChatUsageAnnotation,
+): AnnotatedModelMessage => {
+  const annotations = getMessageAnnotations(message).filter(
+    (candidate): candidate is ChatMessageAnnotation => candidate.type !== "usage",
+  );
+
+  return {
+    ...(message as AnnotatedModelMessage),
+    annotations: [...annotations, annotation],
+  };
+};
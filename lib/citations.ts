@@ -0,0 +1,131 @@
+/**
+ * @file citations.ts
+ * @purpose Inline [n] citations in assistant replies. Web search numbers its
+ * sources as they arrive; these helpers match the model's markers against
+ * those numbers and rewrite them as links the markdown renderer can report.
+ */
+
+import type { ChatWebSearchAnnotation, ChatWebSearchSource } from "@/types/chat.types";
+
+/** Link target for citation chips; never opened, only caught by the link handler */
+const CITATION_LINK_PREFIX = "seabreeze-citation:";
+
+/** [1], [2, 3] — source numbers stay small, so longer digit runs are left alone */
+const CITATION_PATTERN = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/g;
+
+/** Fenced blocks (closed or still streaming) and inline code spans */
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/;
+
+interface CitationMatch {
+  start: number;
+  end: number;
+  numbers: number[];
+}
+
+/**
+ * Finds citation markers in prose, skipping ones that are really something
+ * else: `items[1]` indexing, `[1](url)` links and `[1]: url` definitions.
+ */
+const findCitationMatches = (text: string): CitationMatch[] => {
+  const matches: CitationMatch[] = [];
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const previous = text[start - 1] ?? "";
+    const next = text[end] ?? "";
+    const followsCitation = matches.length > 0 && matches[matches.length - 1].end === start;
+
+    if ((/[\w\])]/.test(previous) && !followsCitation) || next === "(" || next === ":") {
+      continue;
+    }
+
+    matches.push({
+      start,
+      end,
+      numbers: match[1].split(",").map((value) => Number.parseInt(value.trim(), 10)),
+    });
+  }
+
+  return matches;
+};
+
+/** Splits markdown around code; prose lands at even indexes, code at odd ones */
+const splitAroundCode = (markdown: string): string[] => markdown.split(CODE_PATTERN);
+
+/** Every source that web search numbered during the reply, keyed by its number */
+export const collectCitationSources = (
+  webSearch: ChatWebSearchAnnotation | null | undefined,
+): Map<number, ChatWebSearchSource> => {
+  const sources = new Map<number, ChatWebSearchSource>();
+
+  for (const queryRun of webSearch?.queries ?? []) {
+    for (const source of queryRun.sources) {
+      if (source.citationNumber !== undefined && !sources.has(source.citationNumber)) {
+        sources.set(source.citationNumber, source);
+      }
+    }
+  }
+
+  return sources;
+};
+
+/** Cited numbers in the order they first appear */
+export const findCitationNumbers = (markdown: string): number[] => {
+  const numbers = new Set<number>();
+
+  splitAroundCode(markdown).forEach((segment, index) => {
+    if (index % 2 === 0) {
+      findCitationMatches(segment).forEach((match) => match.numbers.forEach((value) => numbers.add(value)));
+    }
+  });
+
+  return [...numbers];
+};
+
+/** Cited numbers that no search or page read produced, which the model likely made up */
+export const findUnmatchedCitations = (
+  markdown: string,
+  sources: ReadonlyMap<number, ChatWebSearchSource>,
+): number[] => {
+  return findCitationNumbers(markdown).filter((value) => !sources.has(value));
+};
+
+/**
+ * Rewrites each cited number as its own code-styled link so it renders as a
+ * chip. Unmatched numbers keep a trailing "?" to stand out in the reply.
+ */
+export const linkifyCitations = (
+  markdown: string,
+  sources: ReadonlyMap<number, ChatWebSearchSource>,
+): string => {
+  return splitAroundCode(markdown).map((text, index) => {
+    const matches = index % 2 === 0 ? findCitationMatches(text) : [];
+    if (matches.length === 0) {
+      return text;
+    }
+
+    let result = "";
+    let cursor = 0;
+    for (const match of matches) {
+      const chips = match.numbers.map((value) => {
+        const label = sources.has(value) ? String(value) : `${value}?`;
+        return `[\`${label}\`](${CITATION_LINK_PREFIX}${value})`;
+      });
+      result += text.slice(cursor, match.start) + chips.join(" ");
+      cursor = match.end;
+    }
+
+    return result + text.slice(cursor);
+  }).join("");
+};
+
+/** The cited number behind a chip's link, or null for ordinary links */
+export const parseCitationLink = (url: string): number | null => {
+  if (!url.startsWith(CITATION_LINK_PREFIX)) {
+    return null;
+  }
+
+  const value = Number.parseInt(url.slice(CITATION_LINK_PREFIX.length), 10);
+  return Number.isFinite(value) ? value : null;
+};
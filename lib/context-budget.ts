@@ -0,0 +1,206 @@
+/**
+ * @file context-budget.ts
+ * @purpose Estimates how many tokens a request will use and trims the oldest
+ * turns so the conversation fits the model's context window.
+ *
+ * Estimates are deliberately rough (about four characters per token plus flat
+ * costs for attachments): providers tokenize differently and the goal is to
+ * stay under the limit, not to count exactly.
+ */
+
+import type { ModelMessage } from "ai";
+
+import { isImageMediaType, isVideoMediaType } from "@/lib/chat-attachments";
+import { parseMessageContent } from "@/lib/chat-content-parts";
+import { isMessagePinned } from "@/lib/chat-pin-annotations";
+import type { ChatContextSummary, ContextStrategy } from "@/types/chat.types";
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKEN_ESTIMATE = 1_000;
+const VIDEO_TOKEN_ESTIMATE = 15_000;
+const FILE_TOKEN_ESTIMATE = 3_000;
+/** Schema and description of one tool definition sent alongside the prompt */
+const TOOL_DEFINITION_TOKEN_ESTIMATE = 250;
+const MAX_REPLY_RESERVE_TOKENS = 4_096;
+/** Room kept for the summary the summarize strategy may add */
+export const SUMMARY_TOKEN_ALLOWANCE = 600;
+/**
+ * When summarizing, trim down to this share of the budget rather than just
+ * under it, so the next few turns fit without another summary request.
+ */
+const SUMMARY_TARGET_FILL = 0.75;
+
+export function estimateTextTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+export function estimateMessageTokens(message: ModelMessage): number {
+  const parsed = parseMessageContent(message.content);
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(parsed.text);
+
+  tokens += parsed.images.length * IMAGE_TOKEN_ESTIMATE;
+  for (const file of parsed.files) {
+    if (isImageMediaType(file.mediaType)) {
+      tokens += IMAGE_TOKEN_ESTIMATE;
+    } else if (isVideoMediaType(file.mediaType)) {
+      tokens += VIDEO_TOKEN_ESTIMATE;
+    } else {
+      tokens += FILE_TOKEN_ESTIMATE;
+    }
+  }
+
+  return tokens;
+}
+
+/** Space left for the reply; small models give up a quarter of their window */
+export function getReplyReserveTokens(contextTokens: number): number {
+  return Math.min(MAX_REPLY_RESERVE_TOKENS, Math.floor(contextTokens / 4));
+}
+
+/** Stable fingerprint of a message prefix, used to tell whether a summary is stale */
+export function signContextMessages(messages: ModelMessage[]): string {
+  const serialized = JSON.stringify(messages.map((message) => [message.role, message.content]));
+  let hash = 5381;
+  for (let index = 0; index < serialized.length; index += 1) {
+    hash = ((hash << 5) + hash + serialized.charCodeAt(index)) | 0;
+  }
+
+  return `${messages.length}:${(hash >>> 0).toString(36)}`;
+}
+
+interface ContextTurn {
+  start: number;
+  end: number;
+  tokens: number;
+  pinned: boolean;
+}
+
+/** A turn is a user message plus every reply up to the next user message */
+function splitIntoTurns(messages: ModelMessage[], fromIndex: number): ContextTurn[] {
+  const turns: ContextTurn[] = [];
+
+  messages.forEach((message, index) => {
+    if (index < fromIndex) {
+      return;
+    }
+
+    const current = turns[turns.length - 1];
+    if (!current || message.role === "user") {
+      turns.push({ start: index, end: index + 1, tokens: 0, pinned: false });
+    } else {
+      current.end = index + 1;
+    }
+
+    const turn = turns[turns.length - 1];
+    turn.tokens += estimateMessageTokens(message);
+    turn.pinned = turn.pinned || isMessagePinned(message);
+  });
+
+  return turns;
+}
+
+const sumTokens = (turns: ContextTurn[]): number => {
+  return turns.reduce((total, turn) => total + turn.tokens, 0);
+};
+
+/** A summary only applies while the messages it replaced are unchanged */
+export function isContextSummaryCurrent(
+  summary: ChatContextSummary | null | undefined,
+  messages: ModelMessage[],
+): summary is ChatContextSummary {
+  return !!summary
+    && summary.coveredCount < messages.length
+    && summary.signature === signContextMessages(messages.slice(0, summary.coveredCount));
+}
+
+export interface ContextWindowInput {
+  messages: ModelMessage[];
+  strategy: ContextStrategy;
+  /** Model context size; without it nothing is trimmed */
+  contextTokens?: number;
+  /** Everything sent as the system prompt, tool instructions included */
+  systemPrompt?: string;
+  toolCount?: number;
+  summary?: ChatContextSummary | null;
+}
+
+export interface ContextWindowPlan {
+  /** Messages to send, oldest first */
+  messages: ModelMessage[];
+  /** How many messages of the conversation are not sent */
+  omittedCount: number;
+  /** Current summary to send ahead of the kept messages */
+  summary: ChatContextSummary | null;
+  /**
+   * Messages that were trimmed but are not in the summary yet; the caller
+   * folds them in before sending (summarize strategy only).
+   */
+  summarizeRange: { start: number; end: number } | null;
+  /** Estimated prompt size once the plan is applied */
+  usedTokens: number;
+  contextTokens: number | null;
+}
+
+/**
+ * Chooses which turns to send. The latest turn is always kept, even when it
+ * alone is too large, so the provider can report the overflow itself.
+ */
+export function planContextWindow(input: ContextWindowInput): ContextWindowPlan {
+  const { messages, strategy, contextTokens } = input;
+  const fixedTokens = estimateTextTokens(input.systemPrompt)
+    + (input.toolCount ?? 0) * TOOL_DEFINITION_TOKEN_ESTIMATE;
+  const summary = strategy === "summarize" && isContextSummaryCurrent(input.summary, messages)
+    ? input.summary
+    : null;
+  const turns = splitIntoTurns(messages, summary?.coveredCount ?? 0);
+  const summaryTokens = summary ? estimateTextTokens(summary.text) : 0;
+
+  const buildPlan = (kept: ContextTurn[], summarizeRange: ContextWindowPlan["summarizeRange"]): ContextWindowPlan => {
+    const keptMessages = kept.flatMap((turn) => messages.slice(turn.start, turn.end));
+    return {
+      messages: keptMessages,
+      omittedCount: messages.length - keptMessages.length,
+      summary,
+      summarizeRange,
+      usedTokens: fixedTokens + summaryTokens + sumTokens(kept),
+      contextTokens: contextTokens ?? null,
+    };
+  };
+
+  if (!contextTokens || contextTokens <= 0) {
+    return buildPlan(turns, null);
+  }
+
+  let budget = contextTokens - getReplyReserveTokens(contextTokens) - fixedTokens;
+  if (strategy === "summarize") {
+    budget -= Math.max(summaryTokens, SUMMARY_TOKEN_ALLOWANCE);
+  }
+
+  if (sumTokens(turns) <= budget) {
+    return buildPlan(turns, null);
+  }
+
+  const target = strategy === "summarize" ? budget * SUMMARY_TARGET_FILL : budget;
+  const kept = [...turns];
+  let keptTokens = sumTokens(kept);
+  let candidate = 0;
+
+  while (keptTokens > target && candidate < kept.length - 1) {
+    if (strategy === "keep-pinned" && kept[candidate].pinned) {
+      candidate += 1;
+      continue;
+    }
+
+    keptTokens -= kept[candidate].tokens;
+    kept.splice(candidate, 1);
+  }
+
+  const firstKept = kept[0]?.start ?? messages.length;
+  const summaryStart = summary?.coveredCount ?? 0;
+  const summarizeRange = strategy === "summarize" && firstKept > summaryStart
+    ? { start: summaryStart, end: firstKept }
+    : null;
+
+  return buildPlan(kept, summarizeRange);
+}
@@ -0,0 +1,107 @@
+/**
+ * @file context-summary.ts
+ * @purpose Rolling summaries for the summarize context strategy: which model
+ * writes them and how trimmed turns are folded into the previous summary.
+ */
+
+import { generateText, type LanguageModel, type ModelMessage } from "ai";
+
+import { parseMessageContent } from "@/lib/chat-content-parts";
+import { readTokenUsage } from "@/lib/chat-usage-annotations";
+import { signContextMessages } from "@/lib/context-budget";
+import type { ChatContextSummary, ChatTokenUsage, TurnModelSelection } from "@/types/chat.types";
+import type { BuiltInProviderId, ProviderId } from "@/types/provider.types";
+
+/**
+ * Small models on the same provider, so summaries reuse the chat's
+ * credentials. Local and on-device providers keep the chat model since they
+ * cost nothing per token.
+ */
+const SUMMARY_MODELS: Partial<Record<BuiltInProviderId, string>> = {
+  openai: "gpt-4.1-nano",
+  "openai-codex": "gpt-5.4-mini",
+  anthropic: "claude-haiku-4-5",
+  gemini: "gemini-2.5-flash-lite",
+  openrouter: "openai/gpt-4o-mini",
+};
+
+/** Longer messages are cut so one pasted document cannot dominate the summary request */
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 2_000;
+
+export function getSummaryModelSelection(providerId: ProviderId, chatModelId: string): TurnModelSelection {
+  const summaryModel = SUMMARY_MODELS[providerId as BuiltInProviderId];
+  return { providerId, modelId: summaryModel ?? chatModelId };
+}
+
+function describeMessage(message: ModelMessage): string {
+  const parsed = parseMessageContent(message.content);
+  const attachmentCount = parsed.images.length + parsed.files.length;
+  const text = parsed.text.length > MAX_TRANSCRIPT_MESSAGE_CHARS
+    ? `${parsed.text.slice(0, MAX_TRANSCRIPT_MESSAGE_CHARS)}…`
+    : parsed.text;
+  const attachmentNote = attachmentCount > 0
+    ? ` [${attachmentCount} attachment${attachmentCount > 1 ? "s" : ""}]`
+    : "";
+  const speaker = message.role === "user" ? "User" : "Assistant";
+
+  return `${speaker}:${attachmentNote} ${text.trim()}`;
+}
+
+export function buildSummaryPrompt(previousSummary: string | null, messages: ModelMessage[]): string {
+  const sections = [
+    "Summarize the conversation below so it can replace the original messages in a chat assistant's context.",
+    "Keep facts, decisions, names, numbers, open questions and anything the user asked to remember. Drop pleasantries.",
+    "Write at most 300 words in plain prose. Return only the summary.",
+  ];
+
+  if (previousSummary) {
+    sections.push(`Summary of the conversation so far:\n${previousSummary}`);
+  }
+
+  sections.push(`Messages to add:\n${messages.map(describeMessage).join("\n\n")}`);
+  return sections.join("\n\n");
+}
+
+/**
+ * Folds `messages[0, coveredCount)` into a new summary, starting from the
+ * previous one when it covers an earlier prefix. `onUsage` hears what the
+ * call cost even when the summary comes back empty.
+ */
+export async function summarizeContext(options: {
+  model: LanguageModel;
+  messages: ModelMessage[];
+  coveredCount: number;
+  previous: ChatContextSummary | null;
+  abortSignal?: AbortSignal;
+  onUsage?: (usage: ChatTokenUsage) => void;
+}): Promise<ChatContextSummary> {
+  const { model, messages, coveredCount, previous, abortSignal, onUsage } = options;
+  const newMessages = messages.slice(previous?.coveredCount ?? 0, coveredCount);
+
+  const result = await generateText({
+    model,
+    prompt: buildSummaryPrompt(previous?.text ?? null, newMessages),
+    abortSignal,
+  });
+
+  const usage = readTokenUsage(result.usage);
+  if (usage) {
+    onUsage?.(usage);
+  }
+
+  const text = result.text.trim();
+  if (!text) {
+    throw new Error("The summary model returned an empty summary.");
+  }
+
+  return {
+    text,
+    coveredCount,
+    signature: signContextMessages(messages.slice(0, coveredCount)),
+  };
+}
+
+/** Section appended to the system prompt so the model knows what came before */
+export function formatSummaryForSystemPrompt(summary: ChatContextSummary): string {
+  return `Earlier parts of this conversation were condensed into this summary:\n${summary.text}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * @file custom-endpoints.ts
+ * @purpose Form handling for user-defined OpenAI-compatible endpoints: URL
+ * normalisation, header parsing and stable provider ids.
+ */
+
+import {
+  CUSTOM_PROVIDER_PREFIX,
+  type CustomEndpoint,
+  type CustomProviderId,
+} from "@/types/provider.types";
+
+/** Editable endpoint fields as filled in by the settings form */
+export interface CustomEndpointDraft {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  /** One "Header-Name: value" pair per line */
+  headersText: string;
+}
+
+export const EMPTY_CUSTOM_ENDPOINT_DRAFT: CustomEndpointDraft = {
+  name: "",
+  baseUrl: "",
+  apiKey: "",
+  headersText: "",
+};
+
+/**
+ * Trims trailing slashes and adds "/v1" when only a host was entered, so
+ * "http://10.0.0.5:1234" and "http://10.0.0.5:1234/v1/" resolve the same way.
+ * URLs that already carry a path are kept for servers mounted elsewhere.
+ */
+export function normalizeCustomEndpointUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  if (!trimmed) {
+    return "";
+  }
+
+  const afterScheme = trimmed.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "");
+  return afterScheme.includes("/") ? trimmed : `${trimmed}/v1`;
+}
+
+export function parseHeaderLines(text: string): { headers: Record<string, string>; error: string | null } {
+  const headers: Record<string, string> = {};
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(":");
+    const name = separatorIndex > 0 ? line.slice(0, separatorIndex).trim() : "";
+    if (!name || /\s/.test(name)) {
+      return { headers: {}, error: `"${line}" is not a valid header. Use "Name: value".` };
+    }
+
+    headers[name] = line.slice(separatorIndex + 1).trim();
+  }
+
+  return { headers, error: null };
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+export function draftFromCustomEndpoint(endpoint: CustomEndpoint): CustomEndpointDraft {
+  return {
+    name: endpoint.name,
+    baseUrl: endpoint.baseUrl,
+    apiKey: endpoint.apiKey ?? "",
+    headersText: formatHeaderLines(endpoint.headers),
+  };
+}
+
+/** Returns a message describing why the draft cannot be saved, or null when it can. */
+export function validateCustomEndpointDraft(draft: CustomEndpointDraft): string | null {
+  if (draft.name.trim().length === 0) {
+    return "Give the endpoint a name.";
+  }
+
+  if (!/^https?:\/\/[^\s/]+/i.test(draft.baseUrl.trim())) {
+    return "Enter a base URL starting with http:// or https://.";
+  }
+
+  return parseHeaderLines(draft.headersText).error;
+}
+
+/**
+ * Derives an id from the endpoint name. Ids never change after creation, so
+ * renaming an endpoint keeps its chats, model lists and fallback position.
+ */
+export function createCustomProviderId(
+  name: string,
+  existingIds: readonly string[],
+): CustomProviderId {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "endpoint";
+
+  let candidate: CustomProviderId = `${CUSTOM_PROVIDER_PREFIX}${slug}`;
+  for (let suffix = 2; existingIds.includes(candidate); suffix += 1) {
+    candidate = `${CUSTOM_PROVIDER_PREFIX}${slug}-${suffix}`;
+  }
+
+  return candidate;
+}
+
+/** Builds the stored endpoint; call validateCustomEndpointDraft first. */
+export function customEndpointFromDraft(
+  draft: CustomEndpointDraft,
+  id: CustomProviderId,
+): CustomEndpoint {
+  return {
+    id,
+    name: draft.name.trim(),
+    baseUrl: normalizeCustomEndpointUrl(draft.baseUrl),
+    apiKey: draft.apiKey.trim() || null,
+    headers: parseHeaderLines(draft.headersText).headers,
+  };
+}
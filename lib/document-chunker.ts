@@ -0,0 +1,98 @@
+/**
+ * @file document-chunker.ts
+ * @purpose Splits extracted document text into overlapping passages sized for
+ * embedding. Breaks fall between paragraphs where possible, then between
+ * sentences, and only cut words apart when a sentence alone is too long.
+ */
+
+export interface ChunkOptions {
+  /** Upper bound on passage length in characters */
+  chunkSize?: number;
+  /** Characters of the previous passage repeated at the start of the next */
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_OVERLAP = 200;
+
+/** Pieces no longer than maxLength, split at the coarsest boundary that fits */
+const splitToFit = (text: string, maxLength: number): string[] => {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  if (sentences.length > 1) {
+    return sentences.flatMap((sentence) => splitToFit(sentence, maxLength));
+  }
+
+  const words = text.split(/\s+/);
+  if (words.length > 1) {
+    const pieces: string[] = [];
+    let current = "";
+    for (const word of words) {
+      if (current && current.length + 1 + word.length > maxLength) {
+        pieces.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) {
+      pieces.push(current);
+    }
+    return pieces.flatMap((piece) => splitToFit(piece, maxLength));
+  }
+
+  const pieces: string[] = [];
+  for (let offset = 0; offset < text.length; offset += maxLength) {
+    pieces.push(text.slice(offset, offset + maxLength));
+  }
+  return pieces;
+};
+
+/** The end of a passage to repeat, starting on a word so the next passage does not open mid-word */
+const takeOverlap = (chunk: string, overlap: number): string => {
+  if (overlap <= 0 || chunk.length <= overlap) {
+    return "";
+  }
+
+  const tail = chunk.slice(-overlap);
+  const wordStart = tail.search(/\s\S/);
+  return wordStart === -1 ? "" : tail.slice(wordStart + 1);
+};
+
+export function chunkDocumentText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, " ").trim())
+    .filter((paragraph) => paragraph.length > 0);
+
+  // Room is left for the overlap and its separator so a passage never grows past chunkSize
+  const pieceLength = Math.max(1, chunkSize - overlap - 2);
+  const pieces = paragraphs.flatMap((paragraph) => splitToFit(paragraph, pieceLength));
+
+  const chunks: string[] = [];
+  let current = "";
+  let hasNewText = false;
+
+  for (const piece of pieces) {
+    if (hasNewText && current.length + 2 + piece.length > chunkSize) {
+      chunks.push(current);
+      current = takeOverlap(current, overlap);
+      hasNewText = false;
+    }
+
+    current = current ? `${current}\n\n${piece}` : piece;
+    hasNewText = true;
+  }
+
+  if (hasNewText) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,113 @@
+/**
+ * @file document-embeddings.ts
+ * @purpose Embedding models for the document library and the vector math
+ * search runs on. Vectors are only comparable within one model, so every
+ * embedder carries a key that documents record when they are indexed.
+ */
+
+import { embedMany, type EmbeddingModel } from "ai";
+
+import { createGeminiProvider } from "@/providers/gemini-provider";
+import { getOllamaEmbeddingModel } from "@/providers/ollama-provider";
+import { createOpenAIProvider } from "@/providers/openai-provider";
+import { getProviderAuth } from "@/stores";
+import type { EmbeddingProviderId, EmbeddingSettings } from "@/types/document.types";
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderId[] = ["ollama", "openai", "gemini"];
+
+export const EMBEDDING_PROVIDER_LABELS: Readonly<Record<EmbeddingProviderId, string>> = {
+  ollama: "Ollama",
+  openai: "OpenAI",
+  gemini: "Gemini",
+};
+
+/** Suggested model per provider, filled in when the provider is picked */
+export const DEFAULT_EMBEDDING_MODELS: Readonly<Record<EmbeddingProviderId, string>> = {
+  ollama: "nomic-embed-text",
+  openai: "text-embedding-3-small",
+  gemini: "gemini-embedding-001",
+};
+
+export interface Embedder {
+  /** "provider:model", stored with each document it indexes */
+  readonly key: string;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<Float32Array[]>;
+}
+
+export const getEmbeddingKey = (settings: EmbeddingSettings): string => {
+  return `${settings.providerId}:${settings.modelId.trim()}`;
+};
+
+/** Readable "Ollama · nomic-embed-text" for a stored key */
+export const formatEmbeddingKey = (key: string): string => {
+  const separator = key.indexOf(":");
+  const providerId = key.slice(0, separator) as EmbeddingProviderId;
+  const label = EMBEDDING_PROVIDER_LABELS[providerId];
+  return label ? `${label} · ${key.slice(separator + 1)}` : key;
+};
+
+const createEmbeddingModel = (settings: EmbeddingSettings): EmbeddingModel | null => {
+  const modelId = settings.modelId.trim();
+  if (!modelId) {
+    return null;
+  }
+
+  switch (settings.providerId) {
+    case "ollama":
+      return getOllamaEmbeddingModel(modelId);
+    case "openai": {
+      const { apiKey } = getProviderAuth("openai");
+      return apiKey ? createOpenAIProvider(apiKey).embeddingModel(modelId) : null;
+    }
+    case "gemini": {
+      const { apiKey } = getProviderAuth("gemini");
+      return apiKey ? createGeminiProvider(apiKey).embeddingModel(modelId) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/** Null when the provider has no server URL or API key, or no model is named */
+export function createEmbedder(settings: EmbeddingSettings): Embedder | null {
+  const model = createEmbeddingModel(settings);
+  if (!model) {
+    return null;
+  }
+
+  return {
+    key: getEmbeddingKey(settings),
+    embed: async (texts, signal) => {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      // embedMany splits the batch to the provider's per-call limit
+      const { embeddings } = await embedMany({
+        model,
+        values: texts,
+        abortSignal: signal,
+        maxRetries: 1,
+      });
+      return embeddings.map((embedding) => Float32Array.from(embedding));
+    },
+  };
+}
+
+/** Cosine similarity; 0 for vectors of different lengths or with no magnitude */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,365 @@
+/**
+ * @file document-library.ts
+ * @purpose The personal document library: collections, importing files into
+ * embedded passages, and the vector search behind the searchDocuments tool.
+ *
+ * Search is brute force. A chat only searches the collections it attached,
+ * which stay in the low thousands of passages, so scoring every vector in
+ * JavaScript is quick enough and needs no index to keep in sync.
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import { and, asc, count, desc, eq, inArray } from "drizzle-orm";
+
+import { documentChunk, documentCollection, libraryDocument } from "@/db/schema";
+import type useDatabase from "@/hooks/useDatabase";
+import { decodeBase64, isPdfMediaType } from "@/lib/chat-attachments";
+import { chunkDocumentText } from "@/lib/document-chunker";
+import { cosineSimilarity, createEmbedder, type Embedder } from "@/lib/document-embeddings";
+import { extractPdfText } from "@/lib/pdf-text";
+import type { DocumentSearcher, DocumentSearchHit, EmbeddingSettings } from "@/types/document.types";
+
+type ChatDatabase = ReturnType<typeof useDatabase>;
+
+export type DocumentCollection = typeof documentCollection.$inferSelect;
+export type LibraryDocument = typeof libraryDocument.$inferSelect;
+
+export interface DocumentCollectionSummary extends DocumentCollection {
+  documentCount: number;
+}
+
+export interface DocumentFile {
+  uri: string;
+  name: string;
+  mediaType: string;
+}
+
+interface IndexOptions {
+  signal?: AbortSignal;
+  /** Called after each embedded batch with the passages done so far */
+  onProgress?: (embedded: number, total: number) => void;
+}
+
+interface SearchOptions {
+  collectionIds: readonly number[];
+  query: string;
+  embedder: Embedder;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+type DocumentLibraryErrorCode = "not_configured" | "no_text" | "embedding" | "model_mismatch";
+
+export class DocumentLibraryError extends Error {
+  readonly code: DocumentLibraryErrorCode;
+
+  constructor(message: string, code: DocumentLibraryErrorCode) {
+    super(message);
+    this.name = "DocumentLibraryError";
+    this.code = code;
+  }
+}
+
+/** Passages sent to the embedding endpoint per request while indexing */
+const EMBED_BATCH_SIZE = 32;
+const DEFAULT_SEARCH_LIMIT = 6;
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === "AbortError";
+};
+
+export const mapDocumentLibraryErrorToMessage = (error: unknown): string => {
+  if (!(error instanceof DocumentLibraryError)) {
+    return "Could not search the document library.";
+  }
+
+  switch (error.code) {
+    case "not_configured":
+      return "Choose an embedding model in Settings → Documents first.";
+    case "no_text":
+      return "No text could be read from this file. Scanned PDFs are not supported.";
+    case "model_mismatch":
+      return "These documents were indexed with a different embedding model. Re-index them in Settings → Documents.";
+    case "embedding":
+      return error.message;
+    default:
+      return "Could not search the document library.";
+  }
+};
+
+/** Embeds texts, reporting provider failures as library errors and leaving cancellation alone */
+const embedTexts = async (embedder: Embedder, texts: string[], signal?: AbortSignal): Promise<Float32Array[]> => {
+  try {
+    return await embedder.embed(texts, signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+
+    const detail = error instanceof Error && error.message ? ` ${error.message}` : "";
+    throw new DocumentLibraryError(`The embedding model could not be reached.${detail}`, "embedding");
+  }
+};
+
+export function listCollections(db: ChatDatabase): DocumentCollectionSummary[] {
+  return db
+    .select({
+      id: documentCollection.id,
+      name: documentCollection.name,
+      createdAt: documentCollection.createdAt,
+      updatedAt: documentCollection.updatedAt,
+      documentCount: count(libraryDocument.id),
+    })
+    .from(documentCollection)
+    .leftJoin(libraryDocument, eq(libraryDocument.collectionId, documentCollection.id))
+    .groupBy(documentCollection.id)
+    .orderBy(asc(documentCollection.name))
+    .all();
+}
+
+export function createCollection(db: ChatDatabase, name: string, now: Date = new Date()): number {
+  const result = db
+    .insert(documentCollection)
+    .values({ name: name.trim(), createdAt: now, updatedAt: now })
+    .run();
+  return Number(result.lastInsertRowId);
+}
+
+/** Chats that attached the collection keep its id; searches skip ids that no longer exist. */
+export function deleteCollection(db: ChatDatabase, id: number): void {
+  db.transaction((tx) => {
+    // Foreign keys are not enforced, so children are removed by hand
+    const documentIds = tx
+      .select({ id: libraryDocument.id })
+      .from(libraryDocument)
+      .where(eq(libraryDocument.collectionId, id))
+      .all()
+      .map((row) => row.id);
+
+    if (documentIds.length > 0) {
+      tx.delete(documentChunk).where(inArray(documentChunk.documentId, documentIds)).run();
+      tx.delete(libraryDocument).where(inArray(libraryDocument.id, documentIds)).run();
+    }
+    tx.delete(documentCollection).where(eq(documentCollection.id, id)).run();
+  });
+}
+
+export function listDocuments(db: ChatDatabase, collectionId: number): LibraryDocument[] {
+  return db
+    .select()
+    .from(libraryDocument)
+    .where(eq(libraryDocument.collectionId, collectionId))
+    .orderBy(desc(libraryDocument.createdAt))
+    .all();
+}
+
+export function deleteDocument(db: ChatDatabase, id: number): void {
+  db.transaction((tx) => {
+    tx.delete(documentChunk).where(eq(documentChunk.documentId, id)).run();
+    tx.delete(libraryDocument).where(eq(libraryDocument.id, id)).run();
+  });
+}
+
+/** Text of a picked file; PDFs go through the on-device extractor */
+export async function readDocumentFile(file: DocumentFile): Promise<{ text: string; pageCount: number | null }> {
+  if (isPdfMediaType(file.mediaType)) {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return extractPdfText(decodeBase64(base64));
+  }
+
+  return { text: await FileSystem.readAsStringAsync(file.uri), pageCount: null };
+}
+
+/**
+ * Embeds every passage of a document in batches and marks it ready. A failed
+ * batch marks the document as failed, keeping its passages for a re-index.
+ */
+async function embedDocumentChunks(
+  db: ChatDatabase,
+  documentId: number,
+  embedder: Embedder,
+  options: IndexOptions,
+): Promise<void> {
+  const chunks = db
+    .select({ id: documentChunk.id, text: documentChunk.text })
+    .from(documentChunk)
+    .where(eq(documentChunk.documentId, documentId))
+    .orderBy(asc(documentChunk.ordinal))
+    .all();
+
+  try {
+    for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+      const embeddings = await embedTexts(embedder, batch.map((chunk) => chunk.text), options.signal);
+
+      db.transaction((tx) => {
+        batch.forEach((chunk, index) => {
+          tx.update(documentChunk).set({ embedding: embeddings[index] }).where(eq(documentChunk.id, chunk.id)).run();
+        });
+      });
+      options.onProgress?.(start + batch.length, chunks.length);
+    }
+  } catch (error) {
+    db.update(libraryDocument)
+      .set({
+        status: "error",
+        error: isAbortError(error) ? "Indexing was cancelled." : mapDocumentLibraryErrorToMessage(error),
+        updatedAt: new Date(),
+      })
+      .where(eq(libraryDocument.id, documentId))
+      .run();
+    throw error;
+  }
+
+  db.update(libraryDocument)
+    .set({ status: "ready", error: null, embeddingModel: embedder.key, updatedAt: new Date() })
+    .where(eq(libraryDocument.id, documentId))
+    .run();
+}
+
+/** Reads, chunks and embeds a file into a collection. Returns the new document's id. */
+export async function importDocument(
+  db: ChatDatabase,
+  collectionId: number,
+  file: DocumentFile,
+  embedder: Embedder,
+  options: IndexOptions = {},
+): Promise<number> {
+  const { text, pageCount } = await readDocumentFile(file);
+  const chunks = chunkDocumentText(text);
+  if (chunks.length === 0) {
+    throw new DocumentLibraryError("No text could be read from this file.", "no_text");
+  }
+
+  const now = new Date();
+  const documentId = db.transaction((tx) => {
+    const result = tx
+      .insert(libraryDocument)
+      .values({
+        collectionId,
+        name: file.name,
+        mediaType: file.mediaType,
+        pageCount,
+        charCount: text.length,
+        chunkCount: chunks.length,
+        embeddingModel: embedder.key,
+        status: "indexing",
+        createdAt: now,
+        updatedAt: now,
+      })
+      .run();
+    const insertedId = Number(result.lastInsertRowId);
+
+    tx.insert(documentChunk)
+      .values(chunks.map((chunk, ordinal) => ({ documentId: insertedId, ordinal, text: chunk })))
+      .run();
+    tx.update(documentCollection).set({ updatedAt: now }).where(eq(documentCollection.id, collectionId)).run();
+    return insertedId;
+  });
+
+  await embedDocumentChunks(db, documentId, embedder, options);
+  return documentId;
+}
+
+/** Embeds a document's stored passages again, e.g. after switching embedding models */
+export async function reindexDocument(
+  db: ChatDatabase,
+  documentId: number,
+  embedder: Embedder,
+  options: IndexOptions = {},
+): Promise<void> {
+  db.update(libraryDocument)
+    .set({ status: "indexing", error: null, embeddingModel: embedder.key, updatedAt: new Date() })
+    .where(eq(libraryDocument.id, documentId))
+    .run();
+  await embedDocumentChunks(db, documentId, embedder, options);
+}
+
+/**
+ * The passages closest to the query across the given collections. Documents
+ * indexed with another embedding model are skipped; when that leaves nothing
+ * to search, the caller is told so instead of getting an empty result.
+ */
+export async function searchDocumentLibrary(db: ChatDatabase, options: SearchOptions): Promise<DocumentSearchHit[]> {
+  if (options.collectionIds.length === 0) {
+    return [];
+  }
+
+  const documents = db
+    .select({
+      id: libraryDocument.id,
+      name: libraryDocument.name,
+      chunkCount: libraryDocument.chunkCount,
+      embeddingModel: libraryDocument.embeddingModel,
+      collectionName: documentCollection.name,
+    })
+    .from(libraryDocument)
+    .innerJoin(documentCollection, eq(documentCollection.id, libraryDocument.collectionId))
+    .where(and(
+      inArray(libraryDocument.collectionId, [...options.collectionIds]),
+      eq(libraryDocument.status, "ready"),
+    ))
+    .all();
+
+  const searchable = documents.filter((document) => document.embeddingModel === options.embedder.key);
+  if (searchable.length === 0) {
+    if (documents.length > 0) {
+      throw new DocumentLibraryError("Documents were indexed with another embedding model.", "model_mismatch");
+    }
+    return [];
+  }
+
+  const [queryVector] = await embedTexts(options.embedder, [options.query], options.signal);
+  const documentsById = new Map(searchable.map((document) => [document.id, document]));
+  const chunks = db
+    .select()
+    .from(documentChunk)
+    .where(inArray(documentChunk.documentId, [...documentsById.keys()]))
+    .all();
+
+  return chunks
+    .filter((chunk) => chunk.embedding !== null)
+    .map((chunk) => ({ chunk, score: cosineSimilarity(queryVector, chunk.embedding!) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT)
+    .map(({ chunk, score }) => {
+      const document = documentsById.get(chunk.documentId)!;
+      return {
+        documentId: document.id,
+        documentName: document.name,
+        collectionName: document.collectionName,
+        chunkIndex: chunk.ordinal,
+        chunkCount: document.chunkCount,
+        text: chunk.text,
+        score,
+      };
+    });
+}
+
+/**
+ * Binds library search to one chat's collections. The embedder is built per
+ * search so a server URL or API key saved mid-chat is picked up.
+ */
+export function createDocumentSearcher(
+  db: ChatDatabase,
+  collectionIds: readonly number[],
+  embeddingSettings: EmbeddingSettings,
+): DocumentSearcher {
+  return {
+    search: async (query, searchOptions) => {
+      const embedder = createEmbedder(embeddingSettings);
+      if (!embedder) {
+        throw new DocumentLibraryError("No embedding model is configured.", "not_configured");
+      }
+
+      return searchDocumentLibrary(db, {
+        collectionIds,
+        query,
+        embedder,
+        signal: searchOptions?.signal,
+      });
+    },
+  };
+}
@@ -49,6 +49,11 @@ const ERROR_MESSAGES: Record<ErrorCategory, { title: string; message: string; se
     message: "Your API key appears to be invalid. Please check your settings.",
     severity: "error",
   },
+  context_length: {
+    title: "Conversation Too Long",
+    message: "This conversation no longer fits in the model's context window.",
+    severity: "warning",
+  },
   model_not_found: {
     title: "Model Unavailable",
     message: "The selected model is not available. Please try a different model.",
@@ -153,6 +158,22 @@ function getActionsForError(
       }
       break;
 
+    case "context_length":
+      actions.push({
+        id: "change-context-strategy",
+        label: "Trim Older Turns",
+        description: "Choose how this chat trims old turns in its System Prompt settings",
+        actionType: "dismiss",
+      });
+      actions.push({
+        id: "change-model",
+        label: "Change Model",
+        description: "Select a model with a larger context window",
+        actionType: "navigate",
+        navigateTo: "/settings",
+      });
+      break;
+
     case "model_not_found":
       actions.push({
         id: "change-model",
@@ -318,6 +339,24 @@ export function getProviderErrorHint(
       }
       break;
 
+    case "anthropic":
+      if (classification.category === "authentication") {
+        return "Check that your Anthropic API key is valid and that billing is set up in the Anthropic Console.";
+      }
+      if (classification.category === "rate_limit") {
+        return "Anthropic is rate limiting this key. Wait a moment or raise your usage tier.";
+      }
+      break;
+
+    case "gemini":
+      if (classification.category === "authentication") {
+        return "Check that your Gemini API key from Google AI Studio is valid and the Generative Language API is enabled.";
+      }
+      if (classification.category === "rate_limit") {
+        return "Gemini free-tier limits are low. Wait a minute or enable billing for the key.";
+      }
+      break;
+
     case "openrouter":
       if (classification.category === "authentication") {
         return "Check that your OpenRouter API key is valid and has sufficient credits.";
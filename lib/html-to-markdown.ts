@@ -0,0 +1,255 @@
+/**
+ * @file html-to-markdown.ts
+ * @purpose Pulls the readable part of a web page out as markdown for the
+ * readUrl tool. Pages are arbitrary and often malformed, so this is a
+ * forgiving pass over the markup rather than a DOM parse.
+ */
+
+export interface ReadableContent {
+  title: string | null;
+  byline: string | null;
+  markdown: string;
+}
+
+/** Elements that never hold article text */
+const DROPPED_ELEMENTS = [
+  "head",
+  "title",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+];
+
+/** Closing any of these ends a line of text */
+const BLOCK_ELEMENTS = [
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "blockquote",
+  "figure",
+  "figcaption",
+  "table",
+  "tr",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "hr",
+];
+
+/** Below this much text an <article> or <main> is likely a teaser, not the page */
+const MIN_CONTAINER_TEXT_LENGTH = 200;
+
+const NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  middot: "·",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+/** Marks a preformatted block while the surrounding whitespace is collapsed */
+const PLACEHOLDER = "\u0000";
+
+export const decodeHtmlEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const codePoint = body[1] === "x" || body[1] === "X"
+        ? Number.parseInt(body.slice(2), 16)
+        : Number.parseInt(body.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : entity;
+    }
+
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+};
+
+const getAttribute = (tag: string, name: string): string | null => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(tag);
+  if (!match) {
+    return null;
+  }
+
+  return decodeHtmlEntities(match[1] ?? match[2] ?? match[3] ?? "").trim();
+};
+
+const stripTags = (html: string): string => html.replace(/<[^>]*>/g, "");
+
+const toPlainText = (html: string): string => {
+  return decodeHtmlEntities(stripTags(html)).replace(/\s+/g, " ").trim();
+};
+
+const readMetadata = (html: string): Map<string, string> => {
+  const metadata = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = getAttribute(tag, "property") ?? getAttribute(tag, "name");
+    const content = getAttribute(tag, "content");
+    if (key && content && !metadata.has(key.toLowerCase())) {
+      metadata.set(key.toLowerCase(), content);
+    }
+  }
+
+  return metadata;
+};
+
+const findTitle = (html: string, metadata: Map<string, string>): string | null => {
+  const metaTitle = metadata.get("og:title") ?? metadata.get("twitter:title");
+  if (metaTitle) {
+    return metaTitle;
+  }
+
+  const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = titleMatch ? toPlainText(titleMatch[1]) : "";
+  return title.length > 0 ? title : null;
+};
+
+const findByline = (html: string, metadata: Map<string, string>): string | null => {
+  const metaAuthor = metadata.get("author") ?? metadata.get("article:author");
+  // article:author is often a profile URL rather than a name
+  if (metaAuthor && !/^https?:\/\//i.test(metaAuthor)) {
+    return metaAuthor;
+  }
+
+  const relAuthor = /<a\b[^>]*\srel\s*=\s*["']?author\b[^>]*>([\s\S]*?)<\/a>/i.exec(html);
+  const byline = relAuthor ? toPlainText(relAuthor[1]) : "";
+  return byline.length > 0 ? byline : null;
+};
+
+const dropElements = (html: string): string => {
+  let result = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const element of DROPPED_ELEMENTS) {
+    result = result
+      .replace(new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}\\s*>`, "gi"), " ")
+      .replace(new RegExp(`<${element}\\b[^>]*\\/>`, "gi"), " ");
+  }
+  return result;
+};
+
+/** Prefers the page's own idea of its main content, falling back to the body. */
+const selectContainer = (html: string): string => {
+  for (const element of ["article", "main"]) {
+    const match = new RegExp(`<${element}\\b[^>]*>([\\s\\S]*)<\\/${element}\\s*>`, "i").exec(html);
+    if (match && toPlainText(match[1]).length >= MIN_CONTAINER_TEXT_LENGTH) {
+      return match[1];
+    }
+  }
+
+  const body = /<body\b[^>]*>([\s\S]*)<\/body\s*>/i.exec(html);
+  return body ? body[1] : html;
+};
+
+const resolveHref = (href: string, baseUrl: string): string | null => {
+  if (href.startsWith("#") || /^(javascript|mailto|tel|data):/i.test(href)) {
+    return null;
+  }
+
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+const convertToMarkdown = (html: string, baseUrl: string): string => {
+  const preformatted: string[] = [];
+
+  let markdown = html
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi, (_match, inner: string) => {
+      const code = decodeHtmlEntities(stripTags(inner)).replace(/^\n+|\s+$/g, "");
+      preformatted.push(`\n\n\`\`\`\n${code}\n\`\`\`\n\n`);
+      return `${PLACEHOLDER}${preformatted.length - 1}${PLACEHOLDER}`;
+    })
+    .replace(/<img\b[^>]*>/gi, " ")
+    .replace(/\s+/g, " ")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_match, level: string, inner: string) => {
+      const text = toPlainText(inner);
+      return text ? `\n\n${"#".repeat(Number(level))} ${text}\n\n` : " ";
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (_match, attributes: string, inner: string) => {
+      const text = toPlainText(inner);
+      const href = getAttribute(` ${attributes}`, "href");
+      const url = href ? resolveHref(href, baseUrl) : null;
+      return text && url ? `[${text}](${url})` : text;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_match, _tag, inner: string) => {
+      const text = inner.trim();
+      return text ? `**${text}**` : "";
+    })
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_match, _tag, inner: string) => {
+      const text = inner.trim();
+      return text ? `*${text}*` : "";
+    })
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code\s*>/gi, (_match, inner: string) => {
+      const text = stripTags(inner).trim();
+      return text ? `\`${text}\`` : "";
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(t[dh])\b[^>]*>/gi, " ");
+
+  for (const element of BLOCK_ELEMENTS) {
+    markdown = markdown.replace(new RegExp(`<\\/?${element}\\b[^>]*>`, "gi"), "\n\n");
+  }
+
+  markdown = decodeHtmlEntities(stripTags(markdown))
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter((line) => line !== "-")
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return markdown
+    .replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, "g"), (_match, index: string) => (
+      preformatted[Number(index)] ?? ""
+    ))
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+/**
+ * Reduces an HTML page to its title, author and main text. Navigation,
+ * scripts and other page chrome are dropped and links are made absolute
+ * against `baseUrl` so they still work once quoted back to the user.
+ */
+export const extractReadableContent = (html: string, baseUrl: string): ReadableContent => {
+  const metadata = readMetadata(html);
+
+  return {
+    title: findTitle(html, metadata),
+    byline: findByline(html, metadata),
+    markdown: convertToMarkdown(selectContainer(dropElements(html)), baseUrl),
+  };
+};
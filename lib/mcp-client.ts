@@ -0,0 +1,404 @@
+import { inspectedFetch } from "@/lib/network-inspector";
+
+import type { McpToolDefinition } from "@/types/mcp.types";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const PROTOCOL_VERSION = "2025-06-18";
+const CLIENT_INFO = { name: "seabreeze", version: "2.0.0" };
+/** Guards against servers that hand out cursors forever */
+const MAX_TOOL_PAGES = 20;
+
+type McpErrorCode =
+  | "invalid_url"
+  | "timeout"
+  | "network"
+  | "unauthorized"
+  | "http"
+  | "invalid_response"
+  | "rpc";
+
+export class McpClientError extends Error {
+  readonly code: McpErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: McpErrorCode, status?: number) {
+    super(message);
+    this.name = "McpClientError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface McpToolCallResult {
+  /** Text content of the result, joined in the order the server sent it */
+  text: string;
+  /** The tool ran but reported a failure */
+  isError: boolean;
+}
+
+export interface McpClient {
+  listTools: (signal?: AbortSignal) => Promise<McpToolDefinition[]>;
+  callTool: (name: string, args: unknown, signal?: AbortSignal) => Promise<McpToolCallResult>;
+}
+
+interface McpClientOptions {
+  url: string;
+  token?: string | null;
+  timeoutMs?: number;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number;
+  result?: unknown;
+  error?: { code?: unknown; message?: unknown };
+}
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === "AbortError";
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+export const normalizeMcpUrl = (value: string): string => {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(value.trim());
+  } catch {
+    throw new McpClientError("Enter a valid MCP server URL.", "invalid_url");
+  }
+
+  if (!(parsedUrl.protocol === "https:" || parsedUrl.protocol === "http:")) {
+    throw new McpClientError("MCP server URLs must use http or https.", "invalid_url");
+  }
+
+  parsedUrl.hash = "";
+  return parsedUrl.toString();
+};
+
+const findResponse = (payload: unknown, id: number): JsonRpcResponse | null => {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  const match = messages.find((message) => isRecord(message) && message.id === id);
+  return (match as JsonRpcResponse | undefined) ?? null;
+};
+
+/** Returns the JSON-RPC response with the given id from one SSE event, if it carries it. */
+const parseSseEvent = (event: string, id: number): JsonRpcResponse | null => {
+  const data = event
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return findResponse(JSON.parse(data), id);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads an SSE response until the event answering the request arrives. The
+ * server may send notifications first and is not required to close the stream
+ * afterwards, so the rest of the stream is cancelled rather than awaited.
+ */
+const readSseResponse = async (response: Response, id: number): Promise<JsonRpcResponse | null> => {
+  if (!response.body) {
+    const events = (await response.text()).split(/\r?\n\r?\n/);
+    for (const event of events) {
+      const message = parseSseEvent(event.replace(/\r/g, ""), id);
+      if (message) {
+        return message;
+      }
+    }
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      buffer = buffer.replace(/\r\n?/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = parseSseEvent(buffer.slice(0, boundary), id);
+        if (message) {
+          return message;
+        }
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+
+      if (done) {
+        return parseSseEvent(buffer, id);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+const coerceTool = (candidate: unknown): McpToolDefinition | null => {
+  if (!isRecord(candidate) || typeof candidate.name !== "string" || candidate.name.length === 0) {
+    return null;
+  }
+
+  const description = typeof candidate.description === "string" && candidate.description.trim().length > 0
+    ? candidate.description.trim()
+    : null;
+  const inputSchema = isRecord(candidate.inputSchema)
+    ? candidate.inputSchema
+    : { type: "object", properties: {} };
+
+  return { name: candidate.name, description, inputSchema };
+};
+
+/** Flattens a tools/call result into text the model can read. */
+const toToolCallResult = (result: unknown): McpToolCallResult => {
+  if (!isRecord(result)) {
+    throw new McpClientError("The MCP server returned an unexpected tool result.", "invalid_response");
+  }
+
+  const content = Array.isArray(result.content) ? result.content : [];
+  const parts = content.flatMap((part): string[] => {
+    if (!isRecord(part)) {
+      return [];
+    }
+    if (part.type === "text" && typeof part.text === "string") {
+      return [part.text];
+    }
+    if (part.type === "resource" && isRecord(part.resource) && typeof part.resource.text === "string") {
+      return [part.resource.text];
+    }
+    if (part.type === "resource_link" && typeof part.uri === "string") {
+      return [part.uri];
+    }
+    // Images and audio cannot be passed back to the model as tool output text
+    return typeof part.type === "string" ? [`[${part.type} omitted]`] : [];
+  });
+
+  if (parts.length === 0 && result.structuredContent !== undefined) {
+    parts.push(JSON.stringify(result.structuredContent));
+  }
+
+  return { text: parts.join("\n\n"), isError: result.isError === true };
+};
+
+export const mapMcpErrorToMessage = (error: unknown): string => {
+  if (!(error instanceof McpClientError)) {
+    return "The MCP tool call failed.";
+  }
+
+  switch (error.code) {
+    case "invalid_url":
+      return error.message;
+    case "timeout":
+      return "The MCP server took too long to respond.";
+    case "network":
+      return "Could not reach the MCP server.";
+    case "unauthorized":
+      return "The MCP server rejected the token. Check it in Settings.";
+    case "http":
+      return `The MCP server returned HTTP ${error.status ?? "error"}.`;
+    case "rpc":
+      return error.message;
+    case "invalid_response":
+    default:
+      return "The MCP server returned an unexpected response.";
+  }
+};
+
+/**
+ * Client for one server over the streamable HTTP transport: every message is
+ * a POST and the server answers with JSON or an SSE stream. The session is
+ * set up on first use and set up again if the server forgets it.
+ */
+export const createMcpClient = (options: McpClientOptions): McpClient => {
+  const url = normalizeMcpUrl(options.url);
+  let nextId = 1;
+  let sessionId: string | null = null;
+  let negotiatedVersion: string | null = null;
+  let initialization: Promise<void> | null = null;
+
+  /**
+   * Runs one exchange under the client timeout. The deadline covers reading
+   * the body as well, since an SSE answer can stall after its headers.
+   */
+  const withTimeout = async <T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener("abort", abortFromCaller);
+
+    try {
+      return await run(controller.signal);
+    } catch (error) {
+      if (signal?.aborted || error instanceof McpClientError) {
+        throw error;
+      }
+      if (isAbortError(error)) {
+        throw new McpClientError("The MCP server timed out.", "timeout");
+      }
+
+      throw new McpClientError(
+        error instanceof Error ? error.message : "Could not reach the MCP server.",
+        "network",
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", abortFromCaller);
+    }
+  };
+
+  const post = async (message: Record<string, unknown>, signal: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = {
+      Accept: "application/json, text/event-stream",
+      "Content-Type": "application/json",
+    };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+    if (sessionId) {
+      headers["Mcp-Session-Id"] = sessionId;
+    }
+    if (negotiatedVersion) {
+      headers["MCP-Protocol-Version"] = negotiatedVersion;
+    }
+
+    const response = await inspectedFetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", ...message }),
+      signal,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new McpClientError("The MCP server rejected the request.", "unauthorized", response.status);
+    }
+    if (!response.ok) {
+      throw new McpClientError(`The MCP server returned HTTP ${response.status}.`, "http", response.status);
+    }
+
+    return response;
+  };
+
+  const send = (
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<{ result: unknown; response: Response }> => withTimeout(signal, async (exchangeSignal) => {
+    const id = nextId++;
+    const response = await post({ id, method, params }, exchangeSignal);
+
+    const contentType = response.headers.get("content-type") ?? "";
+    let message: JsonRpcResponse | null;
+    try {
+      message = contentType.includes("text/event-stream")
+        ? await readSseResponse(response, id)
+        : findResponse(await response.json(), id);
+    } catch (error) {
+      if (exchangeSignal.aborted) {
+        throw error;
+      }
+      throw new McpClientError("The MCP server did not return valid JSON.", "invalid_response");
+    }
+
+    if (!message) {
+      throw new McpClientError(`The MCP server did not answer ${method}.`, "invalid_response");
+    }
+    if (message.error) {
+      const detail = typeof message.error.message === "string" ? message.error.message : "Unknown error";
+      throw new McpClientError(`The MCP server reported an error: ${detail}`, "rpc");
+    }
+
+    return { result: message.result, response };
+  });
+
+  const initialize = async (signal?: AbortSignal): Promise<void> => {
+    sessionId = null;
+    negotiatedVersion = null;
+
+    const { result, response } = await send("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }, signal);
+
+    sessionId = response.headers.get("mcp-session-id");
+    negotiatedVersion = isRecord(result) && typeof result.protocolVersion === "string"
+      ? result.protocolVersion
+      : PROTOCOL_VERSION;
+
+    await withTimeout(signal, (exchangeSignal) => post({ method: "notifications/initialized" }, exchangeSignal));
+  };
+
+  const ensureInitialized = (signal?: AbortSignal): Promise<void> => {
+    if (!initialization) {
+      initialization = initialize(signal).catch((error) => {
+        initialization = null;
+        throw error;
+      });
+    }
+    return initialization;
+  };
+
+  const request = async (method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> => {
+    await ensureInitialized(signal);
+
+    try {
+      return (await send(method, params, signal)).result;
+    } catch (error) {
+      // 404 on a request carrying a session id means the server dropped the session
+      if (!(error instanceof McpClientError) || error.status !== 404 || !sessionId) {
+        throw error;
+      }
+
+      initialization = null;
+      await ensureInitialized(signal);
+      return (await send(method, params, signal)).result;
+    }
+  };
+
+  const listTools = async (signal?: AbortSignal): Promise<McpToolDefinition[]> => {
+    const tools: McpToolDefinition[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_TOOL_PAGES; page += 1) {
+      const result = await request("tools/list", cursor ? { cursor } : {}, signal);
+      if (!isRecord(result) || !Array.isArray(result.tools)) {
+        throw new McpClientError("The MCP server did not return a tools array.", "invalid_response");
+      }
+
+      tools.push(...result.tools
+        .map(coerceTool)
+        .filter((candidate): candidate is McpToolDefinition => candidate !== null));
+
+      cursor = typeof result.nextCursor === "string" && result.nextCursor ? result.nextCursor : undefined;
+      if (!cursor) {
+        break;
+      }
+    }
+
+    return tools;
+  };
+
+  const callTool = async (name: string, args: unknown, signal?: AbortSignal): Promise<McpToolCallResult> => {
+    const result = await request("tools/call", {
+      name,
+      arguments: isRecord(args) ? args : {},
+    }, signal);
+    return toToolCallResult(result);
+  };
+
+  return { listTools, callTool };
+};
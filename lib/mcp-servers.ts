@@ -0,0 +1,107 @@
+/**
+ * @file mcp-servers.ts
+ * @purpose Form handling for user-registered MCP servers and the per-chat
+ * tool switches: stable server ids, tool keys and the enabled tool list.
+ */
+
+import type { McpServer, McpToolDefinition, McpToolKey } from "@/types/mcp.types";
+
+/** Editable server fields as filled in by the settings form */
+export interface McpServerDraft {
+  name: string;
+  url: string;
+  token: string;
+}
+
+export const EMPTY_MCP_SERVER_DRAFT: McpServerDraft = {
+  name: "",
+  url: "",
+  token: "",
+};
+
+/** A tool offered to a chat, together with the server that runs it */
+export interface McpEnabledTool {
+  key: McpToolKey;
+  server: McpServer;
+  tool: McpToolDefinition;
+}
+
+export function getMcpToolKey(serverId: string, toolName: string): McpToolKey {
+  return `${serverId}/${toolName}`;
+}
+
+export function draftFromMcpServer(server: McpServer): McpServerDraft {
+  return {
+    name: server.name,
+    url: server.url,
+    token: server.token ?? "",
+  };
+}
+
+/** Returns a message describing why the draft cannot be saved, or null when it can. */
+export function validateMcpServerDraft(draft: McpServerDraft): string | null {
+  if (draft.name.trim().length === 0) {
+    return "Give the server a name.";
+  }
+
+  if (!/^https?:\/\/[^\s/]+/i.test(draft.url.trim())) {
+    return "Enter a server URL starting with http:// or https://.";
+  }
+
+  return null;
+}
+
+/**
+ * Derives an id from the server name. The id is part of every tool key a
+ * chat stores, so it stays fixed when the server is renamed.
+ */
+export function createMcpServerId(name: string, existingIds: readonly string[]): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "server";
+
+  let candidate = slug;
+  for (let suffix = 2; existingIds.includes(candidate); suffix += 1) {
+    candidate = `${slug}-${suffix}`;
+  }
+
+  return candidate;
+}
+
+/**
+ * Builds the stored server; call validateMcpServerDraft first. Editing a
+ * server keeps its enabled state and the tools it last listed.
+ */
+export function mcpServerFromDraft(
+  draft: McpServerDraft,
+  id: string,
+  previous?: McpServer,
+): McpServer {
+  return {
+    id,
+    name: draft.name.trim(),
+    url: draft.url.trim().replace(/\/+$/, ""),
+    token: draft.token.trim() || null,
+    enabled: previous?.enabled ?? true,
+    tools: previous?.tools ?? [],
+  };
+}
+
+/** Tools of enabled servers that the chat has not switched off, in server order. */
+export function getEnabledMcpTools(
+  servers: readonly McpServer[],
+  disabledTools: readonly McpToolKey[],
+): McpEnabledTool[] {
+  const disabled = new Set(disabledTools);
+
+  return servers.flatMap((server) => {
+    if (!server.enabled) {
+      return [];
+    }
+
+    return server.tools
+      .map((tool) => ({ key: getMcpToolKey(server.id, tool.name), server, tool }))
+      .filter((entry) => !disabled.has(entry.key));
+  });
+}
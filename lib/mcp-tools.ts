@@ -0,0 +1,121 @@
+import { jsonSchema, tool, type JSONSchema7, type Tool } from "ai";
+
+import { createMcpClient, mapMcpErrorToMessage, type McpClient } from "@/lib/mcp-client";
+import { getEnabledMcpTools, type McpEnabledTool } from "@/lib/mcp-servers";
+import type { ToolCallSource } from "@/lib/tool-call-recorder";
+import type { McpServer, McpToolKey } from "@/types/mcp.types";
+
+/** Providers reject function names outside this pattern */
+const MAX_TOOL_NAME_LENGTH = 64;
+type McpToolSet = Record<string, Tool<unknown, string>>;
+
+interface CreateMcpToolRuntimeOptions {
+  servers: readonly McpServer[];
+  disabledTools: readonly McpToolKey[];
+  /** Swappable for tests */
+  createClient?: (server: McpServer) => McpClient;
+}
+
+export interface McpToolRuntime {
+  readonly enabled: boolean;
+  /** Number of tool definitions sent with each request */
+  readonly toolCount: number;
+  /** Policy keys and display names for each tool, by provider-facing name */
+  readonly toolSources: Readonly<Record<string, ToolCallSource>>;
+  createTools: () => McpToolSet | undefined;
+}
+
+const toToolNameSegment = (value: string): string => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+/**
+ * Gives every tool a provider-safe function name. Server ids keep tools with
+ * the same name on different servers apart; clashes left after cutting to
+ * length get a numeric suffix.
+ */
+export const createMcpToolNames = (tools: readonly McpEnabledTool[]): Map<string, McpEnabledTool> => {
+  const names = new Map<string, McpEnabledTool>();
+
+  for (const entry of tools) {
+    const base = `${toToolNameSegment(entry.server.id)}_${toToolNameSegment(entry.tool.name)}`
+      .slice(0, MAX_TOOL_NAME_LENGTH);
+    let candidate = base;
+    for (let suffix = 2; names.has(candidate); suffix += 1) {
+      const tail = `_${suffix}`;
+      candidate = `${base.slice(0, MAX_TOOL_NAME_LENGTH - tail.length)}${tail}`;
+    }
+    names.set(candidate, entry);
+  }
+
+  return names;
+};
+
+export const createMcpToolRuntime = (
+  options: CreateMcpToolRuntimeOptions,
+): McpToolRuntime => {
+  const toolNames = createMcpToolNames(getEnabledMcpTools(options.servers, options.disabledTools));
+  // One client per server so a reply's calls share the server session
+  const clients = new Map<string, McpClient>();
+  const createClient = options.createClient
+    ?? ((server: McpServer) => createMcpClient({ url: server.url, token: server.token }));
+
+  const getClient = (server: McpServer): McpClient => {
+    let client = clients.get(server.id);
+    if (!client) {
+      client = createClient(server);
+      clients.set(server.id, client);
+    }
+    return client;
+  };
+
+  /**
+   * Failures are thrown so the tool-call recorder logs them; a tool's own
+   * error text is passed on because it usually tells the model what to fix.
+   */
+  const runTool = async (
+    entry: McpEnabledTool,
+    input: unknown,
+    abortSignal?: AbortSignal,
+  ): Promise<string> => {
+    let result;
+    try {
+      result = await getClient(entry.server).callTool(entry.tool.name, input, abortSignal);
+    } catch (error) {
+      throw new Error(mapMcpErrorToMessage(error));
+    }
+
+    if (result.isError) {
+      throw new Error(result.text || "The tool reported an error.");
+    }
+    return result.text;
+  };
+
+  const toolSources: Record<string, ToolCallSource> = {};
+  for (const [name, entry] of toolNames) {
+    toolSources[name] = { key: entry.key, toolName: entry.tool.name, source: entry.server.name };
+  }
+
+  const createTools = (): McpToolSet | undefined => {
+    if (toolNames.size === 0) {
+      return undefined;
+    }
+
+    const tools: McpToolSet = {};
+    for (const [name, entry] of toolNames) {
+      tools[name] = tool<unknown, string>({
+        description: entry.tool.description
+          ? `${entry.tool.description} (from ${entry.server.name})`
+          : `${entry.tool.name} from ${entry.server.name}.`,
+        inputSchema: jsonSchema<unknown>(entry.tool.inputSchema as JSONSchema7),
+        execute: async (input, { abortSignal }) => runTool(entry, input, abortSignal),
+      });
+    }
+    return tools;
+  };
+
+  return {
+    enabled: toolNames.size > 0,
+    toolCount: toolNames.size,
+    toolSources,
+    createTools,
+  };
+};
@@ -0,0 +1,133 @@
+/**
+ * @file model-capabilities.ts
+ * @purpose Resolves what a model can do by layering built-in data, live catalog
+ * metadata and the user's own overrides.
+ */
+
+import {
+  getBuiltInModelCapabilities,
+  MODEL_CAPABILITY_FLAGS,
+  type ModelCapabilities,
+  type ModelCapabilityFlag,
+  type ModelCapabilityPatch,
+  type ProviderId,
+} from "@/types/provider.types";
+
+/** Capability data per provider, keyed by model id */
+export type ModelCapabilityTable = Partial<Record<ProviderId, Record<string, ModelCapabilityPatch>>>;
+
+export interface ModelCapabilitySources {
+  catalog?: ModelCapabilityPatch;
+  override?: ModelCapabilityPatch;
+}
+
+// Video is sent through the native Gemini API or the OpenRouter video transport;
+// every other provider would drop the file part, whatever the model accepts.
+const VIDEO_TRANSPORT_PROVIDERS: ProviderId[] = ["gemini", "openrouter"];
+
+export const supportsVideoInput = (providerId: ProviderId): boolean => {
+  return VIDEO_TRANSPORT_PROVIDERS.includes(providerId);
+};
+
+// These providers take a PDF file part as is, for models that read images
+// (pages go in as both text and pictures); the rest get text pulled out of
+// the PDF on the device before the message is sent.
+const PDF_TRANSPORT_PROVIDERS: ProviderId[] = ["openai", "anthropic", "gemini", "openrouter"];
+
+export const supportsPdfInput = (
+  providerId: ProviderId,
+  capabilities: Pick<ModelCapabilities, "vision">,
+): boolean => {
+  return PDF_TRANSPORT_PROVIDERS.includes(providerId) && capabilities.vision;
+};
+
+const withoutUndefined = (patch: ModelCapabilityPatch | undefined): ModelCapabilityPatch => {
+  if (!patch) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(patch).filter(([, value]) => value !== undefined),
+  ) as ModelCapabilityPatch;
+};
+
+/**
+ * Later sources win: built-in data, then the live catalog, then user overrides.
+ */
+export function resolveModelCapabilities(
+  providerId: ProviderId,
+  modelId: string,
+  sources: ModelCapabilitySources = {},
+): ModelCapabilities {
+  const resolved: ModelCapabilities = {
+    ...getBuiltInModelCapabilities(providerId, modelId),
+    ...withoutUndefined(sources.catalog),
+    ...withoutUndefined(sources.override),
+  };
+
+  return {
+    ...resolved,
+    video: resolved.video && supportsVideoInput(providerId),
+  };
+}
+
+/** Looks up one model's entries in the catalog and override tables */
+export function selectModelCapabilitySources(
+  providerId: ProviderId,
+  modelId: string,
+  catalogCapabilities: ModelCapabilityTable | undefined,
+  capabilityOverrides: ModelCapabilityTable | undefined,
+): ModelCapabilitySources {
+  return {
+    catalog: catalogCapabilities?.[providerId]?.[modelId],
+    override: capabilityOverrides?.[providerId]?.[modelId],
+  };
+}
+
+/** Editable form of an override; null flags follow the detected value */
+export interface ModelCapabilityDraft {
+  flags: Record<ModelCapabilityFlag, boolean | null>;
+  contextTokens: string;
+}
+
+export function draftFromCapabilityOverride(override?: ModelCapabilityPatch): ModelCapabilityDraft {
+  const flags = Object.fromEntries(
+    MODEL_CAPABILITY_FLAGS.map((flag) => [flag, override?.[flag] ?? null]),
+  ) as Record<ModelCapabilityFlag, boolean | null>;
+
+  return {
+    flags,
+    contextTokens: override?.contextTokens ? String(override.contextTokens) : "",
+  };
+}
+
+/**
+ * Turns a draft back into an override. Returns null when every field is left
+ * on auto, and an error message when the context size is not a whole number.
+ */
+export function capabilityOverrideFromDraft(
+  draft: ModelCapabilityDraft,
+): { override: ModelCapabilityPatch | null; error: string | null } {
+  const override: ModelCapabilityPatch = {};
+
+  for (const flag of MODEL_CAPABILITY_FLAGS) {
+    const value = draft.flags[flag];
+    if (value !== null) {
+      override[flag] = value;
+    }
+  }
+
+  const contextText = draft.contextTokens.trim().replace(/[,_\s]/g, "");
+  if (contextText) {
+    const contextTokens = Number(contextText);
+    if (!Number.isInteger(contextTokens) || contextTokens <= 0) {
+      return { override: null, error: "Context window must be a whole number of tokens." };
+    }
+    override.contextTokens = contextTokens;
+  }
+
+  return {
+    override: Object.keys(override).length > 0 ? override : null,
+    error: null,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * @file model-catalog.ts
+ * @purpose Live model catalogs for providers that publish a model list endpoint.
+ */
+
+import { fetchOpenAIModels } from "@/providers/openai-provider";
+import { fetchOpencodeModels } from "@/providers/opencode-provider";
+import { fetchOpenRouterModelCatalog } from "@/providers/openrouter-provider";
+import type { ModelCapabilityPatch, ModelCatalogProviderId, ModelPricing } from "@/types/provider.types";
+
+/** How long a fetched catalog counts as fresh before the next screen visit refetches it */
+export const MODEL_CATALOG_TTL_MS = 6 * 60 * 60 * 1000;
+
+export interface ModelCatalogSnapshot {
+  models: string[];
+  fetchedAt: number;
+  /** Per-model capabilities, for catalogs that publish them */
+  capabilities?: Record<string, ModelCapabilityPatch>;
+  /** Per-model token prices, for catalogs that publish them */
+  pricing?: Record<string, ModelPricing>;
+}
+
+type CatalogFetcher = (apiKey: string) => Promise<Omit<ModelCatalogSnapshot, "fetchedAt">>;
+
+const CATALOG_FETCHERS: Record<ModelCatalogProviderId, CatalogFetcher> = {
+  openai: async (apiKey) => ({ models: await fetchOpenAIModels(apiKey) }),
+  openrouter: fetchOpenRouterModelCatalog,
+  opencode: async (apiKey) => ({ models: await fetchOpencodeModels(apiKey) }),
+};
+
+/**
+ * Fetches a provider's catalog. An empty result is treated as a failure so
+ * the query keeps its previous data instead of wiping the model list.
+ */
+export async function fetchModelCatalog(
+  providerId: ModelCatalogProviderId,
+  apiKey: string,
+): Promise<ModelCatalogSnapshot> {
+  const catalog = await CATALOG_FETCHERS[providerId](apiKey);
+  if (catalog.models.length === 0) {
+    throw new Error("No models were returned. Check your API key.");
+  }
+
+  return { ...catalog, fetchedAt: Date.now() };
+}
+
+export function formatCatalogFetchedAt(fetchedAt: number, now: number = Date.now()): string {
+  const minutes = Math.floor(Math.max(0, now - fetchedAt) / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (minutes < 1) return "Updated just now";
+  if (minutes < 60) return `Updated ${minutes}m ago`;
+  if (hours < 24) return `Updated ${hours}h ago`;
+  return `Updated ${days}d ago`;
+}
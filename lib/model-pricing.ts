@@ -0,0 +1,142 @@
+/**
+ * @file model-pricing.ts
+ * @purpose Per-model token prices and the cost of a reply. Prices come from
+ * live catalogs where a provider publishes them and from the user otherwise.
+ */
+
+import type { ChatTokenUsage } from "@/types/chat.types";
+import type { ModelPricing, ProviderId } from "@/types/provider.types";
+
+/** Price data per provider, keyed by model id */
+export type ModelPricingTable = Partial<Record<ProviderId, Record<string, ModelPricing>>>;
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * On-device and local models cost nothing per token, and Codex is covered by
+ * the ChatGPT subscription, so their replies are priced at zero.
+ */
+const FREE_PROVIDERS: ProviderId[] = ["apple", "ollama", "openai-codex"];
+
+const FREE_PRICING: ModelPricing = { input: 0, output: 0 };
+
+export const isFreeProvider = (providerId: ProviderId): boolean => {
+  return FREE_PROVIDERS.includes(providerId);
+};
+
+/** The user's price wins over the catalog's; null when neither is known */
+export function resolveModelPricing(
+  providerId: ProviderId,
+  sources: { catalog?: ModelPricing; override?: ModelPricing } = {},
+): ModelPricing | null {
+  return sources.override
+    ?? sources.catalog
+    ?? (isFreeProvider(providerId) ? FREE_PRICING : null);
+}
+
+/**
+ * Cost in US dollars. Reasoning tokens are already part of the output count,
+ * which is how providers bill them.
+ */
+export function computeUsageCost(usage: ChatTokenUsage, pricing: ModelPricing | null): number | null {
+  if (!pricing) {
+    return null;
+  }
+
+  const cachedTokens = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const uncachedTokens = usage.inputTokens - cachedTokens;
+  const dollars = uncachedTokens * pricing.input
+    + cachedTokens * (pricing.cachedInput ?? pricing.input)
+    + usage.outputTokens * pricing.output;
+
+  return dollars / TOKENS_PER_PRICE_UNIT;
+}
+
+/**
+ * Converts per-token prices, the unit OpenRouter's catalog uses, into
+ * per-million prices. Negative values mark variable-price routers and are
+ * treated as unknown.
+ */
+export function pricePerMillionFromPerToken(value: unknown): number | undefined {
+  const perToken = typeof value === "string" ? Number(value) : value;
+  if (typeof perToken !== "number" || !Number.isFinite(perToken) || perToken < 0) {
+    return undefined;
+  }
+
+  // Rounding to a millionth of a dollar drops floating-point noise such as 2.9999999999999996.
+  return Math.round(perToken * TOKENS_PER_PRICE_UNIT * 1_000_000) / 1_000_000;
+}
+
+/** Editable form of a price override; blank fields mean "not set" */
+export interface ModelPricingDraft {
+  input: string;
+  output: string;
+  cachedInput: string;
+}
+
+const formatDraftPrice = (value: number | undefined): string => {
+  return value === undefined ? "" : String(value);
+};
+
+export function draftFromPricingOverride(override?: ModelPricing): ModelPricingDraft {
+  return {
+    input: formatDraftPrice(override?.input),
+    output: formatDraftPrice(override?.output),
+    cachedInput: formatDraftPrice(override?.cachedInput),
+  };
+}
+
+const parseDraftPrice = (value: string): number | null | undefined => {
+  const text = value.trim().replace(/^\$/, "").replace(",", ".");
+  if (!text) {
+    return undefined;
+  }
+
+  const price = Number(text);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+/**
+ * Turns a draft back into an override. All-blank drafts clear the override;
+ * input and output prices must be given together.
+ */
+export function pricingOverrideFromDraft(
+  draft: ModelPricingDraft,
+): { override: ModelPricing | null; error: string | null } {
+  const input = parseDraftPrice(draft.input);
+  const output = parseDraftPrice(draft.output);
+  const cachedInput = parseDraftPrice(draft.cachedInput);
+
+  if (input === null || output === null || cachedInput === null) {
+    return { override: null, error: "Prices must be zero or a positive number of dollars." };
+  }
+
+  if (input === undefined && output === undefined && cachedInput === undefined) {
+    return { override: null, error: null };
+  }
+
+  if (input === undefined || output === undefined) {
+    return { override: null, error: "Enter both the input and the output price." };
+  }
+
+  return {
+    override: cachedInput === undefined ? { input, output } : { input, output, cachedInput },
+    error: null,
+  };
+}
+
+export function formatUsageCost(cost: number): string {
+  if (cost === 0) {
+    return "$0.00";
+  }
+
+  return cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokenTotal(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+
+  return tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}K` : String(tokens);
+}
@@ -39,3 +39,17 @@ export const getVisibleModelNames = ({
     ),
   ]);
 };
+
+/** Models that appeared in and disappeared from a list since the previous fetch */
+export const diffModelNames = (
+  previousModels: readonly string[],
+  nextModels: readonly string[],
+): { addedModels: string[]; removedModels: string[] } => {
+  const previousModelSet = new Set(previousModels);
+  const nextModelSet = new Set(nextModels);
+
+  return {
+    addedModels: nextModels.filter((model) => !previousModelSet.has(model)),
+    removedModels: previousModels.filter((model) => !nextModelSet.has(model)),
+  };
+};
@@ -0,0 +1,399 @@
+/**
+ * @file network-inspector.ts
+ * @purpose Opt-in recorder for the HTTP traffic behind provider calls, the
+ * OpenRouter video transport and SearXNG, for when an error message alone
+ * does not explain what a provider did.
+ *
+ * inspectedFetch stands in for expo/fetch. While recording is off it passes
+ * straight through; while on, it keeps the last NETWORK_INSPECTOR_CAPACITY
+ * exchanges in memory with credentials masked, including every SSE event of
+ * a streamed reply. Nothing is written to disk.
+ */
+
+import { fetch as expoFetch } from "expo/fetch";
+import { create } from "zustand";
+
+export const NETWORK_INSPECTOR_CAPACITY = 50;
+const MAX_BODY_LENGTH = 20_000;
+const MAX_STREAM_EVENTS = 500;
+const REDACTED = "[redacted]";
+
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "x-api-key",
+  "api-key",
+  "x-goog-api-key",
+  "x-subscription-token",
+  "chatgpt-account-id",
+  "cookie",
+  "set-cookie",
+]);
+
+const SENSITIVE_QUERY_PARAMS = ["key", "api_key", "apikey", "access_token", "token"];
+
+export type InspectedRequestState = "pending" | "streaming" | "done" | "error";
+
+export interface InspectedRequest {
+  id: string;
+  method: string;
+  /** Request URL with credential query parameters masked */
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody: string | null;
+  state: InspectedRequestState;
+  startedAt: number;
+  status: number | null;
+  statusText: string | null;
+  responseHeaders: Record<string, string>;
+  /** Time until the response headers arrived */
+  headersMs: number | null;
+  /** Time until the body was fully read, or the request failed */
+  durationMs: number | null;
+  /** Raw SSE event blocks, for event-stream responses */
+  events: string[];
+  /** Text of a non-streamed body, when the caller read it */
+  responseBody: string | null;
+  /** Events or body went past what the record keeps, so it is incomplete */
+  truncated: boolean;
+  error: string | null;
+}
+
+interface NetworkInspectorState {
+  enabled: boolean;
+  /** Newest first */
+  requests: InspectedRequest[];
+}
+
+/** Recorded exchanges, subscribed to by the network inspector screen */
+export const useNetworkInspectorStore = create<NetworkInspectorState>()(() => ({
+  enabled: false,
+  requests: [],
+}));
+
+const baseFetch = expoFetch as unknown as typeof globalThis.fetch;
+let requestCounter = 0;
+
+export function setNetworkInspectorEnabled(enabled: boolean): void {
+  useNetworkInspectorStore.setState({ enabled });
+}
+
+export function clearNetworkInspector(): void {
+  useNetworkInspectorStore.setState({ requests: [] });
+}
+
+export function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+const truncate = (text: string, maxLength: number): string => (
+  text.length > maxLength ? `${text.slice(0, maxLength)}… (${text.length - maxLength} more characters)` : text
+);
+
+/**
+ * Text form of a request body for logs. Binary and form bodies are described
+ * rather than dumped.
+ */
+export function describeRequestBody(body: unknown, maxLength: number = MAX_BODY_LENGTH): string | null {
+  if (body === undefined || body === null) {
+    return null;
+  }
+  if (typeof body === "string") {
+    return truncate(body, maxLength);
+  }
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    return "<form data>";
+  }
+  if (body instanceof ArrayBuffer) {
+    return `<binary, ${body.byteLength} bytes>`;
+  }
+  if (ArrayBuffer.isView(body)) {
+    return `<binary, ${body.byteLength} bytes>`;
+  }
+  return "<stream>";
+}
+
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  let changed = false;
+  for (const param of SENSITIVE_QUERY_PARAMS) {
+    if (parsed.searchParams.has(param)) {
+      parsed.searchParams.set(param, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? parsed.toString() : url;
+}
+
+/**
+ * Lowercased header map with credentials masked. `extraSensitive` names
+ * headers that only the caller knows carry a secret, like a user-configured
+ * API key header.
+ */
+export function redactHeaders(
+  headers: HeadersInit | Headers | null | undefined,
+  extraSensitive: readonly string[] = [],
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers) {
+    return record;
+  }
+
+  const extra = new Set(extraSensitive.map((name) => name.toLowerCase()));
+  const add = (key: string, value: string) => {
+    const name = key.toLowerCase();
+    record[name] = SENSITIVE_HEADERS.has(name) || extra.has(name) ? REDACTED : value;
+  };
+
+  if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => add(key, value));
+  } else if (typeof (headers as Headers).forEach === "function") {
+    (headers as Headers).forEach((value, key) => add(key, value));
+  } else {
+    Object.entries(headers as Record<string, string>).forEach(([key, value]) => add(key, String(value)));
+  }
+  return record;
+}
+
+const quoteShellArg = (value: string): string => `'${value.replace(/'/g, "'\\''")}'`;
+
+/**
+ * Rebuilds a recorded request as a cURL command. Masked headers stay masked,
+ * so paste your own key before running it.
+ */
+export function toCurlCommand(request: InspectedRequest): string {
+  const command = ["curl"];
+  if (request.events.length > 0 || request.responseHeaders["content-type"]?.includes("text/event-stream")) {
+    command.push("-N");
+  }
+  if (request.method !== "GET") {
+    command.push(`-X ${request.method}`);
+  }
+  command.push(quoteShellArg(request.url));
+
+  const lines = [command.join(" ")];
+  Object.entries(request.requestHeaders).forEach(([key, value]) => {
+    lines.push(`-H ${quoteShellArg(`${key}: ${value}`)}`);
+  });
+  if (request.requestBody !== null) {
+    lines.push(`--data-raw ${quoteShellArg(request.requestBody)}`);
+  }
+  return lines.join(" \\\n  ");
+}
+
+const addRequest = (request: InspectedRequest): void => {
+  useNetworkInspectorStore.setState((state) => ({
+    requests: [request, ...state.requests].slice(0, NETWORK_INSPECTOR_CAPACITY),
+  }));
+};
+
+const updateRequest = (
+  id: string,
+  update: (request: InspectedRequest) => Partial<InspectedRequest>,
+): void => {
+  useNetworkInspectorStore.setState((state) => ({
+    requests: state.requests.map((request) => (
+      request.id === id ? { ...request, ...update(request) } : request
+    )),
+  }));
+};
+
+const getErrorText = (error: unknown): string => (
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+);
+
+const failRequest = (id: string, startedAt: number, error: unknown): void => {
+  updateRequest(id, () => ({
+    state: "error",
+    error: getErrorText(error),
+    durationMs: Date.now() - startedAt,
+  }));
+};
+
+/**
+ * Passes the body through untouched while copying it into the record: SSE
+ * bodies event by event, anything else as truncated text.
+ */
+const observeBody = (
+  body: ReadableStream<Uint8Array>,
+  id: string,
+  startedAt: number,
+  isEventStream: boolean,
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushEvents = (final: boolean) => {
+    const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+    buffer = final ? "" : (blocks.pop() ?? "");
+    const events = blocks.map((block) => block.trim()).filter(Boolean);
+    if (events.length > 0) {
+      updateRequest(id, (request) => {
+        const allEvents = [...request.events, ...events];
+        return {
+          events: allEvents.slice(0, MAX_STREAM_EVENTS),
+          truncated: request.truncated || allEvents.length > MAX_STREAM_EVENTS,
+        };
+      });
+    }
+  };
+
+  const finish = () => {
+    if (isEventStream) {
+      flushEvents(true);
+    }
+    updateRequest(id, (request) => ({
+      state: "done",
+      durationMs: Date.now() - startedAt,
+      responseBody: isEventStream ? null : truncate(buffer, MAX_BODY_LENGTH),
+      truncated: request.truncated || (!isEventStream && buffer.length > MAX_BODY_LENGTH),
+    }));
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          buffer += decoder.decode();
+          finish();
+          controller.close();
+          return;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        if (isEventStream) {
+          flushEvents(false);
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        failRequest(id, startedAt, error);
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      updateRequest(id, () => ({
+        state: "done",
+        durationMs: Date.now() - startedAt,
+        error: "Cancelled by the app before the body ended",
+      }));
+      return reader.cancel(reason);
+    },
+  });
+};
+
+/**
+ * The response as the caller sees it, with body, text() and json() reading
+ * through the recorder.
+ */
+const observeResponse = (response: Response, id: string, startedAt: number): Response => {
+  const isEventStream = response.headers.get("content-type")?.includes("text/event-stream") ?? false;
+  let observedBody: ReadableStream<Uint8Array> | null | undefined;
+
+  const readText = async (): Promise<string> => {
+    try {
+      const text = await response.text();
+      updateRequest(id, () => ({
+        state: "done",
+        durationMs: Date.now() - startedAt,
+        responseBody: truncate(text, MAX_BODY_LENGTH),
+        truncated: text.length > MAX_BODY_LENGTH,
+      }));
+      return text;
+    } catch (error) {
+      failRequest(id, startedAt, error);
+      throw error;
+    }
+  };
+
+  return new Proxy(response, {
+    get(target, property) {
+      if (property === "body") {
+        if (observedBody === undefined) {
+          observedBody = target.body ? observeBody(target.body, id, startedAt, isEventStream) : null;
+        }
+        return observedBody;
+      }
+      if (property === "text") {
+        return readText;
+      }
+      if (property === "json") {
+        return async () => JSON.parse(await readText());
+      }
+
+      const value = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+};
+
+interface InspectedFetchOptions {
+  /** Request headers to mask on top of the well-known credential headers */
+  sensitiveHeaders?: readonly string[];
+}
+
+/** inspectedFetch for requests that carry a secret under a header name of the user's choosing */
+export const createInspectedFetch = (
+  options: InspectedFetchOptions = {},
+): typeof globalThis.fetch => async (input, init) => {
+  if (!useNetworkInspectorStore.getState().enabled) {
+    return baseFetch(input, init);
+  }
+
+  const request = typeof input === "object" && !(input instanceof URL) ? input : null;
+  const startedAt = Date.now();
+  requestCounter += 1;
+  const id = `${startedAt.toString(36)}-${requestCounter}`;
+
+  addRequest({
+    id,
+    method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+    url: redactUrl(getRequestUrl(input)),
+    requestHeaders: redactHeaders(init?.headers ?? request?.headers, options.sensitiveHeaders),
+    requestBody: describeRequestBody(init?.body),
+    state: "pending",
+    startedAt,
+    status: null,
+    statusText: null,
+    responseHeaders: {},
+    headersMs: null,
+    durationMs: null,
+    events: [],
+    responseBody: null,
+    truncated: false,
+    error: null,
+  });
+
+  let response: Response;
+  try {
+    response = await baseFetch(input, init);
+  } catch (error) {
+    failRequest(id, startedAt, error);
+    throw error;
+  }
+
+  updateRequest(id, () => ({
+    state: "streaming",
+    status: response.status,
+    statusText: response.statusText || null,
+    responseHeaders: redactHeaders(response.headers),
+    headersMs: Date.now() - startedAt,
+  }));
+
+  return observeResponse(response, id, startedAt);
+};
+
+/**
+ * expo/fetch with recording. Every provider, the OpenRouter video transport
+ * and the web search backends send through this.
+ */
+export const inspectedFetch: typeof globalThis.fetch = createInspectedFetch();
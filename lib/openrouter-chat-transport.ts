@@ -1,4 +1,4 @@
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
 import type { ModelMessage } from "ai";
 
 import { isDataUri, isVideoMediaType } from "@/lib/chat-attachments";
@@ -21,6 +21,8 @@ interface StreamOpenRouterVideoMessagesOptions {
     apiKey: string;
     modelId: string;
     messages: ModelMessage[];
+    systemPrompt?: string;
+    temperature?: number;
     thinkingLevel?: ThinkingLevel;
     shouldRequestThinking: boolean;
     onChunkReceived?: () => void;
@@ -263,6 +265,8 @@ export async function streamOpenRouterVideoMessages(
         apiKey,
         modelId,
         messages,
+        systemPrompt,
+        temperature,
         thinkingLevel,
         shouldRequestThinking,
         onChunkReceived,
@@ -283,12 +287,19 @@ export async function streamOpenRouterVideoMessages(
         onDone?.();
     };
 
+    const requestMessages = toOpenRouterChatMessages(messages);
     const requestBody: Record<string, unknown> = {
         model: modelId,
         stream: true,
-        messages: toOpenRouterChatMessages(messages),
+        messages: systemPrompt
+            ? [{ role: "system", content: systemPrompt }, ...requestMessages]
+            : requestMessages,
     };
 
+    if (temperature !== undefined) {
+        requestBody.temperature = temperature;
+    }
+
     if (shouldRequestThinking) {
         requestBody.reasoning = {
             effort: effectiveThinkingLevel,
@@ -296,7 +307,7 @@ export async function streamOpenRouterVideoMessages(
         requestBody.include_reasoning = true;
     }
 
-    const response = await expoFetch(OPENROUTER_CHAT_COMPLETIONS_URL, {
+    const response = await inspectedFetch(OPENROUTER_CHAT_COMPLETIONS_URL, {
         method: "POST",
         headers: {
             Authorization: `Bearer ${apiKey}`,
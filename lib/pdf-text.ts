@@ -0,0 +1,321 @@
+/**
+ * @file pdf-text.ts
+ * @purpose Best-effort page count and text for PDFs, read on the device for
+ * providers that cannot take a PDF file part. Handles plain and Flate
+ * compressed content streams with literal or hex strings; PDFs that only
+ * hold scanned images or subset fonts without a readable encoding come back
+ * with little or no text.
+ */
+
+import { inflateSync, unzlibSync } from "fflate";
+
+export interface PdfTextResult {
+  /** Null when the page tree could not be found */
+  pageCount: number | null;
+  text: string;
+}
+
+interface PdfStream {
+  dictionary: string;
+  data: Uint8Array;
+}
+
+/** Bytes per String.fromCharCode call; spreading a whole file overflows the argument limit */
+const CHUNK_SIZE = 0x8000;
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = "";
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    result += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return result;
+};
+
+const inflate = (data: Uint8Array): Uint8Array | null => {
+  try {
+    return unzlibSync(data);
+  } catch {
+    try {
+      return inflateSync(data);
+    } catch {
+      return null;
+    }
+  }
+};
+
+/** Longest stream dictionary looked for; real ones are a few hundred bytes */
+const MAX_DICTIONARY_LENGTH = 8192;
+
+/**
+ * Start of the dictionary whose closing ">>" sits at `end`, found by walking
+ * back and counting nesting. A regex that matched nested dictionaries
+ * backtracked exponentially on ordinary page objects, so this stays linear.
+ */
+const findDictionaryStart = (binary: string, end: number): number | null => {
+  const limit = Math.max(0, end - MAX_DICTIONARY_LENGTH);
+  let depth = 1;
+  let index = end - 1;
+
+  while (index > limit) {
+    const pair = binary.slice(index - 1, index + 1);
+    if (pair === ">>") {
+      depth += 1;
+      index -= 2;
+    } else if (pair === "<<") {
+      depth -= 1;
+      if (depth === 0) {
+        return index + 1;
+      }
+      index -= 2;
+    } else {
+      index -= 1;
+    }
+  }
+
+  return null;
+};
+
+/** Every stream object with its dictionary, decoded when it is Flate compressed */
+const readStreams = (bytes: Uint8Array, binary: string): PdfStream[] => {
+  const streams: PdfStream[] = [];
+
+  for (const match of binary.matchAll(/>>[ \t\r\n]*stream\r?\n/g)) {
+    const dictionaryEnd = match.index ?? 0;
+    const dictionaryStart = findDictionaryStart(binary, dictionaryEnd);
+    if (dictionaryStart === null) {
+      continue;
+    }
+
+    const dictionary = binary.slice(dictionaryStart, dictionaryEnd);
+    const start = dictionaryEnd + match[0].length;
+    const end = binary.indexOf("endstream", start);
+    if (end === -1) {
+      continue;
+    }
+
+    const raw = bytes.subarray(start, end);
+    const filter = /\/Filter\s*\[?\s*\/(\w+)/.exec(dictionary)?.[1];
+    if (!filter) {
+      streams.push({ dictionary, data: raw });
+    } else if (filter === "FlateDecode") {
+      const decoded = inflate(raw);
+      if (decoded) {
+        streams.push({ dictionary, data: decoded });
+      }
+    }
+  }
+
+  return streams;
+};
+
+/**
+ * The page tree root's /Count is the document's page total; object streams
+ * in newer PDFs hide it from a plain scan, so their decoded text is searched too.
+ */
+const findPageCount = (sources: string[]): number | null => {
+  let count: number | null = null;
+  let pageObjects = 0;
+
+  for (const source of sources) {
+    for (const match of source.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g)) {
+      const value = Number.parseInt(match[1] ?? match[2], 10);
+      count = count === null ? value : Math.max(count, value);
+    }
+    pageObjects += source.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  }
+
+  return count ?? (pageObjects > 0 ? pageObjects : null);
+};
+
+const LITERAL_ESCAPES: Readonly<Record<string, string>> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+  "(": "(",
+  ")": ")",
+  "\\": "\\",
+};
+
+/** Reads a (literal) string starting just after its opening parenthesis */
+const readLiteralString = (content: string, start: number): { value: string; end: number } => {
+  let value = "";
+  let depth = 1;
+  let index = start;
+
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1] ?? "";
+      if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4))?.[0] ?? next;
+        value += String.fromCharCode(Number.parseInt(octal, 8));
+        index += 1 + octal.length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        index += next === "\r" && content[index + 2] === "\n" ? 3 : 2;
+        continue;
+      }
+      value += LITERAL_ESCAPES[next] ?? next;
+      index += 2;
+      continue;
+    }
+
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return { value, end: index + 1 };
+      }
+    }
+
+    value += char;
+    index += 1;
+  }
+
+  return { value, end: index };
+};
+
+const decodeHexString = (hex: string): string => {
+  const digits = hex.replace(/\s+/g, "");
+  const padded = digits.length % 2 === 0 ? digits : `${digits}0`;
+  // Two-byte strings starting with a byte-order mark are UTF-16
+  if (/^feff/i.test(padded)) {
+    let value = "";
+    for (let index = 4; index + 4 <= padded.length; index += 4) {
+      value += String.fromCharCode(Number.parseInt(padded.slice(index, index + 4), 16));
+    }
+    return value;
+  }
+
+  let value = "";
+  for (let index = 0; index < padded.length; index += 2) {
+    value += String.fromCharCode(Number.parseInt(padded.slice(index, index + 2), 16));
+  }
+  return value;
+};
+
+/**
+ * Walks one content stream's text objects. Strings shown with Tj, TJ, ' and "
+ * are kept; line moves start a new line and wide TJ gaps become spaces.
+ */
+const extractContentText = (content: string): string => {
+  const lines: string[] = [];
+  let line = "";
+  let pending: string[] = [];
+  let index = 0;
+
+  const breakLine = () => {
+    if (line.trim()) {
+      lines.push(line.replace(/[ \t]+/g, " ").trim());
+    }
+    line = "";
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === "(") {
+      const literal = readLiteralString(content, index + 1);
+      pending.push(literal.value);
+      index = literal.end;
+      continue;
+    }
+
+    if (char === "<" && content[index + 1] !== "<") {
+      const end = content.indexOf(">", index);
+      if (end === -1) {
+        break;
+      }
+      pending.push(decodeHexString(content.slice(index + 1, end)));
+      index = end + 1;
+      continue;
+    }
+
+    if (char === "[") {
+      pending = [];
+      index += 1;
+      continue;
+    }
+
+    if (/[-\d.]/.test(char) && pending.length > 0) {
+      const number = /^-?\d*\.?\d+/.exec(content.slice(index, index + 16))?.[0];
+      if (number) {
+        // Kerning is small; a large negative offset inside TJ separates words
+        if (Number.parseFloat(number) < -200) {
+          pending.push(" ");
+        }
+        index += number.length;
+        continue;
+      }
+    }
+
+    const operator = /^[A-Za-z'"*]+/.exec(content.slice(index, index + 3))?.[0];
+    if (operator) {
+      if (operator === "Tj" || operator === "TJ") {
+        line += pending.join("");
+      } else if (operator === "'" || operator === "\"") {
+        breakLine();
+        line += pending.join("");
+      } else if (operator === "Td" || operator === "TD" || operator === "T*" || operator === "ET") {
+        breakLine();
+      }
+      // Every operator consumes its operands
+      pending = [];
+      index += operator.length;
+      continue;
+    }
+
+    index += 1;
+  }
+
+  breakLine();
+  return lines.join("\n");
+};
+
+/** Text made mostly of control characters came from a font without a readable encoding */
+const isReadable = (text: string): boolean => {
+  const visible = text.replace(/\s+/g, "");
+  if (visible.length === 0) {
+    return false;
+  }
+
+  const printable = visible.replace(/[\u0000-\u001f\u007f-\u009f�]/g, "");
+  return printable.length / visible.length > 0.8;
+};
+
+export function extractPdfText(bytes: Uint8Array): PdfTextResult {
+  const binary = toBinaryString(bytes);
+  const streams = readStreams(bytes, binary);
+  const decodedStreams = streams.map((stream) => ({
+    dictionary: stream.dictionary,
+    text: toBinaryString(stream.data),
+  }));
+
+  const pageCount = findPageCount([
+    binary,
+    ...decodedStreams
+      .filter((stream) => /\/Type\s*\/ObjStm/.test(stream.dictionary))
+      .map((stream) => stream.text),
+  ]);
+
+  const pageTexts = decodedStreams
+    .filter((stream) => !/\/(Type\s*\/(ObjStm|XRef|Metadata)|Subtype\s*\/Image|Length1)/.test(stream.dictionary))
+    .filter((stream) => /\bBT\b/.test(stream.text))
+    .map((stream) => extractContentText(stream.text))
+    .filter(isReadable);
+
+  return {
+    pageCount,
+    text: pageTexts.join("\n\n").trim(),
+  };
+}
+
+/** Page count alone, for showing on an attachment before it is sent */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  // Older PDFs keep the page tree uncompressed, which spares inflating every stream
+  return findPageCount([toBinaryString(bytes)]) ?? extractPdfText(bytes).pageCount;
+}
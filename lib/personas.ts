@@ -0,0 +1,131 @@
+/**
+ * @file personas.ts
+ * @purpose Persona storage and the mapping from a persona to a new chat's settings.
+ *
+ * Chats copy a persona's prompt and temperature when they start, so editing
+ * or deleting a persona never changes conversations that already exist.
+ */
+
+import { asc, eq } from "drizzle-orm";
+
+import { chat, persona } from "@/db/schema";
+import type useDatabase from "@/hooks/useDatabase";
+import {
+  DEFAULT_CHAT_SETTINGS,
+  normalizeSystemPrompt,
+  normalizeTemperature,
+} from "@/lib/chat-settings";
+import type { ChatSettings, ThinkingLevel } from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+type ChatDatabase = ReturnType<typeof useDatabase>;
+
+export type Persona = typeof persona.$inferSelect;
+
+/** Editable persona fields as filled in by the settings form */
+export interface PersonaDraft {
+  name: string;
+  systemPrompt: string;
+  /** Provider and model are applied as a pair; null keeps the current selection */
+  providerId: ProviderId | null;
+  modelId: string | null;
+  thinkingLevel: ThinkingLevel | null;
+  webSearchEnabled: boolean | null;
+  temperature: number | null;
+}
+
+export const EMPTY_PERSONA_DRAFT: PersonaDraft = {
+  name: "",
+  systemPrompt: "",
+  providerId: null,
+  modelId: null,
+  thinkingLevel: null,
+  webSearchEnabled: null,
+  temperature: null,
+};
+
+export function draftFromPersona(entry: Persona): PersonaDraft {
+  return {
+    name: entry.name,
+    systemPrompt: entry.systemPrompt,
+    providerId: entry.providerId ?? null,
+    modelId: entry.modelId ?? null,
+    thinkingLevel: entry.thinkingLevel ?? null,
+    webSearchEnabled: entry.webSearchEnabled ?? null,
+    temperature: entry.temperature ?? null,
+  };
+}
+
+/** Returns a message describing why the draft cannot be saved, or null when it can. */
+export function validatePersonaDraft(draft: PersonaDraft): string | null {
+  if (draft.name.trim().length === 0) {
+    return "Give the persona a name.";
+  }
+
+  if (draft.providerId !== null && !draft.modelId?.trim()) {
+    return "Pick a model for the persona's provider.";
+  }
+
+  if (draft.temperature !== null && normalizeTemperature(draft.temperature) !== draft.temperature) {
+    return "Temperature is outside the supported range.";
+  }
+
+  return null;
+}
+
+/** Settings copied into a chat started from this persona */
+export function chatSettingsFromPersona(entry: Persona): ChatSettings {
+  return {
+    ...DEFAULT_CHAT_SETTINGS,
+    personaId: entry.id,
+    systemPrompt: normalizeSystemPrompt(entry.systemPrompt),
+    temperature: normalizeTemperature(entry.temperature),
+  };
+}
+
+export function listPersonas(db: ChatDatabase): Persona[] {
+  return db.select().from(persona).orderBy(asc(persona.name)).all();
+}
+
+export function getPersona(db: ChatDatabase, id: number): Persona | null {
+  return db.select().from(persona).where(eq(persona.id, id)).get() ?? null;
+}
+
+/**
+ * Inserts the draft when id is null, otherwise updates that persona.
+ * Returns the id of the stored persona.
+ */
+export function savePersona(
+  db: ChatDatabase,
+  draft: PersonaDraft,
+  id: number | null,
+  now: Date = new Date(),
+): number {
+  const values = {
+    name: draft.name.trim(),
+    systemPrompt: draft.systemPrompt.trim(),
+    providerId: draft.providerId,
+    modelId: draft.providerId ? draft.modelId?.trim() ?? null : null,
+    thinkingLevel: draft.thinkingLevel,
+    webSearchEnabled: draft.webSearchEnabled,
+    temperature: normalizeTemperature(draft.temperature),
+    updatedAt: now,
+  };
+
+  if (id === null) {
+    const result = db.insert(persona).values({ ...values, createdAt: now }).run();
+    return Number(result.lastInsertRowId);
+  }
+
+  db.update(persona).set(values).where(eq(persona.id, id)).run();
+  return id;
+}
+
+/** Deletes a persona; chats started from it keep their copied prompt. */
+export function deletePersona(db: ChatDatabase, id: number): void {
+  db.transaction((tx) => {
+    // Foreign keys are not enforced, so detach chats before the row goes.
+    tx.update(chat).set({ personaId: null }).where(eq(chat.personaId, id)).run();
+    tx.delete(persona).where(eq(persona.id, id)).run();
+  });
+}
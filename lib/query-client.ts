@@ -2,6 +2,29 @@ import { QueryClient } from "@tanstack/react-query";
 
 export const chatQueryKeys = {
   hydration: (chatIdParam: string) => ["chat", "hydration", chatIdParam] as const,
+  search: (query: string) => ["chat", "search", query] as const,
+};
+
+export const personaQueryKeys = {
+  all: ["persona"] as const,
+  list: () => ["persona", "list"] as const,
+  detail: (id: number) => ["persona", "detail", id] as const,
+};
+
+export const documentLibraryQueryKeys = {
+  all: ["document-library"] as const,
+  collections: () => ["document-library", "collections"] as const,
+  documents: (collectionId: number) => ["document-library", "documents", collectionId] as const,
+};
+
+export const usageQueryKeys = {
+  all: ["usage"] as const,
+  report: (range: string) => ["usage", "report", range] as const,
+};
+
+export const modelCatalogQueryKeys = {
+  all: ["model-catalog"] as const,
+  provider: (providerId: string) => ["model-catalog", providerId] as const,
 };
 
 export function createAppQueryClient(): QueryClient {
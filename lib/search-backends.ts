@@ -0,0 +1,656 @@
+/**
+ * @file search-backends.ts
+ * @purpose Web search behind one interface. SearXNG, Brave Search, Tavily-style
+ * APIs, Kagi and a mapped JSON endpoint all produce the same
+ * ChatWebSearchSource list, and a chain of backends falls through to the
+ * next one when a search fails.
+ */
+
+import { decodeHtmlEntities } from "@/lib/html-to-markdown";
+import { createInspectedFetch, inspectedFetch } from "@/lib/network-inspector";
+import {
+  mapSearxngErrorToMessage,
+  normalizeSearxngUrl,
+  searchSearxng,
+  SearxngClientError,
+  testSearxngConnection,
+} from "@/lib/searxng-client";
+import type { ChatWebSearchSource } from "@/types/chat.types";
+import type {
+  JsonSearchFieldMapping,
+  SearchBackendConfig,
+  SearchBackendId,
+  StoredSearchBackendConfig,
+} from "@/types/search.types";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RESULTS = 5;
+const BRAVE_SEARCH_URL = "https://api.search.brave.com/res/v1/web/search";
+const KAGI_SEARCH_URL = "https://kagi.com/api/v0/search";
+export const DEFAULT_TAVILY_URL = "https://api.tavily.com/search";
+
+export const SEARCH_BACKEND_IDS: readonly SearchBackendId[] = ["searxng", "brave", "tavily", "kagi", "json"];
+
+export const SEARCH_BACKEND_LABELS: Readonly<Record<SearchBackendId, string>> = {
+  searxng: "SearXNG",
+  brave: "Brave Search",
+  tavily: "Tavily",
+  kagi: "Kagi",
+  json: "JSON endpoint",
+};
+
+export const DEFAULT_JSON_SEARCH_FIELDS: JsonSearchFieldMapping = {
+  results: "results",
+  title: "title",
+  url: "url",
+  snippet: "snippet",
+  publishedDate: "",
+};
+
+type SearchBackendErrorCode =
+  | "not_configured"
+  | "invalid_url"
+  | "unauthorized"
+  | "rate_limited"
+  | "timeout"
+  | "network"
+  | "http"
+  | "invalid_response"
+  | "all_failed";
+
+export class SearchBackendError extends Error {
+  readonly code: SearchBackendErrorCode;
+  readonly backend: SearchBackendId;
+  readonly status?: number;
+
+  constructor(message: string, code: SearchBackendErrorCode, backend: SearchBackendId, status?: number) {
+    super(message);
+    this.name = "SearchBackendError";
+    this.code = code;
+    this.backend = backend;
+    this.status = status;
+  }
+}
+
+export interface WebSearchResult {
+  query: string;
+  sources: ChatWebSearchSource[];
+  /** Backend that answered; later than the first one when the chain fell back */
+  backend: SearchBackendId;
+}
+
+export interface SearchRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxResults?: number;
+}
+
+export interface SearchBackend {
+  readonly id: SearchBackendId;
+  search: (query: string, options?: SearchRequestOptions) => Promise<WebSearchResult>;
+}
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === "AbortError";
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+const readString = (value: unknown): string | undefined => {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  // Some APIs highlight matches with <strong> inside titles and snippets
+  const text = decodeHtmlEntities(value.replace(/<[^>]*>/g, "")).replace(/\s+/g, " ").trim();
+  return text.length > 0 ? text : undefined;
+};
+
+/** Follows a dot-separated path such as "data.items" into a parsed JSON body. */
+export const readJsonPath = (value: unknown, path: string): unknown => {
+  if (!path.trim()) {
+    return undefined;
+  }
+
+  return path.split(".").reduce<unknown>((current, key) => (
+    isRecord(current) || Array.isArray(current)
+      ? (current as Record<string, unknown>)[key.trim()]
+      : undefined
+  ), value);
+};
+
+const toSource = (
+  candidate: { title?: unknown; url?: unknown; snippet?: unknown; publishedDate?: unknown },
+  engine: string,
+): ChatWebSearchSource | null => {
+  const url = typeof candidate.url === "string" ? candidate.url.trim() : "";
+  if (!/^https?:\/\//i.test(url)) {
+    return null;
+  }
+
+  return {
+    title: readString(candidate.title) ?? url,
+    url,
+    snippet: readString(candidate.snippet),
+    engine,
+    publishedDate: readString(candidate.publishedDate),
+  };
+};
+
+const collectSources = (
+  candidates: unknown[],
+  engine: string,
+  pick: (candidate: Record<string, unknown>) => Parameters<typeof toSource>[0],
+  maxResults: number,
+): ChatWebSearchSource[] => {
+  const seen = new Set<string>();
+  const sources: ChatWebSearchSource[] = [];
+
+  for (const candidate of candidates) {
+    const source = isRecord(candidate) ? toSource(pick(candidate), engine) : null;
+    const key = source?.url.toLowerCase();
+    if (!source || !key || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    sources.push(source);
+    if (sources.length >= maxResults) {
+      break;
+    }
+  }
+
+  return sources;
+};
+
+const normalizeHttpUrl = (value: string, backend: SearchBackendId): string => {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(value.trim());
+  } catch {
+    throw new SearchBackendError(`Enter a valid ${SEARCH_BACKEND_LABELS[backend]} URL.`, "invalid_url", backend);
+  }
+
+  if (!(parsedUrl.protocol === "https:" || parsedUrl.protocol === "http:")) {
+    throw new SearchBackendError(
+      `${SEARCH_BACKEND_LABELS[backend]} URLs must use http or https.`,
+      "invalid_url",
+      backend,
+    );
+  }
+
+  parsedUrl.hash = "";
+  // Keep "{query}" readable; URL() percent-encodes the braces
+  return parsedUrl.toString().replace(/%7Bquery%7D/gi, "{query}");
+};
+
+/**
+ * Sends one request under the search timeout and returns the parsed body.
+ * HTTP failures are sorted into the codes the error messages are built from.
+ * `sensitiveHeaders` names headers the network inspector should mask.
+ */
+const requestJson = async (
+  backend: SearchBackendId,
+  url: string,
+  init: RequestInit,
+  options: SearchRequestOptions,
+  sensitiveHeaders: readonly string[] = [],
+): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  options.signal?.addEventListener("abort", abortFromCaller);
+
+  try {
+    const fetchImpl = sensitiveHeaders.length > 0 ? createInspectedFetch({ sensitiveHeaders }) : inspectedFetch;
+    const response = await fetchImpl(url, { ...init, signal: controller.signal });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SearchBackendError("The API key was rejected.", "unauthorized", backend, response.status);
+    }
+    if (response.status === 429) {
+      throw new SearchBackendError("Too many searches.", "rate_limited", backend, response.status);
+    }
+    if (!response.ok) {
+      throw new SearchBackendError(`HTTP ${response.status}.`, "http", backend, response.status);
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new SearchBackendError("The response was not JSON.", "invalid_response", backend);
+    }
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof SearchBackendError) {
+      throw error;
+    }
+    if (isAbortError(error)) {
+      throw new SearchBackendError("The search timed out.", "timeout", backend);
+    }
+
+    throw new SearchBackendError(
+      error instanceof Error ? error.message : "Could not reach the search backend.",
+      "network",
+      backend,
+    );
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener("abort", abortFromCaller);
+  }
+};
+
+const requireArray = (value: unknown, backend: SearchBackendId, description: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new SearchBackendError(`The response had no ${description}.`, "invalid_response", backend);
+  }
+  return value;
+};
+
+const createSearxngBackend = (url: string): SearchBackend => ({
+  id: "searxng",
+  search: async (query, options = {}) => {
+    const result = await searchSearxng(query, {
+      url,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      maxResults: options.maxResults,
+    });
+    return { ...result, backend: "searxng" };
+  },
+});
+
+/** Brave Search web results: https://api-dashboard.search.brave.com/app/documentation */
+const createBraveBackend = (apiKey: string): SearchBackend => ({
+  id: "brave",
+  search: async (query, options = {}) => {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const url = new URL(BRAVE_SEARCH_URL);
+    url.searchParams.set("q", query);
+    url.searchParams.set("count", String(maxResults));
+
+    const payload = await requestJson("brave", url.toString(), {
+      method: "GET",
+      headers: { Accept: "application/json", "X-Subscription-Token": apiKey },
+    }, options);
+    const results = requireArray(readJsonPath(payload, "web.results") ?? [], "brave", "web results");
+
+    return {
+      query,
+      backend: "brave",
+      sources: collectSources(results, "brave", (result) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.description,
+        publishedDate: result.page_age ?? result.age,
+      }), maxResults),
+    };
+  },
+});
+
+/** Tavily's /search, or any service that copies its request and response shape */
+const createTavilyBackend = (endpoint: string, apiKey: string): SearchBackend => ({
+  id: "tavily",
+  search: async (query, options = {}) => {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const payload = await requestJson("tavily", endpoint, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ query, max_results: maxResults, search_depth: "basic" }),
+    }, options);
+    const results = requireArray(readJsonPath(payload, "results"), "tavily", "results array");
+
+    return {
+      query,
+      backend: "tavily",
+      sources: collectSources(results, "tavily", (result) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content,
+        publishedDate: result.published_date,
+      }), maxResults),
+    };
+  },
+});
+
+/** Kagi Search API; entries with t=0 are results, t=1 are related searches */
+const createKagiBackend = (apiKey: string): SearchBackend => ({
+  id: "kagi",
+  search: async (query, options = {}) => {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const url = new URL(KAGI_SEARCH_URL);
+    url.searchParams.set("q", query);
+    url.searchParams.set("limit", String(maxResults));
+
+    const payload = await requestJson("kagi", url.toString(), {
+      method: "GET",
+      headers: { Accept: "application/json", Authorization: `Bot ${apiKey}` },
+    }, options);
+    const entries = requireArray(readJsonPath(payload, "data"), "kagi", "data array");
+
+    return {
+      query,
+      backend: "kagi",
+      sources: collectSources(
+        entries.filter((entry) => isRecord(entry) && entry.t === 0),
+        "kagi",
+        (result) => ({
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet,
+          publishedDate: result.published,
+        }),
+        maxResults,
+      ),
+    };
+  },
+});
+
+const createJsonBackend = (
+  config: Extract<SearchBackendConfig, { id: "json" }>,
+): SearchBackend => ({
+  id: "json",
+  search: async (query, options = {}) => {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    let requestUrl: string;
+    if (config.url.includes("{query}")) {
+      requestUrl = config.url.replace(/\{query\}/g, encodeURIComponent(query));
+    } else {
+      const url = new URL(config.url);
+      url.searchParams.set("q", query);
+      requestUrl = url.toString();
+    }
+
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (config.apiKey) {
+      const isAuthorization = config.apiKeyHeader.toLowerCase() === "authorization";
+      headers[config.apiKeyHeader] = isAuthorization ? `Bearer ${config.apiKey}` : config.apiKey;
+    }
+
+    const payload = await requestJson(
+      "json",
+      requestUrl,
+      { method: "GET", headers },
+      options,
+      config.apiKey ? [config.apiKeyHeader] : [],
+    );
+    const results = requireArray(
+      readJsonPath(payload, config.fields.results),
+      "json",
+      `array at "${config.fields.results}"`,
+    );
+
+    return {
+      query,
+      backend: "json",
+      sources: collectSources(results, new URL(requestUrl).hostname, (result) => ({
+        title: readJsonPath(result, config.fields.title),
+        url: readJsonPath(result, config.fields.url),
+        snippet: readJsonPath(result, config.fields.snippet),
+        publishedDate: readJsonPath(result, config.fields.publishedDate),
+      }), maxResults),
+    };
+  },
+});
+
+export const createSearchBackend = (config: SearchBackendConfig): SearchBackend => {
+  switch (config.id) {
+    case "searxng":
+      return createSearxngBackend(config.url);
+    case "brave":
+      return createBraveBackend(config.apiKey);
+    case "tavily":
+      return createTavilyBackend(config.url, config.apiKey);
+    case "kagi":
+      return createKagiBackend(config.apiKey);
+    case "json":
+      return createJsonBackend(config);
+  }
+};
+
+export const mapSearchErrorToMessage = (error: unknown): string => {
+  if (error instanceof SearxngClientError) {
+    return mapSearxngErrorToMessage(error);
+  }
+  if (!(error instanceof SearchBackendError)) {
+    return "Web search failed.";
+  }
+
+  const label = SEARCH_BACKEND_LABELS[error.backend];
+  switch (error.code) {
+    case "not_configured":
+    case "invalid_url":
+    case "all_failed":
+      return error.message;
+    case "unauthorized":
+      return `${label} rejected the API key. Check it in Settings.`;
+    case "rate_limited":
+      return `${label} is limiting searches right now. Try again shortly.`;
+    case "timeout":
+      return `${label} took too long to respond. Check your connection and try again.`;
+    case "network":
+      return `Could not reach ${label}.`;
+    case "http":
+      return `${label} returned HTTP ${error.status ?? "error"}.`;
+    case "invalid_response":
+    default:
+      return `${label} returned an unexpected response.`;
+  }
+};
+
+/**
+ * Tries each backend in order until one answers. A cancelled search stops the
+ * chain; when every backend fails, the error names each one's reason.
+ */
+export const createSearchBackendChain = (configs: readonly SearchBackendConfig[]): SearchBackend | null => {
+  const backends = configs.map(createSearchBackend);
+  if (backends.length === 0) {
+    return null;
+  }
+  if (backends.length === 1) {
+    return backends[0];
+  }
+
+  return {
+    id: backends[0].id,
+    search: async (query, options = {}) => {
+      const failures: string[] = [];
+
+      for (const backend of backends) {
+        try {
+          return await backend.search(query, options);
+        } catch (error) {
+          if (options.signal?.aborted) {
+            throw error;
+          }
+          failures.push(mapSearchErrorToMessage(error));
+        }
+      }
+
+      throw new SearchBackendError(failures.join(" "), "all_failed", backends[0].id);
+    },
+  };
+};
+
+/**
+ * Orders the backends a chat searches with: the chosen one, then the
+ * fallback. Backends without saved settings are left out.
+ */
+export const resolveSearchBackendChain = (options: {
+  primary: SearchBackendId;
+  fallback: SearchBackendId | null;
+  searxngUrl: string | null;
+  storedBackends: readonly StoredSearchBackendConfig[];
+}): SearchBackendConfig[] => {
+  const findConfig = (id: SearchBackendId): SearchBackendConfig | null => {
+    if (id === "searxng") {
+      return options.searxngUrl ? { id: "searxng", url: options.searxngUrl } : null;
+    }
+    return options.storedBackends.find((config) => config.id === id) ?? null;
+  };
+
+  const ids = options.fallback && options.fallback !== options.primary
+    ? [options.primary, options.fallback]
+    : [options.primary];
+  return ids
+    .map(findConfig)
+    .filter((config): config is SearchBackendConfig => config !== null);
+};
+
+export const testSearchBackend = async (config: SearchBackendConfig): Promise<{
+  success: boolean;
+  message: string;
+}> => {
+  if (config.id === "searxng") {
+    return testSearxngConnection(config.url);
+  }
+
+  try {
+    await createSearchBackend(config).search("seabreeze connectivity check", { timeoutMs: 8000, maxResults: 1 });
+    return { success: true, message: `Connected to ${SEARCH_BACKEND_LABELS[config.id]}.` };
+  } catch (error) {
+    return { success: false, message: mapSearchErrorToMessage(error) };
+  }
+};
+
+// =============================================================================
+// SETTINGS FORM
+// =============================================================================
+
+/** One text field of a backend's settings form */
+export interface SearchBackendField {
+  key: string;
+  label: string;
+  placeholder: string;
+  secure?: boolean;
+}
+
+export type SearchBackendFieldValues = Record<string, string>;
+
+export const SEARCH_BACKEND_FIELDS: Readonly<Record<SearchBackendId, readonly SearchBackendField[]>> = {
+  searxng: [
+    { key: "url", label: "SearXNG URL", placeholder: "https://search.example.com" },
+  ],
+  brave: [
+    { key: "apiKey", label: "Brave Search API Key", placeholder: "BSA…", secure: true },
+  ],
+  tavily: [
+    { key: "url", label: "Search Endpoint", placeholder: DEFAULT_TAVILY_URL },
+    { key: "apiKey", label: "API Key", placeholder: "tvly-…", secure: true },
+  ],
+  kagi: [
+    { key: "apiKey", label: "Kagi API Token", placeholder: "Token from kagi.com/settings?p=api", secure: true },
+  ],
+  json: [
+    { key: "url", label: "Endpoint URL", placeholder: "https://api.example.com/search?q={query}" },
+    { key: "apiKey", label: "API Key (optional)", placeholder: "Leave blank if none", secure: true },
+    { key: "apiKeyHeader", label: "API Key Header", placeholder: "Authorization" },
+    { key: "results", label: "Results Path", placeholder: DEFAULT_JSON_SEARCH_FIELDS.results },
+    { key: "title", label: "Title Field", placeholder: DEFAULT_JSON_SEARCH_FIELDS.title },
+    { key: "resultUrl", label: "URL Field", placeholder: DEFAULT_JSON_SEARCH_FIELDS.url },
+    { key: "snippet", label: "Snippet Field", placeholder: DEFAULT_JSON_SEARCH_FIELDS.snippet },
+    { key: "publishedDate", label: "Date Field (optional)", placeholder: "published_at" },
+  ],
+};
+
+/** The field whose value decides whether a backend's form counts as filled in */
+const PRIMARY_FIELD_KEYS: Readonly<Record<SearchBackendId, string>> = {
+  searxng: "url",
+  brave: "apiKey",
+  tavily: "apiKey",
+  kagi: "apiKey",
+  json: "url",
+};
+
+export const hasSearchBackendFields = (id: SearchBackendId, values: SearchBackendFieldValues): boolean => {
+  return (values[PRIMARY_FIELD_KEYS[id]] ?? "").trim().length > 0;
+};
+
+/** Fills a backend's form from its saved settings, or with defaults. */
+export const getSearchBackendFieldValues = (
+  id: SearchBackendId,
+  config: SearchBackendConfig | null,
+): SearchBackendFieldValues => {
+  switch (id) {
+    case "searxng":
+      return { url: config?.id === "searxng" ? config.url : "" };
+    case "brave":
+    case "kagi":
+      return { apiKey: config?.id === id ? config.apiKey : "" };
+    case "tavily":
+      return config?.id === "tavily"
+        ? { url: config.url, apiKey: config.apiKey }
+        : { url: DEFAULT_TAVILY_URL, apiKey: "" };
+    case "json": {
+      const json = config?.id === "json" ? config : null;
+      const fields = json?.fields ?? DEFAULT_JSON_SEARCH_FIELDS;
+      return {
+        url: json?.url ?? "",
+        apiKey: json?.apiKey ?? "",
+        apiKeyHeader: json?.apiKeyHeader ?? "Authorization",
+        results: fields.results,
+        title: fields.title,
+        resultUrl: fields.url,
+        snippet: fields.snippet,
+        publishedDate: fields.publishedDate,
+      };
+    }
+  }
+};
+
+/**
+ * Turns a filled-in form into backend settings. Returns null when the form
+ * is empty, meaning the backend should be forgotten; throws when it is
+ * incomplete or invalid.
+ */
+export const parseSearchBackendFields = (
+  id: SearchBackendId,
+  values: SearchBackendFieldValues,
+): SearchBackendConfig | null => {
+  const value = (key: string) => values[key]?.trim() ?? "";
+  const requireValue = (key: string, label: string) => {
+    if (!value(key)) {
+      throw new SearchBackendError(`Enter the ${label} for ${SEARCH_BACKEND_LABELS[id]}.`, "not_configured", id);
+    }
+    return value(key);
+  };
+
+  switch (id) {
+    case "searxng":
+      return value("url") ? { id, url: normalizeSearxngUrl(value("url")) } : null;
+    case "brave":
+    case "kagi":
+      return value("apiKey") ? { id, apiKey: value("apiKey") } : null;
+    case "tavily":
+      if (!value("apiKey")) {
+        return null;
+      }
+      return {
+        id,
+        url: normalizeHttpUrl(value("url") || DEFAULT_TAVILY_URL, id),
+        apiKey: value("apiKey"),
+      };
+    case "json":
+      if (!value("url")) {
+        return null;
+      }
+      return {
+        id,
+        url: normalizeHttpUrl(value("url"), id),
+        apiKey: value("apiKey") || null,
+        apiKeyHeader: value("apiKeyHeader") || "Authorization",
+        fields: {
+          results: requireValue("results", "results path"),
+          title: requireValue("title", "title field"),
+          url: requireValue("resultUrl", "URL field"),
+          snippet: value("snippet"),
+          publishedDate: value("publishedDate"),
+        },
+      };
+  }
+};
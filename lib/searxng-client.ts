@@ -1,4 +1,4 @@
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
 
 import type { ChatWebSearchSource } from "@/types/chat.types";
 
@@ -33,6 +33,8 @@ export interface SearxngSearchResult {
 
 interface SearxngClientOptions {
   url: string | null | undefined;
+  /** Cancels the request; the abort error is rethrown rather than reported as a timeout */
+  signal?: AbortSignal;
   timeoutMs?: number;
   maxResults?: number;
 }
@@ -168,9 +170,11 @@ export const searchSearxng = async (
   const baseUrl = normalizeSearxngUrl(options.url ?? "");
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  options.signal?.addEventListener("abort", abortFromCaller);
 
   try {
-    const response = await expoFetch(buildSearchUrl(baseUrl, normalizedQuery), {
+    const response = await inspectedFetch(buildSearchUrl(baseUrl, normalizedQuery), {
       method: "GET",
       headers: {
         Accept: "application/json",
@@ -233,6 +237,10 @@ export const searchSearxng = async (
       sources: normalizedSources,
     };
   } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
     if (isAbortError(error)) {
       throw new SearxngClientError(
         "SearXNG timed out.",
@@ -250,6 +258,7 @@ export const searchSearxng = async (
     );
   } finally {
     clearTimeout(timeoutId);
+    options.signal?.removeEventListener("abort", abortFromCaller);
   }
 };
 
@@ -0,0 +1,156 @@
+/**
+ * @file sse-fixtures.ts
+ * @purpose Record and replay provider HTTP exchanges, so provider behaviour
+ * can be reproduced in tests without a network or an API key.
+ *
+ * Recording happens through the network inspector: a finished request is
+ * turned into an SseFixture and shared as JSON. createReplayFetch plays
+ * fixtures back in order as a fetch implementation that any AI SDK provider
+ * accepts through its `fetch` option.
+ */
+
+import { getRequestUrl, type InspectedRequest } from "@/lib/network-inspector";
+
+export interface SseFixture {
+  request: {
+    method: string;
+    /** Recorded URL, credentials already masked */
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    headers: Record<string, string>;
+    /** SSE event blocks, without the blank line that ends each one */
+    events: string[];
+    /** Body of a non-streamed response */
+    body: string | null;
+  };
+}
+
+export interface ReplayFetchOptions {
+  /** Pause before each event, to exercise timeouts and partial output */
+  eventDelayMs?: number;
+}
+
+export function toSseFixture(request: InspectedRequest): SseFixture {
+  if (request.status === null) {
+    throw new Error("This request has no response to record");
+  }
+  // A replay of a cut-off record would pass for a reply without its ending
+  if (request.truncated) {
+    throw new Error("This response was too long to record in full");
+  }
+
+  return {
+    request: { method: request.method, url: request.url },
+    response: {
+      status: request.status,
+      ...(request.statusText ? { statusText: request.statusText } : {}),
+      headers: request.responseHeaders,
+      events: request.events,
+      body: request.responseBody,
+    },
+  };
+}
+
+export function serializeSseFixture(fixture: SseFixture): string {
+  return `${JSON.stringify(fixture, null, 2)}\n`;
+}
+
+const getPathname = (url: string): string => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+const abortError = (): Error => {
+  const error = new Error("The replayed request was aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+const replayBody = (
+  fixture: SseFixture,
+  eventDelayMs: number,
+  signal?: AbortSignal | null,
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const chunks = fixture.response.events.length > 0
+    ? fixture.response.events.map((event) => `${event}\n\n`)
+    : [fixture.response.body ?? ""];
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= chunks.length) {
+        controller.close();
+        return;
+      }
+      try {
+        if (eventDelayMs > 0) {
+          await wait(eventDelayMs, signal);
+        }
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(encoder.encode(chunks[index]));
+      index += 1;
+    },
+  });
+};
+
+/**
+ * A fetch that answers with the given fixtures, one per call and in order.
+ * A request whose method or path differs from the next fixture fails, as
+ * does a request after the fixtures run out.
+ */
+export function createReplayFetch(
+  fixtures: SseFixture | SseFixture[],
+  options: ReplayFetchOptions = {},
+): typeof globalThis.fetch {
+  const queue = Array.isArray(fixtures) ? [...fixtures] : [fixtures];
+  const eventDelayMs = options.eventDelayMs ?? 0;
+
+  return async (input, init) => {
+    const url = getRequestUrl(input);
+    const method = (init?.method ?? "GET").toUpperCase();
+    const fixture = queue.shift();
+    if (!fixture) {
+      throw new Error(`No recorded response left for ${method} ${url}`);
+    }
+    if (fixture.request.method !== method || getPathname(fixture.request.url) !== getPathname(url)) {
+      throw new Error(
+        `Expected ${fixture.request.method} ${fixture.request.url} but the request was ${method} ${url}`,
+      );
+    }
+    if (init?.signal?.aborted) {
+      throw abortError();
+    }
+
+    return new Response(replayBody(fixture, eventDelayMs, init?.signal), {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText ?? "",
+      headers: fixture.response.headers,
+    });
+  };
+}
@@ -0,0 +1,263 @@
+import type { Tool, ToolExecutionOptions } from "ai";
+
+import { DOCUMENT_SEARCH_TOOL_KEY, WEB_READ_TOOL_KEY, WEB_SEARCH_TOOL_KEY } from "@/lib/web-search-tool";
+import type {
+  ChatToolCallAnnotation,
+  ChatToolCallRun,
+  ToolApprovalDecision,
+  ToolApprovalPolicy,
+} from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+/** Long results are kept whole for the model but cut down in the message card */
+const MAX_DISPLAYED_OUTPUT_LENGTH = 2000;
+
+/** Read-only tools that run without asking unless the user says otherwise */
+const DEFAULT_TOOL_APPROVAL_POLICIES: Readonly<Record<string, ToolApprovalPolicy>> = {
+  [WEB_SEARCH_TOOL_KEY]: "auto",
+  [WEB_READ_TOOL_KEY]: "auto",
+  [DOCUMENT_SEARCH_TOOL_KEY]: "auto",
+};
+
+/** Choices offered wherever a tool's policy is set */
+export const TOOL_APPROVAL_POLICY_OPTIONS: readonly { policy: ToolApprovalPolicy; label: string }[] = [
+  { policy: "auto", label: "Auto" },
+  { policy: "ask", label: "Ask" },
+  { policy: "deny", label: "Deny" },
+];
+
+/** Who a tool belongs to, for policies and the audit record */
+export interface ToolCallSource {
+  /** Stable key policies are stored under, e.g. an MCP tool key */
+  key: string;
+  /** Tool name as its source knows it */
+  toolName: string;
+  /** Shown next to the tool name, e.g. the MCP server name */
+  source: string;
+}
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  source: string;
+  /** Proposed arguments, pretty-printed JSON */
+  input: string;
+}
+
+interface CreateToolCallRecorderOptions {
+  /** Sources of the tools that may be wrapped, keyed by provider-facing tool name */
+  sources: Readonly<Record<string, ToolCallSource>>;
+  policies?: Readonly<Record<string, ToolApprovalPolicy>>;
+  /** Asks the user about a call; tools set to ask are denied without it */
+  requestApproval?: (
+    request: ToolApprovalRequest,
+    abortSignal?: AbortSignal,
+  ) => Promise<ToolApprovalDecision>;
+  onAnnotationChange?: (annotation: ChatToolCallAnnotation | null) => void;
+}
+
+export interface ToolCallRecorder {
+  /** Wraps each known tool so it honours its policy and is recorded */
+  wrapTools: <TOOLS extends Record<string, Tool>>(tools: TOOLS, provider: ProviderId) => TOOLS;
+  getAnnotationSnapshot: () => ChatToolCallAnnotation | null;
+}
+
+/** What a denied or failed call hands back to the model */
+interface ToolCallFailureOutput {
+  error: string;
+}
+
+export const resolveToolApprovalPolicy = (
+  policies: Readonly<Record<string, ToolApprovalPolicy>> | undefined,
+  toolKey: string,
+): ToolApprovalPolicy => policies?.[toolKey] ?? DEFAULT_TOOL_APPROVAL_POLICIES[toolKey] ?? "ask";
+
+/** Reads arguments the user edited on the approval card */
+export const parseToolArguments = (
+  text: string,
+): { input: Record<string, unknown> } | { error: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: "Arguments must be valid JSON." };
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { error: "Arguments must be a JSON object." };
+  }
+  return { input: parsed as Record<string, unknown> };
+};
+
+const stringifyInput = (input: unknown, space?: number): string => {
+  try {
+    return JSON.stringify(input ?? {}, null, space);
+  } catch {
+    return "{}";
+  }
+};
+
+const formatOutput = (output: unknown): string => {
+  const text = typeof output === "string" ? output : stringifyInput(output);
+  return text.length > MAX_DISPLAYED_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_DISPLAYED_OUTPUT_LENGTH)}…`
+    : text;
+};
+
+/** Tools report soft failures as an `error` field so the model can carry on */
+const getReportedError = (output: unknown): string | null => {
+  if (!output || typeof output !== "object") {
+    return null;
+  }
+
+  const error = (output as { error?: unknown }).error;
+  return typeof error === "string" && error.length > 0 ? error : null;
+};
+
+const getStatusForCalls = (calls: readonly ChatToolCallRun[]): ChatToolCallAnnotation["status"] => {
+  if (calls.some((call) => call.status === "awaiting-approval")) {
+    return "awaiting-approval";
+  }
+  if (calls.some((call) => call.status === "running")) {
+    return "running";
+  }
+  return calls.some((call) => call.status === "error") ? "error" : "success";
+};
+
+/**
+ * Applies the user's approval policy to every tool the model calls and keeps
+ * an audit record of each invocation. One recorder lives for one reply, so
+ * calls from fallback attempts land in the same annotation.
+ */
+export const createToolCallRecorder = (
+  options: CreateToolCallRecorderOptions,
+): ToolCallRecorder => {
+  const calls: ChatToolCallRun[] = [];
+
+  const buildAnnotationSnapshot = (): ChatToolCallAnnotation | null => {
+    if (calls.length === 0) {
+      return null;
+    }
+
+    return {
+      type: "tool-calls",
+      status: getStatusForCalls(calls),
+      calls: calls.map((call) => ({ ...call })),
+    };
+  };
+
+  const emitAnnotationChange = (): void => {
+    options.onAnnotationChange?.(buildAnnotationSnapshot());
+  };
+
+  const finishCall = (
+    call: ChatToolCallRun,
+    patch: Partial<ChatToolCallRun>,
+  ): void => {
+    Object.assign(call, patch, { completedAt: Date.now() });
+    emitAnnotationChange();
+  };
+
+  const runCall = async (
+    tool: Tool,
+    source: ToolCallSource,
+    provider: ProviderId,
+    input: unknown,
+    executionOptions: ToolExecutionOptions,
+  ): Promise<unknown> => {
+    const { abortSignal } = executionOptions;
+    const policy = resolveToolApprovalPolicy(options.policies, source.key);
+    const call: ChatToolCallRun = {
+      toolName: source.toolName,
+      source: source.source,
+      provider,
+      status: policy === "ask" ? "awaiting-approval" : "running",
+      input: stringifyInput(input),
+      startedAt: Date.now(),
+    };
+    calls.push(call);
+
+    if (policy === "deny") {
+      finishCall(call, { status: "denied", approval: "denied", error: "Blocked by your tool settings." });
+      return { error: "The user does not allow this tool to run." } satisfies ToolCallFailureOutput;
+    }
+
+    let runInput = input;
+    if (policy === "ask") {
+      emitAnnotationChange();
+      const decision = options.requestApproval
+        ? await options.requestApproval(
+          { toolName: source.toolName, source: source.source, input: stringifyInput(input, 2) },
+          abortSignal,
+        )
+        : { approved: false as const };
+
+      if (!decision.approved) {
+        finishCall(call, {
+          status: "denied",
+          approval: "denied",
+          error: abortSignal?.aborted ? "Cancelled." : "Declined.",
+        });
+        return { error: "The user declined this tool call." } satisfies ToolCallFailureOutput;
+      }
+
+      const approvedInput = stringifyInput(decision.input);
+      if (approvedInput !== call.input) {
+        call.proposedInput = call.input;
+        call.input = approvedInput;
+      }
+      call.approval = call.proposedInput ? "edited" : "approved";
+      runInput = decision.input;
+    } else {
+      call.approval = "auto";
+    }
+
+    call.status = "running";
+    emitAnnotationChange();
+    const executionStartedAt = Date.now();
+
+    try {
+      const output = await tool.execute!(runInput, executionOptions);
+      const reportedError = getReportedError(output);
+      finishCall(call, {
+        status: reportedError ? "error" : "success",
+        output: formatOutput(output),
+        ...(reportedError ? { error: reportedError } : {}),
+        durationMs: Date.now() - executionStartedAt,
+      });
+      return output;
+    } catch (error) {
+      const message = abortSignal?.aborted
+        ? "Cancelled."
+        : error instanceof Error && error.message ? error.message : "The tool failed.";
+      finishCall(call, {
+        status: "error",
+        error: message,
+        durationMs: Date.now() - executionStartedAt,
+      });
+      return { error: message } satisfies ToolCallFailureOutput;
+    }
+  };
+
+  const wrapTools = <TOOLS extends Record<string, Tool>>(tools: TOOLS, provider: ProviderId): TOOLS => {
+    const wrapped: Record<string, Tool> = {};
+
+    for (const [name, tool] of Object.entries(tools)) {
+      const source = options.sources[name];
+      wrapped[name] = source && tool.execute
+        ? {
+          ...tool,
+          execute: (input: unknown, executionOptions: ToolExecutionOptions) => (
+            runCall(tool, source, provider, input, executionOptions)
+          ),
+        }
+        : tool;
+    }
+
+    return wrapped as TOOLS;
+  };
+
+  return {
+    wrapTools,
+    getAnnotationSnapshot: buildAnnotationSnapshot,
+  };
+};
@@ -0,0 +1,222 @@
+/**
+ * @file usage-report.ts
+ * @purpose Token and cost totals for the usage screen and the per-chat running total.
+ *
+ * The usage screen reads the usage_event ledger, which gets a row whenever a
+ * billed call finishes and is never rewritten. Replies later moved to a
+ * branch, compare lanes that were not picked, context summaries and deleted
+ * chats all keep counting. The per-chat total only covers the replies
+ * currently in the conversation.
+ */
+
+import type { ModelMessage } from "ai";
+import { gte } from "drizzle-orm";
+
+import { usageEvent } from "@/db/schema";
+import type useDatabase from "@/hooks/useDatabase";
+import { getUsageAnnotation } from "@/lib/chat-usage-annotations";
+import { formatTokenTotal, formatUsageCost } from "@/lib/model-pricing";
+import type { ChatTokenUsage, ChatUsageAnnotation, UsageSource } from "@/types/chat.types";
+import type { ProviderId } from "@/types/provider.types";
+
+type ChatDatabase = ReturnType<typeof useDatabase>;
+
+export interface UsageTotals extends ChatTokenUsage {
+  /** Dollars across the priced replies */
+  cost: number;
+  replies: number;
+  /** Replies whose model had no price, so their cost is missing from `cost` */
+  unpricedReplies: number;
+}
+
+export interface UsageRecord extends ChatTokenUsage {
+  providerId: ProviderId | null;
+  modelId: string | null;
+  createdAt: Date;
+  cost: number | null;
+}
+
+export interface UsageDayTotals extends UsageTotals {
+  /** Local calendar day as YYYY-MM-DD */
+  day: string;
+}
+
+export interface UsageProviderTotals extends UsageTotals {
+  providerId: ProviderId | null;
+}
+
+export interface UsageModelTotals extends UsageTotals {
+  providerId: ProviderId | null;
+  modelId: string | null;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  /** Newest day first */
+  byDay: UsageDayTotals[];
+  /** Most expensive first */
+  byProvider: UsageProviderTotals[];
+  /** Most expensive first */
+  byModel: UsageModelTotals[];
+}
+
+export type UsageRange = "7d" | "30d" | "all";
+
+const USAGE_RANGE_DAYS: Record<Exclude<UsageRange, "all">, number> = {
+  "7d": 7,
+  "30d": 30,
+};
+
+export const createEmptyUsageTotals = (): UsageTotals => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  cachedInputTokens: 0,
+  cost: 0,
+  replies: 0,
+  unpricedReplies: 0,
+});
+
+const addUsage = (totals: UsageTotals, usage: ChatTokenUsage, cost: number | null): void => {
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.cachedInputTokens += usage.cachedInputTokens;
+  totals.replies += 1;
+  if (cost === null) {
+    totals.unpricedReplies += 1;
+  } else {
+    totals.cost += cost;
+  }
+};
+
+/** Running total of the replies currently in a conversation */
+export function sumMessageUsage(messages: readonly ModelMessage[]): UsageTotals {
+  const totals = createEmptyUsageTotals();
+  for (const entry of messages) {
+    const usage = entry.role === "assistant" ? getUsageAnnotation(entry) : null;
+    if (usage) {
+      addUsage(totals, usage, usage.cost);
+    }
+  }
+
+  return totals;
+}
+
+/** First moment of the range in local time, or null for all time */
+export function getUsageRangeStart(range: UsageRange, now: Date = new Date()): Date | null {
+  if (range === "all") {
+    return null;
+  }
+
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - (USAGE_RANGE_DAYS[range] - 1));
+  return start;
+}
+
+const formatLocalDay = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const byCostThenTokens = (left: UsageTotals, right: UsageTotals): number => {
+  return right.cost - left.cost
+    || (right.inputTokens + right.outputTokens) - (left.inputTokens + left.outputTokens);
+};
+
+export function buildUsageReport(records: readonly UsageRecord[]): UsageReport {
+  const total = createEmptyUsageTotals();
+  const days = new Map<string, UsageDayTotals>();
+  const providers = new Map<string, UsageProviderTotals>();
+  const models = new Map<string, UsageModelTotals>();
+
+  for (const record of records) {
+    const day = formatLocalDay(record.createdAt);
+    const modelKey = JSON.stringify([record.providerId, record.modelId]);
+    const providerKey = record.providerId ?? "";
+
+    if (!days.has(day)) {
+      days.set(day, { ...createEmptyUsageTotals(), day });
+    }
+    if (!providers.has(providerKey)) {
+      providers.set(providerKey, { ...createEmptyUsageTotals(), providerId: record.providerId });
+    }
+    if (!models.has(modelKey)) {
+      models.set(modelKey, {
+        ...createEmptyUsageTotals(),
+        providerId: record.providerId,
+        modelId: record.modelId,
+      });
+    }
+
+    for (const totals of [total, days.get(day)!, providers.get(providerKey)!, models.get(modelKey)!]) {
+      addUsage(totals, record, record.cost);
+    }
+  }
+
+  return {
+    total,
+    byDay: [...days.values()].sort((left, right) => right.day.localeCompare(left.day)),
+    byProvider: [...providers.values()].sort(byCostThenTokens),
+    byModel: [...models.values()].sort(byCostThenTokens),
+  };
+}
+
+/** Appends one finished call to the usage ledger */
+export function recordUsage(
+  db: ChatDatabase,
+  usage: ChatUsageAnnotation,
+  details: { chatId: number | null; source: UsageSource },
+  now: Date = new Date(),
+): void {
+  db.insert(usageEvent)
+    .values({
+      chatId: details.chatId,
+      source: details.source,
+      providerId: usage.provider,
+      modelId: usage.modelId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      reasoningTokens: usage.reasoningTokens,
+      cachedInputTokens: usage.cachedInputTokens,
+      cost: usage.cost,
+      createdAt: now,
+    })
+    .run();
+}
+
+/** Ledger rows, optionally only those since `since` */
+export function listUsageRecords(db: ChatDatabase, since: Date | null): UsageRecord[] {
+  return db
+    .select({
+      providerId: usageEvent.providerId,
+      modelId: usageEvent.modelId,
+      createdAt: usageEvent.createdAt,
+      inputTokens: usageEvent.inputTokens,
+      outputTokens: usageEvent.outputTokens,
+      reasoningTokens: usageEvent.reasoningTokens,
+      cachedInputTokens: usageEvent.cachedInputTokens,
+      cost: usageEvent.cost,
+    })
+    .from(usageEvent)
+    .where(since ? gte(usageEvent.createdAt, since) : undefined)
+    .all();
+}
+
+/** One-line summary such as "12.4K tokens · $0.03" */
+export function formatUsageTotals(totals: UsageTotals): string {
+  if (totals.replies === 0) {
+    return "No usage reported yet";
+  }
+
+  const tokens = `${formatTokenTotal(totals.inputTokens + totals.outputTokens)} tokens`;
+  if (totals.unpricedReplies === totals.replies) {
+    return `${tokens} · no price set`;
+  }
+
+  const cost = formatUsageCost(totals.cost);
+  return totals.unpricedReplies > 0
+    ? `${tokens} · ${cost} + ${totals.unpricedReplies} unpriced`
+    : `${tokens} · ${cost}`;
+}
@@ -0,0 +1,242 @@
+import { extractReadableContent } from "@/lib/html-to-markdown";
+import { inspectedFetch } from "@/lib/network-inspector";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_REDIRECTS = 5;
+/** Bytes read off the wire before the rest of the page is abandoned */
+const DEFAULT_MAX_BYTES = 1_500_000;
+/** Characters of readable text handed to the model */
+const DEFAULT_MAX_CHARS = 20_000;
+
+type WebPageErrorCode =
+  | "invalid_url"
+  | "blocked"
+  | "timeout"
+  | "network"
+  | "http"
+  | "too_many_redirects"
+  | "unsupported_content";
+
+export class WebPageReaderError extends Error {
+  readonly code: WebPageErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: WebPageErrorCode, status?: number) {
+    super(message);
+    this.name = "WebPageReaderError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface WebPage {
+  /** Where the page ended up after redirects */
+  url: string;
+  title: string | null;
+  byline: string | null;
+  /** Readable text as markdown */
+  content: string;
+  /** The page was longer than the reader keeps */
+  truncated: boolean;
+}
+
+interface ReadWebPageOptions {
+  /** Hostnames that may not be fetched, subdomains included */
+  blockedDomains?: readonly string[];
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxBytes?: number;
+  maxChars?: number;
+}
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === "AbortError";
+};
+
+/** True when the host is a blocked domain or sits underneath one. */
+export const isBlockedDomain = (hostname: string, blockedDomains: readonly string[]): boolean => {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return blockedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+};
+
+export const parseWebPageUrl = (value: string): URL => {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(value.trim());
+  } catch {
+    throw new WebPageReaderError("Enter a full page URL starting with http:// or https://.", "invalid_url");
+  }
+
+  if (!(parsedUrl.protocol === "https:" || parsedUrl.protocol === "http:")) {
+    throw new WebPageReaderError("Only http and https pages can be read.", "invalid_url");
+  }
+
+  parsedUrl.hash = "";
+  return parsedUrl;
+};
+
+const assertAllowed = (url: URL, blockedDomains: readonly string[]): void => {
+  if (isBlockedDomain(url.hostname, blockedDomains)) {
+    throw new WebPageReaderError(`${url.hostname} is blocked in this chat.`, "blocked");
+  }
+};
+
+const isReadableContentType = (contentType: string): boolean => {
+  return contentType === ""
+    || contentType.includes("text/html")
+    || contentType.includes("application/xhtml+xml")
+    || contentType.includes("text/plain")
+    || contentType.includes("text/markdown");
+};
+
+/**
+ * Reads at most `maxBytes` of the body. Anything past the cap is cancelled
+ * rather than downloaded, so a huge or endless page costs little.
+ */
+const readBodyText = async (
+  response: Response,
+  maxBytes: number,
+): Promise<{ text: string; truncated: boolean }> => {
+  if (!response.body) {
+    const text = await response.text();
+    return text.length > maxBytes
+      ? { text: text.slice(0, maxBytes), truncated: true }
+      : { text, truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let receivedBytes = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return { text: text + decoder.decode(), truncated: false };
+      }
+
+      const remaining = maxBytes - receivedBytes;
+      if (value.byteLength >= remaining) {
+        text += decoder.decode(value.subarray(0, remaining));
+        return { text, truncated: value.byteLength > remaining };
+      }
+
+      receivedBytes += value.byteLength;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+export const mapWebPageErrorToMessage = (error: unknown): string => {
+  if (!(error instanceof WebPageReaderError)) {
+    return "Could not read the page.";
+  }
+
+  switch (error.code) {
+    case "invalid_url":
+    case "blocked":
+    case "unsupported_content":
+      return error.message;
+    case "timeout":
+      return "The page took too long to load.";
+    case "network":
+      return "Could not reach the page.";
+    case "http":
+      return `The page returned HTTP ${error.status ?? "error"}.`;
+    case "too_many_redirects":
+      return "The page redirected too many times.";
+    default:
+      return "Could not read the page.";
+  }
+};
+
+/**
+ * Downloads one page and returns its readable text. Redirects are followed
+ * by hand so every hop is checked against the blocklist, and the timeout
+ * covers the whole exchange including the body.
+ */
+export const readWebPage = async (rawUrl: string, options: ReadWebPageOptions = {}): Promise<WebPage> => {
+  const blockedDomains = options.blockedDomains ?? [];
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  let url = parseWebPageUrl(rawUrl);
+  assertAllowed(url, blockedDomains);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  options.signal?.addEventListener("abort", abortFromCaller);
+
+  try {
+    let response: Response;
+    for (let redirects = 0; ; redirects += 1) {
+      response = await inspectedFetch(url.toString(), {
+        method: "GET",
+        headers: {
+          Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5",
+        },
+        redirect: "manual",
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (redirects >= maxRedirects) {
+        throw new WebPageReaderError("The page redirected too many times.", "too_many_redirects");
+      }
+
+      url = parseWebPageUrl(new URL(location, url).toString());
+      assertAllowed(url, blockedDomains);
+    }
+
+    if (!response.ok) {
+      throw new WebPageReaderError(`The page returned HTTP ${response.status}.`, "http", response.status);
+    }
+
+    const contentType = (response.headers.get("content-type") ?? "").toLowerCase();
+    if (!isReadableContentType(contentType)) {
+      throw new WebPageReaderError(
+        `This page is ${contentType.split(";")[0]}, not text that can be read.`,
+        "unsupported_content",
+      );
+    }
+
+    const body = await readBodyText(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+    const isPlainText = contentType.includes("text/plain") || contentType.includes("text/markdown");
+    const readable = isPlainText
+      ? { title: null, byline: null, markdown: body.text.trim() }
+      : extractReadableContent(body.text, url.toString());
+    const truncated = body.truncated || readable.markdown.length > maxChars;
+
+    return {
+      url: url.toString(),
+      title: readable.title,
+      byline: readable.byline,
+      content: readable.markdown.length > maxChars
+        ? `${readable.markdown.slice(0, maxChars)}…`
+        : readable.markdown,
+      truncated,
+    };
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof WebPageReaderError) {
+      throw error;
+    }
+    if (isAbortError(error)) {
+      throw new WebPageReaderError("The page timed out.", "timeout");
+    }
+
+    throw new WebPageReaderError(
+      error instanceof Error ? error.message : "Could not reach the page.",
+      "network",
+    );
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener("abort", abortFromCaller);
+  }
+};
@@ -0,0 +1,565 @@
+import { jsonSchema, tool, type Tool } from "ai";
+
+import { mapDocumentLibraryErrorToMessage } from "@/lib/document-library";
+import {
+  mapSearchErrorToMessage,
+  type SearchBackend,
+  type WebSearchResult,
+} from "@/lib/search-backends";
+import type { ToolCallSource } from "@/lib/tool-call-recorder";
+import {
+  isBlockedDomain,
+  mapWebPageErrorToMessage,
+  readWebPage,
+  type WebPage,
+} from "@/lib/web-page-reader";
+import type {
+  ChatWebSearchAnnotation,
+  ChatWebSearchQueryRun,
+  ChatWebSearchSource,
+} from "@/types/chat.types";
+import type { DocumentSearcher, DocumentSearchHit } from "@/types/document.types";
+import type { ProviderId } from "@/types/provider.types";
+
+interface SearchToolInput {
+  query: string;
+}
+
+interface SearchToolOutput {
+  query: string;
+  resultCount: number;
+  sources: WebSearchResult["sources"];
+  error?: string;
+}
+
+interface ReadToolInput {
+  url: string;
+}
+
+interface ReadToolOutput {
+  url: string;
+  /** Absent when the read failed */
+  citationNumber?: number;
+  title: string | null;
+  byline: string | null;
+  content: string;
+  truncated: boolean;
+  error?: string;
+}
+
+interface DocumentSearchToolOutput {
+  query: string;
+  resultCount: number;
+  passages: {
+    citationNumber: number;
+    documentName: string;
+    collectionName: string;
+    text: string;
+  }[];
+  error?: string;
+}
+
+interface CreateWebSearchToolRuntimeOptions {
+  /** Answers searchWeb; usually a chain with a fallback backend. Absent leaves the web tools out */
+  backend?: SearchBackend | null;
+  /** Answers searchDocuments over the chat's attached collections */
+  documents?: DocumentSearcher | null;
+  enabled: boolean;
+  /** Hostnames left out of search results and refused by readUrl */
+  blockedDomains?: readonly string[];
+  onAnnotationChange?: (annotation: ChatWebSearchAnnotation | null) => void;
+}
+
+type SearchToolSet = {
+  searchWeb?: Tool<SearchToolInput, SearchToolOutput>;
+  readUrl?: Tool<ReadToolInput, ReadToolOutput>;
+  searchDocuments?: Tool<SearchToolInput, DocumentSearchToolOutput>;
+};
+
+/** Length of the page excerpt kept as the source snippet */
+const READ_SNIPPET_LENGTH = 240;
+
+const createQuerySchema = (description: string) => jsonSchema<SearchToolInput>(
+  {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description,
+        minLength: 1,
+      },
+    },
+    required: ["query"],
+    additionalProperties: false,
+  },
+  {
+    validate: (value) => {
+      if (!value || typeof value !== "object") {
+        return { success: false, error: new Error("Tool input must be an object.") };
+      }
+
+      const query = (value as { query?: unknown }).query;
+      if (typeof query !== "string" || query.trim().length === 0) {
+        return { success: false, error: new Error("Search query is required.") };
+      }
+
+      return {
+        success: true,
+        value: { query: query.trim() },
+      };
+    },
+  },
+);
+
+const SEARCH_TOOL_SCHEMA = createQuerySchema("A concise web search query for fresh or internet-based information.");
+
+const DOCUMENT_SEARCH_TOOL_SCHEMA = createQuerySchema(
+  "What to look for in the user's documents, phrased like the passage that would answer it.",
+);
+
+const READ_TOOL_SCHEMA = jsonSchema<ReadToolInput>(
+  {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "Full http(s) URL of the page to read, usually one returned by searchWeb.",
+        minLength: 1,
+      },
+    },
+    required: ["url"],
+    additionalProperties: false,
+  },
+  {
+    validate: (value) => {
+      if (!value || typeof value !== "object") {
+        return { success: false, error: new Error("Tool input must be an object.") };
+      }
+
+      const url = (value as { url?: unknown }).url;
+      if (typeof url !== "string" || url.trim().length === 0) {
+        return { success: false, error: new Error("Page URL is required.") };
+      }
+
+      return {
+        success: true,
+        value: { url: url.trim() },
+      };
+    },
+  },
+);
+
+const normalizeQueryKey = (query: string): string => query.trim().toLowerCase();
+
+const getHostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+};
+
+/** Lets "https://Example.com" and the "https://example.com/" a page read lands on share a number */
+const toCitationKey = (url: string): string => {
+  try {
+    return new URL(url.trim()).toString().toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const toPageSource = (page: WebPage): ChatWebSearchSource => {
+  const excerpt = page.content.replace(/\s+/g, " ").trim();
+
+  return {
+    title: page.title ?? getHostname(page.url) ?? page.url,
+    url: page.url,
+    snippet: excerpt.length > READ_SNIPPET_LENGTH
+      ? `${excerpt.slice(0, READ_SNIPPET_LENGTH)}…`
+      : excerpt || undefined,
+    byline: page.byline ?? undefined,
+  };
+};
+
+/** In-app reference for a passage; it also keeps each passage's citation number apart */
+const toDocumentSourceUrl = (hit: DocumentSearchHit): string => {
+  return `seabreeze-document:${hit.documentId}#${hit.chunkIndex + 1}`;
+};
+
+const toDocumentSource = (hit: DocumentSearchHit): ChatWebSearchSource => {
+  const excerpt = hit.text.replace(/\s+/g, " ").trim();
+
+  return {
+    title: hit.documentName,
+    url: toDocumentSourceUrl(hit),
+    snippet: excerpt.length > READ_SNIPPET_LENGTH ? `${excerpt.slice(0, READ_SNIPPET_LENGTH)}…` : excerpt,
+    byline: `${hit.collectionName} · Passage ${hit.chunkIndex + 1} of ${hit.chunkCount}`,
+    documentId: hit.documentId,
+  };
+};
+
+const toReadFailure = (url: string, error: string): ReadToolOutput => ({
+  url,
+  title: null,
+  byline: null,
+  content: "",
+  truncated: false,
+  error,
+});
+
+const toReadToolOutput = (page: WebPage, citationNumber: number): ReadToolOutput => ({
+  url: page.url,
+  citationNumber,
+  title: page.title,
+  byline: page.byline,
+  content: page.content,
+  truncated: page.truncated,
+});
+
+const cloneQueries = (queries: ChatWebSearchQueryRun[]): ChatWebSearchQueryRun[] => {
+  return queries.map((query) => ({
+    ...query,
+    sources: query.sources.map((source) => ({ ...source })),
+  }));
+};
+
+export const WEB_SEARCH_SYSTEM_PROMPT = [
+  "Web search is available via the searchWeb tool.",
+  "Use it when the user asks for recent, factual, or internet-dependent information.",
+  "Search results only carry snippets; call readUrl on the most relevant results when the answer needs the page itself.",
+  "Every source comes back with a citationNumber that stays the same for the rest of the reply.",
+  "Cite web results inline with that number in square brackets right after the claim, like [1] or [2, 3].",
+  "Do not invent citations. Only cite numbers that come back from searchWeb or readUrl, and do not add a separate Sources section.",
+].join(" ");
+
+export const DOCUMENT_SEARCH_SYSTEM_PROMPT = [
+  "The user's own documents can be searched with the searchDocuments tool.",
+  "Use it when the question may be answered by their files, before searching the web.",
+  "Each passage comes back with a citationNumber; cite it inline in square brackets like web results.",
+  "Say so when the passages do not answer the question rather than guessing.",
+].join(" ");
+
+/** Policy key for the search tool; the prefix keeps it clear of MCP server ids */
+export const WEB_SEARCH_TOOL_KEY = "builtin:web/searchWeb";
+
+export const WEB_READ_TOOL_KEY = "builtin:web/readUrl";
+
+export const DOCUMENT_SEARCH_TOOL_KEY = "builtin:documents/searchDocuments";
+
+export const WEB_SEARCH_TOOL_SOURCES: Readonly<Record<string, ToolCallSource>> = {
+  searchWeb: { key: WEB_SEARCH_TOOL_KEY, toolName: "searchWeb", source: "Web search" },
+  readUrl: { key: WEB_READ_TOOL_KEY, toolName: "readUrl", source: "Web search" },
+  searchDocuments: { key: DOCUMENT_SEARCH_TOOL_KEY, toolName: "searchDocuments", source: "Documents" },
+};
+
+export interface WebSearchToolRuntime {
+  readonly enabled: boolean;
+  /** Number of tool definitions sent with each request */
+  readonly toolCount: number;
+  /** Instructions for the tools this runtime offers */
+  readonly systemPrompt: string;
+  createTools: (provider: ProviderId) => SearchToolSet | undefined;
+  getAnnotationSnapshot: () => ChatWebSearchAnnotation | null;
+}
+
+export const createWebSearchToolRuntime = (
+  options: CreateWebSearchToolRuntimeOptions,
+): WebSearchToolRuntime => {
+  const queries: ChatWebSearchQueryRun[] = [];
+  const backend = options.backend ?? null;
+  const documents = options.documents ?? null;
+  const cache = new Map<string, Promise<WebSearchResult>>();
+  const documentCache = new Map<string, Promise<DocumentSearchHit[]>>();
+  const pageCache = new Map<string, Promise<WebPage>>();
+  const blockedDomains = options.blockedDomains ?? [];
+  // A URL found by several searches or opened later keeps the number it was first given
+  const citationNumbers = new Map<string, number>();
+
+  const getCitationNumber = (url: string): number => {
+    const key = toCitationKey(url);
+    const existing = citationNumbers.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const citationNumber = citationNumbers.size + 1;
+    citationNumbers.set(key, citationNumber);
+    return citationNumber;
+  };
+
+  const withCitationNumbers = (result: WebSearchResult): WebSearchResult => ({
+    ...result,
+    sources: result.sources.map((source) => ({ ...source, citationNumber: getCitationNumber(source.url) })),
+  });
+
+  /** Blocked sites are dropped before the model or the annotation sees them */
+  const withoutBlockedSources = (result: WebSearchResult): WebSearchResult => {
+    if (blockedDomains.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      sources: result.sources.filter((source) => {
+        const hostname = getHostname(source.url);
+        return !hostname || !isBlockedDomain(hostname, blockedDomains);
+      }),
+    };
+  };
+
+  const emitAnnotationChange = (): void => {
+    options.onAnnotationChange?.(buildAnnotationSnapshot());
+  };
+
+  const buildAnnotationSnapshot = (): ChatWebSearchAnnotation | null => {
+    if (queries.length === 0) {
+      return null;
+    }
+
+    const hasError = queries.some((query) => query.status === "error");
+    const isSearching = queries.some((query) => query.status === "searching");
+    const status = isSearching ? "searching" : hasError ? "error" : "success";
+    const totalSources = queries.reduce((total, query) => total + query.sources.length, 0);
+
+    return {
+      type: "web-search",
+      status,
+      queries: cloneQueries(queries),
+      totalSources,
+    };
+  };
+
+  const runSearch = async (
+    provider: ProviderId,
+    rawQuery: string,
+    abortSignal?: AbortSignal,
+  ): Promise<SearchToolOutput> => {
+    const query = rawQuery.trim();
+    const queryKey = normalizeQueryKey(query);
+
+    const cachedSearch = cache.get(queryKey);
+    if (cachedSearch) {
+      try {
+        const cachedResult = await cachedSearch;
+        return {
+          query: cachedResult.query,
+          resultCount: cachedResult.sources.length,
+          sources: cachedResult.sources,
+        };
+      } catch (error) {
+        return {
+          query,
+          resultCount: 0,
+          sources: [],
+          error: mapSearchErrorToMessage(error),
+        };
+      }
+    }
+
+    const queryRun: ChatWebSearchQueryRun = {
+      query,
+      provider,
+      status: "searching",
+      resultCount: 0,
+      sources: [],
+      startedAt: Date.now(),
+    };
+    queries.push(queryRun);
+    emitAnnotationChange();
+
+    const searchPromise = backend!.search(query, { signal: abortSignal })
+      .then(withoutBlockedSources)
+      .then(withCitationNumbers);
+    cache.set(queryKey, searchPromise);
+
+    try {
+      const result = await searchPromise;
+      queryRun.status = "success";
+      queryRun.resultCount = result.sources.length;
+      queryRun.sources = result.sources;
+      queryRun.completedAt = Date.now();
+      emitAnnotationChange();
+
+      return {
+        query: result.query,
+        resultCount: result.sources.length,
+        sources: result.sources,
+      };
+    } catch (error) {
+      // A cancelled search says nothing about the query, so a later call runs it again
+      if (abortSignal?.aborted) {
+        cache.delete(queryKey);
+      }
+      queryRun.status = "error";
+      queryRun.error = mapSearchErrorToMessage(error);
+      queryRun.completedAt = Date.now();
+      emitAnnotationChange();
+      return {
+        query,
+        resultCount: 0,
+        sources: [],
+        error: queryRun.error,
+      };
+    }
+  };
+
+  const runRead = async (
+    provider: ProviderId,
+    rawUrl: string,
+    abortSignal?: AbortSignal,
+  ): Promise<ReadToolOutput> => {
+    const url = rawUrl.trim();
+
+    const cachedRead = pageCache.get(url);
+    if (cachedRead) {
+      try {
+        const page = await cachedRead;
+        return toReadToolOutput(page, getCitationNumber(page.url));
+      } catch (error) {
+        return toReadFailure(url, mapWebPageErrorToMessage(error));
+      }
+    }
+
+    const readRun: ChatWebSearchQueryRun = {
+      kind: "read",
+      query: url,
+      provider,
+      status: "searching",
+      resultCount: 0,
+      sources: [],
+      startedAt: Date.now(),
+    };
+    queries.push(readRun);
+    emitAnnotationChange();
+
+    const readPromise = readWebPage(url, { blockedDomains, signal: abortSignal });
+    pageCache.set(url, readPromise);
+
+    try {
+      const page = await readPromise;
+      const citationNumber = getCitationNumber(page.url);
+      readRun.status = "success";
+      readRun.resultCount = 1;
+      readRun.sources = [{ ...toPageSource(page), citationNumber }];
+      readRun.completedAt = Date.now();
+      emitAnnotationChange();
+
+      return toReadToolOutput(page, citationNumber);
+    } catch (error) {
+      // Failures are often transient (timeouts, cancelled replies), so a later call tries again
+      pageCache.delete(url);
+      readRun.status = "error";
+      readRun.error = mapWebPageErrorToMessage(error);
+      readRun.completedAt = Date.now();
+      emitAnnotationChange();
+      return toReadFailure(url, readRun.error);
+    }
+  };
+
+  const toDocumentOutput = (query: string, hits: DocumentSearchHit[]): DocumentSearchToolOutput => ({
+    query,
+    resultCount: hits.length,
+    passages: hits.map((hit) => ({
+      citationNumber: getCitationNumber(toDocumentSourceUrl(hit)),
+      documentName: hit.documentName,
+      collectionName: hit.collectionName,
+      text: hit.text,
+    })),
+  });
+
+  const runDocumentSearch = async (
+    provider: ProviderId,
+    rawQuery: string,
+    abortSignal?: AbortSignal,
+  ): Promise<DocumentSearchToolOutput> => {
+    const query = rawQuery.trim();
+    const queryKey = normalizeQueryKey(query);
+
+    const cachedSearch = documentCache.get(queryKey);
+    if (cachedSearch) {
+      try {
+        return toDocumentOutput(query, await cachedSearch);
+      } catch (error) {
+        return { query, resultCount: 0, passages: [], error: mapDocumentLibraryErrorToMessage(error) };
+      }
+    }
+
+    const queryRun: ChatWebSearchQueryRun = {
+      kind: "documents",
+      query,
+      provider,
+      status: "searching",
+      resultCount: 0,
+      sources: [],
+      startedAt: Date.now(),
+    };
+    queries.push(queryRun);
+    emitAnnotationChange();
+
+    const searchPromise = documents!.search(query, { signal: abortSignal });
+    documentCache.set(queryKey, searchPromise);
+
+    try {
+      const hits = await searchPromise;
+      const output = toDocumentOutput(query, hits);
+      queryRun.status = "success";
+      queryRun.resultCount = hits.length;
+      queryRun.sources = hits.map((hit, index) => ({
+        ...toDocumentSource(hit),
+        citationNumber: output.passages[index].citationNumber,
+      }));
+      queryRun.completedAt = Date.now();
+      emitAnnotationChange();
+      return output;
+    } catch (error) {
+      documentCache.delete(queryKey);
+      queryRun.status = "error";
+      queryRun.error = mapDocumentLibraryErrorToMessage(error);
+      queryRun.completedAt = Date.now();
+      emitAnnotationChange();
+      return { query, resultCount: 0, passages: [], error: queryRun.error };
+    }
+  };
+
+  const toolCount = options.enabled ? (backend ? 2 : 0) + (documents ? 1 : 0) : 0;
+  const systemPrompt = [
+    backend ? WEB_SEARCH_SYSTEM_PROMPT : "",
+    documents ? DOCUMENT_SEARCH_SYSTEM_PROMPT : "",
+  ].filter(Boolean).join("\n\n");
+
+  const createTools = (provider: ProviderId): SearchToolSet | undefined => {
+    if (toolCount === 0) {
+      return undefined;
+    }
+
+    return {
+      ...(backend ? {
+        searchWeb: tool<SearchToolInput, SearchToolOutput>({
+          description: "Search the public web for current or source-backed information.",
+          inputSchema: SEARCH_TOOL_SCHEMA,
+          execute: async ({ query }, { abortSignal }) => runSearch(provider, query, abortSignal),
+        }),
+        readUrl: tool<ReadToolInput, ReadToolOutput>({
+          description: "Open a web page and return its main text as markdown, with its title and author.",
+          inputSchema: READ_TOOL_SCHEMA,
+          execute: async ({ url }, { abortSignal }) => runRead(provider, url, abortSignal),
+        }),
+      } : undefined),
+      ...(documents ? {
+        searchDocuments: tool<SearchToolInput, DocumentSearchToolOutput>({
+          description: "Search the user's attached document collections and return the closest passages.",
+          inputSchema: DOCUMENT_SEARCH_TOOL_SCHEMA,
+          execute: async ({ query }, { abortSignal }) => runDocumentSearch(provider, query, abortSignal),
+        }),
+      } : undefined),
+    };
+  };
+
+  return {
+    enabled: toolCount > 0,
+    toolCount,
+    systemPrompt,
+    createTools,
+    getAnnotationSnapshot: buildAnnotationSnapshot,
+  };
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+    getAnthropicModel,
+    createAnthropicProvider,
+    isAnthropicConfigured,
+    testAnthropicConnection,
+} from '../anthropic-provider';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { getProviderAuth } from '@/stores';
+import { fetch as expoFetch } from 'expo/fetch';
+
+jest.mock('@ai-sdk/anthropic', () => ({
+    createAnthropic: jest.fn(),
+}));
+
+jest.mock('@/stores', () => ({
+    getProviderAuth: jest.fn(),
+}));
+
+jest.mock('expo/fetch', () => ({
+    fetch: jest.fn(),
+}));
+
+const mockedCreateAnthropic = createAnthropic as jest.MockedFunction<typeof createAnthropic>;
+const mockedGetProviderAuth = getProviderAuth as jest.MockedFunction<typeof getProviderAuth>;
+const mockedExpoFetch = expoFetch as jest.MockedFunction<typeof expoFetch>;
+
+describe('Anthropic Provider', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('getAnthropicModel', () => {
+        it('should create a Claude model with the stored API key', () => {
+            const mockModel = { provider: 'anthropic.messages', modelId: 'claude-opus-4-5' } as any;
+            const mockProvider = jest.fn(() => mockModel) as any;
+
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'sk-ant-test' });
+            mockedCreateAnthropic.mockReturnValue(mockProvider);
+
+            const result = getAnthropicModel('claude-opus-4-5');
+
+            expect(result).toEqual(mockModel);
+            expect(mockedGetProviderAuth).toHaveBeenCalledWith('anthropic');
+            expect(mockedCreateAnthropic).toHaveBeenCalledWith({
+                apiKey: 'sk-ant-test',
+                baseURL: 'https://api.anthropic.com/v1',
+                headers: {
+                    'anthropic-dangerous-direct-browser-access': 'true',
+                },
+                fetch: expect.any(Function),
+            });
+            expect(mockProvider).toHaveBeenCalledWith('claude-opus-4-5');
+        });
+
+        it('should default to Claude Sonnet', () => {
+            const mockProvider = jest.fn(() => ({})) as any;
+
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'sk-ant-test' });
+            mockedCreateAnthropic.mockReturnValue(mockProvider);
+
+            getAnthropicModel();
+
+            expect(mockProvider).toHaveBeenCalledWith('claude-sonnet-4-5');
+        });
+
+        it('should return null when no API key is configured', () => {
+            mockedGetProviderAuth.mockReturnValue({});
+
+            expect(getAnthropicModel()).toBeNull();
+            expect(mockedCreateAnthropic).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createAnthropicProvider', () => {
+        it('should build a provider for an explicit API key', () => {
+            const mockProvider = jest.fn() as any;
+            mockedCreateAnthropic.mockReturnValue(mockProvider);
+
+            expect(createAnthropicProvider('sk-ant-other')).toBe(mockProvider);
+            expect(mockedCreateAnthropic).toHaveBeenCalledWith(
+                expect.objectContaining({ apiKey: 'sk-ant-other' }),
+            );
+        });
+    });
+
+    describe('isAnthropicConfigured', () => {
+        it('should reflect whether an API key is stored', () => {
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'sk-ant-test' });
+            expect(isAnthropicConfigured()).toBe(true);
+
+            mockedGetProviderAuth.mockReturnValue({});
+            expect(isAnthropicConfigured()).toBe(false);
+        });
+    });
+
+    describe('testAnthropicConnection', () => {
+        it('should list models with the Anthropic auth headers', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: true } as any);
+
+            const result = await testAnthropicConnection('sk-ant-test');
+
+            expect(result).toBe(true);
+            expect(mockedExpoFetch).toHaveBeenCalledWith(
+                'https://api.anthropic.com/v1/models',
+                {
+                    method: 'GET',
+                    headers: {
+                        'x-api-key': 'sk-ant-test',
+                        'anthropic-version': '2023-06-01',
+                        'Content-Type': 'application/json',
+                        'anthropic-dangerous-direct-browser-access': 'true',
+                    },
+                },
+            );
+        });
+
+        it('should return false for rejected keys and network errors', async () => {
+            mockedExpoFetch.mockResolvedValueOnce({ ok: false, status: 401 } as any);
+            expect(await testAnthropicConnection('bad-key')).toBe(false);
+
+            mockedExpoFetch.mockRejectedValueOnce(new Error('Network error'));
+            expect(await testAnthropicConnection('sk-ant-test')).toBe(false);
+        });
+    });
+});
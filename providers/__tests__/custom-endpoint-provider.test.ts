@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+    createCustomEndpointProvider,
+    getCustomEndpointModel,
+    testCustomEndpointConnection,
+    fetchCustomEndpointModels,
+} from '../custom-endpoint-provider';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { getCustomEndpoint } from '@/stores';
+import { fetch as expoFetch } from 'expo/fetch';
+import {
+    clearNetworkInspector,
+    setNetworkInspectorEnabled,
+    useNetworkInspectorStore,
+} from '@/lib/network-inspector';
+
+jest.mock('@ai-sdk/openai-compatible', () => ({
+    createOpenAICompatible: jest.fn(),
+}));
+
+jest.mock('@/stores', () => ({
+    getCustomEndpoint: jest.fn(),
+}));
+
+jest.mock('expo/fetch', () => ({
+    fetch: jest.fn(),
+}));
+
+const mockedCreateOpenAICompatible = createOpenAICompatible as jest.MockedFunction<typeof createOpenAICompatible>;
+const mockedGetCustomEndpoint = getCustomEndpoint as jest.MockedFunction<typeof getCustomEndpoint>;
+const mockedExpoFetch = expoFetch as jest.MockedFunction<typeof expoFetch>;
+
+const labEndpoint = {
+    id: 'custom:lab-vllm' as const,
+    name: 'Lab vLLM',
+    baseUrl: 'http://10.0.0.5:8000',
+    apiKey: 'sk-lab',
+    headers: { 'X-Team': 'ml' },
+};
+
+describe('Custom Endpoint Provider', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('createCustomEndpointProvider', () => {
+        it('should pass the normalized URL, key and headers to the OpenAI-compatible provider', () => {
+            const mockProvider = { chatModel: jest.fn() } as any;
+            mockedCreateOpenAICompatible.mockReturnValue(mockProvider);
+
+            expect(createCustomEndpointProvider(labEndpoint)).toBe(mockProvider);
+            expect(mockedCreateOpenAICompatible).toHaveBeenCalledWith({
+                name: 'custom',
+                baseURL: 'http://10.0.0.5:8000/v1',
+                apiKey: 'sk-lab',
+                headers: { 'X-Team': 'ml' },
+                includeUsage: true,
+                fetch: expect.any(Function),
+            });
+        });
+
+        it('should mask the custom headers of chat requests in the network inspector', async () => {
+            mockedCreateOpenAICompatible.mockReturnValue({} as any);
+            setNetworkInspectorEnabled(true);
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: new Headers({ 'content-type': 'application/json' }),
+            } as any);
+
+            try {
+                createCustomEndpointProvider({ ...labEndpoint, headers: { 'X-Custom-Token': 'secret' } });
+                const { fetch } = mockedCreateOpenAICompatible.mock.calls[0][0];
+                await fetch!('http://10.0.0.5:8000/v1/chat/completions', {
+                    method: 'POST',
+                    headers: { 'X-Custom-Token': 'secret', 'Content-Type': 'application/json' },
+                    body: '{}',
+                });
+
+                const [request] = useNetworkInspectorStore.getState().requests;
+                expect(request.requestHeaders).toEqual({
+                    'x-custom-token': '[redacted]',
+                    'content-type': 'application/json',
+                });
+            } finally {
+                setNetworkInspectorEnabled(false);
+                clearNetworkInspector();
+            }
+        });
+    });
+
+    describe('getCustomEndpointModel', () => {
+        it('should create a chat model for the stored endpoint', () => {
+            const mockModel = { modelId: 'qwen3-32b' } as any;
+            const mockProvider = { chatModel: jest.fn(() => mockModel) } as any;
+
+            mockedGetCustomEndpoint.mockReturnValue(labEndpoint);
+            mockedCreateOpenAICompatible.mockReturnValue(mockProvider);
+
+            expect(getCustomEndpointModel('custom:lab-vllm', 'qwen3-32b')).toBe(mockModel);
+            expect(mockedGetCustomEndpoint).toHaveBeenCalledWith('custom:lab-vllm');
+            expect(mockProvider.chatModel).toHaveBeenCalledWith('qwen3-32b');
+        });
+
+        it('should return null for unknown endpoints or a missing model', () => {
+            mockedGetCustomEndpoint.mockReturnValue(undefined);
+            expect(getCustomEndpointModel('custom:gone', 'qwen3-32b')).toBeNull();
+
+            mockedGetCustomEndpoint.mockReturnValue(labEndpoint);
+            expect(getCustomEndpointModel('custom:lab-vllm', '')).toBeNull();
+            expect(mockedCreateOpenAICompatible).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('testCustomEndpointConnection', () => {
+        it('should list models with the bearer token and custom headers', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: true } as any);
+
+            await expect(testCustomEndpointConnection(labEndpoint)).resolves.toBe(true);
+            expect(mockedExpoFetch).toHaveBeenCalledWith('http://10.0.0.5:8000/v1/models', {
+                method: 'GET',
+                headers: { 'X-Team': 'ml', Authorization: 'Bearer sk-lab' },
+                signal: expect.anything(),
+            });
+        });
+
+        it('should skip the Authorization header when no key is set', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: true } as any);
+
+            await testCustomEndpointConnection({ ...labEndpoint, apiKey: null });
+
+            expect(mockedExpoFetch).toHaveBeenCalledWith(
+                'http://10.0.0.5:8000/v1/models',
+                expect.objectContaining({ headers: { 'X-Team': 'ml' } }),
+            );
+        });
+
+        it('should return false for error responses and network failures', async () => {
+            mockedExpoFetch.mockResolvedValueOnce({ ok: false, status: 401 } as any);
+            expect(await testCustomEndpointConnection(labEndpoint)).toBe(false);
+
+            mockedExpoFetch.mockRejectedValueOnce(new Error('Network error'));
+            expect(await testCustomEndpointConnection(labEndpoint)).toBe(false);
+        });
+    });
+
+    describe('fetchCustomEndpointModels', () => {
+        it('should read unique model ids from the OpenAI-style list', async () => {
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [
+                        { id: 'qwen3-32b', object: 'model' },
+                        { id: 'llama-3.3-70b' },
+                        { id: 'qwen3-32b' },
+                        { object: 'model' },
+                        null,
+                    ],
+                }),
+            } as any);
+
+            await expect(fetchCustomEndpointModels(labEndpoint)).resolves.toEqual([
+                'qwen3-32b',
+                'llama-3.3-70b',
+            ]);
+        });
+
+        it('should mask the custom headers in the network inspector', async () => {
+            setNetworkInspectorEnabled(true);
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: new Headers({ 'content-type': 'application/json' }),
+                json: async () => ({ data: [] }),
+            } as any);
+
+            try {
+                await fetchCustomEndpointModels({ ...labEndpoint, headers: { 'X-Custom-Token': 'secret' } });
+
+                const [request] = useNetworkInspectorStore.getState().requests;
+                expect(request.requestHeaders).toEqual({
+                    'x-custom-token': '[redacted]',
+                    authorization: '[redacted]',
+                });
+            } finally {
+                setNetworkInspectorEnabled(false);
+                clearNetworkInspector();
+            }
+        });
+
+        it('should return an empty list when the request fails', async () => {
+            mockedExpoFetch.mockResolvedValueOnce({ ok: false, status: 404 } as any);
+            await expect(fetchCustomEndpointModels(labEndpoint)).resolves.toEqual([]);
+
+            mockedExpoFetch.mockRejectedValueOnce(new Error('Network error'));
+            await expect(fetchCustomEndpointModels(labEndpoint)).resolves.toEqual([]);
+        });
+    });
+});
@@ -1,15 +1,27 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import {
   classifyError,
+  findNextFallbackStep,
   getModelWithFallback,
   getNextFallbackProvider,
   hasFallbackAvailable,
   getAvailableProviders,
+  getProviderFallbackOrder,
+  getFallbackChain,
+  getRateLimitWaitLimitMs,
+  shouldFallbackOnError,
   ErrorCategory,
   ErrorClassification,
 } from '../fallback-chain';
 import { getProviderModel, isProviderAvailable } from '../provider-factory';
-import { getDefaultModelForProvider, isProviderConfigured } from '@/stores';
+import { recordProviderFailure, resetProviderHealth } from '../provider-health';
+import { DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS } from '../rate-limit';
+import {
+  getCustomEndpoints,
+  getDefaultModelForProvider,
+  getFallbackSettings,
+  isProviderConfigured,
+} from '@/stores';
 import type { ProviderId } from '@/types/provider.types';
 import { LanguageModel } from 'ai';
 
@@ -20,6 +32,31 @@ const mockedGetProviderModel = getProviderModel as jest.MockedFunction<typeof ge
 const mockedIsProviderAvailable = isProviderAvailable as jest.MockedFunction<typeof isProviderAvailable>;
 const mockedGetDefaultModelForProvider = getDefaultModelForProvider as jest.MockedFunction<typeof getDefaultModelForProvider>;
 const mockedIsProviderConfigured = isProviderConfigured as jest.MockedFunction<typeof isProviderConfigured>;
+const mockedGetCustomEndpoints = getCustomEndpoints as jest.MockedFunction<typeof getCustomEndpoints>;
+const mockedGetFallbackSettings = getFallbackSettings as jest.MockedFunction<typeof getFallbackSettings>;
+
+beforeEach(() => {
+  mockedGetCustomEndpoints.mockReturnValue([]);
+  mockedGetFallbackSettings.mockReturnValue({ chain: null, triggers: null, rateLimitWaitLimitMs: null });
+  resetProviderHealth();
+});
+
+describe('getProviderFallbackOrder', () => {
+  it('should use the built-in order when no custom endpoints exist', () => {
+    expect(getProviderFallbackOrder()).toEqual([
+      'apple', 'openai', 'anthropic', 'gemini', 'openrouter', 'opencode', 'ollama',
+    ]);
+  });
+
+  it('should place custom endpoints just before ollama in the order they were added', () => {
+    mockedGetCustomEndpoints.mockReturnValue([
+      { id: 'custom:lm-studio', name: 'LM Studio', baseUrl: 'http://10.0.0.2:1234/v1', apiKey: null, headers: {} },
+      { id: 'custom:vllm', name: 'vLLM', baseUrl: 'http://10.0.0.3:8000/v1', apiKey: 'secret', headers: {} },
+    ]);
+
+    expect(getProviderFallbackOrder().slice(-3)).toEqual(['custom:lm-studio', 'custom:vllm', 'ollama']);
+  });
+});
 
 describe('classifyError', () => {
   it('should classify configuration errors', () => {
@@ -80,6 +117,29 @@ describe('classifyError', () => {
     expect(result.category).toBe('rate_limit');
     expect(result.isRetryable).toBe(true);
     expect(result.shouldFallback).toBe(true);
+    expect(result.rateLimit).toBeUndefined();
+  });
+
+  it('should attach the rate-limit details the response carried', () => {
+    const error = Object.assign(new Error('Too Many Requests'), {
+      statusCode: 429,
+      responseHeaders: { 'retry-after': '20', 'x-ratelimit-remaining-requests': '0' },
+    });
+    const result = classifyError(error);
+
+    expect(result.rateLimit).toMatchObject({ remaining: 0, limitKind: 'requests' });
+    expect(result.rateLimit?.resetAt).toEqual(expect.any(Number));
+  });
+
+  it('should classify context window overflows without falling back', () => {
+    const error = new Error("This model's maximum context length is 128000 tokens. However, your messages resulted in 131072 tokens.") as any;
+    error.statusCode = 400;
+    const result = classifyError(error);
+
+    expect(result.category).toBe('context_length');
+    expect(result.isRetryable).toBe(false);
+    expect(result.shouldFallback).toBe(false);
+    expect(classifyError(new Error('prompt is too long: 210000 tokens > 200000 maximum')).category).toBe('context_length');
   });
 
   it('should classify model not found errors (404)', () => {
@@ -183,9 +243,12 @@ describe('getModelWithFallback', () => {
         apple: 'gpt-4',
         openai: 'gpt-4',
         'openai-codex': 'gpt-5.5',
+        anthropic: 'claude-sonnet-4-5',
+        gemini: 'gemini-2.5-flash',
         openrouter: 'claude-3',
         opencode: 'glm-5.1',
         ollama: 'llama2',
+        mock: 'mock-text',
       };
       return models[provider];
     });
@@ -236,7 +299,7 @@ describe('getModelWithFallback', () => {
 
     expect(result.attemptedProviders).toContain('openai');
     expect(result.attemptedProviders).toContain('apple');
-    expect(result.attemptedProviders).toContain('openrouter');
+    expect(result.attemptedProviders).toContain('anthropic');
   });
 
   it('should return null when no providers available', () => {
@@ -285,9 +348,12 @@ describe('getNextFallbackProvider', () => {
         apple: 'gpt-4',
         openai: 'gpt-4',
         'openai-codex': 'gpt-5.5',
+        anthropic: 'claude-sonnet-4-5',
+        gemini: 'gemini-2.5-flash',
         openrouter: 'claude-3',
         opencode: 'glm-5.1',
         ollama: 'llama2',
+        mock: 'mock-text',
       };
       return models[provider];
     });
@@ -321,7 +387,7 @@ describe('getNextFallbackProvider', () => {
 
   it('should return null when all providers failed', () => {
     const error = new Error('Error');
-    const result = getNextFallbackProvider('openai', ['openai', 'apple', 'openrouter', 'opencode', 'ollama'], error);
+    const result = getNextFallbackProvider('openai', ['openai', 'apple', 'anthropic', 'gemini', 'openrouter', 'opencode', 'ollama'], error);
 
     expect(result).toBeNull();
   });
@@ -347,6 +413,107 @@ describe('getNextFallbackProvider', () => {
   });
 });
 
+describe('configured fallback chain', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedIsProviderAvailable.mockReturnValue(true);
+    mockedGetDefaultModelForProvider.mockImplementation((provider: ProviderId) => `${provider}-default`);
+    mockedGetProviderModel.mockImplementation((provider: ProviderId, model?: string) => ({
+      provider,
+      model: { modelId: model } as unknown as LanguageModel,
+      isConfigured: provider !== 'openai',
+    }) as any);
+  });
+
+  it('should default to the built-in order without pinned models', () => {
+    expect(getFallbackChain().slice(0, 2)).toEqual([
+      { providerId: 'apple', modelId: null },
+      { providerId: 'openai', modelId: null },
+    ]);
+  });
+
+  it('should walk the saved chain and use its pinned models', () => {
+    mockedGetFallbackSettings.mockReturnValue({
+      chain: [
+        { providerId: 'openrouter', modelId: 'anthropic/claude-sonnet-4.5' },
+        { providerId: 'ollama', modelId: 'qwen2.5' },
+      ],
+      triggers: null,
+      rateLimitWaitLimitMs: null,
+    });
+
+    const fallback = getModelWithFallback('openai', 'gpt-4o');
+    expect(fallback.provider).toBe('openrouter');
+    expect(fallback.modelId).toBe('anthropic/claude-sonnet-4.5');
+
+    expect(getNextFallbackProvider('openrouter', ['openrouter'], new Error('Server error 503')))
+      .toEqual({ provider: 'ollama', model: 'qwen2.5' });
+    expect(getNextFallbackProvider('ollama', ['openrouter', 'ollama'], new Error('Server error 503')))
+      .toBeNull();
+    expect(hasFallbackAvailable('openrouter', ['ollama'])).toBe(false);
+  });
+
+  it('should skip saved steps for deleted custom endpoints', () => {
+    mockedGetCustomEndpoints.mockReturnValue([
+      { id: 'custom:vllm', name: 'vLLM', baseUrl: 'http://10.0.0.3:8000/v1', apiKey: null, headers: {} },
+    ]);
+    mockedGetFallbackSettings.mockReturnValue({
+      chain: [
+        { providerId: 'custom:lm-studio', modelId: null },
+        { providerId: 'custom:vllm', modelId: 'qwen2.5-coder' },
+        { providerId: 'ollama', modelId: null },
+      ],
+      triggers: null,
+      rateLimitWaitLimitMs: null,
+    });
+
+    expect(getFallbackChain().map((entry) => entry.providerId)).toEqual(['custom:vllm', 'ollama']);
+  });
+
+  it('should only fall back on the saved trigger categories', () => {
+    const rateLimited = Object.assign(new Error('Too many requests'), { statusCode: 429 });
+    const contextTooLong = new Error('This model\'s maximum context length is 8192 tokens');
+
+    expect(shouldFallbackOnError(rateLimited)).toBe(true);
+    expect(shouldFallbackOnError(contextTooLong)).toBe(false);
+
+    mockedGetFallbackSettings.mockReturnValue({ chain: null, triggers: ['context_length'], rateLimitWaitLimitMs: null });
+
+    expect(shouldFallbackOnError(rateLimited)).toBe(false);
+    expect(shouldFallbackOnError(contextTooLong)).toBe(true);
+    expect(getNextFallbackProvider('openai', ['openai'], rateLimited)).toBeNull();
+    expect(findNextFallbackStep('openai', ['openai'])).toEqual({
+      provider: 'apple',
+      model: expect.any(String),
+    });
+  });
+
+  it('should read the rate-limit wait from the saved settings', () => {
+    expect(getRateLimitWaitLimitMs()).toBe(DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS);
+
+    mockedGetFallbackSettings.mockReturnValue({ chain: null, triggers: null, rateLimitWaitLimitMs: 120_000 });
+
+    expect(getRateLimitWaitLimitMs()).toBe(120_000);
+  });
+
+  it('should skip providers whose circuit is open', () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      recordProviderFailure('apple', 'timeout');
+    }
+
+    expect(getNextFallbackProvider('openai', ['openai'], new Error('Server error 503')))
+      .toEqual({ provider: 'anthropic', model: 'anthropic-default' });
+    expect(getModelWithFallback('openai', 'gpt-4o').provider).toBe('anthropic');
+    expect(hasFallbackAvailable('openai', ['anthropic', 'gemini', 'openrouter', 'opencode', 'ollama'])).toBe(false);
+  });
+
+  it('should keep the category of an already classified error', () => {
+    const classification = classifyError(Object.assign(new Error('Too many requests'), { statusCode: 429 }));
+
+    expect(classifyError(classification)).toBe(classification);
+  });
+});
+
 describe('hasFallbackAvailable', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -397,7 +564,7 @@ describe('getAvailableProviders', () => {
   it('should return all providers with configuration status', () => {
     const result = getAvailableProviders();
 
-    expect(result).toHaveLength(5);
+    expect(result).toHaveLength(7);
     expect(result.every((p) => p.provider && typeof p.isConfigured === 'boolean')).toBe(true);
   });
 
@@ -406,9 +573,11 @@ describe('getAvailableProviders', () => {
 
     expect(result[0].provider).toBe('apple');
     expect(result[1].provider).toBe('openai');
-    expect(result[2].provider).toBe('openrouter');
-    expect(result[3].provider).toBe('opencode');
-    expect(result[4].provider).toBe('ollama');
+    expect(result[2].provider).toBe('anthropic');
+    expect(result[3].provider).toBe('gemini');
+    expect(result[4].provider).toBe('openrouter');
+    expect(result[5].provider).toBe('opencode');
+    expect(result[6].provider).toBe('ollama');
   });
 
   it('should reflect actual configuration status', () => {
@@ -443,9 +612,12 @@ describe('Fallback Chain Integration', () => {
         apple: 'gpt-4',
         openai: 'gpt-4',
         'openai-codex': 'gpt-5.5',
+        anthropic: 'claude-sonnet-4-5',
+        gemini: 'gemini-2.5-flash',
         openrouter: 'claude-3',
         opencode: 'glm-5.1',
         ollama: 'llama2',
+        mock: 'mock-text',
       };
       return models[provider];
     });
@@ -473,7 +645,7 @@ describe('Fallback Chain Integration', () => {
 
     const result = getModelWithFallback('openai', 'gpt-4');
 
-    expect(result.attemptedProviders).toEqual(['openai', 'apple', 'openrouter', 'opencode', 'ollama']);
+    expect(result.attemptedProviders).toEqual(['openai', 'apple', 'anthropic', 'gemini', 'openrouter', 'opencode', 'ollama']);
     expect(result.provider).toBe('ollama');
     expect(result.isOriginal).toBe(false);
   });
@@ -497,7 +669,7 @@ describe('Fallback Chain Integration', () => {
     expect(result.model).toBeNull();
     expect(result.error).toContain('No configured providers');
     expect(result.isOriginal).toBe(true);
-    expect(result.attemptedProviders).toHaveLength(5);
+    expect(result.attemptedProviders).toHaveLength(7);
   });
 
   it('should skip providers that are not available', () => {
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+    getGeminiModel,
+    createGeminiProvider,
+    isGeminiConfigured,
+    testGeminiConnection,
+    fetchGeminiModels,
+} from '../gemini-provider';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { getProviderAuth } from '@/stores';
+import { fetch as expoFetch } from 'expo/fetch';
+
+jest.mock('@ai-sdk/google', () => ({
+    createGoogleGenerativeAI: jest.fn(),
+}));
+
+jest.mock('@/stores', () => ({
+    getProviderAuth: jest.fn(),
+}));
+
+jest.mock('expo/fetch', () => ({
+    fetch: jest.fn(),
+}));
+
+const mockedCreateGoogle = createGoogleGenerativeAI as jest.MockedFunction<typeof createGoogleGenerativeAI>;
+const mockedGetProviderAuth = getProviderAuth as jest.MockedFunction<typeof getProviderAuth>;
+const mockedExpoFetch = expoFetch as jest.MockedFunction<typeof expoFetch>;
+
+describe('Gemini Provider', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('getGeminiModel', () => {
+        it('should create a Gemini model with the stored API key', () => {
+            const mockModel = { provider: 'google.generative-ai', modelId: 'gemini-2.5-pro' } as any;
+            const mockProvider = jest.fn(() => mockModel) as any;
+
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'AIza-test' });
+            mockedCreateGoogle.mockReturnValue(mockProvider);
+
+            const result = getGeminiModel('gemini-2.5-pro');
+
+            expect(result).toEqual(mockModel);
+            expect(mockedGetProviderAuth).toHaveBeenCalledWith('gemini');
+            expect(mockedCreateGoogle).toHaveBeenCalledWith({
+                apiKey: 'AIza-test',
+                baseURL: 'https://generativelanguage.googleapis.com/v1beta',
+                fetch: expect.any(Function),
+            });
+            expect(mockProvider).toHaveBeenCalledWith('gemini-2.5-pro');
+        });
+
+        it('should default to Gemini 2.5 Flash', () => {
+            const mockProvider = jest.fn(() => ({})) as any;
+
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'AIza-test' });
+            mockedCreateGoogle.mockReturnValue(mockProvider);
+
+            getGeminiModel();
+
+            expect(mockProvider).toHaveBeenCalledWith('gemini-2.5-flash');
+        });
+
+        it('should return null when no API key is configured', () => {
+            mockedGetProviderAuth.mockReturnValue({});
+
+            expect(getGeminiModel()).toBeNull();
+            expect(mockedCreateGoogle).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createGeminiProvider', () => {
+        it('should build a provider for an explicit API key', () => {
+            const mockProvider = jest.fn() as any;
+            mockedCreateGoogle.mockReturnValue(mockProvider);
+
+            expect(createGeminiProvider('AIza-other')).toBe(mockProvider);
+            expect(mockedCreateGoogle).toHaveBeenCalledWith(
+                expect.objectContaining({ apiKey: 'AIza-other' }),
+            );
+        });
+    });
+
+    describe('isGeminiConfigured', () => {
+        it('should reflect whether an API key is stored', () => {
+            mockedGetProviderAuth.mockReturnValue({ apiKey: 'AIza-test' });
+            expect(isGeminiConfigured()).toBe(true);
+
+            mockedGetProviderAuth.mockReturnValue({});
+            expect(isGeminiConfigured()).toBe(false);
+        });
+    });
+
+    describe('testGeminiConnection', () => {
+        it('should list models with the Google API key header', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: true } as any);
+
+            const result = await testGeminiConnection('AIza-test');
+
+            expect(result).toBe(true);
+            expect(mockedExpoFetch).toHaveBeenCalledWith(
+                'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000',
+                {
+                    method: 'GET',
+                    headers: {
+                        'x-goog-api-key': 'AIza-test',
+                        'Content-Type': 'application/json',
+                    },
+                },
+            );
+        });
+
+        it('should return false for rejected keys and network errors', async () => {
+            mockedExpoFetch.mockResolvedValueOnce({ ok: false, status: 400 } as any);
+            expect(await testGeminiConnection('bad-key')).toBe(false);
+
+            mockedExpoFetch.mockRejectedValueOnce(new Error('Network error'));
+            expect(await testGeminiConnection('AIza-test')).toBe(false);
+        });
+    });
+
+    describe('fetchGeminiModels', () => {
+        it('should keep generateContent models and strip the resource prefix', async () => {
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    models: [
+                        { name: 'models/gemini-2.5-pro', supportedGenerationMethods: ['generateContent', 'countTokens'] },
+                        { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] },
+                        { name: 'models/gemini-2.5-flash', supportedGenerationMethods: ['generateContent'] },
+                        { name: 'models/gemini-2.5-flash', supportedGenerationMethods: ['generateContent'] },
+                        { supportedGenerationMethods: ['generateContent'] },
+                    ],
+                }),
+            } as any);
+
+            await expect(fetchGeminiModels('AIza-test')).resolves.toEqual([
+                'gemini-2.5-pro',
+                'gemini-2.5-flash',
+            ]);
+        });
+
+        it('should return an empty list when the request fails', async () => {
+            mockedExpoFetch.mockResolvedValueOnce({ ok: false, status: 403 } as any);
+            await expect(fetchGeminiModels('bad-key')).resolves.toEqual([]);
+
+            mockedExpoFetch.mockRejectedValueOnce(new Error('Network error'));
+            await expect(fetchGeminiModels('AIza-test')).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { APICallError, streamText, tool } from 'ai';
+import { z } from 'zod';
+
+import { createMockModel, getMockModel, MOCK_SCENARIOS, type MockFixture } from '../mock-provider';
+import { createWebSearchToolRuntime } from '@/lib/web-search-tool';
+import type { SearchBackend } from '@/lib/search-backends';
+import { MOCK_MODELS } from '@/types/provider.types';
+
+const collect = async (fixture: MockFixture, options: Partial<Parameters<typeof streamText>[0]> = {}) => {
+  const parts: any[] = [];
+  const result = streamText({
+    model: createMockModel(fixture),
+    prompt: 'Say something',
+    ...options,
+  } as Parameters<typeof streamText>[0]);
+
+  for await (const part of result.fullStream) {
+    parts.push(part);
+  }
+  return parts;
+};
+
+const textOf = (parts: any[]) => parts.filter((part) => part.type === 'text-delta').map((part) => part.text).join('');
+
+describe('mock-provider', () => {
+  it('offers a scenario for every mock model id', () => {
+    expect(Object.keys(MOCK_SCENARIOS).sort()).toEqual([...MOCK_MODELS].sort());
+  });
+
+  it('streams scripted text and reasoning with estimated usage', async () => {
+    const parts = await collect({
+      turns: [[
+        { type: 'reasoning', text: 'Thinking it over.' },
+        { type: 'text', text: 'Hello ' },
+        { type: 'text', text: 'there.' },
+      ]],
+    });
+
+    expect(textOf(parts)).toBe('Hello there.');
+    expect(parts.filter((part) => part.type === 'reasoning-delta').map((part) => part.text)).toEqual(['Thinking it over.']);
+
+    const finish = parts.find((part) => part.type === 'finish');
+    expect(finish.finishReason).toBe('stop');
+    expect(finish.totalUsage.outputTokens).toBeGreaterThan(0);
+    expect(finish.totalUsage.reasoningTokens).toBe(5);
+  });
+
+  it('reports scripted usage in place of the estimate', async () => {
+    const parts = await collect({
+      turns: [[
+        { type: 'text', text: 'Short.' },
+        { type: 'usage', inputTokens: 1200, outputTokens: 40, cachedInputTokens: 1000 },
+      ]],
+    });
+
+    expect(parts.find((part) => part.type === 'finish').totalUsage).toMatchObject({
+      inputTokens: 1200,
+      outputTokens: 40,
+      cachedInputTokens: 1000,
+    });
+  });
+
+  it('echoes the latest user message', async () => {
+    const result = streamText({ model: getMockModel('mock-echo'), prompt: 'ping pong' });
+
+    expect(await result.text).toBe('ping pong');
+  });
+
+  it('runs a tool round trip across turns', async () => {
+    const execute = jest.fn(async ({ query }: { query: string }) => `results for ${query}`);
+    const result = streamText({
+      model: createMockModel({
+        turns: [
+          [{ type: 'tool-call', toolName: 'searchWeb', input: { query: 'tides' } }],
+          [{ type: 'text', text: 'Found it.' }],
+        ],
+      }),
+      prompt: 'Look up tides',
+      tools: {
+        searchWeb: tool({
+          description: 'Search the web',
+          inputSchema: z.object({ query: z.string() }),
+          execute,
+        }),
+      },
+      stopWhen: ({ steps }) => steps.length >= 3,
+    });
+
+    expect(await result.text).toBe('Found it.');
+    expect(execute).toHaveBeenCalledWith({ query: 'tides' }, expect.anything());
+    expect((await result.steps).map((step) => step.finishReason)).toEqual(['tool-calls', 'stop']);
+  });
+
+  it('drives the real web search tool from the tool-call scenario', async () => {
+    const backend: SearchBackend = {
+      id: 'searxng',
+      search: jest.fn(async (query: string) => ({
+        query,
+        backend: 'searxng' as const,
+        sources: [{ title: 'Seabreeze', url: 'https://seabreeze.example.com' }],
+      })),
+    };
+    const tools = createWebSearchToolRuntime({ backend, enabled: true }).createTools('openai');
+    const result = streamText({
+      model: getMockModel('mock-tool-call'),
+      prompt: 'Search for something',
+      tools,
+      abortSignal: new AbortController().signal,
+      stopWhen: ({ steps }) => steps.length >= 3,
+    });
+
+    expect(await result.text).toBe('The search came back, and this reply was written after reading it.');
+    expect(backend.search).toHaveBeenCalledWith('seabreeze mock provider', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+  });
+
+  it('turns a call to a tool that was not offered into a note', async () => {
+    const parts = await collect({
+      turns: [[{ type: 'tool-call', toolName: 'searchWeb', input: { query: 'tides' } }]],
+    });
+
+    expect(textOf(parts)).toBe('(mock: the searchWeb tool is not enabled for this chat)');
+    expect(parts.some((part) => part.type === 'tool-call')).toBe(false);
+  });
+
+  it('fails the call with an APICallError when the script starts with an error', async () => {
+    const parts = await collect(MOCK_SCENARIOS['mock-rate-limited'], { maxRetries: 0 });
+    const error = parts.find((part) => part.type === 'error')?.error;
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error).toMatchObject({
+      statusCode: 429,
+      isRetryable: true,
+      responseHeaders: { 'retry-after': '5', 'x-ratelimit-remaining-requests': '0' },
+    });
+    expect(textOf(parts)).toBe('');
+  });
+
+  it('breaks off mid-stream after partial output', async () => {
+    const parts = await collect({
+      turns: [[
+        { type: 'text', text: 'Partial ' },
+        { type: 'error', message: 'Upstream connection reset', statusCode: 502 },
+        { type: 'text', text: 'never sent' },
+      ]],
+    });
+
+    expect(textOf(parts)).toBe('Partial ');
+    expect(parts.find((part) => part.type === 'error')?.error).toMatchObject({
+      message: 'Upstream connection reset',
+      statusCode: 502,
+    });
+  });
+
+  it('stops waiting when the call is aborted', async () => {
+    const controller = new AbortController();
+    const parts: any[] = [];
+    const result = streamText({
+      model: getMockModel('mock-stall'),
+      prompt: 'Hang',
+      abortSignal: controller.signal,
+    });
+
+    for await (const part of result.fullStream) {
+      parts.push(part);
+      if (part.type === 'text-delta' && part.text === 'sending') {
+        controller.abort();
+      }
+    }
+
+    expect(textOf(parts)).toBe('This reply starts normally and then stops sending');
+    expect(parts.some((part) => part.type === 'finish')).toBe(false);
+  });
+});
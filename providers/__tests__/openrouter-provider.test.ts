@@ -4,10 +4,13 @@ import {
     createOpenRouterProvider,
     isOpenRouterConfigured,
     testOpenRouterConnection,
+    fetchOpenRouterModels,
+    fetchOpenRouterModelCatalog,
 } from '../openrouter-provider';
 import { createOpenRouter, type OpenRouterProvider } from '@openrouter/ai-sdk-provider';
 import { getProviderAuth } from '@/stores';
 import { fetch as expoFetch } from 'expo/fetch';
+import { inspectedFetch } from '@/lib/network-inspector';
 
 // Mock the @openrouter/ai-sdk-provider package
 jest.mock('@openrouter/ai-sdk-provider', () => ({
@@ -135,7 +138,7 @@ describe('OpenRouter Provider', () => {
             });
         });
 
-        it('should pass expoFetch to provider configuration', () => {
+        it('should pass the inspected fetch to provider configuration', () => {
             const mockModel = { provider: 'openrouter' } as any;
             const mockProvider = jest.fn(() => mockModel) as any;
             
@@ -146,7 +149,7 @@ describe('OpenRouter Provider', () => {
 
             expect(mockedCreateOpenRouter).toHaveBeenCalledWith({
                 apiKey: 'sk-or-v1-test-key',
-                fetch: expoFetch,
+                fetch: inspectedFetch,
             });
         });
     });
@@ -170,7 +173,7 @@ describe('OpenRouter Provider', () => {
             });
         });
 
-        it('should pass expoFetch to provider configuration', () => {
+        it('should pass the inspected fetch to provider configuration', () => {
             const mockProvider = {} as OpenRouterProvider;
             
             mockedCreateOpenRouter.mockReturnValue(mockProvider);
@@ -179,7 +182,7 @@ describe('OpenRouter Provider', () => {
 
             expect(mockedCreateOpenRouter).toHaveBeenCalledWith({
                 apiKey: 'sk-or-v1-test-key',
-                fetch: expoFetch,
+                fetch: inspectedFetch,
             });
         });
 
@@ -379,6 +382,135 @@ describe('OpenRouter Provider', () => {
         });
     });
 
+    // ============================================================================
+    // fetchOpenRouterModels Tests
+    // ============================================================================
+
+    describe('fetchOpenRouterModels', () => {
+        it('should return unique model ids from the models endpoint', async () => {
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [
+                        { id: 'openai/gpt-4o' },
+                        { id: 'anthropic/claude-3.5-sonnet' },
+                        { id: 'openai/gpt-4o' },
+                        { name: 'missing id' },
+                    ],
+                }),
+            } as any);
+
+            const result = await fetchOpenRouterModels('sk-or-v1-test-key');
+
+            expect(result).toEqual(['openai/gpt-4o', 'anthropic/claude-3.5-sonnet']);
+            expect(mockedExpoFetch).toHaveBeenCalledWith(
+                'https://openrouter.ai/api/v1/models',
+                {
+                    method: 'GET',
+                    headers: {
+                        'Authorization': 'Bearer sk-or-v1-test-key',
+                        'Content-Type': 'application/json',
+                    },
+                }
+            );
+        });
+
+        it('should return an empty list when the request fails', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: false, status: 401 } as any);
+
+            await expect(fetchOpenRouterModels('bad-key')).resolves.toEqual([]);
+        });
+
+        it('should return an empty list on network errors', async () => {
+            mockedExpoFetch.mockRejectedValue(new Error('Network error'));
+
+            await expect(fetchOpenRouterModels('sk-or-v1-test-key')).resolves.toEqual([]);
+        });
+    });
+
+    describe('fetchOpenRouterModelCatalog', () => {
+        it('should read capabilities from modalities, supported parameters and context length', async () => {
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [
+                        {
+                            id: 'google/gemini-2.5-flash',
+                            context_length: 1048576,
+                            architecture: { input_modalities: ['text', 'image', 'file', 'video'] },
+                            supported_parameters: ['tools', 'reasoning', 'temperature'],
+                        },
+                        {
+                            id: 'mistralai/mistral-7b-instruct',
+                            context_length: 32768,
+                            architecture: { input_modalities: ['text'] },
+                            supported_parameters: ['temperature'],
+                        },
+                        { id: 'sparse/model' },
+                    ],
+                }),
+            } as any);
+
+            const result = await fetchOpenRouterModelCatalog('sk-or-v1-test-key');
+
+            expect(result.models).toEqual([
+                'google/gemini-2.5-flash',
+                'mistralai/mistral-7b-instruct',
+                'sparse/model',
+            ]);
+            expect(result.capabilities).toEqual({
+                'google/gemini-2.5-flash': {
+                    vision: true,
+                    video: true,
+                    tools: true,
+                    reasoning: true,
+                    contextTokens: 1048576,
+                },
+                'mistralai/mistral-7b-instruct': {
+                    vision: false,
+                    tools: false,
+                    reasoning: false,
+                    contextTokens: 32768,
+                },
+                'sparse/model': {},
+            });
+        });
+
+        it('should convert per-token prices to per-million prices', async () => {
+            mockedExpoFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({
+                    data: [
+                        {
+                            id: 'anthropic/claude-sonnet-4',
+                            pricing: { prompt: '0.000003', completion: '0.000015', input_cache_read: '0.0000003' },
+                        },
+                        { id: 'openrouter/auto', pricing: { prompt: '-1', completion: '-1' } },
+                        { id: 'meta-llama/llama-3.3-70b:free', pricing: { prompt: '0', completion: '0' } },
+                        { id: 'sparse/model' },
+                    ],
+                }),
+            } as any);
+
+            const result = await fetchOpenRouterModelCatalog('sk-or-v1-test-key');
+
+            expect(result.pricing).toEqual({
+                'anthropic/claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+                'meta-llama/llama-3.3-70b:free': { input: 0, output: 0 },
+            });
+        });
+
+        it('should return an empty catalog when the request fails', async () => {
+            mockedExpoFetch.mockResolvedValue({ ok: false, status: 500 } as any);
+
+            await expect(fetchOpenRouterModelCatalog('sk-or-v1-test-key')).resolves.toEqual({
+                models: [],
+                capabilities: {},
+                pricing: {},
+            });
+        });
+    });
+
     // ============================================================================
     // Integration Tests
     // ============================================================================
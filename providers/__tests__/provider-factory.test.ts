@@ -13,8 +13,9 @@ import {
   getAllProviders,
   type ConnectionTestResult,
 } from '../provider-factory';
-import { isProviderConfigured, getDefaultModelForProvider } from '@/stores';
+import { isProviderConfigured, getDefaultModelForProvider, getCustomEndpoints } from '@/stores';
 import type { ProviderId } from '@/types/provider.types';
+import { getProviderHealth, recordProviderFailure } from '../provider-health';
 
 jest.mock('@/stores');
 jest.mock('expo/fetch', () => ({
@@ -29,6 +30,14 @@ jest.mock('../openai-provider', () => ({
   getOpenAIModel: jest.fn(() => ({})),
 }));
 
+jest.mock('../anthropic-provider', () => ({
+  getAnthropicModel: jest.fn(() => ({})),
+}));
+
+jest.mock('../gemini-provider', () => ({
+  getGeminiModel: jest.fn(() => ({})),
+}));
+
 jest.mock('../openrouter-provider', () => ({
   getOpenRouterModel: jest.fn(() => ({})),
 }));
@@ -71,6 +80,19 @@ jest.mock('ai', () => ({
 
 const mockedIsProviderConfigured = isProviderConfigured as jest.MockedFunction<typeof isProviderConfigured>;
 const mockedGetDefaultModelForProvider = getDefaultModelForProvider as jest.MockedFunction<typeof getDefaultModelForProvider>;
+const mockedGetCustomEndpoints = getCustomEndpoints as jest.MockedFunction<typeof getCustomEndpoints>;
+
+const LAB_ENDPOINT = {
+  id: 'custom:lab-vllm' as const,
+  name: 'Lab vLLM',
+  baseUrl: 'http://10.0.0.5:8000/v1',
+  apiKey: null,
+  headers: {},
+};
+
+beforeEach(() => {
+  mockedGetCustomEndpoints.mockReturnValue([]);
+});
 
 describe('getProviderModel', () => {
   beforeEach(() => {
@@ -80,9 +102,12 @@ describe('getProviderModel', () => {
         apple: 'gpt-4',
         openai: 'gpt-4',
         'openai-codex': 'gpt-5.5',
+        anthropic: 'claude-sonnet-4-5',
+        gemini: 'gemini-2.5-flash',
         openrouter: 'claude-3',
         opencode: 'glm-5.1',
         ollama: 'llama2',
+        mock: 'mock-text',
       };
       return models[provider];
     });
@@ -110,6 +135,20 @@ describe('getProviderModel', () => {
     expect(result.isConfigured).toBe(true);
   });
 
+  it('should return model for anthropic provider', () => {
+    const result = getProviderModel('anthropic');
+
+    expect(result.model).toBeDefined();
+    expect(result.isConfigured).toBe(true);
+  });
+
+  it('should return model for gemini provider', () => {
+    const result = getProviderModel('gemini');
+
+    expect(result.model).toBeDefined();
+    expect(result.isConfigured).toBe(true);
+  });
+
   it('should return model for opencode provider', () => {
     const result = getProviderModel('opencode');
 
@@ -174,22 +213,39 @@ describe('getConfiguredProviders', () => {
 
     const result = getConfiguredProviders();
 
-    expect(result).toHaveLength(6);
+    expect(result).toHaveLength(8);
     expect(result).toContain('apple');
     expect(result).toContain('openai');
     expect(result).toContain('openai-codex');
+    expect(result).toContain('anthropic');
+    expect(result).toContain('gemini');
     expect(result).toContain('openrouter');
     expect(result).toContain('opencode');
     expect(result).toContain('ollama');
   });
+
+  it('should include configured custom endpoints after the built-in providers', () => {
+    mockedGetCustomEndpoints.mockReturnValue([LAB_ENDPOINT]);
+    mockedIsProviderConfigured.mockImplementation((provider: ProviderId) => (
+      provider === 'apple' || provider === LAB_ENDPOINT.id
+    ));
+
+    expect(getConfiguredProviders()).toEqual(['apple', 'custom:lab-vllm']);
+  });
 });
 
 describe('getAllProviders', () => {
   it('should return all provider IDs', () => {
     const result = getAllProviders();
 
-    expect(result).toHaveLength(6);
-    expect(result).toEqual(['apple', 'openai', 'openai-codex', 'openrouter', 'opencode', 'ollama']);
+    expect(result).toHaveLength(8);
+    expect(result).toEqual(['apple', 'openai', 'openai-codex', 'anthropic', 'gemini', 'openrouter', 'opencode', 'ollama']);
+  });
+
+  it('should append custom endpoint ids', () => {
+    mockedGetCustomEndpoints.mockReturnValue([LAB_ENDPOINT]);
+
+    expect(getAllProviders().slice(-2)).toEqual(['ollama', 'custom:lab-vllm']);
   });
 });
 
@@ -255,6 +311,17 @@ describe('testProviderConnection', () => {
     expect(result).toBe(false);
   });
 
+  it('should return false for gemini without apiKey', async () => {
+    const result = await testProviderConnection('gemini', {});
+    expect(result).toBe(false);
+  });
+
+  it('should return false for anthropic without apiKey', async () => {
+    const result = await testProviderConnection('anthropic', {});
+
+    expect(result).toBe(false);
+  });
+
   it('should return false for opencode without apiKey', async () => {
     const result = await testProviderConnection('opencode', {});
 
@@ -344,6 +411,15 @@ describe('testAllProviders', () => {
     expect(result.opencode).toHaveProperty('error');
     expect(result.ollama).toHaveProperty('error');
   });
+
+  it('should include an entry for each custom endpoint', async () => {
+    mockedGetCustomEndpoints.mockReturnValue([LAB_ENDPOINT]);
+    mockedIsProviderConfigured.mockImplementation((provider: ProviderId) => provider === 'apple');
+
+    const result = await testAllProviders();
+
+    expect(result['custom:lab-vllm']).toEqual({ success: false, error: 'Not tested' });
+  });
 });
 
 describe('getBestAvailableProvider', () => {
@@ -373,6 +449,17 @@ describe('invalidateProvider', () => {
       invalidateProvider('openai');
     }).not.toThrow();
   });
+
+  it('should close the provider circuit so new settings get a fresh chance', () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      recordProviderFailure('ollama', 'network');
+    }
+    expect(getProviderHealth('ollama').circuit).toBe('open');
+
+    invalidateProvider('ollama');
+
+    expect(getProviderHealth('ollama').circuit).toBe('closed');
+  });
 });
 
 // Enhanced tests for detailed behavior and edge cases
@@ -384,9 +471,12 @@ describe('Provider Model Creation with Caching', () => {
         apple: 'gpt-4',
         openai: 'gpt-4',
         'openai-codex': 'gpt-5.5',
+        anthropic: 'claude-sonnet-4-5',
+        gemini: 'gemini-2.5-flash',
         openrouter: 'claude-3',
         opencode: 'glm-5.1',
         ollama: 'llama2',
+        mock: 'mock-text',
       };
       return models[provider];
     });
@@ -560,7 +650,7 @@ describe('Parallel Provider Testing', () => {
   it('should test all configured providers efficiently', async () => {
     const result = await testAllProviders();
 
-    expect(Object.keys(result)).toHaveLength(6);
+    expect(Object.keys(result)).toHaveLength(9);
     
     // All should have been tested (not "Not tested")
     Object.values(result).forEach(providerResult => {
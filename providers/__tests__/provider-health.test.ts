@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  CIRCUIT_BASE_COOLDOWN_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  describeProviderHealth,
+  getProviderHealth,
+  isProviderCircuitOpen,
+  probeProvider,
+  recordProviderFailure,
+  recordProviderSuccess,
+  resetProviderHealth,
+} from '../provider-health';
+import { testProviderConnectionReal } from '../provider-factory';
+
+jest.mock('../provider-factory', () => ({
+  testProviderConnectionReal: jest.fn(),
+}));
+
+const mockedTestProviderConnectionReal = testProviderConnectionReal as jest.MockedFunction<typeof testProviderConnectionReal>;
+
+const failRepeatedly = (times: number, now = 1_000) => {
+  for (let attempt = 0; attempt < times; attempt++) {
+    recordProviderFailure('ollama', 'timeout', 'Request timed out', now);
+  }
+};
+
+describe('provider health', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetProviderHealth();
+  });
+
+  it('opens the circuit after consecutive unreachable failures', () => {
+    failRepeatedly(CIRCUIT_FAILURE_THRESHOLD - 1);
+    expect(isProviderCircuitOpen('ollama', 1_000)).toBe(false);
+    expect(describeProviderHealth(getProviderHealth('ollama'))).toBe('2 recent failures');
+
+    failRepeatedly(1);
+
+    expect(getProviderHealth('ollama')).toMatchObject({
+      circuit: 'open',
+      lastFailureCategory: 'timeout',
+      retryAt: 1_000 + CIRCUIT_BASE_COOLDOWN_MS,
+    });
+    expect(isProviderCircuitOpen('ollama', 1_000)).toBe(true);
+    expect(isProviderCircuitOpen('openai', 1_000)).toBe(false);
+    expect(describeProviderHealth(getProviderHealth('ollama'))).toBe('Not responding · skipped for now');
+  });
+
+  it('treats answers like a rate limit as proof the provider is reachable', () => {
+    failRepeatedly(CIRCUIT_FAILURE_THRESHOLD - 1);
+    recordProviderFailure('ollama', 'rate_limit', 'Too many requests');
+    failRepeatedly(1);
+
+    expect(getProviderHealth('ollama')).toMatchObject({ circuit: 'closed', consecutiveFailures: 1 });
+
+    recordProviderSuccess('ollama', 2_000);
+
+    expect(getProviderHealth('ollama')).toMatchObject({ consecutiveFailures: 0, lastSuccessAt: 2_000 });
+    expect(describeProviderHealth(getProviderHealth('ollama'))).toBeNull();
+  });
+
+  it('probes once after the cooldown and closes when the provider answers', async () => {
+    mockedTestProviderConnectionReal.mockResolvedValue({ success: true, latencyMs: 40 });
+    failRepeatedly(CIRCUIT_FAILURE_THRESHOLD);
+
+    const afterCooldown = 1_000 + CIRCUIT_BASE_COOLDOWN_MS;
+    expect(isProviderCircuitOpen('ollama', afterCooldown)).toBe(true);
+    expect(isProviderCircuitOpen('ollama', afterCooldown)).toBe(true);
+    expect(getProviderHealth('ollama').circuit).toBe('half-open');
+
+    await expect(probeProvider('ollama')).resolves.toBe(true);
+
+    expect(mockedTestProviderConnectionReal).toHaveBeenCalledTimes(1);
+    expect(mockedTestProviderConnectionReal).toHaveBeenCalledWith('ollama', undefined, expect.any(Number));
+    expect(isProviderCircuitOpen('ollama')).toBe(false);
+  });
+
+  it('reopens with a longer cooldown when the probe fails', async () => {
+    mockedTestProviderConnectionReal.mockResolvedValue({
+      success: false,
+      error: 'connect ECONNREFUSED',
+      errorCategory: 'network',
+    });
+    failRepeatedly(CIRCUIT_FAILURE_THRESHOLD);
+
+    await expect(probeProvider('ollama')).resolves.toBe(false);
+
+    const health = getProviderHealth('ollama');
+    expect(health).toMatchObject({
+      circuit: 'open',
+      cooldownMs: CIRCUIT_BASE_COOLDOWN_MS * 2,
+      lastError: 'connect ECONNREFUSED',
+    });
+  });
+
+  it('forgets a provider when asked', () => {
+    failRepeatedly(CIRCUIT_FAILURE_THRESHOLD);
+
+    resetProviderHealth('ollama');
+
+    expect(getProviderHealth('ollama').circuit).toBe('closed');
+    expect(isProviderCircuitOpen('ollama')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import { getRateLimitWaitMs, parseRateLimitInfo } from '../rate-limit';
+
+const NOW = 1_750_000_000_000;
+
+const apiCallError = (responseHeaders: Record<string, string>, responseBody?: string) => Object.assign(
+  new Error('Too Many Requests'),
+  { statusCode: 429, responseHeaders, responseBody },
+);
+
+describe('parseRateLimitInfo', () => {
+  it('prefers Retry-After over the reset headers', () => {
+    const info = parseRateLimitInfo(apiCallError({
+      'Retry-After': '12',
+      'x-ratelimit-limit-requests': '500',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1m30s',
+    }), NOW);
+
+    expect(info).toEqual({ resetAt: NOW + 12_000, remaining: 0, limit: 500, limitKind: 'requests' });
+  });
+
+  it('reads retry-after-ms and HTTP dates', () => {
+    expect(parseRateLimitInfo(apiCallError({ 'retry-after-ms': '850' }), NOW)?.resetAt).toBe(NOW + 850);
+
+    const date = new Date(NOW + 60_000).toUTCString();
+    expect(parseRateLimitInfo(apiCallError({ 'retry-after': date }), NOW)?.resetAt)
+      .toBe(Math.floor((NOW + 60_000) / 1000) * 1000);
+  });
+
+  it('picks the exhausted limit from OpenAI duration headers', () => {
+    const info = parseRateLimitInfo(apiCallError({
+      'x-ratelimit-remaining-requests': '42',
+      'x-ratelimit-reset-requests': '250ms',
+      'x-ratelimit-limit-tokens': '30000',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '6m0s',
+    }), NOW);
+
+    expect(info).toEqual({ resetAt: NOW + 360_000, remaining: 0, limit: 30_000, limitKind: 'tokens' });
+  });
+
+  it('reads Anthropic reset timestamps', () => {
+    const resetAt = new Date(NOW + 45_000).toISOString();
+    const info = parseRateLimitInfo(apiCallError({
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': resetAt,
+    }), NOW);
+
+    expect(info).toMatchObject({ resetAt: NOW + 45_000, limitKind: 'tokens' });
+  });
+
+  it('reads OpenRouter limits from the error body inside a RetryError', () => {
+    const body = JSON.stringify({
+      error: {
+        code: 429,
+        message: 'Rate limit exceeded: free-models-per-day',
+        metadata: {
+          headers: {
+            'X-RateLimit-Limit': '50',
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(NOW + 3_600_000),
+          },
+        },
+      },
+    });
+    const retryError = Object.assign(new Error('Failed after 3 attempts. Last error: Rate limit exceeded'), {
+      lastError: apiCallError({}, body),
+    });
+
+    expect(parseRateLimitInfo(retryError, NOW)).toEqual({
+      resetAt: NOW + 3_600_000,
+      remaining: 0,
+      limit: 50,
+      limitKind: 'requests',
+    });
+  });
+
+  it('returns null when the response said nothing about its limit', () => {
+    expect(parseRateLimitInfo(apiCallError({ 'content-type': 'application/json' }), NOW)).toBeNull();
+    expect(parseRateLimitInfo(new Error('Rate limit exceeded'), NOW)).toBeNull();
+    expect(parseRateLimitInfo('429', NOW)).toBeNull();
+  });
+});
+
+describe('getRateLimitWaitMs', () => {
+  it('counts down to the reset and never goes negative', () => {
+    const info = { resetAt: NOW + 5_000, remaining: 0, limit: 10, limitKind: 'requests' as const };
+
+    expect(getRateLimitWaitMs(info, NOW)).toBe(5_000);
+    expect(getRateLimitWaitMs(info, NOW + 9_000)).toBe(0);
+    expect(getRateLimitWaitMs({ ...info, resetAt: null }, NOW)).toBeNull();
+    expect(getRateLimitWaitMs(undefined, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { createAnthropic, type AnthropicProvider } from "@ai-sdk/anthropic";
+import { LanguageModel } from "ai";
+import { inspectedFetch } from "@/lib/network-inspector";
+
+import { getProviderAuth } from "@/stores";
+
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_API_VERSION = "2023-06-01";
+
+// Requests go straight from the device to Anthropic; on web the API rejects
+// browser-origin calls unless this header opts in.
+const DIRECT_ACCESS_HEADERS = {
+  "anthropic-dangerous-direct-browser-access": "true",
+};
+
+export function getAnthropicModel(
+  modelId: string = "claude-sonnet-4-5",
+): LanguageModel | null {
+  const { apiKey } = getProviderAuth("anthropic");
+  if (!apiKey) {
+    return null;
+  }
+
+  return createAnthropicProvider(apiKey)(modelId);
+}
+
+export function createAnthropicProvider(apiKey: string): AnthropicProvider {
+  return createAnthropic({
+    apiKey,
+    baseURL: ANTHROPIC_BASE_URL,
+    headers: DIRECT_ACCESS_HEADERS,
+    fetch: inspectedFetch,
+  });
+}
+
+export function isAnthropicConfigured(): boolean {
+  const { apiKey } = getProviderAuth("anthropic");
+  return !!apiKey;
+}
+
+export async function testAnthropicConnection(apiKey: string): Promise<boolean> {
+  try {
+    const response = await inspectedFetch(`${ANTHROPIC_BASE_URL}/models`, {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_API_VERSION,
+        "Content-Type": "application/json",
+        ...DIRECT_ACCESS_HEADERS,
+      },
+    });
+
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @file custom-endpoint-provider.ts
+ * @purpose User-defined OpenAI-compatible endpoints (LM Studio, vLLM, llama.cpp and similar)
+ * @connects-to provider factory, fallback chain, auth store
+ *
+ * Each endpoint is its own provider instance with a "custom:<slug>" id. The
+ * connection details live in the auth store; fetched model lists live in the
+ * provider store like Ollama's.
+ */
+
+import { createOpenAICompatible, type OpenAICompatibleProvider } from "@ai-sdk/openai-compatible";
+import { LanguageModel } from "ai";
+import { createInspectedFetch } from "@/lib/network-inspector";
+
+import { normalizeCustomEndpointUrl } from "@/lib/custom-endpoints";
+import { normalizeUniqueModelNames } from "@/lib/model-utils";
+import { getCustomEndpoint } from "@/stores";
+import type { CustomEndpoint, CustomProviderId } from "@/types/provider.types";
+
+type EndpointConnection = Pick<CustomEndpoint, "baseUrl" | "apiKey" | "headers">;
+
+const CONNECTION_TIMEOUT_MS = 5000;
+
+/** User-defined headers often carry a token the inspector cannot recognize by name */
+const createEndpointFetch = (endpoint: EndpointConnection): typeof globalThis.fetch => {
+  return createInspectedFetch({ sensitiveHeaders: Object.keys(endpoint.headers ?? {}) });
+};
+
+const buildRequestHeaders = ({ apiKey, headers }: EndpointConnection): Record<string, string> => {
+  return {
+    ...headers,
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+};
+
+export function createCustomEndpointProvider(endpoint: EndpointConnection): OpenAICompatibleProvider {
+  return createOpenAICompatible({
+    name: "custom",
+    baseURL: normalizeCustomEndpointUrl(endpoint.baseUrl),
+    apiKey: endpoint.apiKey || undefined,
+    headers: endpoint.headers,
+    includeUsage: true,
+    fetch: createEndpointFetch(endpoint),
+  });
+}
+
+export function getCustomEndpointModel(
+  providerId: CustomProviderId,
+  modelId: string,
+): LanguageModel | null {
+  const endpoint = getCustomEndpoint(providerId);
+  if (!endpoint?.baseUrl || !modelId) {
+    return null;
+  }
+
+  return createCustomEndpointProvider(endpoint).chatModel(modelId);
+}
+
+const requestModels = async (endpoint: EndpointConnection) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CONNECTION_TIMEOUT_MS);
+
+  try {
+    return await createEndpointFetch(endpoint)(`${normalizeCustomEndpointUrl(endpoint.baseUrl)}/models`, {
+      method: "GET",
+      headers: buildRequestHeaders(endpoint),
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export async function testCustomEndpointConnection(endpoint: EndpointConnection): Promise<boolean> {
+  try {
+    const response = await requestModels(endpoint);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/** Reads the OpenAI-style `{ data: [{ id }] }` list from `/models`. */
+export async function fetchCustomEndpointModels(endpoint: EndpointConnection): Promise<string[]> {
+  try {
+    const response = await requestModels(endpoint);
+    if (!response.ok) {
+      return [];
+    }
+
+    const body = await response.json() as { data?: unknown };
+    const entries = Array.isArray(body?.data) ? body.data : [];
+
+    return normalizeUniqueModelNames(
+      entries.map((entry: unknown) => (
+        entry && typeof entry === "object" ? (entry as { id?: unknown }).id : undefined
+      )),
+    );
+  } catch {
+    return [];
+  }
+}
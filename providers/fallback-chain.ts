@@ -1,7 +1,24 @@
 import { LanguageModel } from "ai";
-import { ProviderId } from "@/types/provider.types";
+import {
+  ERROR_CATEGORIES,
+  isCustomProviderId,
+  PROVIDERS,
+  type ErrorCategory,
+  type FallbackChainEntry,
+  type ProviderId,
+  type RateLimitInfo,
+} from "@/types/provider.types";
 import { getProviderModel, ProviderResult, isProviderAvailable } from "./provider-factory";
-import { getDefaultModelForProvider, isProviderConfigured } from "@/stores";
+import { isProviderCircuitOpen } from "./provider-health";
+import { DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS, parseRateLimitInfo } from "./rate-limit";
+import {
+  getCustomEndpoints,
+  getDefaultModelForProvider,
+  getFallbackSettings,
+  isProviderConfigured,
+} from "@/stores";
+
+export type { ErrorCategory } from "@/types/provider.types";
 
 // ============================================================================
 // PROVIDER FALLBACK CONFIGURATION
@@ -15,38 +32,73 @@ import { getDefaultModelForProvider, isProviderConfigured } from "@/stores";
  * 
  * 1. Apple Intelligence - Always available on Apple devices, no API keys needed
  * 2. OpenAI - Most reliable cloud provider with best uptime
- * 3. OpenRouter - Access to multiple models/providers, good reliability
- * 4. Opencode - Curated coding models through OpenCode Go
- * 5. Ollama - Local models, requires user setup but provides offline capability
+ * 3. Anthropic - Direct Claude access, independent of OpenAI outages
+ * 4. Gemini - Google's models on the user's own AI Studio key
+ * 5. OpenRouter - Access to multiple models/providers, good reliability
+ * 6. Opencode - Curated coding models through OpenCode Go
+ * 7. Ollama - Local models, requires user setup but provides offline capability
+ *
+ * Custom OpenAI-compatible endpoints are not listed here because they are
+ * defined at runtime; getProviderFallbackOrder() slots them in.
  */
 export const PROVIDER_FALLBACK_ORDER: ProviderId[] = [
   "apple",      // Always available on Apple devices, no configuration required
   "openai",     // Most reliable cloud provider with proven uptime
+  "anthropic",  // Direct Claude access on separate infrastructure
+  "gemini",     // Google-hosted models with a generous free tier
   "openrouter", // Access to multiple providers via single API
   "opencode",   // Curated coding models through OpenCode Go
   "ollama",     // Local backup option for privacy/offline use
 ];
 
-// ============================================================================
-// ERROR CLASSIFICATION SYSTEM
-// ============================================================================
+/**
+ * The fallback order including the user's custom endpoints. They are
+ * self-hosted like Ollama, so they sit just ahead of it in the order the
+ * user added them.
+ */
+export function getProviderFallbackOrder(): ProviderId[] {
+  const customProviderIds = getCustomEndpoints().map((endpoint) => endpoint.id);
+  const ollamaIndex = PROVIDER_FALLBACK_ORDER.indexOf("ollama");
+
+  return [
+    ...PROVIDER_FALLBACK_ORDER.slice(0, ollamaIndex),
+    ...customProviderIds,
+    ...PROVIDER_FALLBACK_ORDER.slice(ollamaIndex),
+  ];
+}
 
 /**
- * Error categories for determining fallback behavior
- * 
- * Each category represents a different type of failure that may occur during
- * provider communication. The classification determines whether the error is
- * retryable and whether we should immediately fallback to another provider.
+ * The chain getModelWithFallback() and getNextFallbackProvider() walk. The
+ * user's saved chain wins over the built-in order; steps pointing at custom
+ * endpoints that were deleted since are skipped. Providers the user left out
+ * of a saved chain are never fallen back to.
  */
-export type ErrorCategory = 
-  | "configuration"   // Missing API key, URL, or setup issues
-  | "network"         // Network connectivity or DNS issues
-  | "rate_limit"      // API rate limiting or quota exceeded
-  | "authentication"  // Invalid credentials, expired tokens
-  | "model_not_found" // Requested model doesn't exist for provider
-  | "server_error"    // Provider server errors (5xx responses)
-  | "timeout"         // Request timeout or slow response
-  | "unknown";        // Uncategorized or unexpected errors
+export function getFallbackChain(): FallbackChainEntry[] {
+  const savedChain = getFallbackSettings()?.chain;
+  if (!savedChain) {
+    return getProviderFallbackOrder().map((providerId) => ({ providerId, modelId: null }));
+  }
+
+  const customProviderIds = new Set(getCustomEndpoints().map((endpoint) => endpoint.id));
+  return savedChain.filter((entry) => (
+    isCustomProviderId(entry.providerId)
+      ? customProviderIds.has(entry.providerId)
+      : entry.providerId in PROVIDERS
+  ));
+}
+
+const resolveChainModel = (entry: FallbackChainEntry): string => {
+  return entry.modelId ?? getDefaultModelForProvider(entry.providerId);
+};
+
+/** Configured, and not currently written off by the shared circuit breaker */
+const canFallBackTo = (providerId: ProviderId): boolean => {
+  return isProviderAvailable(providerId) && !isProviderCircuitOpen(providerId);
+};
+
+// ============================================================================
+// ERROR CLASSIFICATION SYSTEM
+// ============================================================================
 
 /**
  * Error classification result
@@ -59,14 +111,27 @@ export type ErrorCategory =
  * @property isRetryable - Whether the same request might succeed on retry
  * @property shouldFallback - Whether we should immediately try another provider
  * @property message - User-friendly error message for display
+ * @property rateLimit - What a rate-limited response said about its limit, when it said anything
  */
 export interface ErrorClassification {
   category: ErrorCategory;
   isRetryable: boolean;
   shouldFallback: boolean;
   message: string;
+  rateLimit?: RateLimitInfo;
 }
 
+const isErrorClassification = (value: unknown): value is ErrorClassification => {
+  const candidate = value as Partial<ErrorClassification> | null;
+  return typeof candidate === "object"
+    && candidate !== null
+    && !(candidate instanceof Error)
+    && ERROR_CATEGORIES.includes(candidate.category as ErrorCategory)
+    && typeof candidate.shouldFallback === "boolean"
+    && typeof candidate.isRetryable === "boolean"
+    && typeof candidate.message === "string";
+};
+
 /**
  * Classify an error to determine appropriate handling strategy
  * 
@@ -86,6 +151,11 @@ export interface ErrorClassification {
  * @returns ErrorClassification with handling strategy
  */
 export function classifyError(error: unknown): ErrorClassification {
+  // Retried operations report the classification of their last error; keep its category.
+  if (isErrorClassification(error)) {
+    return error;
+  }
+
   if (!error) {
     return {
       category: "unknown",
@@ -128,11 +198,30 @@ export function classifyError(error: unknown): ErrorClassification {
 
   // Rate limiting (429)
   if (statusCode === 429 || errorMessage.includes("rate limit") || errorMessage.includes("too many requests")) {
+    const rateLimit = parseRateLimitInfo(error);
     return {
       category: "rate_limit",
       isRetryable: true,
       shouldFallback: true,  // Fallback to avoid user waiting
       message: "Rate limit exceeded - please wait or try another provider",
+      ...(rateLimit ? { rateLimit } : {}),
+    };
+  }
+
+  // Context overflow - the same request fails again on retry, and fallback
+  // models are not guaranteed a larger window
+  if (
+    errorMessage.includes("context length") ||
+    errorMessage.includes("context window") ||
+    errorMessage.includes("context_length_exceeded") ||
+    errorMessage.includes("prompt is too long") ||
+    errorMessage.includes("exceeds the maximum number of tokens")
+  ) {
+    return {
+      category: "context_length",
+      isRetryable: false,
+      shouldFallback: false,
+      message: "Conversation is too long for this model's context window",
     };
   }
 
@@ -201,6 +290,34 @@ export function classifyError(error: unknown): ErrorClassification {
   };
 }
 
+/**
+ * The categories classifyError() falls back on by itself, used as the
+ * starting selection when the user edits their triggers.
+ */
+export const DEFAULT_FALLBACK_TRIGGERS: ErrorCategory[] = ERROR_CATEGORIES.filter(
+  (category) => category !== "context_length",
+);
+
+/**
+ * The longest a retry waits out a rate limit before the reply moves on,
+ * as set by the user.
+ */
+export function getRateLimitWaitLimitMs(): number {
+  return getFallbackSettings()?.rateLimitWaitLimitMs ?? DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS;
+}
+
+/**
+ * Whether an error should move the reply to the next step of the chain.
+ * With no saved triggers this is classifyError()'s own recommendation;
+ * saved triggers replace it category by category.
+ */
+export function shouldFallbackOnError(error: unknown): boolean {
+  const classification = classifyError(error);
+  const triggers = getFallbackSettings()?.triggers;
+
+  return triggers ? triggers.includes(classification.category) : classification.shouldFallback;
+}
+
 // ============================================================================
 // FALLBACK RESULT TYPES
 // ============================================================================
@@ -243,9 +360,10 @@ export interface FallbackResult {
  * 
  * The algorithm works as follows:
  * 1. Try the preferred provider with the specified model
- * 2. If that fails, iterate through PROVIDER_FALLBACK_ORDER
- * 3. Skip excluded providers, already-tried providers, and unavailable providers
- * 4. For each fallback provider, use its default model (not the preferred model)
+ * 2. If that fails, iterate through getFallbackChain()
+ * 3. Skip excluded providers, already-tried providers, unavailable providers
+ *    and providers whose circuit is open
+ * 4. For each fallback step, use its pinned model or the provider's default model
  * 5. Return the first successful model or a failure result
  * 
  * @param preferredProvider - The provider the user or system prefers to use
@@ -277,7 +395,8 @@ export function getModelWithFallback(
   }
 
   // Try fallback providers in order
-  for (const fallbackProvider of PROVIDER_FALLBACK_ORDER) {
+  for (const entry of getFallbackChain()) {
+    const fallbackProvider = entry.providerId;
     // Skip if already tried or excluded
     if (
       fallbackProvider === preferredProvider ||
@@ -289,12 +408,12 @@ export function getModelWithFallback(
 
     attemptedProviders.push(fallbackProvider);
 
-    // Check if provider is available before trying
-    if (!isProviderAvailable(fallbackProvider)) {
+    // Check if provider is available and answering before trying
+    if (!canFallBackTo(fallbackProvider)) {
       continue;
     }
 
-    const fallbackModelId = getDefaultModelForProvider(fallbackProvider);
+    const fallbackModelId = resolveChainModel(entry);
     const result = getProviderModel(fallbackProvider, fallbackModelId);
 
     if (result.model && result.isConfigured) {
@@ -329,9 +448,10 @@ export function getModelWithFallback(
  * provider in the fallback chain.
  * 
  * The function considers:
- * - Whether the error type warrants fallback (via classifyError)
+ * - Whether the error type warrants fallback (via shouldFallbackOnError)
  * - Which providers have already failed to avoid repeated failures
- * - Provider availability to skip unavailable options
+ * - Provider availability and open circuits to skip unavailable options
+ * - The model pinned on each step of the user's chain
  * 
  * @param currentProvider - The provider that just experienced an error
  * @param failedProviders - Array of providers that have previously failed in this session
@@ -343,24 +463,37 @@ export function getNextFallbackProvider(
   failedProviders: ProviderId[],
   error: unknown
 ): { provider: ProviderId; model: string } | null {
-  const classification = classifyError(error);
-  
   // If error shouldn't trigger fallback, return null
-  if (!classification.shouldFallback) {
+  if (!shouldFallbackOnError(error)) {
     return null;
   }
 
+  return findNextFallbackStep(currentProvider, failedProviders);
+}
+
+/**
+ * The next usable step of the chain, whatever the error was. Used to offer
+ * a fallback by hand when the user's triggers would not take it on their own.
+ *
+ * @param currentProvider - The provider being moved away from
+ * @param failedProviders - Providers that already failed for this reply
+ * @returns The step's provider and model, or null at the end of the chain
+ */
+export function findNextFallbackStep(
+  currentProvider: ProviderId,
+  failedProviders: ProviderId[] = []
+): { provider: ProviderId; model: string } | null {
   const allFailed = [...failedProviders, currentProvider];
 
-  for (const provider of PROVIDER_FALLBACK_ORDER) {
-    if (allFailed.includes(provider)) {
+  for (const entry of getFallbackChain()) {
+    if (allFailed.includes(entry.providerId)) {
       continue;
     }
 
-    if (isProviderAvailable(provider)) {
+    if (canFallBackTo(entry.providerId)) {
       return {
-        provider,
-        model: getDefaultModelForProvider(provider),
+        provider: entry.providerId,
+        model: resolveChainModel(entry),
       };
     }
   }
@@ -387,8 +520,8 @@ export function hasFallbackAvailable(
 ): boolean {
   const excluded = [...failedProviders, currentProvider];
   
-  return PROVIDER_FALLBACK_ORDER.some(
-    (provider) => !excluded.includes(provider) && isProviderAvailable(provider)
+  return getFallbackChain().some(
+    ({ providerId }) => !excluded.includes(providerId) && canFallBackTo(providerId)
   );
 }
 
@@ -405,7 +538,7 @@ export function hasFallbackAvailable(
  * @returns Array of providers with their configuration status in fallback order
  */
 export function getAvailableProviders(): { provider: ProviderId; isConfigured: boolean }[] {
-  return PROVIDER_FALLBACK_ORDER.map((provider) => ({
+  return getProviderFallbackOrder().map((provider) => ({
     provider,
     isConfigured: isProviderConfigured(provider),
   }));
@@ -470,11 +603,11 @@ export function getAvailableProviders(): { provider: ProviderId; isConfigured: b
  * 
  * 1. Classifies the error to determine if fallback is appropriate
  * 2. Checks if the error is retryable for potential immediate retry
- * 3. Selects the next provider in the priority order that:
+ * 3. Selects the next step of the user's chain (or the built-in order) that:
  *    - Has not been tried already
  *    - Is not explicitly excluded
  *    - Is available and configured
- * 4. Uses the fallback provider's default model (not the preferred model)
+ * 4. Uses the step's pinned model, or the provider's default model
  * 5. Tracks all attempts for debugging and user feedback
  * 
  * === USER EXPERIENCE CONSIDERATIONS ===
@@ -0,0 +1,86 @@
+import { createGoogleGenerativeAI, type GoogleGenerativeAIProvider } from "@ai-sdk/google";
+import { LanguageModel } from "ai";
+import { inspectedFetch } from "@/lib/network-inspector";
+
+import { normalizeUniqueModelNames } from "@/lib/model-utils";
+import { getProviderAuth } from "@/stores";
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+const GEMINI_MODEL_PREFIX = "models/";
+
+interface GeminiModelEntry {
+  name?: unknown;
+  supportedGenerationMethods?: unknown;
+}
+
+export function getGeminiModel(
+  modelId: string = "gemini-2.5-flash",
+): LanguageModel | null {
+  const { apiKey } = getProviderAuth("gemini");
+  if (!apiKey) {
+    return null;
+  }
+
+  return createGeminiProvider(apiKey)(modelId);
+}
+
+export function createGeminiProvider(apiKey: string): GoogleGenerativeAIProvider {
+  return createGoogleGenerativeAI({
+    apiKey,
+    baseURL: GEMINI_BASE_URL,
+    fetch: inspectedFetch,
+  });
+}
+
+export function isGeminiConfigured(): boolean {
+  const { apiKey } = getProviderAuth("gemini");
+  return !!apiKey;
+}
+
+const requestGeminiModels = (apiKey: string) => {
+  return inspectedFetch(`${GEMINI_BASE_URL}/models?pageSize=1000`, {
+    method: "GET",
+    headers: {
+      "x-goog-api-key": apiKey,
+      "Content-Type": "application/json",
+    },
+  });
+};
+
+export async function testGeminiConnection(apiKey: string): Promise<boolean> {
+  try {
+    const response = await requestGeminiModels(apiKey);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists the chat-capable models available to the key. Embedding and other
+ * non-generative models are dropped, and the "models/" resource prefix is
+ * removed so ids match what the SDK expects.
+ */
+export async function fetchGeminiModels(apiKey: string): Promise<string[]> {
+  try {
+    const response = await requestGeminiModels(apiKey);
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json() as { models?: unknown };
+    const entries = Array.isArray(data?.models) ? (data.models as GeminiModelEntry[]) : [];
+
+    return normalizeUniqueModelNames(
+      entries
+        .filter((entry) => (
+          Array.isArray(entry.supportedGenerationMethods)
+          && entry.supportedGenerationMethods.includes("generateContent")
+        ))
+        .map((entry) => (typeof entry.name === "string" ? entry.name : ""))
+        .map((name) => (name.startsWith(GEMINI_MODEL_PREFIX) ? name.slice(GEMINI_MODEL_PREFIX.length) : name)),
+    );
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * @file mock-provider.ts
+ * @purpose Deterministic LanguageModel that plays back scripted fixtures, so
+ * the streaming pipeline can be exercised in dev builds and in tests without
+ * a network or an API key.
+ *
+ * A fixture scripts one reply as a list of turns. Each model call plays the
+ * turn matching the number of assistant messages since the latest user
+ * message, so a tool-call turn followed by a text turn covers a full tool
+ * round trip; the last turn repeats if the script runs out. An error step
+ * before any output fails the call the way an HTTP error would, and after
+ * output it ends the stream mid-reply.
+ */
+
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from "@ai-sdk/provider";
+import { APICallError, type LanguageModel } from "ai";
+
+import { MOCK_MODELS } from "@/types/provider.types";
+
+export type MockStep =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  /** Streams the latest user message back, word by word */
+  | { type: "echo"; delayMs?: number }
+  | { type: "tool-call"; toolName: string; input: Record<string, unknown>; toolCallId?: string }
+  | { type: "delay"; ms: number }
+  | {
+    type: "error";
+    message: string;
+    statusCode?: number;
+    responseHeaders?: Record<string, string>;
+    responseBody?: string;
+  }
+  /** Replaces the estimated token counts reported when the turn finishes */
+  | { type: "usage"; inputTokens: number; outputTokens: number; reasoningTokens?: number; cachedInputTokens?: number };
+
+export interface MockFixture {
+  turns: MockStep[][];
+}
+
+const MOCK_URL = "mock://seabreeze";
+
+const words = (text: string, delayMs: number): MockStep[] => (
+  (text.match(/\S+\s*/g) ?? []).flatMap((word): MockStep[] => [{ type: "delay", ms: delayMs }, { type: "text", text: word }])
+);
+
+/** Scenarios offered as models of the mock provider, keyed by model id */
+export const MOCK_SCENARIOS: Record<string, MockFixture> = {
+  "mock-text": {
+    turns: [words("This is a scripted reply from the mock provider. It streams one word at a time so you can watch rendering, scrolling and persistence without spending tokens.", 40)],
+  },
+  "mock-echo": {
+    turns: [[{ type: "echo", delayMs: 40 }]],
+  },
+  "mock-reasoning": {
+    turns: [[
+      { type: "reasoning", text: "The user wants a short answer. " },
+      { type: "delay", ms: 300 },
+      { type: "reasoning", text: "I will keep it to one sentence." },
+      { type: "delay", ms: 300 },
+      ...words("Here is the answer, after some visible thinking.", 40),
+    ]],
+  },
+  "mock-tool-call": {
+    turns: [
+      [{ type: "tool-call", toolName: "searchWeb", input: { query: "seabreeze mock provider" } }],
+      words("The search came back, and this reply was written after reading it.", 40),
+    ],
+  },
+  "mock-stall": {
+    turns: [[
+      ...words("This reply starts normally and then stops sending", 40),
+      { type: "delay", ms: 5 * 60_000 },
+    ]],
+  },
+  "mock-mid-stream-error": {
+    turns: [[
+      ...words("This reply breaks off", 40),
+      { type: "error", message: "Upstream connection reset", statusCode: 502 },
+    ]],
+  },
+  "mock-rate-limited": {
+    turns: [[
+      { type: "delay", ms: 200 },
+      {
+        type: "error",
+        message: "Rate limit reached for requests",
+        statusCode: 429,
+        responseHeaders: { "retry-after": "5", "x-ratelimit-remaining-requests": "0" },
+      },
+    ]],
+  },
+};
+
+/** The mock provider is a development tool and stays out of release builds */
+export function isMockProviderEnabled(): boolean {
+  return __DEV__;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error("The operation was aborted.");
+  error.name = "AbortError";
+  return error;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+const getTurnIndex = (prompt: LanguageModelV3Prompt): number => {
+  let index = 0;
+  for (let position = prompt.length - 1; position >= 0 && prompt[position].role !== "user"; position -= 1) {
+    if (prompt[position].role === "assistant") {
+      index += 1;
+    }
+  }
+  return index;
+};
+
+const getLastUserText = (prompt: LanguageModelV3Prompt): string => {
+  const message = [...prompt].reverse().find((entry) => entry.role === "user");
+  if (!message || message.role !== "user") {
+    return "";
+  }
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim();
+};
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const getPromptText = (prompt: LanguageModelV3Prompt): string => (
+  prompt.map((message) => (
+    typeof message.content === "string"
+      ? message.content
+      : message.content.map((part) => ("text" in part && typeof part.text === "string" ? part.text : "")).join("")
+  )).join("\n")
+);
+
+const toUsage = (
+  usage: Extract<MockStep, { type: "usage" }> | null,
+  prompt: LanguageModelV3Prompt,
+  outputText: string,
+  reasoningText: string,
+): LanguageModelV3Usage => {
+  const inputTokens = usage?.inputTokens ?? estimateTokens(getPromptText(prompt));
+  const cachedInputTokens = usage?.cachedInputTokens ?? 0;
+  const reasoningTokens = usage?.reasoningTokens ?? estimateTokens(reasoningText);
+  const outputTokens = usage?.outputTokens ?? estimateTokens(outputText) + reasoningTokens;
+
+  return {
+    inputTokens: {
+      total: inputTokens,
+      noCache: inputTokens - cachedInputTokens,
+      cacheRead: cachedInputTokens,
+      cacheWrite: undefined,
+    },
+    outputTokens: {
+      total: outputTokens,
+      text: outputTokens - reasoningTokens,
+      reasoning: reasoningTokens,
+    },
+  };
+};
+
+const toApiCallError = (step: Extract<MockStep, { type: "error" }>, requestBodyValues: unknown): APICallError => (
+  new APICallError({
+    message: step.message,
+    url: MOCK_URL,
+    requestBodyValues,
+    statusCode: step.statusCode,
+    responseHeaders: step.responseHeaders,
+    responseBody: step.responseBody,
+  })
+);
+
+/** Echo steps become the words of the latest user message */
+const expandSteps = (steps: MockStep[], prompt: LanguageModelV3Prompt): MockStep[] => (
+  steps.flatMap((step) => (
+    step.type === "echo" ? words(getLastUserText(prompt) || "(empty message)", step.delayMs ?? 0) : [step]
+  ))
+);
+
+/**
+ * Creates a LanguageModel that plays the given fixture. Tool calls are only
+ * emitted for tools the call actually offered; others become a note in the
+ * text so a scenario never trips the SDK's unknown-tool check.
+ */
+export function createMockModel(fixture: MockFixture, modelId: string = "mock"): LanguageModel {
+  const getSteps = (options: LanguageModelV3CallOptions): MockStep[] => {
+    const turns = fixture.turns.length > 0 ? fixture.turns : [[]];
+    const turn = turns[Math.min(getTurnIndex(options.prompt), turns.length - 1)];
+    const offeredTools = new Set((options.tools ?? []).map((tool) => tool.name));
+
+    return expandSteps(turn, options.prompt).map((step): MockStep => (
+      step.type === "tool-call" && !offeredTools.has(step.toolName)
+        ? { type: "text", text: `(mock: the ${step.toolName} tool is not enabled for this chat)` }
+        : step
+    ));
+  };
+
+  const model: LanguageModelV3 = {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const content: LanguageModelV3Content[] = [];
+      let usage: Extract<MockStep, { type: "usage" }> | null = null;
+      let outputText = "";
+      let reasoningText = "";
+      let toolCallCount = 0;
+
+      for (const step of getSteps(options)) {
+        switch (step.type) {
+          case "delay":
+            await wait(step.ms, options.abortSignal);
+            break;
+          case "error":
+            throw toApiCallError(step, { prompt: options.prompt });
+          case "usage":
+            usage = step;
+            break;
+          case "text":
+            outputText += step.text;
+            content.push({ type: "text", text: step.text });
+            break;
+          case "reasoning":
+            reasoningText += step.text;
+            content.push({ type: "reasoning", text: step.text });
+            break;
+          case "tool-call":
+            toolCallCount += 1;
+            content.push({
+              type: "tool-call",
+              toolCallId: step.toolCallId ?? `mock-call-${toolCallCount}`,
+              toolName: step.toolName,
+              input: JSON.stringify(step.input),
+            });
+            break;
+        }
+      }
+
+      return {
+        content,
+        finishReason: { unified: toolCallCount > 0 ? "tool-calls" : "stop", raw: undefined },
+        usage: toUsage(usage, options.prompt, outputText, reasoningText),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const steps = getSteps(options);
+      const requestBodyValues = { prompt: options.prompt };
+
+      // Delays ahead of a leading error play out before the call fails, like a slow 4xx/5xx
+      let start = 0;
+      while (steps[start]?.type === "delay") {
+        await wait((steps[start] as Extract<MockStep, { type: "delay" }>).ms, options.abortSignal);
+        start += 1;
+      }
+      const leadingStep = steps[start];
+      if (leadingStep?.type === "error") {
+        throw toApiCallError(leadingStep, requestBodyValues);
+      }
+
+      let cancelled = false;
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        async start(controller) {
+          let openBlock: { type: "text" | "reasoning"; id: string } | null = null;
+          let blockCount = 0;
+          let toolCallCount = 0;
+          let usage: Extract<MockStep, { type: "usage" }> | null = null;
+          let outputText = "";
+          let reasoningText = "";
+
+          const closeBlock = () => {
+            if (openBlock) {
+              controller.enqueue({ type: openBlock.type === "text" ? "text-end" : "reasoning-end", id: openBlock.id });
+              openBlock = null;
+            }
+          };
+
+          const writeDelta = (type: "text" | "reasoning", delta: string) => {
+            if (openBlock?.type !== type) {
+              closeBlock();
+              blockCount += 1;
+              openBlock = { type, id: `${type}-${blockCount}` };
+              controller.enqueue({ type: type === "text" ? "text-start" : "reasoning-start", id: openBlock.id });
+            }
+            controller.enqueue({ type: type === "text" ? "text-delta" : "reasoning-delta", id: openBlock.id, delta });
+          };
+
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "response-metadata", id: `mock-${Date.now()}`, modelId, timestamp: new Date() });
+
+          try {
+            for (const step of steps.slice(start)) {
+              if (cancelled) {
+                return;
+              }
+
+              switch (step.type) {
+                case "delay":
+                  await wait(step.ms, options.abortSignal);
+                  break;
+                case "text":
+                  outputText += step.text;
+                  writeDelta("text", step.text);
+                  break;
+                case "reasoning":
+                  reasoningText += step.text;
+                  writeDelta("reasoning", step.text);
+                  break;
+                case "tool-call": {
+                  closeBlock();
+                  toolCallCount += 1;
+                  const toolCallId = step.toolCallId ?? `mock-call-${toolCallCount}`;
+                  const input = JSON.stringify(step.input);
+                  controller.enqueue({ type: "tool-input-start", id: toolCallId, toolName: step.toolName });
+                  controller.enqueue({ type: "tool-input-delta", id: toolCallId, delta: input });
+                  controller.enqueue({ type: "tool-input-end", id: toolCallId });
+                  controller.enqueue({ type: "tool-call", toolCallId, toolName: step.toolName, input });
+                  break;
+                }
+                case "usage":
+                  usage = step;
+                  break;
+                case "error":
+                  closeBlock();
+                  controller.enqueue({ type: "error", error: toApiCallError(step, requestBodyValues) });
+                  controller.close();
+                  return;
+              }
+            }
+
+            closeBlock();
+            controller.enqueue({
+              type: "finish",
+              finishReason: { unified: toolCallCount > 0 ? "tool-calls" : "stop", raw: undefined },
+              usage: toUsage(usage, options.prompt, outputText, reasoningText),
+            });
+            controller.close();
+          } catch (error) {
+            if (!cancelled) {
+              controller.error(error);
+            }
+          }
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+
+      return { stream, request: { body: requestBodyValues } };
+    },
+  };
+
+  return model;
+}
+
+/**
+ * Model for the mock provider's built-in scenarios; unknown ids play the
+ * first one.
+ */
+export function getMockModel(modelId: string = MOCK_MODELS[0]): LanguageModel {
+  return createMockModel(MOCK_SCENARIOS[modelId] ?? MOCK_SCENARIOS[MOCK_MODELS[0]], modelId);
+}
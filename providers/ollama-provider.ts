@@ -28,9 +28,9 @@
  */
 
 import { createOllama } from "ollama-ai-provider-v2";
-import { LanguageModel } from "ai";
+import { EmbeddingModel, LanguageModel } from "ai";
 import { getProviderAuth } from "@/stores";
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
 import { normalizeUniqueModelNames } from "@/lib/model-utils";
 
 // ============================================================================
@@ -124,7 +124,7 @@ export function getOllamaModel(modelId: string = "llama3.2"): LanguageModel | nu
         
         const provider = createOllama({ 
             baseURL,
-            fetch: expoFetch as unknown as typeof globalThis.fetch,
+            fetch: inspectedFetch,
         });
         const model = provider(modelId);
         return model as unknown as LanguageModel;
@@ -137,6 +137,24 @@ export function getOllamaModel(modelId: string = "llama3.2"): LanguageModel | nu
     }
 }
 
+/**
+ * Creates an Ollama embedding model for indexing the document library
+ * @param modelId - An embedding model pulled on the server, e.g. "nomic-embed-text"
+ * @returns EmbeddingModel instance or null when no server URL is configured
+ */
+export function getOllamaEmbeddingModel(modelId: string): EmbeddingModel | null {
+    const { url } = getProviderAuth("ollama");
+    if (!url) {
+        return null;
+    }
+
+    const provider = createOllama({
+        baseURL: normalizeOllamaUrl(url),
+        fetch: inspectedFetch,
+    });
+    return provider.textEmbeddingModel(modelId);
+}
+
 /**
  * Checks if Ollama is properly configured with a valid URL
  * @returns boolean indicating if Ollama configuration exists
@@ -193,7 +211,7 @@ export async function testOllamaConnection(url: string): Promise<boolean> {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 5000);
         
-        const response = await expoFetch(`${baseURL}/tags`, {
+        const response = await inspectedFetch(`${baseURL}/tags`, {
             method: "GET",
             signal: controller.signal,
         });
@@ -254,7 +272,7 @@ export async function fetchOllamaModels(baseUrl: string): Promise<string[]> {
         const timeoutId = setTimeout(() => controller.abort(), 10000);
 
         try {
-            const response = await expoFetch(apiUrl, {
+            const response = await inspectedFetch(apiUrl, {
                 method: "GET",
                 headers: {
                     "Accept": "application/json",
@@ -1,7 +1,7 @@
 import { createOpenAI, type OpenAIProvider } from "@ai-sdk/openai";
 import { LanguageModel } from "ai";
-import { fetch as expoFetch } from "expo/fetch";
 
+import { describeRequestBody, getRequestUrl, inspectedFetch } from "@/lib/network-inspector";
 import {
   getStoredOpenAICodexCredentials,
   getValidOpenAICodexCredentials,
@@ -52,23 +52,6 @@ const mergeHeaders = (headers: HeadersInit | undefined, codexHeaders: Record<str
   return nextHeaders;
 };
 
-const getUrlForLog = (input: RequestInfo | URL): string => {
-  if (typeof input === "string") return input;
-  if (input instanceof URL) return input.toString();
-  return input.url;
-};
-
-const redactForLog = (body: unknown): string | undefined => {
-  if (typeof body !== "string") return undefined;
-
-  try {
-    const payload = JSON.parse(body) as JsonRecord;
-    return JSON.stringify(payload).slice(0, 2000);
-  } catch {
-    return body.slice(0, 2000);
-  }
-};
-
 const logCodexFailure = async (
   response: Response,
   input: RequestInfo | URL,
@@ -76,8 +59,8 @@ const logCodexFailure = async (
 ): Promise<Response> => {
   if (response.ok) return response;
 
-  const url = getUrlForLog(input);
-  const requestBody = redactForLog(body);
+  const url = getRequestUrl(input);
+  const requestBody = describeRequestBody(body, 2000);
 
   try {
     const text = await response.text();
@@ -188,7 +171,7 @@ const normalizeCodexResponsesBody = (body: unknown): unknown => {
 const codexFetch: typeof globalThis.fetch = async (input, init) => {
   let codexHeaders = await buildCodexHeaders();
   const body = normalizeCodexResponsesBody(init?.body);
-  let response = await expoFetch(input as any, {
+  let response = await inspectedFetch(input as any, {
     ...(init as any),
     body,
     headers: mergeHeaders(init?.headers, codexHeaders),
@@ -199,7 +182,7 @@ const codexFetch: typeof globalThis.fetch = async (input, init) => {
     if (credentials) {
       await refreshOpenAICodexCredentials(credentials);
       codexHeaders = await buildCodexHeaders();
-      response = await expoFetch(input as any, {
+      response = await inspectedFetch(input as any, {
         ...(init as any),
         body,
         headers: mergeHeaders(init?.headers, codexHeaders),
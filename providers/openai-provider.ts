@@ -1,7 +1,11 @@
 import { createOpenAI, type OpenAIProvider } from "@ai-sdk/openai";
 import { LanguageModel } from "ai";
 import { getProviderAuth } from "@/stores";
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
+import { normalizeUniqueModelNames } from "@/lib/model-utils";
+
+/** Families in /v1/models that cannot back a chat completion */
+const NON_CHAT_MODEL_PATTERN = /(audio|realtime|tts|transcribe|image|embedding|search|moderation|instruct)/;
 
 export function getOpenAIModel(
   modelId: string = "gpt-5",
@@ -12,7 +16,7 @@ export function getOpenAIModel(
   }
   const provider = createOpenAI({ 
     apiKey,
-    fetch: expoFetch as unknown as typeof globalThis.fetch,
+    fetch: inspectedFetch,
   });
   return provider(modelId);
 }
@@ -20,7 +24,7 @@ export function getOpenAIModel(
 export function createOpenAIProvider(apiKey: string): OpenAIProvider {
   return createOpenAI({ 
     apiKey,
-    fetch: expoFetch as unknown as typeof globalThis.fetch,
+    fetch: inspectedFetch,
   });
 }
 
@@ -31,7 +35,7 @@ export function isOpenAIConfigured(): boolean {
 
 export async function testOpenAIConnection(apiKey: string): Promise<boolean> {
   try {
-    const response = await expoFetch("https://api.openai.com/v1/models", {
+    const response = await inspectedFetch("https://api.openai.com/v1/models", {
       method: "GET",
       headers: {
         "Authorization": `Bearer ${apiKey}`,
@@ -48,3 +52,41 @@ export async function testOpenAIConnection(apiKey: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Lists chat-capable models available to the API key, newest first.
+ * Returns an empty list when the request fails.
+ */
+export async function fetchOpenAIModels(apiKey: string): Promise<string[]> {
+  try {
+    const response = await inspectedFetch("https://api.openai.com/v1/models", {
+      method: "GET",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const body = await response.json() as { data?: unknown };
+    const entries = Array.isArray(body?.data)
+      ? (body.data as { id?: unknown; created?: unknown }[])
+      : [];
+
+    return normalizeUniqueModelNames(
+      entries
+        .filter((entry): entry is { id: string; created?: unknown } => (
+          typeof entry?.id === "string"
+          && /^(gpt-|chatgpt-|o\d)/.test(entry.id)
+          && !NON_CHAT_MODEL_PATTERN.test(entry.id)
+        ))
+        .sort((a, b) => (Number(b.created) || 0) - (Number(a.created) || 0))
+        .map((entry) => entry.id),
+    );
+  } catch {
+    return [];
+  }
+}
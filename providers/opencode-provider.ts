@@ -1,7 +1,8 @@
 import { createOpenAI, type OpenAIProvider } from "@ai-sdk/openai";
 import { LanguageModel } from "ai";
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
 
+import { normalizeUniqueModelNames } from "@/lib/model-utils";
 import { getProviderAuth } from "@/stores";
 
 const OPENCODE_BASE_URL = "https://opencode.ai/zen/go/v1";
@@ -20,7 +21,7 @@ export function createOpencodeProvider(apiKey: string): OpenAIProvider {
     name: "opencode",
     apiKey,
     baseURL: OPENCODE_BASE_URL,
-    fetch: expoFetch as unknown as typeof globalThis.fetch,
+    fetch: inspectedFetch,
   });
 }
 
@@ -29,18 +30,43 @@ export function isOpencodeConfigured(): boolean {
   return !!apiKey;
 }
 
+const requestOpencodeModels = (apiKey: string) => {
+  return inspectedFetch(`${OPENCODE_BASE_URL}/models`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+  });
+};
+
 export async function testOpencodeConnection(apiKey: string): Promise<boolean> {
   try {
-    const response = await expoFetch(`${OPENCODE_BASE_URL}/models`, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-    });
+    const response = await requestOpencodeModels(apiKey);
 
     return response.ok;
   } catch {
     return false;
   }
 }
+
+/** Reads the models currently offered by OpenCode Go, or [] when the request fails. */
+export async function fetchOpencodeModels(apiKey: string): Promise<string[]> {
+  try {
+    const response = await requestOpencodeModels(apiKey);
+    if (!response.ok) {
+      return [];
+    }
+
+    const body = await response.json() as { data?: unknown };
+    const entries = Array.isArray(body?.data) ? body.data : [];
+
+    return normalizeUniqueModelNames(
+      entries.map((entry: unknown) => (
+        entry && typeof entry === "object" ? (entry as { id?: unknown }).id : undefined
+      )),
+    );
+  } catch {
+    return [];
+  }
+}
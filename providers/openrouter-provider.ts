@@ -1,7 +1,10 @@
 import { createOpenRouter, type OpenRouterProvider } from "@openrouter/ai-sdk-provider";
 import { LanguageModel } from "ai";
 import { getProviderAuth } from "@/stores";
-import { fetch as expoFetch } from "expo/fetch";
+import { inspectedFetch } from "@/lib/network-inspector";
+import { pricePerMillionFromPerToken } from "@/lib/model-pricing";
+import { normalizeUniqueModelNames } from "@/lib/model-utils";
+import type { ModelCapabilityPatch, ModelPricing } from "@/types/provider.types";
 
 /**
  * @file openrouter-provider.ts
@@ -56,7 +59,7 @@ export function getOpenRouterModel(modelId: string = "openai/gpt-4o"): LanguageM
         }
         const provider = createOpenRouter({ 
             apiKey,
-            fetch: expoFetch as unknown as typeof globalThis.fetch,
+            fetch: inspectedFetch,
         });
         return provider(modelId) as unknown as LanguageModel;
     } catch (error) {
@@ -83,7 +86,7 @@ export function getOpenRouterModel(modelId: string = "openai/gpt-4o"): LanguageM
 export function createOpenRouterProvider(apiKey: string): OpenRouterProvider {
     return createOpenRouter({ 
         apiKey,
-        fetch: expoFetch as unknown as typeof globalThis.fetch,
+        fetch: inspectedFetch,
     });
 }
 
@@ -143,7 +146,7 @@ export function isOpenRouterConfigured(): boolean {
  */
 export async function testOpenRouterConnection(apiKey: string): Promise<boolean> {
     try {
-        const response = await expoFetch("https://openrouter.ai/api/v1/models", {
+        const response = await inspectedFetch("https://openrouter.ai/api/v1/models", {
             method: "GET",
             headers: {
                 "Authorization": `Bearer ${apiKey}`,
@@ -156,3 +159,136 @@ export async function testOpenRouterConnection(apiKey: string): Promise<boolean>
         return false;
     }
 }
+
+// ============================================================================
+// Model Catalog Functions
+// ============================================================================
+
+interface OpenRouterCatalogEntry {
+    id?: unknown;
+    context_length?: unknown;
+    architecture?: { input_modalities?: unknown };
+    supported_parameters?: unknown;
+    pricing?: { prompt?: unknown; completion?: unknown; input_cache_read?: unknown };
+}
+
+export interface OpenRouterModelCatalog {
+    models: string[];
+    /** Capabilities reported for each model, keyed by model id */
+    capabilities: Record<string, ModelCapabilityPatch>;
+    /** Prices per million tokens, for models with a fixed price */
+    pricing: Record<string, ModelPricing>;
+}
+
+const EMPTY_OPENROUTER_CATALOG: OpenRouterModelCatalog = { models: [], capabilities: {}, pricing: {} };
+
+const readStringList = (value: unknown): string[] | null => {
+    return Array.isArray(value)
+        ? value.filter((entry): entry is string => typeof entry === "string")
+        : null;
+};
+
+/**
+ * Maps one catalog entry to the capabilities it declares. Fields missing from
+ * the entry are left out so built-in data still applies to them.
+ */
+const parseOpenRouterCapabilities = (entry: OpenRouterCatalogEntry): ModelCapabilityPatch => {
+    const capabilities: ModelCapabilityPatch = {};
+    const inputModalities = readStringList(entry.architecture?.input_modalities);
+    const supportedParameters = readStringList(entry.supported_parameters);
+
+    if (inputModalities) {
+        capabilities.vision = inputModalities.includes("image");
+        // Video is only listed for some of the models that accept it, so a missing entry proves nothing.
+        if (inputModalities.includes("video")) {
+            capabilities.video = true;
+        }
+    }
+    if (supportedParameters) {
+        capabilities.tools = supportedParameters.includes("tools");
+        capabilities.reasoning = supportedParameters.includes("reasoning");
+    }
+    if (typeof entry.context_length === "number" && entry.context_length > 0) {
+        capabilities.contextTokens = entry.context_length;
+    }
+
+    return capabilities;
+};
+
+/**
+ * Reads a catalog entry's per-token prices. Routers such as openrouter/auto
+ * publish negative prices because the cost depends on the model they pick;
+ * those entries get no price.
+ */
+const parseOpenRouterPricing = (entry: OpenRouterCatalogEntry): ModelPricing | null => {
+    const input = pricePerMillionFromPerToken(entry.pricing?.prompt);
+    const output = pricePerMillionFromPerToken(entry.pricing?.completion);
+    if (input === undefined || output === undefined) {
+        return null;
+    }
+
+    const cachedInput = pricePerMillionFromPerToken(entry.pricing?.input_cache_read);
+    return cachedInput === undefined ? { input, output } : { input, output, cachedInput };
+};
+
+/**
+ * Fetches the public OpenRouter model catalog together with the
+ * capabilities and prices OpenRouter reports for each model.
+ *
+ * The list is returned in OpenRouter's own order, which puts recently added
+ * models first. Any failure yields an empty catalog so callers can keep the
+ * models they already have.
+ *
+ * @param apiKey - The OpenRouter API key used for the request
+ * @returns Unique model ids such as "openai/gpt-5", their capabilities and prices
+ */
+export async function fetchOpenRouterModelCatalog(apiKey: string): Promise<OpenRouterModelCatalog> {
+    try {
+        const response = await inspectedFetch("https://openrouter.ai/api/v1/models", {
+            method: "GET",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json",
+            },
+        });
+
+        if (!response.ok) {
+            return EMPTY_OPENROUTER_CATALOG;
+        }
+
+        const body = await response.json() as { data?: unknown };
+        const entries = (Array.isArray(body?.data) ? body.data : [])
+            .filter((entry: unknown): entry is OpenRouterCatalogEntry => (
+                Boolean(entry) && typeof entry === "object"
+            ));
+
+        const models = normalizeUniqueModelNames(entries.map((entry: OpenRouterCatalogEntry) => entry.id));
+        const capabilities: Record<string, ModelCapabilityPatch> = {};
+        const pricing: Record<string, ModelPricing> = {};
+        for (const entry of entries) {
+            const modelId = typeof entry.id === "string" ? entry.id.trim() : "";
+            if (modelId && !capabilities[modelId]) {
+                capabilities[modelId] = parseOpenRouterCapabilities(entry);
+                const price = parseOpenRouterPricing(entry);
+                if (price) {
+                    pricing[modelId] = price;
+                }
+            }
+        }
+
+        return { models, capabilities, pricing };
+    } catch (error) {
+        return EMPTY_OPENROUTER_CATALOG;
+    }
+}
+
+/**
+ * Fetches the model ids from the OpenRouter catalog.
+ *
+ * @param apiKey - The OpenRouter API key used for the request
+ * @returns Unique model ids such as "openai/gpt-5" or "anthropic/claude-sonnet-4.5"
+ */
+export async function fetchOpenRouterModels(apiKey: string): Promise<string[]> {
+    const { models } = await fetchOpenRouterModelCatalog(apiKey);
+    return models;
+}
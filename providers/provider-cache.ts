@@ -1,5 +1,5 @@
 import { LanguageModel } from "ai";
-import { ProviderId } from "@/types/provider.types";
+import { CUSTOM_PROVIDER_PREFIX, ProviderId } from "@/types/provider.types";
 import { createIdempotencyKey, createIdempotencyRegistry } from "@/lib/concurrency";
 
 /**
@@ -105,10 +105,12 @@ function createCacheKey(providerId: ProviderId, modelId: string): CacheKey {
  */
 function parseCacheKey(key: CacheKey): { providerId: ProviderId; modelId: string } | null {
   const parts = key.split(":");
-  if (parts.length < 2) return null;
+  // Custom endpoint ids carry their own colon ("custom:lm-studio")
+  const providerPartCount = key.startsWith(CUSTOM_PROVIDER_PREFIX) ? 2 : 1;
+  if (parts.length <= providerPartCount) return null;
   return {
-    providerId: parts[0] as ProviderId,
-    modelId: parts.slice(1).join(":"), // Handle model IDs with colons
+    providerId: parts.slice(0, providerPartCount).join(":") as ProviderId,
+    modelId: parts.slice(providerPartCount).join(":"), // Handle model IDs with colons
   };
 }
 
@@ -326,9 +328,12 @@ class ProviderCache {
       apple: 0,
       openai: 0,
       "openai-codex": 0,
+      anthropic: 0,
+      gemini: 0,
       openrouter: 0,
       opencode: 0,
       ollama: 0,
+      mock: 0,
     };
 
     let oldestEntry: number | null = null;
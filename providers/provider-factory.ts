@@ -3,7 +3,8 @@
 // =============================================================================
 // This file serves as the central hub for managing all AI providers in the
 // Seabreeze application. It abstracts away the complexity of different AI
-// providers (Apple Intelligence, OpenAI, OpenRouter, Ollama) and provides a
+// providers (Apple Intelligence, OpenAI, Anthropic, Gemini, OpenRouter, Ollama and
+// user-defined OpenAI-compatible endpoints) and provides a
 // unified interface for the rest of the application.
 //
 // Key responsibilities:
@@ -15,15 +16,31 @@
 // =============================================================================
 
 import { LanguageModel, generateText } from "ai";
-import { ProviderId, PROVIDERS, PROVIDER_CAPABILITIES } from "@/types/provider.types";
+import {
+    BuiltInProviderId,
+    isCustomProviderId,
+    ProviderId,
+    resolveProviderCapability,
+    resolveProviderInfo,
+} from "@/types/provider.types";
 import { createAppleModel } from "./apple-provider";
 import { getOpenAIModel } from "./openai-provider";
 import { getOpenAICodexModel } from "./openai-codex-provider";
+import { getAnthropicModel } from "./anthropic-provider";
+import { getGeminiModel } from "./gemini-provider";
 import { getOpenRouterModel } from "./openrouter-provider";
 import { getOpencodeModel } from "./opencode-provider";
 import { getOllamaModel } from "./ollama-provider";
-import { isProviderConfigured, getDefaultModelForProvider } from "@/stores";
+import { getCustomEndpointModel } from "./custom-endpoint-provider";
+import { getMockModel, isMockProviderEnabled } from "./mock-provider";
+import { isProviderConfigured, getCustomEndpoints, getDefaultModelForProvider } from "@/stores";
 import { getCachedModel, invalidateProviderCache } from "./provider-cache";
+import {
+    isProviderCircuitOpen,
+    recordProviderFailure,
+    recordProviderSuccess,
+    resetProviderHealth,
+} from "./provider-health";
 
 export { getDefaultModelForProvider };
 
@@ -76,6 +93,16 @@ export function getProviderModel(providerId: ProviderId, modelId?: string): Prov
     // Determine which model to use - either specified or provider's default
     const model = modelId || getDefaultModelForProvider(providerId);
 
+    // Every custom endpoint shares one implementation keyed by its instance id
+    if (isCustomProviderId(providerId)) {
+        const customModel = getCachedModel(providerId, model, () => getCustomEndpointModel(providerId, model));
+        return {
+            model: customModel,
+            isConfigured: isProviderConfigured(providerId),
+            error: customModel ? undefined : "Custom endpoint not configured or has no model selected",
+        };
+    }
+
     // Provider-specific model creation logic
     // Each provider has unique requirements for initialization and configuration
     switch (providerId) {
@@ -102,6 +129,20 @@ export function getProviderModel(providerId: ProviderId, modelId?: string): Prov
                 isConfigured: isProviderConfigured("openai-codex"),
                 error: openaiCodexModel ? undefined : "OpenAI Codex OAuth not configured",
             };
+        case "anthropic":
+            const anthropicModel = getCachedModel(providerId, model, () => getAnthropicModel(model));
+            return {
+                model: anthropicModel,
+                isConfigured: isProviderConfigured("anthropic"),
+                error: anthropicModel ? undefined : "Anthropic API key not configured",
+            };
+        case "gemini":
+            const geminiModel = getCachedModel(providerId, model, () => getGeminiModel(model));
+            return {
+                model: geminiModel,
+                isConfigured: isProviderConfigured("gemini"),
+                error: geminiModel ? undefined : "Gemini API key not configured",
+            };
         case "openrouter":
             // OpenRouter acts as an aggregator for multiple model providers
             // Requires API key and provides access to various models through one interface
@@ -127,6 +168,11 @@ export function getProviderModel(providerId: ProviderId, modelId?: string): Prov
                 isConfigured: isProviderConfigured("ollama"),
                 error: ollamaModel ? undefined : "Ollama URL not configured",
             };
+        case "mock":
+            // Scripted scenarios; nothing to cache since creating one is free
+            return isMockProviderEnabled()
+                ? { model: getMockModel(model), isConfigured: true }
+                : { model: null, isConfigured: false, error: "The mock provider is only available in development builds" };
         default:
             // Fallback for unknown provider identifiers
             return {
@@ -147,7 +193,7 @@ export function getProviderModel(providerId: ProviderId, modelId?: string): Prov
  */
 export function isProviderAvailable(providerId: ProviderId): boolean {
     // Check if provider exists in our configuration
-    const info = PROVIDERS[providerId];
+    const info = resolveProviderInfo(providerId, getCustomEndpoints());
     if (!info) return false;
 
     // Apple Intelligence is always available on Apple devices
@@ -166,17 +212,17 @@ export function isProviderAvailable(providerId: ProviderId): boolean {
  * @returns Provider info object from the PROVIDERS constant
  */
 export function getProviderInfo(providerId: ProviderId) {
-    return PROVIDERS[providerId];
+    return resolveProviderInfo(providerId, getCustomEndpoints());
 }
 
 /**
  * Retrieves capabilities information for a provider (supported features, models, etc.).
  * 
  * @param providerId - The provider identifier
- * @returns Provider capabilities object from PROVIDER_CAPABILITIES constant
+ * @returns Provider capabilities object from PROVIDER_CAPABILITIES, or the shared custom endpoint defaults
  */
 export function getProviderCapabilities(providerId: ProviderId) {
-    return PROVIDER_CAPABILITIES[providerId];
+    return resolveProviderCapability(providerId);
 }
 
 /**
@@ -199,6 +245,12 @@ export function getConfiguredProviders(): ProviderId[] {
     if (isProviderAvailable("openai-codex")) {
         configured.push("openai-codex");
     }
+    if (isProviderAvailable("anthropic")) {
+        configured.push("anthropic");
+    }
+    if (isProviderAvailable("gemini")) {
+        configured.push("gemini");
+    }
     if (isProviderAvailable("openrouter")) {
         configured.push("openrouter");
     }
@@ -208,6 +260,11 @@ export function getConfiguredProviders(): ProviderId[] {
     if (isProviderAvailable("ollama")) {
         configured.push("ollama");
     }
+    for (const endpoint of getCustomEndpoints()) {
+        if (isProviderAvailable(endpoint.id)) {
+            configured.push(endpoint.id);
+        }
+    }
 
     return configured;
 }
@@ -217,10 +274,11 @@ export function getConfiguredProviders(): ProviderId[] {
  * This is useful for UI purposes where we want to show all options, even
  * unconfigured ones.
  * 
- * @returns Array of all supported ProviderId strings
+ * @returns Array of all supported ProviderId strings, custom endpoints last
  */
 export function getAllProviders(): ProviderId[] {
-    return ["apple", "openai", "openai-codex", "openrouter", "opencode", "ollama"];
+    const builtIn: BuiltInProviderId[] = ["apple", "openai", "openai-codex", "anthropic", "gemini", "openrouter", "opencode", "ollama"];
+    return [...builtIn, ...getCustomEndpoints().map((endpoint) => endpoint.id)];
 }
 
 // =============================================================================
@@ -238,6 +296,18 @@ export function getAllProviders(): ProviderId[] {
  * @returns Boolean indicating if model creation succeeded
  */
 export async function testProviderConnection(providerId: ProviderId, credentials: { apiKey?: string; url?: string }): Promise<boolean> {
+    if (isCustomProviderId(providerId)) {
+        const stored = getCustomEndpoints().find((endpoint) => endpoint.id === providerId);
+        const baseUrl = credentials.url ?? stored?.baseUrl;
+        if (!baseUrl) return false;
+        const { testCustomEndpointConnection } = await import("./custom-endpoint-provider");
+        return testCustomEndpointConnection({
+            baseUrl,
+            apiKey: credentials.apiKey ?? stored?.apiKey ?? null,
+            headers: stored?.headers ?? {},
+        });
+    }
+
     switch (providerId) {
         case "apple":
             return true;
@@ -248,6 +318,14 @@ export async function testProviderConnection(providerId: ProviderId, credentials
         case "openai-codex":
             const { testOpenAICodexConnection } = await import("./openai-codex-provider");
             return testOpenAICodexConnection();
+        case "anthropic":
+            if (!credentials.apiKey) return false;
+            const { testAnthropicConnection } = await import("./anthropic-provider");
+            return testAnthropicConnection(credentials.apiKey);
+        case "gemini":
+            if (!credentials.apiKey) return false;
+            const { testGeminiConnection } = await import("./gemini-provider");
+            return testGeminiConnection(credentials.apiKey);
         case "openrouter":
             if (!credentials.apiKey) return false;
             const { testOpenRouterConnection } = await import("./openrouter-provider");
@@ -260,6 +338,8 @@ export async function testProviderConnection(providerId: ProviderId, credentials
             if (!credentials.url) return false;
             const { testOllamaConnection } = await import("./ollama-provider");
             return testOllamaConnection(credentials.url);
+        case "mock":
+            return isMockProviderEnabled();
         default:
             return false;
     }
@@ -309,6 +389,24 @@ export async function testProviderConnectionReal(
             case "openai-codex":
                 model = getOpenAICodexModel("gpt-5.5");
                 break;
+            case "anthropic":
+                // Test with Haiku - the quickest and cheapest Claude model
+                if (credentials?.apiKey) {
+                    const { createAnthropicProvider } = await import("./anthropic-provider");
+                    model = createAnthropicProvider(credentials.apiKey)("claude-haiku-4-5");
+                } else {
+                    model = getAnthropicModel("claude-haiku-4-5");
+                }
+                break;
+            case "gemini":
+                // Flash-Lite answers quickly and is on the free tier
+                if (credentials?.apiKey) {
+                    const { createGeminiProvider } = await import("./gemini-provider");
+                    model = createGeminiProvider(credentials.apiKey)("gemini-2.5-flash-lite");
+                } else {
+                    model = getGeminiModel("gemini-2.5-flash-lite");
+                }
+                break;
             case "openrouter":
                 // Test with OpenRouter's version of gpt-4o-mini
                 if (credentials?.apiKey) {
@@ -337,7 +435,23 @@ export async function testProviderConnectionReal(
                     model = getOllamaModel("llama3.2");
                 }
                 break;
+            case "mock":
+                model = isMockProviderEnabled() ? getMockModel("mock-text") : null;
+                break;
             default:
+                // Custom endpoints have no well-known model, so test whichever one is listed first
+                if (isCustomProviderId(providerId)) {
+                    const testModelId = getDefaultModelForProvider(providerId);
+                    if (!testModelId) {
+                        return {
+                            success: false,
+                            error: "No models loaded for this endpoint",
+                            errorCategory: "model",
+                        };
+                    }
+                    model = getCustomEndpointModel(providerId, testModelId);
+                    break;
+                }
                 return {
                     success: false,
                     error: `Unknown provider: ${providerId}`,
@@ -455,13 +569,22 @@ export async function testAllProviders(): Promise<Record<ProviderId, ConnectionT
         apple: { success: false, error: "Not tested" },
         openai: { success: false, error: "Not tested" },
         "openai-codex": { success: false, error: "Not tested" },
+        anthropic: { success: false, error: "Not tested" },
+        gemini: { success: false, error: "Not tested" },
         openrouter: { success: false, error: "Not tested" },
         opencode: { success: false, error: "Not tested" },
         ollama: { success: false, error: "Not tested" },
+        mock: { success: false, error: "Not tested" },
     };
+    for (const endpoint of getCustomEndpoints()) {
+        results[endpoint.id] = { success: false, error: "Not tested" };
+    }
 
-    // Get only the providers that are actually configured
-    const configuredProviders = getConfiguredProviders();
+    // Get only the providers that are actually configured; the mock provider
+    // stays out of that list (and so out of fallback) but is tested in dev builds
+    const configuredProviders: ProviderId[] = isMockProviderEnabled()
+        ? [...getConfiguredProviders(), "mock"]
+        : getConfiguredProviders();
 
     // Test all configured providers in parallel for efficiency
     const testPromises = configuredProviders.map(async (providerId) => {
@@ -481,17 +604,21 @@ export async function testAllProviders(): Promise<Record<ProviderId, ConnectionT
 /**
  * Clears cached model instances for a specific provider.
  * This should be called whenever provider credentials are updated to ensure
- * fresh model creation with new credentials.
+ * fresh model creation with new credentials. The provider's circuit is reset
+ * too, since new settings may well have fixed what kept it failing.
  * 
  * @param providerId - The provider whose cache should be invalidated
  */
 export function invalidateProvider(providerId: ProviderId): void {
     invalidateProviderCache(providerId);
+    resetProviderHealth(providerId);
 }
 
 /**
  * Intelligently selects the best available provider based on multiple factors.
  * Implements a hierarchy: Apple Intelligence (most reliable) → healthy providers → any configured.
+ * Providers whose circuit is open are not tested at all, and every test result
+ * feeds the shared health registry.
  * This is used by the fallback system and automatic provider selection.
  * 
  * @param timeoutMs - Optional timeout for health checks (default 5 seconds)
@@ -511,18 +638,25 @@ export async function getBestAvailableProvider(timeoutMs: number = 5000): Promis
         return "apple";
     }
 
+    // Skip providers other chats already found unreachable
+    const candidates = configured.filter((providerId) => !isProviderCircuitOpen(providerId));
+
     // Test other providers to find the healthiest one
     // This ensures we pick a provider that's actually responding
-    for (const providerId of configured) {
+    for (const providerId of candidates) {
         const result = await testProviderConnectionReal(providerId, undefined, timeoutMs);
         if (result.success) {
+            recordProviderSuccess(providerId);
             return providerId;
         }
+        if (result.errorCategory === "network") {
+            recordProviderFailure(providerId, "network", result.error ?? null);
+        }
     }
 
     // Fallback: return the first configured provider even if unhealthy
     // This allows the app to attempt using it and surface appropriate errors
-    return configured[0];
+    return candidates[0] ?? configured[0];
 }
 
 // =============================================================================
@@ -545,6 +679,7 @@ export async function getBestAvailableProvider(timeoutMs: number = 5000): Promis
 // - For checking availability: isProviderAvailable(providerId)
 // - For health monitoring: testProviderConnectionReal(providerId)
 // - For automatic selection: getBestAvailableProvider()
+// - For shared provider health: provider-health.ts (circuit breaker)
 //
 // The factory enables the application to seamlessly switch between providers
 // based on availability, performance, and user preferences, creating a robust
@@ -0,0 +1,208 @@
+/**
+ * @file provider-health.ts
+ * @purpose Circuit breaker shared by every chat, so a provider that stopped
+ * answering is skipped instead of being rediscovered one timeout at a time.
+ *
+ * A provider's circuit opens after CIRCUIT_FAILURE_THRESHOLD consecutive
+ * network, server or timeout failures. While open, the fallback chain and
+ * getBestAvailableProvider() pass over it. Once the cooldown ends the circuit
+ * goes half-open and a single testProviderConnectionReal() probe decides:
+ * success closes it, failure reopens it with twice the cooldown. Health lives
+ * in memory only; a restart starts every provider closed.
+ */
+
+import { create } from "zustand";
+
+import type { ErrorCategory, ProviderId } from "@/types/provider.types";
+import { testProviderConnectionReal } from "./provider-factory";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealth {
+  circuit: CircuitState;
+  /** Failures in a row that suggest the provider is unreachable */
+  consecutiveFailures: number;
+  lastFailureCategory: ErrorCategory | null;
+  lastError: string | null;
+  /** When the open circuit may be probed again (ms since epoch) */
+  retryAt: number | null;
+  /** Wait before the next probe; doubles on every failed probe */
+  cooldownMs: number;
+  lastSuccessAt: number | null;
+}
+
+interface ProviderHealthState {
+  health: Partial<Record<ProviderId, ProviderHealth>>;
+}
+
+/** Error categories that count towards opening a circuit; others prove the provider answered */
+export const CIRCUIT_BREAKING_CATEGORIES: ErrorCategory[] = ["network", "server_error", "timeout"];
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+export const CIRCUIT_BASE_COOLDOWN_MS = 30_000;
+export const CIRCUIT_MAX_COOLDOWN_MS = 5 * 60_000;
+const PROBE_TIMEOUT_MS = 10_000;
+
+const INITIAL_HEALTH: ProviderHealth = {
+  circuit: "closed",
+  consecutiveFailures: 0,
+  lastFailureCategory: null,
+  lastError: null,
+  retryAt: null,
+  cooldownMs: CIRCUIT_BASE_COOLDOWN_MS,
+  lastSuccessAt: null,
+};
+
+/** Live provider health, subscribed to by the settings list */
+export const useProviderHealthStore = create<ProviderHealthState>()(() => ({
+  health: {},
+}));
+
+const probesInFlight = new Map<ProviderId, Promise<boolean>>();
+
+export function getProviderHealth(providerId: ProviderId): ProviderHealth {
+  return useProviderHealthStore.getState().health[providerId] ?? INITIAL_HEALTH;
+}
+
+const updateHealth = (providerId: ProviderId, patch: Partial<ProviderHealth>): void => {
+  useProviderHealthStore.setState((state) => ({
+    health: {
+      ...state.health,
+      [providerId]: { ...(state.health[providerId] ?? INITIAL_HEALTH), ...patch },
+    },
+  }));
+};
+
+const openCircuit = (providerId: ProviderId, cooldownMs: number, now: number): void => {
+  updateHealth(providerId, {
+    circuit: "open",
+    cooldownMs,
+    retryAt: now + cooldownMs,
+  });
+};
+
+export function recordProviderSuccess(providerId: ProviderId, now: number = Date.now()): void {
+  updateHealth(providerId, {
+    circuit: "closed",
+    consecutiveFailures: 0,
+    retryAt: null,
+    cooldownMs: CIRCUIT_BASE_COOLDOWN_MS,
+    lastSuccessAt: now,
+  });
+}
+
+/**
+ * Counts a failed request against the provider. Failures outside
+ * CIRCUIT_BREAKING_CATEGORIES (a bad key, a rate limit) mean the provider
+ * answered, so they only break the streak of a closed circuit.
+ */
+export function recordProviderFailure(
+  providerId: ProviderId,
+  category: ErrorCategory,
+  message: string | null = null,
+  now: number = Date.now(),
+): void {
+  const current = getProviderHealth(providerId);
+
+  if (!CIRCUIT_BREAKING_CATEGORIES.includes(category)) {
+    if (current.circuit === "closed" && current.consecutiveFailures > 0) {
+      updateHealth(providerId, { consecutiveFailures: 0 });
+    }
+    return;
+  }
+
+  const consecutiveFailures = current.consecutiveFailures + 1;
+  updateHealth(providerId, {
+    consecutiveFailures,
+    lastFailureCategory: category,
+    lastError: message,
+  });
+
+  if (current.circuit !== "closed") {
+    openCircuit(providerId, Math.min(current.cooldownMs * 2, CIRCUIT_MAX_COOLDOWN_MS), now);
+  } else if (consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    openCircuit(providerId, CIRCUIT_BASE_COOLDOWN_MS, now);
+  }
+}
+
+/**
+ * Half-open probe through testProviderConnectionReal(). Concurrent callers
+ * share one probe per provider.
+ */
+export function probeProvider(providerId: ProviderId): Promise<boolean> {
+  const inFlight = probesInFlight.get(providerId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  updateHealth(providerId, { circuit: "half-open" });
+
+  const probe = (async () => {
+    try {
+      const result = await testProviderConnectionReal(providerId, undefined, PROBE_TIMEOUT_MS);
+      if (result.success) {
+        recordProviderSuccess(providerId);
+        return true;
+      }
+
+      recordProviderFailure(providerId, "network", result.error ?? null);
+      return false;
+    } catch (error) {
+      recordProviderFailure(providerId, "network", error instanceof Error ? error.message : null);
+      return false;
+    } finally {
+      probesInFlight.delete(providerId);
+    }
+  })();
+
+  probesInFlight.set(providerId, probe);
+  return probe;
+}
+
+/**
+ * Whether requests should skip this provider. An open circuit whose cooldown
+ * has passed starts a background probe; the provider stays skipped until the
+ * probe succeeds.
+ */
+export function isProviderCircuitOpen(providerId: ProviderId, now: number = Date.now()): boolean {
+  const health = getProviderHealth(providerId);
+  if (health.circuit === "closed") {
+    return false;
+  }
+
+  if (health.circuit === "open" && health.retryAt !== null && now >= health.retryAt) {
+    void probeProvider(providerId);
+  }
+
+  return true;
+}
+
+/** Forgets what is known about a provider, e.g. after its credentials change */
+export function resetProviderHealth(providerId?: ProviderId): void {
+  if (!providerId) {
+    useProviderHealthStore.setState({ health: {} });
+    return;
+  }
+
+  useProviderHealthStore.setState((state) => {
+    const { [providerId]: _removed, ...health } = state.health;
+    return { health };
+  });
+}
+
+/** Short status for the settings list, or null while nothing is wrong */
+export function describeProviderHealth(health: ProviderHealth | undefined): string | null {
+  if (!health) {
+    return null;
+  }
+
+  switch (health.circuit) {
+    case "open":
+      return "Not responding · skipped for now";
+    case "half-open":
+      return "Checking if it's back…";
+    default:
+      return health.consecutiveFailures > 0
+        ? `${health.consecutiveFailures} recent ${health.consecutiveFailures === 1 ? "failure" : "failures"}`
+        : null;
+  }
+}
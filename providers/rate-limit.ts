@@ -0,0 +1,252 @@
+/**
+ * @file rate-limit.ts
+ * @purpose Reads the rate-limit details a provider sends with a 429, so a
+ * retry can wait for the limit to lift instead of guessing with backoff.
+ *
+ * Sources, most specific first:
+ * - Retry-After / retry-after-ms, the explicit "try again in" answer
+ * - x-ratelimit-{limit,remaining,reset}-{requests,tokens} (OpenAI, Groq and
+ *   most compatible servers) and anthropic-ratelimit-{requests,tokens}-*
+ * - Unsuffixed x-ratelimit-* headers, which OpenRouter also repeats under
+ *   error.metadata.headers in the response body
+ */
+
+import type { RateLimitInfo, RateLimitKind } from "@/types/provider.types";
+
+/** How long a retry waits for a rate limit before giving up on the provider */
+export const DEFAULT_RATE_LIMIT_WAIT_LIMIT_MS = 30_000;
+
+type HeaderBag = Record<string, string>;
+
+interface LimitReading {
+  kind: RateLimitKind;
+  resetAt: number | null;
+  remaining: number | null;
+  limit: number | null;
+}
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  h: 3_600_000,
+  m: 60_000,
+  s: 1_000,
+  ms: 1,
+};
+
+const LIMIT_KINDS: RateLimitKind[] = ["requests", "tokens"];
+
+const toHeaderBag = (value: unknown): HeaderBag => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const entries = typeof Headers !== "undefined" && value instanceof Headers
+    ? [...value.entries()]
+    : Object.entries(value as Record<string, unknown>);
+
+  const bag: HeaderBag = {};
+  for (const [key, headerValue] of entries) {
+    if (typeof headerValue === "string" || typeof headerValue === "number") {
+      bag[key.toLowerCase()] = String(headerValue).trim();
+    }
+  }
+  return bag;
+};
+
+/** OpenRouter repeats its own limit headers inside the JSON error body */
+const readBodyHeaders = (error: Record<string, unknown>): HeaderBag => {
+  let body: unknown = error.data;
+  if (!body && typeof error.responseBody === "string") {
+    try {
+      body = JSON.parse(error.responseBody);
+    } catch {
+      return {};
+    }
+  }
+
+  const metadata = (body as { error?: { metadata?: { headers?: unknown } } } | null)?.error?.metadata;
+  return toHeaderBag(metadata?.headers);
+};
+
+const collectHeaders = (error: unknown): HeaderBag => {
+  if (!error || typeof error !== "object") {
+    return {};
+  }
+
+  const candidate = error as Record<string, unknown>;
+  return {
+    ...readBodyHeaders(candidate),
+    ...toHeaderBag(candidate.headers),
+    ...toHeaderBag(candidate.responseHeaders),
+  };
+};
+
+/** "1m30s", "6m0s", "250ms" - the duration format OpenAI uses for resets */
+const parseDuration = (value: string): number | null => {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join("") !== value) {
+    return null;
+  }
+
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * DURATION_UNIT_MS[unit], 0);
+};
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Reset values come as epoch milliseconds (OpenRouter), epoch seconds,
+ * seconds from now, a duration string or an HTTP/ISO date.
+ */
+const parseResetAt = (value: string | undefined, now: number): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const numeric = parseNumber(value);
+  if (numeric !== null) {
+    if (numeric > 1e12) {
+      return numeric;
+    }
+    if (numeric > 1e9) {
+      return numeric * 1000;
+    }
+    return now + numeric * 1000;
+  }
+
+  const duration = parseDuration(value);
+  if (duration !== null) {
+    return now + duration;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+};
+
+/** Retry-After is seconds or an HTTP date; retry-after-ms is OpenAI's millisecond variant */
+const parseRetryAfterAt = (headers: HeaderBag, now: number): number | null => {
+  const retryAfterMs = parseNumber(headers["retry-after-ms"]);
+  if (retryAfterMs !== null) {
+    return now + retryAfterMs;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = parseNumber(retryAfter);
+  if (seconds !== null) {
+    return now + seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : date;
+};
+
+const readLimit = (headers: HeaderBag, kind: RateLimitKind, now: number): LimitReading | null => {
+  const reading: LimitReading = {
+    kind,
+    resetAt: parseResetAt(
+      headers[`x-ratelimit-reset-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-reset`],
+      now,
+    ),
+    remaining: parseNumber(
+      headers[`x-ratelimit-remaining-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-remaining`],
+    ),
+    limit: parseNumber(
+      headers[`x-ratelimit-limit-${kind}`] ?? headers[`anthropic-ratelimit-${kind}-limit`],
+    ),
+  };
+
+  return reading.resetAt === null && reading.remaining === null && reading.limit === null
+    ? null
+    : reading;
+};
+
+/** Unsuffixed headers count requests, as OpenRouter's do */
+const readUnsuffixedLimit = (headers: HeaderBag, now: number): LimitReading | null => {
+  const reading: LimitReading = {
+    kind: "requests",
+    resetAt: parseResetAt(headers["x-ratelimit-reset"], now),
+    remaining: parseNumber(headers["x-ratelimit-remaining"]),
+    limit: parseNumber(headers["x-ratelimit-limit"]),
+  };
+
+  return reading.resetAt === null && reading.remaining === null && reading.limit === null
+    ? null
+    : reading;
+};
+
+/**
+ * The limit that was hit: the exhausted one, else the one that resets last.
+ */
+const pickHitLimit = (readings: LimitReading[]): LimitReading | null => {
+  const exhausted = readings.filter((reading) => reading.remaining === 0);
+  const pool = exhausted.length > 0 ? exhausted : readings;
+
+  return pool.reduce<LimitReading | null>((latest, reading) => (
+    !latest || (reading.resetAt ?? 0) > (latest.resetAt ?? 0) ? reading : latest
+  ), null);
+};
+
+const parseFromError = (error: unknown, now: number): RateLimitInfo | null => {
+  const headers = collectHeaders(error);
+  const readings = [
+    ...LIMIT_KINDS.map((kind) => readLimit(headers, kind, now)),
+    readUnsuffixedLimit(headers, now),
+  ].filter((reading): reading is LimitReading => reading !== null);
+  const retryAfterAt = parseRetryAfterAt(headers, now);
+  const hit = pickHitLimit(readings);
+
+  if (retryAfterAt === null && !hit) {
+    return null;
+  }
+
+  return {
+    resetAt: retryAfterAt ?? hit?.resetAt ?? null,
+    remaining: hit?.remaining ?? null,
+    limit: hit?.limit ?? null,
+    limitKind: hit?.kind ?? null,
+  };
+};
+
+/**
+ * Pulls structured rate-limit details out of a provider error. The AI SDK
+ * wraps retried calls in a RetryError, so its lastError and cause are
+ * searched too.
+ *
+ * @returns The limit details, or null when the response carried none
+ */
+export function parseRateLimitInfo(error: unknown, now: number = Date.now()): RateLimitInfo | null {
+  const candidates: unknown[] = [error];
+  if (error && typeof error === "object") {
+    const wrapper = error as { lastError?: unknown; cause?: unknown };
+    candidates.push(wrapper.lastError, wrapper.cause);
+  }
+
+  for (const candidate of candidates) {
+    const info = parseFromError(candidate, now);
+    if (info) {
+      return info;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Milliseconds until the limit lifts, or null when the provider did not say.
+ */
+export function getRateLimitWaitMs(info: RateLimitInfo | null | undefined, now: number = Date.now()): number | null {
+  if (!info || info.resetAt === null) {
+    return null;
+  }
+
+  return Math.max(0, info.resetAt - now);
+}
@@ -1,7 +1,7 @@
 import { act, renderHook } from "@testing-library/react-native";
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
 
-import { useProviderStore } from "../useProviderStore";
+import { getFallbackSettings, getModelCapabilities, getModelPricing, useProviderStore } from "../useProviderStore";
 
 jest.mock("expo-secure-store", () => ({
   getItemAsync: jest.fn(),
@@ -19,6 +19,8 @@ describe("useProviderStore", () => {
         apple: ["system-default"],
         openai: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"],
         "openai-codex": ["gpt-5.5", "gpt-5.4", "gpt-5.4-mini", "gpt-5.3-codex"],
+        anthropic: ["claude-opus-4-5", "claude-sonnet-4-5", "claude-haiku-4-5"],
+        gemini: [],
         openrouter: [
           "openai/gpt-4o",
           "openai/gpt-4o-mini",
@@ -26,23 +28,38 @@ describe("useProviderStore", () => {
         ],
         opencode: ["glm-5.1", "glm-5", "kimi-k2.5"],
         ollama: ["gpt-oss:latest", "llama3.2", "mistral", "codellama", "qwen2.5"],
+        mock: ["mock-text", "mock-echo", "mock-reasoning"],
       },
       customModels: {
         apple: [],
         openai: [],
         "openai-codex": [],
+        anthropic: [],
+        gemini: [],
         openrouter: [],
         opencode: [],
         ollama: [],
+        mock: [],
       },
       hiddenModels: {
         apple: [],
         openai: [],
         "openai-codex": [],
+        anthropic: [],
+        gemini: [],
         openrouter: [],
         opencode: [],
         ollama: [],
+        mock: [],
       },
+      modelCatalogs: {},
+      catalogCapabilities: {},
+      capabilityOverrides: {},
+      catalogPricing: {},
+      pricingOverrides: {},
+      fallbackChain: null,
+      fallbackTriggers: null,
+      rateLimitWaitLimitMs: null,
     }));
   });
 
@@ -90,4 +107,138 @@ describe("useProviderStore", () => {
 
     expect(result.current.customModels.openai).toEqual([]);
   });
+
+  it("selects fetched models for custom endpoints and forgets them on removal", () => {
+    const { result } = renderHook(() => useProviderStore());
+
+    act(() => {
+      result.current.setAvailableModels("custom:lab-vllm", ["qwen3-32b", "llama-3.3-70b"]);
+      result.current.setSelectedProvider("custom:lab-vllm");
+    });
+
+    expect(result.current.selectedModel).toBe("qwen3-32b");
+
+    act(() => {
+      result.current.removeProviderModels("custom:lab-vllm");
+    });
+
+    expect(result.current.availableModels["custom:lab-vllm"]).toBeUndefined();
+    expect(result.current.selectedProvider).toBe("ollama");
+    expect(result.current.selectedModel).toBe("gpt-oss:latest");
+  });
+
+  it("flags catalog changes after the first fetch and folds in matching custom models", () => {
+    const { result } = renderHook(() => useProviderStore());
+
+    act(() => {
+      result.current.addCustomModel("openai", "gpt-5");
+      result.current.setHiddenModels({ ...result.current.hiddenModels, openai: ["gpt-4o"] });
+      result.current.applyModelCatalog("openai", ["gpt-4o", "gpt-4.1"], 1000);
+    });
+
+    expect(result.current.modelCatalogs.openai).toEqual({
+      fetchedAt: 1000,
+      addedModels: [],
+      removedModels: [],
+    });
+
+    act(() => {
+      result.current.applyModelCatalog("openai", ["gpt-5", "gpt-4o"], 2000);
+    });
+
+    expect(result.current.availableModels.openai).toEqual(["gpt-5", "gpt-4o"]);
+    expect(result.current.customModels.openai).toEqual([]);
+    expect(result.current.hiddenModels.openai).toEqual(["gpt-4o"]);
+    expect(result.current.modelCatalogs.openai).toEqual({
+      fetchedAt: 2000,
+      addedModels: ["gpt-5"],
+      removedModels: ["gpt-4.1"],
+    });
+  });
+
+  it("merges catalog capabilities with user overrides", () => {
+    const { result } = renderHook(() => useProviderStore());
+
+    act(() => {
+      result.current.applyModelCatalog("openrouter", ["acme/text-1"], 3000, {
+        "acme/text-1": { vision: false, tools: false, contextTokens: 16000 },
+      });
+    });
+
+    expect(getModelCapabilities("openrouter", "acme/text-1")).toMatchObject({
+      vision: false,
+      tools: false,
+      contextTokens: 16000,
+    });
+
+    act(() => {
+      result.current.setModelCapabilityOverride("openrouter", "acme/text-1", { tools: true });
+    });
+
+    expect(getModelCapabilities("openrouter", "acme/text-1")).toMatchObject({ vision: false, tools: true });
+
+    act(() => {
+      result.current.setModelCapabilityOverride("openrouter", "acme/text-1", null);
+    });
+
+    expect(result.current.capabilityOverrides.openrouter).toEqual({});
+    expect(getModelCapabilities("openrouter", "acme/text-1").tools).toBe(false);
+  });
+
+  it("prices models from the catalog unless the user set a price", () => {
+    const { result } = renderHook(() => useProviderStore());
+
+    expect(getModelPricing("openrouter", "acme/text-1")).toBeNull();
+    expect(getModelPricing("ollama", "llama3")).toEqual({ input: 0, output: 0 });
+
+    act(() => {
+      result.current.applyModelCatalog("openrouter", ["acme/text-1"], 3000, {}, {
+        "acme/text-1": { input: 3, output: 15 },
+      });
+    });
+
+    expect(getModelPricing("openrouter", "acme/text-1")).toEqual({ input: 3, output: 15 });
+
+    act(() => {
+      result.current.setModelPricingOverride("openrouter", "acme/text-1", { input: 1, output: 2 });
+    });
+
+    expect(getModelPricing("openrouter", "acme/text-1")).toEqual({ input: 1, output: 2 });
+
+    act(() => {
+      result.current.setModelPricingOverride("openrouter", "acme/text-1", null);
+    });
+
+    expect(getModelPricing("openrouter", "acme/text-1")).toEqual({ input: 3, output: 15 });
+  });
+
+  it("stores the fallback configuration and drops removed endpoints from the chain", () => {
+    const { result } = renderHook(() => useProviderStore());
+
+    expect(getFallbackSettings()).toEqual({ chain: null, triggers: null, rateLimitWaitLimitMs: null });
+
+    act(() => {
+      result.current.setFallbackChain([
+        { providerId: "custom:lab-vllm", modelId: "qwen3-32b" },
+        { providerId: "ollama", modelId: null },
+      ]);
+      result.current.setFallbackTriggers(["rate_limit", "server_error"]);
+      result.current.setRateLimitWaitLimit(60_000);
+    });
+
+    expect(getFallbackSettings()).toEqual({
+      chain: [
+        { providerId: "custom:lab-vllm", modelId: "qwen3-32b" },
+        { providerId: "ollama", modelId: null },
+      ],
+      triggers: ["rate_limit", "server_error"],
+      rateLimitWaitLimitMs: 60_000,
+    });
+
+    act(() => {
+      result.current.removeProviderModels("custom:lab-vllm");
+    });
+
+    expect(result.current.fallbackChain).toEqual([{ providerId: "ollama", modelId: null }]);
+  });
 });
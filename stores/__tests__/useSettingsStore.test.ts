@@ -64,6 +64,20 @@ describe("useSettingsStore", () => {
     expect(result.current.thinkingLevel).toBe("high");
   });
 
+  it("stores a tool approval policy per tool key", () => {
+    const { result } = createStore();
+
+    act(() => {
+      result.current.setToolApprovalPolicy("docs/search_docs", "auto");
+      result.current.setToolApprovalPolicy("docs/delete_page", "deny");
+    });
+
+    expect(result.current.toolApprovalPolicies).toEqual({
+      "docs/search_docs": "auto",
+      "docs/delete_page": "deny",
+    });
+  });
+
   it("resets back to the defaults", () => {
     const { result } = createStore();
 
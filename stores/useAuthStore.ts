@@ -6,7 +6,9 @@
 
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
-import type { ProviderId } from "@/types/provider.types";
+import { isCustomProviderId, type CustomEndpoint, type CustomProviderId, type ProviderId } from "@/types/provider.types";
+import type { McpServer } from "@/types/mcp.types";
+import type { SearchBackendId, StoredSearchBackendConfig } from "@/types/search.types";
 import { safeSecureStore } from "@/lib/safe-secure-store";
 import {
   applyRuntimeWriteVersion,
@@ -24,20 +26,39 @@ interface AuthState {
   openaiCodexAccountId: string | null;
   openaiCodexEmail: string | null;
   openaiCodexPlanType: string | null;
+  anthropicApiKey: string | null;
+  geminiApiKey: string | null;
   openrouterApiKey: string | null;
   opencodeApiKey: string | null;
   ollamaUrl: string | null;
   searxngUrl: string | null;
+  /** Settings for the other web search backends, one entry per configured backend */
+  searchBackends: StoredSearchBackendConfig[];
+  /** OpenAI-compatible servers the user has added, in fallback order */
+  customEndpoints: CustomEndpoint[];
+  /** Remote MCP tool servers; kept here because they may carry a bearer token */
+  mcpServers: McpServer[];
   __meta: HydrationMetaState;
 }
 
 interface AuthActions {
   setOpenAIApiKey: (key: string | null) => void;
   setOpenAICodexCredentials: (credentials: OpenAICodexCredentials | null) => void;
+  setAnthropicApiKey: (key: string | null) => void;
+  setGeminiApiKey: (key: string | null) => void;
   setOpenRouterApiKey: (key: string | null) => void;
   setOpencodeApiKey: (key: string | null) => void;
   setOllamaUrl: (url: string | null) => void;
   setSearxngUrl: (url: string | null) => void;
+  /** Adds the backend's settings, or replaces the saved ones */
+  saveSearchBackend: (config: StoredSearchBackendConfig) => void;
+  removeSearchBackend: (id: SearchBackendId) => void;
+  /** Adds the endpoint, or replaces the one with the same id */
+  saveCustomEndpoint: (endpoint: CustomEndpoint) => void;
+  removeCustomEndpoint: (id: CustomProviderId) => void;
+  /** Adds the server, or replaces the one with the same id */
+  saveMcpServer: (server: McpServer) => void;
+  removeMcpServer: (id: string) => void;
   clearAllCredentials: () => void;
 }
 
@@ -82,10 +103,15 @@ export const useAuthStore = create<AuthState & AuthActions>()(
       openaiCodexAccountId: null,
       openaiCodexEmail: null,
       openaiCodexPlanType: null,
+      anthropicApiKey: null,
+      geminiApiKey: null,
       openrouterApiKey: null,
       opencodeApiKey: null,
       ollamaUrl: null,
       searxngUrl: null,
+      searchBackends: [],
+      customEndpoints: [],
+      mcpServers: [],
       __meta: INITIAL_HYDRATION_META,
       setOpenAIApiKey: (key) =>
         set((state) =>
@@ -104,6 +130,18 @@ export const useAuthStore = create<AuthState & AuthActions>()(
             openaiCodexPlanType: credentials?.planType ?? null,
           }),
         ),
+      setAnthropicApiKey: (key) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            anthropicApiKey: key,
+          }),
+        ),
+      setGeminiApiKey: (key) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            geminiApiKey: key,
+          }),
+        ),
       setOpenRouterApiKey: (key) =>
         set((state) =>
           applyRuntimeWriteVersion(state, {
@@ -128,6 +166,51 @@ export const useAuthStore = create<AuthState & AuthActions>()(
             searxngUrl: url,
           }),
         ),
+      saveSearchBackend: (config) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            searchBackends: [
+              ...state.searchBackends.filter((entry) => entry.id !== config.id),
+              config,
+            ],
+          }),
+        ),
+      removeSearchBackend: (id) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            searchBackends: state.searchBackends.filter((entry) => entry.id !== id),
+          }),
+        ),
+      saveCustomEndpoint: (endpoint) =>
+        set((state) => {
+          const exists = state.customEndpoints.some((entry) => entry.id === endpoint.id);
+          return applyRuntimeWriteVersion(state, {
+            customEndpoints: exists
+              ? state.customEndpoints.map((entry) => (entry.id === endpoint.id ? endpoint : entry))
+              : [...state.customEndpoints, endpoint],
+          });
+        }),
+      removeCustomEndpoint: (id) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            customEndpoints: state.customEndpoints.filter((entry) => entry.id !== id),
+          }),
+        ),
+      saveMcpServer: (server) =>
+        set((state) => {
+          const exists = state.mcpServers.some((entry) => entry.id === server.id);
+          return applyRuntimeWriteVersion(state, {
+            mcpServers: exists
+              ? state.mcpServers.map((entry) => (entry.id === server.id ? server : entry))
+              : [...state.mcpServers, server],
+          });
+        }),
+      removeMcpServer: (id) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            mcpServers: state.mcpServers.filter((entry) => entry.id !== id),
+          }),
+        ),
       clearAllCredentials: () =>
         set((state) =>
           applyRuntimeWriteVersion(state, {
@@ -138,10 +221,15 @@ export const useAuthStore = create<AuthState & AuthActions>()(
             openaiCodexAccountId: null,
             openaiCodexEmail: null,
             openaiCodexPlanType: null,
+            anthropicApiKey: null,
+            geminiApiKey: null,
             openrouterApiKey: null,
             opencodeApiKey: null,
             ollamaUrl: null,
             searxngUrl: null,
+            searchBackends: [],
+            customEndpoints: [],
+            mcpServers: [],
           }),
         ),
     }),
@@ -161,10 +249,15 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         openaiCodexAccountId: state.openaiCodexAccountId,
         openaiCodexEmail: state.openaiCodexEmail,
         openaiCodexPlanType: state.openaiCodexPlanType,
+        anthropicApiKey: state.anthropicApiKey,
+        geminiApiKey: state.geminiApiKey,
         openrouterApiKey: state.openrouterApiKey,
         opencodeApiKey: state.opencodeApiKey,
         ollamaUrl: state.ollamaUrl,
         searxngUrl: state.searxngUrl,
+        searchBackends: state.searchBackends,
+        customEndpoints: state.customEndpoints,
+        mcpServers: state.mcpServers,
         __meta: {
           writeVersion: state.__meta.writeVersion,
         },
@@ -193,6 +286,13 @@ export function getProviderAuth(provider: ProviderId): {
   url?: string;
 } {
   const authStore = useAuthStore.getState();
+  if (isCustomProviderId(provider)) {
+    const endpoint = getCustomEndpoint(provider);
+    return endpoint
+      ? { apiKey: endpoint.apiKey || undefined, url: endpoint.baseUrl }
+      : {};
+  }
+
   switch (provider) {
     case "openai":
       return { apiKey: authStore.openaiApiKey || undefined };
@@ -205,6 +305,10 @@ export function getProviderAuth(provider: ProviderId): {
         email: authStore.openaiCodexEmail || undefined,
         planType: authStore.openaiCodexPlanType || undefined,
       };
+    case "anthropic":
+      return { apiKey: authStore.anthropicApiKey || undefined };
+    case "gemini":
+      return { apiKey: authStore.geminiApiKey || undefined };
     case "openrouter":
       return { apiKey: authStore.openrouterApiKey || undefined };
     case "opencode":
@@ -219,11 +323,19 @@ export function getProviderAuth(provider: ProviderId): {
 
 export function isProviderConfigured(provider: ProviderId): boolean {
   const authStore = useAuthStore.getState();
+  if (isCustomProviderId(provider)) {
+    return !!getCustomEndpoint(provider)?.baseUrl;
+  }
+
   switch (provider) {
     case "openai":
       return !!authStore.openaiApiKey;
     case "openai-codex":
       return !!authStore.openaiCodexAccessToken && !!authStore.openaiCodexRefreshToken;
+    case "anthropic":
+      return !!authStore.anthropicApiKey;
+    case "gemini":
+      return !!authStore.geminiApiKey;
     case "openrouter":
       return !!authStore.openrouterApiKey;
     case "opencode":
@@ -232,6 +344,9 @@ export function isProviderConfigured(provider: ProviderId): boolean {
       return !!authStore.ollamaUrl;
     case "apple":
       return true;
+    case "mock":
+      // Needs no credentials, but only exists in development builds
+      return __DEV__;
     default:
       return false;
   }
@@ -245,3 +360,15 @@ export function getSearxngConfig(): {
     url: authStore.searxngUrl || undefined,
   };
 }
+
+export function getCustomEndpoints(): CustomEndpoint[] {
+  return useAuthStore.getState().customEndpoints ?? [];
+}
+
+export function getCustomEndpoint(id: CustomProviderId): CustomEndpoint | undefined {
+  return getCustomEndpoints().find((entry) => entry.id === id);
+}
+
+export function getMcpServers(): McpServer[] {
+  return useAuthStore.getState().mcpServers ?? [];
+}
@@ -5,7 +5,7 @@
  * 
  * OVERVIEW:
  * This store manages all state related to AI providers and their models. It handles:
- * - Provider selection (Apple Intelligence, OpenAI, OpenRouter, Ollama)
+ * - Provider selection (Apple Intelligence, OpenAI, Anthropic, OpenRouter, Ollama)
  * - Model selection within each provider
  * - Custom model management (add, edit, delete)
  * - Model hiding/showing functionality
@@ -26,8 +26,30 @@
 
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
-import { OPENCODE_MODELS, OPENAI_CODEX_MODELS, type ProviderId } from "@/types/provider.types";
-import { getVisibleModelNames, normalizeUniqueModelNames } from "@/lib/model-utils";
+import {
+  ANTHROPIC_MODELS,
+  GEMINI_MODELS,
+  isCustomProviderId,
+  isModelCatalogProvider,
+  MOCK_MODELS,
+  OPENCODE_MODELS,
+  OPENAI_CODEX_MODELS,
+  type BuiltInProviderId,
+  type ErrorCategory,
+  type FallbackChainEntry,
+  type ModelCapabilities,
+  type ModelCapabilityPatch,
+  type ModelCatalogState,
+  type ModelPricing,
+  type ProviderId,
+} from "@/types/provider.types";
+import {
+  type ModelCapabilityTable,
+  resolveModelCapabilities,
+  selectModelCapabilitySources,
+} from "@/lib/model-capabilities";
+import { type ModelPricingTable, resolveModelPricing } from "@/lib/model-pricing";
+import { diffModelNames, getVisibleModelNames, normalizeUniqueModelNames } from "@/lib/model-utils";
 import { safeSecureStore } from "@/lib/safe-secure-store";
 import {
   applyRuntimeWriteVersion,
@@ -57,6 +79,22 @@ interface ProviderState {
   customModels: Record<ProviderId, string[]>;
   /** Models that have been hidden from the UI for each provider */
   hiddenModels: Record<ProviderId, string[]>;
+  /** When each live catalog was last fetched and what changed in it */
+  modelCatalogs: Partial<Record<ProviderId, ModelCatalogState>>;
+  /** Capabilities reported by live catalogs, per provider and model */
+  catalogCapabilities: ModelCapabilityTable;
+  /** Capabilities the user has set by hand, per provider and model */
+  capabilityOverrides: ModelCapabilityTable;
+  /** Token prices published by live catalogs, per provider and model */
+  catalogPricing: ModelPricingTable;
+  /** Token prices the user has entered, per provider and model */
+  pricingOverrides: ModelPricingTable;
+  /** Providers, and optionally pinned models, to fall back to in order; null keeps the built-in order */
+  fallbackChain: FallbackChainEntry[] | null;
+  /** Error categories that trigger a fallback; null keeps the built-in classification */
+  fallbackTriggers: ErrorCategory[] | null;
+  /** Longest wait for a rate limit to lift before falling back; null keeps the built-in limit */
+  rateLimitWaitLimitMs: number | null;
   /** Internal hydration and runtime write metadata */
   __meta: HydrationMetaState;
 }
@@ -73,6 +111,24 @@ interface ProviderActions {
   setSelectedModel: (model: string) => void;
   /** Updates the available models list for a specific provider */
   setAvailableModels: (provider: ProviderId, models: string[]) => void;
+  /** Stores a freshly fetched live catalog and records which models were added or removed */
+  applyModelCatalog: (
+    provider: ProviderId,
+    models: string[],
+    fetchedAt: number,
+    capabilities?: Record<string, ModelCapabilityPatch>,
+    pricing?: Record<string, ModelPricing>,
+  ) => void;
+  /** Replaces the user's capability override for one model; null restores the detected values */
+  setModelCapabilityOverride: (provider: ProviderId, model: string, override: ModelCapabilityPatch | null) => void;
+  /** Replaces the user's price for one model; null goes back to the catalog price */
+  setModelPricingOverride: (provider: ProviderId, model: string, override: ModelPricing | null) => void;
+  /** Replaces the fallback chain; null restores the built-in order */
+  setFallbackChain: (chain: FallbackChainEntry[] | null) => void;
+  /** Replaces the categories that trigger a fallback; null restores the built-in choice */
+  setFallbackTriggers: (triggers: ErrorCategory[] | null) => void;
+  /** Replaces how long a rate limit is waited out; null restores the built-in limit */
+  setRateLimitWaitLimit: (limitMs: number | null) => void;
   /** Adds a new custom model to a provider's custom model list */
   addCustomModel: (provider: ProviderId, model: string) => void;
   /** Edits an existing custom model name and updates selection if needed */
@@ -83,6 +139,8 @@ interface ProviderActions {
   deleteModel: (provider: ProviderId, model: string) => void;
   /** Sets the hidden models configuration for all providers */
   setHiddenModels: (models: Record<ProviderId, string[]>) => void;
+  /** Drops every model list kept for a provider, used when a custom endpoint is deleted */
+  removeProviderModels: (provider: ProviderId) => void;
   /** Resets all state to initial default values */
   resetToDefaults: () => void;
 }
@@ -148,10 +206,12 @@ const secureStorage = {
  * for each provider. They serve as the initial available models and
  * also as the fallback list when custom models are removed.
  */
-const DEFAULT_MODELS: Record<ProviderId, string[]> = {
+const DEFAULT_MODELS: Record<BuiltInProviderId, string[]> = {
   apple: ["system-default"], // Apple Intelligence uses a single system default model
   openai: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"], // Main OpenAI models
   "openai-codex": OPENAI_CODEX_MODELS,
+  anthropic: ANTHROPIC_MODELS,
+  gemini: GEMINI_MODELS,
   openrouter: [
     "openai/gpt-4o", // OpenAI models via OpenRouter
     "openai/gpt-4o-mini",
@@ -159,6 +219,7 @@ const DEFAULT_MODELS: Record<ProviderId, string[]> = {
   ],
   opencode: OPENCODE_MODELS,
   ollama: ["gpt-oss:latest", "llama3.2", "mistral", "codellama", "qwen2.5"], // Popular local models
+  mock: MOCK_MODELS, // Scripted development scenarios
 };
 
 /**
@@ -170,9 +231,12 @@ const DEFAULT_CUSTOM_MODELS: Record<ProviderId, string[]> = {
   apple: [], // Apple Intelligence doesn't support custom models
   openai: [], // Can be extended with user-defined OpenAI-compatible models
   "openai-codex": [], // Codex OAuth provider has a fixed default model set
+  anthropic: [], // Can be extended with newer Claude model ids
+  gemini: [], // Usually unnecessary once the model list is loaded from Google
   openrouter: [], // Can be extended with additional OpenRouter-compatible models
   opencode: [], // Can be extended with additional Opencode-compatible models
   ollama: [], // Often extended with locally installed models
+  mock: [], // Scenarios are fixed in mock-provider.ts
 };
 
 /**
@@ -184,9 +248,20 @@ const DEFAULT_HIDDEN_MODELS: Record<ProviderId, string[]> = {
   apple: [], // No models hidden initially
   openai: [], // All default OpenAI models shown initially
   "openai-codex": [], // All default Codex models shown initially
+  anthropic: [], // All default Claude models shown initially
+  gemini: [], // All default Gemini models shown initially
   openrouter: [], // All default OpenRouter models shown initially
   opencode: [], // All default Opencode models shown initially
   ollama: [], // All default Ollama models shown initially
+  mock: [], // All mock scenarios shown initially
+};
+
+/**
+ * Ollama and custom endpoints only offer what their server reported, so an
+ * empty fetch means an empty list rather than the bundled defaults.
+ */
+const usesServerModelList = (provider: ProviderId): boolean => {
+  return provider === "ollama" || isCustomProviderId(provider);
 };
 
 const getVisibleModelsForProvider = (
@@ -196,9 +271,13 @@ const getVisibleModelsForProvider = (
   hiddenModels: Record<ProviderId, string[]>,
 ): string[] => {
   const hidden = hiddenModels[provider] || [];
+  const fetchedModels = availableModels[provider] || [];
+  // Gemini and the live-catalog providers fall back to the bundled list until a fetch succeeds.
   const baseModels =
-    provider === "ollama"
-      ? availableModels[provider] || []
+    isCustomProviderId(provider)
+    || provider === "ollama"
+    || ((provider === "gemini" || isModelCatalogProvider(provider)) && fetchedModels.length > 0)
+      ? fetchedModels
       : DEFAULT_MODELS[provider];
 
   return getVisibleModelNames({
@@ -235,6 +314,22 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
       customModels: DEFAULT_CUSTOM_MODELS,
       /** Initialize with no hidden models */
       hiddenModels: DEFAULT_HIDDEN_MODELS,
+      /** No live catalog has been fetched yet */
+      modelCatalogs: {},
+      /** No catalog has reported capabilities yet */
+      catalogCapabilities: {},
+      /** No capabilities have been overridden */
+      capabilityOverrides: {},
+      /** No catalog has reported prices yet */
+      catalogPricing: {},
+      /** No prices have been entered */
+      pricingOverrides: {},
+      /** Fall back in the built-in order */
+      fallbackChain: null,
+      /** Fall back on the errors classifyError() recommends it for */
+      fallbackTriggers: null,
+      /** Wait out rate limits up to the built-in limit */
+      rateLimitWaitLimitMs: null,
       /** Runtime mutation and hydration metadata */
       __meta: INITIAL_HYDRATION_META,
 
@@ -281,7 +376,7 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
        * @param provider - The provider to update models for
        * @param models - Array of model identifiers
        * @description Used when fetching updated model lists from provider APIs.
-        * For Ollama, this also reconciles overlapping custom/hidden entries.
+        * For Ollama and custom endpoints, this also reconciles overlapping custom/hidden entries.
        */
       setAvailableModels: (provider, models) =>
         set((state) => {
@@ -291,7 +386,7 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
             [provider]: normalizedAvailableModels,
           };
 
-          if (provider !== "ollama") {
+          if (!usesServerModelList(provider)) {
             return applyRuntimeWriteVersion(state, {
               availableModels: nextAvailableModels,
             });
@@ -340,6 +435,143 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
           });
         }),
 
+      /**
+       * Replaces a provider's models with its live catalog
+       * @param provider - The provider the catalog belongs to
+       * @param models - Model identifiers returned by the list endpoint
+       * @param fetchedAt - Epoch milliseconds of the fetch
+       * @param capabilities - Per-model capabilities, for catalogs that publish them
+       * @param pricing - Per-model token prices, for catalogs that publish them
+       * @description Compares against the previous catalog to flag added and
+       * removed models. Custom entries that the catalog now lists are folded
+       * into it; hidden entries stay hidden.
+       */
+      applyModelCatalog: (provider, models, fetchedAt, capabilities, pricing) =>
+        set((state) => {
+          const catalogModels = normalizeUniqueModelNames(models);
+          const previousCatalog = state.modelCatalogs[provider];
+          if (catalogModels.length === 0 || previousCatalog?.fetchedAt === fetchedAt) {
+            return state;
+          }
+
+          // The first fetch replaces the bundled list, so nothing is flagged yet.
+          const changes = previousCatalog
+            ? diffModelNames(state.availableModels[provider] || [], catalogModels)
+            : { addedModels: [], removedModels: [] };
+          const catalogModelSet = new Set(catalogModels);
+
+          const nextAvailableModels = {
+            ...state.availableModels,
+            [provider]: catalogModels,
+          };
+          const nextCustomModels = {
+            ...state.customModels,
+            [provider]: (state.customModels[provider] || []).filter(
+              (model) => !catalogModelSet.has(model),
+            ),
+          };
+
+          let nextSelectedModel = state.selectedModel;
+          if (state.selectedProvider === provider) {
+            const visibleModels = getVisibleModelsForProvider(
+              provider,
+              nextAvailableModels,
+              nextCustomModels,
+              state.hiddenModels,
+            );
+
+            if (!visibleModels.includes(state.selectedModel)) {
+              nextSelectedModel = visibleModels[0] || "";
+            }
+          }
+
+          return applyRuntimeWriteVersion(state, {
+            availableModels: nextAvailableModels,
+            customModels: nextCustomModels,
+            selectedModel: nextSelectedModel,
+            modelCatalogs: {
+              ...state.modelCatalogs,
+              [provider]: { fetchedAt, ...changes },
+            },
+            ...(capabilities
+              ? { catalogCapabilities: { ...state.catalogCapabilities, [provider]: capabilities } }
+              : {}),
+            ...(pricing
+              ? { catalogPricing: { ...state.catalogPricing, [provider]: pricing } }
+              : {}),
+          });
+        }),
+
+      /**
+       * Stores or clears the user's capability override for a model
+       * @param provider - The provider the model belongs to
+       * @param model - The model id
+       * @param override - Capabilities to force, or null to go back to detection
+       */
+      setModelCapabilityOverride: (provider, model, override) =>
+        set((state) => {
+          const { [model]: _previous, ...otherModels } = state.capabilityOverrides[provider] || {};
+          const hasOverride = override !== null && Object.keys(override).length > 0;
+
+          return applyRuntimeWriteVersion(state, {
+            capabilityOverrides: {
+              ...state.capabilityOverrides,
+              [provider]: hasOverride ? { ...otherModels, [model]: override } : otherModels,
+            },
+          });
+        }),
+
+      /**
+       * Stores or clears the price the user entered for a model
+       * @param provider - The provider the model belongs to
+       * @param model - The model id
+       * @param override - Prices per million tokens, or null to use the catalog price
+       */
+      setModelPricingOverride: (provider, model, override) =>
+        set((state) => {
+          const { [model]: _previous, ...otherModels } = state.pricingOverrides[provider] || {};
+
+          return applyRuntimeWriteVersion(state, {
+            pricingOverrides: {
+              ...state.pricingOverrides,
+              [provider]: override ? { ...otherModels, [model]: override } : otherModels,
+            },
+          });
+        }),
+
+      /**
+       * Stores the user's fallback chain
+       * @param chain - Steps in the order they are tried, or null for the built-in order
+       */
+      setFallbackChain: (fallbackChain) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            fallbackChain,
+          }),
+        ),
+
+      /**
+       * Stores which error categories trigger a fallback
+       * @param triggers - Categories to fall back on, or null for the built-in choice
+       */
+      setFallbackTriggers: (fallbackTriggers) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            fallbackTriggers,
+          }),
+        ),
+
+      /**
+       * Stores how long a retry may wait for a rate limit to lift
+       * @param limitMs - Longest wait in milliseconds, or null for the built-in limit
+       */
+      setRateLimitWaitLimit: (rateLimitWaitLimitMs) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            rateLimitWaitLimitMs,
+          }),
+        ),
+
       // ========================================================================
       // CUSTOM MODEL MANAGEMENT ACTIONS
       // ========================================================================
@@ -505,9 +737,44 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
             availableModels: DEFAULT_MODELS,
             customModels: DEFAULT_CUSTOM_MODELS,
             hiddenModels: DEFAULT_HIDDEN_MODELS,
+            modelCatalogs: {},
+            catalogCapabilities: {},
+            capabilityOverrides: {},
+            catalogPricing: {},
+            pricingOverrides: {},
+            fallbackChain: null,
+            fallbackTriggers: null,
+            rateLimitWaitLimitMs: null,
           }),
         ),
 
+      /**
+       * Drops the fetched, custom and hidden model lists, capability overrides, prices
+       * and fallback step of a provider
+       * @param provider - The provider whose lists should be forgotten
+       * @description Used when a custom endpoint is deleted. If the endpoint
+       * was selected, the selection falls back to the default Ollama model.
+       */
+      removeProviderModels: (provider) =>
+        set((state) => {
+          const withoutProvider = <T extends object>(lists: T): T => {
+            const { [provider]: _removed, ...rest } = lists as Record<string, unknown>;
+            return rest as T;
+          };
+          const wasSelected = state.selectedProvider === provider;
+
+          return applyRuntimeWriteVersion(state, {
+            availableModels: withoutProvider(state.availableModels),
+            customModels: withoutProvider(state.customModels),
+            hiddenModels: withoutProvider(state.hiddenModels),
+            capabilityOverrides: withoutProvider(state.capabilityOverrides),
+            pricingOverrides: withoutProvider(state.pricingOverrides),
+            fallbackChain: state.fallbackChain?.filter((entry) => entry.providerId !== provider) ?? null,
+            selectedProvider: wasSelected ? "ollama" : state.selectedProvider,
+            selectedModel: wasSelected ? DEFAULT_MODELS.ollama[0] : state.selectedModel,
+          });
+        }),
+
       /**
        * Sets hidden models configuration for all providers
        * @param models - Complete hidden models record
@@ -541,6 +808,14 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
         availableModels: state.availableModels,
         customModels: state.customModels,
         hiddenModels: state.hiddenModels,
+        modelCatalogs: state.modelCatalogs,
+        catalogCapabilities: state.catalogCapabilities,
+        capabilityOverrides: state.capabilityOverrides,
+        catalogPricing: state.catalogPricing,
+        pricingOverrides: state.pricingOverrides,
+        fallbackChain: state.fallbackChain,
+        fallbackTriggers: state.fallbackTriggers,
+        rateLimitWaitLimitMs: state.rateLimitWaitLimitMs,
         __meta: {
           writeVersion: state.__meta.writeVersion,
         },
@@ -570,5 +845,58 @@ export const useProviderStore = create<ProviderState & ProviderActions>()(
  * model for a provider, used throughout the app for fallback model selection.
  */
 export function getDefaultModelForProvider(provider: ProviderId): string {
+  if (isCustomProviderId(provider)) {
+    const { availableModels, customModels, hiddenModels } = useProviderStore.getState();
+    return getVisibleModelsForProvider(provider, availableModels, customModels, hiddenModels)[0] || "";
+  }
+
   return DEFAULT_MODELS[provider][0] || "";
 }
+
+/**
+ * Resolves what a model can do from built-in data, the stored catalog
+ * metadata and the user's overrides
+ * @param provider - The provider the model belongs to
+ * @param model - The model id
+ * @returns The merged capabilities used to enable or disable chat features
+ */
+export function getModelCapabilities(provider: ProviderId, model: string): ModelCapabilities {
+  const { catalogCapabilities, capabilityOverrides } = useProviderStore.getState();
+  return resolveModelCapabilities(
+    provider,
+    model,
+    selectModelCapabilitySources(provider, model, catalogCapabilities, capabilityOverrides),
+  );
+}
+
+/**
+ * Resolves what a model charges from the user's prices and the stored
+ * catalog prices
+ * @param provider - The provider the model belongs to
+ * @param model - The model id
+ * @returns Prices per million tokens, or null when the model has no known price
+ */
+export function getModelPricing(provider: ProviderId, model: string): ModelPricing | null {
+  const { catalogPricing, pricingOverrides } = useProviderStore.getState();
+  return resolveModelPricing(provider, {
+    catalog: catalogPricing?.[provider]?.[model],
+    override: pricingOverrides?.[provider]?.[model],
+  });
+}
+
+/**
+ * Reads the user's fallback configuration for the fallback chain
+ * @returns The saved chain, trigger categories and rate-limit wait; null fields mean built-in behavior
+ */
+export function getFallbackSettings(): {
+  chain: FallbackChainEntry[] | null;
+  triggers: ErrorCategory[] | null;
+  rateLimitWaitLimitMs: number | null;
+} {
+  const { fallbackChain, fallbackTriggers, rateLimitWaitLimitMs } = useProviderStore.getState();
+  return {
+    chain: fallbackChain ?? null,
+    triggers: fallbackTriggers ?? null,
+    rateLimitWaitLimitMs: rateLimitWaitLimitMs ?? null,
+  };
+}
@@ -3,7 +3,9 @@ import { createJSONStorage, persist } from "zustand/middleware";
 
 import type { ThemeMode } from "@/components/ui/theme-config";
 import { safeSecureStore } from "@/lib/safe-secure-store";
-import type { ThinkingLevel } from "@/types/chat.types";
+import type { ThinkingLevel, ToolApprovalPolicy } from "@/types/chat.types";
+import type { EmbeddingSettings } from "@/types/document.types";
+import type { SearchBackendId } from "@/types/search.types";
 import {
   applyRuntimeWriteVersion,
   INITIAL_HYDRATION_META,
@@ -41,6 +43,14 @@ interface SettingsState {
   thinkingEnabled: boolean;
   thinkingLevel: ThinkingLevel;
   webSearchEnabled: boolean;
+  /** Backend web search asks first */
+  searchBackend: SearchBackendId;
+  /** Backend tried when the first one fails; null means none */
+  searchFallbackBackend: SearchBackendId | null;
+  /** Per-tool overrides keyed by tool key; tools without one use their default */
+  toolApprovalPolicies: Record<string, ToolApprovalPolicy>;
+  /** Model that indexes and searches the document library */
+  embeddingSettings: EmbeddingSettings;
   __meta: HydrationMetaState;
 }
 
@@ -49,6 +59,10 @@ interface SettingsActions {
   setThinkingEnabled: (enabled: boolean) => void;
   setThinkingLevel: (level: ThinkingLevel) => void;
   setWebSearchEnabled: (enabled: boolean) => void;
+  setSearchBackend: (backend: SearchBackendId) => void;
+  setSearchFallbackBackend: (backend: SearchBackendId | null) => void;
+  setToolApprovalPolicy: (toolKey: string, policy: ToolApprovalPolicy) => void;
+  setEmbeddingSettings: (settings: EmbeddingSettings) => void;
   resetSettings: () => void;
 }
 
@@ -57,6 +71,10 @@ const DEFAULT_SETTINGS: Omit<SettingsState, "__meta"> = {
   thinkingEnabled: true,
   thinkingLevel: "medium",
   webSearchEnabled: false,
+  searchBackend: "searxng",
+  searchFallbackBackend: null,
+  toolApprovalPolicies: {},
+  embeddingSettings: { providerId: "ollama", modelId: "nomic-embed-text" },
 };
 
 export const useSettingsStore = create<SettingsState & SettingsActions>()(
@@ -88,6 +106,33 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
             webSearchEnabled,
           }),
         ),
+      setSearchBackend: (searchBackend) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            searchBackend,
+          }),
+        ),
+      setSearchFallbackBackend: (searchFallbackBackend) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            searchFallbackBackend,
+          }),
+        ),
+      setToolApprovalPolicy: (toolKey, policy) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            toolApprovalPolicies: {
+              ...state.toolApprovalPolicies,
+              [toolKey]: policy,
+            },
+          }),
+        ),
+      setEmbeddingSettings: (embeddingSettings) =>
+        set((state) =>
+          applyRuntimeWriteVersion(state, {
+            embeddingSettings,
+          }),
+        ),
       resetSettings: () =>
         set((state) =>
           applyRuntimeWriteVersion(state, {
@@ -107,6 +152,10 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
         thinkingEnabled: state.thinkingEnabled,
         thinkingLevel: state.thinkingLevel,
         webSearchEnabled: state.webSearchEnabled,
+        searchBackend: state.searchBackend,
+        searchFallbackBackend: state.searchFallbackBackend,
+        toolApprovalPolicies: state.toolApprovalPolicies,
+        embeddingSettings: state.embeddingSettings,
         __meta: {
           writeVersion: state.__meta.writeVersion,
         },
@@ -5,11 +5,14 @@
  */
 
 import type { ModelMessage, LanguageModel } from "ai";
-import type { ProviderId } from "./provider.types";
+import type { DocumentSearcher } from "./document.types";
+import type { McpServer, McpToolKey } from "./mcp.types";
+import type { ErrorCategory, ProviderId } from "./provider.types";
+import type { SearchBackendConfig } from "./search.types";
 
 type ChunkHandler = (chunk: string, accumulated: string) => void;
 
-export type ChatAttachmentKind = "image" | "video";
+export type ChatAttachmentKind = "image" | "video" | "document";
 
 export interface ChatAttachment {
   id: string;
@@ -21,6 +24,8 @@ export interface ChatAttachment {
   width?: number;
   height?: number;
   durationMs?: number | null;
+  /** Pages in a PDF, counted when it was picked */
+  pageCount?: number;
 }
 
 export interface ChatSendPayload {
@@ -30,6 +35,67 @@ export interface ChatSendPayload {
 
 export type ChatSendInput = string | ChatSendPayload;
 
+/** Provider/model chosen for a single turn instead of the chat's active one */
+export interface TurnModelSelection {
+  providerId: ProviderId;
+  modelId: string;
+}
+
+/**
+ * A reply held up by a provider rate limit that reported when it resets.
+ * While the reply is streaming this is an automatic retry counting down;
+ * after it failed, it is how long a manual retry would have to wait.
+ */
+export interface ChatRateLimitWait {
+  /** When the limit lifts (ms since epoch) */
+  retryAt: number;
+  /** Another provider to send to instead, offered when the wait is too long */
+  fallback: TurnModelSelection | null;
+}
+
+/**
+ * Per-chat generation settings stored on the chat row. A chat started from a
+ * persona gets a copy of its prompt and temperature, which the user can then
+ * edit without touching the persona.
+ */
+export interface ChatSettings {
+  personaId: number | null;
+  systemPrompt: string | null;
+  temperature: number | null;
+  /** What to do with older turns once the conversation outgrows the model's context */
+  contextStrategy: ContextStrategy;
+  /** Rolling summary standing in for the oldest turns (summarize strategy only) */
+  contextSummary: ChatContextSummary | null;
+  /** Whether a failed reply may be retried on another provider */
+  fallbackPolicy: FallbackPolicy;
+  /** MCP tools switched off for this chat; every other tool of an enabled server is offered */
+  disabledTools: McpToolKey[];
+  /** Hostnames web tools may not open or cite in this chat, subdomains included */
+  blockedDomains: string[];
+  /** Library collections searchDocuments may read in this chat */
+  documentCollections: number[];
+}
+
+/**
+ * "allow" follows the app-wide fallback chain; "never" keeps every reply on
+ * the chat's own provider, for threads that must not leave it.
+ */
+export type FallbackPolicy = "allow" | "never";
+
+/**
+ * How the context budgeter makes room: drop the oldest turns, drop the oldest
+ * turns that hold no pinned message, or fold the oldest turns into a summary.
+ */
+export type ContextStrategy = "drop-oldest" | "keep-pinned" | "summarize";
+
+export interface ChatContextSummary {
+  text: string;
+  /** Number of leading messages the summary replaces */
+  coveredCount: number;
+  /** Signature of those messages; a mismatch means they were edited since */
+  signature: string;
+}
+
 export type StreamState = "idle" | "streaming" | "completing" | "completed" | "error" | "cancelled";
 
 export type ThinkingLevel = "low" | "medium" | "high";
@@ -44,9 +110,20 @@ export interface ChatWebSearchSource {
   snippet?: string;
   engine?: string;
   publishedDate?: string;
+  /** Author of a page opened with readUrl */
+  byline?: string;
+  /** The [n] the model cites this source with; one number per URL across a reply */
+  citationNumber?: number;
+  /** Set on document library passages, whose url is an in-app reference rather than a web page */
+  documentId?: number;
 }
 
 export interface ChatWebSearchQueryRun {
+  /**
+   * "read" runs opened one page; their query is the requested URL. "documents"
+   * runs searched the chat's document collections. Older runs are searches
+   */
+  kind?: "search" | "read" | "documents";
   query: string;
   provider: ProviderId;
   status: ChatWebSearchStatus;
@@ -69,6 +146,61 @@ export interface ChatActiveWebSearchState {
   annotation: ChatWebSearchAnnotation;
 }
 
+export type ChatToolCallStatus =
+  | "awaiting-approval"
+  | "running"
+  | "success"
+  | "error"
+  | "denied";
+
+/** Whether a tool runs straight away, waits for the user, or never runs */
+export type ToolApprovalPolicy = "auto" | "ask" | "deny";
+
+/** How a call got permission to run, or why it did not */
+export type ChatToolCallApproval = "auto" | "approved" | "edited" | "denied";
+
+/** One call the model made to a tool, kept as an audit record on the reply */
+export interface ChatToolCallRun {
+  /** Tool name as its source knows it */
+  toolName: string;
+  /** Where the tool lives, e.g. an MCP server name or "Web search" */
+  source: string;
+  provider: ProviderId;
+  status: ChatToolCallStatus;
+  approval?: ChatToolCallApproval;
+  /** Arguments the tool ran with (or would have), as JSON */
+  input: string;
+  /** Arguments the model proposed, kept when the user edited them */
+  proposedInput?: string;
+  /** What the tool returned, shortened for display */
+  output?: string;
+  error?: string;
+  startedAt: number;
+  completedAt?: number;
+  /** Time spent running the tool, excluding the wait for approval */
+  durationMs?: number;
+}
+
+export interface ChatToolCallAnnotation {
+  type: "tool-calls";
+  status: ChatToolCallStatus;
+  calls: ChatToolCallRun[];
+}
+
+/** A tool call waiting on the user, shown inline under its reply */
+export interface ChatPendingToolApproval {
+  id: string;
+  messageIndex: number;
+  toolName: string;
+  source: string;
+  /** Proposed arguments, pretty-printed JSON for editing */
+  input: string;
+}
+
+export type ToolApprovalDecision =
+  | { approved: false }
+  | { approved: true; input: unknown };
+
 export interface ChatErrorAnnotation {
   type: "error";
   error: string;
@@ -77,12 +209,88 @@ export interface ChatErrorAnnotation {
   provider?: ProviderId;
 }
 
-export type ChatMessageAnnotation = ChatErrorAnnotation | ChatWebSearchAnnotation;
+/** Marks a message the user wants kept when older turns are trimmed */
+export interface ChatPinAnnotation {
+  type: "pin";
+}
+
+/** Records which provider and model produced a regenerated reply */
+export interface ChatModelAnnotation {
+  type: "model";
+  provider: ProviderId;
+  modelId: string;
+}
+
+/** Token counts a provider reported for one reply, summed over its tool steps */
+export interface ChatTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Share of outputTokens spent on reasoning */
+  reasoningTokens: number;
+  /** Share of inputTokens served from the provider's prompt cache */
+  cachedInputTokens: number;
+}
+
+/** What producing an assistant reply used and cost */
+export interface ChatUsageAnnotation extends ChatTokenUsage {
+  type: "usage";
+  provider: ProviderId;
+  modelId: string;
+  /** US dollars at the prices known when the reply finished; null when the model has no price */
+  cost: number | null;
+}
+
+/** What a billed model call was for, as recorded in the usage ledger */
+export type UsageSource = "reply" | "compare" | "summary";
+
+/** One switch to another provider after the previous one failed */
+export interface ChatFallbackHop {
+  fromProvider: ProviderId;
+  fromModel: string;
+  toProvider: ProviderId;
+  toModel: string;
+  /** Why the previous provider was abandoned */
+  category: ErrorCategory;
+}
+
+/** The fallback hops taken before a reply was produced, in order */
+export interface ChatFallbackAnnotation {
+  type: "fallback";
+  hops: ChatFallbackHop[];
+}
+
+export type ChatMessageAnnotation =
+  | ChatErrorAnnotation
+  | ChatWebSearchAnnotation
+  | ChatToolCallAnnotation
+  | ChatModelAnnotation
+  | ChatPinAnnotation
+  | ChatUsageAnnotation
+  | ChatFallbackAnnotation;
 
 export type AnnotatedModelMessage = ModelMessage & {
   annotations?: ChatMessageAnnotation[];
 };
 
+/** Continuation of a conversation from a fork point to the end of that branch */
+export interface ChatBranchTail {
+  messages: ModelMessage[];
+  thinkingOutput: string[];
+  /** Forks further down this branch, kept so switching back restores them */
+  forks: ChatBranchFork[];
+}
+
+/**
+ * A point in the conversation where several continuations exist. The active
+ * variant is the one currently rendered in `messages`, so its slot is null.
+ */
+export interface ChatBranchFork {
+  /** Position of the first message that differs between variants */
+  ordinal: number;
+  activeIndex: number;
+  variants: (ChatBranchTail | null)[];
+}
+
 export interface UseChatOptions {
   initialMessages?: ModelMessage[];
   initialText?: string;
@@ -103,8 +311,30 @@ export interface UseChatOptions {
   thinkingLevel?: ThinkingLevel;
   /** Enable manual app-wide web search tool access */
   enableWebSearch?: boolean;
-  /** SearXNG instance URL used for web search */
-  searxngUrl?: string | null;
+  /** Web search backends in the order they are tried; empty leaves search off */
+  searchBackends?: SearchBackendConfig[];
+  /** MCP servers whose tools are offered to models that can call tools */
+  mcpServers?: McpServer[];
+  /** MCP tools switched off for this chat */
+  disabledTools?: McpToolKey[];
+  /** Hostnames web search and readUrl must skip in this chat */
+  blockedDomains?: string[];
+  /** Searches the document collections attached to this chat; null leaves searchDocuments out */
+  documentSearch?: DocumentSearcher | null;
+  /** Approval policy overrides by tool key; unset tools use their default */
+  toolApprovalPolicies?: Record<string, ToolApprovalPolicy>;
+  /** Chat-level system prompt, sent ahead of any tool instructions */
+  systemPrompt?: string | null;
+  /** Sampling temperature; omitted to keep the provider default */
+  temperature?: number | null;
+  /** How older turns are trimmed when the model's context fills up */
+  contextStrategy?: ContextStrategy;
+  /** Rolling summary of trimmed turns, sent with the system prompt */
+  contextSummary?: ChatContextSummary | null;
+  /** Called when the summarize strategy folds more turns into the summary */
+  onContextSummaryChange?: (summary: ChatContextSummary) => void;
+  /** Called for every billed call, so the usage ledger can record it */
+  onUsage?: (usage: ChatUsageAnnotation, source: UsageSource) => void;
   onError?: (error: unknown) => void;
   onComplete?: () => void;
   onFallback?: (from: ProviderId, to: ProviderId, reason: string) => void;
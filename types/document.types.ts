@@ -0,0 +1,35 @@
+/**
+ * @file document.types.ts
+ * @purpose Document library collections, the embedding model that indexes
+ * them, and the passages document search returns
+ * @connects-to document library, settings store, chat tool runtime
+ */
+
+/** Providers whose embedding endpoints can index the library */
+export type EmbeddingProviderId = "ollama" | "openai" | "gemini";
+
+export interface EmbeddingSettings {
+  providerId: EmbeddingProviderId;
+  modelId: string;
+}
+
+/** Indexing state of one library document */
+export type LibraryDocumentStatus = "indexing" | "ready" | "error";
+
+/** One passage that matched a document search */
+export interface DocumentSearchHit {
+  documentId: number;
+  documentName: string;
+  collectionName: string;
+  /** Zero-based position of the passage within its document */
+  chunkIndex: number;
+  chunkCount: number;
+  text: string;
+  /** Cosine similarity to the query, higher is closer */
+  score: number;
+}
+
+/** Answers searchDocuments; bound to the collections a chat has attached */
+export interface DocumentSearcher {
+  search: (query: string, options?: { signal?: AbortSignal }) => Promise<DocumentSearchHit[]>;
+}
@@ -0,0 +1,31 @@
+/**
+ * @file mcp.types.ts
+ * @purpose Model Context Protocol server and tool definitions
+ * @connects-to auth store, MCP client, chat tool runtime
+ */
+
+/** A tool as described by a server's tools/list */
+export interface McpToolDefinition {
+  name: string;
+  description: string | null;
+  /** JSON Schema of the tool's arguments */
+  inputSchema: Record<string, unknown>;
+}
+
+/** A remote tool server the user registered */
+export interface McpServer {
+  /** Slug derived from the first name the server was saved under; never changes */
+  id: string;
+  name: string;
+  /** Streamable HTTP endpoint, e.g. https://tools.example.com/mcp */
+  url: string;
+  /** Sent as a bearer token when set */
+  token: string | null;
+  /** A disabled server keeps its settings but offers no tools to chats */
+  enabled: boolean;
+  /** Tools from the last successful listing; empty until loaded */
+  tools: McpToolDefinition[];
+}
+
+/** "<server id>/<tool name>", the key per-chat tool switches are stored under */
+export type McpToolKey = `${string}/${string}`;
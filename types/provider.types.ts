@@ -4,6 +4,7 @@
  * @connects-to Providers, stores
  */
 
+/** Bundled fallback shown until the live model catalog has been fetched */
 export const OPENAI_MODELS: string[] = [
   "gpt-5.2",
   "gpt-5.1",
@@ -20,6 +21,25 @@ export const OPENAI_MODELS: string[] = [
   "gpt-3.5-turbo",
 ];
 
+export const ANTHROPIC_MODELS: string[] = [
+  "claude-opus-4-5",
+  "claude-sonnet-4-5",
+  "claude-haiku-4-5",
+  "claude-opus-4-1",
+  "claude-opus-4-0",
+  "claude-sonnet-4-0",
+  "claude-3-7-sonnet-latest",
+  "claude-3-5-haiku-latest",
+];
+
+export const GEMINI_MODELS: string[] = [
+  "gemini-2.5-pro",
+  "gemini-2.5-flash",
+  "gemini-2.5-flash-lite",
+  "gemini-2.0-flash",
+  "gemini-2.0-flash-lite",
+];
+
 export const OPENAI_CODEX_MODELS: string[] = [
   "gpt-5.5",
   "gpt-5.4",
@@ -27,6 +47,7 @@ export const OPENAI_CODEX_MODELS: string[] = [
   "gpt-5.3-codex",
 ];
 
+/** Bundled fallback shown until the live model catalog has been fetched */
 export const OPENROUTER_MODELS: string[] = [
   "openai/gpt-5.2",
   "openai/gpt-5.1",
@@ -48,6 +69,7 @@ export const OPENROUTER_MODELS: string[] = [
   "mistralai/mistral-medium-3",
 ];
 
+/** Bundled fallback shown until the live model catalog has been fetched */
 export const OPENCODE_MODELS: string[] = [
   "glm-5.1",
   "glm-5",
@@ -102,7 +124,56 @@ export const OLLAMA_MODELS: string[] = [
   "starcoder2",
 ];
 
-export type ProviderId = "apple" | "openai" | "openai-codex" | "openrouter" | "opencode" | "ollama";
+/** Scripted scenarios played by the development-only mock provider */
+export const MOCK_MODELS: string[] = [
+  "mock-text",
+  "mock-echo",
+  "mock-reasoning",
+  "mock-tool-call",
+  "mock-stall",
+  "mock-mid-stream-error",
+  "mock-rate-limited",
+];
+
+export type BuiltInProviderId = "apple" | "openai" | "openai-codex" | "anthropic" | "gemini" | "openrouter" | "opencode" | "ollama" | "mock";
+
+/** User-defined OpenAI-compatible endpoints are addressed as "custom:<slug>" */
+export type CustomProviderId = `custom:${string}`;
+
+export type ProviderId = BuiltInProviderId | CustomProviderId;
+
+export const CUSTOM_PROVIDER_PREFIX = "custom:";
+
+export const isCustomProviderId = (providerId: string): providerId is CustomProviderId => {
+  return providerId.startsWith(CUSTOM_PROVIDER_PREFIX)
+    && providerId.length > CUSTOM_PROVIDER_PREFIX.length;
+};
+
+/** A named OpenAI-compatible server such as LM Studio, vLLM or llama.cpp */
+export interface CustomEndpoint {
+  id: CustomProviderId;
+  name: string;
+  /** Base URL including the API version segment, e.g. http://192.168.1.20:1234/v1 */
+  baseUrl: string;
+  apiKey: string | null;
+  headers: Record<string, string>;
+}
+
+/** Providers whose model list is loaded live from the provider's list endpoint */
+export type ModelCatalogProviderId = Extract<BuiltInProviderId, "openai" | "openrouter" | "opencode">;
+
+export const MODEL_CATALOG_PROVIDERS: ModelCatalogProviderId[] = ["openai", "openrouter", "opencode"];
+
+export const isModelCatalogProvider = (providerId: ProviderId): providerId is ModelCatalogProviderId => {
+  return (MODEL_CATALOG_PROVIDERS as ProviderId[]).includes(providerId);
+};
+
+/** Outcome of the latest live catalog fetch, compared with the one before it */
+export interface ModelCatalogState {
+  fetchedAt: number;
+  addedModels: string[];
+  removedModels: string[];
+}
 
 export interface ProviderInfo {
   id: ProviderId;
@@ -113,7 +184,7 @@ export interface ProviderInfo {
   defaultModels: string[];
 }
 
-export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+export const PROVIDERS: Record<BuiltInProviderId, ProviderInfo> = {
   apple: {
     id: "apple",
     name: "Apple Intelligence",
@@ -138,6 +209,22 @@ export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
     requiresUrl: false,
     defaultModels: OPENAI_CODEX_MODELS,
   },
+  anthropic: {
+    id: "anthropic",
+    name: "Anthropic",
+    description: "Claude models direct from Anthropic",
+    requiresApiKey: true,
+    requiresUrl: false,
+    defaultModels: ANTHROPIC_MODELS,
+  },
+  gemini: {
+    id: "gemini",
+    name: "Google Gemini",
+    description: "Gemini models with your own Google AI Studio key",
+    requiresApiKey: true,
+    requiresUrl: false,
+    defaultModels: GEMINI_MODELS,
+  },
   openrouter: {
     id: "openrouter",
     name: "OpenRouter",
@@ -162,6 +249,14 @@ export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
     requiresUrl: true,
     defaultModels: OLLAMA_MODELS.slice(0, 8),
   },
+  mock: {
+    id: "mock",
+    name: "Mock",
+    description: "Scripted replies for development, no network",
+    requiresApiKey: false,
+    requiresUrl: false,
+    defaultModels: MOCK_MODELS,
+  },
 };
 
 export interface ProviderState {
@@ -177,10 +272,94 @@ export interface ProviderCapability {
   maxContextTokens?: number;
 }
 
-export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapability> = {
+/** What a specific model can take as input, resolved per provider and model */
+export interface ModelCapabilities {
+  vision: boolean;
+  video: boolean;
+  tools: boolean;
+  reasoning: boolean;
+  /** Context window in tokens, when known */
+  contextTokens?: number;
+}
+
+/** Partial capabilities reported by a live catalog or set by the user */
+export type ModelCapabilityPatch = Partial<ModelCapabilities>;
+
+export type ModelCapabilityFlag = Exclude<keyof ModelCapabilities, "contextTokens">;
+
+/** What a model charges, in US dollars per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt tokens read from the provider's cache; billed at the input price when unset */
+  cachedInput?: number;
+}
+
+export const MODEL_CAPABILITY_FLAGS: ModelCapabilityFlag[] = ["vision", "video", "tools", "reasoning"];
+
+/**
+ * Error categories for determining fallback behavior
+ *
+ * Each category represents a different type of failure that may occur during
+ * provider communication. classifyError() in providers/fallback-chain.ts maps
+ * errors onto these, and the user picks which of them trigger a fallback.
+ */
+export type ErrorCategory =
+  | "configuration"   // Missing API key, URL, or setup issues
+  | "network"         // Network connectivity or DNS issues
+  | "rate_limit"      // API rate limiting or quota exceeded
+  | "context_length"  // Prompt is larger than the model's context window
+  | "authentication"  // Invalid credentials, expired tokens
+  | "model_not_found" // Requested model doesn't exist for provider
+  | "server_error"    // Provider server errors (5xx responses)
+  | "timeout"         // Request timeout or slow response
+  | "unknown";        // Uncategorized or unexpected errors
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  "configuration",
+  "authentication",
+  "rate_limit",
+  "server_error",
+  "network",
+  "timeout",
+  "model_not_found",
+  "context_length",
+  "unknown",
+];
+
+/** Which of a provider's quotas a rate limit counted against */
+export type RateLimitKind = "requests" | "tokens";
+
+/**
+ * What a rate-limited response said about its limit, read from Retry-After,
+ * x-ratelimit-* and OpenRouter's error metadata. Fields the provider did not
+ * send are null.
+ */
+export interface RateLimitInfo {
+  /** When a retry is expected to succeed (ms since epoch) */
+  resetAt: number | null;
+  /** Quota left in the limit that was hit */
+  remaining: number | null;
+  /** Size of the limit that was hit */
+  limit: number | null;
+  limitKind: RateLimitKind | null;
+}
+
+/**
+ * One step of the user's fallback chain. A null modelId uses the provider's
+ * default model at the time of the fallback.
+ */
+export interface FallbackChainEntry {
+  providerId: ProviderId;
+  modelId: string | null;
+}
+
+export const PROVIDER_CAPABILITIES: Record<BuiltInProviderId, ProviderCapability> = {
   apple: {
     supportsStreaming: true,
     supportsSystemMessages: true,
+    // The on-device foundation model has a fixed 4K window
+    maxContextTokens: 4096,
   },
   openai: {
     supportsStreaming: true,
@@ -192,6 +371,16 @@ export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapability> = {
     supportsSystemMessages: true,
     maxContextTokens: 400000,
   },
+  anthropic: {
+    supportsStreaming: true,
+    supportsSystemMessages: true,
+    maxContextTokens: 200000,
+  },
+  gemini: {
+    supportsStreaming: true,
+    supportsSystemMessages: true,
+    maxContextTokens: 1048576,
+  },
   openrouter: {
     supportsStreaming: true,
     supportsSystemMessages: true,
@@ -204,6 +393,49 @@ export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapability> = {
     supportsStreaming: true,
     supportsSystemMessages: true,
   },
+  mock: {
+    supportsStreaming: true,
+    supportsSystemMessages: true,
+    maxContextTokens: 32000,
+  },
+};
+
+const CUSTOM_ENDPOINT_CAPABILITIES: ProviderCapability = {
+  supportsStreaming: true,
+  supportsSystemMessages: true,
+};
+
+/**
+ * Looks up display info for built-in providers and for the custom endpoints
+ * passed in. Returns undefined for custom ids that no longer exist.
+ */
+export const resolveProviderInfo = (
+  providerId: ProviderId,
+  customEndpoints: CustomEndpoint[] = [],
+): ProviderInfo | undefined => {
+  if (!isCustomProviderId(providerId)) {
+    return PROVIDERS[providerId];
+  }
+
+  const endpoint = customEndpoints.find((entry) => entry.id === providerId);
+  if (!endpoint) {
+    return undefined;
+  }
+
+  return {
+    id: endpoint.id,
+    name: endpoint.name,
+    description: endpoint.baseUrl,
+    requiresApiKey: false,
+    requiresUrl: true,
+    defaultModels: [],
+  };
+};
+
+export const resolveProviderCapability = (providerId: ProviderId): ProviderCapability | undefined => {
+  return isCustomProviderId(providerId)
+    ? CUSTOM_ENDPOINT_CAPABILITIES
+    : PROVIDER_CAPABILITIES[providerId];
 };
 
 const modelMatchesCandidate = (modelId: string, candidate: string): boolean => {
@@ -214,7 +446,16 @@ export const isVideoCapableModel = (
   providerId: ProviderId,
   modelId: string,
 ): boolean => {
-  if (providerId !== "openrouter" || !modelId) {
+  if (!modelId) {
+    return false;
+  }
+
+  // Every Gemini chat model accepts inline video through the native API.
+  if (providerId === "gemini") {
+    return modelId.trim().toLowerCase().startsWith("gemini-");
+  }
+
+  if (providerId !== "openrouter") {
     return false;
   }
 
@@ -237,6 +478,16 @@ const OPENAI_NON_REASONING_MODEL_PREFIXES: string[] = ["gpt-5-chat"];
 
 const OPENAI_CODEX_REASONING_MODEL_PREFIXES: string[] = ["gpt-5"];
 
+// Claude models from 3.7 Sonnet onward accept an extended thinking budget.
+const ANTHROPIC_REASONING_MODEL_PREFIXES: string[] = [
+  "claude-3-7-sonnet",
+  "claude-sonnet-4",
+  "claude-opus-4",
+  "claude-haiku-4",
+];
+
+const GEMINI_REASONING_MODEL_PREFIXES: string[] = ["gemini-2.5", "gemini-3"];
+
 const OPENROUTER_REASONING_MODEL_PREFIXES: string[] = [
   "openai/o1",
   "openai/o3",
@@ -288,6 +539,10 @@ export const isThinkingCapableModel = (
     }
     case "openai-codex":
       return startsWithAny(normalizedModelId, OPENAI_CODEX_REASONING_MODEL_PREFIXES);
+    case "anthropic":
+      return startsWithAny(normalizedModelId, ANTHROPIC_REASONING_MODEL_PREFIXES);
+    case "gemini":
+      return startsWithAny(normalizedModelId, GEMINI_REASONING_MODEL_PREFIXES);
     case "openrouter": {
       if (normalizedModelId.includes(":thinking")) {
         return true;
@@ -301,3 +556,169 @@ export const isThinkingCapableModel = (
       return false;
   }
 };
+
+const OPENAI_VISION_MODEL_PREFIXES: string[] = [
+  "gpt-4o",
+  "chatgpt-4o",
+  "gpt-4.1",
+  "gpt-4.5",
+  "gpt-4-turbo",
+  "gpt-5",
+  "o1",
+  "o3",
+  "o4",
+  "computer-use-preview",
+];
+
+const OPENAI_NON_VISION_MODEL_PREFIXES: string[] = [
+  "o1-mini",
+  "o1-preview",
+  "o3-mini",
+  "gpt-4o-audio",
+  "gpt-4o-mini-audio",
+];
+
+const OPENAI_NON_TOOL_MODEL_PREFIXES: string[] = ["o1-mini", "o1-preview", "chatgpt-4o"];
+
+// Ollama only reports vision support per model through /api/show, so known families are matched by name.
+const OLLAMA_VISION_HINT_PREFIXES: string[] = [
+  "llava",
+  "bakllava",
+  "llama3.2-vision",
+  "llama4",
+  "gemma3",
+  "qwen2.5vl",
+  "qwen3-vl",
+  "minicpm-v",
+  "moondream",
+  "granite3.2-vision",
+  "mistral-small3.1",
+  "mistral-small3.2",
+];
+
+const isOpenAIVisionModel = (normalizedModelId: string): boolean => {
+  if (startsWithAny(normalizedModelId, OPENAI_NON_VISION_MODEL_PREFIXES)) {
+    return false;
+  }
+  return startsWithAny(normalizedModelId, OPENAI_VISION_MODEL_PREFIXES);
+};
+
+/**
+ * Whether the model accepts image input. Providers without per-model data
+ * (OpenRouter before its catalog loads, Opencode, custom endpoints) stay
+ * permissive so an unfamiliar model is never locked out.
+ */
+export const isVisionCapableModel = (
+  providerId: ProviderId,
+  modelId: string,
+): boolean => {
+  const normalizedModelId = modelId.trim().toLowerCase();
+
+  switch (providerId) {
+    case "apple":
+      return false;
+    case "openai":
+      return isOpenAIVisionModel(normalizedModelId);
+    case "openai-codex":
+      return true;
+    case "anthropic":
+      return normalizedModelId.startsWith("claude-");
+    case "gemini":
+      return normalizedModelId.startsWith("gemini-");
+    case "ollama":
+      return startsWithAny(normalizedModelId, OLLAMA_VISION_HINT_PREFIXES);
+    case "openrouter": {
+      if (normalizedModelId.startsWith("openai/")) {
+        return isOpenAIVisionModel(normalizedModelId.slice("openai/".length));
+      }
+      return true;
+    }
+    default:
+      return true;
+  }
+};
+
+export const isToolCapableModel = (
+  providerId: ProviderId,
+  modelId: string,
+): boolean => {
+  const normalizedModelId = modelId.trim().toLowerCase();
+
+  if (providerId === "openai") {
+    return !startsWithAny(normalizedModelId, OPENAI_NON_TOOL_MODEL_PREFIXES);
+  }
+  if (providerId === "openrouter" && normalizedModelId.startsWith("openai/")) {
+    return !startsWithAny(normalizedModelId.slice("openai/".length), OPENAI_NON_TOOL_MODEL_PREFIXES);
+  }
+  return true;
+};
+
+// Context windows by model family, checked in order so a more specific prefix wins.
+// Models that match none keep their provider's default.
+const MODEL_CONTEXT_TOKENS: Partial<Record<BuiltInProviderId, [prefix: string, tokens: number][]>> = {
+  openai: [
+    ["gpt-5-chat", 128000],
+    ["gpt-5", 400000],
+    ["gpt-4.1", 1047576],
+    ["gpt-4.5", 128000],
+    ["gpt-4o", 128000],
+    ["chatgpt-4o", 128000],
+    ["gpt-4-turbo", 128000],
+    ["gpt-3.5-turbo", 16385],
+    ["o1-mini", 128000],
+    ["o1-preview", 128000],
+    ["o1", 200000],
+    ["o3", 200000],
+    ["o4", 200000],
+    ["codex-mini", 200000],
+  ],
+  // Claude's 1M window needs a beta header this app does not send
+  anthropic: [
+    ["claude-2.0", 100000],
+    ["claude-", 200000],
+  ],
+  gemini: [
+    ["gemini-1.5-pro", 2097152],
+    ["gemini-1.0", 32768],
+    ["gemini-pro", 32768],
+    ["gemini-", 1048576],
+  ],
+};
+
+// OpenRouter ids carry the vendor, so its models share the vendor's table until the catalog loads.
+const OPENROUTER_VENDOR_PROVIDERS: [prefix: string, providerId: BuiltInProviderId][] = [
+  ["openai/", "openai"],
+  ["anthropic/", "anthropic"],
+  ["google/", "gemini"],
+];
+
+const getModelContextTokens = (providerId: ProviderId, modelId: string): number | undefined => {
+  let normalizedModelId = modelId.trim().toLowerCase();
+  let tableProviderId: ProviderId = providerId;
+
+  if (providerId === "openrouter") {
+    const vendor = OPENROUTER_VENDOR_PROVIDERS.find(([prefix]) => normalizedModelId.startsWith(prefix));
+    if (vendor) {
+      normalizedModelId = normalizedModelId.slice(vendor[0].length);
+      tableProviderId = vendor[1];
+    }
+  }
+
+  const entries = isCustomProviderId(tableProviderId) ? undefined : MODEL_CONTEXT_TOKENS[tableProviderId];
+  const match = entries?.find(([prefix]) => normalizedModelId.startsWith(prefix));
+  return match?.[1] ?? resolveProviderCapability(providerId)?.maxContextTokens;
+};
+
+/** Capabilities known without any catalog data or user overrides */
+export const getBuiltInModelCapabilities = (
+  providerId: ProviderId,
+  modelId: string,
+): ModelCapabilities => {
+  return {
+    vision: isVisionCapableModel(providerId, modelId),
+    video: isVideoCapableModel(providerId, modelId),
+    tools: isToolCapableModel(providerId, modelId),
+    reasoning: isThinkingCapableModel(providerId, modelId),
+    contextTokens: getModelContextTokens(providerId, modelId),
+  };
+};
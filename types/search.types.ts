@@ -0,0 +1,46 @@
+/**
+ * @file search.types.ts
+ * @purpose Web search backends and the settings each one needs
+ * @connects-to auth store, settings store, search backends, chat tool runtime
+ */
+
+export type SearchBackendId = "searxng" | "brave" | "tavily" | "kagi" | "json";
+
+/**
+ * Where the generic JSON backend finds each result field. Paths are
+ * dot-separated, e.g. "data.items" or "meta.published".
+ */
+export interface JsonSearchFieldMapping {
+  /** Array of results in the response body */
+  results: string;
+  title: string;
+  url: string;
+  /** Empty when results carry no snippet */
+  snippet: string;
+  /** Empty when results carry no date */
+  publishedDate: string;
+}
+
+/** One configured backend, with everything needed to call it */
+export type SearchBackendConfig =
+  | { id: "searxng"; url: string }
+  | { id: "brave"; apiKey: string }
+  | {
+    id: "tavily";
+    /** Search endpoint of Tavily or a service with the same request and response shape */
+    url: string;
+    apiKey: string;
+  }
+  | { id: "kagi"; apiKey: string }
+  | {
+    id: "json";
+    /** GET endpoint; "{query}" is replaced with the query, otherwise it is sent as ?q= */
+    url: string;
+    apiKey: string | null;
+    /** Header the key is sent in; "Authorization" sends it as a bearer token */
+    apiKeyHeader: string;
+    fields: JsonSearchFieldMapping;
+  };
+
+/** Backends whose settings live in the searchBackends list; SearXNG keeps its own URL field */
+export type StoredSearchBackendConfig = Exclude<SearchBackendConfig, { id: "searxng" }>;